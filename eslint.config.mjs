@@ -40,6 +40,7 @@ export default [
         AbortSignal: 'readonly',
         URL: 'readonly',
         URLSearchParams: 'readonly',
+        structuredClone: 'readonly',
       },
     },
     plugins: {
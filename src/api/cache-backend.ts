@@ -0,0 +1,92 @@
+/**
+ * Response Cache Backends
+ *
+ * Storage interface behind `InsightsApiClient`'s response cache. Freshness and
+ * stale windows are decided by the client; backends only store entries and bound
+ * their size with least-recently-used eviction.
+ *
+ * - `MemoryCacheBackend`: per-process `Map` (default)
+ * - `FileCacheBackend`: JSON files on disk, shared across restarts and processes
+ *   (see ./file-cache-backend.ts)
+ */
+
+/**
+ * Cached API response
+ */
+export interface CacheEntry<T> {
+  data: T;
+  fetchedAt: number; // Unix timestamp in milliseconds
+  expires: number; // Unix timestamp in milliseconds
+  endpoint: string;
+}
+
+/**
+ * Storage for cached API responses
+ *
+ * Implementations must tolerate concurrent use and should never throw for a
+ * missing key.
+ */
+export interface CacheBackend {
+  /** Get an entry (and mark it as recently used) */
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+
+  /** Store an entry, evicting least recently used entries over the size limit */
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+
+  /** Remove an entry */
+  delete(key: string): Promise<void>;
+
+  /** Remove all entries */
+  clear(): Promise<void>;
+}
+
+/**
+ * Default maximum number of cached responses
+ */
+export const DEFAULT_MAX_CACHE_ENTRIES = 1000;
+
+/**
+ * In-memory LRU cache backend
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  private readonly entries: Map<string, CacheEntry<unknown>> = new Map();
+
+  /**
+   * @param maxEntries - Maximum entries kept before evicting the least recently used
+   */
+  constructor(private readonly maxEntries: number = DEFAULT_MAX_CACHE_ENTRIES) {}
+
+  get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = this.entries.get(key) as CacheEntry<T> | undefined;
+    if (entry) {
+      // Map iteration order doubles as recency order
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return Promise.resolve(entry);
+  }
+
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next();
+      if (oldest.done) {
+        break;
+      }
+      this.entries.delete(oldest.value);
+    }
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+
+  clear(): Promise<void> {
+    this.entries.clear();
+    return Promise.resolve();
+  }
+}
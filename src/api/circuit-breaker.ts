@@ -0,0 +1,182 @@
+/**
+ * Per-Endpoint Circuit Breaker
+ *
+ * Stops calling an endpoint after repeated upstream failures so requests fail
+ * immediately instead of waiting for timeouts while the API is down.
+ *
+ * - `closed`: requests flow normally; consecutive failures are counted.
+ * - `open`: requests are short-circuited until `resetMs` has passed.
+ * - `half-open`: one trial request is let through; success closes the circuit,
+ *   failure opens it again.
+ */
+
+/**
+ * Circuit state
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker configuration
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (0 disables the breaker) */
+  failureThreshold: number;
+
+  /** Time the circuit stays open before allowing a trial request, in milliseconds */
+  resetMs: number;
+
+  /** Clock override for tests */
+  now?: () => number;
+}
+
+/**
+ * Circuit status for one key
+ */
+export interface CircuitStatus {
+  state: CircuitState;
+
+  /** Consecutive failures recorded */
+  failures: number;
+
+  /** Milliseconds until a trial request is allowed (0 unless open) */
+  retryAfterMs: number;
+
+  /** Message of the failure that opened the circuit */
+  lastError?: string;
+}
+
+/**
+ * Internal circuit record
+ */
+interface Circuit {
+  failures: number;
+  openedAt?: number;
+  trialInFlight: boolean;
+  lastError?: string;
+}
+
+/**
+ * Circuit breaker tracking independent circuits per key (endpoint path)
+ */
+export class CircuitBreaker {
+  private readonly circuits: Map<string, Circuit> = new Map();
+  private readonly now: () => number;
+
+  constructor(private readonly options: CircuitBreakerOptions) {
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Check whether a request may be sent, reserving the trial slot when half-open
+   *
+   * @param key - Circuit key (endpoint path)
+   * @returns True if the request may proceed
+   */
+  tryAcquire(key: string): boolean {
+    if (this.options.failureThreshold <= 0) {
+      return true;
+    }
+
+    const circuit = this.circuits.get(key);
+    if (!circuit) {
+      return true;
+    }
+
+    const state = this.stateOf(circuit);
+    if (state === 'closed') {
+      return true;
+    }
+    if (state === 'half-open' && !circuit.trialInFlight) {
+      circuit.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Record a successful request, closing the circuit
+   */
+  recordSuccess(key: string): void {
+    this.circuits.delete(key);
+  }
+
+  /**
+   * Record a failed request, opening the circuit at the threshold
+   *
+   * @param key - Circuit key (endpoint path)
+   * @param error - Failure description kept for error messages
+   */
+  recordFailure(key: string, error?: string): void {
+    if (this.options.failureThreshold <= 0) {
+      return;
+    }
+
+    const circuit = this.circuits.get(key) ?? { failures: 0, trialInFlight: false };
+    const wasTrial = circuit.trialInFlight;
+
+    circuit.failures += 1;
+    circuit.trialInFlight = false;
+    circuit.lastError = error;
+
+    if (wasTrial || circuit.failures >= this.options.failureThreshold) {
+      circuit.openedAt = this.now();
+    }
+
+    this.circuits.set(key, circuit);
+  }
+
+  /**
+   * Release a reserved trial slot without recording an outcome
+   *
+   * Used when the trial request ends with an error that says nothing about
+   * upstream health (e.g. a 404).
+   */
+  release(key: string): void {
+    const circuit = this.circuits.get(key);
+    if (circuit) {
+      circuit.trialInFlight = false;
+    }
+  }
+
+  /**
+   * Current status of a circuit
+   */
+  getStatus(key: string): CircuitStatus {
+    const circuit = this.circuits.get(key);
+    if (!circuit) {
+      return { state: 'closed', failures: 0, retryAfterMs: 0 };
+    }
+
+    const state = this.stateOf(circuit);
+    return {
+      state,
+      failures: circuit.failures,
+      retryAfterMs:
+        state === 'open' && circuit.openedAt !== undefined
+          ? Math.max(0, circuit.openedAt + this.options.resetMs - this.now())
+          : 0,
+      lastError: circuit.lastError,
+    };
+  }
+
+  /**
+   * Status of every circuit that has recorded failures
+   */
+  getAllStatuses(): Record<string, CircuitStatus> {
+    const statuses: Record<string, CircuitStatus> = {};
+    for (const key of this.circuits.keys()) {
+      statuses[key] = this.getStatus(key);
+    }
+    return statuses;
+  }
+
+  /**
+   * Derive the state of a circuit from its failure count and open time
+   */
+  private stateOf(circuit: Circuit): CircuitState {
+    if (circuit.openedAt === undefined) {
+      return 'closed';
+    }
+    return this.now() - circuit.openedAt >= this.options.resetMs ? 'half-open' : 'open';
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * File Cache Backend
+ *
+ * Persists cached API responses as one JSON file per key so the cache survives
+ * server restarts (MCP hosts restart stdio servers often) and can be shared by
+ * several server processes.
+ *
+ * Multi-process safety:
+ * - Writes go to a unique temp file and are renamed into place, so readers never
+ *   see partial files and concurrent writers simply last-write-win.
+ * - Missing files (removed by another process) are treated as cache misses.
+ * - Unreadable or corrupt files are removed and treated as misses.
+ *
+ * LRU eviction uses file modification times, which are bumped on every read.
+ * The entry count and total size are tracked in memory, seeded by one directory
+ * scan on the first write; the directory is only scanned again when a write
+ * takes the tracked usage over a limit. Files written by other processes are
+ * therefore counted at the next scan, not as they appear.
+ */
+
+import { createHash, randomUUID } from 'node:crypto';
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  stat,
+  unlink,
+  utimes,
+  writeFile,
+} from 'node:fs/promises';
+import { join } from 'node:path';
+import { CacheBackend, CacheEntry, DEFAULT_MAX_CACHE_ENTRIES } from './cache-backend.js';
+
+/**
+ * Default maximum total size of cache files (50 MB)
+ */
+export const DEFAULT_MAX_CACHE_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Temp files older than this are leftovers from crashed writers
+ */
+const STALE_TEMP_FILE_AGE = 60_000;
+
+/**
+ * File cache configuration
+ */
+export interface FileCacheBackendOptions {
+  /** Directory holding the cache files (created on first write) */
+  directory: string;
+
+  /** Maximum number of cached responses */
+  maxEntries?: number;
+
+  /** Maximum total size of cache files in bytes */
+  maxBytes?: number;
+}
+
+/**
+ * Stored file contents; the key is kept to detect hash collisions
+ */
+interface CacheFile<T> {
+  key: string;
+  entry: CacheEntry<T>;
+}
+
+/**
+ * File-based LRU cache backend
+ */
+export class FileCacheBackend implements CacheBackend {
+  private readonly directory: string;
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+
+  /** Size of each known cache file by path; undefined until the first scan */
+  private usage: Map<string, number> | undefined;
+
+  /** Total size of the known cache files */
+  private usageBytes = 0;
+
+  constructor(options: FileCacheBackendOptions) {
+    this.directory = options.directory;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_CACHE_ENTRIES;
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_CACHE_BYTES;
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const path = this.pathFor(key);
+
+    let raw: string;
+    try {
+      raw = await readFile(path, 'utf8');
+    } catch (error) {
+      if (isNotFound(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+
+    let file: CacheFile<T>;
+    try {
+      file = JSON.parse(raw) as CacheFile<T>;
+    } catch {
+      await this.remove(path);
+      return undefined;
+    }
+
+    if (file.key !== key || typeof file.entry !== 'object' || file.entry === null) {
+      return undefined;
+    }
+
+    // Mark as recently used; another process may have removed it meanwhile
+    const now = new Date();
+    await utimes(path, now, now).catch(() => undefined);
+
+    return file.entry;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    const path = this.pathFor(key);
+    const tempPath = `${path}.${process.pid}.${randomUUID()}.tmp`;
+    const file: CacheFile<T> = { key, entry };
+    const contents = JSON.stringify(file);
+
+    try {
+      await writeFile(tempPath, contents, 'utf8');
+      await rename(tempPath, path);
+    } catch (error) {
+      await this.remove(tempPath);
+      throw error;
+    }
+
+    if (!this.usage) {
+      await this.evict();
+      return;
+    }
+
+    this.track(path, Buffer.byteLength(contents));
+    if (this.usage.size > this.maxEntries || this.usageBytes > this.maxBytes) {
+      await this.evict();
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.remove(this.pathFor(key));
+  }
+
+  async clear(): Promise<void> {
+    const names = await this.listFiles();
+    await Promise.all(names.map((name) => this.remove(join(this.directory, name))));
+  }
+
+  /**
+   * Record the size of a cache file written by this process
+   */
+  private track(path: string, size: number): void {
+    if (!this.usage) {
+      return;
+    }
+    this.usageBytes += size - (this.usage.get(path) ?? 0);
+    this.usage.set(path, size);
+  }
+
+  /**
+   * Scan the directory, remove least recently used files until the entry and
+   * size limits hold, and reset the tracked usage to what remains
+   */
+  private async evict(): Promise<void> {
+    const names = await this.listFiles();
+    const now = Date.now();
+
+    const files: Array<{ path: string; size: number; usedAt: number }> = [];
+    for (const name of names) {
+      const path = join(this.directory, name);
+      try {
+        const info = await stat(path);
+        if (name.endsWith('.tmp')) {
+          if (now - info.mtimeMs > STALE_TEMP_FILE_AGE) {
+            await this.remove(path);
+          }
+          continue;
+        }
+        files.push({ path, size: info.size, usedAt: info.mtimeMs });
+      } catch (error) {
+        if (!isNotFound(error)) {
+          throw error;
+        }
+      }
+    }
+
+    files.sort((a, b) => a.usedAt - b.usedAt);
+    this.usage = new Map(files.map((file) => [file.path, file.size]));
+    this.usageBytes = files.reduce((sum, file) => sum + file.size, 0);
+
+    for (const file of files) {
+      if (this.usage.size <= this.maxEntries && this.usageBytes <= this.maxBytes) {
+        break;
+      }
+      await this.remove(file.path);
+    }
+  }
+
+  /**
+   * List cache and temp files (empty if the directory does not exist yet)
+   */
+  private async listFiles(): Promise<string[]> {
+    try {
+      const names = await readdir(this.directory);
+      return names.filter((name) => name.endsWith('.json') || name.endsWith('.tmp'));
+    } catch (error) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a file, ignoring files already removed by another process
+   */
+  private async remove(path: string): Promise<void> {
+    const size = this.usage?.get(path);
+    if (size !== undefined) {
+      this.usage?.delete(path);
+      this.usageBytes -= size;
+    }
+
+    try {
+      await unlink(path);
+    } catch (error) {
+      if (!isNotFound(error)) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * File path for a cache key (hashed to a safe file name)
+   */
+  private pathFor(key: string): string {
+    const hash = createHash('sha256').update(key).digest('hex');
+    return join(this.directory, `${hash}.json`);
+  }
+}
+
+/**
+ * Check whether a filesystem error means the file does not exist
+ */
+function isNotFound(error: unknown): boolean {
+  return (error as { code?: string } | undefined)?.code === 'ENOENT';
+}
@@ -19,7 +19,6 @@ import {
   BraiinsInsightsHashrateValue,
   BraiinsInsightsPoolStats,
   BraiinsInsightsPriceStats,
-  BraiinsInsightsRSSItem,
   BraiinsInsightsTransactionFees,
   BraiinsInsightsTransactionStats,
   BraiinsInsightsCostToMine,
@@ -27,10 +26,30 @@ import {
   BraiinsInsightsHardwareStats,
   BlocksQueryParams,
   CostToMineQueryParams,
+  EndpointResponse,
   HardwareStatsRequest,
-  isHashrateStats,
+  RESPONSE_SCHEMAS,
+  SchemaEndpoint,
 } from '../types/insights-api.js';
 import { BraiinsInsightsProfitability, ProfitabilityQueryParams } from '../types/profitability.js';
+import { CacheBackend, CacheEntry, MemoryCacheBackend } from './cache-backend.js';
+import { CircuitBreaker, CircuitStatus } from './circuit-breaker.js';
+import { getRequestContext, runWithRequestContext, StaleResponse } from './request-context.js';
+import {
+  RateLimitExceededError,
+  RateLimitMode,
+  RequestQueueMetrics,
+  RequestScheduler,
+} from './request-scheduler.js';
+import { validateResponse, ValidationError, ValidationMode } from './response-validation.js';
+import { EndpointSchemaStatus, SchemaDriftMonitor, SchemaHistoryInfo } from './schema-drift.js';
+import {
+  computeBackoff,
+  honorsRetryAfter,
+  isRetryableStatus,
+  parseRetryAfter,
+  RetryPolicy,
+} from './retry.js';
 
 /**
  * Base URL for Braiins Insights API
@@ -49,7 +68,7 @@ const DEFAULT_TIMEOUT = 10000; // 10 seconds
  * Cache TTL (Time To Live) for different endpoint types in milliseconds
  * Based on data update frequencies as documented in ARCHITECTURE.md
  */
-const CACHE_TTL = {
+export const CACHE_TTL = {
   // Fast-changing (30 seconds - 5 minutes)
   '/v1.0/blocks': 30_000, // New blocks ~every 10 min
   '/v1.0/hashrate-stats': 300_000, // Updates every 5 min
@@ -77,33 +96,63 @@ const CACHE_TTL = {
   '/v2.0/profitability-calculator': 300_000, // 5 min
 } as const;
 
+/**
+ * Endpoint path with a default cache TTL
+ */
+export type CachedEndpoint = keyof typeof CACHE_TTL;
+
+/**
+ * Default cache TTL for endpoints not listed in CACHE_TTL (5 minutes)
+ */
+const DEFAULT_CACHE_TTL = 300_000;
+
+/**
+ * Stale cache windows after an entry's TTL
+ *
+ * Within STALE_WHILE_REVALIDATE the cached data is returned immediately while a
+ * background request refreshes it. Within STALE_IF_ERROR the cached data is
+ * returned when the upstream request fails.
+ */
+const STALE_WHILE_REVALIDATE = 60_000; // 1 minute
+const STALE_IF_ERROR = 86_400_000; // 24 hours
+
 /**
  * Rate limiting configuration
  * Conservative limits since we don't know server-side limits for public API
  */
 const MAX_REQUESTS_PER_MINUTE = 30;
-const BURST_LIMIT = 5; // Max 5 requests per second
+const BURST_LIMIT = 5; // Max 5 requests back-to-back
+const MAX_QUEUE_WAIT = 30_000; // 30 seconds
 
 /**
- * Cache entry structure
+ * Retry and circuit breaker configuration
+ * Idempotent requests are retried on timeouts, network errors, 429 and 5xx
  */
-interface CacheEntry<T> {
-  data: T;
-  expires: number; // Unix timestamp in milliseconds
-  endpoint: string;
-}
+const MAX_RETRIES = 2;
+const RETRY_BASE_DELAY = 250;
+const RETRY_MAX_DELAY = 5_000;
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+const CIRCUIT_RESET = 30_000;
 
 /**
  * API client error class
  */
 export class InsightsApiError extends Error {
+  /** Retries made before giving up */
+  public readonly retries: number;
+  /** Delay requested by the server's `Retry-After` header */
+  public readonly retryAfterMs?: number;
+
   constructor(
     message: string,
     public readonly statusCode: number,
-    public readonly endpoint?: string
+    public readonly endpoint?: string,
+    options: { retries?: number; retryAfterMs?: number } = {}
   ) {
     super(message);
     this.name = 'InsightsApiError';
+    this.retries = options.retries ?? 0;
+    this.retryAfterMs = options.retryAfterMs;
   }
 }
 
@@ -113,26 +162,21 @@ export class InsightsApiError extends Error {
 export class NetworkError extends Error {
   public override readonly cause?: Error;
 
-  constructor(message: string, cause?: Error) {
-    super(message);
-    this.name = 'NetworkError';
-    this.cause = cause;
-  }
-}
-
-/**
- * Validation error class
- */
-export class ValidationError extends Error {
   constructor(
     message: string,
-    public readonly invalidData?: unknown
+    cause?: Error,
+    /** Retries made before giving up */
+    public readonly retries = 0
   ) {
     super(message);
-    this.name = 'ValidationError';
+    this.name = 'NetworkError';
+    this.cause = cause;
   }
 }
 
+export { ValidationError } from './response-validation.js';
+export type { ValidationIssue, ValidationMode } from './response-validation.js';
+
 /**
  * API client configuration options
  */
@@ -143,6 +187,38 @@ export interface InsightsClientConfig {
   timeout?: number;
   /** Custom headers */
   headers?: Record<string, string>;
+  /** Enable the response cache (default: true) */
+  cacheEnabled?: boolean;
+  /** Cache storage (default: in-memory LRU) */
+  cacheBackend?: CacheBackend;
+  /** Per-endpoint cache TTL overrides in milliseconds, keyed by endpoint path */
+  cacheTtl?: Record<string, number>;
+  /** Serve expired entries for this long while refreshing them in the background (0 disables) */
+  staleWhileRevalidateMs?: number;
+  /** Serve expired entries for this long when the upstream request fails (0 disables) */
+  staleIfErrorMs?: number;
+  /** Client-side request limit per minute (0 disables rate limiting) */
+  maxRequestsPerMinute?: number;
+  /** Client-side requests allowed back-to-back before queueing (0 uses the per-minute limit) */
+  burstLimit?: number;
+  /** Queue requests over the limit (default) or fail fast with a NetworkError */
+  rateLimitMode?: RateLimitMode;
+  /** Maximum time a request waits in the rate limit queue in milliseconds */
+  maxQueueWaitMs?: number;
+  /** Retries for idempotent requests on transient failures (0 disables retries) */
+  maxRetries?: number;
+  /** Backoff before the first retry in milliseconds (doubles per retry, jittered) */
+  retryBaseDelayMs?: number;
+  /** Maximum single backoff or honored Retry-After delay in milliseconds */
+  retryMaxDelayMs?: number;
+  /** Consecutive failures that open an endpoint's circuit (0 disables the breaker) */
+  circuitBreakerThreshold?: number;
+  /** Time an open circuit short-circuits requests before a trial request, in milliseconds */
+  circuitBreakerResetMs?: number;
+  /** Reject responses that do not match their schema (default) or coerce known variants first */
+  validationMode?: ValidationMode;
+  /** JSON file keeping schema drift records across restarts (default: memory only) */
+  schemaDriftFile?: string;
 }
 
 /**
@@ -155,8 +231,17 @@ export class InsightsApiClient {
   private readonly baseUrl: string;
   private readonly timeout: number;
   private readonly headers: Record<string, string>;
-  private readonly cache: Map<string, CacheEntry<unknown>> = new Map();
-  private readonly requestTimestamps: number[] = [];
+  private readonly cacheEnabled: boolean;
+  private readonly cacheTtl: Record<string, number>;
+  private readonly staleWhileRevalidateMs: number;
+  private readonly staleIfErrorMs: number;
+  private readonly revalidating: Set<string> = new Set();
+  private readonly scheduler: RequestScheduler;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly circuitBreaker: CircuitBreaker;
+  private readonly cache: CacheBackend;
+  private readonly validationMode: ValidationMode;
+  private readonly schemaMonitor: SchemaDriftMonitor;
 
   constructor(config: InsightsClientConfig = {}) {
     this.baseUrl = config.baseUrl ?? BASE_URL;
@@ -166,79 +251,214 @@ export class InsightsApiClient {
       'User-Agent': 'braiins-insights-mcp-server/0.1.0',
       ...config.headers,
     };
+    this.cacheEnabled = config.cacheEnabled ?? true;
+    this.cache = config.cacheBackend ?? new MemoryCacheBackend();
+    this.cacheTtl = { ...CACHE_TTL, ...config.cacheTtl };
+    this.schemaMonitor = new SchemaDriftMonitor({ file: config.schemaDriftFile });
+    this.staleWhileRevalidateMs = config.staleWhileRevalidateMs ?? STALE_WHILE_REVALIDATE;
+    this.staleIfErrorMs = config.staleIfErrorMs ?? STALE_IF_ERROR;
+    this.scheduler = new RequestScheduler({
+      requestsPerMinute: config.maxRequestsPerMinute ?? MAX_REQUESTS_PER_MINUTE,
+      burstLimit: config.burstLimit ?? BURST_LIMIT,
+      maxWaitMs: config.maxQueueWaitMs ?? MAX_QUEUE_WAIT,
+      mode: config.rateLimitMode ?? 'queue',
+    });
+    this.retryPolicy = {
+      maxRetries: config.maxRetries ?? MAX_RETRIES,
+      baseDelayMs: config.retryBaseDelayMs ?? RETRY_BASE_DELAY,
+      maxDelayMs: config.retryMaxDelayMs ?? RETRY_MAX_DELAY,
+    };
+    this.circuitBreaker = new CircuitBreaker({
+      failureThreshold: config.circuitBreakerThreshold ?? CIRCUIT_FAILURE_THRESHOLD,
+      resetMs: config.circuitBreakerResetMs ?? CIRCUIT_RESET,
+    });
+    this.validationMode = config.validationMode ?? 'strict';
+  }
+
+  /**
+   * Get rate limit queue metrics (queue depth, waits, rejections)
+   */
+  getQueueMetrics(): RequestQueueMetrics {
+    return this.scheduler.getMetrics();
+  }
+
+  /**
+   * Get circuit breaker status for endpoints that have recently failed
+   */
+  getCircuitStatuses(): Record<string, CircuitStatus> {
+    return this.circuitBreaker.getAllStatuses();
+  }
+
+  /**
+   * Get schema drift seen in responses fetched since the drift history began
+   */
+  getSchemaReport(): EndpointSchemaStatus[] {
+    return this.schemaMonitor.getReport();
+  }
+
+  /**
+   * Get where the schema drift history is kept and when it began
+   */
+  getSchemaHistoryInfo(): SchemaHistoryInfo {
+    return this.schemaMonitor.getHistoryInfo();
   }
 
   /**
    * Clear the cache (useful for testing)
    */
-  clearCache(): void {
-    this.cache.clear();
+  async clearCache(): Promise<void> {
+    await this.cache.clear();
   }
 
   /**
-   * Check cache for existing valid data
+   * Look up a cache entry that is fresh or still within a stale window
+   *
+   * Entries past every stale window are evicted. Backend failures are treated
+   * as cache misses so a broken cache never fails a request.
    */
-  private checkCache<T>(key: string): T | null {
-    const entry = this.cache.get(key) as CacheEntry<T> | undefined;
+  private async checkCache<T>(key: string): Promise<CacheEntry<T> | null> {
+    if (!this.cacheEnabled) {
+      return null;
+    }
+
+    let entry: CacheEntry<T> | undefined;
+    try {
+      entry = await this.cache.get<T>(key);
+    } catch {
+      return null;
+    }
 
     if (!entry) {
       return null;
     }
 
-    if (Date.now() > entry.expires) {
-      this.cache.delete(key);
+    const retainUntil = entry.expires + Math.max(this.staleWhileRevalidateMs, this.staleIfErrorMs);
+    if (Date.now() > retainUntil) {
+      await this.cache.delete(key).catch(() => undefined);
       return null;
     }
 
-    return entry.data;
+    return entry;
   }
 
   /**
    * Store data in cache with appropriate TTL
    */
-  private setCache<T>(key: string, value: T, endpoint: string): void {
-    const ttl = CACHE_TTL[endpoint as keyof typeof CACHE_TTL] || 300_000; // Default 5 min
-    this.cache.set(key, {
-      data: value,
-      expires: Date.now() + ttl,
-      endpoint,
-    });
+  private async setCache<T>(key: string, value: T, endpoint: string): Promise<void> {
+    const ttl = this.cacheTtl[endpoint] ?? DEFAULT_CACHE_TTL;
+    if (!this.cacheEnabled || ttl <= 0) {
+      return;
+    }
+
+    const now = Date.now();
+    try {
+      await this.cache.set(key, {
+        data: value,
+        fetchedAt: now,
+        expires: now + ttl,
+        endpoint,
+      });
+    } catch {
+      // The response is still returned; it just won't be cached
+    }
   }
 
   /**
-   * Check rate limit before making request
-   * Implements sliding window rate limiting
+   * Serve a request from cache, applying stale-while-revalidate and stale-if-error
+   *
+   * @param cacheKey - Cache key for the request
+   * @param endpoint - API endpoint path
+   * @param load - Fetches fresh data from the API
+   * @returns Fresh data, or stale cached data when refreshing or when the API fails
    */
-  private async checkRateLimit(): Promise<void> {
+  private async withCache<T>(
+    cacheKey: string,
+    endpoint: string,
+    load: () => Promise<T>
+  ): Promise<T> {
+    // Callers that need data fetched now, such as the snapshot recorder, skip cached entries
+    const entry = getRequestContext().bypassCache ? null : await this.checkCache<T>(cacheKey);
     const now = Date.now();
-    const oneMinuteAgo = now - 60_000;
-    const oneSecondAgo = now - 1_000;
 
-    // Remove timestamps older than 1 minute
-    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-    while (this.requestTimestamps.length > 0 && this.requestTimestamps[0]! < oneMinuteAgo) {
-      this.requestTimestamps.shift();
+    // Fresh hit (bypasses rate limiting)
+    if (entry && now <= entry.expires) {
+      return entry.data;
     }
 
-    // Check minute-level limit
-    if (this.requestTimestamps.length >= MAX_REQUESTS_PER_MINUTE) {
-      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-      const oldestInWindow = this.requestTimestamps[0]!;
-      const retryAfterMs = 60_000 - (now - oldestInWindow) + 100;
+    if (entry && now <= entry.expires + this.staleWhileRevalidateMs) {
+      this.revalidate(cacheKey, endpoint, load);
+      this.reportStale({ endpoint, fetchedAt: entry.fetchedAt, reason: 'revalidating' });
+      return entry.data;
+    }
 
-      throw new NetworkError(
-        `Client-side rate limit exceeded: ${MAX_REQUESTS_PER_MINUTE} req/min. Retry after ${retryAfterMs}ms`
-      );
+    try {
+      const data = await load();
+      await this.setCache(cacheKey, data, endpoint);
+      return data;
+    } catch (error) {
+      const servable =
+        entry !== null &&
+        now <= entry.expires + this.staleIfErrorMs &&
+        (error instanceof NetworkError ||
+          error instanceof ValidationError ||
+          (error instanceof InsightsApiError && isRetryableStatus(error.statusCode)));
+
+      if (!servable) {
+        throw error;
+      }
+
+      this.reportStale({
+        endpoint,
+        fetchedAt: entry.fetchedAt,
+        reason: 'upstream-error',
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return entry.data;
     }
+  }
 
-    // Check burst limit (5 req/sec)
-    const recentRequests = this.requestTimestamps.filter((ts) => ts > oneSecondAgo);
-    if (recentRequests.length >= BURST_LIMIT) {
-      // Wait 1 second to avoid burst limit
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+  /**
+   * Refresh a stale cache entry in the background (one refresh per key at a time)
+   */
+  private revalidate<T>(cacheKey: string, endpoint: string, load: () => Promise<T>): void {
+    if (this.revalidating.has(cacheKey)) {
+      return;
     }
+    this.revalidating.add(cacheKey);
+
+    const { sessionId } = getRequestContext();
+    runWithRequestContext({ sessionId, priority: 'background' }, load)
+      .then((data) => this.setCache(cacheKey, data, endpoint))
+      .catch(() => {
+        // Keep serving the stale entry; the next request past the window retries
+      })
+      .finally(() => this.revalidating.delete(cacheKey));
+  }
 
-    this.requestTimestamps.push(now);
+  /**
+   * Record a stale response in the current request context
+   */
+  private reportStale(stale: StaleResponse): void {
+    getRequestContext().staleResponses?.push(stale);
+  }
+
+  /**
+   * Wait for a rate limit slot before making a request
+   *
+   * Priority and session come from the current request context, so tool calls are
+   * served ahead of background work and sessions share the budget fairly.
+   */
+  private async checkRateLimit(): Promise<void> {
+    const { priority, sessionId } = getRequestContext();
+
+    try {
+      await this.scheduler.acquire({ priority, sessionId });
+    } catch (error) {
+      if (error instanceof RateLimitExceededError) {
+        throw new NetworkError(error.message, error);
+      }
+      throw error;
+    }
   }
 
   /**
@@ -255,25 +475,20 @@ export class InsightsApiClient {
    * @see /docs/api-discovery/hashrate-stats.md
    */
   async getHashrateStats(): Promise<BraiinsInsightsHashrateStats> {
-    const endpoint = '/v1.0/hashrate-stats';
-    const data = await this.get<BraiinsInsightsHashrateStats>(endpoint);
-
-    // Validate response structure
-    if (!isHashrateStats(data)) {
-      throw new ValidationError('Invalid hashrate stats response format', data);
-    }
-
-    return data;
+    return this.get('/v1.0/hashrate-stats');
   }
 
   /**
-   * Generic GET request handler with caching and rate limiting
+   * Generic GET request handler with caching, rate limiting, retries and response validation
    *
    * @param endpoint - API endpoint path (e.g., '/v1.0/hashrate-stats')
    * @param params - Optional query parameters
-   * @returns Parsed JSON response
+   * @returns Validated JSON response
    */
-  private async get<T>(endpoint: string, params?: Record<string, string | number>): Promise<T> {
+  private async get<E extends SchemaEndpoint>(
+    endpoint: E,
+    params?: Record<string, string | number>
+  ): Promise<EndpointResponse<E>> {
     // Build cache key from endpoint + params
     const cacheKey = params
       ? `${endpoint}?${Object.entries(params)
@@ -281,111 +496,156 @@ export class InsightsApiClient {
           .join('&')}`
       : endpoint;
 
-    // Check cache first (bypasses rate limiting)
-    const cached = this.checkCache<T>(cacheKey);
-    if (cached !== null) {
-      return cached;
-    }
-
-    // Check rate limit before making request
-    await this.checkRateLimit();
-
-    const url = this.buildUrl(endpoint, params);
+    return this.withCache(cacheKey, endpoint, async () =>
+      this.validate(
+        endpoint,
+        await this.request(endpoint, this.buildUrl(endpoint, params), { method: 'GET' }, true)
+      )
+    );
+  }
 
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+  /**
+   * Generic POST request handler with caching, rate limiting and response validation
+   *
+   * @param endpoint - API endpoint path
+   * @param body - Request body
+   * @param idempotent - Whether the request is safe to retry (read-only queries)
+   * @returns Validated JSON response
+   */
+  private async post<E extends SchemaEndpoint>(
+    endpoint: E,
+    body: unknown,
+    idempotent = false
+  ): Promise<EndpointResponse<E>> {
+    // Build cache key from endpoint + body hash (simple JSON stringify for now)
+    const cacheKey = `${endpoint}:POST:${JSON.stringify(body)}`;
 
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: this.headers,
-        signal: controller.signal,
-        redirect: 'follow', // Follow redirects (insights.braiins.com → learn.braiins.com)
-      });
+    return this.withCache(cacheKey, endpoint, async () =>
+      this.validate(
+        endpoint,
+        await this.request(
+          endpoint,
+          this.buildUrl(endpoint),
+          { method: 'POST', body: JSON.stringify(body) },
+          idempotent
+        )
+      )
+    );
+  }
 
-      clearTimeout(timeoutId);
+  /**
+   * Record the response shape for drift reporting, then validate it against its
+   * endpoint schema (before it is cached)
+   *
+   * @throws {ValidationError} If the response does not match the schema
+   */
+  private validate<E extends SchemaEndpoint>(endpoint: E, data: unknown): EndpointResponse<E> {
+    this.schemaMonitor.observe(endpoint, data);
 
-      if (!response.ok) {
-        throw new InsightsApiError(
-          `API request failed: ${response.statusText}`,
-          response.status,
-          endpoint
-        );
-      }
+    // TypeScript cannot narrow the schema lookup for a generic endpoint
+    return validateResponse(
+      endpoint,
+      RESPONSE_SCHEMAS[endpoint],
+      data,
+      this.validationMode
+    ) as EndpointResponse<E>;
+  }
 
-      const data = await response.json();
+  /**
+   * Send a request through the circuit breaker, retrying transient failures
+   *
+   * Every attempt waits for a rate limit slot. Errors that exhaust the retries
+   * report the retry count in their message.
+   *
+   * @param endpoint - API endpoint path (circuit key)
+   * @param url - Full request URL
+   * @param init - HTTP method and body
+   * @param idempotent - Whether the request may be retried
+   * @returns Parsed JSON response
+   */
+  private async request<T = unknown>(
+    endpoint: string,
+    url: string,
+    init: { method: 'GET' | 'POST'; body?: string },
+    idempotent: boolean
+  ): Promise<T> {
+    if (!this.circuitBreaker.tryAcquire(endpoint)) {
+      const status = this.circuitBreaker.getStatus(endpoint);
+      throw new NetworkError(
+        `Circuit breaker open for ${endpoint} after ${status.failures} consecutive failures; ` +
+          `retrying upstream in ${Math.ceil(status.retryAfterMs / 1000)}s. ` +
+          `Last error: ${status.lastError ?? 'unknown'}`
+      );
+    }
 
-      // Cache the result
-      this.setCache(cacheKey, data, endpoint);
+    const maxRetries = idempotent ? this.retryPolicy.maxRetries : 0;
 
-      return data as T;
-    } catch (error) {
-      if (error instanceof InsightsApiError) {
+    for (let retries = 0; ; retries += 1) {
+      try {
+        await this.checkRateLimit();
+      } catch (error) {
+        this.circuitBreaker.release(endpoint);
         throw error;
       }
 
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          throw new NetworkError(`Request timeout after ${this.timeout}ms`, error);
+      try {
+        const data = await this.fetchOnce<T>(endpoint, url, init);
+        this.circuitBreaker.recordSuccess(endpoint);
+        return data;
+      } catch (error) {
+        const delay = this.retryDelay(error, retries + 1);
+        if (retries < maxRetries && delay !== undefined) {
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          continue;
         }
 
-        throw new NetworkError(`Network request failed: ${error.message}`, error);
-      }
+        if (this.isUpstreamFailure(error)) {
+          this.circuitBreaker.recordFailure(
+            endpoint,
+            error instanceof Error ? error.message : String(error)
+          );
+        } else {
+          this.circuitBreaker.release(endpoint);
+        }
 
-      throw new NetworkError('Unknown network error', error as Error);
+        throw this.withRetryCount(error, retries);
+      }
     }
   }
 
   /**
-   * Generic POST request handler with caching and rate limiting
-   *
-   * @param endpoint - API endpoint path
-   * @param body - Request body
-   * @returns Parsed JSON response
+   * Make a single HTTP request with timeout
    */
-  private async post<T>(endpoint: string, body: unknown): Promise<T> {
-    // Build cache key from endpoint + body hash (simple JSON stringify for now)
-    const cacheKey = `${endpoint}:POST:${JSON.stringify(body)}`;
-
-    // Check cache first
-    const cached = this.checkCache<T>(cacheKey);
-    if (cached !== null) {
-      return cached;
-    }
-
-    // Check rate limit
-    await this.checkRateLimit();
-
-    const url = this.buildUrl(endpoint);
+  private async fetchOnce<T>(
+    endpoint: string,
+    url: string,
+    init: { method: 'GET' | 'POST'; body?: string }
+  ): Promise<T> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
 
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
       const response = await fetch(url, {
-        method: 'POST',
+        ...init,
         headers: this.headers,
-        body: JSON.stringify(body),
         signal: controller.signal,
-        redirect: 'follow',
+        redirect: 'follow', // Follow redirects (insights.braiins.com → learn.braiins.com)
       });
 
-      clearTimeout(timeoutId);
-
       if (!response.ok) {
         throw new InsightsApiError(
           `API request failed: ${response.statusText}`,
           response.status,
-          endpoint
+          endpoint,
+          {
+            retryAfterMs: honorsRetryAfter(response.status)
+              ? parseRetryAfter(response.headers.get('retry-after'))
+              : undefined,
+          }
         );
       }
 
-      const data = await response.json();
-
-      // Cache the result
-      this.setCache(cacheKey, data, endpoint);
-
-      return data as T;
+      return (await response.json()) as T;
     } catch (error) {
       if (error instanceof InsightsApiError) {
         throw error;
@@ -400,7 +660,66 @@ export class InsightsApiClient {
       }
 
       throw new NetworkError('Unknown network error', error as Error);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Delay before the next retry, or undefined if the error is not retryable
+   *
+   * Honors `Retry-After` on 429/503 unless it exceeds the maximum retry delay.
+   */
+  private retryDelay(error: unknown, retry: number): number | undefined {
+    if (error instanceof InsightsApiError) {
+      if (!isRetryableStatus(error.statusCode)) {
+        return undefined;
+      }
+      if (error.retryAfterMs !== undefined) {
+        return error.retryAfterMs <= this.retryPolicy.maxDelayMs ? error.retryAfterMs : undefined;
+      }
+      return computeBackoff(retry, this.retryPolicy);
+    }
+
+    if (error instanceof NetworkError) {
+      return computeBackoff(retry, this.retryPolicy);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Check whether an error indicates upstream trouble (counts toward the circuit breaker)
+   */
+  private isUpstreamFailure(error: unknown): boolean {
+    if (error instanceof InsightsApiError) {
+      return isRetryableStatus(error.statusCode);
     }
+    return error instanceof NetworkError;
+  }
+
+  /**
+   * Annotate an error with the number of retries made before giving up
+   */
+  private withRetryCount(error: unknown, retries: number): unknown {
+    if (retries === 0) {
+      return error;
+    }
+
+    const suffix = ` (gave up after ${retries} ${retries === 1 ? 'retry' : 'retries'})`;
+
+    if (error instanceof InsightsApiError) {
+      return new InsightsApiError(`${error.message}${suffix}`, error.statusCode, error.endpoint, {
+        retries,
+        retryAfterMs: error.retryAfterMs,
+      });
+    }
+
+    if (error instanceof NetworkError) {
+      return new NetworkError(`${error.message}${suffix}`, error.cause, retries);
+    }
+
+    return error;
   }
 
   /**
@@ -431,9 +750,10 @@ export class InsightsApiClient {
    * @returns Difficulty statistics
    * @throws {NetworkError} If network request fails
    * @throws {InsightsApiError} If API returns error status
+   * @throws {ValidationError} If response validation fails
    */
   async getDifficultyStats(): Promise<BraiinsInsightsDifficultyStats> {
-    return this.get<BraiinsInsightsDifficultyStats>('/v1.0/difficulty-stats');
+    return this.get('/v1.0/difficulty-stats');
   }
 
   /**
@@ -446,12 +766,10 @@ export class InsightsApiClient {
    * @returns Array of block data
    * @throws {NetworkError} If network request fails
    * @throws {InsightsApiError} If API returns error status
+   * @throws {ValidationError} If response validation fails
    */
   async getBlocks(params?: BlocksQueryParams): Promise<BraiinsInsightsBlockData[]> {
-    return this.get<BraiinsInsightsBlockData[]>(
-      '/v1.0/blocks',
-      params as Record<string, string | number>
-    );
+    return this.get('/v1.0/blocks', params as Record<string, string | number>);
   }
 
   /**
@@ -464,14 +782,12 @@ export class InsightsApiClient {
    * @returns Array of blocks by country data
    * @throws {NetworkError} If network request fails
    * @throws {InsightsApiError} If API returns error status
+   * @throws {ValidationError} If response validation fails
    */
   async getBlocksByCountry(
     params?: Omit<BlocksQueryParams, 'start_date' | 'end_date'>
   ): Promise<BraiinsInsightsBlocksByCountry[]> {
-    return this.get<BraiinsInsightsBlocksByCountry[]>(
-      '/v1.0/blocks-by-country',
-      params as Record<string, string | number>
-    );
+    return this.get('/v1.0/blocks-by-country', params as Record<string, string | number>);
   }
 
   /**
@@ -483,9 +799,10 @@ export class InsightsApiClient {
    * @returns Array of daily revenue data points
    * @throws {NetworkError} If network request fails
    * @throws {InsightsApiError} If API returns error status
+   * @throws {ValidationError} If response validation fails
    */
   async getDailyRevenueHistory(): Promise<BraiinsInsightsDailyRevenue[]> {
-    return this.get<BraiinsInsightsDailyRevenue[]>('/v1.0/daily-revenue-history');
+    return this.get('/v1.0/daily-revenue-history');
   }
 
   /**
@@ -497,9 +814,10 @@ export class InsightsApiClient {
    * @returns Array of hashrate and difficulty historical data points
    * @throws {NetworkError} If network request fails
    * @throws {InsightsApiError} If API returns error status
+   * @throws {ValidationError} If response validation fails
    */
   async getHashrateAndDifficultyHistory(): Promise<BraiinsInsightsHashDiffHistory[]> {
-    return this.get<BraiinsInsightsHashDiffHistory[]>('/v1.0/hashrate-and-difficulty-history');
+    return this.get('/v1.0/hashrate-and-difficulty-history');
   }
 
   /**
@@ -511,9 +829,10 @@ export class InsightsApiClient {
    * @returns Array of hashrate value data points
    * @throws {NetworkError} If network request fails
    * @throws {InsightsApiError} If API returns error status
+   * @throws {ValidationError} If response validation fails
    */
   async getHashrateValueHistory(): Promise<BraiinsInsightsHashrateValue[]> {
-    return this.get<BraiinsInsightsHashrateValue[]>('/v1.0/hashrate-value-history');
+    return this.get('/v1.0/hashrate-value-history');
   }
 
   /**
@@ -525,9 +844,10 @@ export class InsightsApiClient {
    * @returns Pool statistics
    * @throws {NetworkError} If network request fails
    * @throws {InsightsApiError} If API returns error status
+   * @throws {ValidationError} If response validation fails
    */
   async getPoolStats(): Promise<BraiinsInsightsPoolStats> {
-    return this.get<BraiinsInsightsPoolStats>('/v1.0/pool-stats');
+    return this.get('/v1.0/pool-stats');
   }
 
   /**
@@ -539,9 +859,10 @@ export class InsightsApiClient {
    * @returns Price statistics
    * @throws {NetworkError} If network request fails
    * @throws {InsightsApiError} If API returns error status
+   * @throws {ValidationError} If response validation fails
    */
   async getPriceStats(): Promise<BraiinsInsightsPriceStats> {
-    return this.get<BraiinsInsightsPriceStats>('/v1.0/price-stats');
+    return this.get('/v1.0/price-stats');
   }
 
   /**
@@ -550,12 +871,14 @@ export class InsightsApiClient {
    * Endpoint: GET /v1.0/rss-feed-data
    * Cache TTL: 1 hour (recommended)
    *
-   * @returns Array of RSS feed items
+   * @returns RSS feed items, unwrapped from an `{ items }` envelope if present; items
+   *   are not validated individually (see `parseFeedResponse`)
    * @throws {NetworkError} If network request fails
    * @throws {InsightsApiError} If API returns error status
+   * @throws {ValidationError} If response validation fails
    */
-  async getRSSFeedData(): Promise<BraiinsInsightsRSSItem[]> {
-    return this.get<BraiinsInsightsRSSItem[]>('/v1.0/rss-feed-data');
+  async getRSSFeedData(): Promise<unknown[]> {
+    return this.get('/v1.0/rss-feed-data');
   }
 
   /**
@@ -567,9 +890,10 @@ export class InsightsApiClient {
    * @returns Array of transaction fee data points
    * @throws {NetworkError} If network request fails
    * @throws {InsightsApiError} If API returns error status
+   * @throws {ValidationError} If response validation fails
    */
   async getTransactionFeesHistory(): Promise<BraiinsInsightsTransactionFees[]> {
-    return this.get<BraiinsInsightsTransactionFees[]>('/v1.0/transaction-fees-history');
+    return this.get('/v1.0/transaction-fees-history');
   }
 
   /**
@@ -581,9 +905,10 @@ export class InsightsApiClient {
    * @returns Transaction statistics
    * @throws {NetworkError} If network request fails
    * @throws {InsightsApiError} If API returns error status
+   * @throws {ValidationError} If response validation fails
    */
   async getTransactionStats(): Promise<BraiinsInsightsTransactionStats> {
-    return this.get<BraiinsInsightsTransactionStats>('/v1.0/transaction-stats');
+    return this.get('/v1.0/transaction-stats');
   }
 
   /**
@@ -596,11 +921,13 @@ export class InsightsApiClient {
    * @returns Array of hardware statistics
    * @throws {NetworkError} If network request fails
    * @throws {InsightsApiError} If API returns error status
+   * @throws {ValidationError} If response validation fails
    */
   async getHardwareStats(
     request: HardwareStatsRequest = {}
   ): Promise<BraiinsInsightsHardwareStats[]> {
-    return this.post<BraiinsInsightsHardwareStats[]>('/v1.0/hardware-stats', request);
+    // Read-only lookup, safe to retry
+    return this.post('/v1.0/hardware-stats', request, true);
   }
 
   // ============================================================================
@@ -619,14 +946,12 @@ export class InsightsApiClient {
    * @returns Cost to mine data with profitability analysis
    * @throws {NetworkError} If network request fails
    * @throws {InsightsApiError} If API returns error status
+   * @throws {ValidationError} If response validation fails
    *
    * @see https://academy.braiins.com/en/mining-insights/public-api/#cost-to-mine
    */
   async getCostToMine(params: CostToMineQueryParams): Promise<BraiinsInsightsCostToMine> {
-    return this.get<BraiinsInsightsCostToMine>(
-      '/v2.0/cost-to-mine',
-      params as unknown as Record<string, string | number>
-    );
+    return this.get('/v2.0/cost-to-mine', params as unknown as Record<string, string | number>);
   }
 
   /**
@@ -638,9 +963,10 @@ export class InsightsApiClient {
    * @returns Halving data
    * @throws {NetworkError} If network request fails
    * @throws {InsightsApiError} If API returns error status
+   * @throws {ValidationError} If response validation fails
    */
   async getHalvings(): Promise<BraiinsInsightsHalvingData> {
-    return this.get<BraiinsInsightsHalvingData>('/v2.0/halvings');
+    return this.get('/v2.0/halvings');
   }
 
   /**
@@ -653,11 +979,12 @@ export class InsightsApiClient {
    * @returns Profitability data
    * @throws {NetworkError} If network request fails
    * @throws {InsightsApiError} If API returns error status
+   * @throws {ValidationError} If response validation fails
    */
   async getProfitabilityCalculator(
     params: ProfitabilityQueryParams
   ): Promise<BraiinsInsightsProfitability> {
-    return this.get<BraiinsInsightsProfitability>(
+    return this.get(
       '/v2.0/profitability-calculator',
       params as unknown as Record<string, string | number>
     );
@@ -0,0 +1,64 @@
+/**
+ * Request Context
+ *
+ * Carries per-call metadata (MCP session, priority) from the MCP request handler
+ * down to `InsightsApiClient` without threading it through every tool method, and
+ * reports back which responses were served stale from the cache.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { RequestPriority } from './request-scheduler.js';
+
+/**
+ * Cached response served past its TTL
+ */
+export interface StaleResponse {
+  /** API endpoint path */
+  endpoint: string;
+
+  /** When the cached data was fetched (Unix timestamp in milliseconds) */
+  fetchedAt: number;
+
+  /** Why stale data was served: refresh in progress, or upstream failed */
+  reason: 'revalidating' | 'upstream-error';
+
+  /** Upstream error message (for `upstream-error`) */
+  error?: string;
+}
+
+/**
+ * Metadata for the API requests made while handling one call
+ */
+export interface RequestContext {
+  /** MCP session the call belongs to */
+  sessionId?: string;
+
+  /** Scheduling priority for upstream requests */
+  priority?: RequestPriority;
+
+  /** Collects stale cache entries served during the call (set by the caller to opt in) */
+  staleResponses?: StaleResponse[];
+
+  /** Fetch from upstream even when the cache holds an entry (the response still refreshes it) */
+  bypassCache?: boolean;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a function with the given request context
+ *
+ * @param context - Session and priority for API requests made by `fn`
+ * @param fn - Function to run
+ * @returns Result of `fn`
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Get the current request context (empty outside `runWithRequestContext`)
+ */
+export function getRequestContext(): RequestContext {
+  return storage.getStore() ?? {};
+}
@@ -0,0 +1,385 @@
+/**
+ * Client-Side Request Scheduler
+ *
+ * Token-bucket rate limiter that queues requests instead of rejecting them.
+ *
+ * - Bucket capacity is the burst limit; tokens refill at `requestsPerMinute`.
+ * - Interactive requests (tool calls) are always served before background work
+ *   (prefetch, snapshot recording).
+ * - Within a priority, sessions are served round-robin so one busy client
+ *   cannot starve the others.
+ * - Requests waiting longer than `maxWaitMs` are rejected.
+ * - `fail-fast` mode rejects immediately when no token is available.
+ */
+
+/**
+ * Request priority; interactive requests are served first
+ */
+export type RequestPriority = 'interactive' | 'background';
+
+/**
+ * Behaviour when the rate limit is reached
+ */
+export type RateLimitMode = 'queue' | 'fail-fast';
+
+/**
+ * Priorities in service order
+ */
+const PRIORITIES: readonly RequestPriority[] = ['interactive', 'background'];
+
+/**
+ * Session key used when the caller has no session
+ */
+const DEFAULT_SESSION = 'default';
+
+/**
+ * Scheduler configuration
+ */
+export interface RequestSchedulerOptions {
+  /** Sustained request rate (0 disables rate limiting) */
+  requestsPerMinute: number;
+
+  /** Bucket capacity, i.e. requests allowed back-to-back (0 uses requestsPerMinute) */
+  burstLimit: number;
+
+  /** Maximum time a request may wait in the queue in milliseconds */
+  maxWaitMs: number;
+
+  /** Queue requests or reject immediately when no token is available */
+  mode: RateLimitMode;
+
+  /** Clock override for tests */
+  now?: () => number;
+}
+
+/**
+ * Options for a single request slot
+ */
+export interface AcquireOptions {
+  /** Request priority (default: interactive) */
+  priority?: RequestPriority;
+
+  /** Session the request belongs to, used for fair sharing */
+  sessionId?: string;
+}
+
+/**
+ * Queue metrics snapshot
+ */
+export interface RequestQueueMetrics {
+  /** Rate limiting mode */
+  mode: RateLimitMode;
+
+  /** Whether rate limiting is active */
+  enabled: boolean;
+
+  /** Requests currently waiting */
+  queueDepth: number;
+
+  /** Requests currently waiting, per priority */
+  queueDepthByPriority: Record<RequestPriority, number>;
+
+  /** Distinct sessions with waiting requests */
+  waitingSessions: number;
+
+  /** Highest queue depth observed */
+  maxQueueDepth: number;
+
+  /** Tokens currently available */
+  availableTokens: number;
+
+  /** Requests granted a slot */
+  granted: number;
+
+  /** Requests that had to wait for a slot */
+  queued: number;
+
+  /** Requests rejected in fail-fast mode */
+  rejected: number;
+
+  /** Requests rejected after exceeding the max wait */
+  timedOut: number;
+
+  /** Average wait of granted requests in milliseconds */
+  averageWaitMs: number;
+}
+
+/**
+ * Error raised when a request cannot obtain a slot
+ */
+export class RateLimitExceededError extends Error {
+  constructor(
+    message: string,
+    public readonly retryAfterMs: number
+  ) {
+    super(message);
+    this.name = 'RateLimitExceededError';
+  }
+}
+
+/**
+ * Request waiting for a token
+ */
+interface Waiter {
+  enqueuedAt: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Token-bucket request scheduler with priority and per-session queues
+ */
+export class RequestScheduler {
+  private readonly enabled: boolean;
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private readonly now: () => number;
+  private readonly queues: Record<RequestPriority, Map<string, Waiter[]>> = {
+    interactive: new Map(),
+    background: new Map(),
+  };
+  private tokens: number;
+  private lastRefill: number;
+  private drainTimer: ReturnType<typeof setTimeout> | undefined;
+  private depth = 0;
+  private maxDepth = 0;
+  private granted = 0;
+  private queued = 0;
+  private rejected = 0;
+  private timedOut = 0;
+  private totalWaitMs = 0;
+
+  constructor(private readonly options: RequestSchedulerOptions) {
+    this.enabled = options.requestsPerMinute > 0;
+    this.capacity = Math.max(
+      1,
+      Math.min(options.burstLimit > 0 ? options.burstLimit : Infinity, options.requestsPerMinute)
+    );
+    this.refillPerMs = options.requestsPerMinute / 60_000;
+    this.now = options.now ?? Date.now;
+    this.tokens = this.capacity;
+    this.lastRefill = this.now();
+  }
+
+  /**
+   * Wait for a request slot
+   *
+   * @param options - Priority and session of the request
+   * @throws {RateLimitExceededError} In fail-fast mode when no slot is free, or when the
+   *   request waits longer than `maxWaitMs`
+   */
+  acquire(options: AcquireOptions = {}): Promise<void> {
+    if (!this.enabled) {
+      return Promise.resolve();
+    }
+
+    this.refill();
+
+    if (this.depth === 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      this.granted += 1;
+      return Promise.resolve();
+    }
+
+    if (this.options.mode === 'fail-fast') {
+      this.rejected += 1;
+      return Promise.reject(
+        new RateLimitExceededError(
+          `Client-side rate limit exceeded: ${this.options.requestsPerMinute} req/min. Retry after ${this.msUntilNextToken()}ms`,
+          this.msUntilNextToken()
+        )
+      );
+    }
+
+    return this.enqueue(options.priority ?? 'interactive', options.sessionId ?? DEFAULT_SESSION);
+  }
+
+  /**
+   * Snapshot of queue metrics
+   */
+  getMetrics(): RequestQueueMetrics {
+    this.refill();
+
+    const depthByPriority = {} as Record<RequestPriority, number>;
+    const sessions = new Set<string>();
+    for (const priority of PRIORITIES) {
+      let count = 0;
+      for (const [session, waiters] of this.queues[priority]) {
+        count += waiters.length;
+        sessions.add(session);
+      }
+      depthByPriority[priority] = count;
+    }
+
+    return {
+      mode: this.options.mode,
+      enabled: this.enabled,
+      queueDepth: this.depth,
+      queueDepthByPriority: depthByPriority,
+      waitingSessions: sessions.size,
+      maxQueueDepth: this.maxDepth,
+      availableTokens: Math.floor(this.tokens),
+      granted: this.granted,
+      queued: this.queued,
+      rejected: this.rejected,
+      timedOut: this.timedOut,
+      averageWaitMs: this.granted > 0 ? Math.round(this.totalWaitMs / this.granted) : 0,
+    };
+  }
+
+  /**
+   * Reject all waiting requests and stop the drain timer
+   */
+  close(): void {
+    if (this.drainTimer) {
+      clearTimeout(this.drainTimer);
+      this.drainTimer = undefined;
+    }
+    for (const priority of PRIORITIES) {
+      for (const waiters of this.queues[priority].values()) {
+        for (const waiter of waiters) {
+          clearTimeout(waiter.timer);
+          waiter.reject(new RateLimitExceededError('Request scheduler closed', 0));
+        }
+      }
+      this.queues[priority].clear();
+    }
+    this.depth = 0;
+  }
+
+  /**
+   * Add a request to its priority/session queue
+   */
+  private enqueue(priority: RequestPriority, sessionId: string): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const waiter: Waiter = {
+        enqueuedAt: this.now(),
+        resolve,
+        reject,
+        timer: setTimeout(() => this.expire(priority, sessionId, waiter), this.options.maxWaitMs),
+      };
+      waiter.timer.unref?.();
+
+      const queue = this.queues[priority];
+      const waiters = queue.get(sessionId);
+      if (waiters) {
+        waiters.push(waiter);
+      } else {
+        queue.set(sessionId, [waiter]);
+      }
+
+      this.depth += 1;
+      this.queued += 1;
+      this.maxDepth = Math.max(this.maxDepth, this.depth);
+      this.scheduleDrain();
+    });
+  }
+
+  /**
+   * Reject a request that waited longer than `maxWaitMs`
+   */
+  private expire(priority: RequestPriority, sessionId: string, waiter: Waiter): void {
+    const queue = this.queues[priority];
+    const waiters = queue.get(sessionId);
+    const index = waiters?.indexOf(waiter) ?? -1;
+    if (!waiters || index === -1) {
+      return;
+    }
+
+    waiters.splice(index, 1);
+    if (waiters.length === 0) {
+      queue.delete(sessionId);
+    }
+    this.depth -= 1;
+    this.timedOut += 1;
+
+    waiter.reject(
+      new RateLimitExceededError(
+        `Request waited more than ${this.options.maxWaitMs}ms in the client-side rate limit queue (${this.options.requestsPerMinute} req/min)`,
+        this.msUntilNextToken()
+      )
+    );
+  }
+
+  /**
+   * Grant tokens to waiting requests in priority and round-robin order
+   */
+  private drain(): void {
+    this.drainTimer = undefined;
+    this.refill();
+
+    while (this.tokens >= 1) {
+      const waiter = this.nextWaiter();
+      if (!waiter) {
+        break;
+      }
+      clearTimeout(waiter.timer);
+      this.tokens -= 1;
+      this.depth -= 1;
+      this.granted += 1;
+      this.totalWaitMs += this.now() - waiter.enqueuedAt;
+      waiter.resolve();
+    }
+
+    if (this.depth > 0) {
+      this.scheduleDrain();
+    }
+  }
+
+  /**
+   * Take the next waiter: highest priority first, sessions rotated round-robin
+   */
+  private nextWaiter(): Waiter | undefined {
+    for (const priority of PRIORITIES) {
+      const queue = this.queues[priority];
+      const first = queue.entries().next();
+      if (first.done) {
+        continue;
+      }
+
+      const [sessionId, waiters] = first.value;
+      const waiter = waiters.shift();
+      // Move the session to the back of the rotation
+      queue.delete(sessionId);
+      if (waiters.length > 0) {
+        queue.set(sessionId, waiters);
+      }
+      return waiter;
+    }
+    return undefined;
+  }
+
+  /**
+   * Schedule the next drain for when a token becomes available
+   */
+  private scheduleDrain(): void {
+    if (this.drainTimer) {
+      return;
+    }
+    this.drainTimer = setTimeout(() => this.drain(), this.msUntilNextToken());
+    this.drainTimer.unref?.();
+  }
+
+  /**
+   * Add tokens accrued since the last refill
+   */
+  private refill(): void {
+    const now = this.now();
+    const elapsed = now - this.lastRefill;
+    if (elapsed > 0) {
+      this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerMs);
+      this.lastRefill = now;
+    }
+  }
+
+  /**
+   * Milliseconds until at least one token is available
+   */
+  private msUntilNextToken(): number {
+    if (this.tokens >= 1) {
+      return 0;
+    }
+    return Math.ceil((1 - this.tokens) / this.refillPerMs);
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * Response Validation
+ *
+ * Checks API responses against the endpoint schemas in `src/types/` before they
+ * reach tools or the cache, so upstream schema changes surface as a
+ * `ValidationError` naming the offending fields instead of `NaN` in tool output.
+ *
+ * Modes:
+ * - `strict` (default): the response must match the schema exactly
+ * - `lenient`: known upstream variants are coerced before giving up
+ *   - numeric strings where numbers are expected (`"1094.42"`)
+ *   - `"true"`/`"false"` where booleans are expected
+ *   - `null` in optional fields
+ *   - arrays wrapped in `{ data }`, `{ items }` or `{ results }` envelopes
+ *   - renamed fields listed in `FIELD_ALIASES`
+ */
+
+import type { z } from 'zod';
+
+/**
+ * Supported validation modes
+ */
+export const VALIDATION_MODES = ['strict', 'lenient'] as const;
+
+/**
+ * Response validation mode
+ */
+export type ValidationMode = (typeof VALIDATION_MODES)[number];
+
+/**
+ * One mismatch between a response and its schema
+ */
+export interface ValidationIssue {
+  /** Dotted path to the field (e.g. `pools.0.hashrate_percent`), empty for the root */
+  path: string;
+
+  /** What was wrong with the field */
+  message: string;
+}
+
+/**
+ * Validation error class
+ */
+export class ValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly invalidData?: unknown,
+    /** Fields that did not match the schema */
+    public readonly issues: ValidationIssue[] = [],
+    /** Endpoint whose response failed validation */
+    public readonly endpoint?: string
+  ) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Fields renamed upstream: schema field name → names seen in older or newer payloads
+ */
+const FIELD_ALIASES: Record<string, readonly string[]> = {
+  // /v1.0/blocks has been observed with pool_name/reward instead of pool/block_value_btc
+  pool: ['pool_name'],
+  block_value_btc: ['reward'],
+};
+
+/**
+ * Object keys known to wrap array responses
+ */
+const ENVELOPE_KEYS = ['data', 'items', 'results'] as const;
+
+/**
+ * Maximum number of issues listed in an error message
+ */
+const MAX_REPORTED_ISSUES = 5;
+
+/**
+ * Maximum coercion passes in lenient mode (each pass may expose nested issues)
+ */
+const MAX_REPAIR_PASSES = 5;
+
+/**
+ * Validate a response against its schema
+ *
+ * @param endpoint - Endpoint path, used in error messages
+ * @param schema - Endpoint response schema
+ * @param data - Parsed JSON response
+ * @param mode - Strict or lenient validation
+ * @returns The validated (and in lenient mode, coerced) response
+ * @throws {ValidationError} If the response does not match the schema
+ */
+export function validateResponse<S extends z.ZodType>(
+  endpoint: string,
+  schema: S,
+  data: unknown,
+  mode: ValidationMode = 'strict'
+): z.output<S> {
+  let result = schema.safeParse(data);
+
+  if (!result.success && mode === 'lenient') {
+    let repaired = structuredClone(data);
+    for (let pass = 0; pass < MAX_REPAIR_PASSES && !result.success; pass += 1) {
+      const next = repair(repaired, result.error.issues);
+      if (next === undefined) {
+        break;
+      }
+      repaired = next;
+      result = schema.safeParse(repaired);
+    }
+  }
+
+  if (result.success) {
+    return result.data;
+  }
+
+  const issues = result.error.issues.map((issue) => ({
+    path: issue.path.map(String).join('.'),
+    message: issue.message,
+  }));
+  throw new ValidationError(formatMessage(endpoint, issues), data, issues, endpoint);
+}
+
+/**
+ * Build an error message listing the first few issues
+ */
+function formatMessage(endpoint: string, issues: ValidationIssue[]): string {
+  const listed = issues
+    .slice(0, MAX_REPORTED_ISSUES)
+    .map((issue) => `${issue.path || '(root)'}: ${issue.message}`);
+  const more = issues.length - listed.length;
+
+  return (
+    `Invalid ${endpoint} response: ${listed.join('; ')}` + (more > 0 ? ` (+${more} more)` : '')
+  );
+}
+
+/**
+ * Apply known coercions for the given issues
+ *
+ * @returns The repaired data, or undefined if no issue could be repaired
+ */
+function repair(data: unknown, issues: readonly z.core.$ZodIssue[]): unknown {
+  let root = data;
+  let changed = false;
+
+  for (const issue of issues) {
+    if (issue.code !== 'invalid_type') {
+      continue;
+    }
+
+    const value = getAt(root, issue.path);
+    const coerced = coerce(value, issue.expected, root, issue.path);
+    if (coerced === NOT_COERCIBLE) {
+      continue;
+    }
+
+    if (issue.path.length === 0) {
+      root = coerced;
+    } else {
+      setAt(root, issue.path, coerced);
+    }
+    changed = true;
+  }
+
+  return changed ? root : undefined;
+}
+
+/**
+ * Marker for values without a known coercion
+ */
+const NOT_COERCIBLE = Symbol('not coercible');
+
+/**
+ * Coerce a value to the expected type using the known variants
+ */
+function coerce(
+  value: unknown,
+  expected: string,
+  root: unknown,
+  path: readonly PropertyKey[]
+): unknown {
+  if (value === null) {
+    // Accepted if the field is optional; a required field fails again on the next pass
+    return undefined;
+  }
+
+  if (value === undefined) {
+    const field = path[path.length - 1];
+    const parent = getAt(root, path.slice(0, -1));
+    if (typeof field === 'string' && isRecord(parent)) {
+      const alias = FIELD_ALIASES[field]?.find((name) => parent[name] !== undefined);
+      if (alias !== undefined) {
+        return parent[alias];
+      }
+    }
+    return NOT_COERCIBLE;
+  }
+
+  if (expected === 'number' && typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : NOT_COERCIBLE;
+  }
+
+  if (expected === 'boolean' && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+
+  if (expected === 'array' && isRecord(value)) {
+    const key = ENVELOPE_KEYS.find((name) => Array.isArray(value[name]));
+    return key !== undefined ? value[key] : NOT_COERCIBLE;
+  }
+
+  return NOT_COERCIBLE;
+}
+
+/**
+ * Read the value at a path (undefined if any step is missing)
+ */
+function getAt(root: unknown, path: readonly PropertyKey[]): unknown {
+  let current = root;
+  for (const key of path) {
+    if (!isRecord(current) && !Array.isArray(current)) {
+      return undefined;
+    }
+    current = (current as Record<PropertyKey, unknown>)[key];
+  }
+  return current;
+}
+
+/**
+ * Write the value at a non-empty path (deleting the key for undefined)
+ */
+function setAt(root: unknown, path: readonly PropertyKey[], value: unknown): void {
+  const parent = getAt(root, path.slice(0, -1));
+  const key = path[path.length - 1];
+  if (key === undefined || (!isRecord(parent) && !Array.isArray(parent))) {
+    return;
+  }
+
+  const target = parent as Record<PropertyKey, unknown>;
+  if (value === undefined && !Array.isArray(parent)) {
+    delete target[key];
+  } else {
+    target[key] = value;
+  }
+}
+
+/**
+ * Check whether a value is a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,88 @@
+/**
+ * Retry Policy
+ *
+ * Helpers for retrying transient upstream failures: which failures are worth
+ * retrying, jittered exponential backoff and `Retry-After` parsing.
+ */
+
+/**
+ * Retry configuration
+ */
+export interface RetryPolicy {
+  /** Retries after the first attempt (0 disables retries) */
+  maxRetries: number;
+
+  /** Backoff before the first retry in milliseconds; doubles on every retry */
+  baseDelayMs: number;
+
+  /** Upper bound for a single backoff or `Retry-After` delay in milliseconds */
+  maxDelayMs: number;
+}
+
+/**
+ * HTTP statuses worth retrying (timeouts, throttling, upstream failures)
+ */
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+/**
+ * HTTP statuses whose `Retry-After` header is honored
+ */
+const RETRY_AFTER_STATUSES = new Set([429, 503]);
+
+/**
+ * Check whether an HTTP status indicates a transient failure
+ */
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.has(status);
+}
+
+/**
+ * Check whether an HTTP status carries a meaningful `Retry-After` header
+ */
+export function honorsRetryAfter(status: number): boolean {
+  return RETRY_AFTER_STATUSES.has(status);
+}
+
+/**
+ * Jittered exponential backoff ("full jitter")
+ *
+ * @param retry - Retry number, starting at 1
+ * @param policy - Base and maximum delay
+ * @param random - Random source in [0, 1) (overridable for tests)
+ * @returns Delay in milliseconds between 0 and min(maxDelayMs, baseDelayMs * 2^(retry - 1))
+ */
+export function computeBackoff(
+  retry: number,
+  policy: Pick<RetryPolicy, 'baseDelayMs' | 'maxDelayMs'>,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  return Math.floor(random() * ceiling);
+}
+
+/**
+ * Parse a `Retry-After` header (delta seconds or HTTP date)
+ *
+ * @param value - Header value
+ * @param now - Current time in milliseconds
+ * @returns Delay in milliseconds, or undefined if absent or unparsable
+ */
+export function parseRetryAfter(
+  value: string | null,
+  now: number = Date.now()
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - now);
+}
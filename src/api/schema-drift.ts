@@ -0,0 +1,590 @@
+/**
+ * Schema Drift Monitor
+ *
+ * Records the observed shape of every API response and compares it with the
+ * endpoint's expected schema, so upstream changes to the (unversioned,
+ * unannounced) Braiins API show up before they break tool output.
+ *
+ * Shapes are flattened into field paths: `pools[].hashrate_percent` is the
+ * `hashrate_percent` field of every element of the `pools` array, and `[]` is an
+ * element of a top-level array. Each response is compared field by field:
+ *
+ * - `added`: the response has a field the schema does not know
+ * - `removed`: a required field is missing from the response
+ * - `type-changed`: a field has a type the schema does not allow
+ *
+ * Drifts are kept with first/last seen times, and marked inactive once a later
+ * response no longer shows them. State is bounded per endpoint. Without a file
+ * it is kept in memory and resets with the process; with one it is loaded at
+ * startup and saved shortly after each response (written to a temp file and
+ * renamed into place), so first-seen times survive restarts. Processes sharing
+ * the file do not merge their records: the last save wins.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { mkdir, rename, unlink, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { z } from 'zod';
+import { RESPONSE_SCHEMAS, RSSItemSchema, SchemaEndpoint } from '../types/insights-api.js';
+
+/**
+ * Kind of difference between a response and its schema
+ */
+export type SchemaChange = 'added' | 'removed' | 'type-changed';
+
+/**
+ * One field that differs from the expected schema
+ */
+export interface SchemaDrift {
+  /** Field path (e.g. `pools[].hashrate_percent`) */
+  path: string;
+
+  /** Kind of difference */
+  change: SchemaChange;
+
+  /** Types allowed by the schema (e.g. `number|null`), undefined for added fields */
+  expected?: string;
+
+  /** Types seen in the response, undefined for removed fields */
+  observed?: string;
+
+  /** First response showing the drift (Unix timestamp in milliseconds) */
+  firstSeenAt: number;
+
+  /** Latest response showing the drift (Unix timestamp in milliseconds) */
+  lastSeenAt: number;
+
+  /** Number of responses showing the drift */
+  occurrences: number;
+
+  /** Whether the latest response still shows the drift */
+  active: boolean;
+}
+
+/**
+ * Drift status of one endpoint
+ */
+export interface EndpointSchemaStatus {
+  /** Endpoint path */
+  endpoint: SchemaEndpoint;
+
+  /** Responses compared since the history began */
+  checks: number;
+
+  /** Latest comparison (Unix timestamp in milliseconds), undefined if never checked */
+  lastCheckedAt?: number;
+
+  /** Drifts seen, most recently seen first */
+  drifts: SchemaDrift[];
+}
+
+/**
+ * Monitor configuration
+ */
+export interface SchemaDriftMonitorOptions {
+  /** Maximum drifts kept per endpoint (least recently seen evicted first) */
+  maxDriftsPerEndpoint?: number;
+
+  /** JSON file the records are loaded from and saved to (default: memory only) */
+  file?: string;
+}
+
+/**
+ * Where the drift history is kept and when it began
+ */
+export interface SchemaHistoryInfo {
+  /** Whether the history is saved to a file and survives restarts */
+  persistent: boolean;
+
+  /** Start of the history (Unix timestamp in milliseconds) */
+  since: number;
+}
+
+/**
+ * Default maximum drifts kept per endpoint
+ */
+export const DEFAULT_MAX_DRIFTS_PER_ENDPOINT = 100;
+
+/**
+ * Array elements inspected per array (shapes are merged across elements)
+ */
+const MAX_SAMPLED_ELEMENTS = 50;
+
+/**
+ * Maximum nesting depth inspected
+ */
+const MAX_DEPTH = 10;
+
+/**
+ * Schemas to compare against where the response schema does not describe every field
+ */
+const SHAPE_SCHEMAS: Partial<Record<SchemaEndpoint, z.ZodType>> = {
+  // Feed items are validated one by one after the envelope check, so the response
+  // schema leaves them unchecked; compare them against the item schema here
+  '/v1.0/rss-feed-data': z.union([
+    z.array(RSSItemSchema),
+    z.object({ items: z.array(RSSItemSchema) }),
+  ]),
+};
+
+/**
+ * Expected field: allowed types, whether it is required, and its parent path
+ */
+interface ExpectedField {
+  types: Set<string>;
+  required: boolean;
+  parent: string | undefined;
+}
+
+/**
+ * Comparison state of one endpoint
+ */
+interface EndpointRecord {
+  checks: number;
+  lastCheckedAt: number;
+  drifts: Map<string, SchemaDrift>;
+}
+
+/**
+ * Type name matching any value (fields the schema does not describe)
+ */
+const ANY = 'any';
+
+/**
+ * Delay before saving, so bursts of responses are written once
+ */
+const SAVE_DELAY_MS = 1_000;
+
+/**
+ * Saved drift records
+ */
+const DriftFileSchema = z.object({
+  since: z.number(),
+  endpoints: z.record(
+    z.string(),
+    z.object({
+      checks: z.number(),
+      lastCheckedAt: z.number(),
+      drifts: z.array(
+        z.object({
+          path: z.string(),
+          change: z.enum(['added', 'removed', 'type-changed']),
+          expected: z.string().optional(),
+          observed: z.string().optional(),
+          firstSeenAt: z.number(),
+          lastSeenAt: z.number(),
+          occurrences: z.number(),
+          active: z.boolean(),
+        })
+      ),
+    })
+  ),
+});
+
+/**
+ * Records response shapes and reports drift from the endpoint schemas
+ */
+export class SchemaDriftMonitor {
+  private readonly maxDriftsPerEndpoint: number;
+  private readonly expected: Map<SchemaEndpoint, Map<string, ExpectedField>> = new Map();
+  private readonly records: Map<SchemaEndpoint, EndpointRecord> = new Map();
+  private readonly file: string | undefined;
+  private since: number = Date.now();
+  private saveTimer: ReturnType<typeof setTimeout> | undefined;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(options: SchemaDriftMonitorOptions = {}) {
+    this.maxDriftsPerEndpoint = options.maxDriftsPerEndpoint ?? DEFAULT_MAX_DRIFTS_PER_ENDPOINT;
+    this.file = options.file;
+    if (this.file) {
+      this.load(this.file);
+    }
+  }
+
+  /**
+   * Compare a response with its endpoint schema and record the differences
+   *
+   * @param endpoint - Endpoint path
+   * @param data - Parsed JSON response (before validation)
+   * @param now - Response time (Unix timestamp in milliseconds)
+   * @returns Drifts shown by this response
+   */
+  observe(endpoint: SchemaEndpoint, data: unknown, now: number = Date.now()): SchemaDrift[] {
+    const found = compareShapes(this.expectedShape(endpoint), observeShape(data));
+
+    const record = this.records.get(endpoint) ?? {
+      checks: 0,
+      lastCheckedAt: now,
+      drifts: new Map<string, SchemaDrift>(),
+    };
+    record.checks += 1;
+    record.lastCheckedAt = now;
+
+    for (const drift of record.drifts.values()) {
+      drift.active = false;
+    }
+
+    const current: SchemaDrift[] = [];
+    for (const { path, change, expected, observed } of found) {
+      const key = `${change}:${path}`;
+      const previous = record.drifts.get(key);
+      const drift: SchemaDrift = {
+        path,
+        change,
+        expected,
+        observed,
+        firstSeenAt: previous?.firstSeenAt ?? now,
+        lastSeenAt: now,
+        occurrences: (previous?.occurrences ?? 0) + 1,
+        active: true,
+      };
+      // Re-insert to keep the map in least recently seen order
+      record.drifts.delete(key);
+      record.drifts.set(key, drift);
+      current.push(drift);
+    }
+
+    for (const key of record.drifts.keys()) {
+      if (record.drifts.size <= this.maxDriftsPerEndpoint) {
+        break;
+      }
+      record.drifts.delete(key);
+    }
+
+    this.records.set(endpoint, record);
+    this.scheduleSave();
+    return current;
+  }
+
+  /**
+   * Where the drift history is kept and when it began
+   */
+  getHistoryInfo(): SchemaHistoryInfo {
+    return { persistent: this.file !== undefined, since: this.since };
+  }
+
+  /**
+   * Save the records to the file now (no-op without a file)
+   *
+   * Saves run one at a time; a failed save is logged and retried with the next response.
+   */
+  save(): Promise<void> {
+    clearTimeout(this.saveTimer);
+    this.saveTimer = undefined;
+    const file = this.file;
+    if (!file) {
+      return Promise.resolve();
+    }
+
+    const contents = JSON.stringify({
+      since: this.since,
+      endpoints: Object.fromEntries(
+        [...this.records].map(([endpoint, record]) => [
+          endpoint,
+          { ...record, drifts: [...record.drifts.values()] },
+        ])
+      ),
+    } satisfies z.input<typeof DriftFileSchema>);
+
+    this.saving = this.saving.then(() =>
+      writeAtomically(file, contents).catch((error: unknown) => {
+        console.error('Could not save schema drift records:', error);
+      })
+    );
+    return this.saving;
+  }
+
+  /**
+   * Save shortly, unless a save is already scheduled
+   */
+  private scheduleSave(): void {
+    if (!this.file || this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => {
+      void this.save();
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  /**
+   * Load saved records; a missing or unreadable file starts a new history
+   */
+  private load(file: string): void {
+    let saved: z.infer<typeof DriftFileSchema>;
+    try {
+      saved = DriftFileSchema.parse(JSON.parse(readFileSync(file, 'utf8')));
+    } catch (error) {
+      if ((error as { code?: string } | undefined)?.code !== 'ENOENT') {
+        console.error(`Ignoring unreadable schema drift records in ${file}:`, error);
+      }
+      return;
+    }
+
+    this.since = saved.since;
+    for (const [endpoint, record] of Object.entries(saved.endpoints)) {
+      if (!(endpoint in RESPONSE_SCHEMAS)) {
+        continue;
+      }
+      this.records.set(endpoint as SchemaEndpoint, {
+        checks: record.checks,
+        lastCheckedAt: record.lastCheckedAt,
+        drifts: new Map(record.drifts.map((drift) => [`${drift.change}:${drift.path}`, drift])),
+      });
+    }
+  }
+
+  /**
+   * Drift status of every endpoint, including endpoints not checked yet
+   */
+  getReport(): EndpointSchemaStatus[] {
+    return (Object.keys(RESPONSE_SCHEMAS) as SchemaEndpoint[]).map((endpoint) => {
+      const record = this.records.get(endpoint);
+      return {
+        endpoint,
+        checks: record?.checks ?? 0,
+        lastCheckedAt: record?.lastCheckedAt,
+        drifts: [...(record?.drifts.values() ?? [])].reverse().map((drift) => ({ ...drift })),
+      };
+    });
+  }
+
+  /**
+   * Flattened expected shape of an endpoint (computed once)
+   */
+  private expectedShape(endpoint: SchemaEndpoint): Map<string, ExpectedField> {
+    let shape = this.expected.get(endpoint);
+    if (!shape) {
+      const schema = SHAPE_SCHEMAS[endpoint] ?? RESPONSE_SCHEMAS[endpoint];
+      shape = new Map();
+      flattenJsonSchema(
+        z.toJSONSchema(schema, { io: 'input', unrepresentable: 'any' }),
+        '',
+        true,
+        undefined,
+        shape
+      );
+      this.expected.set(endpoint, shape);
+    }
+    return shape;
+  }
+}
+
+/**
+ * Write a file through a temp file renamed into place, so readers never see partial contents
+ */
+async function writeAtomically(file: string, contents: string): Promise<void> {
+  await mkdir(dirname(file), { recursive: true });
+  const tempPath = `${file}.${process.pid}.${randomUUID()}.tmp`;
+  try {
+    await writeFile(tempPath, contents, 'utf8');
+    await rename(tempPath, file);
+  } catch (error) {
+    await unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Difference found by comparing shapes
+ */
+interface ShapeDifference {
+  path: string;
+  change: SchemaChange;
+  expected?: string;
+  observed?: string;
+}
+
+/**
+ * Compare an observed shape with the expected one
+ *
+ * Fields below an added or retyped field, and below fields the schema leaves
+ * undescribed, are not reported separately.
+ */
+function compareShapes(
+  expected: Map<string, ExpectedField>,
+  observed: Map<string, Set<string>>
+): ShapeDifference[] {
+  const differences: ShapeDifference[] = [];
+  const skipped = new Set<string>();
+
+  for (const [path, types] of observed) {
+    const parent = parentPath(path);
+    if (parent !== undefined && skipped.has(parent)) {
+      skipped.add(path);
+      continue;
+    }
+
+    const field = expected.get(path);
+    if (!field) {
+      differences.push({ path, change: 'added', observed: formatTypes(types) });
+      skipped.add(path);
+      continue;
+    }
+
+    if (field.types.has(ANY)) {
+      skipped.add(path);
+      continue;
+    }
+
+    const unexpected = [...types].filter((type) => !field.types.has(type));
+    if (unexpected.length > 0) {
+      differences.push({
+        path,
+        change: 'type-changed',
+        expected: formatTypes(field.types),
+        observed: formatTypes(types),
+      });
+      skipped.add(path);
+    }
+  }
+
+  for (const [path, field] of expected) {
+    if (!field.required || observed.has(path) || field.parent === undefined) {
+      continue;
+    }
+    // Only report fields whose parent object was present and matched the schema
+    if (observed.get(field.parent)?.has('object') && !skipped.has(field.parent)) {
+      differences.push({ path, change: 'removed', expected: formatTypes(field.types) });
+    }
+  }
+
+  return differences;
+}
+
+/**
+ * Flatten a JSON Schema (as produced by `z.toJSONSchema`) into field paths
+ */
+function flattenJsonSchema(
+  node: unknown,
+  path: string,
+  required: boolean,
+  parent: string | undefined,
+  out: Map<string, ExpectedField>
+): void {
+  if (!isRecord(node)) {
+    return;
+  }
+
+  const field = out.get(path) ?? { types: new Set<string>(), required, parent };
+  field.required = field.required && required;
+  out.set(path, field);
+
+  const branches = node['anyOf'] ?? node['oneOf'];
+  if (Array.isArray(branches)) {
+    // Fields below a union are only required if a single non-null branch has them
+    const nonNull = branches.filter((branch) => !isRecord(branch) || branch['type'] !== 'null');
+    const ownRequired = field.required;
+    for (const branch of branches) {
+      flattenJsonSchema(branch, path, required && nonNull.length <= 1, parent, out);
+    }
+    field.required = ownRequired;
+    return;
+  }
+
+  const type = node['type'];
+  const types = Array.isArray(type) ? type : type !== undefined ? [type] : [];
+  if (types.length === 0) {
+    field.types.add(ANY);
+    return;
+  }
+  for (const name of types) {
+    field.types.add(name === 'integer' ? 'number' : String(name));
+  }
+
+  const properties = node['properties'];
+  if (isRecord(properties)) {
+    const requiredKeys = Array.isArray(node['required']) ? node['required'] : [];
+    for (const [key, child] of Object.entries(properties)) {
+      flattenJsonSchema(
+        child,
+        childPath(path, key),
+        required && requiredKeys.includes(key),
+        path,
+        out
+      );
+    }
+  }
+
+  if (node['items'] !== undefined) {
+    flattenJsonSchema(node['items'], `${path}[]`, required, path, out);
+  }
+}
+
+/**
+ * Flatten a JSON value into field paths and the types seen at each
+ */
+function observeShape(data: unknown): Map<string, Set<string>> {
+  const shape = new Map<string, Set<string>>();
+
+  const visit = (value: unknown, path: string, depth: number): void => {
+    const types = shape.get(path) ?? new Set<string>();
+    types.add(typeOf(value));
+    shape.set(path, types);
+
+    if (depth >= MAX_DEPTH) {
+      return;
+    }
+    if (Array.isArray(value)) {
+      for (const element of value.slice(0, MAX_SAMPLED_ELEMENTS)) {
+        visit(element, `${path}[]`, depth + 1);
+      }
+    } else if (isRecord(value)) {
+      for (const [key, child] of Object.entries(value)) {
+        visit(child, childPath(path, key), depth + 1);
+      }
+    }
+  };
+
+  visit(data, '', 0);
+  return shape;
+}
+
+/**
+ * JSON type name of a value
+ */
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
+
+/**
+ * Path of an object field
+ */
+function childPath(path: string, key: string): string {
+  return path === '' ? key : `${path}.${key}`;
+}
+
+/**
+ * Path of the object or array containing a field (undefined for the root)
+ */
+function parentPath(path: string): string | undefined {
+  if (path === '') {
+    return undefined;
+  }
+  if (path.endsWith('[]')) {
+    return path.slice(0, -2);
+  }
+  const dot = path.lastIndexOf('.');
+  return dot === -1 ? '' : path.slice(0, dot);
+}
+
+/**
+ * Format a set of type names (e.g. `number|null`)
+ */
+function formatTypes(types: Set<string>): string {
+  return [...types].sort().join('|');
+}
+
+/**
+ * Check whether a value is a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,132 @@
+/**
+ * Command-Line Options
+ *
+ * Parses the server's command-line flags into configuration overrides:
+ *
+ * ```
+ * braiins-insights-mcp [--config path] [--transport stdio|http] [--host 127.0.0.1] [--port 3000]
+ *                      [--base-url url] [--timeout ms] [--validation strict|lenient]
+ *                      [--no-cache]
+ *                      [--cache-backend memory|file] [--cache-dir path]
+ *                      [--rate-limit n] [--burst-limit n]
+ *                      [--rate-limit-mode queue|fail-fast] [--max-queue-wait ms]
+ *                      [--max-retries n] [--circuit-breaker-threshold n]
+ *                      [--snapshots|--no-snapshots] [--snapshot-dir path] [--snapshot-interval ms]
+ *                      [--enable-tools a,b] [--disable-tools a,b]
+ *                      [--enable-categories a,b] [--disable-categories a,b]
+ * ```
+ *
+ * Values are validated together with the other configuration sources in `loadConfig()`.
+ */
+
+import { parseArgs } from 'node:util';
+import type { ConfigOverrides } from './config.js';
+
+/**
+ * Parsed command-line flags
+ */
+export interface CliArgs {
+  /** Path to a JSON or YAML config file */
+  configPath?: string;
+
+  /** Configuration overrides from flags */
+  overrides: ConfigOverrides;
+}
+
+/**
+ * Parse command-line flags
+ *
+ * @param argv - Arguments after the script name (defaults to `process.argv.slice(2)`)
+ * @returns Config file path and overrides (unset flags are omitted)
+ * @throws {Error} If a flag is unknown or missing its value
+ */
+export function parseCliArgs(argv: string[] = process.argv.slice(2)): CliArgs {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      config: { type: 'string' },
+      transport: { type: 'string' },
+      host: { type: 'string' },
+      port: { type: 'string' },
+      'base-url': { type: 'string' },
+      timeout: { type: 'string' },
+      validation: { type: 'string' },
+      'no-cache': { type: 'boolean' },
+      'cache-backend': { type: 'string' },
+      'cache-dir': { type: 'string' },
+      'rate-limit': { type: 'string' },
+      'burst-limit': { type: 'string' },
+      'rate-limit-mode': { type: 'string' },
+      'max-queue-wait': { type: 'string' },
+      'max-retries': { type: 'string' },
+      'circuit-breaker-threshold': { type: 'string' },
+      snapshots: { type: 'boolean' },
+      'no-snapshots': { type: 'boolean' },
+      'snapshot-dir': { type: 'string' },
+      'snapshot-interval': { type: 'string' },
+      'enable-tools': { type: 'string' },
+      'disable-tools': { type: 'string' },
+      'enable-categories': { type: 'string' },
+      'disable-categories': { type: 'string' },
+    },
+    strict: true,
+    allowPositionals: false,
+  });
+
+  return {
+    configPath: values.config,
+    overrides: {
+      server: {
+        transport: values.transport,
+        host: values.host,
+        port: values.port,
+      },
+      api: {
+        baseUrl: values['base-url'],
+        timeoutMs: values.timeout,
+        validation: values.validation,
+      },
+      cache: {
+        enabled: values['no-cache'] ? false : undefined,
+        backend: values['cache-backend'],
+        directory: values['cache-dir'],
+      },
+      rateLimit: {
+        requestsPerMinute: values['rate-limit'],
+        burstLimit: values['burst-limit'],
+        mode: values['rate-limit-mode'],
+        maxQueueWaitMs: values['max-queue-wait'],
+      },
+      retry: {
+        maxRetries: values['max-retries'],
+      },
+      circuitBreaker: {
+        failureThreshold: values['circuit-breaker-threshold'],
+      },
+      snapshots: {
+        enabled: values['no-snapshots'] ? false : values['snapshots'],
+        directory: values['snapshot-dir'],
+        intervalMs: values['snapshot-interval'],
+      },
+      tools: {
+        enabled: splitList(values['enable-tools']),
+        disabled: splitList(values['disable-tools']),
+        enabledCategories: splitList(values['enable-categories']),
+        disabledCategories: splitList(values['disable-categories']),
+      },
+    },
+  };
+}
+
+/**
+ * Split a comma-separated flag value into trimmed, non-empty items
+ */
+export function splitList(value: string | undefined): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
@@ -0,0 +1,506 @@
+/**
+ * Server Configuration
+ *
+ * Builds the validated server configuration from, in increasing precedence:
+ *
+ * 1. Built-in defaults
+ * 2. Optional JSON/YAML config file (`--config` or `INSIGHTS_CONFIG`)
+ * 3. Environment variables (`INSIGHTS_*`)
+ * 4. Command-line flags
+ *
+ * @example config.yaml
+ * ```yaml
+ * api:
+ *   baseUrl: http://insights-mirror.internal/api
+ *   timeoutMs: 5000
+ *   validation: lenient
+ * cache:
+ *   backend: file
+ *   ttlMs:
+ *     /v1.0/blocks: 10000
+ * rateLimit:
+ *   requestsPerMinute: 120
+ *   maxQueueWaitMs: 10000
+ * retry:
+ *   maxRetries: 3
+ * snapshots:
+ *   enabled: true
+ *   intervalMs: 300000
+ *   sources: [hashrate, price]
+ * tools:
+ *   enabledCategories: [simple, composite]
+ *   disabled: [braiins_rss_feed_data]
+ * ```
+ */
+
+import { readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { extname, join, resolve } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { CacheBackend, MemoryCacheBackend } from './api/cache-backend.js';
+import { FileCacheBackend } from './api/file-cache-backend.js';
+import { CACHE_TTL, CachedEndpoint, InsightsClientConfig } from './api/insights-client.js';
+import { VALIDATION_MODES } from './api/response-validation.js';
+import { parseCliArgs, splitList } from './cli.js';
+import { TOOL_CATEGORIES } from './tools/categories.js';
+import { FileSnapshotStore, SNAPSHOT_SOURCES, SnapshotStore } from './snapshots/snapshot-store.js';
+
+/**
+ * Supported MCP transports
+ */
+export const TRANSPORTS = ['stdio', 'http'] as const;
+
+/**
+ * Supported rate limiting modes
+ */
+export const RATE_LIMIT_MODES = ['queue', 'fail-fast'] as const;
+
+/**
+ * Supported response cache backends
+ */
+export const CACHE_BACKENDS = ['memory', 'file'] as const;
+
+/**
+ * Endpoints whose cache TTL can be overridden
+ */
+const CACHED_ENDPOINTS = Object.keys(CACHE_TTL) as [CachedEndpoint, ...CachedEndpoint[]];
+
+/**
+ * Boolean accepting common string spellings from env vars and flags
+ */
+const BooleanLike = z.preprocess((value) => {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  const normalized = value.trim().toLowerCase();
+  if (['true', '1', 'yes', 'on'].includes(normalized)) {
+    return true;
+  }
+  if (['false', '0', 'no', 'off'].includes(normalized)) {
+    return false;
+  }
+  return value;
+}, z.boolean());
+
+/**
+ * Non-negative integer, coerced from strings
+ */
+const NonNegativeInt = z.coerce.number().int('Must be an integer').min(0, 'Cannot be negative');
+
+/**
+ * Zod validation schema for the complete server configuration
+ */
+const ServerConfigSchema = z.strictObject({
+  server: z
+    .strictObject({
+      transport: z.enum(TRANSPORTS).default('stdio'),
+      host: z.string().min(1, 'Host cannot be empty').default('127.0.0.1'),
+      port: NonNegativeInt.max(65535, 'Port must be between 0 and 65535').default(3000),
+      sessionIdleTimeoutMs: NonNegativeInt.default(1_800_000).describe(
+        'Close HTTP sessions without open requests for this long (0 disables)'
+      ),
+    })
+    .prefault({}),
+  api: z
+    .strictObject({
+      baseUrl: z.url('Base URL must be a valid URL').optional(),
+      timeoutMs: z.coerce
+        .number()
+        .int('Must be an integer')
+        .positive('Must be positive')
+        .optional(),
+      headers: z.record(z.string(), z.string()).optional(),
+      validation: z
+        .enum(VALIDATION_MODES)
+        .default('strict')
+        .describe('Reject responses that drift from their schema, or coerce known variants first'),
+      schemaDriftFile: z
+        .string()
+        .min(1, 'File cannot be empty')
+        .optional()
+        .describe(
+          'Schema drift history location (default: $XDG_DATA_HOME/braiins-insights-mcp/schema-drift.json)'
+        ),
+    })
+    .prefault({}),
+  cache: z
+    .strictObject({
+      enabled: BooleanLike.default(true),
+      backend: z.enum(CACHE_BACKENDS).default('memory'),
+      directory: z
+        .string()
+        .min(1, 'Directory cannot be empty')
+        .optional()
+        .describe('File cache location (default: $XDG_CACHE_HOME/braiins-insights-mcp)'),
+      maxEntries: z.coerce
+        .number()
+        .int('Must be an integer')
+        .positive('Must be positive')
+        .optional()
+        .describe('Cached responses kept before LRU eviction'),
+      maxBytes: z.coerce
+        .number()
+        .int('Must be an integer')
+        .positive('Must be positive')
+        .optional()
+        .describe('File cache size limit before LRU eviction'),
+      ttlMs: z
+        .partialRecord(z.enum(CACHED_ENDPOINTS), NonNegativeInt)
+        .default({})
+        .describe('Per-endpoint TTL overrides in milliseconds (0 disables caching)'),
+      staleWhileRevalidateMs: NonNegativeInt.optional().describe(
+        'Serve expired entries while refreshing them in the background'
+      ),
+      staleIfErrorMs: NonNegativeInt.optional().describe(
+        'Serve expired entries when the upstream request fails'
+      ),
+    })
+    .prefault({}),
+  rateLimit: z
+    .strictObject({
+      requestsPerMinute: NonNegativeInt.optional().describe('0 disables rate limiting'),
+      burstLimit: NonNegativeInt.optional().describe('Requests allowed back-to-back'),
+      mode: z
+        .enum(RATE_LIMIT_MODES)
+        .optional()
+        .describe('queue: wait for a slot; fail-fast: error immediately'),
+      maxQueueWaitMs: NonNegativeInt.optional().describe('Maximum wait in the rate limit queue'),
+    })
+    .prefault({}),
+  retry: z
+    .strictObject({
+      maxRetries: NonNegativeInt.optional().describe('0 disables retries'),
+      baseDelayMs: NonNegativeInt.optional().describe('Backoff before the first retry'),
+      maxDelayMs: NonNegativeInt.optional().describe('Longest backoff or Retry-After honored'),
+    })
+    .prefault({}),
+  circuitBreaker: z
+    .strictObject({
+      failureThreshold: NonNegativeInt.optional().describe('0 disables the circuit breaker'),
+      resetMs: NonNegativeInt.optional().describe('Time an open circuit rejects requests'),
+    })
+    .prefault({}),
+  snapshots: z
+    .strictObject({
+      enabled: BooleanLike.default(false).describe(
+        'Record snapshots in the background (off by default so short-lived stdio sessions do not poll)'
+      ),
+      intervalMs: z.coerce
+        .number()
+        .int('Must be an integer')
+        .min(10_000, 'Must be at least 10000')
+        .optional()
+        .describe('Time between snapshots'),
+      directory: z
+        .string()
+        .min(1, 'Directory cannot be empty')
+        .optional()
+        .describe('Snapshot location (default: $XDG_DATA_HOME/braiins-insights-mcp/snapshots)'),
+      retentionDays: NonNegativeInt.optional().describe('Days of snapshots kept (0 keeps all)'),
+      sources: z.array(z.enum(SNAPSHOT_SOURCES)).optional().describe('Endpoints to record'),
+    })
+    .prefault({}),
+  tools: z
+    .strictObject({
+      enabled: z.array(z.string()).optional().describe('Only register these tools'),
+      disabled: z.array(z.string()).default([]).describe('Never register these tools'),
+      enabledCategories: z
+        .array(z.enum(TOOL_CATEGORIES))
+        .optional()
+        .describe('Only register tools in these categories (plus `enabled` tools)'),
+      disabledCategories: z
+        .array(z.enum(TOOL_CATEGORIES))
+        .default([])
+        .describe('Never register tools in these categories'),
+    })
+    .prefault({}),
+});
+
+/**
+ * Validated server configuration
+ */
+export type ServerConfig = z.infer<typeof ServerConfigSchema>;
+
+/**
+ * Raw, unvalidated overrides for each configuration section
+ */
+export type ConfigOverrides = {
+  [Section in keyof ServerConfig]?: Partial<Record<keyof ServerConfig[Section], unknown>>;
+};
+
+/**
+ * Configuration error with the list of invalid settings
+ */
+export class ConfigError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: string[] = []
+  ) {
+    super(issues.length > 0 ? `${message}\n${issues.map((i) => `- ${i}`).join('\n')}` : message);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Options for loading configuration (defaults to the current process)
+ */
+export interface LoadConfigOptions {
+  /** Command-line arguments after the script name */
+  argv?: string[];
+
+  /** Environment variables */
+  env?: Record<string, string | undefined>;
+}
+
+/**
+ * Load and validate the server configuration
+ *
+ * @param options - Argument and environment sources
+ * @returns Validated configuration with defaults applied
+ * @throws {ConfigError} If the config file cannot be read or any setting is invalid
+ */
+export function loadConfig(options: LoadConfigOptions = {}): ServerConfig {
+  const env = options.env ?? process.env;
+
+  let cli: ReturnType<typeof parseCliArgs>;
+  try {
+    cli = parseCliArgs(options.argv ?? process.argv.slice(2));
+  } catch (error) {
+    throw new ConfigError(
+      `Invalid command-line arguments: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const configPath = cli.configPath ?? env['INSIGHTS_CONFIG'];
+  const fileConfig = configPath ? readConfigFile(configPath) : {};
+
+  const merged = mergeOverrides(fileConfig, readEnvOverrides(env), cli.overrides);
+
+  const result = ServerConfigSchema.safeParse(merged);
+  if (!result.success) {
+    throw new ConfigError(
+      'Invalid configuration',
+      result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+    );
+  }
+
+  return result.data;
+}
+
+/**
+ * Map server configuration to API client options
+ *
+ * @param config - Validated server configuration
+ * @returns Options for `createInsightsClient()`
+ */
+export function toClientConfig(config: ServerConfig): InsightsClientConfig {
+  return {
+    baseUrl: config.api.baseUrl,
+    timeout: config.api.timeoutMs,
+    headers: config.api.headers,
+    validationMode: config.api.validation,
+    schemaDriftFile: resolve(config.api.schemaDriftFile ?? defaultSchemaDriftFile()),
+    cacheEnabled: config.cache.enabled,
+    cacheBackend: createCacheBackend(config.cache),
+    cacheTtl: config.cache.ttlMs,
+    staleWhileRevalidateMs: config.cache.staleWhileRevalidateMs,
+    staleIfErrorMs: config.cache.staleIfErrorMs,
+    maxRequestsPerMinute: config.rateLimit.requestsPerMinute,
+    burstLimit: config.rateLimit.burstLimit,
+    rateLimitMode: config.rateLimit.mode,
+    maxQueueWaitMs: config.rateLimit.maxQueueWaitMs,
+    maxRetries: config.retry.maxRetries,
+    retryBaseDelayMs: config.retry.baseDelayMs,
+    retryMaxDelayMs: config.retry.maxDelayMs,
+    circuitBreakerThreshold: config.circuitBreaker.failureThreshold,
+    circuitBreakerResetMs: config.circuitBreaker.resetMs,
+  };
+}
+
+/**
+ * Create the snapshot store for the recorder and `braiins_snapshot_history`
+ *
+ * The store is file-backed even when recording is disabled, so the tool can read
+ * history written by an earlier run or by a separate recording process.
+ *
+ * @param config - Validated server configuration
+ * @returns File store in the configured or default directory
+ */
+export function createSnapshotStore(config: ServerConfig): SnapshotStore {
+  return new FileSnapshotStore({
+    directory: resolve(config.snapshots.directory ?? defaultSnapshotDirectory()),
+    retentionDays: config.snapshots.retentionDays,
+  });
+}
+
+/**
+ * Create the configured cache backend
+ */
+function createCacheBackend(cache: ServerConfig['cache']): CacheBackend {
+  if (cache.backend === 'file') {
+    return new FileCacheBackend({
+      directory: resolve(cache.directory ?? defaultCacheDirectory()),
+      maxEntries: cache.maxEntries,
+      maxBytes: cache.maxBytes,
+    });
+  }
+  return new MemoryCacheBackend(cache.maxEntries);
+}
+
+/**
+ * Default file cache directory, following the XDG base directory convention
+ */
+function defaultCacheDirectory(): string {
+  const base = process.env['XDG_CACHE_HOME'] ?? join(homedir(), '.cache');
+  return join(base, 'braiins-insights-mcp');
+}
+
+/**
+ * Default snapshot directory, following the XDG base directory convention
+ */
+function defaultSnapshotDirectory(): string {
+  const base = process.env['XDG_DATA_HOME'] ?? join(homedir(), '.local', 'share');
+  return join(base, 'braiins-insights-mcp', 'snapshots');
+}
+
+/**
+ * Default schema drift history file, following the XDG base directory convention
+ */
+function defaultSchemaDriftFile(): string {
+  const base = process.env['XDG_DATA_HOME'] ?? join(homedir(), '.local', 'share');
+  return join(base, 'braiins-insights-mcp', 'schema-drift.json');
+}
+
+/**
+ * Read a JSON or YAML config file
+ *
+ * @throws {ConfigError} If the file is missing, unparsable or not an object
+ */
+function readConfigFile(path: string): ConfigOverrides {
+  const fullPath = resolve(path);
+  const extension = extname(fullPath).toLowerCase();
+
+  let raw: string;
+  try {
+    raw = readFileSync(fullPath, 'utf8');
+  } catch (error) {
+    throw new ConfigError(
+      `Cannot read config file ${fullPath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  let parsed: unknown;
+  try {
+    if (extension === '.json') {
+      parsed = JSON.parse(raw);
+    } else if (extension === '.yaml' || extension === '.yml') {
+      parsed = parseYaml(raw);
+    } else {
+      throw new Error(`unsupported extension "${extension}" (use .json, .yaml or .yml)`);
+    }
+  } catch (error) {
+    throw new ConfigError(
+      `Cannot parse config file ${fullPath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ConfigError(`Config file ${fullPath} must contain an object`);
+  }
+
+  return parsed as ConfigOverrides;
+}
+
+/**
+ * Read configuration overrides from `INSIGHTS_*` environment variables
+ */
+function readEnvOverrides(env: Record<string, string | undefined>): ConfigOverrides {
+  return {
+    server: {
+      transport: env['INSIGHTS_TRANSPORT'],
+      host: env['INSIGHTS_HOST'],
+      port: env['INSIGHTS_PORT'],
+      sessionIdleTimeoutMs: env['INSIGHTS_SESSION_IDLE_TIMEOUT_MS'],
+    },
+    api: {
+      baseUrl: env['INSIGHTS_API_BASE_URL'],
+      timeoutMs: env['INSIGHTS_TIMEOUT_MS'],
+      validation: env['INSIGHTS_API_VALIDATION'],
+      schemaDriftFile: env['INSIGHTS_SCHEMA_DRIFT_FILE'],
+    },
+    cache: {
+      enabled: env['INSIGHTS_CACHE_ENABLED'],
+      backend: env['INSIGHTS_CACHE_BACKEND'],
+      directory: env['INSIGHTS_CACHE_DIR'],
+      staleWhileRevalidateMs: env['INSIGHTS_STALE_WHILE_REVALIDATE_MS'],
+      staleIfErrorMs: env['INSIGHTS_STALE_IF_ERROR_MS'],
+    },
+    rateLimit: {
+      requestsPerMinute: env['INSIGHTS_RATE_LIMIT'],
+      burstLimit: env['INSIGHTS_BURST_LIMIT'],
+      mode: env['INSIGHTS_RATE_LIMIT_MODE'],
+      maxQueueWaitMs: env['INSIGHTS_MAX_QUEUE_WAIT_MS'],
+    },
+    retry: {
+      maxRetries: env['INSIGHTS_MAX_RETRIES'],
+    },
+    circuitBreaker: {
+      failureThreshold: env['INSIGHTS_CIRCUIT_BREAKER_THRESHOLD'],
+    },
+    snapshots: {
+      enabled: env['INSIGHTS_SNAPSHOTS_ENABLED'],
+      intervalMs: env['INSIGHTS_SNAPSHOT_INTERVAL_MS'],
+      directory: env['INSIGHTS_SNAPSHOT_DIR'],
+      retentionDays: env['INSIGHTS_SNAPSHOT_RETENTION_DAYS'],
+      sources: splitList(env['INSIGHTS_SNAPSHOT_SOURCES']),
+    },
+    tools: {
+      enabled: splitList(env['INSIGHTS_ENABLED_TOOLS']),
+      disabled: splitList(env['INSIGHTS_DISABLED_TOOLS']),
+      enabledCategories: splitList(env['INSIGHTS_ENABLED_CATEGORIES']),
+      disabledCategories: splitList(env['INSIGHTS_DISABLED_CATEGORIES']),
+    },
+  };
+}
+
+/**
+ * Merge override layers section by section; later layers win and unset values are skipped
+ */
+function mergeOverrides(...layers: ConfigOverrides[]): Record<string, unknown> {
+  const merged: Record<string, unknown> = {};
+
+  for (const layer of layers) {
+    for (const [section, values] of Object.entries(layer) as Array<[string, unknown]>) {
+      const target = merged[section];
+      if (!isPlainObject(values)) {
+        // Keep malformed sections so schema validation reports them
+        merged[section] = values;
+        continue;
+      }
+      if (target !== undefined && !isPlainObject(target)) {
+        continue;
+      }
+
+      const next: Record<string, unknown> = { ...target };
+      for (const [key, value] of Object.entries(values)) {
+        if (value !== undefined && value !== '') {
+          next[key] = value;
+        }
+      }
+      merged[section] = next;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Check whether a value is a non-array object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
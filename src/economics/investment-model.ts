@@ -0,0 +1,371 @@
+/**
+ * Mining Investment Model
+ *
+ * Turns a cost-to-mine projection into the cash flows of a mining investment
+ * and evaluates it: NPV, IRR, payback period, loan amortization and after-tax
+ * cash flow per period.
+ *
+ * Per period:
+ *
+ * - revenue is the BTC mined at the period's price; the HODL share of the BTC is
+ *   kept rather than sold, so only the rest is cash
+ * - costs are electricity and fixed opex; a loan is repaid in equal instalments
+ *   (annuity) over its payback periods
+ * - income tax is charged on revenue (kept BTC included, at the period's price)
+ *   less costs, loan interest and hardware depreciation; losses are not carried
+ *   forward
+ *
+ * The investment starts with capex paid and the loan received. At the horizon
+ * the kept BTC (at the last period's price, before capital gains tax) and the
+ * remaining hardware value are added, and any outstanding loan is repaid.
+ */
+
+import type { BraiinsInsightsCostToMine } from '../types/insights-api.js';
+import { PERIOD_DAYS } from './mining-engine.js';
+
+/**
+ * Financing, tax and hardware assumptions
+ */
+export interface InvestmentParams {
+  /** Up-front investment in USD */
+  capex: number;
+
+  /** Loan taken at the start in USD */
+  loanAmount: number;
+
+  /** Yearly loan interest rate as decimal */
+  loanInterestRate: number;
+
+  /** Number of periods over which the loan is repaid */
+  loanPaybackPeriods: number;
+
+  /** Yearly discount rate for NPV as decimal */
+  discountRate: number;
+
+  /** Share of mined BTC kept instead of sold, 0-1 */
+  hodlRate: number;
+
+  /** Income tax rate as decimal */
+  incomeTaxRate: number;
+
+  /** Hardware value at the start in USD */
+  hardwareValue: number;
+
+  /** Yearly change of the hardware value as decimal (-0.4 = loses 40% a year) */
+  yearlyHardwareValueChange: number;
+}
+
+/**
+ * Operating result of one projection period
+ */
+export interface PeriodProjection {
+  btcPrice: number;
+  btcMined: number;
+  electricityCost: number;
+  opex: number;
+}
+
+/**
+ * One instalment of the loan
+ */
+export interface LoanPayment {
+  period: number;
+  openingBalance: number;
+  payment: number;
+  interest: number;
+  principal: number;
+  closingBalance: number;
+}
+
+/**
+ * Cash flows of one period
+ */
+export interface PeriodCashFlow {
+  /** Period number, from 1 */
+  period: number;
+
+  btcPrice: number;
+  btcMined: number;
+
+  /** Value of all BTC mined in the period */
+  revenue: number;
+
+  /** Value of the BTC sold in the period */
+  soldRevenue: number;
+
+  electricityCost: number;
+  opex: number;
+  interest: number;
+  principal: number;
+  depreciation: number;
+  taxableIncome: number;
+  tax: number;
+
+  /** Cash left to the owner after costs, debt service and tax */
+  cashFlow: number;
+
+  /** Initial cash flow plus the cash flows so far */
+  cumulativeCashFlow: number;
+
+  /** Cash flow discounted to the start */
+  discountedCashFlow: number;
+
+  /** BTC kept so far */
+  btcHeld: number;
+}
+
+/**
+ * Evaluation of a mining investment
+ */
+export interface InvestmentResult {
+  /** Days per period */
+  periodDays: number;
+
+  /** Cash flow at the start: loan received less capex */
+  initialCashFlow: number;
+
+  cashFlows: PeriodCashFlow[];
+
+  /** Empty without a loan */
+  loanSchedule: LoanPayment[];
+
+  /** Value added at the end of the last period */
+  terminal: {
+    btcHeld: number;
+    btcValue: number;
+    hardwareValue: number;
+    loanBalance: number;
+    value: number;
+  };
+
+  /** Net present value at the discount rate, terminal value included */
+  npv: number;
+
+  /** Yearly internal rate of return, null when undefined */
+  irr: number | null;
+
+  /** Periods until cumulative cash flow turns non-negative (interpolated), null if never */
+  paybackPeriods: number | null;
+
+  totals: {
+    revenue: number;
+    electricityCost: number;
+    opex: number;
+    interest: number;
+    tax: number;
+    cashFlow: number;
+  };
+}
+
+/**
+ * Per-period operating results of a cost-to-mine response
+ *
+ * BTC mined is recovered from the marginal break-even electricity price, which
+ * is the period's revenue less opex per kWh.
+ *
+ * @param data - Cost-to-mine response (API or local engine)
+ */
+export function projectCostToMine(data: BraiinsInsightsCostToMine): PeriodProjection[] {
+  const { payload, result } = data;
+  const days = PERIOD_DAYS[payload.period_resolution];
+  const dailyKwh = (payload.consumption_watts / 1000) * 24;
+  const dailyOpex = (payload.monthly_fixed_opex * 12) / 365;
+
+  return result.price.map((btcPrice, index) => {
+    const breakEven = result.marginal_electricity_breakeven_fiat[index] ?? 0;
+    const dailyRevenue = Math.max(0, breakEven * dailyKwh + dailyOpex);
+    return {
+      btcPrice,
+      btcMined: btcPrice > 0 ? (dailyRevenue * days) / btcPrice : 0,
+      electricityCost: dailyKwh * payload.electricity_price_per_kwh * days,
+      opex: dailyOpex * days,
+    };
+  });
+}
+
+/**
+ * Equal-instalment loan schedule
+ *
+ * @param amount - Loan amount
+ * @param ratePerPeriod - Interest rate per period as decimal
+ * @param periods - Number of instalments
+ */
+export function amortizeLoan(
+  amount: number,
+  ratePerPeriod: number,
+  periods: number
+): LoanPayment[] {
+  if (amount <= 0 || periods < 1) {
+    return [];
+  }
+  const payment =
+    ratePerPeriod === 0
+      ? amount / periods
+      : (amount * ratePerPeriod) / (1 - (1 + ratePerPeriod) ** -periods);
+
+  const schedule: LoanPayment[] = [];
+  let balance = amount;
+  for (let period = 1; period <= periods; period++) {
+    const interest = balance * ratePerPeriod;
+    // The last instalment clears rounding residue
+    const principal = period === periods ? balance : payment - interest;
+    schedule.push({
+      period,
+      openingBalance: balance,
+      payment: principal + interest,
+      interest,
+      principal,
+      closingBalance: balance - principal,
+    });
+    balance -= principal;
+  }
+  return schedule;
+}
+
+/**
+ * Evaluate a mining investment over projected periods
+ *
+ * @param periods - Operating result of each period
+ * @param periodDays - Days per period
+ * @param params - Financing, tax and hardware assumptions
+ */
+export function evaluateInvestment(
+  periods: PeriodProjection[],
+  periodDays: number,
+  params: InvestmentParams
+): InvestmentResult {
+  const years = periodDays / 365;
+  const loanSchedule = amortizeLoan(
+    params.loanAmount,
+    params.loanInterestRate * years,
+    params.loanPaybackPeriods
+  );
+  const discountFactor = (1 + params.discountRate) ** years;
+  const hardwareValueAt = (period: number): number =>
+    params.hardwareValue * Math.max(0, 1 + params.yearlyHardwareValueChange) ** (period * years);
+
+  const initialCashFlow = params.loanAmount - params.capex;
+  const cashFlows: PeriodCashFlow[] = [];
+  let cumulativeCashFlow = initialCashFlow;
+  let btcHeld = 0;
+
+  periods.forEach((projection, index) => {
+    const period = index + 1;
+    const loan = loanSchedule[index];
+    const revenue = projection.btcMined * projection.btcPrice;
+    const soldRevenue = revenue * (1 - params.hodlRate);
+    const interest = loan?.interest ?? 0;
+    const principal = loan?.principal ?? 0;
+    const depreciation = Math.max(0, hardwareValueAt(period - 1) - hardwareValueAt(period));
+    const taxableIncome =
+      revenue - projection.electricityCost - projection.opex - interest - depreciation;
+    const tax = Math.max(0, taxableIncome) * params.incomeTaxRate;
+    const cashFlow =
+      soldRevenue - projection.electricityCost - projection.opex - interest - principal - tax;
+
+    cumulativeCashFlow += cashFlow;
+    btcHeld += projection.btcMined * params.hodlRate;
+    cashFlows.push({
+      period,
+      btcPrice: projection.btcPrice,
+      btcMined: projection.btcMined,
+      revenue,
+      soldRevenue,
+      electricityCost: projection.electricityCost,
+      opex: projection.opex,
+      interest,
+      principal,
+      depreciation,
+      taxableIncome,
+      tax,
+      cashFlow,
+      cumulativeCashFlow,
+      discountedCashFlow: cashFlow / discountFactor ** period,
+      btcHeld,
+    });
+  });
+
+  const horizon = periods.length;
+  const btcValue = btcHeld * (periods[horizon - 1]?.btcPrice ?? 0);
+  const hardwareValue = hardwareValueAt(horizon);
+  const loanBalance = loanSchedule[horizon - 1]?.closingBalance ?? 0;
+  const terminalValue = btcValue + hardwareValue - loanBalance;
+
+  const flows = [initialCashFlow, ...cashFlows.map((flow) => flow.cashFlow)];
+  flows[horizon] = (flows[horizon] ?? 0) + terminalValue;
+  const irrPerPeriod = internalRateOfReturn(flows);
+
+  const sum = (field: keyof PeriodCashFlow): number =>
+    cashFlows.reduce((total, flow) => total + flow[field], 0);
+
+  return {
+    periodDays,
+    initialCashFlow,
+    cashFlows,
+    loanSchedule,
+    terminal: {
+      btcHeld,
+      btcValue,
+      hardwareValue,
+      loanBalance,
+      value: terminalValue,
+    },
+    npv: flows.reduce((total, flow, period) => total + flow / discountFactor ** period, 0),
+    irr: irrPerPeriod === null ? null : (1 + irrPerPeriod) ** (1 / years) - 1,
+    paybackPeriods: paybackPeriods(initialCashFlow, cashFlows),
+    totals: {
+      revenue: sum('revenue'),
+      electricityCost: sum('electricityCost'),
+      opex: sum('opex'),
+      interest: sum('interest'),
+      tax: sum('tax'),
+      cashFlow: sum('cashFlow'),
+    },
+  };
+}
+
+/**
+ * Periods until the cumulative cash flow is non-negative, interpolated within
+ * the period in which it turns
+ */
+function paybackPeriods(initialCashFlow: number, cashFlows: PeriodCashFlow[]): number | null {
+  if (initialCashFlow >= 0) {
+    return 0;
+  }
+  let previous = initialCashFlow;
+  for (const flow of cashFlows) {
+    if (flow.cumulativeCashFlow >= 0) {
+      return flow.period - 1 + -previous / flow.cashFlow;
+    }
+    previous = flow.cumulativeCashFlow;
+  }
+  return null;
+}
+
+/**
+ * Rate per period at which the flows' present value is zero, by bisection
+ *
+ * @returns The rate, or null when the flows never change sign over the search range
+ */
+function internalRateOfReturn(flows: number[]): number | null {
+  const presentValue = (rate: number): number =>
+    flows.reduce((total, flow, period) => total + flow / (1 + rate) ** period, 0);
+
+  let low = -0.9999;
+  let high = 10;
+  let lowValue = presentValue(low);
+  if (!Number.isFinite(lowValue) || Math.sign(lowValue) === Math.sign(presentValue(high))) {
+    return null;
+  }
+  for (let iteration = 0; iteration < 200; iteration++) {
+    const mid = (low + high) / 2;
+    const midValue = presentValue(mid);
+    if (Math.sign(midValue) === Math.sign(lowValue)) {
+      low = mid;
+      lowValue = midValue;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
@@ -0,0 +1,201 @@
+/**
+ * Local Engine Fallback
+ *
+ * Decides when a profitability tool should calculate with the local
+ * mining-economics engine instead of the Braiins Insights API, and gathers the
+ * engine's network inputs.
+ *
+ * Inputs come from the caller first (BTC price, difficulty), then from the stats
+ * endpoints (price, difficulty, fees share, halving countdown), which the client
+ * serves from cache, stale if need be, when the API is down. When the caller
+ * supplies both price and difficulty no request is made at all: the block height
+ * is estimated from the date and fees are taken as zero.
+ */
+
+import { InsightsApiClient, InsightsApiError, NetworkError } from '../api/insights-client.js';
+import { isRetryableStatus } from '../api/retry.js';
+import {
+  NetworkInputs,
+  blockSubsidy,
+  estimateBlockHeight,
+  feesPerBlockFromShare,
+} from './mining-engine.js';
+
+/**
+ * Engine selection of a tool call
+ *
+ * - `auto`: the API, falling back to the local engine when the API is unavailable
+ * - `api`: the API only
+ * - `local`: the local engine only
+ */
+export const ENGINE_MODES = ['auto', 'api', 'local'] as const;
+
+/**
+ * Engine selection
+ */
+export type EngineMode = (typeof ENGINE_MODES)[number];
+
+/**
+ * Where a network input came from
+ */
+export type InputSource = 'input' | 'api' | 'estimate';
+
+/**
+ * Which engine produced a result, and why
+ */
+export interface EngineAttribution {
+  engine: 'api' | 'local';
+
+  /** Why the local engine was used */
+  reason?: string;
+
+  /** Where each network input of the local engine came from */
+  sources?: Record<Exclude<keyof NetworkInputs, 'timestamp'>, InputSource>;
+}
+
+/**
+ * Network inputs and where each came from
+ */
+export interface ResolvedNetworkInputs {
+  inputs: NetworkInputs;
+  sources: NonNullable<EngineAttribution['sources']>;
+}
+
+/**
+ * Description of each input source
+ */
+const SOURCE_LABELS: Record<InputSource, string> = {
+  input: 'as supplied',
+  api: 'from API stats (may be cached)',
+  estimate: 'estimated from the date',
+};
+
+/**
+ * Error thrown when the local engine lacks a required network input
+ */
+export class NetworkInputsError extends Error {
+  constructor(public readonly missing: string[]) {
+    super(
+      `Local engine needs ${missing.join(' and ')}, which could not be fetched; ` +
+        'supply them as inputs to calculate offline'
+    );
+    this.name = 'NetworkInputsError';
+  }
+}
+
+/**
+ * Check whether an API error means the API is unavailable, rather than that the
+ * request or response was invalid
+ *
+ * @param error - Error thrown by the API client
+ */
+export function isApiUnavailable(error: unknown): boolean {
+  if (error instanceof NetworkError) {
+    return true;
+  }
+  return error instanceof InsightsApiError && isRetryableStatus(error.statusCode);
+}
+
+/**
+ * Describe why the API could not be used
+ *
+ * @param error - Error thrown by the API client
+ */
+export function describeApiFailure(error: unknown): string {
+  if (error instanceof InsightsApiError) {
+    return `Braiins Insights API unavailable (HTTP ${error.statusCode})`;
+  }
+  return `Braiins Insights API unreachable (${error instanceof Error ? error.message : String(error)})`;
+}
+
+/**
+ * Gather the local engine's network inputs
+ *
+ * @param apiClient - Client for the stats endpoints
+ * @param overrides - Caller-supplied BTC price and difficulty
+ * @param now - Time of the calculation
+ * @throws {NetworkInputsError} If the BTC price or difficulty is unavailable
+ */
+export async function resolveNetworkInputs(
+  apiClient: InsightsApiClient,
+  overrides: { price?: number; difficulty?: number },
+  now = new Date()
+): Promise<ResolvedNetworkInputs> {
+  const offline = overrides.price !== undefined && overrides.difficulty !== undefined;
+  const [priceStats, difficultyStats, hashrateStats, halvings] = offline
+    ? []
+    : await Promise.all([
+        overrides.price === undefined ? settle(() => apiClient.getPriceStats()) : undefined,
+        overrides.difficulty === undefined
+          ? settle(() => apiClient.getDifficultyStats())
+          : undefined,
+        settle(() => apiClient.getHashrateStats()),
+        settle(() => apiClient.getHalvings()),
+      ]);
+
+  const price = overrides.price ?? priceStats?.price;
+  const difficulty = overrides.difficulty ?? difficultyStats?.difficulty;
+  const missing = [
+    ...(price === undefined ? ['the BTC price'] : []),
+    ...(difficulty === undefined ? ['the network difficulty'] : []),
+  ];
+  if (price === undefined || difficulty === undefined) {
+    throw new NetworkInputsError(missing);
+  }
+
+  const blockHeight = halvings
+    ? halvings.next_halving_block - halvings.blocks_until_halving
+    : estimateBlockHeight(now);
+
+  return {
+    inputs: {
+      price,
+      difficulty,
+      blockHeight,
+      feesPerBlock: hashrateStats
+        ? feesPerBlockFromShare(blockSubsidy(blockHeight), hashrateStats.fees_percent)
+        : 0,
+      timestamp: priceStats?.timestamp ?? now.toISOString(),
+    },
+    sources: {
+      price: overrides.price !== undefined ? 'input' : 'api',
+      difficulty: overrides.difficulty !== undefined ? 'input' : 'api',
+      blockHeight: halvings ? 'api' : 'estimate',
+      feesPerBlock: hashrateStats ? 'api' : 'estimate',
+    },
+  };
+}
+
+/**
+ * Format the markdown note stating that the local engine produced a result
+ *
+ * @param attribution - Local engine attribution
+ */
+export function formatLocalEngineNote(attribution: EngineAttribution): string {
+  const sources = attribution.sources;
+  const inputs = sources
+    ? [
+        `BTC price ${SOURCE_LABELS[sources.price]}`,
+        `difficulty ${SOURCE_LABELS[sources.difficulty]}`,
+        `block subsidy ${SOURCE_LABELS[sources.blockHeight]}`,
+        `fees ${sources.feesPerBlock === 'estimate' ? 'assumed zero' : SOURCE_LABELS[sources.feesPerBlock]}`,
+      ].join(', ')
+    : '';
+
+  return (
+    `*⚠️ Calculated by the local mining-economics engine` +
+    `${attribution.reason ? ` (${attribution.reason})` : ''}, not the Braiins Insights API. ` +
+    `Estimates may differ slightly from the API's.${inputs ? ` Inputs: ${inputs}.` : ''}*`
+  );
+}
+
+/**
+ * Run an API call, resolving to undefined instead of failing
+ */
+async function settle<T>(call: () => Promise<T>): Promise<T | undefined> {
+  try {
+    return await call();
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,434 @@
+/**
+ * Local Mining Economics Engine
+ *
+ * Reproduces the Braiins Insights `/v2.0/profitability-calculator` and
+ * `/v2.0/cost-to-mine` calculations from raw network inputs (BTC price,
+ * difficulty, block height and transaction fees), so the tools can still answer
+ * when the API is unavailable, and can run fully offline when every input is
+ * supplied.
+ *
+ * Expected output follows from the difficulty: a block is found on average every
+ * `difficulty × 2^32` hashes, so 1 TH/s earns `10^12 × 86,400 / (difficulty × 2^32)`
+ * block rewards per day. The block reward is the subsidy at the block height
+ * (halving every 210,000 blocks) plus the average transaction fees per block.
+ * Revenue is that output, less the pool fee, scaled by uptime; costs are
+ * electricity plus fixed monthly opex.
+ */
+
+import type {
+  BraiinsInsightsCostToMine,
+  CostToMinePayload,
+  CostToMineQueryParams,
+} from '../types/insights-api.js';
+import type {
+  BraiinsInsightsProfitability,
+  ProfitabilityQueryParams,
+} from '../types/profitability.js';
+
+/** Blocks between subsidy halvings */
+export const HALVING_INTERVAL = 210_000;
+
+/** Blocks mined per day at the 10-minute target */
+export const BLOCKS_PER_DAY = 144;
+
+/** Subsidy of the first halving era in satoshis (50 BTC) */
+const INITIAL_SUBSIDY_SATS = 5_000_000_000;
+
+/** Satoshis per BTC */
+const SATS_PER_BTC = 100_000_000;
+
+/** Expected hashes per block at difficulty 1 */
+const HASHES_PER_DIFFICULTY = 2 ** 32;
+
+/** Past subsidy halvings (UTC dates) */
+export const HALVINGS = [
+  { height: 210_000, date: '2012-11-28' },
+  { height: 420_000, date: '2016-07-09' },
+  { height: 630_000, date: '2020-05-11' },
+  { height: 840_000, date: '2024-04-20' },
+] as const;
+
+/** Block 840,000 (fourth halving), the anchor for block height estimates */
+const HEIGHT_ANCHOR = { height: 840_000, time: Date.UTC(2024, 3, 20, 0, 9, 27) };
+
+/** Days per projection period */
+export const PERIOD_DAYS: Record<
+  NonNullable<CostToMineQueryParams['period_resolution']>,
+  number
+> = {
+  '1m': 365 / 12,
+  '2w': 14,
+  '1w': 7,
+  '1d': 1,
+};
+
+/** Electricity prices of the cost-to-mine chart line: $0.00 to $0.20/kWh */
+const CHART_ELECTRICITY_PRICES = Array.from({ length: 21 }, (_, index) => index / 100);
+
+/**
+ * Raw network inputs of a calculation
+ */
+export interface NetworkInputs {
+  /** BTC price in USD */
+  price: number;
+
+  /** Network difficulty */
+  difficulty: number;
+
+  /** Current block height (selects the block subsidy) */
+  blockHeight: number;
+
+  /** Average transaction fees per block in BTC */
+  feesPerBlock: number;
+
+  /** When the inputs were observed (ISO 8601) */
+  timestamp: string;
+}
+
+/**
+ * Mining operation to evaluate
+ */
+export interface MiningSetup {
+  /** Hashrate in TH/s */
+  hashrateThs: number;
+
+  /** Power draw in watts */
+  powerWatts: number;
+
+  /** Electricity price in USD per kWh */
+  electricityPriceKwh: number;
+
+  /** Pool fee rate as decimal (default 0) */
+  poolFeeRate?: number;
+
+  /** Share of time the hardware is hashing, 0-1 (default 1) */
+  uptime?: number;
+
+  /** Fixed operating expenses in USD per month (default 0) */
+  monthlyOpex?: number;
+}
+
+/**
+ * Daily economics of a mining operation
+ */
+export interface MiningEconomics {
+  /** BTC mined per day after pool fees */
+  btcMinedDaily: number;
+
+  /** Revenue in USD per day after pool fees */
+  dailyRevenue: number;
+
+  /** Electricity cost in USD per day */
+  dailyElectricityCost: number;
+
+  /** Electricity plus opex in USD per day */
+  dailyCost: number;
+
+  /** Revenue minus costs in USD per day */
+  dailyProfit: number;
+
+  /** Energy used per day in kWh */
+  dailyEnergyKwh: number;
+
+  /** Cost per BTC mined in USD, null when nothing is mined */
+  costToMine: number | null;
+
+  /** Electricity price at which daily profit is zero, null when no energy is used */
+  breakEvenElectricityPrice: number | null;
+}
+
+/**
+ * Block subsidy at a block height
+ *
+ * @param height - Block height
+ * @returns Subsidy in BTC
+ */
+export function blockSubsidy(height: number): number {
+  const halvings = Math.floor(Math.max(0, height) / HALVING_INTERVAL);
+  if (halvings >= 64) {
+    return 0;
+  }
+  return Math.floor(INITIAL_SUBSIDY_SATS / 2 ** halvings) / SATS_PER_BTC;
+}
+
+/**
+ * Estimate the block height at a time, assuming 10-minute blocks since the
+ * fourth halving
+ *
+ * @param at - Time to estimate for
+ * @returns Estimated block height
+ */
+export function estimateBlockHeight(at: Date): number {
+  const days = (at.getTime() - HEIGHT_ANCHOR.time) / 86_400_000;
+  return Math.max(0, Math.floor(HEIGHT_ANCHOR.height + days * BLOCKS_PER_DAY));
+}
+
+/**
+ * Expected BTC earned per TH/s per day
+ *
+ * @param difficulty - Network difficulty
+ * @param blockReward - Subsidy plus fees per block in BTC
+ */
+export function expectedBtcPerThDay(difficulty: number, blockReward: number): number {
+  if (difficulty <= 0) {
+    return 0;
+  }
+  return ((1e12 * 86_400) / (difficulty * HASHES_PER_DIFFICULTY)) * blockReward;
+}
+
+/**
+ * Network hashrate implied by a difficulty
+ *
+ * @param difficulty - Network difficulty
+ * @returns Hashrate in TH/s
+ */
+export function networkHashrateThs(difficulty: number): number {
+  return (difficulty * HASHES_PER_DIFFICULTY) / 600 / 1e12;
+}
+
+/**
+ * Average transaction fees per block implied by the fees' share of miner revenue
+ *
+ * @param subsidy - Block subsidy in BTC
+ * @param feesPercent - Fees as a percentage of total miner revenue (0.48 = 0.48%)
+ * @returns Fees per block in BTC
+ */
+export function feesPerBlockFromShare(subsidy: number, feesPercent: number): number {
+  const share = Math.min(Math.max(feesPercent, 0), 99) / 100;
+  return (subsidy * share) / (1 - share);
+}
+
+/**
+ * Daily economics of a mining operation under given network conditions
+ *
+ * @param setup - Hardware, power and cost inputs
+ * @param network - Network conditions
+ * @param blockReward - Override of subsidy plus fees per block in BTC
+ */
+export function calculateMiningEconomics(
+  setup: MiningSetup,
+  network: NetworkInputs,
+  blockReward = blockSubsidy(network.blockHeight) + network.feesPerBlock
+): MiningEconomics {
+  const uptime = setup.uptime ?? 1;
+  const btcMinedDaily =
+    expectedBtcPerThDay(network.difficulty, blockReward) *
+    setup.hashrateThs *
+    uptime *
+    (1 - (setup.poolFeeRate ?? 0));
+  const dailyEnergyKwh = (setup.powerWatts / 1000) * 24 * uptime;
+  const dailyElectricityCost = dailyEnergyKwh * setup.electricityPriceKwh;
+  const dailyOpex = ((setup.monthlyOpex ?? 0) * 12) / 365;
+  const dailyRevenue = btcMinedDaily * network.price;
+  const dailyCost = dailyElectricityCost + dailyOpex;
+
+  return {
+    btcMinedDaily,
+    dailyRevenue,
+    dailyElectricityCost,
+    dailyCost,
+    dailyProfit: dailyRevenue - dailyCost,
+    dailyEnergyKwh,
+    costToMine: btcMinedDaily > 0 ? dailyCost / btcMinedDaily : null,
+    breakEvenElectricityPrice:
+      dailyEnergyKwh > 0 ? (dailyRevenue - dailyOpex) / dailyEnergyKwh : null,
+  };
+}
+
+/**
+ * Reproduce a `/v2.0/profitability-calculator` response
+ *
+ * Metrics are per TH/s. The API's `breakeven_hashrate_ths` is reproduced as the
+ * network hashrate at which profit per TH/s falls to zero (0 when electricity is
+ * free). `roi_days` is omitted: it depends on the hardware's hashrate, which the
+ * request does not carry.
+ *
+ * @param params - Profitability request
+ * @param network - Network conditions
+ */
+export function calculateProfitability(
+  params: ProfitabilityQueryParams,
+  network: NetworkInputs
+): BraiinsInsightsProfitability {
+  const perTh = calculateMiningEconomics(
+    {
+      hashrateThs: 1,
+      powerWatts: params.hardware_efficiency_jth,
+      electricityPriceKwh: params.electricity_cost_kwh,
+    },
+    network
+  );
+
+  return {
+    daily_revenue_per_th: perTh.dailyRevenue,
+    daily_electricity_cost_per_th: perTh.dailyCost,
+    net_daily_profit_per_th: perTh.dailyProfit,
+    monthly_profit_per_th: perTh.dailyProfit * 30,
+    annual_profit_per_th: perTh.dailyProfit * 365,
+    btc_price_usd: network.price,
+    network_difficulty: network.difficulty,
+    breakeven_btc_price: perTh.costToMine ?? 0,
+    breakeven_hashrate_ths:
+      perTh.dailyCost > 0
+        ? (networkHashrateThs(network.difficulty) * perTh.dailyRevenue) / perTh.dailyCost
+        : 0,
+    profitability_threshold_kwh: perTh.breakEvenElectricityPrice ?? 0,
+    timestamp: network.timestamp,
+  };
+}
+
+/**
+ * Reproduce a `/v2.0/cost-to-mine` response
+ *
+ * Unset request fields take the API defaults (2% pool fee, +2%/year difficulty,
+ * 24 monthly periods). Projections step through the periods from today: difficulty
+ * and price compound at their yearly rates, the subsidy halves at each halving
+ * height (shifting difficulty by `halving_difficulty_change`), and fees per block
+ * stay constant. "Total" projections are cumulative from the first period.
+ *
+ * @param params - Cost-to-mine request
+ * @param network - Network conditions (`params.price`/`params.difficulty` override them)
+ */
+export function calculateCostToMine(
+  params: CostToMineQueryParams,
+  network: NetworkInputs
+): BraiinsInsightsCostToMine {
+  const payload = toPayload(params, network);
+  const price = params.price ?? network.price;
+  const difficulty = params.difficulty ?? network.difficulty;
+  const feesPerBlock = params.avg_tx_fees_coin ?? network.feesPerBlock;
+  const setup: MiningSetup = {
+    hashrateThs: params.hashrate_ths,
+    powerWatts: params.consumption_watts,
+    electricityPriceKwh: params.electricity_price_per_kwh,
+    poolFeeRate: payload.revenue_fees_rate,
+    monthlyOpex: payload.monthly_fixed_opex,
+  };
+  const rewardAt = (height: number): number =>
+    (params.block_reward ?? blockSubsidy(height)) + feesPerBlock;
+
+  const current = calculateMiningEconomics(
+    setup,
+    { ...network, price, difficulty },
+    rewardAt(network.blockHeight)
+  );
+  const costLine = CHART_ELECTRICITY_PRICES.map((electricityPriceKwh) => {
+    const economics = calculateMiningEconomics(
+      { ...setup, electricityPriceKwh },
+      { ...network, price, difficulty },
+      rewardAt(network.blockHeight)
+    );
+    return economics.costToMine ?? 0;
+  });
+
+  // Period projections
+  const periodDays = PERIOD_DAYS[payload.period_resolution];
+  const projection = {
+    price: [] as number[],
+    marginalCost: [] as number[],
+    marginalBreakEven: [] as number[],
+    totalCost: [] as number[],
+    totalBreakEven: [] as number[],
+  };
+  let cumulativeCost = 0;
+  let cumulativeOpex = 0;
+  let cumulativeBtc = 0;
+  let cumulativeRevenue = 0;
+  let cumulativeEnergy = 0;
+
+  for (let period = 0; period < payload.periods; period++) {
+    const years = (period * periodDays) / 365;
+    const height = network.blockHeight + period * periodDays * BLOCKS_PER_DAY;
+    const halvings =
+      Math.floor(height / HALVING_INTERVAL) - Math.floor(network.blockHeight / HALVING_INTERVAL);
+    const periodPrice = price * (1 + payload.yearly_price_change_rate) ** years;
+    const periodDifficulty =
+      difficulty *
+      (1 + payload.yearly_difficulty_change_rate) ** years *
+      (1 + payload.halving_difficulty_change) ** halvings;
+    const economics = calculateMiningEconomics(
+      setup,
+      { ...network, price: periodPrice, difficulty: periodDifficulty },
+      rewardAt(height)
+    );
+
+    cumulativeCost += economics.dailyCost * periodDays;
+    cumulativeOpex += (economics.dailyCost - economics.dailyElectricityCost) * periodDays;
+    cumulativeBtc += economics.btcMinedDaily * periodDays;
+    cumulativeRevenue += economics.dailyRevenue * periodDays;
+    cumulativeEnergy += economics.dailyEnergyKwh * periodDays;
+
+    projection.price.push(periodPrice);
+    projection.marginalCost.push(economics.costToMine ?? 0);
+    projection.marginalBreakEven.push(economics.breakEvenElectricityPrice ?? 0);
+    projection.totalCost.push(cumulativeBtc > 0 ? cumulativeCost / cumulativeBtc : 0);
+    projection.totalBreakEven.push(
+      cumulativeEnergy > 0 ? (cumulativeRevenue - cumulativeOpex) / cumulativeEnergy : 0
+    );
+  }
+
+  return {
+    payload,
+    result: {
+      coin_mined_daily: current.btcMinedDaily,
+      difficulty,
+      fiat_break_even_electricity_price: current.breakEvenElectricityPrice ?? 0,
+      fiat_cost: current.costToMine ?? 0,
+      fiat_margin: price - (current.costToMine ?? 0),
+      fiat_profit_daily: current.dailyProfit,
+      hardware_efficiency_j_th: params.consumption_watts / params.hashrate_ths,
+      fiat_cost_line: costLine,
+      fiat_electricity_prices: CHART_ELECTRICITY_PRICES,
+      fiat_profit_area: costLine.map((cost) => price - cost),
+      price: projection.price,
+      marginal_cost_to_mine_fiat: projection.marginalCost,
+      marginal_electricity_breakeven_fiat: projection.marginalBreakEven,
+      total_cost_to_mine_fiat: projection.totalCost,
+      total_electricity_breakeven_fiat: projection.totalBreakEven,
+    },
+  };
+}
+
+/**
+ * Echo a cost-to-mine request with the API defaults filled in
+ */
+function toPayload(params: CostToMineQueryParams, network: NetworkInputs): CostToMinePayload {
+  const periodDays = PERIOD_DAYS[params.period_resolution ?? '1m'];
+  const blocksToHalving = HALVING_INTERVAL - (network.blockHeight % HALVING_INTERVAL);
+
+  return {
+    hashrate_ths: params.hashrate_ths,
+    consumption_watts: params.consumption_watts,
+    avg_tx_fees_coin: params.avg_tx_fees_coin ?? null,
+    price: params.price ?? null,
+    difficulty: params.difficulty ?? null,
+    block_reward: params.block_reward ?? null,
+    revenue_fees_rate: params.revenue_fees_rate ?? 0.02,
+    profit_fees_rate: 0,
+    income_tax_rate: params.income_tax_rate ?? 0,
+    yearly_difficulty_change_rate: params.yearly_difficulty_change_rate ?? 0.02,
+    yearly_price_change_rate: params.yearly_price_change_rate ?? 0,
+    electricity_price_per_kwh: params.electricity_price_per_kwh,
+    capex: params.capex ?? null,
+    monthly_fixed_opex: params.monthly_fixed_opex ?? 0,
+    period_resolution: params.period_resolution ?? '1m',
+    periods: params.periods ?? 24,
+    timestamp: network.timestamp,
+    estimate_future_rewards: true,
+    initial_hardware_value_fiat: params.initial_hardware_value_fiat ?? 0,
+    initial_infrastructure_value_fiat: 0,
+    initial_fiat_holdings_fiat: 0,
+    initial_coin_holdings_coin: 0,
+    yearly_hardware_value_change_rate: params.yearly_hardware_value_change_rate ?? 0,
+    yearly_infrastructure_value_change_rate: 0,
+    hodl_rate: params.hodl_rate ?? 0,
+    hodl_on_revenue_instead: false,
+    discount_rate: params.discount_rate ?? 0,
+    loan_amount_fiat: params.loan_amount_fiat ?? 0,
+    loan_interest_rate: params.loan_interest_rate ?? 0,
+    loan_payback_periods: params.loan_payback_periods ?? 0,
+    loan_to_value_ratio: 0.5,
+    halving_difficulty_change: params.halving_difficulty_change ?? 0,
+    periods_to_halving: blocksToHalving / BLOCKS_PER_DAY / periodDays,
+  };
+}
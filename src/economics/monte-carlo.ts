@@ -0,0 +1,313 @@
+/**
+ * Monte Carlo Mining Returns
+ *
+ * Simulates many BTC price and difficulty paths for one mining operation and
+ * summarizes the spread of outcomes: percentile bands of cumulative profit,
+ * payback dates and the probability of ending at a loss.
+ *
+ * Each path steps one day at a time:
+ *
+ * - BTC price follows geometric Brownian motion, drifting so that its expected
+ *   value grows at the yearly price change rate
+ * - difficulty adjusts every 2,016 blocks (14 days) by a lognormal step drifting
+ *   at the yearly difficulty change rate, plus a one-off change at each halving
+ * - the block subsidy halves at each halving; fees per block stay constant
+ * - the operation never curtails, so unprofitable days count as losses
+ *
+ * Price and difficulty moves are independent. A seeded generator makes runs
+ * reproducible.
+ */
+
+import {
+  BLOCKS_PER_DAY,
+  HALVING_INTERVAL,
+  MiningSetup,
+  NetworkInputs,
+  blockSubsidy,
+  calculateMiningEconomics,
+} from './mining-engine.js';
+
+/** Days between difficulty adjustments at the 10-minute target */
+const ADJUSTMENT_DAYS = 14;
+
+/** Days between halvings at the 10-minute target */
+const HALVING_DAYS = HALVING_INTERVAL / BLOCKS_PER_DAY;
+
+/** Percentiles reported for every distribution */
+export const PERCENTILES = [5, 25, 50, 75, 95] as const;
+
+/**
+ * Value at each reported percentile
+ */
+export type PercentileBand = Record<`p${(typeof PERCENTILES)[number]}`, number>;
+
+/**
+ * Expected yearly change and annualized volatility of a lognormal process
+ */
+export interface GrowthModel {
+  /** Expected change per year as decimal (0.1 = +10%) */
+  yearlyChange: number;
+
+  /** Annualized volatility of log changes as decimal (0.6 = 60%) */
+  volatility: number;
+}
+
+/**
+ * Monte Carlo simulation inputs
+ */
+export interface MonteCarloParams {
+  /** Operation to simulate (uptime, pool fee and opex included) */
+  setup: MiningSetup;
+
+  /** Network conditions on day 0 */
+  network: NetworkInputs;
+
+  /** Up-front hardware cost in USD, recovered before payback */
+  capex: number;
+
+  /** Days to simulate */
+  horizonDays: number;
+
+  /** Number of paths */
+  simulations: number;
+
+  /** BTC price model */
+  price: GrowthModel;
+
+  /** Difficulty model */
+  difficulty: GrowthModel;
+
+  /** Days until the next halving (later ones follow every 210,000 blocks), null to ignore */
+  halvingInDays: number | null;
+
+  /** Difficulty change at each halving as decimal (-0.1 = -10%) */
+  halvingDifficultyChange: number;
+
+  /** Days at which to report cumulative profit bands */
+  checkpoints: number[];
+
+  /** Seed of the random number generator */
+  seed: number;
+}
+
+/**
+ * Summary of simulated outcomes
+ */
+export interface MonteCarloResult {
+  /** Cumulative profit less capex at each checkpoint */
+  bands: Array<{ day: number } & PercentileBand>;
+
+  /** Cumulative profit less capex at the horizon */
+  final: PercentileBand & { mean: number };
+
+  /** Share of paths ending below zero after capex */
+  probabilityOfLoss: number;
+
+  /** Share of paths recovering capex within the horizon */
+  probabilityOfPayback: number;
+
+  /** Payback day at each percentile, null where that share never pays back */
+  paybackDays: Record<keyof PercentileBand, number | null>;
+
+  /** Median BTC price and difficulty at the horizon */
+  medianFinalPrice: number;
+  medianFinalDifficulty: number;
+}
+
+/**
+ * Simulate mining returns over many price and difficulty paths
+ *
+ * @param params - Operation, starting conditions and market models
+ * @returns Percentile bands, payback and loss statistics
+ */
+export function simulateMiningReturns(params: MonteCarloParams): MonteCarloResult {
+  const { setup, network, capex, horizonDays, simulations } = params;
+  const random = normalGenerator(params.seed);
+  const checkpoints = [...new Set(params.checkpoints)]
+    .filter((day) => day > 0 && day <= horizonDays)
+    .sort((a, b) => a - b);
+
+  // Costs and BTC mined per unit of block reward at difficulty 1 do not depend on the path
+  const base = calculateMiningEconomics(setup, { ...network, price: 1 }, 1);
+  const btcPerReward = base.btcMinedDaily * network.difficulty;
+  const subsidy = blockSubsidy(network.blockHeight);
+  const halvingDays =
+    params.halvingInDays === null
+      ? []
+      : Array.from({ length: Math.ceil(horizonDays / HALVING_DAYS) + 1 }, (_, index) =>
+          Math.max(1, Math.ceil((params.halvingInDays ?? 0) + index * HALVING_DAYS))
+        );
+
+  const priceStep = lognormalStep(params.price, 1);
+  const difficultyStep = lognormalStep(params.difficulty, ADJUSTMENT_DAYS);
+
+  const bandValues = checkpoints.map(() => new Float64Array(simulations));
+  const finalValues = new Float64Array(simulations);
+  const paybackValues = new Float64Array(simulations);
+  const finalPrices = new Float64Array(simulations);
+  const finalDifficulties = new Float64Array(simulations);
+
+  for (let path = 0; path < simulations; path++) {
+    let price = network.price;
+    let difficulty = network.difficulty;
+    let reward = subsidy + network.feesPerBlock;
+    let halvings = 0;
+    let cumulative = -capex;
+    let payback = capex <= 0 ? 0 : Infinity;
+    let checkpoint = 0;
+
+    for (let day = 1; day <= horizonDays; day++) {
+      price *= Math.exp(priceStep.drift + priceStep.volatility * random());
+      if (day % ADJUSTMENT_DAYS === 0) {
+        difficulty *= Math.exp(difficultyStep.drift + difficultyStep.volatility * random());
+      }
+      if (day === halvingDays[halvings]) {
+        halvings++;
+        reward = subsidy / 2 ** halvings + network.feesPerBlock;
+        difficulty *= 1 + params.halvingDifficultyChange;
+      }
+
+      cumulative += ((btcPerReward * reward) / difficulty) * price - base.dailyCost;
+
+      if (payback === Infinity && cumulative >= 0) {
+        payback = day;
+      }
+      const band = day === checkpoints[checkpoint] ? bandValues[checkpoint] : undefined;
+      if (band) {
+        band[path] = cumulative;
+        checkpoint++;
+      }
+    }
+
+    finalValues[path] = cumulative;
+    paybackValues[path] = payback;
+    finalPrices[path] = price;
+    finalDifficulties[path] = difficulty;
+  }
+
+  finalValues.sort();
+  paybackValues.sort();
+  const paybackDays = percentileBand(paybackValues);
+
+  return {
+    bands: checkpoints.map((day, index) => ({
+      day,
+      ...percentileBand(bandValues[index]?.sort() ?? new Float64Array()),
+    })),
+    final: {
+      ...percentileBand(finalValues),
+      mean: finalValues.reduce((sum, value) => sum + value, 0) / simulations,
+    },
+    probabilityOfLoss: finalValues.filter((value) => value < 0).length / simulations,
+    probabilityOfPayback: paybackValues.filter(Number.isFinite).length / simulations,
+    paybackDays: Object.fromEntries(
+      Object.entries(paybackDays).map(([key, day]) => [key, Number.isFinite(day) ? day : null])
+    ) as MonteCarloResult['paybackDays'],
+    medianFinalPrice: quantile(finalPrices.sort(), 0.5),
+    medianFinalDifficulty: quantile(finalDifficulties.sort(), 0.5),
+  };
+}
+
+/**
+ * Estimate a growth model from a time series
+ *
+ * Uses the log changes between consecutive observations, weighted by the time
+ * between them, so irregular sampling (or a step series such as difficulty) is
+ * handled.
+ *
+ * @param series - Observations ordered by time; `time` in ms since epoch
+ * @param minObservations - Fewest changes needed for an estimate
+ * @returns The model, or null with too few usable observations
+ */
+export function estimateGrowthModel(
+  series: Array<{ time: number; value: number }>,
+  minObservations = 10
+): GrowthModel | null {
+  const changes: Array<{ years: number; change: number }> = [];
+  series.slice(1).forEach((current, index) => {
+    const previous = series[index];
+    const years = previous ? (current.time - previous.time) / (365 * 86_400_000) : 0;
+    if (previous && years > 0 && previous.value > 0 && current.value > 0) {
+      changes.push({ years, change: Math.log(current.value / previous.value) });
+    }
+  });
+  if (changes.length < minObservations) {
+    return null;
+  }
+
+  const totalYears = changes.reduce((sum, { years }) => sum + years, 0);
+  const drift = changes.reduce((sum, { change }) => sum + change, 0) / totalYears;
+  const variance =
+    changes.reduce((sum, { years, change }) => sum + (change - drift * years) ** 2, 0) / totalYears;
+
+  return {
+    yearlyChange: Math.exp(drift + variance / 2) - 1,
+    volatility: Math.sqrt(variance),
+  };
+}
+
+/**
+ * Log drift and volatility of one step of `days` days
+ */
+function lognormalStep(model: GrowthModel, days: number): { drift: number; volatility: number } {
+  const years = days / 365;
+  const growth = Math.log(Math.max(1 + model.yearlyChange, 1e-9));
+  return {
+    drift: (growth - model.volatility ** 2 / 2) * years,
+    volatility: model.volatility * Math.sqrt(years),
+  };
+}
+
+/**
+ * Percentiles of sorted values
+ */
+function percentileBand(sorted: Float64Array): PercentileBand {
+  return Object.fromEntries(
+    PERCENTILES.map((percentile) => [`p${percentile}`, quantile(sorted, percentile / 100)])
+  ) as PercentileBand;
+}
+
+/**
+ * Quantile of sorted values by linear interpolation
+ */
+function quantile(sorted: Float64Array, q: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  const lowerValue = sorted[lower] ?? 0;
+  const upperValue = sorted[upper] ?? 0;
+  if (lower === upper || !Number.isFinite(lowerValue) || !Number.isFinite(upperValue)) {
+    return position - lower < 0.5 ? lowerValue : upperValue;
+  }
+  return lowerValue + (upperValue - lowerValue) * (position - lower);
+}
+
+/**
+ * Seeded standard normal generator (mulberry32 with Box-Muller)
+ */
+function normalGenerator(seed: number): () => number {
+  let state = seed >>> 0;
+  const uniform = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296;
+  };
+  let spare: number | null = null;
+
+  return () => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+    const radius = Math.sqrt(-2 * Math.log(1 - uniform()));
+    const angle = 2 * Math.PI * uniform();
+    spare = radius * Math.sin(angle);
+    return radius * Math.cos(angle);
+  };
+}
@@ -0,0 +1,285 @@
+/**
+ * Cost-to-Mine Scenario Matrix
+ *
+ * Sweeps two cost-to-mine inputs over user-defined grids (e.g. BTC price ×
+ * electricity price) and evaluates daily profit in every cell, plus the
+ * break-even value of the first input for each value of the second.
+ *
+ * Each cell is a complete `CostToMineQueryParams` (the base request with the two
+ * swept values applied), evaluated locally from one baseline
+ * `/v2.0/cost-to-mine` result instead of one API call per cell:
+ *
+ * - BTC mined scales with hashrate and inversely with difficulty
+ * - revenue is BTC mined, less the pool fee, at the cell's BTC price
+ * - cost is power draw × 24 h × the cell's electricity price, plus the fixed
+ *   monthly opex spread over the year's days, as in the headline result
+ */
+
+import type { CostToMineQueryParams } from '../types/insights-api.js';
+
+/**
+ * Inputs that can be swept
+ *
+ * - `price`: BTC price in USD
+ * - `electricity_price_per_kwh`: electricity price in USD/kWh
+ * - `difficulty_change`: difficulty change from the baseline as a decimal (0.1 = +10%)
+ * - `hashprice`: gross revenue in USD per TH/s per day at the baseline difficulty
+ *   (swept by setting the BTC price that yields it)
+ */
+export const SCENARIO_VARIABLES = [
+  'price',
+  'electricity_price_per_kwh',
+  'difficulty_change',
+  'hashprice',
+] as const;
+
+/**
+ * Sweepable input
+ */
+export type ScenarioVariable = (typeof SCENARIO_VARIABLES)[number];
+
+/**
+ * One swept input and its grid values
+ */
+export interface ScenarioAxis {
+  variable: ScenarioVariable;
+  values: number[];
+}
+
+/**
+ * Network conditions of the baseline cost-to-mine result
+ */
+export interface ScenarioBaseline {
+  /** BTC mined per TH/s per day at `difficulty`, before pool fees */
+  btcPerThDay: number;
+
+  /** BTC price in USD */
+  price: number;
+
+  /** Network difficulty */
+  difficulty: number;
+
+  /** Pool fee rate as decimal */
+  revenueFeesRate: number;
+}
+
+/**
+ * Daily economics of one set of cost-to-mine inputs
+ */
+export interface ScenarioEconomics {
+  /** Revenue after pool fees in USD */
+  dailyRevenue: number;
+
+  /** Electricity and fixed opex cost in USD */
+  dailyCost: number;
+
+  /** Revenue minus cost in USD */
+  dailyProfit: number;
+
+  /** Cost per BTC mined in USD, null when nothing is mined */
+  costToMine: number | null;
+}
+
+/**
+ * One cell of the matrix
+ */
+export interface ScenarioCell extends ScenarioEconomics {
+  /** Value of the first (column) input */
+  x: number;
+
+  /** Value of the second (row) input */
+  y: number;
+
+  /** Cost-to-mine request the cell represents */
+  params: CostToMineQueryParams;
+}
+
+/**
+ * Break-even value of the column input for one row
+ */
+export interface BreakEvenPoint {
+  /** Row value */
+  y: number;
+
+  /** Column value at which daily profit is zero, null if no value breaks even */
+  x: number | null;
+}
+
+/**
+ * Evaluated scenario matrix
+ */
+export interface ScenarioMatrix {
+  x: ScenarioAxis;
+  y: ScenarioAxis;
+
+  /** Cells by row (`y` value), then column (`x` value) */
+  rows: ScenarioCell[][];
+
+  /** Break-even contour: the column value at which each row breaks even */
+  breakEven: BreakEvenPoint[];
+}
+
+/**
+ * Sweep two inputs over their grids
+ *
+ * @param params - Base cost-to-mine request
+ * @param baseline - Network conditions of the base request's result
+ * @param x - Column input
+ * @param y - Row input
+ * @returns Cells for every combination and the break-even contour
+ */
+export function buildScenarioMatrix(
+  params: CostToMineQueryParams,
+  baseline: ScenarioBaseline,
+  x: ScenarioAxis,
+  y: ScenarioAxis
+): ScenarioMatrix {
+  const rows = y.values.map((yValue) =>
+    x.values.map((xValue) => {
+      const cellParams = applyScenario(params, baseline, {
+        [y.variable]: yValue,
+        [x.variable]: xValue,
+      });
+      return {
+        x: xValue,
+        y: yValue,
+        params: cellParams,
+        ...evaluateScenario(cellParams, baseline),
+      };
+    })
+  );
+
+  const breakEven = y.values.map((yValue) => ({
+    y: yValue,
+    x: solveBreakEven(
+      applyScenario(params, baseline, { [y.variable]: yValue }),
+      baseline,
+      x.variable
+    ),
+  }));
+
+  return { x, y, rows, breakEven };
+}
+
+/**
+ * Apply swept values to a cost-to-mine request
+ *
+ * @param params - Base cost-to-mine request
+ * @param baseline - Network conditions of the base request's result
+ * @param values - Values of the swept inputs
+ * @returns Request with `price`, `difficulty` and/or `electricity_price_per_kwh` set
+ */
+export function applyScenario(
+  params: CostToMineQueryParams,
+  baseline: ScenarioBaseline,
+  values: Partial<Record<ScenarioVariable, number>>
+): CostToMineQueryParams {
+  const result: CostToMineQueryParams = { ...params };
+
+  if (values.price !== undefined) {
+    result.price = values.price;
+  }
+  if (values.hashprice !== undefined) {
+    result.price = baseline.btcPerThDay > 0 ? values.hashprice / baseline.btcPerThDay : 0;
+  }
+  if (values.electricity_price_per_kwh !== undefined) {
+    result.electricity_price_per_kwh = values.electricity_price_per_kwh;
+  }
+  if (values.difficulty_change !== undefined) {
+    result.difficulty = baseline.difficulty * (1 + values.difficulty_change);
+  }
+
+  return result;
+}
+
+/**
+ * Daily economics of a cost-to-mine request relative to the baseline
+ *
+ * @param params - Cost-to-mine request (unset price/difficulty use the baseline)
+ * @param baseline - Network conditions of the baseline result
+ */
+export function evaluateScenario(
+  params: CostToMineQueryParams,
+  baseline: ScenarioBaseline
+): ScenarioEconomics {
+  const btcMined = netBtcMined(params, baseline);
+  const dailyRevenue = btcMined * (params.price ?? baseline.price);
+  const dailyCost = dailyEnergyKwh(params) * params.electricity_price_per_kwh + dailyOpex(params);
+
+  return {
+    dailyRevenue,
+    dailyCost,
+    dailyProfit: dailyRevenue - dailyCost,
+    costToMine: btcMined > 0 ? dailyCost / btcMined : null,
+  };
+}
+
+/**
+ * Value of one input at which daily profit is zero, the others held fixed
+ *
+ * Profit is monotonic in each input, so the break-even point is solved directly.
+ *
+ * @returns Break-even value, or null if no valid value breaks even
+ */
+export function solveBreakEven(
+  params: CostToMineQueryParams,
+  baseline: ScenarioBaseline,
+  variable: ScenarioVariable
+): number | null {
+  const { dailyRevenue, dailyCost } = evaluateScenario(params, baseline);
+  const btcMined = netBtcMined(params, baseline);
+
+  switch (variable) {
+    case 'electricity_price_per_kwh': {
+      // Revenue left after opex pays for electricity; none left means no price breaks even
+      const energy = dailyEnergyKwh(params);
+      const available = dailyRevenue - dailyOpex(params);
+      return energy > 0 && available >= 0 ? available / energy : null;
+    }
+    case 'price':
+      return btcMined > 0 ? dailyCost / btcMined : null;
+    case 'hashprice': {
+      // Revenue is linear in hashprice: find the hashprice whose revenue covers the cost
+      const revenuePerHashprice = baseline.btcPerThDay > 0 ? btcMined / baseline.btcPerThDay : 0;
+      return revenuePerHashprice > 0 ? dailyCost / revenuePerHashprice : null;
+    }
+    case 'difficulty_change': {
+      // Revenue is inversely proportional to difficulty; with no cost (or no
+      // revenue) no difficulty breaks even
+      if (dailyRevenue <= 0 || dailyCost <= 0) {
+        return null;
+      }
+      const difficulty = params.difficulty ?? baseline.difficulty;
+      return (difficulty * dailyRevenue) / dailyCost / baseline.difficulty - 1;
+    }
+  }
+}
+
+/**
+ * BTC mined per day after pool fees
+ */
+function netBtcMined(params: CostToMineQueryParams, baseline: ScenarioBaseline): number {
+  const difficulty = params.difficulty ?? baseline.difficulty;
+  const feeRate = params.revenue_fees_rate ?? baseline.revenueFeesRate;
+  if (difficulty <= 0) {
+    return 0;
+  }
+
+  return (
+    baseline.btcPerThDay * params.hashrate_ths * (baseline.difficulty / difficulty) * (1 - feeRate)
+  );
+}
+
+/**
+ * Fixed opex per day in USD, from the monthly amount
+ */
+function dailyOpex(params: CostToMineQueryParams): number {
+  return ((params.monthly_fixed_opex ?? 0) * 12) / 365;
+}
+
+/**
+ * Energy used per day in kWh
+ */
+function dailyEnergyKwh(params: CostToMineQueryParams): number {
+  return (params.consumption_watts / 1000) * 24;
+}
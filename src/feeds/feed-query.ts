@@ -0,0 +1,184 @@
+/**
+ * Feed Queries
+ *
+ * Filtering, full-text search and pagination over normalized feed items.
+ */
+
+import type { FeedItem } from './feed-schema.js';
+
+/**
+ * Item filter (all given criteria must match)
+ */
+export interface FeedFilter {
+  /** Case-insensitive substring of the title, summary or a topic */
+  keyword?: string;
+
+  /** Topic (case-insensitive exact match) */
+  category?: string;
+
+  /** Inclusive lower bound of the publication time (Unix timestamp in milliseconds) */
+  since?: number;
+
+  /** Inclusive upper bound of the publication time (Unix timestamp in milliseconds) */
+  until?: number;
+}
+
+/**
+ * One page of results
+ */
+export interface FeedPage<T> {
+  /** Items on this page */
+  items: T[];
+
+  /** 1-based page number */
+  page: number;
+
+  /** Number of pages (at least 1) */
+  pageCount: number;
+
+  /** Number of items across all pages */
+  total: number;
+}
+
+/**
+ * Search weight of a term found in each field
+ */
+const SEARCH_WEIGHTS = {
+  title: 3,
+  categories: 2,
+  description: 1,
+  author: 1,
+} as const;
+
+/**
+ * Bonus for the whole query appearing as a phrase in the title
+ */
+const TITLE_PHRASE_BONUS = 5;
+
+/**
+ * Keep items matching every given filter criterion
+ *
+ * Items without a valid publication date never match a date bound.
+ */
+export function filterFeedItems(items: FeedItem[], filter: FeedFilter): FeedItem[] {
+  const keyword = filter.keyword?.toLowerCase();
+  const category = filter.category?.toLowerCase();
+
+  return items.filter((item) => {
+    if (keyword !== undefined) {
+      const text = [item.title, stripHtml(item.description ?? ''), ...item.categories]
+        .join('\n')
+        .toLowerCase();
+      if (!text.includes(keyword)) {
+        return false;
+      }
+    }
+
+    if (category !== undefined && !item.categories.some((c) => c.toLowerCase() === category)) {
+      return false;
+    }
+
+    if (filter.since !== undefined || filter.until !== undefined) {
+      if (item.publishedAt === undefined) {
+        return false;
+      }
+      if (filter.since !== undefined && item.publishedAt < filter.since) {
+        return false;
+      }
+      if (filter.until !== undefined && item.publishedAt > filter.until) {
+        return false;
+      }
+    }
+
+    return true;
+  });
+}
+
+/**
+ * Full-text search
+ *
+ * Every query term must appear in the title, summary, topics or author. Results
+ * are ranked by weighted term matches (title highest), then newest first.
+ */
+export function searchFeedItems(items: FeedItem[], query: string): FeedItem[] {
+  const terms = tokenize(query);
+  if (terms.length === 0) {
+    return items;
+  }
+  const phrase = terms.join(' ');
+
+  const scored: Array<{ item: FeedItem; score: number }> = [];
+  for (const item of items) {
+    const fields = {
+      title: tokenize(item.title),
+      categories: item.categories.flatMap(tokenize),
+      description: tokenize(stripHtml(item.description ?? '')),
+      author: tokenize(item.author ?? ''),
+    };
+
+    let score = 0;
+    let matchedAll = true;
+    for (const term of terms) {
+      let termScore = 0;
+      for (const field of Object.keys(fields) as Array<keyof typeof fields>) {
+        if (fields[field].some((word) => word.startsWith(term))) {
+          termScore += SEARCH_WEIGHTS[field];
+        }
+      }
+      if (termScore === 0) {
+        matchedAll = false;
+        break;
+      }
+      score += termScore;
+    }
+
+    if (matchedAll) {
+      if (terms.length > 1 && fields.title.join(' ').includes(phrase)) {
+        score += TITLE_PHRASE_BONUS;
+      }
+      scored.push({ item, score });
+    }
+  }
+
+  return scored
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        (b.item.publishedAt ?? -Infinity) - (a.item.publishedAt ?? -Infinity) ||
+        0
+    )
+    .map(({ item }) => item);
+}
+
+/**
+ * Slice one page of items (pages past the end are empty)
+ */
+export function paginate<T>(items: T[], page: number, pageSize: number): FeedPage<T> {
+  const start = (page - 1) * pageSize;
+  return {
+    items: items.slice(start, start + pageSize),
+    page,
+    pageCount: Math.max(1, Math.ceil(items.length / pageSize)),
+    total: items.length,
+  };
+}
+
+/**
+ * Remove HTML tags, looping until stable so nested tags like "<<b>b>" are removed too
+ */
+export function stripHtml(text: string): string {
+  let clean = text;
+  let previous: string;
+  do {
+    previous = clean;
+    clean = clean.replace(/<[^>]*>/g, '');
+  } while (clean !== previous);
+  return clean.trim();
+}
+
+/**
+ * Lowercase words of a text
+ */
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
@@ -0,0 +1,111 @@
+/**
+ * RSS Feed Schema
+ *
+ * Validates `/v1.0/rss-feed-data` responses and normalizes them into `FeedItem`s.
+ *
+ * The endpoint has been observed returning both a bare array of items and an
+ * `{ items: [...] }` envelope, with the publication date as `date` or `pubDate`
+ * and the author as `creator` or `author` (see `RSSItemSchema`). Both shapes
+ * are accepted; anything else is rejected. Individual malformed items are
+ * skipped rather than failing the whole feed.
+ */
+
+import { ValidationError } from '../api/insights-client.js';
+import {
+  BraiinsInsightsRSSItem,
+  RSSFeedResponseSchema,
+  RSSItemSchema,
+} from '../types/insights-api.js';
+
+/**
+ * Normalized feed item
+ */
+export interface FeedItem {
+  /** Post title */
+  title: string;
+
+  /** Post URL (unique key of the item) */
+  link: string;
+
+  /** Publication date as provided by the feed */
+  published: string;
+
+  /** Parsed publication time (Unix timestamp in milliseconds), if the date is valid */
+  publishedAt: number | undefined;
+
+  /** Post summary (may contain HTML) */
+  description: string | undefined;
+
+  /** Post author */
+  author: string | undefined;
+
+  /** Post topics */
+  categories: string[];
+}
+
+/**
+ * Validated feed response
+ */
+export interface ParsedFeed {
+  /** Valid items in response order */
+  items: FeedItem[];
+
+  /** Number of malformed items that were skipped */
+  skipped: number;
+}
+
+/**
+ * Validate and normalize a feed response
+ *
+ * @throws {ValidationError} If the response is not an item array or `{ items }` envelope
+ */
+export function parseFeedResponse(data: unknown): ParsedFeed {
+  const envelope = RSSFeedResponseSchema.safeParse(data);
+  if (!envelope.success) {
+    throw new ValidationError(
+      'Invalid RSS feed response format: expected an array of items or an object with an "items" array',
+      data
+    );
+  }
+
+  const items: FeedItem[] = [];
+  let skipped = 0;
+  for (const raw of envelope.data) {
+    const item = RSSItemSchema.safeParse(raw);
+    if (item.success) {
+      items.push(normalizeItem(item.data));
+    } else {
+      skipped += 1;
+    }
+  }
+
+  return { items, skipped };
+}
+
+/**
+ * Sort feed items newest first; items without a valid date go last
+ */
+export function sortByPublished(items: FeedItem[]): FeedItem[] {
+  return [...items].sort(
+    (a, b) => (b.publishedAt ?? -Infinity) - (a.publishedAt ?? -Infinity) || 0
+  );
+}
+
+/**
+ * Map a raw item onto the normalized shape
+ */
+function normalizeItem(raw: BraiinsInsightsRSSItem): FeedItem {
+  const published = raw.pubDate ?? raw.date ?? '';
+  const publishedAt = Date.parse(published);
+  const categories = typeof raw.categories === 'string' ? [raw.categories] : raw.categories;
+
+  return {
+    title: raw.title,
+    link: raw.link,
+    published,
+    publishedAt: Number.isNaN(publishedAt) ? undefined : publishedAt,
+    description: raw.description ?? undefined,
+    author: raw.creator ?? raw.author ?? undefined,
+    categories: (categories ?? []).map((category) => category.trim()).filter(Boolean),
+  };
+}
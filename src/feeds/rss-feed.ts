@@ -0,0 +1,173 @@
+/**
+ * RSS Feed
+ *
+ * Fetches the Braiins research/news feed through the API client (so responses
+ * share the client's cache), and keeps:
+ *
+ * - an archive of every item seen by this process, so search also covers posts
+ *   that have since dropped off the feed
+ * - per-session check history, so callers can ask for posts that are new since
+ *   their previous check
+ *
+ * Both are in memory and bounded; they reset when the server restarts.
+ */
+
+import type { InsightsApiClient } from '../api/insights-client.js';
+import { FeedItem, parseFeedResponse, sortByPublished } from './feed-schema.js';
+
+/**
+ * Default maximum number of archived items
+ */
+export const DEFAULT_MAX_ARCHIVED_ITEMS = 500;
+
+/**
+ * Default maximum number of sessions with check history
+ */
+export const DEFAULT_MAX_TRACKED_SESSIONS = 100;
+
+/**
+ * Feed configuration
+ */
+export interface RSSFeedOptions {
+  /** Maximum number of archived items (oldest evicted first) */
+  maxArchivedItems?: number;
+
+  /** Maximum number of sessions with check history (least recently checked evicted first) */
+  maxTrackedSessions?: number;
+}
+
+/**
+ * Current feed contents
+ */
+export interface FeedContents {
+  /** Valid items, newest first */
+  items: FeedItem[];
+
+  /** Number of malformed items that were skipped */
+  skipped: number;
+}
+
+/**
+ * Result of recording a check
+ */
+export interface FeedCheck {
+  /** Previous check time (Unix timestamp in milliseconds), undefined on the first check */
+  previousCheckAt: number | undefined;
+
+  /** Links of checked items not seen by any previous check of the session */
+  newLinks: Set<string>;
+}
+
+/**
+ * Links seen by one session's checks, and the result of its latest check
+ */
+interface CheckHistory {
+  checkedAt: number;
+  seen: Set<string>;
+  latest: FeedCheck;
+}
+
+/**
+ * Braiins RSS feed with archive and "new since last check" tracking
+ */
+export class RSSFeed {
+  private readonly maxArchivedItems: number;
+  private readonly maxTrackedSessions: number;
+  private readonly archive: Map<string, FeedItem> = new Map();
+  private readonly checks: Map<string, CheckHistory> = new Map();
+
+  constructor(
+    private readonly apiClient: InsightsApiClient,
+    options: RSSFeedOptions = {}
+  ) {
+    this.maxArchivedItems = options.maxArchivedItems ?? DEFAULT_MAX_ARCHIVED_ITEMS;
+    this.maxTrackedSessions = options.maxTrackedSessions ?? DEFAULT_MAX_TRACKED_SESSIONS;
+  }
+
+  /**
+   * Fetch and validate the current feed, adding its items to the archive
+   *
+   * @throws {ValidationError} If the response has an unexpected shape
+   * @throws {NetworkError} If the network request fails
+   * @throws {InsightsApiError} If the API returns an error status
+   */
+  async fetch(): Promise<FeedContents> {
+    const data: unknown = await this.apiClient.getRSSFeedData();
+    const { items, skipped } = parseFeedResponse(data);
+
+    for (const item of items) {
+      this.archive.set(item.link, item);
+    }
+    this.evictArchive();
+
+    return { items: sortByPublished(items), skipped };
+  }
+
+  /**
+   * Every archived item, newest first
+   */
+  archived(): FeedItem[] {
+    return sortByPublished([...this.archive.values()]);
+  }
+
+  /**
+   * Record a session's check of the given items
+   *
+   * @param session - Session key (e.g. the MCP session ID)
+   * @param items - Items the session has now seen
+   * @param now - Check time (Unix timestamp in milliseconds)
+   */
+  check(session: string, items: FeedItem[], now: number = Date.now()): FeedCheck {
+    const history = this.checks.get(session);
+    const seen = new Set(history?.seen);
+    const newLinks = new Set(items.map((item) => item.link).filter((link) => !seen.has(link)));
+
+    for (const link of newLinks) {
+      seen.add(link);
+    }
+    // Only links still in the archive can reappear in the feed
+    for (const link of seen) {
+      if (!this.archive.has(link) && !newLinks.has(link)) {
+        seen.delete(link);
+      }
+    }
+
+    const latest = { previousCheckAt: history?.checkedAt, newLinks };
+
+    // Re-insert to keep the map in least recently checked order
+    this.checks.delete(session);
+    this.checks.set(session, { checkedAt: now, seen, latest });
+    for (const key of this.checks.keys()) {
+      if (this.checks.size <= this.maxTrackedSessions) {
+        break;
+      }
+      this.checks.delete(key);
+    }
+
+    return latest;
+  }
+
+  /**
+   * Result of a session's latest check, without recording a new one
+   *
+   * @param session - Session key (e.g. the MCP session ID)
+   * @returns Latest check, or undefined if the session has not checked yet
+   */
+  latestCheck(session: string): FeedCheck | undefined {
+    return this.checks.get(session)?.latest;
+  }
+
+  /**
+   * Drop the oldest archived items beyond the limit
+   */
+  private evictArchive(): void {
+    if (this.archive.size <= this.maxArchivedItems) {
+      return;
+    }
+    const keep = sortByPublished([...this.archive.values()]).slice(0, this.maxArchivedItems);
+    this.archive.clear();
+    for (const item of keep) {
+      this.archive.set(item.link, item);
+    }
+  }
+}
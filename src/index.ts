@@ -7,82 +7,85 @@
  * Provides 17+ tools for querying Bitcoin network analytics, mining statistics,
  * and profitability metrics through MCP-compatible AI assistants.
  *
+ * Runs over stdio by default; `--transport http` serves Streamable HTTP (with
+ * legacy SSE fallback) so one shared instance can serve many clients.
+ *
  * @see https://github.com/Ryno-Crypto-Mining-Services/braiins-insights-mcp-server
  * @see https://modelcontextprotocol.io
  */
 
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import { createInsightsClient } from './api/insights-client.js';
-import { getAllTools } from './tools/index.js';
-
-/**
- * Server configuration
- */
-const SERVER_INFO = {
-  name: 'braiins-insights-mcp-server',
-  version: '0.1.0',
-};
+import { createSnapshotStore, loadConfig, toClientConfig } from './config.js';
+import { getAllPrompts } from './prompts/index.js';
+import { getAllResources } from './resources/index.js';
+import { createMcpServer, SERVER_INFO } from './server.js';
+import { SnapshotRecorder } from './snapshots/snapshot-recorder.js';
+import { getAllTools, selectTools } from './tools/index.js';
+import { startHttpTransport } from './transports/http.js';
 
 /**
  * Initialize MCP server
  */
 async function main(): Promise<void> {
-  // Initialize API client
-  const apiClient = createInsightsClient();
-
-  // Get all registered tools
-  const tools = getAllTools(apiClient);
+  // Load configuration (config file < environment < command-line flags)
+  const config = loadConfig();
 
-  const server = new Server(SERVER_INFO, {
-    capabilities: {
-      tools: {},
-    },
-  });
+  // Initialize API client (shared by every session, including its cache)
+  const apiClient = createInsightsClient(toClientConfig(config));
 
-  /**
-   * Handle tool listing
-   *
-   * Returns available MCP tools to the client.
-   */
-  server.setRequestHandler(ListToolsRequestSchema, () => {
-    return {
-      tools: tools.map((tool) => ({
-        name: tool.name,
-        description: tool.description,
-        inputSchema: tool.inputSchema,
-      })),
-    };
-  });
+  // Record current-value endpoints in the background for braiins_snapshot_history
+  const snapshotStore = createSnapshotStore(config);
+  const recorder = new SnapshotRecorder(apiClient, snapshotStore, config.snapshots);
+  if (config.snapshots.enabled) {
+    recorder.start();
+  }
 
-  /**
-   * Handle tool execution
-   *
-   * Routes tool calls to appropriate handlers.
-   */
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
+  // Get registered tools, honoring enabled/disabled lists
+  const tools = selectTools(getAllTools(apiClient, snapshotStore), config.tools);
 
-    // Find the tool
-    const tool = tools.find((t) => t.name === name);
+  // Current network state as braiins:// resources, plus workflow prompts
+  const resources = getAllResources(apiClient);
+  const prompts = getAllPrompts();
 
-    if (!tool) {
-      throw new Error(`Unknown tool: ${name}`);
-    }
+  if (config.server.transport === 'http') {
+    /**
+     * Start server with HTTP transport (one MCP server per session)
+     */
+    const http = await startHttpTransport(
+      {
+        ...config.server,
+        health: () => ({
+          request_queue: apiClient.getQueueMetrics(),
+          circuits: apiClient.getCircuitStatuses(),
+        }),
+      },
+      () => createMcpServer(tools, resources, { prompts })
+    );
 
-    // Execute the tool
-    const result = await tool.execute(args ?? {});
+    console.error(`Braiins Insights MCP Server running on ${http.url}`);
+    console.error(`Version: ${SERVER_INFO.version}`);
+    console.error(
+      `Streamable HTTP: ${http.url}/mcp | SSE: ${http.url}/sse | Health: ${http.url}/healthz`
+    );
 
-    // Return only the content array (MCP SDK format)
-    return {
-      content: result.content,
+    const shutdown = (): void => {
+      Promise.all([http.close(), recorder.stop()])
+        .then(() => process.exit(0))
+        .catch((error: unknown) => {
+          console.error('Error during shutdown:', error);
+          process.exit(1);
+        });
     };
-  });
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+    return;
+  }
 
   /**
    * Start server with stdio transport
    */
+  const server = createMcpServer(tools, resources, { prompts });
   const transport = new StdioServerTransport();
   await server.connect(transport);
 
@@ -0,0 +1,116 @@
+/**
+ * MCP Prompt: electricity_negotiation_prep
+ *
+ * Prepares for an electricity contract negotiation: what the site can afford to
+ * pay, break-even rates and how sensitive margins are to the rate.
+ *
+ * Tools used: braiins_cost_to_mine, braiins_profitability_calculator,
+ * braiins_hashrate_value_history, braiins_difficulty_stats, braiins_halvings
+ */
+
+import { z } from 'zod';
+import type { MCPPromptMessage } from './index.js';
+import {
+  PositiveIntArg,
+  PositiveNumberArg,
+  formatUsd,
+  parsePromptArguments,
+} from './prompt-arguments.js';
+
+/**
+ * Zod schema for prompt arguments
+ */
+const ElectricityNegotiationPrepArgsSchema = z.object({
+  site_hashrate_ths: PositiveNumberArg,
+  site_power_kw: PositiveNumberArg,
+  current_rate_kwh: PositiveNumberArg.max(1, 'Must be at most 1 USD/kWh'),
+  proposed_rate_kwh: PositiveNumberArg.max(1, 'Must be at most 1 USD/kWh').optional(),
+  contract_months: PositiveIntArg.max(120, 'Must be at most 120').default(24),
+});
+
+/**
+ * Electricity Negotiation Prep Prompt
+ */
+export class ElectricityNegotiationPrepPrompt {
+  /** MCP prompt name */
+  readonly name = 'electricity_negotiation_prep';
+
+  /** Prompt title shown in client menus */
+  readonly title = 'Site electricity negotiation prep';
+
+  /** Prompt description shown to users */
+  readonly description =
+    'Negotiation brief for a site power contract: break-even rate, margin at the ' +
+    'current and proposed rates, and a target and walk-away price.';
+
+  /** Prompt arguments */
+  readonly arguments = [
+    {
+      name: 'site_hashrate_ths',
+      description: 'Total site hashrate in TH/s',
+      required: true,
+    },
+    {
+      name: 'site_power_kw',
+      description: 'Total site power draw in kW, including cooling',
+      required: true,
+    },
+    {
+      name: 'current_rate_kwh',
+      description: 'Current electricity price in USD per kWh',
+      required: true,
+    },
+    {
+      name: 'proposed_rate_kwh',
+      description: "Utility's proposed price in USD per kWh",
+    },
+    {
+      name: 'contract_months',
+      description: 'Contract length in months (default: 24)',
+    },
+  ];
+
+  /**
+   * Build the prompt messages
+   *
+   * @param args - Raw prompt arguments
+   * @returns Single user message instructing the assistant
+   * @throws {PromptArgumentError} If arguments are missing or invalid
+   */
+  getMessages(args: Record<string, string> | undefined): MCPPromptMessage[] {
+    const {
+      site_hashrate_ths,
+      site_power_kw,
+      current_rate_kwh,
+      proposed_rate_kwh,
+      contract_months,
+    } = parsePromptArguments(this.name, ElectricityNegotiationPrepArgsSchema, args);
+
+    const efficiency = (site_power_kw * 1000) / site_hashrate_ths;
+    const periods = Math.min(contract_months, 60);
+
+    const text = [
+      `Prepare me for an electricity contract negotiation for a ${site_hashrate_ths.toLocaleString('en-US')} TH/s mining site drawing ${site_power_kw.toLocaleString('en-US')} kW (about ${efficiency.toFixed(1)} J/TH).`,
+      `We pay ${formatUsd(current_rate_kwh)}/kWh today${proposed_rate_kwh !== undefined ? ` and the utility proposes ${formatUsd(proposed_rate_kwh)}/kWh` : ''} for a ${contract_months}-month contract.`,
+      '',
+      'Use the Braiins Insights tools:',
+      '',
+      `1. \`braiins_profitability_calculator\` with \`hardware_efficiency_jth: ${efficiency.toFixed(2)}\` and \`electricity_cost_kwh: ${current_rate_kwh}\` for today's margin and the break-even electricity price.`,
+      `2. \`braiins_cost_to_mine\` with \`hashrate_ths: ${site_hashrate_ths}\`, \`consumption_watts: ${site_power_kw * 1000}\`, \`electricity_price_per_kwh: ${current_rate_kwh}\` and \`periods: ${periods}\`${proposed_rate_kwh !== undefined ? `, then again with \`electricity_price_per_kwh: ${proposed_rate_kwh}\`` : ''}.`,
+      '3. `braiins_hashrate_value_history` with `limit: 365` for how far hashprice has moved over the past year.',
+      '4. `braiins_difficulty_stats` and `braiins_halvings` for the difficulty trend and whether a halving falls inside the contract term.',
+      '',
+      'Then write a negotiation brief with:',
+      '',
+      '- **Break-even rate**: the electricity price at which the site stops making money today, and after the next halving if it falls inside the contract',
+      `- **Margin table**: monthly profit at ${formatUsd(current_rate_kwh)}${proposed_rate_kwh !== undefined ? `, ${formatUsd(proposed_rate_kwh)}` : ''} and ±10% around them`,
+      '- **Target and walk-away price**: a rate to open with and the highest rate we can accept, with the reasoning',
+      '- **Leverage**: arguments for the utility, e.g. curtailment flexibility, load factor and contract length',
+      '- **Risks**: hashprice swings and difficulty growth over the contract term',
+      '',
+      'Use USD throughout and keep it to one page the site manager can bring to the meeting.',
+    ].join('\n');
+
+    return [{ role: 'user', content: { type: 'text', text } }];
+  }
+}
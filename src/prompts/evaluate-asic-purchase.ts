@@ -0,0 +1,113 @@
+/**
+ * MCP Prompt: evaluate_asic_purchase
+ *
+ * Walks the assistant through judging an ASIC purchase: look up the model's specs,
+ * run today's profitability, project it forward and compute payback.
+ *
+ * Tools used: braiins_hardware_catalog, braiins_profitability_deep_dive,
+ * braiins_cost_to_mine
+ */
+
+import { z } from 'zod';
+import type { MCPPromptMessage } from './index.js';
+import {
+  PositiveIntArg,
+  PositiveNumberArg,
+  formatUsd,
+  parsePromptArguments,
+} from './prompt-arguments.js';
+
+/**
+ * Zod schema for prompt arguments
+ */
+const EvaluateAsicPurchaseArgsSchema = z.object({
+  model: z.string({ error: 'Required' }).trim().min(1, 'Required'),
+  electricity_cost_kwh: PositiveNumberArg.max(1, 'Must be at most 1 USD/kWh'),
+  unit_price_usd: PositiveNumberArg.optional(),
+  units: PositiveIntArg.default(1),
+});
+
+/**
+ * Evaluate ASIC Purchase Prompt
+ */
+export class EvaluateAsicPurchasePrompt {
+  /** MCP prompt name */
+  readonly name = 'evaluate_asic_purchase';
+
+  /** Prompt title shown in client menus */
+  readonly title = 'Evaluate a new ASIC purchase';
+
+  /** Prompt description shown to users */
+  readonly description =
+    'Decide whether an ASIC miner is worth buying at your electricity price: specs, ' +
+    'current profit, 2-year projection, break-even and payback.';
+
+  /** Prompt arguments */
+  readonly arguments = [
+    {
+      name: 'model',
+      description: 'ASIC model name, e.g. "Antminer S21 XP"',
+      required: true,
+    },
+    {
+      name: 'electricity_cost_kwh',
+      description: 'All-in electricity price in USD per kWh, e.g. 0.05',
+      required: true,
+    },
+    {
+      name: 'unit_price_usd',
+      description: 'Quoted price per unit in USD (enables payback and ROI)',
+    },
+    {
+      name: 'units',
+      description: 'Number of units to buy (default: 1)',
+    },
+  ];
+
+  /**
+   * Build the prompt messages
+   *
+   * @param args - Raw prompt arguments
+   * @returns Single user message instructing the assistant
+   * @throws {PromptArgumentError} If arguments are missing or invalid
+   */
+  getMessages(args: Record<string, string> | undefined): MCPPromptMessage[] {
+    const { model, electricity_cost_kwh, unit_price_usd, units } = parsePromptArguments(
+      this.name,
+      EvaluateAsicPurchaseArgsSchema,
+      args
+    );
+
+    const purchase =
+      unit_price_usd !== undefined
+        ? `${units} × ${model} at ${formatUsd(unit_price_usd)} per unit (${formatUsd(unit_price_usd * units)} total)`
+        : `${units} × ${model}`;
+
+    const text = [
+      `Evaluate whether buying ${purchase} is a good investment at an electricity price of ${formatUsd(electricity_cost_kwh)}/kWh.`,
+      '',
+      'Use the Braiins Insights tools in this order:',
+      '',
+      `1. Call \`braiins_hardware_catalog\` with \`models: ["${model}"]\` to get the hashrate (TH/s), power draw (W) and efficiency (J/TH). If the model is not found, say so and ask me for its specs instead of guessing.`,
+      `2. Call \`braiins_profitability_deep_dive\` with \`electricity_cost_kwh: ${electricity_cost_kwh}\` and the \`hardware_efficiency_jth\` and \`hashrate_ths\` from step 1.`,
+      `3. Call \`braiins_cost_to_mine\` with the \`hashrate_ths\` and \`consumption_watts\` from step 1 and \`electricity_price_per_kwh: ${electricity_cost_kwh}\` for a 24-month projection.`,
+      unit_price_usd !== undefined
+        ? `4. Using the daily net profit, compute the payback period for the ${formatUsd(unit_price_usd)} unit price, and repeat it assuming difficulty rises 20% faster than the projection.`
+        : '4. Report the maximum unit price that would pay back within 18 months.',
+      '',
+      'Then answer with:',
+      '',
+      '- **Verdict**: buy, wait or do not buy, in one sentence',
+      `- Daily and monthly revenue, power cost and profit per unit${units > 1 ? ` and for all ${units} units` : ''}`,
+      '- Break-even electricity price and the hashprice at which the machine stops being profitable',
+      unit_price_usd !== undefined
+        ? '- Payback period and ROI over 24 months'
+        : '- Maximum sensible unit price',
+      '- The two or three biggest risks (difficulty growth, BTC price, halving timing)',
+      '',
+      'Keep the language plain: the reader runs mining sites but is not a financial analyst. Show numbers in USD and round sensibly.',
+    ].join('\n');
+
+    return [{ role: 'user', content: { type: 'text', text } }];
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * MCP Prompt: explain_difficulty_adjustment
+ *
+ * Explains the upcoming difficulty adjustment: why it is expected, how large it
+ * will be and what it means for a given fleet.
+ *
+ * Tools used: braiins_difficulty_stats, braiins_hashrate_stats,
+ * braiins_hashrate_and_difficulty_history, braiins_blocks, braiins_cost_to_mine
+ */
+
+import { z } from 'zod';
+import type { MCPPromptMessage } from './index.js';
+import { PositiveNumberArg, formatUsd, parsePromptArguments } from './prompt-arguments.js';
+
+/**
+ * Zod schema for prompt arguments
+ */
+const ExplainDifficultyAdjustmentArgsSchema = z.object({
+  fleet_hashrate_ths: PositiveNumberArg.optional(),
+  fleet_power_watts: PositiveNumberArg.optional(),
+  electricity_cost_kwh: PositiveNumberArg.max(1, 'Must be at most 1 USD/kWh').optional(),
+});
+
+/**
+ * Explain Difficulty Adjustment Prompt
+ */
+export class ExplainDifficultyAdjustmentPrompt {
+  /** MCP prompt name */
+  readonly name = 'explain_difficulty_adjustment';
+
+  /** Prompt title shown in client menus */
+  readonly title = 'Explain the next difficulty adjustment';
+
+  /** Prompt description shown to users */
+  readonly description =
+    'Plain-language explanation of the next Bitcoin difficulty adjustment: expected size, ' +
+    'timing, why it is happening and the impact on your fleet.';
+
+  /** Prompt arguments */
+  readonly arguments = [
+    {
+      name: 'fleet_hashrate_ths',
+      description: 'Your total fleet hashrate in TH/s (enables fleet impact)',
+    },
+    {
+      name: 'fleet_power_watts',
+      description: 'Your total fleet power draw in watts',
+    },
+    {
+      name: 'electricity_cost_kwh',
+      description: 'Your electricity price in USD per kWh',
+    },
+  ];
+
+  /**
+   * Build the prompt messages
+   *
+   * @param args - Raw prompt arguments
+   * @returns Single user message instructing the assistant
+   * @throws {PromptArgumentError} If arguments are invalid
+   */
+  getMessages(args: Record<string, string> | undefined): MCPPromptMessage[] {
+    const { fleet_hashrate_ths, fleet_power_watts, electricity_cost_kwh } = parsePromptArguments(
+      this.name,
+      ExplainDifficultyAdjustmentArgsSchema,
+      args
+    );
+
+    const hasFleet =
+      fleet_hashrate_ths !== undefined &&
+      fleet_power_watts !== undefined &&
+      electricity_cost_kwh !== undefined;
+
+    const text = [
+      'Explain the next Bitcoin difficulty adjustment to someone who runs mining operations but is not a protocol expert.',
+      '',
+      'Use the Braiins Insights tools:',
+      '',
+      '1. `braiins_difficulty_stats` for the current difficulty, the estimated next difficulty, the expected change and the blocks and time until the adjustment.',
+      '2. `braiins_hashrate_stats` for current and 30-day average hashrate.',
+      '3. `braiins_hashrate_and_difficulty_history` with `limit: 60` to compare this adjustment with the last few.',
+      '4. `braiins_blocks` with `limit: 50` to check how fast blocks have been found recently.',
+      ...(hasFleet
+        ? [
+            `5. \`braiins_cost_to_mine\` with \`hashrate_ths: ${fleet_hashrate_ths}\`, \`consumption_watts: ${fleet_power_watts}\` and \`electricity_price_per_kwh: ${electricity_cost_kwh}\` for the fleet's economics before and after the adjustment.`,
+          ]
+        : []),
+      '',
+      'Then explain:',
+      '',
+      '- **What**: the expected change in percent and the estimated date and block height',
+      '- **Why**: how recent block times and hashrate growth lead to this change (the 2016-block, 10-minute target in one or two sentences)',
+      '- **How sure**: how much the estimate can still move before the adjustment',
+      '- **Context**: how it compares with recent adjustments',
+      hasFleet
+        ? `- **Impact on our fleet**: change in daily BTC and USD revenue for ${fleet_hashrate_ths} TH/s at ${formatUsd(electricity_cost_kwh)}/kWh, and whether any machines drop below break-even`
+        : '- **Impact**: what a change of this size means for revenue per TH/s',
+      '',
+      'Avoid jargon where possible and explain any term you must use.',
+    ].join('\n');
+
+    return [{ role: 'user', content: { type: 'text', text } }];
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * MCP Prompt Registry
+ *
+ * Prompts are reusable, argument-driven instructions for common mining workflows.
+ * Each one tells the assistant which Braiins Insights tools to call and how to
+ * present the answer, so the same question gets a consistent report no matter
+ * who asks it.
+ */
+
+import { ElectricityNegotiationPrepPrompt } from './electricity-negotiation-prep.js';
+import { EvaluateAsicPurchasePrompt } from './evaluate-asic-purchase.js';
+import { ExplainDifficultyAdjustmentPrompt } from './explain-difficulty-adjustment.js';
+import { WeeklyNetworkBriefingPrompt } from './weekly-network-briefing.js';
+
+/**
+ * Prompt argument definition
+ */
+export interface MCPPromptArgument {
+  readonly name: string;
+  readonly description: string;
+  readonly required?: boolean;
+}
+
+/**
+ * Prompt message
+ */
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string };
+}
+
+/**
+ * Prompt registry interface
+ *
+ * All prompts must implement this interface to be registered.
+ */
+export interface MCPPrompt {
+  readonly name: string;
+  readonly title?: string;
+  readonly description: string;
+  readonly arguments: readonly MCPPromptArgument[];
+
+  /**
+   * Build the prompt messages
+   *
+   * @throws {PromptArgumentError} If arguments are missing or invalid
+   */
+  getMessages(args: Record<string, string> | undefined): MCPPromptMessage[];
+}
+
+/**
+ * Get all registered prompts
+ *
+ * @returns Array of prompt instances ready for MCP registration
+ */
+export function getAllPrompts(): MCPPrompt[] {
+  return [
+    new EvaluateAsicPurchasePrompt(),
+    new WeeklyNetworkBriefingPrompt(),
+    new ExplainDifficultyAdjustmentPrompt(),
+    new ElectricityNegotiationPrepPrompt(),
+  ];
+}
+
+// Re-export prompt implementations
+export {
+  EvaluateAsicPurchasePrompt,
+  WeeklyNetworkBriefingPrompt,
+  ExplainDifficultyAdjustmentPrompt,
+  ElectricityNegotiationPrepPrompt,
+};
+export { PromptArgumentError } from './prompt-arguments.js';
@@ -0,0 +1,72 @@
+/**
+ * Prompt Argument Helpers
+ *
+ * MCP prompt arguments always arrive as strings. These zod helpers coerce and
+ * validate them so each prompt works with typed values, and report every invalid
+ * argument at once.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Positive number given as a string (e.g. "0.05")
+ */
+export const PositiveNumberArg = z.coerce
+  .number({ error: 'Must be a number' })
+  .positive('Must be positive');
+
+/**
+ * Positive integer given as a string (e.g. "10")
+ */
+export const PositiveIntArg = z.coerce
+  .number({ error: 'Must be a number' })
+  .int('Must be a whole number')
+  .positive('Must be positive');
+
+/**
+ * Invalid prompt arguments
+ */
+export class PromptArgumentError extends Error {
+  constructor(
+    promptName: string,
+    public readonly issues: string[]
+  ) {
+    super(`Invalid arguments for prompt ${promptName}:\n${issues.map((i) => `- ${i}`).join('\n')}`);
+    this.name = 'PromptArgumentError';
+  }
+}
+
+/**
+ * Validate prompt arguments, treating empty strings as omitted
+ *
+ * @param promptName - Prompt name used in the error message
+ * @param schema - Zod schema for the typed arguments
+ * @param args - Raw string arguments from `prompts/get`
+ * @returns Typed arguments
+ * @throws {PromptArgumentError} If any argument is missing or invalid
+ */
+export function parsePromptArguments<T extends z.ZodType>(
+  promptName: string,
+  schema: T,
+  args: Record<string, string> | undefined
+): z.infer<T> {
+  const provided = Object.fromEntries(
+    Object.entries(args ?? {}).filter(([, value]) => value.trim() !== '')
+  );
+
+  const result = schema.safeParse(provided);
+  if (!result.success) {
+    throw new PromptArgumentError(
+      promptName,
+      result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Format a USD amount for prompt text
+ */
+export function formatUsd(value: number): string {
+  return `$${value.toLocaleString('en-US', { maximumFractionDigits: 4 })}`;
+}
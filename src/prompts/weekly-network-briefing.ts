@@ -0,0 +1,109 @@
+/**
+ * MCP Prompt: weekly_network_briefing
+ *
+ * Produces a consistent weekly summary of network, market and pool conditions
+ * for a chosen audience.
+ *
+ * Tools used: braiins_mining_overview, braiins_network_health_monitor,
+ * braiins_hashrate_and_difficulty_history, braiins_daily_revenue_history,
+ * braiins_pool_stats, braiins_transaction_fees_history, braiins_snapshot_history
+ */
+
+import { z } from 'zod';
+import type { MCPPromptMessage } from './index.js';
+import { parsePromptArguments } from './prompt-arguments.js';
+
+/**
+ * Supported briefing audiences
+ */
+const AUDIENCES = ['operations', 'executive', 'investor'] as const;
+
+/**
+ * What each audience cares about
+ */
+const AUDIENCE_FOCUS: Record<(typeof AUDIENCES)[number], string> = {
+  operations:
+    'site operators: hashprice, difficulty changes, fee income and anything that changes day-to-day running decisions',
+  executive:
+    'leadership: revenue direction, margin pressure and the one or two decisions they may need to make',
+  investor: 'investors: BTC price, network growth, miner economics and pool concentration risk',
+};
+
+/**
+ * Zod schema for prompt arguments
+ */
+const WeeklyNetworkBriefingArgsSchema = z.object({
+  audience: z
+    .enum(AUDIENCES, { error: `Must be one of: ${AUDIENCES.join(', ')}` })
+    .default('operations'),
+  focus: z.string().trim().optional(),
+});
+
+/**
+ * Weekly Network Briefing Prompt
+ */
+export class WeeklyNetworkBriefingPrompt {
+  /** MCP prompt name */
+  readonly name = 'weekly_network_briefing';
+
+  /** Prompt title shown in client menus */
+  readonly title = 'Weekly network briefing';
+
+  /** Prompt description shown to users */
+  readonly description =
+    'One-page summary of the past week in Bitcoin mining: hashrate, difficulty, ' +
+    'hashprice, fees, price and pool distribution, written for your audience.';
+
+  /** Prompt arguments */
+  readonly arguments = [
+    {
+      name: 'audience',
+      description: `Who the briefing is for: ${AUDIENCES.join(', ')} (default: operations)`,
+    },
+    {
+      name: 'focus',
+      description: 'Anything to pay extra attention to, e.g. "fee market" or "Foundry share"',
+    },
+  ];
+
+  /**
+   * Build the prompt messages
+   *
+   * @param args - Raw prompt arguments
+   * @returns Single user message instructing the assistant
+   * @throws {PromptArgumentError} If arguments are invalid
+   */
+  getMessages(args: Record<string, string> | undefined): MCPPromptMessage[] {
+    const { audience, focus } = parsePromptArguments(
+      this.name,
+      WeeklyNetworkBriefingArgsSchema,
+      args
+    );
+
+    const text = [
+      `Write this week's Bitcoin mining network briefing for ${AUDIENCE_FOCUS[audience]}.`,
+      '',
+      'Gather data with the Braiins Insights tools:',
+      '',
+      '1. `braiins_mining_overview` for the current hashrate, difficulty, price and recent blocks.',
+      '2. `braiins_network_health_monitor` for the health score and any anomalies.',
+      '3. `braiins_hashrate_and_difficulty_history` and `braiins_daily_revenue_history` with `limit: 14` to compare this week with last week.',
+      '4. `braiins_transaction_fees_history` with `limit: 14` for fee trends.',
+      '5. `braiins_pool_stats` for the pool distribution.',
+      '6. `braiins_snapshot_history` with `hours: 168` for locally recorded hashprice and BTC price over the week (skip it if nothing has been recorded).',
+      '',
+      'Structure the briefing as:',
+      '',
+      '- **Headline**: the single most important change this week',
+      '- **Network**: hashrate and difficulty, week-over-week change and the next adjustment estimate',
+      '- **Economics**: hashprice, BTC price and fee share of revenue, week-over-week',
+      '- **Pools**: top pools by share and any notable shifts',
+      '- **Watch next week**: two or three things to keep an eye on',
+      ...(focus ? [`- **${focus}**: a dedicated short section`] : []),
+      '',
+      'Keep it under 400 words, use week-over-week percentages, and state when a figure is an estimate.',
+    ].join('\n');
+
+    return [{ role: 'user', content: { type: 'text', text } }];
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * MCP Resource Registry
+ *
+ * Resources expose the current Bitcoin network state as `braiins://` URIs so
+ * clients can attach it as context without spending a tool call. Each resource
+ * has a JSON (API response) and a Markdown (tool report) representation.
+ */
+
+import type { InsightsApiClient } from '../api/insights-client.js';
+import { DifficultyStatsTool } from '../tools/simple/difficulty-stats.js';
+import { HalvingsTool } from '../tools/simple/halvings.js';
+import { HashrateStatsTool } from '../tools/simple/hashrate-stats.js';
+import { PoolStatsTool } from '../tools/simple/pool-stats.js';
+import { PriceStatsTool } from '../tools/simple/price-stats.js';
+import { NetworkResource, NetworkResourceContents } from './network-resource.js';
+
+/**
+ * Resource registry interface
+ */
+export interface MCPResource {
+  readonly uri: string;
+  readonly name: string;
+  readonly description: string;
+
+  /** Fetch the current value, used to detect changes for subscribers */
+  load(): Promise<unknown>;
+
+  /** Fetch the current value with its Markdown rendering */
+  read(): Promise<NetworkResourceContents>;
+}
+
+/**
+ * Get all registered resources
+ *
+ * @param apiClient - Insights API client instance
+ * @returns Array of resources ready for MCP registration
+ */
+export function getAllResources(apiClient: InsightsApiClient): MCPResource[] {
+  return [
+    new NetworkResource({
+      uri: 'braiins://network/hashrate',
+      name: 'Network hashrate',
+      description:
+        'Current Bitcoin network hashrate, hash price, hash value and transaction fee share',
+      load: () => apiClient.getHashrateStats(),
+      tool: new HashrateStatsTool(apiClient),
+    }),
+    new NetworkResource({
+      uri: 'braiins://network/difficulty',
+      name: 'Network difficulty',
+      description: 'Current mining difficulty and the estimated next difficulty adjustment',
+      load: () => apiClient.getDifficultyStats(),
+      tool: new DifficultyStatsTool(apiClient),
+    }),
+    new NetworkResource({
+      uri: 'braiins://price',
+      name: 'Bitcoin price',
+      description: 'Current BTC price in USD and its 24-hour change',
+      load: () => apiClient.getPriceStats(),
+      tool: new PriceStatsTool(apiClient),
+    }),
+    new NetworkResource({
+      uri: 'braiins://halvings',
+      name: 'Bitcoin halvings',
+      description: 'Next halving estimate, current block subsidy and halving history',
+      load: () => apiClient.getHalvings(),
+      tool: new HalvingsTool(apiClient),
+    }),
+    new NetworkResource({
+      uri: 'braiins://pools',
+      name: 'Mining pools',
+      description: 'Mining pool hashrate distribution and blocks found',
+      load: () => apiClient.getPoolStats(),
+      tool: new PoolStatsTool(apiClient),
+    }),
+  ];
+}
+
+export { NetworkResource };
+export type { NetworkResourceContents };
@@ -0,0 +1,89 @@
+/**
+ * Network State Resource
+ *
+ * MCP resource backed by one `InsightsApiClient` method. The JSON representation
+ * is the API response itself; the Markdown representation is the report of the
+ * matching tool, so resources and tools read the same way.
+ */
+
+import type { MCPTool } from '../tools/index.js';
+
+/**
+ * Resource definition
+ */
+export interface NetworkResourceOptions {
+  /** Resource URI (e.g. `braiins://price`) */
+  uri: string;
+
+  /** Human-readable resource name */
+  name: string;
+
+  /** Description shown to clients */
+  description: string;
+
+  /** Fetch the current value (served from the client cache when fresh) */
+  load: () => Promise<unknown>;
+
+  /** Tool rendering the Markdown representation */
+  tool: MCPTool;
+}
+
+/**
+ * Current contents of a resource
+ */
+export interface NetworkResourceContents {
+  /** API response (JSON representation) */
+  data: unknown;
+
+  /** Markdown report */
+  markdown: string;
+}
+
+/**
+ * Read-only resource exposing the current value of an API endpoint
+ */
+export class NetworkResource {
+  readonly uri: string;
+  readonly name: string;
+  readonly description: string;
+
+  private readonly loader: () => Promise<unknown>;
+  private readonly tool: MCPTool;
+
+  constructor(options: NetworkResourceOptions) {
+    this.uri = options.uri;
+    this.name = options.name;
+    this.description = options.description;
+    this.loader = options.load;
+    this.tool = options.tool;
+  }
+
+  /**
+   * Fetch the current value
+   *
+   * @returns API response data
+   */
+  load(): Promise<unknown> {
+    return this.loader();
+  }
+
+  /**
+   * Fetch the current value and render it as Markdown
+   *
+   * @returns JSON data and Markdown report
+   * @throws {Error} If the API request or the report fails
+   */
+  async read(): Promise<NetworkResourceContents> {
+    const data = await this.loader();
+    const result = await this.tool.execute({ format: 'markdown' });
+
+    const markdown = result.content
+      .flatMap((block) => (block.type === 'text' ? [block.text] : []))
+      .join('\n\n');
+    if (result.isError) {
+      throw new Error(`Failed to read ${this.uri}: ${markdown}`);
+    }
+
+    return { data, markdown };
+  }
+}
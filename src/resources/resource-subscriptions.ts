@@ -0,0 +1,159 @@
+/**
+ * Resource Subscriptions
+ *
+ * Tracks one MCP session's `resources/subscribe` requests and sends
+ * `notifications/resources/updated` when a subscribed resource's value changes.
+ *
+ * Values are polled through the API client at background priority, so polls are
+ * answered from the shared response cache while it is fresh and only reach the
+ * API once an entry expires. A change is detected by comparing the serialized
+ * API response with the previous poll.
+ */
+
+import { runWithRequestContext } from '../api/request-context.js';
+import type { MCPResource } from './index.js';
+
+/**
+ * Default time between polls of subscribed resources (1 minute)
+ */
+export const DEFAULT_RESOURCE_POLL_INTERVAL = 60_000;
+
+/**
+ * Send an update notification for a resource URI
+ */
+export type ResourceUpdateNotifier = (uri: string) => Promise<void>;
+
+/**
+ * Per-session resource subscription tracker
+ */
+export class ResourceSubscriptions {
+  /** Serialized value per subscribed URI (undefined until first successful load) */
+  private readonly fingerprints: Map<string, string | undefined> = new Map();
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private polling: Promise<void> | undefined;
+
+  /**
+   * @param resources - Registered resources
+   * @param notify - Sends the update notification to the session
+   * @param pollIntervalMs - Time between polls of subscribed resources
+   */
+  constructor(
+    private readonly resources: MCPResource[],
+    private readonly notify: ResourceUpdateNotifier,
+    private readonly pollIntervalMs: number = DEFAULT_RESOURCE_POLL_INTERVAL
+  ) {}
+
+  /**
+   * Subscribe to a resource and record its current value
+   *
+   * @throws {Error} If the URI is not a registered resource
+   */
+  async subscribe(uri: string): Promise<void> {
+    const resource = this.find(uri);
+    if (this.fingerprints.has(uri)) {
+      return;
+    }
+
+    this.fingerprints.set(uri, undefined);
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.poll(), this.pollIntervalMs);
+      this.timer.unref?.();
+    }
+
+    const fingerprint = await this.fingerprint(resource);
+    if (this.fingerprints.has(uri)) {
+      this.fingerprints.set(uri, fingerprint);
+    }
+  }
+
+  /**
+   * Unsubscribe from a resource (no-op if not subscribed)
+   */
+  unsubscribe(uri: string): void {
+    this.fingerprints.delete(uri);
+    if (this.fingerprints.size === 0) {
+      this.stopTimer();
+    }
+  }
+
+  /**
+   * Subscribed resource URIs
+   */
+  subscribed(): string[] {
+    return [...this.fingerprints.keys()];
+  }
+
+  /**
+   * Check every subscribed resource and notify about changed values
+   *
+   * Polls never overlap; a resource that fails to load keeps its previous value.
+   */
+  poll(): Promise<void> {
+    this.polling ??= this.pollAll().finally(() => {
+      this.polling = undefined;
+    });
+    return this.polling;
+  }
+
+  /**
+   * Drop all subscriptions and stop polling
+   */
+  close(): void {
+    this.fingerprints.clear();
+    this.stopTimer();
+  }
+
+  /**
+   * Load each subscribed resource and notify if its value changed
+   */
+  private async pollAll(): Promise<void> {
+    for (const uri of this.subscribed()) {
+      const resource = this.find(uri);
+      const previous = this.fingerprints.get(uri);
+      const current = await this.fingerprint(resource);
+
+      // Unsubscribed while loading, or load failed
+      if (!this.fingerprints.has(uri) || current === undefined) {
+        continue;
+      }
+
+      this.fingerprints.set(uri, current);
+      if (previous !== undefined && current !== previous) {
+        await this.notify(uri).catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Serialize a resource's current value (undefined if it cannot be loaded)
+   */
+  private async fingerprint(resource: MCPResource): Promise<string | undefined> {
+    try {
+      const data = await runWithRequestContext({ priority: 'background' }, () => resource.load());
+      return JSON.stringify(data);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Find a registered resource by URI
+   */
+  private find(uri: string): MCPResource {
+    const resource = this.resources.find((r) => r.uri === uri);
+    if (!resource) {
+      throw new Error(`Unknown resource: ${uri}`);
+    }
+    return resource;
+  }
+
+  /**
+   * Stop polling
+   */
+  private stopTimer(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
@@ -0,0 +1,259 @@
+/**
+ * MCP Server Factory
+ *
+ * Builds an MCP `Server` with the tool, resource and prompt registries wired to
+ * the list/call/read/subscribe/get handlers. The stdio transport uses a single server; the
+ * HTTP transport creates one server per client session, all sharing the same tool
+ * and resource instances (and therefore the same `InsightsApiClient` cache and
+ * rate limiter). Resource subscriptions are tracked per server.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  ErrorCode,
+  McpError,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { runWithRequestContext, StaleResponse } from './api/request-context.js';
+import { MCPPrompt, PromptArgumentError } from './prompts/index.js';
+import type { MCPResource } from './resources/index.js';
+import { ResourceSubscriptions } from './resources/resource-subscriptions.js';
+import type { MCPTool } from './tools/index.js';
+import { formatStaleNotice, toStaleMeta } from './utils/staleness.js';
+
+/**
+ * Server identification reported to MCP clients
+ */
+export const SERVER_INFO = {
+  name: 'braiins-insights-mcp-server',
+  version: '0.1.0',
+};
+
+/**
+ * MCP server options
+ */
+export interface McpServerOptions {
+  /** Prompt instances to register (prompts capability is only declared when non-empty) */
+  prompts?: MCPPrompt[];
+
+  /** Time between polls of subscribed resources in milliseconds */
+  resourcePollIntervalMs?: number;
+}
+
+/**
+ * Create an MCP server exposing the given tools and resources
+ *
+ * @param tools - Tool instances to register
+ * @param resources - Resource instances to register (resources capability is only
+ *   declared when non-empty)
+ * @param options - Prompts and resource subscription options
+ * @returns Configured MCP server (not yet connected to a transport)
+ */
+export function createMcpServer(
+  tools: MCPTool[],
+  resources: MCPResource[] = [],
+  options: McpServerOptions = {}
+): Server {
+  const prompts = options.prompts ?? [];
+  const server = new Server(SERVER_INFO, {
+    capabilities: {
+      tools: {},
+      ...(resources.length > 0 ? { resources: { subscribe: true } } : {}),
+      ...(prompts.length > 0 ? { prompts: {} } : {}),
+    },
+  });
+
+  /**
+   * Handle tool listing
+   *
+   * Returns available MCP tools to the client, with category, tags and endpoints in `_meta`.
+   */
+  server.setRequestHandler(ListToolsRequestSchema, () => {
+    return {
+      tools: tools.map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: tool.inputSchema,
+        ...(tool.outputSchema ? { outputSchema: tool.outputSchema } : {}),
+        _meta: { category: tool.category, tags: tool.tags, endpoints: tool.endpoints },
+      })),
+    };
+  });
+
+  /**
+   * Handle tool execution
+   *
+   * Routes tool calls to appropriate handlers.
+   */
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+
+    // Find the tool
+    const tool = tools.find((t) => t.name === name);
+
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+
+    // Execute the tool; its API requests are queued as interactive work for this session
+    const staleResponses: StaleResponse[] = [];
+    const result = await runWithRequestContext(
+      { sessionId: extra.sessionId, priority: 'interactive', staleResponses },
+      () => tool.execute(args ?? {})
+    );
+
+    // Flag data served from expired cache entries; JSON output must stay exactly the
+    // payload, so there staleness is reported through `_meta` only
+    const staleNotice = formatStaleNotice(staleResponses);
+    const appendNotice = staleNotice && args?.['format'] !== 'json';
+
+    // Return content plus structured payload (MCP SDK format)
+    return {
+      content: appendNotice
+        ? [...result.content, { type: 'text' as const, text: staleNotice }]
+        : result.content,
+      ...(result.structuredContent ? { structuredContent: result.structuredContent } : {}),
+      ...(result.isError ? { isError: true } : {}),
+      ...(staleNotice ? { _meta: { stale: toStaleMeta(staleResponses) } } : {}),
+    };
+  });
+
+  if (resources.length > 0) {
+    registerResourceHandlers(server, resources, options);
+  }
+  if (prompts.length > 0) {
+    registerPromptHandlers(server, prompts);
+  }
+
+  return server;
+}
+
+/**
+ * Wire resource list/read/subscribe handlers to a server
+ */
+function registerResourceHandlers(
+  server: Server,
+  resources: MCPResource[],
+  options: McpServerOptions
+): void {
+  const subscriptions = new ResourceSubscriptions(
+    resources,
+    (uri) => server.sendResourceUpdated({ uri }),
+    options.resourcePollIntervalMs
+  );
+  server.onclose = () => subscriptions.close();
+
+  /**
+   * Handle resource listing
+   */
+  server.setRequestHandler(ListResourcesRequestSchema, () => {
+    return {
+      resources: resources.map((resource) => ({
+        uri: resource.uri,
+        name: resource.name,
+        description: resource.description,
+        mimeType: 'application/json',
+      })),
+    };
+  });
+
+  /**
+   * Handle resource reads
+   *
+   * Returns the JSON representation followed by the Markdown report.
+   */
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    const { uri } = request.params;
+    const resource = resources.find((r) => r.uri === uri);
+
+    if (!resource) {
+      throw new Error(`Unknown resource: ${uri}`);
+    }
+
+    const staleResponses: StaleResponse[] = [];
+    const { data, markdown } = await runWithRequestContext(
+      { sessionId: extra.sessionId, priority: 'interactive', staleResponses },
+      () => resource.read()
+    );
+
+    // Flag data served from expired cache entries
+    const staleNotice = formatStaleNotice(staleResponses);
+
+    return {
+      contents: [
+        { uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) },
+        {
+          uri,
+          mimeType: 'text/markdown',
+          text: staleNotice ? `${markdown}\n\n${staleNotice}` : markdown,
+        },
+      ],
+      ...(staleNotice ? { _meta: { stale: toStaleMeta(staleResponses) } } : {}),
+    };
+  });
+
+  /**
+   * Handle resource subscriptions
+   */
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    await subscriptions.subscribe(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    subscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
+}
+
+/**
+ * Wire prompt list/get handlers to a server
+ */
+function registerPromptHandlers(server: Server, prompts: MCPPrompt[]): void {
+  /**
+   * Handle prompt listing
+   */
+  server.setRequestHandler(ListPromptsRequestSchema, () => {
+    return {
+      prompts: prompts.map((prompt) => ({
+        name: prompt.name,
+        ...(prompt.title ? { title: prompt.title } : {}),
+        description: prompt.description,
+        arguments: prompt.arguments.map((argument) => ({ ...argument })),
+      })),
+    };
+  });
+
+  /**
+   * Handle prompt requests
+   *
+   * Invalid arguments are reported as JSON-RPC invalid params errors.
+   */
+  server.setRequestHandler(GetPromptRequestSchema, (request) => {
+    const { name, arguments: args } = request.params;
+    const prompt = prompts.find((p) => p.name === name);
+
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    try {
+      return {
+        description: prompt.description,
+        messages: prompt.getMessages(args),
+      };
+    } catch (error) {
+      if (error instanceof PromptArgumentError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+      throw error;
+    }
+  });
+}
@@ -0,0 +1,234 @@
+/**
+ * Snapshot Recorder
+ *
+ * Periodically samples endpoints that only report current values and appends
+ * their metrics to a `SnapshotStore`, building local history for
+ * `braiins_snapshot_history`.
+ *
+ * Requests run at background priority, so they queue behind interactive tool
+ * calls, and bypass the response cache, so a response a tool fetched earlier is
+ * not recorded again. Data served stale is not recorded, and a source recorded
+ * recently (e.g. by another server process sharing the store) is skipped.
+ */
+
+import type { InsightsApiClient } from '../api/insights-client.js';
+import { runWithRequestContext, StaleResponse } from '../api/request-context.js';
+import {
+  BraiinsInsightsHashrateStats,
+  BraiinsInsightsPoolStats,
+  BraiinsInsightsPriceStats,
+  BraiinsInsightsTransactionStats,
+} from '../types/insights-api.js';
+import { SNAPSHOT_SOURCES, SnapshotSource, SnapshotStore } from './snapshot-store.js';
+
+/**
+ * Default time between snapshots (10 minutes)
+ */
+export const DEFAULT_SNAPSHOT_INTERVAL = 600_000;
+
+/**
+ * Fraction of the interval after which a source may be recorded again
+ */
+const MIN_GAP_RATIO = 0.9;
+
+/**
+ * Recorder configuration
+ */
+export interface SnapshotRecorderOptions {
+  /** Time between snapshots in milliseconds */
+  intervalMs?: number;
+
+  /** Sources to record (default: all) */
+  sources?: readonly SnapshotSource[];
+}
+
+/**
+ * Outcome of one recording round
+ */
+export interface SnapshotRoundResult {
+  /** Sources written to the store */
+  recorded: SnapshotSource[];
+
+  /** Sources skipped, with the reason */
+  skipped: Array<{ source: SnapshotSource; reason: string }>;
+}
+
+/**
+ * Fetch one source and flatten it into metric values
+ */
+type MetricExtractor = (apiClient: InsightsApiClient) => Promise<Record<string, number>>;
+
+/**
+ * Metric extractors per source
+ *
+ * Metric names are `<source>.<field>`; pool metrics are `pools.<pool name>.<field>`.
+ */
+const EXTRACTORS: Record<SnapshotSource, MetricExtractor> = {
+  hashrate: async (apiClient) => {
+    const stats: BraiinsInsightsHashrateStats = await apiClient.getHashrateStats();
+    return numericMetrics('hashrate', {
+      current_hashrate: stats.current_hashrate,
+      current_hashrate_estimated: stats.current_hashrate_estimated,
+      hash_rate_30: stats.hash_rate_30,
+      hash_price: stats.hash_price,
+      hash_value: stats.hash_value,
+      rev_usd: stats.rev_usd,
+      avg_fees_per_block: stats.avg_fees_per_block,
+      fees_percent: stats.fees_percent,
+    });
+  },
+  price: async (apiClient) => {
+    const stats: BraiinsInsightsPriceStats = await apiClient.getPriceStats();
+    return numericMetrics('price', {
+      price: stats.price,
+      percent_change_24h: stats.percent_change_24h,
+    });
+  },
+  transactions: async (apiClient) => {
+    const stats: BraiinsInsightsTransactionStats = await apiClient.getTransactionStats();
+    return numericMetrics('transactions', {
+      mempool_size: stats.mempool_size,
+      avg_fee_sat_per_byte: stats.avg_fee_sat_per_byte,
+      confirmation_time_blocks: stats.confirmation_time_blocks,
+      tx_count_24h: stats.tx_count_24h,
+    });
+  },
+  pools: async (apiClient) => {
+    const stats: BraiinsInsightsPoolStats = await apiClient.getPoolStats();
+    const metrics: Record<string, number> = {};
+    for (const pool of stats.pools ?? []) {
+      Object.assign(
+        metrics,
+        numericMetrics(`pools.${pool.name}`, {
+          hashrate_effective: pool.hashrate_effective,
+          hashrate_percent: pool.hashrate_percent,
+          blocks_1d: pool.blocks_mined['1d']?.absolute,
+        })
+      );
+    }
+    return metrics;
+  },
+};
+
+/**
+ * Prefix field names and drop missing or non-finite values
+ */
+function numericMetrics(
+  prefix: string,
+  values: Record<string, number | undefined>
+): Record<string, number> {
+  const metrics: Record<string, number> = {};
+  for (const [field, value] of Object.entries(values)) {
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      metrics[`${prefix}.${field}`] = value;
+    }
+  }
+  return metrics;
+}
+
+/**
+ * Background recorder of metric snapshots
+ */
+export class SnapshotRecorder {
+  private readonly intervalMs: number;
+  private readonly sources: readonly SnapshotSource[];
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private running: Promise<SnapshotRoundResult> | undefined;
+
+  constructor(
+    private readonly apiClient: InsightsApiClient,
+    private readonly store: SnapshotStore,
+    options: SnapshotRecorderOptions = {}
+  ) {
+    this.intervalMs = options.intervalMs ?? DEFAULT_SNAPSHOT_INTERVAL;
+    this.sources = options.sources ?? SNAPSHOT_SOURCES;
+  }
+
+  /**
+   * Record immediately, then every interval (no-op if already started)
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    void this.recordOnce();
+    this.timer = setInterval(() => void this.recordOnce(), this.intervalMs);
+    this.timer.unref?.();
+  }
+
+  /**
+   * Stop recording and wait for an in-progress round
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    await this.running;
+  }
+
+  /**
+   * Record one snapshot of every source (rounds never overlap)
+   */
+  recordOnce(): Promise<SnapshotRoundResult> {
+    this.running ??= this.recordRound().finally(() => {
+      this.running = undefined;
+    });
+    return this.running;
+  }
+
+  /**
+   * Fetch and store each source, collecting per-source outcomes
+   */
+  private async recordRound(): Promise<SnapshotRoundResult> {
+    const result: SnapshotRoundResult = { recorded: [], skipped: [] };
+
+    for (const source of this.sources) {
+      try {
+        const reason = await this.recordSource(source);
+        if (reason) {
+          result.skipped.push({ source, reason });
+        } else {
+          result.recorded.push(source);
+        }
+      } catch (error) {
+        result.skipped.push({
+          source,
+          reason: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Record one source
+   *
+   * @returns Reason the source was skipped, or undefined if it was recorded
+   */
+  private async recordSource(source: SnapshotSource): Promise<string | undefined> {
+    const latest = await this.store.latest(source);
+    const now = Date.now();
+    if (latest && now - latest.timestamp < this.intervalMs * MIN_GAP_RATIO) {
+      return 'recorded recently';
+    }
+
+    const staleResponses: StaleResponse[] = [];
+    const metrics = await runWithRequestContext(
+      { sessionId: 'snapshot-recorder', priority: 'background', staleResponses, bypassCache: true },
+      () => EXTRACTORS[source](this.apiClient)
+    );
+
+    if (staleResponses.length > 0) {
+      return 'upstream data is stale';
+    }
+    if (Object.keys(metrics).length === 0) {
+      return 'no numeric metrics';
+    }
+
+    // Stamp the sample when the response arrived, not when the round started waiting for it
+    await this.store.append({ source, timestamp: Date.now(), metrics });
+    return undefined;
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * Snapshot Store
+ *
+ * Embedded time-series storage for metrics sampled from endpoints that Braiins
+ * Insights only exposes as current values (hashrate stats, price, mempool, pools).
+ *
+ * - `MemorySnapshotStore`: per-process, for tests and when persistence is off
+ * - `FileSnapshotStore`: append-only JSON Lines, one file per UTC day, with
+ *   day-granular retention. Appends are single `O_APPEND` writes, so several
+ *   server processes can share a directory.
+ */
+
+import { appendFile, mkdir, readdir, readFile, unlink } from 'node:fs/promises';
+import { join } from 'node:path';
+
+/**
+ * Snapshotted endpoints
+ */
+export const SNAPSHOT_SOURCES = ['hashrate', 'price', 'transactions', 'pools'] as const;
+
+/**
+ * Snapshot source
+ */
+export type SnapshotSource = (typeof SNAPSHOT_SOURCES)[number];
+
+/**
+ * Metric values captured from one endpoint at one point in time
+ */
+export interface Snapshot {
+  /** Endpoint group the metrics came from */
+  source: SnapshotSource;
+
+  /** Capture time (Unix timestamp in milliseconds) */
+  timestamp: number;
+
+  /** Metric values keyed by metric name (e.g. `hashrate.current_hashrate`) */
+  metrics: Record<string, number>;
+}
+
+/**
+ * Time window filter for snapshot queries
+ */
+export interface SnapshotQuery {
+  /** Only snapshots from this source */
+  source?: SnapshotSource;
+
+  /** Inclusive lower bound (Unix timestamp in milliseconds) */
+  start?: number;
+
+  /** Inclusive upper bound (Unix timestamp in milliseconds) */
+  end?: number;
+}
+
+/**
+ * Storage for metric snapshots
+ */
+export interface SnapshotStore {
+  /** Append a snapshot */
+  append(snapshot: Snapshot): Promise<void>;
+
+  /** Snapshots matching the query, oldest first */
+  query(query?: SnapshotQuery): Promise<Snapshot[]>;
+
+  /** Most recent snapshot of a source, if any */
+  latest(source: SnapshotSource): Promise<Snapshot | undefined>;
+}
+
+/**
+ * Check whether a snapshot matches a query
+ */
+function matches(snapshot: Snapshot, query: SnapshotQuery): boolean {
+  return (
+    (query.source === undefined || snapshot.source === query.source) &&
+    (query.start === undefined || snapshot.timestamp >= query.start) &&
+    (query.end === undefined || snapshot.timestamp <= query.end)
+  );
+}
+
+/**
+ * In-memory snapshot store
+ */
+export class MemorySnapshotStore implements SnapshotStore {
+  private readonly snapshots: Snapshot[] = [];
+
+  append(snapshot: Snapshot): Promise<void> {
+    this.snapshots.push(snapshot);
+    return Promise.resolve();
+  }
+
+  query(query: SnapshotQuery = {}): Promise<Snapshot[]> {
+    return Promise.resolve(
+      this.snapshots
+        .filter((snapshot) => matches(snapshot, query))
+        .sort((a, b) => a.timestamp - b.timestamp)
+    );
+  }
+
+  async latest(source: SnapshotSource): Promise<Snapshot | undefined> {
+    const snapshots = await this.query({ source });
+    return snapshots[snapshots.length - 1];
+  }
+}
+
+/**
+ * File store configuration
+ */
+export interface FileSnapshotStoreOptions {
+  /** Directory holding the daily snapshot files (created on first write) */
+  directory: string;
+
+  /** Days of snapshots to keep (0 keeps everything) */
+  retentionDays?: number;
+}
+
+/**
+ * Default snapshot retention in days
+ */
+export const DEFAULT_SNAPSHOT_RETENTION_DAYS = 90;
+
+const DAY_MS = 86_400_000;
+const FILE_PATTERN = /^snapshots-(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+/**
+ * JSON Lines snapshot store with one file per UTC day
+ */
+export class FileSnapshotStore implements SnapshotStore {
+  private readonly directory: string;
+  private readonly retentionDays: number;
+  private lastPrunedDay: string | undefined;
+
+  constructor(options: FileSnapshotStoreOptions) {
+    this.directory = options.directory;
+    this.retentionDays = options.retentionDays ?? DEFAULT_SNAPSHOT_RETENTION_DAYS;
+  }
+
+  async append(snapshot: Snapshot): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    const day = toDay(snapshot.timestamp);
+    await appendFile(
+      join(this.directory, `snapshots-${day}.jsonl`),
+      `${JSON.stringify(snapshot)}\n`,
+      'utf8'
+    );
+
+    if (this.lastPrunedDay !== day) {
+      this.lastPrunedDay = day;
+      await this.prune(snapshot.timestamp);
+    }
+  }
+
+  async query(query: SnapshotQuery = {}): Promise<Snapshot[]> {
+    const startDay = query.start !== undefined ? toDay(query.start) : undefined;
+    const endDay = query.end !== undefined ? toDay(query.end) : undefined;
+
+    const days = (await this.listDays()).filter(
+      (day) =>
+        (startDay === undefined || day >= startDay) && (endDay === undefined || day <= endDay)
+    );
+
+    const snapshots: Snapshot[] = [];
+    for (const day of days) {
+      for (const snapshot of await this.readDay(day)) {
+        if (matches(snapshot, query)) {
+          snapshots.push(snapshot);
+        }
+      }
+    }
+
+    return snapshots.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async latest(source: SnapshotSource): Promise<Snapshot | undefined> {
+    const days = await this.listDays();
+
+    // Walk back from the newest file until one contains the source
+    for (const day of days.reverse()) {
+      const snapshots = (await this.readDay(day)).filter((s) => s.source === source);
+      if (snapshots.length > 0) {
+        return snapshots.reduce((a, b) => (b.timestamp > a.timestamp ? b : a));
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Delete daily files older than the retention period
+   */
+  private async prune(now: number): Promise<void> {
+    if (this.retentionDays <= 0) {
+      return;
+    }
+
+    const cutoff = toDay(now - this.retentionDays * DAY_MS);
+    for (const day of await this.listDays()) {
+      if (day < cutoff) {
+        await unlink(join(this.directory, `snapshots-${day}.jsonl`)).catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Days with snapshot files, oldest first
+   */
+  private async listDays(): Promise<string[]> {
+    let names: string[];
+    try {
+      names = await readdir(this.directory);
+    } catch (error) {
+      if ((error as { code?: string } | undefined)?.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return names
+      .map((name) => FILE_PATTERN.exec(name)?.[1])
+      .filter((day): day is string => day !== undefined)
+      .sort();
+  }
+
+  /**
+   * Read one day's snapshots, skipping malformed lines (e.g. a torn write)
+   */
+  private async readDay(day: string): Promise<Snapshot[]> {
+    let raw: string;
+    try {
+      raw = await readFile(join(this.directory, `snapshots-${day}.jsonl`), 'utf8');
+    } catch (error) {
+      if ((error as { code?: string } | undefined)?.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const snapshots: Snapshot[] = [];
+    for (const line of raw.split('\n')) {
+      if (line.trim() === '') {
+        continue;
+      }
+      try {
+        snapshots.push(JSON.parse(line) as Snapshot);
+      } catch {
+        // Skip malformed line
+      }
+    }
+    return snapshots;
+  }
+}
+
+/**
+ * UTC calendar day (YYYY-MM-DD) of a timestamp
+ */
+function toDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
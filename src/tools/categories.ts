@@ -0,0 +1,21 @@
+/**
+ * Tool Categories
+ *
+ * Every MCP tool declares one category; categories can be enabled or disabled
+ * as a group at startup (see `selectTools()`).
+ */
+
+/**
+ * Tool categories for organization
+ */
+export enum ToolCategory {
+  Simple = 'simple', // No parameters (hashrate-stats, difficulty-stats)
+  Parameterized = 'parameterized', // Requires input (profitability-calculator)
+  Historical = 'historical', // Time-series data (hashrate-history)
+  Composite = 'composite', // Multi-endpoint aggregators
+}
+
+/**
+ * All tool categories, in registry order
+ */
+export const TOOL_CATEGORIES = Object.values(ToolCategory) as [ToolCategory, ...ToolCategory[]];
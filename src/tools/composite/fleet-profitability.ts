@@ -0,0 +1,624 @@
+/**
+ * MCP Composite Tool: braiins_fleet_profitability
+ *
+ * Profitability of a mixed ASIC fleet: machine groups (model, count, hashrate,
+ * power draw, site electricity price, uptime) evaluated against one shared
+ * network snapshot from:
+ * - Hashrate stats (hash price)
+ * - Price stats (BTC price)
+ * - Difficulty stats (estimated next adjustment)
+ *
+ * @category Composite Tool
+ * @see https://insights.braiins.com
+ */
+
+import { z } from 'zod';
+import type {
+  BraiinsInsightsDifficultyStats,
+  BraiinsInsightsHashrateStats,
+  BraiinsInsightsPriceStats,
+} from '../../types/insights-api.js';
+import {
+  InsightsApiClient,
+  InsightsApiError,
+  NetworkError,
+  ValidationError,
+} from '../../api/insights-client.js';
+import {
+  OUTPUT_FORMAT_PROPERTY,
+  buildToolResponse,
+  getOutputFormat,
+  toOutputSchema,
+} from '../../utils/output-format.js';
+import { ToolCategory } from '../categories.js';
+import type { MCPToolResponse } from '../index.js';
+
+/**
+ * Daily economics shared by machine groups, sites and the fleet total
+ */
+const FleetEconomicsSchema = z.object({
+  machines: z.number(),
+  effective_hashrate_ths: z.number().describe('Hashrate after uptime'),
+  power_kw: z.number().describe('Installed power draw'),
+  daily_energy_kwh: z.number().describe('Energy used per day after uptime'),
+  daily_revenue_usd: z.number(),
+  daily_revenue_btc: z.number(),
+  daily_cost_usd: z.number(),
+  daily_profit_usd: z.number(),
+  breakeven_electricity_usd_per_kwh: z
+    .number()
+    .nullable()
+    .describe('Power price at which daily profit is zero'),
+  breakeven_hashprice_usd_per_th_day: z
+    .number()
+    .nullable()
+    .describe('Hash price at which daily profit is zero'),
+  is_profitable: z.boolean(),
+});
+
+type FleetEconomics = z.infer<typeof FleetEconomicsSchema>;
+
+/**
+ * Structured output payload for fleet profitability
+ */
+const FleetProfitabilityOutputSchema = z.object({
+  network: z.object({
+    hashprice_usd_per_th_day: z.number(),
+    hashprice_sats_per_th_day: z.number(),
+    btc_price_usd: z.number(),
+    network_hashrate_ehs: z.number(),
+    difficulty: z.number(),
+    estimated_next_difficulty: z.number(),
+    estimated_adjustment_percent: z.number(),
+    estimated_adjustment_date: z.string(),
+    hashprice_after_adjustment_usd_per_th_day: z
+      .number()
+      .describe('Hash price if the estimated difficulty adjustment happens at today’s BTC price'),
+  }),
+  groups: z.array(
+    FleetEconomicsSchema.extend({
+      model: z.string(),
+      site: z.string().nullable(),
+      hashrate_ths_per_machine: z.number(),
+      power_watts_per_machine: z.number(),
+      efficiency_jth: z.number(),
+      electricity_cost_kwh: z.number(),
+      uptime_percent: z.number(),
+    })
+  ),
+  sites: z
+    .array(FleetEconomicsSchema.extend({ site: z.string() }))
+    .describe('Subtotals per site (empty when no group names a site)'),
+  total: FleetEconomicsSchema.extend({
+    daily_profit_after_adjustment_usd: z.number(),
+    monthly_profit_usd: z.number().describe('30 days at today’s conditions'),
+    annual_profit_usd: z.number().describe('365 days at today’s conditions'),
+  }),
+  timestamp: z.string(),
+});
+
+type FleetProfitabilityOutput = z.infer<typeof FleetProfitabilityOutputSchema>;
+
+/**
+ * Zod validation schema for one machine group
+ */
+const MachineGroupSchema = z.object({
+  model: z.string().trim().min(1, 'Model cannot be empty').max(100).describe('Machine model'),
+  count: z
+    .number()
+    .int('Count must be a whole number')
+    .min(1, 'Count must be at least 1')
+    .max(1_000_000, 'Count cannot exceed 1,000,000')
+    .describe('Number of machines'),
+  hashrate_ths: z
+    .number()
+    .positive('Hashrate must be positive')
+    .max(10_000, 'Hashrate unreasonably high (>10,000 TH/s per machine)')
+    .describe('Hashrate per machine in TH/s'),
+  power_watts: z
+    .number()
+    .positive('Power draw must be positive')
+    .max(100_000, 'Power draw unreasonably high (>100 kW per machine)')
+    .describe('Power draw per machine in watts'),
+  electricity_cost_kwh: z
+    .number()
+    .min(0, 'Electricity cost cannot be negative')
+    .max(1, 'Electricity cost unreasonably high (>$1/kWh)')
+    .describe('Site electricity cost in USD per kWh'),
+  uptime_percent: z
+    .number()
+    .min(0, 'Uptime cannot be negative')
+    .max(100, 'Uptime cannot exceed 100%')
+    .default(100)
+    .describe('Share of the day the machines hash'),
+  site: z.string().trim().min(1).max(100).optional().describe('Site name for subtotals'),
+});
+
+type MachineGroup = z.infer<typeof MachineGroupSchema>;
+
+/**
+ * Zod validation schema for fleet profitability input
+ */
+const FleetProfitabilityInputSchema = z.object({
+  groups: z
+    .array(MachineGroupSchema)
+    .min(1, 'At least one machine group is required')
+    .max(50, 'At most 50 machine groups are supported'),
+});
+
+/**
+ * Network snapshot shared by every machine group
+ */
+interface NetworkSnapshot {
+  hashrate: BraiinsInsightsHashrateStats;
+  difficulty: BraiinsInsightsDifficultyStats;
+  price: BraiinsInsightsPriceStats;
+}
+
+/**
+ * Satoshis per bitcoin
+ */
+const SATS_PER_BTC = 100_000_000;
+
+/**
+ * Fleet Profitability Tool
+ *
+ * Composite tool that evaluates every machine group against the same network
+ * snapshot, so groups, sites and the fleet total are directly comparable.
+ */
+export class FleetProfitabilityTool {
+  /** MCP tool name */
+  readonly name = 'braiins_fleet_profitability';
+
+  /** Tool description shown to LLM */
+  readonly description =
+    'Calculate profitability of a mixed ASIC fleet. Takes machine groups (model, count, ' +
+    'hashrate, power draw, site electricity price, uptime) and returns per-group, per-site ' +
+    'and total daily revenue, electricity cost, profit, break-even power price and break-even ' +
+    'hash price, all from one shared snapshot of hash price, BTC price and difficulty.';
+
+  /** Tool category */
+  readonly category = ToolCategory.Composite;
+
+  /** Tags for tool discovery */
+  readonly tags = ['profitability', 'hardware', 'electricity', 'hashprice', 'fleet'];
+
+  /** Upstream API endpoints the tool calls */
+  readonly endpoints = ['/v1.0/hashrate-stats', '/v1.0/difficulty-stats', '/v1.0/price-stats'];
+
+  /** JSON schema for tool inputs */
+  readonly inputSchema = {
+    type: 'object' as const,
+    properties: {
+      groups: {
+        type: 'array',
+        description: 'Machine groups in the fleet (1-50)',
+        minItems: 1,
+        maxItems: 50,
+        items: {
+          type: 'object',
+          properties: {
+            model: {
+              type: 'string',
+              description: 'Machine model (e.g., "Antminer S21")',
+            },
+            count: {
+              type: 'number',
+              description: 'Number of machines',
+              minimum: 1,
+            },
+            hashrate_ths: {
+              type: 'number',
+              description: 'Hashrate per machine in TH/s (e.g., Antminer S21: 200)',
+              exclusiveMinimum: 0,
+            },
+            power_watts: {
+              type: 'number',
+              description: 'Power draw per machine in watts (e.g., Antminer S21: 3500)',
+              exclusiveMinimum: 0,
+            },
+            electricity_cost_kwh: {
+              type: 'number',
+              description: 'Site electricity cost in USD per kilowatt-hour',
+              minimum: 0,
+              maximum: 1,
+            },
+            uptime_percent: {
+              type: 'number',
+              description: 'Share of the day the machines hash (default: 100)',
+              minimum: 0,
+              maximum: 100,
+              default: 100,
+            },
+            site: {
+              type: 'string',
+              description: 'Optional: site name, used for per-site subtotals',
+            },
+          },
+          required: ['model', 'count', 'hashrate_ths', 'power_watts', 'electricity_cost_kwh'],
+        },
+      },
+      format: OUTPUT_FORMAT_PROPERTY,
+    },
+    required: ['groups'],
+  };
+
+  /** JSON schema for structured output */
+  readonly outputSchema = toOutputSchema(FleetProfitabilityOutputSchema);
+
+  constructor(private readonly apiClient: InsightsApiClient) {}
+
+  /**
+   * Execute the tool
+   *
+   * @param input - Machine groups and output format
+   * @returns MCP response with formatted markdown and/or structured JSON
+   */
+  async execute(input: unknown): Promise<MCPToolResponse> {
+    try {
+      const { groups } = FleetProfitabilityInputSchema.parse(input);
+      const format = getOutputFormat(input);
+
+      // One snapshot for all groups, so every figure uses the same network state
+      const [hashrate, difficulty, price] = await Promise.all([
+        this.apiClient.getHashrateStats(),
+        this.apiClient.getDifficultyStats(),
+        this.apiClient.getPriceStats(),
+      ]);
+
+      const output = this.toStructuredContent(groups, { hashrate, difficulty, price });
+
+      return buildToolResponse(format, this.formatAsMarkdown(output), output);
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Evaluate every group against the snapshot and build the structured payload
+   */
+  private toStructuredContent(
+    groups: MachineGroup[],
+    snapshot: NetworkSnapshot
+  ): FleetProfitabilityOutput {
+    const hashprice = snapshot.hashrate.hash_price;
+    const btcPrice = snapshot.price.price;
+    const { difficulty, estimated_next_diff: nextDifficulty } = snapshot.difficulty;
+    // Revenue per hash scales inversely with difficulty
+    const hashpriceAfterAdjustment =
+      nextDifficulty > 0 ? (hashprice * difficulty) / nextDifficulty : hashprice;
+
+    const groupResults = groups.map((group) => {
+      const uptime = group.uptime_percent / 100;
+      const effectiveHashrate = group.count * group.hashrate_ths * uptime;
+      const powerKw = (group.count * group.power_watts) / 1000;
+      const dailyEnergy = powerKw * 24 * uptime;
+
+      return {
+        model: group.model,
+        site: group.site ?? null,
+        hashrate_ths_per_machine: group.hashrate_ths,
+        power_watts_per_machine: group.power_watts,
+        efficiency_jth: group.power_watts / group.hashrate_ths,
+        electricity_cost_kwh: group.electricity_cost_kwh,
+        uptime_percent: group.uptime_percent,
+        ...this.summarize(
+          [
+            {
+              machines: group.count,
+              effectiveHashrate,
+              powerKw,
+              dailyEnergy,
+              dailyCost: dailyEnergy * group.electricity_cost_kwh,
+            },
+          ],
+          hashprice,
+          btcPrice
+        ),
+      };
+    });
+
+    const totals = (results: typeof groupResults): FleetEconomics =>
+      this.summarize(
+        results.map((result) => ({
+          machines: result.machines,
+          effectiveHashrate: result.effective_hashrate_ths,
+          powerKw: result.power_kw,
+          dailyEnergy: result.daily_energy_kwh,
+          dailyCost: result.daily_cost_usd,
+        })),
+        hashprice,
+        btcPrice
+      );
+
+    const siteNames = [
+      ...new Set(groupResults.flatMap((result) => (result.site !== null ? [result.site] : []))),
+    ];
+    const sites = siteNames.map((site) => ({
+      site,
+      ...totals(groupResults.filter((result) => result.site === site)),
+    }));
+
+    const total = totals(groupResults);
+
+    return {
+      network: {
+        hashprice_usd_per_th_day: hashprice,
+        hashprice_sats_per_th_day: btcPrice > 0 ? (hashprice / btcPrice) * SATS_PER_BTC : 0,
+        btc_price_usd: btcPrice,
+        network_hashrate_ehs: snapshot.hashrate.current_hashrate,
+        difficulty,
+        estimated_next_difficulty: nextDifficulty,
+        estimated_adjustment_percent: snapshot.difficulty.estimated_adjustment * 100,
+        estimated_adjustment_date: snapshot.difficulty.estimated_adjustment_date,
+        hashprice_after_adjustment_usd_per_th_day: hashpriceAfterAdjustment,
+      },
+      groups: groupResults,
+      sites,
+      total: {
+        ...total,
+        daily_profit_after_adjustment_usd:
+          total.effective_hashrate_ths * hashpriceAfterAdjustment - total.daily_cost_usd,
+        monthly_profit_usd: total.daily_profit_usd * 30,
+        annual_profit_usd: total.daily_profit_usd * 365,
+      },
+      timestamp: snapshot.price.timestamp,
+    };
+  }
+
+  /**
+   * Daily economics of one or more machine groups at the given hash price
+   *
+   * Break-even figures are for the combined groups: the uniform power price and
+   * the hash price at which their total profit is zero.
+   */
+  private summarize(
+    parts: Array<{
+      machines: number;
+      effectiveHashrate: number;
+      powerKw: number;
+      dailyEnergy: number;
+      dailyCost: number;
+    }>,
+    hashprice: number,
+    btcPrice: number
+  ): FleetEconomics {
+    const sum = (pick: (part: (typeof parts)[number]) => number): number =>
+      parts.reduce((total, part) => total + pick(part), 0);
+
+    const effectiveHashrate = sum((part) => part.effectiveHashrate);
+    const dailyEnergy = sum((part) => part.dailyEnergy);
+    const dailyCost = sum((part) => part.dailyCost);
+    const dailyRevenue = effectiveHashrate * hashprice;
+    const dailyProfit = dailyRevenue - dailyCost;
+
+    return {
+      machines: sum((part) => part.machines),
+      effective_hashrate_ths: effectiveHashrate,
+      power_kw: sum((part) => part.powerKw),
+      daily_energy_kwh: dailyEnergy,
+      daily_revenue_usd: dailyRevenue,
+      daily_revenue_btc: btcPrice > 0 ? dailyRevenue / btcPrice : 0,
+      daily_cost_usd: dailyCost,
+      daily_profit_usd: dailyProfit,
+      breakeven_electricity_usd_per_kwh: dailyEnergy > 0 ? dailyRevenue / dailyEnergy : null,
+      breakeven_hashprice_usd_per_th_day:
+        effectiveHashrate > 0 ? dailyCost / effectiveHashrate : null,
+      is_profitable: dailyProfit > 0,
+    };
+  }
+
+  /**
+   * Format fleet profitability as markdown for LLM consumption
+   */
+  private formatAsMarkdown(output: FleetProfitabilityOutput): string {
+    const { network, total } = output;
+    const sections: string[] = [];
+
+    sections.push('# 🏭 Mining Fleet Profitability\n');
+
+    sections.push('## Network Snapshot\n');
+    sections.push(
+      `- **Hash Price:** $${network.hashprice_usd_per_th_day.toFixed(4)}/TH/day ` +
+        `(${network.hashprice_sats_per_th_day.toFixed(0)} sats/TH/day)`
+    );
+    sections.push(`- **BTC Price:** $${this.formatCurrency(network.btc_price_usd)}`);
+    sections.push(`- **Network Hashrate:** ${network.network_hashrate_ehs.toFixed(2)} EH/s`);
+    sections.push(
+      `- **Difficulty:** ${network.difficulty.toExponential(2)} → ` +
+        `${network.estimated_next_difficulty.toExponential(2)} ` +
+        `(${this.formatSigned(network.estimated_adjustment_percent)}% est. ${this.formatDate(network.estimated_adjustment_date)})`
+    );
+
+    sections.push(`\n## Fleet Total ${total.is_profitable ? '✅' : '❌'}\n`);
+    sections.push(
+      `- **Machines:** ${total.machines.toLocaleString('en-US')} ` +
+        `(${this.formatHashrate(total.effective_hashrate_ths)} effective, ${total.power_kw.toFixed(1)} kW installed)`
+    );
+    sections.push(
+      `- **Daily Revenue:** $${this.formatCurrency(total.daily_revenue_usd)} ` +
+        `(${total.daily_revenue_btc.toFixed(8)} BTC)`
+    );
+    sections.push(`- **Daily Electricity Cost:** $${this.formatCurrency(total.daily_cost_usd)}`);
+    sections.push(`- **Daily Profit:** ${this.formatSignedCurrency(total.daily_profit_usd)}`);
+    sections.push(
+      `- **Monthly / Annual Profit:** ${this.formatSignedCurrency(total.monthly_profit_usd)} / ` +
+        `${this.formatSignedCurrency(total.annual_profit_usd)}`
+    );
+    sections.push(
+      `- **Break-even Power Price:** ${this.formatRate(total.breakeven_electricity_usd_per_kwh, '/kWh')}`
+    );
+    sections.push(
+      `- **Break-even Hash Price:** ${this.formatRate(total.breakeven_hashprice_usd_per_th_day, '/TH/day')}`
+    );
+    sections.push(
+      `- **After Next Difficulty Adjustment:** ${this.formatSignedCurrency(total.daily_profit_after_adjustment_usd)}/day ` +
+        `(hash price $${network.hashprice_after_adjustment_usd_per_th_day.toFixed(4)}/TH/day)`
+    );
+
+    sections.push('\n## Machine Groups\n');
+    sections.push(
+      '| Model | Site | Count | J/TH | Power $/kWh | Uptime | Revenue/day | Cost/day | Profit/day | Break-even $/kWh | Break-even Hash Price |'
+    );
+    sections.push(
+      '|-------|------|-------|------|-------------|--------|-------------|----------|------------|------------------|-----------------------|'
+    );
+    for (const group of output.groups) {
+      sections.push(
+        `| ${group.is_profitable ? '✅' : '❌'} ${group.model} | ${group.site ?? '–'} | ${group.machines.toLocaleString('en-US')} | ` +
+          `${group.efficiency_jth.toFixed(1)} | $${group.electricity_cost_kwh.toFixed(4)} | ${group.uptime_percent}% | ` +
+          `$${this.formatCurrency(group.daily_revenue_usd)} | $${this.formatCurrency(group.daily_cost_usd)} | ` +
+          `${this.formatSignedCurrency(group.daily_profit_usd)} | ${this.formatRate(group.breakeven_electricity_usd_per_kwh, '')} | ` +
+          `${this.formatRate(group.breakeven_hashprice_usd_per_th_day, '')} |`
+      );
+    }
+
+    if (output.sites.length > 0) {
+      sections.push('\n## Sites\n');
+      sections.push(
+        '| Site | Machines | Hashrate | Revenue/day | Cost/day | Profit/day | Break-even $/kWh |'
+      );
+      sections.push(
+        '|------|----------|----------|-------------|----------|------------|------------------|'
+      );
+      for (const site of output.sites) {
+        sections.push(
+          `| ${site.site} | ${site.machines.toLocaleString('en-US')} | ${this.formatHashrate(site.effective_hashrate_ths)} | ` +
+            `$${this.formatCurrency(site.daily_revenue_usd)} | $${this.formatCurrency(site.daily_cost_usd)} | ` +
+            `${this.formatSignedCurrency(site.daily_profit_usd)} | ${this.formatRate(site.breakeven_electricity_usd_per_kwh, '')} |`
+        );
+      }
+    }
+
+    const losing = output.groups.filter((group) => !group.is_profitable);
+    if (losing.length > 0) {
+      sections.push(
+        `\n⚠️ **${losing.length} group(s) losing money at current conditions:** ` +
+          losing.map((group) => group.model + (group.site ? ` (${group.site})` : '')).join(', ') +
+          '. Consider curtailing them or moving them to cheaper power.'
+      );
+    }
+
+    sections.push('\n---\n');
+    sections.push(
+      `*Data from [Braiins Insights Dashboard](https://insights.braiins.com) as of ${output.timestamp}. ` +
+        'Revenue excludes pool fees; figures assume today’s hash price for the whole day.*'
+    );
+
+    return sections.join('\n');
+  }
+
+  /**
+   * Format a break-even rate, or a dash when undefined (no energy or hashrate)
+   */
+  private formatRate(value: number | null, unit: string): string {
+    return value !== null ? `$${value.toFixed(4)}${unit}` : '–';
+  }
+
+  /**
+   * Format hashrate in TH/s or PH/s
+   */
+  private formatHashrate(ths: number): string {
+    return ths >= 1000 ? `${(ths / 1000).toFixed(2)} PH/s` : `${ths.toFixed(1)} TH/s`;
+  }
+
+  /**
+   * Format a signed USD amount
+   */
+  private formatSignedCurrency(value: number): string {
+    return `${value < 0 ? '-' : '+'}$${this.formatCurrency(Math.abs(value))}`;
+  }
+
+  /**
+   * Format a signed percentage value
+   */
+  private formatSigned(value: number): string {
+    return `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+  }
+
+  /**
+   * Format an ISO date as a short date
+   */
+  private formatDate(isoString: string): string {
+    const date = new Date(isoString);
+    return isNaN(date.getTime())
+      ? isoString
+      : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  }
+
+  /**
+   * Format currency with thousands separators
+   */
+  private formatCurrency(value: number): string {
+    return value.toLocaleString('en-US', {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+  }
+
+  /**
+   * Handle errors and return MCP error response
+   */
+  private handleError(error: unknown): MCPToolResponse {
+    if (error instanceof z.ZodError) {
+      const errorMessages = error.issues.map(
+        (err: z.ZodIssue) => `- ${err.path.join('.')}: ${err.message}`
+      );
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Validation Error**: Invalid input parameters\n\n${errorMessages.join('\n')}\n\n**Each group requires:** model, count, hashrate_ths, power_watts, electricity_cost_kwh (optional: uptime_percent, site)`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof ValidationError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Validation Error**: ${error.message}\n\nThe Braiins Insights API returned unexpected data.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof InsightsApiError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **API Error**: ${error.message}\n\nStatus: ${error.statusCode}\n\nPlease try again later or check the Braiins Insights API status.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof NetworkError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Network Error**: Could not reach Braiins Insights API\n\nDetails: ${error.message}\n\nPlease check your internet connection.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `❌ **Unexpected Error**: ${error instanceof Error ? error.message : String(error)}\n\nPlease report this issue if it persists.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -10,3 +10,5 @@
 export { MiningOverviewTool } from './mining-overview.js';
 export { ProfitabilityDeepDiveTool } from './profitability-deep-dive.js';
 export { NetworkHealthMonitorTool } from './network-health-monitor.js';
+export { FleetProfitabilityTool } from './fleet-profitability.js';
+export { MiningMonteCarloTool } from './mining-monte-carlo.js';
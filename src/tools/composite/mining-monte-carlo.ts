@@ -0,0 +1,837 @@
+/**
+ * MCP Composite Tool: braiins_mining_monte_carlo
+ *
+ * Monte Carlo projection of a mining operation's returns over thousands of BTC
+ * price and difficulty paths, for downside analysis. Starting conditions and
+ * market models come from:
+ * - Price stats (BTC price)
+ * - Difficulty stats (difficulty)
+ * - Hashrate stats (fees share of miner revenue)
+ * - Halvings (block height and next halving date)
+ * - Daily revenue history (BTC price volatility)
+ * - Hashrate and difficulty history (difficulty growth and volatility)
+ *
+ * @category Composite Tool
+ * @see https://insights.braiins.com
+ */
+
+import { z } from 'zod';
+import type {
+  BraiinsInsightsDailyRevenue,
+  BraiinsInsightsHashDiffHistory,
+} from '../../types/insights-api.js';
+import {
+  InsightsApiClient,
+  InsightsApiError,
+  NetworkError,
+  ValidationError,
+} from '../../api/insights-client.js';
+import {
+  BLOCKS_PER_DAY,
+  NetworkInputs,
+  blockSubsidy,
+  feesPerBlockFromShare,
+} from '../../economics/mining-engine.js';
+import {
+  GrowthModel,
+  MonteCarloResult,
+  PERCENTILES,
+  estimateGrowthModel,
+  simulateMiningReturns,
+} from '../../economics/monte-carlo.js';
+import {
+  OUTPUT_FORMAT_PROPERTY,
+  buildToolResponse,
+  getOutputFormat,
+  toOutputSchema,
+} from '../../utils/output-format.js';
+import { ToolCategory } from '../categories.js';
+import type { MCPToolResponse } from '../index.js';
+
+/**
+ * Where a market model parameter came from
+ */
+const MODEL_SOURCES = ['input', 'history', 'default'] as const;
+
+type ModelSource = (typeof MODEL_SOURCES)[number];
+
+/**
+ * Market models used when neither the caller nor the history endpoints provide one
+ */
+const DEFAULT_MODELS: Record<'price' | 'difficulty', GrowthModel> = {
+  price: { yearlyChange: 0, volatility: 0.6 },
+  difficulty: { yearlyChange: 0.02, volatility: 0.1 },
+};
+
+/**
+ * History used to estimate volatility (most recent year)
+ */
+const HISTORY_WINDOW_MS = 365 * 86_400_000;
+
+/**
+ * Percentile columns of the structured output
+ */
+const PercentileBandSchema = z.object({
+  p5: z.number(),
+  p25: z.number(),
+  p50: z.number(),
+  p75: z.number(),
+  p95: z.number(),
+});
+
+/**
+ * Market model of one simulated variable
+ */
+const MarketModelSchema = z.object({
+  yearly_change_rate: z.number().describe('Expected change per year as decimal'),
+  yearly_change_source: z.enum(MODEL_SOURCES),
+  volatility: z.number().describe('Annualized volatility as decimal'),
+  volatility_source: z.enum(MODEL_SOURCES),
+});
+
+/**
+ * Structured output payload for the Monte Carlo projection
+ */
+const MiningMonteCarloOutputSchema = z.object({
+  inputs: z.object({
+    hashrate_ths: z.number(),
+    consumption_watts: z.number(),
+    electricity_price_per_kwh: z.number(),
+    revenue_fees_rate: z.number(),
+    uptime_percent: z.number(),
+    monthly_fixed_opex: z.number(),
+    capex: z.number(),
+    horizon_months: z.number(),
+    simulations: z.number(),
+    seed: z.number().describe('Rerun with this seed to reproduce the result'),
+  }),
+  assumptions: z.object({
+    btc_price_usd: z.number(),
+    difficulty: z.number(),
+    block_height: z.number(),
+    block_subsidy_btc: z.number(),
+    fees_per_block_btc: z.number(),
+    price: MarketModelSchema,
+    difficulty_model: MarketModelSchema,
+    next_halving_date: z.string().nullable(),
+    halving_in_days: z.number().nullable(),
+    halving_difficulty_change: z.number(),
+  }),
+  cumulative_profit_bands: z
+    .array(PercentileBandSchema.extend({ month: z.number(), day: z.number(), date: z.string() }))
+    .describe('Cumulative profit less capex at the end of each month, by percentile'),
+  final_profit: PercentileBandSchema.extend({ mean: z.number() }).describe(
+    'Cumulative profit less capex at the horizon'
+  ),
+  probability_of_loss: z.number().describe('Share of paths ending below zero after capex'),
+  payback: z.object({
+    probability_within_horizon: z.number(),
+    percentiles: z.array(
+      z.object({
+        percentile: z.number(),
+        days: z.number().nullable().describe('null: not paid back within the horizon'),
+        date: z.string().nullable(),
+      })
+    ),
+  }),
+  median_final_btc_price_usd: z.number(),
+  median_final_difficulty: z.number(),
+  timestamp: z.string(),
+});
+
+export type MiningMonteCarloOutput = z.infer<typeof MiningMonteCarloOutputSchema>;
+
+/**
+ * Zod validation schema for Monte Carlo input
+ */
+const MiningMonteCarloInputSchema = z.object({
+  hashrate_ths: z
+    .number()
+    .positive('Hashrate must be positive')
+    .max(10_000_000, 'Hashrate unreasonably high (>10 EH/s)')
+    .describe('Total hashrate in TH/s'),
+  consumption_watts: z
+    .number()
+    .positive('Power consumption must be positive')
+    .describe('Total power draw in watts'),
+  electricity_price_per_kwh: z
+    .number()
+    .min(0, 'Electricity price cannot be negative')
+    .max(1, 'Electricity price unreasonably high (>$1/kWh)')
+    .describe('Electricity cost in USD per kWh'),
+  revenue_fees_rate: z.number().min(0).max(1).default(0.02).describe('Pool fee rate as decimal'),
+  uptime_percent: z
+    .number()
+    .min(0, 'Uptime cannot be negative')
+    .max(100, 'Uptime cannot exceed 100%')
+    .default(100)
+    .describe('Share of the day the hardware hashes'),
+  monthly_fixed_opex: z
+    .number()
+    .min(0, 'Opex cannot be negative')
+    .default(0)
+    .describe('Fixed operating expenses in USD per month'),
+  capex: z
+    .number()
+    .min(0, 'Capex cannot be negative')
+    .default(0)
+    .describe('Up-front hardware cost in USD'),
+  horizon_months: z.number().int().min(1).max(60).default(24).describe('Months to simulate'),
+  simulations: z
+    .number()
+    .int()
+    .min(100, 'At least 100 simulations are required')
+    .max(10_000, 'At most 10,000 simulations are supported')
+    .default(2000)
+    .describe('Number of simulated paths'),
+  yearly_price_change_rate: z
+    .number()
+    .min(-0.9)
+    .max(10)
+    .default(0)
+    .describe('Expected BTC price change per year as decimal'),
+  price_volatility: z
+    .number()
+    .min(0)
+    .max(5)
+    .optional()
+    .describe('Annualized BTC price volatility (default: estimated from history)'),
+  yearly_difficulty_change_rate: z
+    .number()
+    .min(-0.9)
+    .max(10)
+    .optional()
+    .describe('Expected difficulty change per year (default: estimated from history)'),
+  difficulty_volatility: z
+    .number()
+    .min(0)
+    .max(5)
+    .optional()
+    .describe('Annualized difficulty volatility (default: estimated from history)'),
+  halving_difficulty_change: z
+    .number()
+    .min(-0.9)
+    .max(1)
+    .default(0)
+    .describe('Difficulty change at the halving as decimal'),
+  seed: z.number().int().min(0).max(4_294_967_295).optional().describe('Random seed'),
+});
+
+type MiningMonteCarloInput = z.infer<typeof MiningMonteCarloInputSchema>;
+
+/**
+ * Mining Monte Carlo Tool
+ *
+ * Composite tool that seeds the Monte Carlo engine with current network
+ * conditions and market models estimated from history, then reports the
+ * distribution of outcomes.
+ */
+export class MiningMonteCarloTool {
+  /** MCP tool name */
+  readonly name = 'braiins_mining_monte_carlo';
+
+  /** Tool description shown to LLM */
+  readonly description =
+    'Monte Carlo projection of mining returns. Simulates thousands of BTC price and ' +
+    'difficulty paths (volatility estimated from history or supplied), including the next ' +
+    'halving, and reports percentile bands of cumulative profit after capex, payback dates ' +
+    'and the probability of loss. Use this for downside cases and lender questions.';
+
+  /** Tool category */
+  readonly category = ToolCategory.Composite;
+
+  /** Tags for tool discovery */
+  readonly tags = ['profitability', 'projection', 'risk', 'halving'];
+
+  /** Upstream API endpoints the tool calls */
+  readonly endpoints = [
+    '/v1.0/price-stats',
+    '/v1.0/difficulty-stats',
+    '/v1.0/hashrate-stats',
+    '/v2.0/halvings',
+    '/v1.0/daily-revenue-history',
+    '/v1.0/hashrate-and-difficulty-history',
+  ];
+
+  /** JSON schema for tool inputs */
+  readonly inputSchema = {
+    type: 'object' as const,
+    properties: {
+      hashrate_ths: {
+        type: 'number',
+        description: 'Total hashrate in TH/s (e.g., 10 × Antminer S21: 2000)',
+        exclusiveMinimum: 0,
+      },
+      consumption_watts: {
+        type: 'number',
+        description: 'Total power draw in watts (e.g., 10 × Antminer S21: 35000)',
+        exclusiveMinimum: 0,
+      },
+      electricity_price_per_kwh: {
+        type: 'number',
+        description: 'Electricity cost in USD per kWh',
+        minimum: 0,
+        maximum: 1,
+      },
+      revenue_fees_rate: {
+        type: 'number',
+        description: 'Pool fee rate as decimal (default: 0.02 = 2%)',
+        minimum: 0,
+        maximum: 1,
+      },
+      uptime_percent: {
+        type: 'number',
+        description: 'Share of the day the hardware hashes (default: 100)',
+        minimum: 0,
+        maximum: 100,
+      },
+      monthly_fixed_opex: {
+        type: 'number',
+        description: 'Fixed operating expenses in USD per month (default: 0)',
+        minimum: 0,
+      },
+      capex: {
+        type: 'number',
+        description: 'Up-front hardware cost in USD, recovered before payback (default: 0)',
+        minimum: 0,
+      },
+      horizon_months: {
+        type: 'number',
+        description: 'Months to simulate (default: 24)',
+        minimum: 1,
+        maximum: 60,
+      },
+      simulations: {
+        type: 'number',
+        description: 'Number of simulated paths (default: 2000)',
+        minimum: 100,
+        maximum: 10000,
+      },
+      yearly_price_change_rate: {
+        type: 'number',
+        description: 'Expected BTC price change per year as decimal (default: 0)',
+        minimum: -0.9,
+        maximum: 10,
+      },
+      price_volatility: {
+        type: 'number',
+        description:
+          'Annualized BTC price volatility as decimal, e.g. 0.6 (default: estimated from the ' +
+          'last year of daily revenue history)',
+        minimum: 0,
+        maximum: 5,
+      },
+      yearly_difficulty_change_rate: {
+        type: 'number',
+        description:
+          'Expected difficulty change per year as decimal (default: estimated from the last ' +
+          'year of difficulty history)',
+        minimum: -0.9,
+        maximum: 10,
+      },
+      difficulty_volatility: {
+        type: 'number',
+        description:
+          'Annualized difficulty volatility as decimal (default: estimated from difficulty history)',
+        minimum: 0,
+        maximum: 5,
+      },
+      halving_difficulty_change: {
+        type: 'number',
+        description: 'Difficulty change at the halving as decimal, e.g. -0.1 (default: 0)',
+        minimum: -0.9,
+        maximum: 1,
+      },
+      seed: {
+        type: 'number',
+        description: 'Random seed; the same seed and inputs reproduce the same result',
+        minimum: 0,
+      },
+      format: OUTPUT_FORMAT_PROPERTY,
+    },
+    required: ['hashrate_ths', 'consumption_watts', 'electricity_price_per_kwh'],
+  };
+
+  /** JSON schema for structured output */
+  readonly outputSchema = toOutputSchema(MiningMonteCarloOutputSchema);
+
+  constructor(private readonly apiClient: InsightsApiClient) {}
+
+  /**
+   * Execute the tool
+   *
+   * @param input - Operation, horizon and market model parameters
+   * @returns MCP response with formatted markdown and/or structured JSON
+   */
+  async execute(input: unknown): Promise<MCPToolResponse> {
+    try {
+      const params = MiningMonteCarloInputSchema.parse(input);
+      const format = getOutputFormat(input);
+      const now = new Date();
+
+      // History is only needed for the models the caller leaves out; without it the
+      // defaults are used
+      const [price, difficulty, hashrate, halvings, revenueHistory, difficultyHistory] =
+        await Promise.all([
+          this.apiClient.getPriceStats(),
+          this.apiClient.getDifficultyStats(),
+          this.apiClient.getHashrateStats(),
+          this.apiClient.getHalvings(),
+          params.price_volatility === undefined
+            ? this.apiClient.getDailyRevenueHistory().catch(() => [])
+            : [],
+          params.difficulty_volatility === undefined ||
+          params.yearly_difficulty_change_rate === undefined
+            ? this.apiClient.getHashrateAndDifficultyHistory().catch(() => [])
+            : [],
+        ]);
+
+      const blockHeight = halvings.next_halving_block - halvings.blocks_until_halving;
+      const network: NetworkInputs = {
+        price: price.price,
+        difficulty: difficulty.difficulty,
+        blockHeight,
+        feesPerBlock: feesPerBlockFromShare(blockSubsidy(blockHeight), hashrate.fees_percent),
+        timestamp: price.timestamp,
+      };
+      const halvingTime = Date.parse(halvings.next_halving_date);
+      const halvingInDays = Number.isNaN(halvingTime)
+        ? halvings.blocks_until_halving / BLOCKS_PER_DAY
+        : Math.max(0, (halvingTime - now.getTime()) / 86_400_000);
+
+      const priceModel = this.resolveModel(
+        { yearlyChange: params.yearly_price_change_rate, volatility: params.price_volatility },
+        estimateGrowthModel(this.toPriceSeries(revenueHistory)),
+        DEFAULT_MODELS.price,
+        false
+      );
+      const difficultyModel = this.resolveModel(
+        {
+          yearlyChange: params.yearly_difficulty_change_rate,
+          volatility: params.difficulty_volatility,
+        },
+        estimateGrowthModel(this.toDifficultySeries(difficultyHistory)),
+        DEFAULT_MODELS.difficulty,
+        true
+      );
+
+      const seed = params.seed ?? Math.floor(Math.random() * 4_294_967_296);
+      const horizonDays = Math.round((params.horizon_months * 365) / 12);
+      const result = simulateMiningReturns({
+        setup: {
+          hashrateThs: params.hashrate_ths,
+          powerWatts: params.consumption_watts,
+          electricityPriceKwh: params.electricity_price_per_kwh,
+          poolFeeRate: params.revenue_fees_rate,
+          uptime: params.uptime_percent / 100,
+          monthlyOpex: params.monthly_fixed_opex,
+        },
+        network,
+        capex: params.capex,
+        horizonDays,
+        simulations: params.simulations,
+        price: priceModel.model,
+        difficulty: difficultyModel.model,
+        halvingInDays,
+        halvingDifficultyChange: params.halving_difficulty_change,
+        checkpoints: Array.from({ length: params.horizon_months }, (_, index) =>
+          Math.round(((index + 1) * 365) / 12)
+        ),
+        seed,
+      });
+
+      const output = this.toStructuredContent(params, seed, now, result, {
+        network,
+        priceModel,
+        difficultyModel,
+        nextHalvingDate: Number.isNaN(halvingTime) ? null : halvings.next_halving_date,
+        halvingInDays,
+      });
+
+      return buildToolResponse(format, this.formatAsMarkdown(output), output);
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Combine caller-supplied, estimated and default model parameters
+   *
+   * @param useHistoryChange - Whether the history's growth rate may be used (the
+   *   price trend is too regime-dependent to extrapolate, so only its volatility is)
+   */
+  private resolveModel(
+    supplied: { yearlyChange?: number; volatility?: number },
+    estimated: GrowthModel | null,
+    fallback: GrowthModel,
+    useHistoryChange: boolean
+  ): { model: GrowthModel; yearlyChangeSource: ModelSource; volatilitySource: ModelSource } {
+    const pick = (
+      value: number | undefined,
+      historical: number | undefined,
+      defaultValue: number
+    ): [number, ModelSource] => {
+      if (value !== undefined) {
+        return [value, 'input'];
+      }
+      return historical !== undefined ? [historical, 'history'] : [defaultValue, 'default'];
+    };
+
+    const [yearlyChange, yearlyChangeSource] = pick(
+      supplied.yearlyChange,
+      useHistoryChange ? estimated?.yearlyChange : undefined,
+      fallback.yearlyChange
+    );
+    const [volatility, volatilitySource] = pick(
+      supplied.volatility,
+      estimated?.volatility,
+      fallback.volatility
+    );
+
+    return { model: { yearlyChange, volatility }, yearlyChangeSource, volatilitySource };
+  }
+
+  /**
+   * BTC price series implied by daily revenue history (revenue over BTC earned)
+   */
+  private toPriceSeries(
+    history: BraiinsInsightsDailyRevenue[]
+  ): Array<{ time: number; value: number }> {
+    const series = history.flatMap((day) => {
+      const btc = (day.block_rewards_btc ?? 0) + (day.fees_btc ?? 0);
+      const time = Date.parse(day.date);
+      return btc > 0 && !Number.isNaN(time) ? [{ time, value: day.revenue_usd / btc }] : [];
+    });
+    return this.recentYear(series);
+  }
+
+  /**
+   * Difficulty series from hashrate and difficulty history
+   */
+  private toDifficultySeries(
+    history: BraiinsInsightsHashDiffHistory[]
+  ): Array<{ time: number; value: number }> {
+    const series = history.flatMap((point) => {
+      const time = Date.parse(point.timestamp);
+      return Number.isNaN(time) ? [] : [{ time, value: point.difficulty }];
+    });
+    return this.recentYear(series);
+  }
+
+  /**
+   * Sort a series by time and keep its most recent year
+   */
+  private recentYear(
+    series: Array<{ time: number; value: number }>
+  ): Array<{ time: number; value: number }> {
+    const sorted = [...series].sort((a, b) => a.time - b.time);
+    const latest = sorted[sorted.length - 1]?.time ?? 0;
+    return sorted.filter((point) => point.time >= latest - HISTORY_WINDOW_MS);
+  }
+
+  /**
+   * Build the structured output payload from the simulation result
+   */
+  private toStructuredContent(
+    params: MiningMonteCarloInput,
+    seed: number,
+    now: Date,
+    result: MonteCarloResult,
+    context: {
+      network: NetworkInputs;
+      priceModel: ReturnType<MiningMonteCarloTool['resolveModel']>;
+      difficultyModel: ReturnType<MiningMonteCarloTool['resolveModel']>;
+      nextHalvingDate: string | null;
+      halvingInDays: number;
+    }
+  ): MiningMonteCarloOutput {
+    const dateAfter = (days: number): string =>
+      new Date(now.getTime() + days * 86_400_000).toISOString().slice(0, 10);
+    const toModel = (
+      resolved: ReturnType<MiningMonteCarloTool['resolveModel']>
+    ): z.infer<typeof MarketModelSchema> => ({
+      yearly_change_rate: resolved.model.yearlyChange,
+      yearly_change_source: resolved.yearlyChangeSource,
+      volatility: resolved.model.volatility,
+      volatility_source: resolved.volatilitySource,
+    });
+
+    return {
+      inputs: {
+        hashrate_ths: params.hashrate_ths,
+        consumption_watts: params.consumption_watts,
+        electricity_price_per_kwh: params.electricity_price_per_kwh,
+        revenue_fees_rate: params.revenue_fees_rate,
+        uptime_percent: params.uptime_percent,
+        monthly_fixed_opex: params.monthly_fixed_opex,
+        capex: params.capex,
+        horizon_months: params.horizon_months,
+        simulations: params.simulations,
+        seed,
+      },
+      assumptions: {
+        btc_price_usd: context.network.price,
+        difficulty: context.network.difficulty,
+        block_height: context.network.blockHeight,
+        block_subsidy_btc: blockSubsidy(context.network.blockHeight),
+        fees_per_block_btc: context.network.feesPerBlock,
+        price: toModel(context.priceModel),
+        difficulty_model: toModel(context.difficultyModel),
+        next_halving_date: context.nextHalvingDate,
+        halving_in_days: context.halvingInDays,
+        halving_difficulty_change: params.halving_difficulty_change,
+      },
+      cumulative_profit_bands: result.bands.map((band, index) => ({
+        month: index + 1,
+        date: dateAfter(band.day),
+        ...band,
+      })),
+      final_profit: result.final,
+      probability_of_loss: result.probabilityOfLoss,
+      payback: {
+        probability_within_horizon: result.probabilityOfPayback,
+        percentiles: PERCENTILES.map((percentile) => {
+          const days = result.paybackDays[`p${percentile}`];
+          return { percentile, days, date: days !== null ? dateAfter(days) : null };
+        }),
+      },
+      median_final_btc_price_usd: result.medianFinalPrice,
+      median_final_difficulty: result.medianFinalDifficulty,
+      timestamp: context.network.timestamp,
+    };
+  }
+
+  /**
+   * Format the projection as markdown for LLM consumption
+   */
+  private formatAsMarkdown(output: MiningMonteCarloOutput): string {
+    const { inputs, assumptions, final_profit: final } = output;
+    const sections: string[] = [];
+
+    sections.push('# 🎲 Mining Monte Carlo Projection\n');
+    sections.push(
+      `${inputs.simulations.toLocaleString('en-US')} simulated BTC price and difficulty paths ` +
+        `over ${inputs.horizon_months} months for ${this.formatHashrate(inputs.hashrate_ths)} on ` +
+        `${(inputs.consumption_watts / 1000).toFixed(1)} kW at $${inputs.electricity_price_per_kwh.toFixed(4)}/kWh` +
+        `${inputs.capex > 0 ? ` with $${this.formatCurrency(inputs.capex)} capex` : ''}.\n`
+    );
+
+    sections.push('## Outcome\n');
+    sections.push(
+      `- **Probability of Loss:** ${this.formatPercent(output.probability_of_loss)} ` +
+        `${this.getRiskIndicator(output.probability_of_loss)}`
+    );
+    sections.push(
+      `- **Median Profit After Capex:** ${this.formatSignedCurrency(final.p50)} ` +
+        `(mean ${this.formatSignedCurrency(final.mean)})`
+    );
+    sections.push(
+      `- **Downside (5th percentile):** ${this.formatSignedCurrency(final.p5)} · ` +
+        `**Upside (95th percentile):** ${this.formatSignedCurrency(final.p95)}`
+    );
+    if (inputs.capex > 0) {
+      const median = output.payback.percentiles.find((entry) => entry.percentile === 50);
+      sections.push(
+        `- **Payback Within Horizon:** ${this.formatPercent(output.payback.probability_within_horizon)} of paths` +
+          (median?.date ? ` (median ${median.date}, ${this.formatMonths(median.days)})` : '')
+      );
+    }
+
+    sections.push('\n## Cumulative Profit After Capex\n');
+    sections.push('| Month | Date | P5 | P25 | Median | P75 | P95 |');
+    sections.push('|-------|------|----|-----|--------|-----|-----|');
+    const step = Math.ceil(output.cumulative_profit_bands.length / 12);
+    output.cumulative_profit_bands
+      .filter((_, index, bands) => (index + 1) % step === 0 || index === bands.length - 1)
+      .forEach((band) => {
+        sections.push(
+          `| ${band.month} | ${band.date} | ${this.formatSignedCurrency(band.p5)} | ` +
+            `${this.formatSignedCurrency(band.p25)} | **${this.formatSignedCurrency(band.p50)}** | ` +
+            `${this.formatSignedCurrency(band.p75)} | ${this.formatSignedCurrency(band.p95)} |`
+        );
+      });
+
+    if (inputs.capex > 0) {
+      sections.push('\n## Payback\n');
+      sections.push('| Percentile | Payback Date | Time |');
+      sections.push('|------------|--------------|------|');
+      for (const entry of output.payback.percentiles) {
+        sections.push(
+          `| P${entry.percentile} | ${entry.date ?? 'Not within horizon'} | ${this.formatMonths(entry.days)} |`
+        );
+      }
+    }
+
+    sections.push('\n## Assumptions\n');
+    sections.push('| Parameter | Value | Source |');
+    sections.push('|-----------|-------|--------|');
+    sections.push(
+      `| BTC Price | $${this.formatCurrency(assumptions.btc_price_usd)} → median $${this.formatCurrency(output.median_final_btc_price_usd)} | Price stats |`
+    );
+    sections.push(
+      `| Price Trend / Volatility | ${this.formatSignedPercent(assumptions.price.yearly_change_rate)}/yr / ` +
+        `${this.formatPercent(assumptions.price.volatility)} | ${assumptions.price.yearly_change_source} / ${assumptions.price.volatility_source} |`
+    );
+    sections.push(
+      `| Difficulty | ${assumptions.difficulty.toExponential(2)} → median ${output.median_final_difficulty.toExponential(2)} | Difficulty stats |`
+    );
+    sections.push(
+      `| Difficulty Trend / Volatility | ${this.formatSignedPercent(assumptions.difficulty_model.yearly_change_rate)}/yr / ` +
+        `${this.formatPercent(assumptions.difficulty_model.volatility)} | ${assumptions.difficulty_model.yearly_change_source} / ${assumptions.difficulty_model.volatility_source} |`
+    );
+    sections.push(
+      `| Block Reward | ${assumptions.block_subsidy_btc} BTC + ${assumptions.fees_per_block_btc.toFixed(4)} BTC fees | Halvings, hashrate stats |`
+    );
+    sections.push(
+      `| Next Halving | ${assumptions.next_halving_date ? this.formatDate(assumptions.next_halving_date) : '–'} ` +
+        `(difficulty ${this.formatSignedPercent(assumptions.halving_difficulty_change)}) | Halvings |`
+    );
+    sections.push(
+      `| Pool Fee / Uptime / Opex | ${this.formatPercent(inputs.revenue_fees_rate)} / ${inputs.uptime_percent}% / ` +
+        `$${this.formatCurrency(inputs.monthly_fixed_opex)}/month | input |`
+    );
+
+    sections.push('\n---\n');
+    sections.push(
+      `*Starting conditions from [Braiins Insights Dashboard](https://insights.braiins.com) as of ${output.timestamp}. ` +
+        'Price and difficulty move independently and the hardware never curtails, so losing days count in full. ' +
+        `Seed ${inputs.seed}: rerun with the same seed to reproduce these numbers.*`
+    );
+
+    return sections.join('\n');
+  }
+
+  /**
+   * Get risk indicator for a probability of loss
+   */
+  private getRiskIndicator(probability: number): string {
+    if (probability < 0.1) {
+      return '🟢';
+    }
+    if (probability < 0.3) {
+      return '🟡';
+    }
+    return '🔴';
+  }
+
+  /**
+   * Format a number of days as months, or a dash when not paid back
+   */
+  private formatMonths(days: number | null): string {
+    return days !== null ? `${((days * 12) / 365).toFixed(1)} months` : '–';
+  }
+
+  /**
+   * Format hashrate in TH/s or PH/s
+   */
+  private formatHashrate(ths: number): string {
+    return ths >= 1000 ? `${(ths / 1000).toFixed(2)} PH/s` : `${ths.toFixed(1)} TH/s`;
+  }
+
+  /**
+   * Format a decimal as a percentage
+   */
+  private formatPercent(value: number): string {
+    return `${(value * 100).toFixed(1)}%`;
+  }
+
+  /**
+   * Format a decimal as a signed percentage
+   */
+  private formatSignedPercent(value: number): string {
+    return `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+  }
+
+  /**
+   * Format a signed USD amount
+   */
+  private formatSignedCurrency(value: number): string {
+    return `${value < 0 ? '-' : '+'}$${this.formatCurrency(Math.abs(value))}`;
+  }
+
+  /**
+   * Format an ISO date as a short date
+   */
+  private formatDate(isoString: string): string {
+    const date = new Date(isoString);
+    return isNaN(date.getTime())
+      ? isoString
+      : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  }
+
+  /**
+   * Format currency with thousands separators
+   */
+  private formatCurrency(value: number): string {
+    return value.toLocaleString('en-US', {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+  }
+
+  /**
+   * Handle errors and return MCP error response
+   */
+  private handleError(error: unknown): MCPToolResponse {
+    if (error instanceof z.ZodError) {
+      const errorMessages = error.issues.map(
+        (err: z.ZodIssue) => `- ${err.path.join('.')}: ${err.message}`
+      );
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Validation Error**: Invalid input parameters\n\n${errorMessages.join('\n')}\n\n**Required:** hashrate_ths, consumption_watts, electricity_price_per_kwh`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof ValidationError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Validation Error**: ${error.message}\n\nThe Braiins Insights API returned unexpected data.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof InsightsApiError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **API Error**: ${error.message}\n\nStatus: ${error.statusCode}\n\nPlease try again later or check the Braiins Insights API status.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof NetworkError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Network Error**: Could not reach Braiins Insights API\n\nDetails: ${error.message}\n\nPlease check your internet connection.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `❌ **Unexpected Error**: ${error instanceof Error ? error.message : String(error)}\n\nPlease report this issue if it persists.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -17,8 +17,60 @@ import {
   BraiinsInsightsBlockData,
 } from '../../types/insights-api.js';
 import { InsightsApiClient, InsightsApiError, NetworkError } from '../../api/insights-client.js';
+import {
+  OUTPUT_FORMAT_PROPERTY,
+  buildToolResponse,
+  getOutputFormat,
+  toOutputSchema,
+} from '../../utils/output-format.js';
+import { ToolCategory } from '../categories.js';
 import type { MCPToolResponse } from '../index.js';
 
+/**
+ * Structured output payload for the mining overview
+ *
+ * Sections whose endpoint failed are `null` and listed in `unavailable`.
+ */
+const MiningOverviewOutputSchema = z.object({
+  network: z
+    .object({
+      current_hashrate_ehs: z.number(),
+      estimated_hashrate_ehs: z.number(),
+      hashrate_30d_avg_ehs: z.number(),
+      hash_price_usd_per_th_day: z.number(),
+    })
+    .nullable(),
+  difficulty: z
+    .object({
+      current: z.number(),
+      estimated_next: z.number(),
+      estimated_change_percent: z.number(),
+      block_epoch: z.number(),
+    })
+    .nullable(),
+  price: z
+    .object({
+      price_usd: z.number(),
+      percent_change_24h: z.number(),
+    })
+    .nullable(),
+  recent_blocks: z
+    .array(
+      z.object({
+        height: z.number(),
+        pool: z.string(),
+        timestamp: z.string(),
+        block_value_btc: z.number(),
+      })
+    )
+    .nullable()
+    .describe('Recent blocks, or null when not requested or unavailable'),
+  unavailable: z.array(z.string()).describe('Sections that could not be retrieved'),
+  generated_at: z.string(),
+});
+
+type MiningOverviewOutput = z.infer<typeof MiningOverviewOutputSchema>;
+
 /**
  * Zod schema for mining overview tool input validation
  */
@@ -64,6 +116,20 @@ export class MiningOverviewTool {
     'difficulty status, current BTC price, and recent blocks. Provides a quick 30-second ' +
     'snapshot of mining health and market conditions.';
 
+  /** Tool category */
+  readonly category = ToolCategory.Composite;
+
+  /** Tags for tool discovery */
+  readonly tags = ['network', 'market', 'blocks', 'overview'];
+
+  /** Upstream API endpoints the tool calls */
+  readonly endpoints = [
+    '/v1.0/hashrate-stats',
+    '/v1.0/difficulty-stats',
+    '/v1.0/price-stats',
+    '/v1.0/blocks',
+  ];
+
   /** JSON schema for tool inputs */
   readonly inputSchema = {
     type: 'object' as const,
@@ -80,10 +146,14 @@ export class MiningOverviewTool {
         minimum: 1,
         maximum: 20,
       },
+      format: OUTPUT_FORMAT_PROPERTY,
     },
     required: [] as string[],
   };
 
+  /** JSON schema for structured output */
+  readonly outputSchema = toOutputSchema(MiningOverviewOutputSchema);
+
   constructor(private readonly apiClient: InsightsApiClient) {}
 
   /**
@@ -93,12 +163,13 @@ export class MiningOverviewTool {
    * to ensure partial results are shown even if some endpoints fail.
    *
    * @param input - Tool input parameters
-   * @returns MCP response with formatted markdown
+   * @returns MCP response with formatted markdown and/or structured JSON
    */
   async execute(input: unknown): Promise<MCPToolResponse> {
     try {
       // Validate and parse input
       const validatedInput = MiningOverviewInputSchema.parse(input);
+      const format = getOutputFormat(input);
 
       // Fetch all data in parallel with graceful degradation
       const results = await this.fetchAllData(validatedInput);
@@ -106,15 +177,7 @@ export class MiningOverviewTool {
       // Format as comprehensive markdown report
       const markdown = this.formatAsMarkdown(results, validatedInput);
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: markdown,
-          },
-        ],
-        isError: false,
-      };
+      return buildToolResponse(format, markdown, this.toStructuredContent(results, validatedInput));
     } catch (error) {
       return this.handleError(error);
     }
@@ -167,6 +230,74 @@ export class MiningOverviewTool {
     }
   }
 
+  /**
+   * Normalize endpoint results into the structured output payload
+   */
+  private toStructuredContent(
+    results: {
+      hashrate: EndpointResult<BraiinsInsightsHashrateStats>;
+      difficulty: EndpointResult<BraiinsInsightsDifficultyStats>;
+      price: EndpointResult<BraiinsInsightsPriceStats>;
+      blocks: EndpointResult<BraiinsInsightsBlockData[]>;
+    },
+    params: MiningOverviewInput
+  ): MiningOverviewOutput {
+    const hashrate = results.hashrate.data;
+    const difficulty = results.difficulty.data;
+    const price = results.price.data;
+    const blocks = results.blocks.data;
+
+    const unavailable: string[] = [];
+    if (!hashrate) {
+      unavailable.push('network');
+    }
+    if (!difficulty) {
+      unavailable.push('difficulty');
+    }
+    if (!price) {
+      unavailable.push('price');
+    }
+    if (params.include_recent_blocks && !blocks) {
+      unavailable.push('recent_blocks');
+    }
+
+    return {
+      network: hashrate
+        ? {
+            current_hashrate_ehs: hashrate.current_hashrate,
+            estimated_hashrate_ehs: hashrate.current_hashrate_estimated,
+            hashrate_30d_avg_ehs: hashrate.hash_rate_30,
+            hash_price_usd_per_th_day: hashrate.hash_price,
+          }
+        : null,
+      difficulty: difficulty
+        ? {
+            current: difficulty.difficulty,
+            estimated_next: difficulty.estimated_next_diff,
+            estimated_change_percent: difficulty.estimated_adjustment * 100,
+            block_epoch: difficulty.block_epoch,
+          }
+        : null,
+      price: price
+        ? {
+            price_usd: price.price,
+            percent_change_24h: price.percent_change_24h,
+          }
+        : null,
+      recent_blocks:
+        params.include_recent_blocks && blocks
+          ? blocks.map((block) => ({
+              height: block.height,
+              pool: block.pool,
+              timestamp: block.timestamp,
+              block_value_btc: block.block_value_btc,
+            }))
+          : null,
+      unavailable,
+      generated_at: new Date().toISOString(),
+    };
+  }
+
   /**
    * Format mining overview as comprehensive markdown report
    */
@@ -14,6 +14,7 @@
  * @see https://insights.braiins.com
  */
 
+import { z } from 'zod';
 import {
   BraiinsInsightsHashrateStats,
   BraiinsInsightsDifficultyStats,
@@ -21,8 +22,70 @@ import {
   BraiinsInsightsHashDiffHistory,
 } from '../../types/insights-api.js';
 import { InsightsApiClient, InsightsApiError, NetworkError } from '../../api/insights-client.js';
+import {
+  OUTPUT_FORMAT_PROPERTY,
+  buildToolResponse,
+  getOutputFormat,
+  toOutputSchema,
+} from '../../utils/output-format.js';
+import { ToolCategory } from '../categories.js';
 import type { MCPToolResponse } from '../index.js';
 
+/**
+ * Structured output payload for the network health monitor
+ *
+ * Sections whose endpoint failed are `null` and listed in `unavailable`.
+ */
+const NetworkHealthMonitorOutputSchema = z.object({
+  health_score: z.object({
+    total: z.number().describe('Overall health score (0-100)'),
+    hashrate: z.number().describe('Hashrate stability score (0-40)'),
+    mempool: z.number().describe('Mempool health score (0-30)'),
+    block_production: z.number().describe('Block production score (0-30)'),
+    status: z.enum(['healthy', 'caution', 'concern']),
+  }),
+  alerts: z.array(
+    z.object({
+      severity: z.enum(['warning', 'critical']),
+      message: z.string(),
+    })
+  ),
+  mining: z
+    .object({
+      current_hashrate_ehs: z.number(),
+      hashrate_30d_avg_ehs: z.number(),
+      deviation_percent: z.number(),
+    })
+    .nullable(),
+  mempool: z
+    .object({
+      pending_transactions: z.number(),
+      avg_fee_sat_per_byte: z.number(),
+      confirmation_time_blocks: z.number().nullable(),
+    })
+    .nullable(),
+  block_production: z
+    .object({
+      block_epoch: z.number(),
+      epoch_block_time_seconds: z.number(),
+      expected_difficulty_change_percent: z.number(),
+      next_adjustment: z.string().nullable(),
+    })
+    .nullable(),
+  history: z
+    .object({
+      hours: z.number(),
+      avg_hashrate_ehs: z.number(),
+      max_hashrate_ehs: z.number(),
+      min_hashrate_ehs: z.number(),
+      volatility_percent: z.number(),
+    })
+    .nullable(),
+  unavailable: z.array(z.string()).describe('Endpoints that could not be retrieved'),
+});
+
+type NetworkHealthMonitorOutput = z.infer<typeof NetworkHealthMonitorOutputSchema>;
+
 /**
  * Input parameters for network health monitor
  */
@@ -73,6 +136,20 @@ export class NetworkHealthMonitorTool {
     'mempool congestion, and block production timing. Returns a 0-100 health score with alerts ' +
     'for any detected anomalies.';
 
+  /** Tool category */
+  readonly category = ToolCategory.Composite;
+
+  /** Tags for tool discovery */
+  readonly tags = ['network', 'health', 'anomalies'];
+
+  /** Upstream API endpoints the tool calls */
+  readonly endpoints = [
+    '/v1.0/hashrate-stats',
+    '/v1.0/difficulty-stats',
+    '/v1.0/hashrate-and-difficulty-history',
+    '/v1.0/transaction-stats',
+  ];
+
   /** JSON schema for tool inputs */
   readonly inputSchema = {
     type: 'object' as const,
@@ -89,22 +166,27 @@ export class NetworkHealthMonitorTool {
         minimum: 6,
         maximum: 168,
       },
+      format: OUTPUT_FORMAT_PROPERTY,
     },
     required: [] as string[],
   };
 
+  /** JSON schema for structured output */
+  readonly outputSchema = toOutputSchema(NetworkHealthMonitorOutputSchema);
+
   constructor(private readonly apiClient: InsightsApiClient) {}
 
   /**
    * Execute the tool
    *
    * @param input - Optional parameters for detailed history
-   * @returns MCP response with formatted markdown
+   * @returns MCP response with formatted markdown and/or structured JSON
    */
   async execute(input: unknown): Promise<MCPToolResponse> {
     try {
       // Parse input
       const params = this.parseInput(input);
+      const format = getOutputFormat(input);
 
       // Fetch data from multiple endpoints in parallel with graceful degradation
       const results = await Promise.allSettled([
@@ -161,15 +243,19 @@ export class NetworkHealthMonitorTool {
         params
       );
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: markdown,
-          },
-        ],
-        isError: false,
-      };
+      return buildToolResponse(
+        format,
+        markdown,
+        this.toStructuredContent(
+          hashrateStats,
+          difficultyStats,
+          transactionStats,
+          historyData,
+          healthScore,
+          alerts,
+          params
+        )
+      );
     } catch (error) {
       return this.handleError(error);
     }
@@ -420,6 +506,85 @@ export class NetworkHealthMonitorTool {
     return alerts;
   }
 
+  /**
+   * Normalize network health data into the structured output payload
+   */
+  private toStructuredContent(
+    hashrateStats: BraiinsInsightsHashrateStats | null,
+    difficultyStats: BraiinsInsightsDifficultyStats | null,
+    transactionStats: BraiinsInsightsTransactionStats | null,
+    historyData: BraiinsInsightsHashDiffHistory[] | null,
+    healthScore: HealthScoreBreakdown,
+    alerts: Alert[],
+    params: NetworkHealthMonitorInput
+  ): NetworkHealthMonitorOutput {
+    let history: NetworkHealthMonitorOutput['history'] = null;
+    if (params.include_detailed_history && historyData && historyData.length > 0) {
+      const hours = Math.min(params.history_hours ?? 24, historyData.length);
+      const hashrates = historyData.slice(0, hours).map((d) => d.hashrate_ehs);
+      const avgHashrate = hashrates.reduce((a, b) => a + b, 0) / hashrates.length;
+      const maxHashrate = Math.max(...hashrates);
+      const minHashrate = Math.min(...hashrates);
+      history = {
+        hours,
+        avg_hashrate_ehs: avgHashrate,
+        max_hashrate_ehs: maxHashrate,
+        min_hashrate_ehs: minHashrate,
+        volatility_percent: ((maxHashrate - minHashrate) / avgHashrate) * 100,
+      };
+    }
+
+    const unavailable: string[] = [];
+    if (!hashrateStats) {
+      unavailable.push('hashrate_stats');
+    }
+    if (!difficultyStats) {
+      unavailable.push('difficulty_stats');
+    }
+    if (!transactionStats) {
+      unavailable.push('transaction_stats');
+    }
+
+    return {
+      health_score: {
+        total: healthScore.total,
+        hashrate: healthScore.hashrate,
+        mempool: healthScore.mempool,
+        block_production: healthScore.blockProduction,
+        status:
+          healthScore.total >= 80 ? 'healthy' : healthScore.total >= 50 ? 'caution' : 'concern',
+      },
+      alerts: alerts.map((alert) => ({ severity: alert.severity, message: alert.message })),
+      mining: hashrateStats
+        ? {
+            current_hashrate_ehs: hashrateStats.current_hashrate,
+            hashrate_30d_avg_ehs: hashrateStats.hash_rate_30,
+            deviation_percent:
+              ((hashrateStats.current_hashrate - hashrateStats.hash_rate_30) /
+                hashrateStats.hash_rate_30) *
+              100,
+          }
+        : null,
+      mempool: transactionStats
+        ? {
+            pending_transactions: transactionStats.mempool_size,
+            avg_fee_sat_per_byte: transactionStats.avg_fee_sat_per_byte,
+            confirmation_time_blocks: transactionStats.confirmation_time_blocks ?? null,
+          }
+        : null,
+      block_production: difficultyStats
+        ? {
+            block_epoch: difficultyStats.block_epoch,
+            epoch_block_time_seconds: difficultyStats.epoch_block_time,
+            expected_difficulty_change_percent: difficultyStats.estimated_adjustment * 100,
+            next_adjustment: difficultyStats.estimated_adjustment_date || null,
+          }
+        : null,
+      history,
+      unavailable,
+    };
+  }
+
   /**
    * Format network health data as markdown
    */
@@ -672,6 +837,21 @@ export class NetworkHealthMonitorTool {
    * Handle errors and return MCP error response
    */
   private handleError(error: unknown): MCPToolResponse {
+    if (error instanceof z.ZodError) {
+      const errorMessages = error.issues.map(
+        (err: z.ZodIssue) => `- ${err.path.join('.')}: ${err.message}`
+      );
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Validation Error**: Invalid input parameters\n\n${errorMessages.join('\n')}\n\nPlease check your input and try again.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
     if (error instanceof InsightsApiError) {
       return {
         content: [
@@ -24,8 +24,62 @@ import type {
   CostToMineQueryParams,
 } from '../../types/insights-api.js';
 import { InsightsApiClient, InsightsApiError, NetworkError } from '../../api/insights-client.js';
+import {
+  OUTPUT_FORMAT_PROPERTY,
+  buildToolResponse,
+  getOutputFormat,
+  toOutputSchema,
+} from '../../utils/output-format.js';
+import { ToolCategory } from '../categories.js';
 import type { MCPToolResponse } from '../index.js';
 
+/**
+ * Structured output payload for the profitability deep dive
+ *
+ * Optional sections are `null` when their endpoint failed or was not requested.
+ */
+const ProfitabilityDeepDiveOutputSchema = z.object({
+  inputs: z.object({
+    electricity_cost_kwh: z.number(),
+    hardware_efficiency_jth: z.number(),
+    hashrate_ths: z.number(),
+  }),
+  profitability: z.object({
+    daily_revenue_usd_per_th: z.number(),
+    daily_electricity_cost_usd_per_th: z.number(),
+    net_daily_profit_usd_per_th: z.number(),
+    monthly_profit_usd_per_th: z.number(),
+    annual_profit_usd_per_th: z.number(),
+    is_profitable: z.boolean(),
+  }),
+  break_even: z.object({
+    btc_price_usd: z.number(),
+    current_margin_percent: z.number(),
+    max_electricity_cost_kwh: z.number(),
+    hashrate_ths: z.number(),
+    cost_to_mine_btc_usd: z.number().nullable(),
+  }),
+  market: z.object({
+    btc_price_usd: z.number(),
+    network_difficulty: z.number(),
+    price_change_24h_percent: z.number().nullable(),
+  }),
+  historical: z
+    .object({
+      days: z.number(),
+      current_usd_per_th_day: z.number(),
+      average_usd_per_th_day: z.number(),
+      min_usd_per_th_day: z.number(),
+      max_usd_per_th_day: z.number(),
+    })
+    .nullable(),
+  viability: z.enum(['excellent', 'good', 'fair', 'not_recommended']),
+  warnings: z.array(z.string()),
+  timestamp: z.string(),
+});
+
+type ProfitabilityDeepDiveOutput = z.infer<typeof ProfitabilityDeepDiveOutputSchema>;
+
 /**
  * Zod validation schema for profitability deep dive input
  */
@@ -83,6 +137,20 @@ export class ProfitabilityDeepDiveTool {
     'Provides detailed profitability metrics, break-even analysis, ROI projections, and mining viability recommendations. ' +
     'Requires electricity cost (USD/kWh) and hardware efficiency (J/TH) as inputs.';
 
+  /** Tool category */
+  readonly category = ToolCategory.Composite;
+
+  /** Tags for tool discovery */
+  readonly tags = ['profitability', 'hashprice', 'electricity'];
+
+  /** Upstream API endpoints the tool calls */
+  readonly endpoints = [
+    '/v2.0/profitability-calculator',
+    '/v2.0/cost-to-mine',
+    '/v1.0/price-stats',
+    '/v1.0/hashrate-value-history',
+  ];
+
   /** JSON schema for tool inputs */
   readonly inputSchema = {
     type: 'object' as const,
@@ -118,22 +186,27 @@ export class ProfitabilityDeepDiveTool {
         minimum: 7,
         maximum: 90,
       },
+      format: OUTPUT_FORMAT_PROPERTY,
     },
     required: ['electricity_cost_kwh', 'hardware_efficiency_jth'],
   };
 
+  /** JSON schema for structured output */
+  readonly outputSchema = toOutputSchema(ProfitabilityDeepDiveOutputSchema);
+
   constructor(private readonly apiClient: InsightsApiClient) {}
 
   /**
    * Execute the tool
    *
    * @param input - Profitability analysis parameters
-   * @returns MCP response with formatted markdown
+   * @returns MCP response with formatted markdown and/or structured JSON
    */
   async execute(input: unknown): Promise<MCPToolResponse> {
     try {
       // Validate input with Zod
       const validatedInput = ProfitabilityDeepDiveInputSchema.parse(input);
+      const format = getOutputFormat(input);
 
       // Fetch data from multiple endpoints in parallel with graceful degradation
       const results = await this.fetchAllData(validatedInput);
@@ -148,15 +221,7 @@ export class ProfitabilityDeepDiveTool {
       // Format as comprehensive markdown report
       const markdown = this.formatAsMarkdown(validatedInput, results);
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: markdown,
-          },
-        ],
-        isError: false,
-      };
+      return buildToolResponse(format, markdown, this.toStructuredContent(validatedInput, results));
     } catch (error) {
       return this.handleError(error);
     }
@@ -232,6 +297,83 @@ export class ProfitabilityDeepDiveTool {
     }
   }
 
+  /**
+   * Normalize endpoint results into the structured output payload
+   */
+  private toStructuredContent(
+    input: z.infer<typeof ProfitabilityDeepDiveInputSchema>,
+    results: {
+      profitability: EndpointResult<BraiinsInsightsProfitability>;
+      costToMine: EndpointResult<BraiinsInsightsCostToMine>;
+      priceStats: EndpointResult<BraiinsInsightsPriceStats>;
+      historicalHashrateValue: EndpointResult<BraiinsInsightsHashrateValue[]>;
+    }
+  ): ProfitabilityDeepDiveOutput {
+    const profitability =
+      results.profitability.data ??
+      (() => {
+        throw new Error('Profitability data unexpectedly missing despite success check');
+      })();
+    const profit = profitability.net_daily_profit_per_th;
+
+    const history = results.historicalHashrateValue.data ?? [];
+    const recentValues = history
+      .slice(-input.historical_days)
+      .map((d) => d.hash_value_usd_per_th_day);
+    const historical =
+      input.include_historical && recentValues.length > 0
+        ? {
+            days: recentValues.length,
+            current_usd_per_th_day: recentValues[recentValues.length - 1] ?? 0,
+            average_usd_per_th_day: recentValues.reduce((a, b) => a + b, 0) / recentValues.length,
+            min_usd_per_th_day: Math.min(...recentValues),
+            max_usd_per_th_day: Math.max(...recentValues),
+          }
+        : null;
+
+    return {
+      inputs: {
+        electricity_cost_kwh: input.electricity_cost_kwh,
+        hardware_efficiency_jth: input.hardware_efficiency_jth,
+        hashrate_ths: input.hashrate_ths,
+      },
+      profitability: {
+        daily_revenue_usd_per_th: profitability.daily_revenue_per_th,
+        daily_electricity_cost_usd_per_th: profitability.daily_electricity_cost_per_th,
+        net_daily_profit_usd_per_th: profit,
+        monthly_profit_usd_per_th: profitability.monthly_profit_per_th,
+        annual_profit_usd_per_th: profitability.annual_profit_per_th,
+        is_profitable: profit > 0,
+      },
+      break_even: {
+        btc_price_usd: profitability.breakeven_btc_price,
+        current_margin_percent:
+          ((profitability.btc_price_usd - profitability.breakeven_btc_price) /
+            profitability.breakeven_btc_price) *
+          100,
+        max_electricity_cost_kwh: profitability.profitability_threshold_kwh,
+        hashrate_ths: profitability.breakeven_hashrate_ths,
+        cost_to_mine_btc_usd: results.costToMine.data?.result.fiat_cost ?? null,
+      },
+      market: {
+        btc_price_usd: profitability.btc_price_usd,
+        network_difficulty: profitability.network_difficulty,
+        price_change_24h_percent: results.priceStats.data?.percent_change_24h ?? null,
+      },
+      historical,
+      viability:
+        profit > 0.05
+          ? 'excellent'
+          : profit > 0.02
+            ? 'good'
+            : profit > 0
+              ? 'fair'
+              : 'not_recommended',
+      warnings: this.generateWarnings(results).map((warning) => warning.replace(/^- /, '')),
+      timestamp: profitability.timestamp,
+    };
+  }
+
   /**
    * Format comprehensive profitability report as markdown
    */
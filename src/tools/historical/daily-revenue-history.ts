@@ -8,10 +8,62 @@
  * @see https://insights.braiins.com/api/v1.0/daily-revenue-history
  */
 
+import { z } from 'zod';
 import { BraiinsInsightsDailyRevenue } from '../../types/insights-api.js';
 import { InsightsApiClient, InsightsApiError, NetworkError } from '../../api/insights-client.js';
+import {
+  OUTPUT_FORMAT_PROPERTY,
+  buildToolResponse,
+  getOutputFormat,
+  toOutputSchema,
+} from '../../utils/output-format.js';
+import { halvingAnnotations, renderLineChartSvg, toSvgImageContent } from '../../utils/charts.js';
+import {
+  TIME_SERIES_PROPERTIES,
+  TimeSeriesPoint,
+  TimeSeriesQuery,
+  TimeSeriesQueryOutputSchema,
+  describeEmptyWindow,
+  describeTimeSeriesQuery,
+  difficultyEpochs,
+  parseTimeSeriesQuery,
+  timeSeriesPointFields,
+  toQueryContent,
+  toTimeSeriesPointContent,
+  transformTimeSeries,
+} from '../../utils/time-series.js';
+import { ToolCategory } from '../categories.js';
 import type { MCPToolResponse } from '../index.js';
 
+/**
+ * Numeric fields of a data point, resampled and averaged as a time series
+ */
+const SERIES_FIELDS = ['revenue_usd', 'block_rewards_btc', 'fees_btc'] as const;
+
+type SeriesField = (typeof SERIES_FIELDS)[number];
+
+/**
+ * Structured output payload for daily revenue history
+ */
+const DailyRevenueHistoryOutputSchema = z.object({
+  data_points: z
+    .array(
+      z.object({
+        date: z.string(),
+        revenue_usd: z.number(),
+        block_rewards_btc: z.number().nullable(),
+        fees_btc: z.number().nullable(),
+        ...timeSeriesPointFields(SERIES_FIELDS),
+      })
+    )
+    .describe('Data points, most recent first'),
+  count: z.number().describe('Number of data points returned'),
+  total_available: z.number().describe('Number of data points available from the API'),
+  query: TimeSeriesQueryOutputSchema,
+});
+
+export type DailyRevenueHistoryOutput = z.infer<typeof DailyRevenueHistoryOutputSchema>;
+
 /**
  * Daily Revenue History Tool
  *
@@ -27,6 +79,15 @@ export class DailyRevenueHistoryTool {
     'Get historical daily Bitcoin mining revenue data. Returns time-series data showing ' +
     'daily revenue in USD and BTC, useful for analyzing mining profitability trends over time.';
 
+  /** Tool category */
+  readonly category = ToolCategory.Historical;
+
+  /** Tags for tool discovery */
+  readonly tags = ['revenue', 'hashprice'];
+
+  /** Upstream API endpoints the tool calls */
+  readonly endpoints = ['/v1.0/daily-revenue-history', '/v1.0/hashrate-and-difficulty-history'];
+
   /** JSON schema for tool inputs (no required parameters) */
   readonly inputSchema = {
     type: 'object' as const,
@@ -34,57 +95,80 @@ export class DailyRevenueHistoryTool {
       limit: {
         type: 'number',
         description:
-          'Maximum number of data points to return (most recent first). Default returns all available data.',
+          'Maximum number of data points to return (most recent first), applied after the ' +
+          'date window and resampling. Default returns all matching data.',
         minimum: 1,
         maximum: 365,
       },
+      ...TIME_SERIES_PROPERTIES,
+      include_chart: {
+        type: 'boolean',
+        description:
+          'Attach an SVG chart of daily revenue in USD (left axis) and BTC (right axis) as an ' +
+          'image content block, with halvings marked (default: false)',
+        default: false,
+      },
+      format: OUTPUT_FORMAT_PROPERTY,
     },
     required: [] as string[],
   };
 
+  /** JSON schema for structured output */
+  readonly outputSchema = toOutputSchema(DailyRevenueHistoryOutputSchema);
+
   constructor(private readonly apiClient: InsightsApiClient) {}
 
   /**
    * Execute the tool
    *
-   * @param input - Optional limit parameter
-   * @returns MCP response with formatted markdown
+   * @param input - Optional limit, time-series and include_chart parameters
+   * @returns MCP response with formatted markdown and/or structured JSON
    */
   async execute(input: unknown): Promise<MCPToolResponse> {
     try {
       // Parse input
       const params = this.parseInput(input);
+      const format = getOutputFormat(input);
 
-      // Fetch data from API
-      const data = await this.apiClient.getDailyRevenueHistory();
+      // Fetch data from API, with the difficulty history to find epoch boundaries;
+      // without it, epochs are estimated from the date
+      const [data, epochs] = await Promise.all([
+        this.apiClient.getDailyRevenueHistory(),
+        params.query.resample === 'epoch' ? this.fetchEpochs().catch(() => undefined) : undefined,
+      ]);
+      const query: TimeSeriesQuery =
+        params.query.resample === 'epoch' && !epochs
+          ? { ...params.query, estimatedEpochs: true }
+          : params.query;
 
-      // Apply limit if specified
-      const limitedData = params.limit ? data.slice(0, params.limit) : data;
+      // Apply the date window, resampling and moving average, then the limit
+      const series = transformTimeSeries(
+        this.toSeries(data),
+        query,
+        epochs && ((point) => epochs(point.date))
+      );
+      const limitedSeries = params.limit ? series.slice(0, params.limit) : series;
+      const limitedData = limitedSeries.map((point) => this.fromSeries(point));
 
       if (limitedData.length === 0) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: '⚠️ **No Data Available**\n\nNo daily revenue history data was returned from the API.',
-            },
-          ],
-          isError: false,
-        };
+        return buildToolResponse(
+          format,
+          data.length > 0
+            ? `⚠️ **No Data Available**\n\n${describeEmptyWindow(this.toSeries(data), query)}`
+            : '⚠️ **No Data Available**\n\nNo daily revenue history data was returned from the API.',
+          this.toStructuredContent(limitedSeries, data.length, query)
+        );
       }
 
       // Format as markdown
-      const markdown = this.formatAsMarkdown(limitedData, data.length);
+      const markdown = this.formatAsMarkdown(limitedData, data.length, limitedSeries, query);
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: markdown,
-          },
-        ],
-        isError: false,
-      };
+      return buildToolResponse(
+        format,
+        markdown,
+        this.toStructuredContent(limitedSeries, data.length, query),
+        params.includeChart ? [toSvgImageContent(this.renderChart(limitedData))] : []
+      );
     } catch (error) {
       return this.handleError(error);
     }
@@ -93,13 +177,19 @@ export class DailyRevenueHistoryTool {
   /**
    * Parse and validate input parameters
    */
-  private parseInput(input: unknown): { limit?: number } {
+  private parseInput(input: unknown): {
+    limit?: number;
+    includeChart?: boolean;
+    query: TimeSeriesQuery;
+  } {
     if (!input || typeof input !== 'object') {
-      return {};
+      return { query: parseTimeSeriesQuery({}) };
     }
 
     const params = input as Record<string, unknown>;
-    const result: { limit?: number } = {};
+    const result: { limit?: number; includeChart?: boolean; query: TimeSeriesQuery } = {
+      query: parseTimeSeriesQuery(params),
+    };
 
     if (params['limit'] !== undefined) {
       const limit = Number(params['limit']);
@@ -108,13 +198,113 @@ export class DailyRevenueHistoryTool {
       }
     }
 
+    if (params['include_chart'] === true) {
+      result.includeChart = true;
+    }
+
     return result;
   }
 
+  /**
+   * Difficulty epoch of each date, from the hashrate and difficulty history
+   */
+  private async fetchEpochs(): Promise<(date: string) => number> {
+    const history = await this.apiClient.getHashrateAndDifficultyHistory();
+    return difficultyEpochs(
+      history.map((entry) => ({ date: entry.timestamp, difficulty: entry.difficulty }))
+    );
+  }
+
+  /**
+   * Convert data points to a time series
+   */
+  private toSeries(data: BraiinsInsightsDailyRevenue[]): TimeSeriesPoint<SeriesField>[] {
+    return data.map((entry) => ({
+      date: entry.date,
+      values: {
+        revenue_usd: entry.revenue_usd,
+        block_rewards_btc: entry.block_rewards_btc ?? null,
+        fees_btc: entry.fees_btc ?? null,
+      },
+    }));
+  }
+
+  /**
+   * Convert a time-series point back to a data point
+   */
+  private fromSeries(point: TimeSeriesPoint<SeriesField>): BraiinsInsightsDailyRevenue {
+    return {
+      date: point.date,
+      revenue_usd: point.values.revenue_usd ?? 0,
+      ...(point.values.block_rewards_btc !== null
+        ? { block_rewards_btc: point.values.block_rewards_btc }
+        : {}),
+      ...(point.values.fees_btc !== null ? { fees_btc: point.values.fees_btc } : {}),
+    };
+  }
+
+  /**
+   * Normalize data points into the structured output payload
+   */
+  private toStructuredContent(
+    series: TimeSeriesPoint<SeriesField>[],
+    totalCount: number,
+    query: TimeSeriesQuery
+  ): DailyRevenueHistoryOutput {
+    return {
+      data_points: series.map((point) => ({
+        date: point.date,
+        revenue_usd: point.values.revenue_usd ?? 0,
+        block_rewards_btc: point.values.block_rewards_btc,
+        fees_btc: point.values.fees_btc,
+        ...toTimeSeriesPointContent(point),
+      })),
+      count: series.length,
+      total_available: totalCount,
+      query: toQueryContent(query),
+    };
+  }
+
+  /**
+   * Render daily revenue as an SVG chart, oldest first, with halvings marked
+   *
+   * Revenue in BTC is drawn on the right axis when block rewards and fees are
+   * available.
+   */
+  private renderChart(data: BraiinsInsightsDailyRevenue[]): string {
+    const points = [...data].reverse();
+    const dates = points.map((entry) => entry.date);
+    const revenueBtc = points.map((entry) =>
+      entry.block_rewards_btc !== undefined && entry.fees_btc !== undefined
+        ? entry.block_rewards_btc + entry.fees_btc
+        : null
+    );
+
+    return renderLineChartSvg({
+      title: 'Bitcoin Mining Daily Revenue',
+      xLabels: dates,
+      series: [
+        { name: 'Revenue', values: points.map((entry) => entry.revenue_usd) },
+        ...(revenueBtc.some((value) => value !== null)
+          ? [{ name: 'Revenue in BTC', values: revenueBtc, axis: 'right' as const }]
+          : []),
+      ],
+      formatValue: (value) =>
+        `$${value.toLocaleString('en-US', { notation: 'compact', maximumFractionDigits: 1 })}`,
+      formatRightValue: (value) => `₿${value.toFixed(0)}`,
+      annotations: halvingAnnotations(dates),
+    });
+  }
+
   /**
    * Format daily revenue history as markdown for LLM consumption
    */
-  private formatAsMarkdown(data: BraiinsInsightsDailyRevenue[], totalCount: number): string {
+  private formatAsMarkdown(
+    data: BraiinsInsightsDailyRevenue[],
+    totalCount: number,
+    series: TimeSeriesPoint<SeriesField>[],
+    query: TimeSeriesQuery
+  ): string {
     const sections: string[] = [];
 
     sections.push('# 💰 Bitcoin Mining Daily Revenue History\n');
@@ -129,6 +319,10 @@ export class DailyRevenueHistoryTool {
     sections.push(
       `- **Data Points:** ${data.length}${totalCount > data.length ? ` (of ${totalCount} total)` : ''}`
     );
+    const window = describeTimeSeriesQuery(query);
+    if (window) {
+      sections.push(`- **Window:** ${window}`);
+    }
     sections.push(`- **Average Daily Revenue:** $${this.formatCurrency(avgRevenue)}`);
     sections.push(`- **Highest Daily Revenue:** $${this.formatCurrency(maxRevenue)}`);
     sections.push(`- **Lowest Daily Revenue:** $${this.formatCurrency(minRevenue)}`);
@@ -142,11 +336,14 @@ export class DailyRevenueHistoryTool {
 
     // Recent data table (show last 10 entries)
     sections.push('\n## Recent Daily Revenue\n');
-    sections.push('| Date | Revenue (USD) | Revenue (BTC) |');
-    sections.push('|------|---------------|---------------|');
+    const average = query.movingAverage;
+    sections.push(
+      `| Date | Revenue (USD) | Revenue (BTC) |${average ? ` ${average}-pt MA (USD) |` : ''}`
+    );
+    sections.push(`|------|---------------|---------------|${average ? '-----------------|' : ''}`);
 
     const recentData = data.slice(0, 10);
-    for (const entry of recentData) {
+    for (const [index, entry] of recentData.entries()) {
       const revenueUsd = `$${this.formatCurrency(entry.revenue_usd)}`;
       // Calculate total BTC from block rewards + fees if available
       const totalBtc =
@@ -154,7 +351,11 @@ export class DailyRevenueHistoryTool {
           ? entry.block_rewards_btc + entry.fees_btc
           : undefined;
       const revenueBtc = totalBtc !== undefined ? `₿${totalBtc.toFixed(2)}` : 'N/A';
-      sections.push(`| ${entry.date} | ${revenueUsd} | ${revenueBtc} |`);
+      const movingAverage = series[index]?.movingAverage?.revenue_usd ?? null;
+      const averageCell = average
+        ? ` ${movingAverage !== null ? `$${this.formatCurrency(movingAverage)}` : '–'} |`
+        : '';
+      sections.push(`| ${entry.date} | ${revenueUsd} | ${revenueBtc} |${averageCell}`);
     }
 
     if (data.length > 10) {
@@ -182,6 +383,21 @@ export class DailyRevenueHistoryTool {
    * Handle errors and return MCP error response
    */
   private handleError(error: unknown): MCPToolResponse {
+    if (error instanceof z.ZodError) {
+      const errorMessages = error.issues.map(
+        (err: z.ZodIssue) => `- ${err.path.join('.')}: ${err.message}`
+      );
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Validation Error**: Invalid input parameters\n\n${errorMessages.join('\n')}\n\nPlease check your input and try again.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
     if (error instanceof InsightsApiError) {
       return {
         content: [
@@ -8,10 +8,62 @@
  * @see https://insights.braiins.com/api/v1.0/hashrate-and-difficulty-history
  */
 
+import { z } from 'zod';
 import { BraiinsInsightsHashDiffHistory } from '../../types/insights-api.js';
 import { InsightsApiClient, InsightsApiError, NetworkError } from '../../api/insights-client.js';
+import {
+  OUTPUT_FORMAT_PROPERTY,
+  buildToolResponse,
+  getOutputFormat,
+  toOutputSchema,
+} from '../../utils/output-format.js';
+import { halvingAnnotations, renderLineChartSvg, toSvgImageContent } from '../../utils/charts.js';
+import {
+  TIME_SERIES_PROPERTIES,
+  TimeSeriesPoint,
+  TimeSeriesQuery,
+  TimeSeriesQueryOutputSchema,
+  describeEmptyWindow,
+  describeTimeSeriesQuery,
+  parseTimeSeriesQuery,
+  timeSeriesPointFields,
+  toQueryContent,
+  toTimeSeriesPointContent,
+  transformTimeSeries,
+} from '../../utils/time-series.js';
+import { ToolCategory } from '../categories.js';
 import type { MCPToolResponse } from '../index.js';
 
+/**
+ * Numeric fields of a data point, resampled and averaged as a time series
+ */
+const SERIES_FIELDS = ['hashrate_ehs', 'difficulty'] as const;
+
+type SeriesField = (typeof SERIES_FIELDS)[number];
+
+/**
+ * Structured output payload for hashrate and difficulty history
+ */
+const HashrateAndDifficultyHistoryOutputSchema = z.object({
+  data_points: z
+    .array(
+      z.object({
+        timestamp: z.string(),
+        hashrate_ehs: z.number(),
+        difficulty: z.number(),
+        ...timeSeriesPointFields(SERIES_FIELDS),
+      })
+    )
+    .describe('Data points, most recent first'),
+  count: z.number().describe('Number of data points returned'),
+  total_available: z.number().describe('Number of data points available from the API'),
+  query: TimeSeriesQueryOutputSchema,
+});
+
+export type HashrateAndDifficultyHistoryOutput = z.infer<
+  typeof HashrateAndDifficultyHistoryOutputSchema
+>;
+
 /**
  * Hashrate and Difficulty History Tool
  *
@@ -27,6 +79,15 @@ export class HashrateAndDifficultyHistoryTool {
     'Get historical Bitcoin network hashrate and difficulty data. Returns time-series data ' +
     'showing hashrate (EH/s) and difficulty trends, useful for analyzing network growth patterns.';
 
+  /** Tool category */
+  readonly category = ToolCategory.Historical;
+
+  /** Tags for tool discovery */
+  readonly tags = ['network', 'hashrate', 'difficulty'];
+
+  /** Upstream API endpoints the tool calls */
+  readonly endpoints = ['/v1.0/hashrate-and-difficulty-history'];
+
   /** JSON schema for tool inputs (no required parameters) */
   readonly inputSchema = {
     type: 'object' as const,
@@ -34,57 +95,73 @@ export class HashrateAndDifficultyHistoryTool {
       limit: {
         type: 'number',
         description:
-          'Maximum number of data points to return (most recent first). Default returns all available data.',
+          'Maximum number of data points to return (most recent first), applied after the ' +
+          'date window and resampling. Default returns all matching data.',
         minimum: 1,
         maximum: 1000,
       },
+      ...TIME_SERIES_PROPERTIES,
+      include_chart: {
+        type: 'boolean',
+        description:
+          'Attach an SVG chart of hashrate (left axis) and difficulty (right axis) as an image ' +
+          'content block, with halvings and difficulty adjustments marked (default: false)',
+        default: false,
+      },
+      format: OUTPUT_FORMAT_PROPERTY,
     },
     required: [] as string[],
   };
 
+  /** JSON schema for structured output */
+  readonly outputSchema = toOutputSchema(HashrateAndDifficultyHistoryOutputSchema);
+
   constructor(private readonly apiClient: InsightsApiClient) {}
 
   /**
    * Execute the tool
    *
-   * @param input - Optional limit parameter
-   * @returns MCP response with formatted markdown
+   * @param input - Optional limit, time-series and include_chart parameters
+   * @returns MCP response with formatted markdown and/or structured JSON
    */
   async execute(input: unknown): Promise<MCPToolResponse> {
     try {
       // Parse input
       const params = this.parseInput(input);
+      const format = getOutputFormat(input);
 
       // Fetch data from API
       const data = await this.apiClient.getHashrateAndDifficultyHistory();
 
-      // Apply limit if specified
-      const limitedData = params.limit ? data.slice(0, params.limit) : data;
+      // Apply the date window, resampling and moving average, then the limit
+      const series = transformTimeSeries(
+        this.toSeries(data),
+        params.query,
+        // Each difficulty value is one epoch
+        (point) => point.values.difficulty ?? 0
+      );
+      const limitedSeries = params.limit ? series.slice(0, params.limit) : series;
+      const limitedData = limitedSeries.map((point) => this.fromSeries(point));
 
       if (limitedData.length === 0) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: '⚠️ **No Data Available**\n\nNo hashrate and difficulty history data was returned from the API.',
-            },
-          ],
-          isError: false,
-        };
+        return buildToolResponse(
+          format,
+          data.length > 0
+            ? `⚠️ **No Data Available**\n\n${describeEmptyWindow(this.toSeries(data), params.query)}`
+            : '⚠️ **No Data Available**\n\nNo hashrate and difficulty history data was returned from the API.',
+          this.toStructuredContent(limitedSeries, data.length, params.query)
+        );
       }
 
       // Format as markdown
-      const markdown = this.formatAsMarkdown(limitedData, data.length);
+      const markdown = this.formatAsMarkdown(limitedData, data.length, limitedSeries, params.query);
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: markdown,
-          },
-        ],
-        isError: false,
-      };
+      return buildToolResponse(
+        format,
+        markdown,
+        this.toStructuredContent(limitedSeries, data.length, params.query),
+        params.includeChart ? [toSvgImageContent(this.renderChart(limitedData))] : []
+      );
     } catch (error) {
       return this.handleError(error);
     }
@@ -93,13 +170,19 @@ export class HashrateAndDifficultyHistoryTool {
   /**
    * Parse and validate input parameters
    */
-  private parseInput(input: unknown): { limit?: number } {
+  private parseInput(input: unknown): {
+    limit?: number;
+    includeChart?: boolean;
+    query: TimeSeriesQuery;
+  } {
     if (!input || typeof input !== 'object') {
-      return {};
+      return { query: parseTimeSeriesQuery({}) };
     }
 
     const params = input as Record<string, unknown>;
-    const result: { limit?: number } = {};
+    const result: { limit?: number; includeChart?: boolean; query: TimeSeriesQuery } = {
+      query: parseTimeSeriesQuery(params),
+    };
 
     if (params['limit'] !== undefined) {
       const limit = Number(params['limit']);
@@ -108,13 +191,94 @@ export class HashrateAndDifficultyHistoryTool {
       }
     }
 
+    if (params['include_chart'] === true) {
+      result.includeChart = true;
+    }
+
     return result;
   }
 
+  /**
+   * Convert data points to a time series
+   */
+  private toSeries(data: BraiinsInsightsHashDiffHistory[]): TimeSeriesPoint<SeriesField>[] {
+    return data.map((entry) => ({
+      date: entry.timestamp,
+      values: { hashrate_ehs: entry.hashrate_ehs, difficulty: entry.difficulty },
+    }));
+  }
+
+  /**
+   * Convert a time-series point back to a data point
+   */
+  private fromSeries(point: TimeSeriesPoint<SeriesField>): BraiinsInsightsHashDiffHistory {
+    return {
+      timestamp: point.date,
+      hashrate_ehs: point.values.hashrate_ehs ?? 0,
+      difficulty: point.values.difficulty ?? 0,
+    };
+  }
+
+  /**
+   * Normalize data points into the structured output payload
+   */
+  private toStructuredContent(
+    series: TimeSeriesPoint<SeriesField>[],
+    totalCount: number,
+    query: TimeSeriesQuery
+  ): HashrateAndDifficultyHistoryOutput {
+    return {
+      data_points: series.map((point) => ({
+        timestamp: point.date,
+        hashrate_ehs: point.values.hashrate_ehs ?? 0,
+        difficulty: point.values.difficulty ?? 0,
+        ...toTimeSeriesPointContent(point),
+      })),
+      count: series.length,
+      total_available: totalCount,
+      query: toQueryContent(query),
+    };
+  }
+
+  /**
+   * Render hashrate and difficulty as an SVG chart, oldest first, with halvings
+   * and difficulty adjustments marked
+   */
+  private renderChart(data: BraiinsInsightsHashDiffHistory[]): string {
+    const points = [...data].reverse();
+    const dates = points.map((entry) => this.formatTimestamp(entry.timestamp));
+    const adjustments = points.flatMap((entry, index) =>
+      index > 0 && entry.difficulty !== points[index - 1]?.difficulty
+        ? [{ index, style: 'minor' as const }]
+        : []
+    );
+
+    return renderLineChartSvg({
+      title: 'Bitcoin Network Hashrate & Difficulty',
+      xLabels: dates,
+      series: [
+        { name: 'Hashrate', values: points.map((entry) => entry.hashrate_ehs) },
+        {
+          name: 'Difficulty',
+          values: points.map((entry) => entry.difficulty / 1e12),
+          axis: 'right',
+        },
+      ],
+      formatValue: (value) => `${value.toFixed(0)} EH/s`,
+      formatRightValue: (value) => `${value.toFixed(1)}T`,
+      annotations: [...adjustments, ...halvingAnnotations(dates)],
+    });
+  }
+
   /**
    * Format hashrate and difficulty history as markdown for LLM consumption
    */
-  private formatAsMarkdown(data: BraiinsInsightsHashDiffHistory[], totalCount: number): string {
+  private formatAsMarkdown(
+    data: BraiinsInsightsHashDiffHistory[],
+    totalCount: number,
+    series: TimeSeriesPoint<SeriesField>[],
+    query: TimeSeriesQuery
+  ): string {
     const sections: string[] = [];
 
     sections.push('# 📈 Bitcoin Network Hashrate & Difficulty History\n');
@@ -136,6 +300,10 @@ export class HashrateAndDifficultyHistoryTool {
     sections.push(
       `- **Data Points:** ${data.length}${totalCount > data.length ? ` (of ${totalCount} total)` : ''}`
     );
+    const window = describeTimeSeriesQuery(query);
+    if (window) {
+      sections.push(`- **Window:** ${window}`);
+    }
     sections.push(`- **Current Hashrate:** ${this.formatHashrate(hashrates[0] ?? 0)} EH/s`);
     sections.push(`- **Average Hashrate:** ${this.formatHashrate(avgHashrate)} EH/s`);
     sections.push(`- **Peak Hashrate:** ${this.formatHashrate(maxHashrate)} EH/s`);
@@ -156,15 +324,24 @@ export class HashrateAndDifficultyHistoryTool {
 
     // Recent data table (show last 15 entries)
     sections.push('\n## Recent Data Points\n');
-    sections.push('| Timestamp | Hashrate (EH/s) | Difficulty |');
-    sections.push('|-----------|-----------------|------------|');
+    const average = query.movingAverage;
+    sections.push(
+      `| Timestamp | Hashrate (EH/s) | Difficulty |${average ? ` ${average}-pt MA (EH/s) |` : ''}`
+    );
+    sections.push(
+      `|-----------|-----------------|------------|${average ? '------------------|' : ''}`
+    );
 
     const recentData = data.slice(0, 15);
-    for (const entry of recentData) {
+    for (const [index, entry] of recentData.entries()) {
       const timestamp = this.formatTimestamp(entry.timestamp);
       const hashrate = this.formatHashrate(entry.hashrate_ehs);
       const difficulty = this.formatDifficultyShort(entry.difficulty);
-      sections.push(`| ${timestamp} | ${hashrate} | ${difficulty} |`);
+      const movingAverage = series[index]?.movingAverage?.hashrate_ehs ?? null;
+      const averageCell = average
+        ? ` ${movingAverage !== null ? this.formatHashrate(movingAverage) : '–'} |`
+        : '';
+      sections.push(`| ${timestamp} | ${hashrate} | ${difficulty} |${averageCell}`);
     }
 
     if (data.length > 15) {
@@ -228,6 +405,21 @@ export class HashrateAndDifficultyHistoryTool {
    * Handle errors and return MCP error response
    */
   private handleError(error: unknown): MCPToolResponse {
+    if (error instanceof z.ZodError) {
+      const errorMessages = error.issues.map(
+        (err: z.ZodIssue) => `- ${err.path.join('.')}: ${err.message}`
+      );
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Validation Error**: Invalid input parameters\n\n${errorMessages.join('\n')}\n\nPlease check your input and try again.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
     if (error instanceof InsightsApiError) {
       return {
         content: [
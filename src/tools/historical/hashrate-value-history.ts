@@ -8,10 +8,60 @@
  * @see https://insights.braiins.com/api/v1.0/hashrate-value-history
  */
 
+import { z } from 'zod';
 import { BraiinsInsightsHashrateValue } from '../../types/insights-api.js';
 import { InsightsApiClient, InsightsApiError, NetworkError } from '../../api/insights-client.js';
+import {
+  OUTPUT_FORMAT_PROPERTY,
+  buildToolResponse,
+  getOutputFormat,
+  toOutputSchema,
+} from '../../utils/output-format.js';
+import { halvingAnnotations, renderLineChartSvg, toSvgImageContent } from '../../utils/charts.js';
+import {
+  TIME_SERIES_PROPERTIES,
+  TimeSeriesPoint,
+  TimeSeriesQuery,
+  TimeSeriesQueryOutputSchema,
+  describeEmptyWindow,
+  describeTimeSeriesQuery,
+  difficultyEpochs,
+  parseTimeSeriesQuery,
+  timeSeriesPointFields,
+  toQueryContent,
+  toTimeSeriesPointContent,
+  transformTimeSeries,
+} from '../../utils/time-series.js';
+import { ToolCategory } from '../categories.js';
 import type { MCPToolResponse } from '../index.js';
 
+/**
+ * Numeric fields of a data point, resampled and averaged as a time series
+ */
+const SERIES_FIELDS = ['hash_value_usd_per_th_day'] as const;
+
+type SeriesField = (typeof SERIES_FIELDS)[number];
+
+/**
+ * Structured output payload for hashrate value history
+ */
+const HashrateValueHistoryOutputSchema = z.object({
+  data_points: z
+    .array(
+      z.object({
+        date: z.string(),
+        hash_value_usd_per_th_day: z.number(),
+        ...timeSeriesPointFields(SERIES_FIELDS),
+      })
+    )
+    .describe('Data points, most recent first'),
+  count: z.number().describe('Number of data points returned'),
+  total_available: z.number().describe('Number of data points available from the API'),
+  query: TimeSeriesQueryOutputSchema,
+});
+
+export type HashrateValueHistoryOutput = z.infer<typeof HashrateValueHistoryOutputSchema>;
+
 /**
  * Hashrate Value History Tool
  *
@@ -27,6 +77,15 @@ export class HashrateValueHistoryTool {
     'Get historical Bitcoin hashrate value data. Returns time-series data showing ' +
     'the USD value per terahash per day (hash price), useful for analyzing mining economics trends.';
 
+  /** Tool category */
+  readonly category = ToolCategory.Historical;
+
+  /** Tags for tool discovery */
+  readonly tags = ['hashprice', 'revenue'];
+
+  /** Upstream API endpoints the tool calls */
+  readonly endpoints = ['/v1.0/hashrate-value-history', '/v1.0/hashrate-and-difficulty-history'];
+
   /** JSON schema for tool inputs (no required parameters) */
   readonly inputSchema = {
     type: 'object' as const,
@@ -34,57 +93,80 @@ export class HashrateValueHistoryTool {
       limit: {
         type: 'number',
         description:
-          'Maximum number of data points to return (most recent first). Default returns all available data.',
+          'Maximum number of data points to return (most recent first), applied after the ' +
+          'date window and resampling. Default returns all matching data.',
         minimum: 1,
         maximum: 365,
       },
+      ...TIME_SERIES_PROPERTIES,
+      include_chart: {
+        type: 'boolean',
+        description:
+          'Attach an SVG chart of hash value (USD/TH/day) as an image content block, with ' +
+          'halvings marked (default: false)',
+        default: false,
+      },
+      format: OUTPUT_FORMAT_PROPERTY,
     },
     required: [] as string[],
   };
 
+  /** JSON schema for structured output */
+  readonly outputSchema = toOutputSchema(HashrateValueHistoryOutputSchema);
+
   constructor(private readonly apiClient: InsightsApiClient) {}
 
   /**
    * Execute the tool
    *
-   * @param input - Optional limit parameter
-   * @returns MCP response with formatted markdown
+   * @param input - Optional limit, time-series and include_chart parameters
+   * @returns MCP response with formatted markdown and/or structured JSON
    */
   async execute(input: unknown): Promise<MCPToolResponse> {
     try {
       // Parse input
       const params = this.parseInput(input);
-
-      // Fetch data from API
-      const data = await this.apiClient.getHashrateValueHistory();
-
-      // Apply limit if specified
-      const limitedData = params.limit ? data.slice(0, params.limit) : data;
+      const format = getOutputFormat(input);
+
+      // Fetch data from API, with the difficulty history to find epoch boundaries;
+      // without it, epochs are estimated from the date
+      const [data, epochs] = await Promise.all([
+        this.apiClient.getHashrateValueHistory(),
+        params.query.resample === 'epoch' ? this.fetchEpochs().catch(() => undefined) : undefined,
+      ]);
+      const query: TimeSeriesQuery =
+        params.query.resample === 'epoch' && !epochs
+          ? { ...params.query, estimatedEpochs: true }
+          : params.query;
+
+      // Apply the date window, resampling and moving average, then the limit
+      const series = transformTimeSeries(
+        this.toSeries(data),
+        query,
+        epochs && ((point) => epochs(point.date))
+      );
+      const limitedSeries = params.limit ? series.slice(0, params.limit) : series;
+      const limitedData = limitedSeries.map((point) => this.fromSeries(point));
 
       if (limitedData.length === 0) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: '⚠️ **No Data Available**\n\nNo hashrate value history data was returned from the API.',
-            },
-          ],
-          isError: false,
-        };
+        return buildToolResponse(
+          format,
+          data.length > 0
+            ? `⚠️ **No Data Available**\n\n${describeEmptyWindow(this.toSeries(data), query)}`
+            : '⚠️ **No Data Available**\n\nNo hashrate value history data was returned from the API.',
+          this.toStructuredContent(limitedSeries, data.length, query)
+        );
       }
 
       // Format as markdown
-      const markdown = this.formatAsMarkdown(limitedData, data.length);
+      const markdown = this.formatAsMarkdown(limitedData, data.length, limitedSeries, query);
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: markdown,
-          },
-        ],
-        isError: false,
-      };
+      return buildToolResponse(
+        format,
+        markdown,
+        this.toStructuredContent(limitedSeries, data.length, query),
+        params.includeChart ? [toSvgImageContent(this.renderChart(limitedData))] : []
+      );
     } catch (error) {
       return this.handleError(error);
     }
@@ -93,13 +175,19 @@ export class HashrateValueHistoryTool {
   /**
    * Parse and validate input parameters
    */
-  private parseInput(input: unknown): { limit?: number } {
+  private parseInput(input: unknown): {
+    limit?: number;
+    includeChart?: boolean;
+    query: TimeSeriesQuery;
+  } {
     if (!input || typeof input !== 'object') {
-      return {};
+      return { query: parseTimeSeriesQuery({}) };
     }
 
     const params = input as Record<string, unknown>;
-    const result: { limit?: number } = {};
+    const result: { limit?: number; includeChart?: boolean; query: TimeSeriesQuery } = {
+      query: parseTimeSeriesQuery(params),
+    };
 
     if (params['limit'] !== undefined) {
       const limit = Number(params['limit']);
@@ -108,13 +196,93 @@ export class HashrateValueHistoryTool {
       }
     }
 
+    if (params['include_chart'] === true) {
+      result.includeChart = true;
+    }
+
     return result;
   }
 
+  /**
+   * Difficulty epoch of each date, from the hashrate and difficulty history
+   */
+  private async fetchEpochs(): Promise<(date: string) => number> {
+    const history = await this.apiClient.getHashrateAndDifficultyHistory();
+    return difficultyEpochs(
+      history.map((entry) => ({ date: entry.timestamp, difficulty: entry.difficulty }))
+    );
+  }
+
+  /**
+   * Convert data points to a time series
+   */
+  private toSeries(data: BraiinsInsightsHashrateValue[]): TimeSeriesPoint<SeriesField>[] {
+    return data.map((entry) => ({
+      date: entry.date,
+      values: { hash_value_usd_per_th_day: entry.hash_value_usd_per_th_day },
+    }));
+  }
+
+  /**
+   * Convert a time-series point back to a data point
+   */
+  private fromSeries(point: TimeSeriesPoint<SeriesField>): BraiinsInsightsHashrateValue {
+    return {
+      date: point.date,
+      hash_value_usd_per_th_day: point.values.hash_value_usd_per_th_day ?? 0,
+    };
+  }
+
+  /**
+   * Normalize data points into the structured output payload
+   */
+  private toStructuredContent(
+    series: TimeSeriesPoint<SeriesField>[],
+    totalCount: number,
+    query: TimeSeriesQuery
+  ): HashrateValueHistoryOutput {
+    return {
+      data_points: series.map((point) => ({
+        date: point.date,
+        hash_value_usd_per_th_day: point.values.hash_value_usd_per_th_day ?? 0,
+        ...toTimeSeriesPointContent(point),
+      })),
+      count: series.length,
+      total_available: totalCount,
+      query: toQueryContent(query),
+    };
+  }
+
+  /**
+   * Render hash value as an SVG chart, oldest first, with halvings marked
+   */
+  private renderChart(data: BraiinsInsightsHashrateValue[]): string {
+    const points = [...data].reverse();
+    const dates = points.map((entry) => entry.date);
+
+    return renderLineChartSvg({
+      title: 'Bitcoin Hashrate Value (USD/TH/day)',
+      xLabels: dates,
+      series: [
+        {
+          name: 'Hash value',
+          values: points.map((entry) => entry.hash_value_usd_per_th_day),
+        },
+      ],
+      formatValue: (value) => `$${this.formatHashValue(value)}`,
+      annotations: halvingAnnotations(dates),
+    });
+  }
+
   /**
    * Format hashrate value history as markdown for LLM consumption
    */
-  private formatAsMarkdown(data: BraiinsInsightsHashrateValue[], totalCount: number): string {
+  private formatAsMarkdown(
+    data: BraiinsInsightsHashrateValue[],
+    totalCount: number,
+    series: TimeSeriesPoint<SeriesField>[],
+    query: TimeSeriesQuery
+  ): string {
     const sections: string[] = [];
 
     sections.push('# 💵 Bitcoin Hashrate Value History\n');
@@ -132,6 +300,10 @@ export class HashrateValueHistoryTool {
     sections.push(
       `- **Data Points:** ${data.length}${totalCount > data.length ? ` (of ${totalCount} total)` : ''}`
     );
+    const window = describeTimeSeriesQuery(query);
+    if (window) {
+      sections.push(`- **Window:** ${window}`);
+    }
     sections.push(`- **Current Hash Value:** $${this.formatHashValue(currentValue)} /TH/day`);
     sections.push(`- **Average Hash Value:** $${this.formatHashValue(avgValue)} /TH/day`);
     sections.push(`- **Peak Hash Value:** $${this.formatHashValue(maxValue)} /TH/day`);
@@ -163,8 +335,13 @@ export class HashrateValueHistoryTool {
 
     // Recent data table (show last 10 entries)
     sections.push('\n## Recent Hash Value Data\n');
-    sections.push('| Date | Hash Value (USD/TH/day) | Daily Change |');
-    sections.push('|------|-------------------------|--------------|');
+    const average = query.movingAverage;
+    sections.push(
+      `| Date | Hash Value (USD/TH/day) | ${query.resample ? 'Change' : 'Daily Change'} |${average ? ` ${average}-pt MA |` : ''}`
+    );
+    sections.push(
+      `|------|-------------------------|--------------|${average ? '----------|' : ''}`
+    );
 
     const recentData = data.slice(0, 10);
     for (let i = 0; i < recentData.length; i++) {
@@ -184,8 +361,12 @@ export class HashrateValueHistoryTool {
         }
       }
 
+      const movingAverage = series[i]?.movingAverage?.hash_value_usd_per_th_day ?? null;
+      const averageCell = average
+        ? ` ${movingAverage !== null ? `$${this.formatHashValue(movingAverage)}` : '–'} |`
+        : '';
       sections.push(
-        `| ${entry.date} | $${this.formatHashValue(entry.hash_value_usd_per_th_day)} | ${change} |`
+        `| ${entry.date} | $${this.formatHashValue(entry.hash_value_usd_per_th_day)} | ${change} |${averageCell}`
       );
     }
 
@@ -223,6 +404,21 @@ export class HashrateValueHistoryTool {
    * Handle errors and return MCP error response
    */
   private handleError(error: unknown): MCPToolResponse {
+    if (error instanceof z.ZodError) {
+      const errorMessages = error.issues.map(
+        (err: z.ZodIssue) => `- ${err.path.join('.')}: ${err.message}`
+      );
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Validation Error**: Invalid input parameters\n\n${errorMessages.join('\n')}\n\nPlease check your input and try again.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
     if (error instanceof InsightsApiError) {
       return {
         content: [
@@ -10,4 +10,5 @@
 export { DailyRevenueHistoryTool } from './daily-revenue-history.js';
 export { HashrateAndDifficultyHistoryTool } from './hashrate-and-difficulty-history.js';
 export { HashrateValueHistoryTool } from './hashrate-value-history.js';
+export { SnapshotHistoryTool } from './snapshot-history.js';
 export { TransactionFeesHistoryTool } from './transaction-fees-history.js';
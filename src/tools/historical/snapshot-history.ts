@@ -0,0 +1,396 @@
+/**
+ * MCP Tool: braiins_snapshot_history
+ *
+ * Queries metrics recorded locally by the snapshot recorder. Braiins Insights only
+ * exposes current values for hashrate stats, price, mempool and pool stats; the
+ * recorder samples them periodically so their history can be inspected here.
+ *
+ * @category Historical Data Tool
+ */
+
+import { z } from 'zod';
+import { SNAPSHOT_SOURCES, Snapshot, SnapshotStore } from '../../snapshots/snapshot-store.js';
+import {
+  OUTPUT_FORMAT_PROPERTY,
+  buildToolResponse,
+  getOutputFormat,
+  toOutputSchema,
+} from '../../utils/output-format.js';
+import { ToolCategory } from '../categories.js';
+import type { MCPToolResponse } from '../index.js';
+
+/**
+ * Default query window when no start is given (hours)
+ */
+const DEFAULT_WINDOW_HOURS = 24;
+
+/**
+ * Maximum query window (hours)
+ */
+const MAX_WINDOW_HOURS = 24 * 365;
+
+const HOUR_MS = 3_600_000;
+
+/**
+ * Structured output payload for snapshot history
+ */
+const SnapshotHistoryOutputSchema = z.object({
+  metric: z.string().nullable().describe('Queried metric, or null when listing metrics'),
+  window: z.object({
+    start: z.string().describe('Window start (ISO 8601)'),
+    end: z.string().describe('Window end (ISO 8601)'),
+  }),
+  available_metrics: z
+    .array(
+      z.object({
+        metric: z.string(),
+        source: z.enum(SNAPSHOT_SOURCES),
+        samples: z.number(),
+        last_recorded: z.string().describe('Most recent sample time (ISO 8601)'),
+      })
+    )
+    .describe('Metrics recorded in the window'),
+  data_points: z
+    .array(
+      z.object({
+        timestamp: z.string().describe('Sample time (ISO 8601)'),
+        value: z.number(),
+      })
+    )
+    .describe('Samples of the queried metric, oldest first'),
+  count: z.number().describe('Number of data points returned'),
+  total_available: z.number().describe('Number of samples recorded in the window'),
+  summary: z
+    .object({
+      min: z.number(),
+      max: z.number(),
+      avg: z.number(),
+      first: z.number(),
+      last: z.number(),
+      change_percent: z.number().nullable(),
+    })
+    .nullable()
+    .describe('Statistics over the returned data points'),
+});
+
+type SnapshotHistoryOutput = z.infer<typeof SnapshotHistoryOutputSchema>;
+
+/**
+ * Zod schema for snapshot history input validation
+ */
+const SnapshotHistoryInputSchema = z
+  .object({
+    metric: z
+      .string()
+      .trim()
+      .min(1, 'Metric cannot be empty')
+      .optional()
+      .describe('Metric name, e.g. hashrate.current_hashrate'),
+    source: z.enum(SNAPSHOT_SOURCES).optional().describe('Only metrics from this source'),
+    start: z.iso.datetime({ offset: true }).optional().describe('Window start (ISO 8601)'),
+    end: z.iso.datetime({ offset: true }).optional().describe('Window end (ISO 8601)'),
+    hours: z
+      .number()
+      .positive('Hours must be positive')
+      .max(MAX_WINDOW_HOURS, `Hours cannot exceed ${MAX_WINDOW_HOURS}`)
+      .optional()
+      .describe('Window length ending at `end` (ignored when `start` is given)'),
+    limit: z
+      .number()
+      .int()
+      .min(1, 'Limit must be at least 1')
+      .max(1000, 'Limit cannot exceed 1000')
+      .default(100)
+      .describe('Maximum number of data points (most recent kept)'),
+  })
+  .refine(
+    (input) =>
+      input.start === undefined ||
+      input.end === undefined ||
+      Date.parse(input.start) <= Date.parse(input.end),
+    { message: 'start cannot be later than end', path: ['start'] }
+  );
+
+type SnapshotHistoryInput = z.infer<typeof SnapshotHistoryInputSchema>;
+
+/**
+ * Snapshot History Tool
+ *
+ * Historical data tool over locally recorded snapshots of current-value endpoints.
+ * Without a metric it lists what has been recorded; with one it returns the
+ * metric's samples and summary statistics for the window.
+ */
+export class SnapshotHistoryTool {
+  /** MCP tool name */
+  readonly name = 'braiins_snapshot_history';
+
+  /** Tool description shown to LLM */
+  readonly description =
+    'Query locally recorded history of metrics the Braiins Insights API only reports as ' +
+    'current values (network hashrate, hash price, BTC price, mempool, pool hashrates). ' +
+    'Call without `metric` to list recorded metrics, then pass a metric name to get its ' +
+    'samples and min/max/average over a time window (default: last 24 hours).';
+
+  /** Tool category */
+  readonly category = ToolCategory.Historical;
+
+  /** Tags for tool discovery */
+  readonly tags = ['hashrate', 'hashprice', 'price', 'mempool', 'pools'];
+
+  /** Upstream API endpoints the tool calls (none: reads the local snapshot store) */
+  readonly endpoints = [] as string[];
+
+  /** JSON schema for tool inputs */
+  readonly inputSchema = {
+    type: 'object' as const,
+    properties: {
+      metric: {
+        type: 'string',
+        description:
+          'Metric name, e.g. "hashrate.current_hashrate", "price.price", ' +
+          '"transactions.mempool_size" or "pools.Foundry USA.hashrate_percent". Omit to list metrics.',
+      },
+      source: {
+        type: 'string',
+        enum: [...SNAPSHOT_SOURCES],
+        description: 'Only list metrics from this source',
+      },
+      start: {
+        type: 'string',
+        description: 'Window start (ISO 8601 date-time)',
+      },
+      end: {
+        type: 'string',
+        description: 'Window end (ISO 8601 date-time, default: now)',
+      },
+      hours: {
+        type: 'number',
+        description: `Window length in hours ending at \`end\`, used when \`start\` is omitted (default: ${DEFAULT_WINDOW_HOURS})`,
+        minimum: 0,
+        maximum: MAX_WINDOW_HOURS,
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of data points, most recent kept (default: 100)',
+        default: 100,
+        minimum: 1,
+        maximum: 1000,
+      },
+      format: OUTPUT_FORMAT_PROPERTY,
+    },
+    required: [] as string[],
+  };
+
+  /** JSON schema for structured output */
+  readonly outputSchema = toOutputSchema(SnapshotHistoryOutputSchema);
+
+  constructor(private readonly store: SnapshotStore) {}
+
+  /**
+   * Execute the tool
+   *
+   * @param input - Tool input parameters (metric, source, start, end, hours, limit)
+   * @returns MCP response with formatted markdown and/or structured JSON
+   */
+  async execute(input: unknown): Promise<MCPToolResponse> {
+    try {
+      const params = SnapshotHistoryInputSchema.parse(input ?? {});
+      const format = getOutputFormat(input);
+
+      const end = params.end !== undefined ? Date.parse(params.end) : Date.now();
+      const start =
+        params.start !== undefined
+          ? Date.parse(params.start)
+          : end - (params.hours ?? DEFAULT_WINDOW_HOURS) * HOUR_MS;
+
+      const snapshots = await this.store.query({ source: params.source, start, end });
+      const output = this.toStructuredContent(params, snapshots, start, end);
+
+      return buildToolResponse(format, this.formatAsMarkdown(output), output);
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Build the structured output payload from the matching snapshots
+   */
+  private toStructuredContent(
+    params: SnapshotHistoryInput,
+    snapshots: Snapshot[],
+    start: number,
+    end: number
+  ): SnapshotHistoryOutput {
+    const available = new Map<string, SnapshotHistoryOutput['available_metrics'][number]>();
+    for (const snapshot of snapshots) {
+      for (const metric of Object.keys(snapshot.metrics)) {
+        const entry = available.get(metric);
+        available.set(metric, {
+          metric,
+          source: snapshot.source,
+          samples: (entry?.samples ?? 0) + 1,
+          last_recorded: new Date(snapshot.timestamp).toISOString(),
+        });
+      }
+    }
+
+    const allPoints = params.metric
+      ? snapshots.flatMap((snapshot) => {
+          const value = params.metric ? snapshot.metrics[params.metric] : undefined;
+          return value === undefined
+            ? []
+            : [{ timestamp: new Date(snapshot.timestamp).toISOString(), value }];
+        })
+      : [];
+    const points = allPoints.slice(-params.limit);
+
+    return {
+      metric: params.metric ?? null,
+      window: { start: new Date(start).toISOString(), end: new Date(end).toISOString() },
+      available_metrics: [...available.values()].sort((a, b) => a.metric.localeCompare(b.metric)),
+      data_points: points,
+      count: points.length,
+      total_available: allPoints.length,
+      summary: this.summarize(points.map((point) => point.value)),
+    };
+  }
+
+  /**
+   * Summary statistics over a series (null when empty)
+   */
+  private summarize(values: number[]): SnapshotHistoryOutput['summary'] {
+    const first = values[0];
+    const last = values[values.length - 1];
+    if (first === undefined || last === undefined) {
+      return null;
+    }
+
+    return {
+      min: Math.min(...values),
+      max: Math.max(...values),
+      avg: values.reduce((a, b) => a + b, 0) / values.length,
+      first,
+      last,
+      change_percent: first !== 0 ? ((last - first) / Math.abs(first)) * 100 : null,
+    };
+  }
+
+  /**
+   * Format snapshot history as markdown for LLM consumption
+   */
+  private formatAsMarkdown(output: SnapshotHistoryOutput): string {
+    const sections: string[] = [];
+    const window = `${output.window.start} to ${output.window.end}`;
+
+    if (output.metric === null) {
+      sections.push('# 🗂️ Recorded Snapshot Metrics\n');
+      sections.push(`**Window:** ${window}\n`);
+
+      if (output.available_metrics.length === 0) {
+        sections.push(
+          '⚠️ **No Snapshots Recorded**\n\nNo snapshots were recorded in this window. ' +
+            'Snapshot recording is off by default; enable it with `--snapshots` or ' +
+            '`INSIGHTS_SNAPSHOTS_ENABLED=true`, or wait until the server has been running long enough.'
+        );
+        return sections.join('\n');
+      }
+
+      sections.push('| Metric | Source | Samples | Last Recorded |');
+      sections.push('|--------|--------|---------|---------------|');
+      for (const entry of output.available_metrics) {
+        sections.push(
+          `| \`${entry.metric}\` | ${entry.source} | ${entry.samples} | ${entry.last_recorded} |`
+        );
+      }
+      sections.push('\n*Pass one of these names as `metric` to get its history.*');
+      return sections.join('\n');
+    }
+
+    sections.push(`# 📼 Snapshot History: \`${output.metric}\`\n`);
+    sections.push(`**Window:** ${window}\n`);
+
+    if (output.summary === null) {
+      sections.push(
+        `⚠️ **No Data Available**\n\nNo samples of \`${output.metric}\` were recorded in this window.`
+      );
+      if (output.available_metrics.length > 0) {
+        sections.push('\nRecorded metrics in this window:\n');
+        for (const entry of output.available_metrics.slice(0, 20)) {
+          sections.push(`- \`${entry.metric}\``);
+        }
+      }
+      return sections.join('\n');
+    }
+
+    const { summary } = output;
+    sections.push('## Summary Statistics\n');
+    sections.push(
+      `- **Data Points:** ${output.count}${output.total_available > output.count ? ` (of ${output.total_available} recorded)` : ''}`
+    );
+    sections.push(`- **Latest:** ${this.formatValue(summary.last)}`);
+    sections.push(`- **Average:** ${this.formatValue(summary.avg)}`);
+    sections.push(`- **High:** ${this.formatValue(summary.max)}`);
+    sections.push(`- **Low:** ${this.formatValue(summary.min)}`);
+    if (summary.change_percent !== null) {
+      const sign = summary.change_percent >= 0 ? '+' : '';
+      sections.push(`- **Window Change:** ${sign}${summary.change_percent.toFixed(2)}%`);
+    }
+
+    sections.push('\n## Recent Samples\n');
+    sections.push('| Time (UTC) | Value |');
+    sections.push('|------------|-------|');
+    for (const point of output.data_points.slice(-10).reverse()) {
+      sections.push(`| ${point.timestamp} | ${this.formatValue(point.value)} |`);
+    }
+    if (output.count > 10) {
+      sections.push(`\n*Showing 10 of ${output.count} data points*`);
+    }
+
+    sections.push('\n---\n');
+    sections.push(
+      '*Recorded locally from the [Braiins Insights Dashboard](https://insights.braiins.com) API*'
+    );
+
+    return sections.join('\n');
+  }
+
+  /**
+   * Format a metric value with precision suited to its magnitude
+   */
+  private formatValue(value: number): string {
+    if (value !== 0 && Math.abs(value) < 0.001) {
+      return value.toExponential(3);
+    }
+    return value.toLocaleString('en-US', { maximumFractionDigits: 4 });
+  }
+
+  /**
+   * Handle errors and return MCP error response
+   */
+  private handleError(error: unknown): MCPToolResponse {
+    if (error instanceof z.ZodError) {
+      const errorMessages = error.issues.map(
+        (err: z.ZodIssue) => `- ${err.path.join('.')}: ${err.message}`
+      );
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Validation Error**: Invalid input parameters\n\n${errorMessages.join('\n')}\n\nPlease check your input and try again.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `❌ **Unexpected Error**: ${error instanceof Error ? error.message : String(error)}\n\nPlease report this issue if it persists.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -8,10 +8,61 @@
  * @see https://insights.braiins.com/api/v1.0/transaction-fees-history
  */
 
+import { z } from 'zod';
 import { BraiinsInsightsTransactionFees } from '../../types/insights-api.js';
 import { InsightsApiClient, InsightsApiError, NetworkError } from '../../api/insights-client.js';
+import {
+  OUTPUT_FORMAT_PROPERTY,
+  buildToolResponse,
+  getOutputFormat,
+  toOutputSchema,
+} from '../../utils/output-format.js';
+import { halvingAnnotations, renderLineChartSvg, toSvgImageContent } from '../../utils/charts.js';
+import {
+  TIME_SERIES_PROPERTIES,
+  TimeSeriesPoint,
+  TimeSeriesQuery,
+  TimeSeriesQueryOutputSchema,
+  describeEmptyWindow,
+  describeTimeSeriesQuery,
+  difficultyEpochs,
+  parseTimeSeriesQuery,
+  timeSeriesPointFields,
+  toQueryContent,
+  toTimeSeriesPointContent,
+  transformTimeSeries,
+} from '../../utils/time-series.js';
+import { ToolCategory } from '../categories.js';
 import type { MCPToolResponse } from '../index.js';
 
+/**
+ * Numeric fields of a data point, resampled and averaged as a time series
+ */
+const SERIES_FIELDS = ['avg_fee_btc', 'avg_fee_usd'] as const;
+
+type SeriesField = (typeof SERIES_FIELDS)[number];
+
+/**
+ * Structured output payload for transaction fees history
+ */
+const TransactionFeesHistoryOutputSchema = z.object({
+  data_points: z
+    .array(
+      z.object({
+        date: z.string(),
+        avg_fee_btc: z.number(),
+        avg_fee_usd: z.number().nullable(),
+        ...timeSeriesPointFields(SERIES_FIELDS),
+      })
+    )
+    .describe('Data points, most recent first'),
+  count: z.number().describe('Number of data points returned'),
+  total_available: z.number().describe('Number of data points available from the API'),
+  query: TimeSeriesQueryOutputSchema,
+});
+
+export type TransactionFeesHistoryOutput = z.infer<typeof TransactionFeesHistoryOutputSchema>;
+
 /**
  * Transaction Fees History Tool
  *
@@ -27,6 +78,15 @@ export class TransactionFeesHistoryTool {
     'Get historical Bitcoin transaction fee data. Returns time-series data showing ' +
     'average fees in BTC and sats/vbyte, useful for analyzing fee market trends and miner fee revenue.';
 
+  /** Tool category */
+  readonly category = ToolCategory.Historical;
+
+  /** Tags for tool discovery */
+  readonly tags = ['fees', 'transactions'];
+
+  /** Upstream API endpoints the tool calls */
+  readonly endpoints = ['/v1.0/transaction-fees-history', '/v1.0/hashrate-and-difficulty-history'];
+
   /** JSON schema for tool inputs (no required parameters) */
   readonly inputSchema = {
     type: 'object' as const,
@@ -34,57 +94,80 @@ export class TransactionFeesHistoryTool {
       limit: {
         type: 'number',
         description:
-          'Maximum number of data points to return (most recent first). Default returns all available data.',
+          'Maximum number of data points to return (most recent first), applied after the ' +
+          'date window and resampling. Default returns all matching data.',
         minimum: 1,
         maximum: 365,
       },
+      ...TIME_SERIES_PROPERTIES,
+      include_chart: {
+        type: 'boolean',
+        description:
+          'Attach an SVG chart of average fees in BTC (left axis) and USD (right axis) as an ' +
+          'image content block, with halvings marked (default: false)',
+        default: false,
+      },
+      format: OUTPUT_FORMAT_PROPERTY,
     },
     required: [] as string[],
   };
 
+  /** JSON schema for structured output */
+  readonly outputSchema = toOutputSchema(TransactionFeesHistoryOutputSchema);
+
   constructor(private readonly apiClient: InsightsApiClient) {}
 
   /**
    * Execute the tool
    *
-   * @param input - Optional limit parameter
-   * @returns MCP response with formatted markdown
+   * @param input - Optional limit, time-series and include_chart parameters
+   * @returns MCP response with formatted markdown and/or structured JSON
    */
   async execute(input: unknown): Promise<MCPToolResponse> {
     try {
       // Parse input
       const params = this.parseInput(input);
-
-      // Fetch data from API
-      const data = await this.apiClient.getTransactionFeesHistory();
-
-      // Apply limit if specified
-      const limitedData = params.limit ? data.slice(0, params.limit) : data;
+      const format = getOutputFormat(input);
+
+      // Fetch data from API, with the difficulty history to find epoch boundaries;
+      // without it, epochs are estimated from the date
+      const [data, epochs] = await Promise.all([
+        this.apiClient.getTransactionFeesHistory(),
+        params.query.resample === 'epoch' ? this.fetchEpochs().catch(() => undefined) : undefined,
+      ]);
+      const query: TimeSeriesQuery =
+        params.query.resample === 'epoch' && !epochs
+          ? { ...params.query, estimatedEpochs: true }
+          : params.query;
+
+      // Apply the date window, resampling and moving average, then the limit
+      const series = transformTimeSeries(
+        this.toSeries(data),
+        query,
+        epochs && ((point) => epochs(point.date))
+      );
+      const limitedSeries = params.limit ? series.slice(0, params.limit) : series;
+      const limitedData = limitedSeries.map((point) => this.fromSeries(point));
 
       if (limitedData.length === 0) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: '⚠️ **No Data Available**\n\nNo transaction fees history data was returned from the API.',
-            },
-          ],
-          isError: false,
-        };
+        return buildToolResponse(
+          format,
+          data.length > 0
+            ? `⚠️ **No Data Available**\n\n${describeEmptyWindow(this.toSeries(data), query)}`
+            : '⚠️ **No Data Available**\n\nNo transaction fees history data was returned from the API.',
+          this.toStructuredContent(limitedSeries, data.length, query)
+        );
       }
 
       // Format as markdown
-      const markdown = this.formatAsMarkdown(limitedData, data.length);
+      const markdown = this.formatAsMarkdown(limitedData, data.length, limitedSeries, query);
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: markdown,
-          },
-        ],
-        isError: false,
-      };
+      return buildToolResponse(
+        format,
+        markdown,
+        this.toStructuredContent(limitedSeries, data.length, query),
+        params.includeChart ? [toSvgImageContent(this.renderChart(limitedData))] : []
+      );
     } catch (error) {
       return this.handleError(error);
     }
@@ -93,13 +176,19 @@ export class TransactionFeesHistoryTool {
   /**
    * Parse and validate input parameters
    */
-  private parseInput(input: unknown): { limit?: number } {
+  private parseInput(input: unknown): {
+    limit?: number;
+    includeChart?: boolean;
+    query: TimeSeriesQuery;
+  } {
     if (!input || typeof input !== 'object') {
-      return {};
+      return { query: parseTimeSeriesQuery({}) };
     }
 
     const params = input as Record<string, unknown>;
-    const result: { limit?: number } = {};
+    const result: { limit?: number; includeChart?: boolean; query: TimeSeriesQuery } = {
+      query: parseTimeSeriesQuery(params),
+    };
 
     if (params['limit'] !== undefined) {
       const limit = Number(params['limit']);
@@ -108,13 +197,99 @@ export class TransactionFeesHistoryTool {
       }
     }
 
+    if (params['include_chart'] === true) {
+      result.includeChart = true;
+    }
+
     return result;
   }
 
+  /**
+   * Difficulty epoch of each date, from the hashrate and difficulty history
+   */
+  private async fetchEpochs(): Promise<(date: string) => number> {
+    const history = await this.apiClient.getHashrateAndDifficultyHistory();
+    return difficultyEpochs(
+      history.map((entry) => ({ date: entry.timestamp, difficulty: entry.difficulty }))
+    );
+  }
+
+  /**
+   * Convert data points to a time series
+   */
+  private toSeries(data: BraiinsInsightsTransactionFees[]): TimeSeriesPoint<SeriesField>[] {
+    return data.map((entry) => ({
+      date: entry.date,
+      values: { avg_fee_btc: entry.avg_fee_btc, avg_fee_usd: entry.avg_fee_usd ?? null },
+    }));
+  }
+
+  /**
+   * Convert a time-series point back to a data point
+   */
+  private fromSeries(point: TimeSeriesPoint<SeriesField>): BraiinsInsightsTransactionFees {
+    return {
+      date: point.date,
+      avg_fee_btc: point.values.avg_fee_btc ?? 0,
+      ...(point.values.avg_fee_usd !== null ? { avg_fee_usd: point.values.avg_fee_usd } : {}),
+    };
+  }
+
+  /**
+   * Normalize data points into the structured output payload
+   */
+  private toStructuredContent(
+    series: TimeSeriesPoint<SeriesField>[],
+    totalCount: number,
+    query: TimeSeriesQuery
+  ): TransactionFeesHistoryOutput {
+    return {
+      data_points: series.map((point) => ({
+        date: point.date,
+        avg_fee_btc: point.values.avg_fee_btc ?? 0,
+        avg_fee_usd: point.values.avg_fee_usd,
+        ...toTimeSeriesPointContent(point),
+      })),
+      count: series.length,
+      total_available: totalCount,
+      query: toQueryContent(query),
+    };
+  }
+
+  /**
+   * Render average fees as an SVG chart, oldest first, with halvings marked
+   *
+   * Fees in USD are drawn on the right axis when available.
+   */
+  private renderChart(data: BraiinsInsightsTransactionFees[]): string {
+    const points = [...data].reverse();
+    const dates = points.map((entry) => entry.date);
+    const feesUsd = points.map((entry) => entry.avg_fee_usd ?? null);
+
+    return renderLineChartSvg({
+      title: 'Bitcoin Average Transaction Fee',
+      xLabels: dates,
+      series: [
+        { name: 'Avg fee', values: points.map((entry) => entry.avg_fee_btc) },
+        ...(feesUsd.some((value) => value !== null)
+          ? [{ name: 'Avg fee in USD', values: feesUsd, axis: 'right' as const }]
+          : []),
+      ],
+      formatValue: (value) => this.formatBtc(value),
+      formatRightValue: (value) => `$${value.toFixed(2)}`,
+      annotations: halvingAnnotations(dates),
+    });
+  }
+
   /**
    * Format transaction fees history as markdown for LLM consumption
    */
-  private formatAsMarkdown(data: BraiinsInsightsTransactionFees[], totalCount: number): string {
+  private formatAsMarkdown(
+    data: BraiinsInsightsTransactionFees[],
+    totalCount: number,
+    series: TimeSeriesPoint<SeriesField>[],
+    query: TimeSeriesQuery
+  ): string {
     const sections: string[] = [];
 
     sections.push('# 📊 Bitcoin Transaction Fees History\n');
@@ -132,6 +307,10 @@ export class TransactionFeesHistoryTool {
     sections.push(
       `- **Data Points:** ${data.length}${totalCount > data.length ? ` (of ${totalCount} total)` : ''}`
     );
+    const window = describeTimeSeriesQuery(query);
+    if (window) {
+      sections.push(`- **Window:** ${window}`);
+    }
     sections.push(`- **Current Avg Fee:** ${this.formatBtc(currentFee)} BTC`);
     sections.push(`- **Average Fee:** ${this.formatBtc(avgFee)} BTC`);
     sections.push(`- **Highest Avg Fee:** ${this.formatBtc(maxFee)} BTC`);
@@ -163,8 +342,13 @@ export class TransactionFeesHistoryTool {
 
     // Recent data table (show last 10 entries)
     sections.push('\n## Recent Transaction Fee Data\n');
-    sections.push('| Date | Avg Fee (BTC) | Avg Fee (sats) | Daily Change |');
-    sections.push('|------|---------------|----------------|--------------|');
+    const average = query.movingAverage;
+    sections.push(
+      `| Date | Avg Fee (BTC) | Avg Fee (sats) | ${query.resample ? 'Change' : 'Daily Change'} |${average ? ` ${average}-pt MA (BTC) |` : ''}`
+    );
+    sections.push(
+      `|------|---------------|----------------|--------------|${average ? '-----------------|' : ''}`
+    );
 
     const recentData = data.slice(0, 10);
     for (let i = 0; i < recentData.length; i++) {
@@ -184,8 +368,12 @@ export class TransactionFeesHistoryTool {
         }
       }
 
+      const movingAverage = series[i]?.movingAverage?.avg_fee_btc ?? null;
+      const averageCell = average
+        ? ` ${movingAverage !== null ? this.formatBtc(movingAverage) : '–'} |`
+        : '';
       sections.push(
-        `| ${entry.date} | ${this.formatBtc(entry.avg_fee_btc)} | ${feeSats.toLocaleString()} | ${change} |`
+        `| ${entry.date} | ${this.formatBtc(entry.avg_fee_btc)} | ${feeSats.toLocaleString()} | ${change} |${averageCell}`
       );
     }
 
@@ -222,6 +410,21 @@ export class TransactionFeesHistoryTool {
    * Handle errors and return MCP error response
    */
   private handleError(error: unknown): MCPToolResponse {
+    if (error instanceof z.ZodError) {
+      const errorMessages = error.issues.map(
+        (err: z.ZodIssue) => `- ${err.path.join('.')}: ${err.message}`
+      );
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Validation Error**: Invalid input parameters\n\n${errorMessages.join('\n')}\n\nPlease check your input and try again.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
     if (error instanceof InsightsApiError) {
       return {
         content: [
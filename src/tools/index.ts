@@ -13,25 +13,34 @@ import { PoolStatsTool } from './simple/pool-stats.js';
 import { RSSFeedDataTool } from './simple/rss-feed-data.js';
 import { HalvingsTool } from './simple/halvings.js';
 import { TransactionStatsTool } from './simple/transaction-stats.js';
+import { ApiSchemaReportTool } from './simple/api-schema-report.js';
 
 // Parameterized tools (require input)
 import { BlocksTool } from './parameterized/blocks.js';
 import { ProfitabilityCalculatorTool } from './parameterized/profitability-calculator.js';
 import { CostToMineTool } from './parameterized/cost-to-mine.js';
+import { HardwareCatalogTool } from './parameterized/hardware-catalog.js';
+import { BlocksByCountryTool } from './parameterized/blocks-by-country.js';
 
 // Historical tools (time-series data)
 import { DailyRevenueHistoryTool } from './historical/daily-revenue-history.js';
 import { HashrateAndDifficultyHistoryTool } from './historical/hashrate-and-difficulty-history.js';
 import { HashrateValueHistoryTool } from './historical/hashrate-value-history.js';
 import { TransactionFeesHistoryTool } from './historical/transaction-fees-history.js';
+import { SnapshotHistoryTool } from './historical/snapshot-history.js';
 
 // Composite tools (multi-endpoint aggregators)
 import { MiningOverviewTool } from './composite/mining-overview.js';
 import { ProfitabilityDeepDiveTool } from './composite/profitability-deep-dive.js';
 import { NetworkHealthMonitorTool } from './composite/network-health-monitor.js';
+import { FleetProfitabilityTool } from './composite/fleet-profitability.js';
+import { MiningMonteCarloTool } from './composite/mining-monte-carlo.js';
 
 // API client type
 import type { InsightsApiClient } from '../api/insights-client.js';
+import type { ToolOutputSchema } from '../utils/output-format.js';
+import { TOOL_CATEGORIES, ToolCategory } from './categories.js';
+import { MemorySnapshotStore, SnapshotStore } from '../snapshots/snapshot-store.js';
 
 /**
  * Tool registry interface
@@ -41,11 +50,19 @@ import type { InsightsApiClient } from '../api/insights-client.js';
 export interface MCPTool {
   readonly name: string;
   readonly description: string;
+  /** Registry category, used to enable or disable groups of tools */
+  readonly category: ToolCategory;
+  /** Topic tags for discovery (e.g. `hashprice`, `pools`) */
+  readonly tags: readonly string[];
+  /** Upstream API endpoints the tool calls */
+  readonly endpoints: readonly string[];
   readonly inputSchema: {
     type: 'object';
     properties: Record<string, unknown>;
     required: string[];
   };
+  /** JSON schema of the structured payload returned as `structuredContent` */
+  readonly outputSchema?: ToolOutputSchema;
   execute(input: unknown): Promise<MCPToolResponse>;
 }
 
@@ -53,24 +70,20 @@ export interface MCPTool {
  * MCP tool response format
  */
 export interface MCPToolResponse {
-  content: Array<{ type: 'text'; text: string }>;
+  /** Text blocks, then any image blocks (image blocks have no `text`) */
+  content: Array<
+    { type: 'text'; text: string } | { type: 'image'; data: string; mimeType: string; text?: never }
+  >;
+  /** Normalized payload matching the tool's `outputSchema` */
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
 }
 
-/**
- * Tool categories for organization
- */
-export enum ToolCategory {
-  Simple = 'simple', // No parameters (hashrate-stats, difficulty-stats)
-  Parameterized = 'parameterized', // Requires input (profitability-calculator)
-  Historical = 'historical', // Time-series data (hashrate-history)
-  Composite = 'composite', // Multi-endpoint aggregators
-}
-
 /**
  * Get all registered tools
  *
  * @param apiClient - Insights API client instance
+ * @param snapshotStore - Store of recorded snapshots queried by `braiins_snapshot_history`
  * @returns Array of tool instances ready for MCP registration
  *
  * @example
@@ -80,7 +93,10 @@ export enum ToolCategory {
  * tools.forEach(tool => server.registerTool(tool));
  * ```
  */
-export function getAllTools(apiClient: InsightsApiClient): MCPTool[] {
+export function getAllTools(
+  apiClient: InsightsApiClient,
+  snapshotStore: SnapshotStore = new MemorySnapshotStore()
+): MCPTool[] {
   return [
     // Simple tools (no parameters)
     new HashrateStatsTool(apiClient),
@@ -90,25 +106,92 @@ export function getAllTools(apiClient: InsightsApiClient): MCPTool[] {
     new RSSFeedDataTool(apiClient),
     new HalvingsTool(apiClient),
     new TransactionStatsTool(apiClient),
+    new ApiSchemaReportTool(apiClient),
 
     // Parameterized tools (require input)
     new BlocksTool(apiClient),
     new ProfitabilityCalculatorTool(apiClient),
     new CostToMineTool(apiClient),
+    new HardwareCatalogTool(apiClient),
+    new BlocksByCountryTool(apiClient),
 
     // Historical tools (time-series data)
     new DailyRevenueHistoryTool(apiClient),
     new HashrateAndDifficultyHistoryTool(apiClient),
     new HashrateValueHistoryTool(apiClient),
     new TransactionFeesHistoryTool(apiClient),
+    new SnapshotHistoryTool(snapshotStore),
 
     // Composite tools (multi-endpoint aggregators)
     new MiningOverviewTool(apiClient),
     new ProfitabilityDeepDiveTool(apiClient),
     new NetworkHealthMonitorTool(apiClient),
+    new FleetProfitabilityTool(apiClient),
+    new MiningMonteCarloTool(apiClient),
   ];
 }
 
+/**
+ * Tool selection applied at startup
+ *
+ * When any tools or categories are enabled, only those are kept (a tool is kept
+ * if its name or its category is enabled). Disabled tools and categories are
+ * then dropped.
+ */
+export interface ToolSelection {
+  /** Only keep these tools (all tools when neither list is given) */
+  enabled?: string[];
+  /** Drop these tools */
+  disabled?: string[];
+  /** Only keep tools in these categories */
+  enabledCategories?: string[];
+  /** Drop tools in these categories */
+  disabledCategories?: string[];
+}
+
+/**
+ * Filter tools by configured allow/deny lists
+ *
+ * @param tools - Registered tools
+ * @param selection - Tool names and categories to enable and/or disable
+ * @returns Tools that are enabled and not disabled
+ * @throws {Error} If a selection references an unknown tool name or category
+ */
+export function selectTools(tools: MCPTool[], selection: ToolSelection): MCPTool[] {
+  const known = new Set(tools.map((tool) => tool.name));
+  const unknown = [...(selection.enabled ?? []), ...(selection.disabled ?? [])].filter(
+    (name) => !known.has(name)
+  );
+  if (unknown.length > 0) {
+    throw new Error(`Unknown tool name(s) in configuration: ${[...new Set(unknown)].join(', ')}`);
+  }
+
+  const knownCategories = new Set<string>(TOOL_CATEGORIES);
+  const unknownCategories = [
+    ...(selection.enabledCategories ?? []),
+    ...(selection.disabledCategories ?? []),
+  ].filter((category) => !knownCategories.has(category));
+  if (unknownCategories.length > 0) {
+    throw new Error(
+      `Unknown tool categor(ies) in configuration: ${[...new Set(unknownCategories)].join(', ')} ` +
+        `(expected ${TOOL_CATEGORIES.join(', ')})`
+    );
+  }
+
+  const restricted = selection.enabled !== undefined || selection.enabledCategories !== undefined;
+  const enabled = new Set(selection.enabled ?? []);
+  const enabledCategories = new Set(selection.enabledCategories ?? []);
+  const disabled = new Set(selection.disabled ?? []);
+  const disabledCategories = new Set(selection.disabledCategories ?? []);
+
+  return tools.filter(
+    (tool) =>
+      (!restricted || enabled.has(tool.name) || enabledCategories.has(tool.category)) &&
+      !disabled.has(tool.name) &&
+      !disabledCategories.has(tool.category)
+  );
+}
+
 /**
  * Get tools by category
  *
@@ -118,17 +201,13 @@ export function getAllTools(apiClient: InsightsApiClient): MCPTool[] {
  */
 export function getToolsByCategory(
   apiClient: InsightsApiClient,
-  _category: ToolCategory
+  category: ToolCategory
 ): MCPTool[] {
-  const allTools = getAllTools(apiClient);
-
-  // Filter logic will be implemented when tools are registered
-  return allTools.filter(() => {
-    // Category detection based on tool name prefix or metadata
-    return false; // Placeholder
-  });
+  return getAllTools(apiClient).filter((tool) => tool.category === category);
 }
 
+export { ToolCategory, TOOL_CATEGORIES };
+
 // Re-export tool implementations
 export {
   // Simple tools
@@ -139,17 +218,23 @@ export {
   RSSFeedDataTool,
   HalvingsTool,
   TransactionStatsTool,
+  ApiSchemaReportTool,
   // Parameterized tools
   BlocksTool,
   ProfitabilityCalculatorTool,
   CostToMineTool,
+  HardwareCatalogTool,
+  BlocksByCountryTool,
   // Historical tools
   DailyRevenueHistoryTool,
   HashrateAndDifficultyHistoryTool,
   HashrateValueHistoryTool,
   TransactionFeesHistoryTool,
+  SnapshotHistoryTool,
   // Composite tools
   MiningOverviewTool,
   ProfitabilityDeepDiveTool,
   NetworkHealthMonitorTool,
+  FleetProfitabilityTool,
+  MiningMonteCarloTool,
 };
@@ -0,0 +1,412 @@
+/**
+ * MCP Tool: braiins_blocks_by_country
+ *
+ * Fetches the geographic distribution of mined Bitcoin blocks and derives
+ * concentration metrics (top-N share, Herfindahl-Hirschman Index) to help
+ * assess jurisdictional and regulatory risk of network hashrate.
+ *
+ * @category Parameterized Tool
+ * @see https://insights.braiins.com/api/v1.0/blocks-by-country
+ */
+
+import { z } from 'zod';
+import type { BraiinsInsightsBlocksByCountry } from '../../types/insights-api.js';
+import {
+  InsightsApiClient,
+  InsightsApiError,
+  NetworkError,
+  ValidationError,
+} from '../../api/insights-client.js';
+import {
+  OUTPUT_FORMAT_PROPERTY,
+  buildToolResponse,
+  getOutputFormat,
+  toOutputSchema,
+} from '../../utils/output-format.js';
+import { ToolCategory } from '../categories.js';
+import type { MCPToolResponse } from '../index.js';
+
+/**
+ * Structured output payload for blocks by country
+ */
+const BlocksByCountryOutputSchema = z.object({
+  countries: z.array(
+    z.object({
+      rank: z.number(),
+      country_code: z.string(),
+      country_name: z.string(),
+      block_count: z.number(),
+      share_percent: z.number(),
+      above_threshold: z.boolean(),
+    })
+  ),
+  total_blocks: z.number(),
+  country_count: z.number(),
+  top_n: z.number(),
+  top_n_share_percent: z.number(),
+  hhi: z.number().describe('Herfindahl-Hirschman Index on a 0-10,000 scale'),
+  threshold_percent: z.number(),
+  flagged_countries: z.array(z.string()).describe('Country codes above the threshold'),
+});
+
+type BlocksByCountryOutput = z.infer<typeof BlocksByCountryOutputSchema>;
+
+/**
+ * Zod validation schema for blocks-by-country input
+ */
+const BlocksByCountryInputSchema = z.object({
+  threshold_percent: z
+    .number()
+    .min(0, 'Threshold cannot be negative')
+    .max(100, 'Threshold cannot exceed 100%')
+    .default(20)
+    .describe('Flag jurisdictions whose block share exceeds this percentage'),
+  top_n: z
+    .number()
+    .int()
+    .min(1, 'top_n must be at least 1')
+    .max(20, 'top_n cannot exceed 20')
+    .default(3)
+    .describe('Number of leading countries used for the top-N concentration share'),
+  limit: z
+    .number()
+    .int()
+    .min(1, 'Limit must be at least 1')
+    .max(100, 'Limit cannot exceed 100')
+    .default(20)
+    .describe('Maximum number of countries to list'),
+});
+
+type BlocksByCountryInput = z.infer<typeof BlocksByCountryInputSchema>;
+
+/**
+ * Country row with share normalized from block counts
+ */
+interface CountryShare {
+  countryCode: string;
+  countryName: string;
+  blockCount: number;
+  /** Share of total blocks as a percentage (0-100) */
+  sharePercent: number;
+}
+
+/**
+ * Concentration metrics for the geographic distribution
+ */
+interface ConcentrationMetrics {
+  totalBlocks: number;
+  countryCount: number;
+  topNShare: number;
+  hhi: number;
+  flagged: CountryShare[];
+}
+
+/**
+ * Blocks by Country Tool
+ *
+ * Parameterized tool that reports block production share per country along with
+ * concentration metrics and threshold-based risk flags.
+ */
+export class BlocksByCountryTool {
+  /** MCP tool name */
+  readonly name = 'braiins_blocks_by_country';
+
+  /** Tool description shown to LLM */
+  readonly description =
+    'Get the geographic distribution of Bitcoin blocks mined by country. ' +
+    'Returns country share and block counts, concentration metrics (top-N share and ' +
+    'Herfindahl-Hirschman Index) and flags jurisdictions above a configurable share threshold. ' +
+    'Use this to assess geographic and regulatory risk of network hashrate.';
+
+  /** Tool category */
+  readonly category = ToolCategory.Parameterized;
+
+  /** Tags for tool discovery */
+  readonly tags = ['blocks', 'geography', 'decentralization'];
+
+  /** Upstream API endpoints the tool calls */
+  readonly endpoints = ['/v1.0/blocks-by-country'];
+
+  /** JSON schema for tool inputs (all optional) */
+  readonly inputSchema = {
+    type: 'object' as const,
+    properties: {
+      threshold_percent: {
+        type: 'number',
+        description: 'Flag countries whose share of blocks exceeds this percentage (default: 20)',
+        default: 20,
+        minimum: 0,
+        maximum: 100,
+      },
+      top_n: {
+        type: 'number',
+        description: 'Number of leading countries for the top-N share metric (default: 3)',
+        default: 3,
+        minimum: 1,
+        maximum: 20,
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of countries to list (default: 20)',
+        default: 20,
+        minimum: 1,
+        maximum: 100,
+      },
+      format: OUTPUT_FORMAT_PROPERTY,
+    },
+    required: [] as string[],
+  };
+
+  /** JSON schema for structured output */
+  readonly outputSchema = toOutputSchema(BlocksByCountryOutputSchema);
+
+  constructor(private readonly apiClient: InsightsApiClient) {}
+
+  /**
+   * Execute the tool
+   *
+   * @param input - Threshold, top-N and limit parameters
+   * @returns MCP response with formatted markdown
+   */
+  async execute(input: unknown): Promise<MCPToolResponse> {
+    try {
+      // Validate input with Zod
+      const validatedInput = BlocksByCountryInputSchema.parse(input ?? {});
+      const format = getOutputFormat(input);
+
+      // Fetch data from API
+      const data = await this.apiClient.getBlocksByCountry();
+
+      const shares = this.calculateShares(data);
+      const metrics = this.calculateConcentration(shares, validatedInput);
+
+      if (data.length === 0) {
+        return buildToolResponse(
+          format,
+          '⚠️ **No Data Available**\n\nNo blocks-by-country data was returned from the API.',
+          this.toStructuredContent(shares, metrics, validatedInput)
+        );
+      }
+
+      // Format as markdown
+      const markdown = this.formatAsMarkdown(shares, metrics, validatedInput);
+
+      return buildToolResponse(
+        format,
+        markdown,
+        this.toStructuredContent(shares, metrics, validatedInput)
+      );
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Normalize shares from block counts, sorted by share descending
+   *
+   * Falls back to the API-provided percentage when block counts are unavailable.
+   */
+  private calculateShares(data: BraiinsInsightsBlocksByCountry[]): CountryShare[] {
+    const totalBlocks = data.reduce((sum, row) => sum + row.block_count, 0);
+
+    return data
+      .map((row) => ({
+        countryCode: row.country_code,
+        countryName: row.country_name || row.country_code || 'Unknown',
+        blockCount: row.block_count,
+        sharePercent: totalBlocks > 0 ? (row.block_count / totalBlocks) * 100 : row.percentage,
+      }))
+      .sort((a, b) => b.sharePercent - a.sharePercent);
+  }
+
+  /**
+   * Calculate top-N share, HHI and threshold flags
+   *
+   * HHI is the sum of squared percentage shares (0-10,000 scale).
+   */
+  private calculateConcentration(
+    shares: CountryShare[],
+    input: BlocksByCountryInput
+  ): ConcentrationMetrics {
+    return {
+      totalBlocks: shares.reduce((sum, row) => sum + row.blockCount, 0),
+      countryCount: shares.length,
+      topNShare: shares.slice(0, input.top_n).reduce((sum, row) => sum + row.sharePercent, 0),
+      hhi: shares.reduce((sum, row) => sum + row.sharePercent ** 2, 0),
+      flagged: shares.filter((row) => row.sharePercent > input.threshold_percent),
+    };
+  }
+
+  /**
+   * Normalize shares and metrics into the structured output payload
+   */
+  private toStructuredContent(
+    shares: CountryShare[],
+    metrics: ConcentrationMetrics,
+    input: BlocksByCountryInput
+  ): BlocksByCountryOutput {
+    return {
+      countries: shares.slice(0, input.limit).map((row, index) => ({
+        rank: index + 1,
+        country_code: row.countryCode,
+        country_name: row.countryName,
+        block_count: row.blockCount,
+        share_percent: row.sharePercent,
+        above_threshold: row.sharePercent > input.threshold_percent,
+      })),
+      total_blocks: metrics.totalBlocks,
+      country_count: metrics.countryCount,
+      top_n: input.top_n,
+      top_n_share_percent: metrics.topNShare,
+      hhi: metrics.hhi,
+      threshold_percent: input.threshold_percent,
+      flagged_countries: metrics.flagged.map((row) => row.countryCode),
+    };
+  }
+
+  /**
+   * Format geographic distribution as markdown for LLM consumption
+   */
+  private formatAsMarkdown(
+    shares: CountryShare[],
+    metrics: ConcentrationMetrics,
+    input: BlocksByCountryInput
+  ): string {
+    const sections: string[] = [];
+
+    sections.push('# 🌍 Bitcoin Blocks by Country\n');
+
+    // Concentration metrics
+    sections.push('## Concentration Metrics\n');
+    sections.push(`- **Total Blocks:** ${metrics.totalBlocks.toLocaleString()}`);
+    sections.push(`- **Countries:** ${metrics.countryCount}`);
+    sections.push(
+      `- **Top ${Math.min(input.top_n, metrics.countryCount)} Share:** ${metrics.topNShare.toFixed(2)}%`
+    );
+    sections.push(
+      `- **HHI:** ${Math.round(metrics.hhi).toLocaleString()} ${this.getHhiLabel(metrics.hhi)}`
+    );
+
+    // Threshold flags
+    sections.push(`\n## Jurisdiction Risk (threshold: ${input.threshold_percent}%)\n`);
+    if (metrics.flagged.length === 0) {
+      sections.push(`✅ No country exceeds ${input.threshold_percent}% of blocks mined.`);
+    } else {
+      for (const row of metrics.flagged) {
+        sections.push(
+          `- ⚠️ **${row.countryName}** (${row.countryCode}): ${row.sharePercent.toFixed(2)}% of blocks`
+        );
+      }
+    }
+
+    // Distribution table
+    sections.push('\n## Distribution\n');
+    sections.push('| Rank | Country | Code | Blocks | Share | |');
+    sections.push('|------|---------|------|--------|-------|-|');
+
+    const shown = shares.slice(0, input.limit);
+    shown.forEach((row, index) => {
+      const flag = row.sharePercent > input.threshold_percent ? '⚠️' : '';
+      sections.push(
+        `| ${index + 1} | ${row.countryName} | ${row.countryCode} | ${row.blockCount.toLocaleString()} | ${row.sharePercent.toFixed(2)}% | ${flag} |`
+      );
+    });
+
+    if (shares.length > shown.length) {
+      sections.push(`\n*Showing ${shown.length} of ${shares.length} countries*`);
+    }
+
+    // Footer
+    sections.push('\n---\n');
+    sections.push(
+      '*HHI: <1,500 unconcentrated | 1,500-2,500 moderately concentrated | >2,500 highly concentrated*'
+    );
+    sections.push('*Data from [Braiins Insights Dashboard](https://insights.braiins.com)*');
+
+    return sections.join('\n');
+  }
+
+  /**
+   * Classify HHI using standard antitrust thresholds
+   */
+  private getHhiLabel(hhi: number): string {
+    if (hhi < 1500) {
+      return '🟢 (Unconcentrated)';
+    }
+    if (hhi <= 2500) {
+      return '🟡 (Moderately Concentrated)';
+    }
+    return '🔴 (Highly Concentrated)';
+  }
+
+  /**
+   * Handle errors and return MCP error response
+   */
+  private handleError(error: unknown): MCPToolResponse {
+    // Handle Zod validation errors
+    if (error instanceof z.ZodError) {
+      const errorMessages = error.issues.map(
+        (err: z.ZodIssue) => `- ${err.path.join('.')}: ${err.message}`
+      );
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Validation Error**: Invalid input parameters\n\n${errorMessages.join('\n')}\n\nPlease check your input and try again.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Handle API errors
+    if (error instanceof InsightsApiError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **API Error**: ${error.message}\n\nStatus: ${error.statusCode}\n\nPlease try again later or check the Braiins Insights API status.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Handle network errors
+    if (error instanceof NetworkError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Network Error**: Could not reach Braiins Insights API\n\nDetails: ${error.message}\n\nPlease check your internet connection.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Handle validation errors from API client
+    if (error instanceof ValidationError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Response Validation Error**: ${error.message}\n\nThe API returned unexpected data format. Please report this issue.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Handle unexpected errors
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `❌ **Unexpected Error**: ${error instanceof Error ? error.message : String(error)}\n\nPlease report this issue if it persists.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -16,22 +16,106 @@ import {
   NetworkError,
   ValidationError,
 } from '../../api/insights-client.js';
+import {
+  OUTPUT_FORMAT_PROPERTY,
+  buildToolResponse,
+  getOutputFormat,
+  toOutputSchema,
+} from '../../utils/output-format.js';
+import { ToolCategory } from '../categories.js';
 import type { MCPToolResponse } from '../index.js';
 
+/**
+ * Structured output payload for blocks
+ */
+const BlocksOutputSchema = z.object({
+  blocks: z.array(
+    z.object({
+      height: z.number(),
+      pool: z.string(),
+      timestamp: z.string().describe('Block timestamp (ISO 8601)'),
+      block_value_btc: z.number(),
+      block_value_usd: z.number(),
+    })
+  ),
+  count: z.number(),
+  page: z.number(),
+  has_more: z.boolean().describe('Whether a further page of results is available'),
+  filters: z.object({
+    start_date: z.string().nullable(),
+    end_date: z.string().nullable(),
+    pool: z.string().nullable(),
+  }),
+  avg_block_value_btc: z.number().nullable(),
+  avg_block_value_usd: z.number().nullable(),
+});
+
+type BlocksOutput = z.infer<typeof BlocksOutputSchema>;
+
+/**
+ * Maximum number of blocks the upstream API returns per request
+ */
+const API_PAGE_SIZE = 100;
+
+/**
+ * Maximum number of upstream requests made to satisfy a single tool call
+ */
+const MAX_API_PAGES = 20;
+
+/**
+ * Most recent blocks a single tool call can page through
+ */
+const MAX_SCANNED_BLOCKS = MAX_API_PAGES * API_PAGE_SIZE;
+
 /**
  * Zod schema for blocks tool input validation
  *
- * Validates limit parameter
+ * Validates limit, page, date range and pool filter parameters
  */
-const BlocksInputSchema = z.object({
-  limit: z
-    .number()
-    .int()
-    .min(1, 'Limit must be at least 1')
-    .max(100, 'Limit cannot exceed 100')
-    .default(10)
-    .describe('Number of blocks to return'),
-});
+const BlocksInputSchema = z
+  .object({
+    limit: z
+      .number()
+      .int()
+      .min(1, 'Limit must be at least 1')
+      .max(1000, 'Limit cannot exceed 1000')
+      .default(10)
+      .describe('Number of blocks to return'),
+    page: z
+      .number()
+      .int()
+      .min(1, 'Page must be at least 1')
+      .default(1)
+      .describe('Page of limit-sized results to return (1-indexed)'),
+    start_date: z.iso
+      .date('Date must be a valid calendar date in YYYY-MM-DD format')
+      .optional()
+      .describe('Only blocks mined on or after this date'),
+    end_date: z.iso
+      .date('Date must be a valid calendar date in YYYY-MM-DD format')
+      .optional()
+      .describe('Only blocks mined on or before this date'),
+    pool: z
+      .string()
+      .trim()
+      .min(1, 'Pool filter cannot be empty')
+      .optional()
+      .describe('Only blocks mined by pools matching this name (case-insensitive)'),
+  })
+  .refine(
+    (input) =>
+      input.start_date === undefined ||
+      input.end_date === undefined ||
+      input.start_date <= input.end_date,
+    {
+      message: 'start_date cannot be later than end_date',
+      path: ['start_date'],
+    }
+  )
+  .refine((input) => input.page * input.limit <= MAX_SCANNED_BLOCKS, {
+    message: `page × limit cannot exceed ${MAX_SCANNED_BLOCKS} (only the most recent ${MAX_SCANNED_BLOCKS} blocks can be paged through)`,
+    path: ['page'],
+  });
 
 type BlocksInput = z.infer<typeof BlocksInputSchema>;
 
@@ -47,9 +131,18 @@ export class BlocksTool {
 
   /** Tool description shown to LLM */
   readonly description =
-    'Get recent Bitcoin blocks mined with optional pagination and date filtering. ' +
-    'Returns block information including height, mining pool, timestamp, ' +
-    'transaction count, size, and block hash.';
+    'Get recent Bitcoin blocks mined with optional pagination, date range and pool filtering. ' +
+    'Returns block information including height, mining pool, timestamp and block value. ' +
+    'Use start_date/end_date to reconstruct block production for specific days.';
+
+  /** Tool category */
+  readonly category = ToolCategory.Parameterized;
+
+  /** Tags for tool discovery */
+  readonly tags = ['blocks', 'pools'];
+
+  /** Upstream API endpoints the tool calls */
+  readonly endpoints = ['/v1.0/blocks'];
 
   /** JSON schema for tool inputs */
   readonly inputSchema = {
@@ -57,70 +150,192 @@ export class BlocksTool {
     properties: {
       limit: {
         type: 'number',
-        description: 'Number of blocks to return',
+        description:
+          'Number of blocks to return (more than 100 are fetched by paging through the API)',
         default: 10,
         minimum: 1,
-        maximum: 100,
+        maximum: 1000,
       },
+      page: {
+        type: 'number',
+        description:
+          'Page of limit-sized results to return, 1-indexed (default: 1). ' +
+          `page × limit cannot exceed ${MAX_SCANNED_BLOCKS}`,
+        default: 1,
+        minimum: 1,
+        maximum: MAX_SCANNED_BLOCKS,
+      },
+      start_date: {
+        type: 'string',
+        description: 'Only blocks mined on or after this date (YYYY-MM-DD, UTC)',
+        pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+      },
+      end_date: {
+        type: 'string',
+        description: 'Only blocks mined on or before this date (YYYY-MM-DD, UTC)',
+        pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+      },
+      pool: {
+        type: 'string',
+        description: 'Only blocks mined by pools matching this name, case-insensitive',
+      },
+      format: OUTPUT_FORMAT_PROPERTY,
     },
     required: [] as string[],
   };
 
+  /** JSON schema for structured output */
+  readonly outputSchema = toOutputSchema(BlocksOutputSchema);
+
   constructor(private readonly apiClient: InsightsApiClient) {}
 
   /**
    * Execute the tool
    *
-   * @param input - Tool input parameters (limit)
+   * @param input - Tool input parameters (limit, page, start_date, end_date, pool)
    * @returns MCP response with formatted markdown
    */
   async execute(input: unknown): Promise<MCPToolResponse> {
     try {
       // Validate and parse input
-      const validatedInput = BlocksInputSchema.parse(input);
+      const validatedInput = BlocksInputSchema.parse(input ?? {});
+      const format = getOutputFormat(input);
 
-      // Build query params
-      const params: BlocksQueryParams = {
-        limit: validatedInput.limit,
-      };
+      // Fetch enough blocks to cover the requested page
+      const { blocks: matching, exhausted } = await this.fetchBlocks(validatedInput);
 
-      // Fetch blocks from API
-      const blocks = await this.apiClient.getBlocks(params);
+      const offset = (validatedInput.page - 1) * validatedInput.limit;
+      const blocks = matching.slice(offset, offset + validatedInput.limit);
+      const hasMore = matching.length > offset + validatedInput.limit || !exhausted;
 
       // Handle empty results
       if (blocks.length === 0) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: this.formatEmptyResult(params),
-            },
-          ],
-          isError: false,
-        };
+        return buildToolResponse(
+          format,
+          this.formatEmptyResult(validatedInput, hasMore),
+          this.toStructuredContent(blocks, validatedInput, hasMore)
+        );
       }
 
       // Format as markdown
-      const markdown = this.formatAsMarkdown(blocks, validatedInput);
+      const markdown = this.formatAsMarkdown(blocks, validatedInput, hasMore);
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: markdown,
-          },
-        ],
-        isError: false,
-      };
+      return buildToolResponse(
+        format,
+        markdown,
+        this.toStructuredContent(blocks, validatedInput, hasMore)
+      );
     } catch (error) {
       return this.handleError(error);
     }
   }
 
+  /**
+   * Fetch blocks matching the filters, paging through the API as needed
+   *
+   * The API returns at most 100 blocks per request (newest first), so larger
+   * limits, later pages and filters are satisfied by walking successive API pages
+   * until enough matching blocks are collected or the date range is passed.
+   *
+   * @returns Matching blocks (newest first) and whether the upstream data was exhausted
+   */
+  private async fetchBlocks(
+    input: BlocksInput
+  ): Promise<{ blocks: BraiinsInsightsBlockData[]; exhausted: boolean }> {
+    const needed = input.page * input.limit;
+    const hasFilters =
+      input.start_date !== undefined || input.end_date !== undefined || input.pool !== undefined;
+
+    // Single request is enough when nothing needs filtering or paging
+    if (!hasFilters && needed <= API_PAGE_SIZE) {
+      const blocks = await this.apiClient.getBlocks({ limit: needed });
+      return { blocks, exhausted: blocks.length < needed };
+    }
+
+    const startMs = input.start_date ? Date.parse(`${input.start_date}T00:00:00Z`) : undefined;
+    const endMs = input.end_date ? Date.parse(`${input.end_date}T23:59:59.999Z`) : undefined;
+    const pool = input.pool?.toLowerCase();
+
+    const matching: BraiinsInsightsBlockData[] = [];
+
+    for (let page = 1; page <= MAX_API_PAGES; page++) {
+      const params: BlocksQueryParams = { limit: API_PAGE_SIZE, page };
+      if (input.start_date !== undefined) {
+        params.start_date = input.start_date;
+      }
+      if (input.end_date !== undefined) {
+        params.end_date = input.end_date;
+      }
+
+      const batch = await this.apiClient.getBlocks(params);
+      let passedStart = false;
+
+      for (const block of batch) {
+        const timeMs = Date.parse(block.timestamp);
+        if (startMs !== undefined && timeMs < startMs) {
+          passedStart = true;
+          continue;
+        }
+        if (endMs !== undefined && timeMs > endMs) {
+          continue;
+        }
+        if (pool !== undefined && !(block.pool || '').toLowerCase().includes(pool)) {
+          continue;
+        }
+        matching.push(block);
+      }
+
+      // Blocks arrive newest first, so anything older than start_date ends the walk
+      if (batch.length < API_PAGE_SIZE || passedStart) {
+        return { blocks: matching, exhausted: true };
+      }
+      if (matching.length > needed) {
+        return { blocks: matching, exhausted: false };
+      }
+    }
+
+    return { blocks: matching, exhausted: false };
+  }
+
+  /**
+   * Normalize blocks into the structured output payload
+   */
+  private toStructuredContent(
+    blocks: BraiinsInsightsBlockData[],
+    params: BlocksInput,
+    hasMore: boolean
+  ): BlocksOutput {
+    const summaryStats = this.calculateSummaryStats(blocks);
+
+    return {
+      blocks: blocks.map((block) => ({
+        height: block.height,
+        pool: block.pool || 'Unknown',
+        timestamp: block.timestamp,
+        block_value_btc: block.block_value_btc,
+        block_value_usd: block.block_value_usd,
+      })),
+      count: blocks.length,
+      page: params.page,
+      has_more: hasMore,
+      filters: {
+        start_date: params.start_date ?? null,
+        end_date: params.end_date ?? null,
+        pool: params.pool ?? null,
+      },
+      avg_block_value_btc: blocks.length > 0 ? summaryStats.avgValueBtc : null,
+      avg_block_value_usd: blocks.length > 0 ? summaryStats.avgValueUsd : null,
+    };
+  }
+
   /**
    * Format blocks as markdown table
    */
-  private formatAsMarkdown(blocks: BraiinsInsightsBlockData[], _params: BlocksInput): string {
+  private formatAsMarkdown(
+    blocks: BraiinsInsightsBlockData[],
+    params: BlocksInput,
+    hasMore: boolean
+  ): string {
     const summaryStats = this.calculateSummaryStats(blocks);
     const tableRows = blocks
       .map(
@@ -129,19 +344,27 @@ export class BlocksTool {
       )
       .join('\n');
 
+    const filters = this.describeFilters(params);
+    const filterLine = filters.length > 0 ? `\n**Filters:** ${filters.join(', ')}\n` : '';
+    const pageLine =
+      params.page > 1 || hasMore
+        ? `- Page: ${params.page}${hasMore ? ` (more available, request page ${params.page + 1})` : ''}\n`
+        : '';
+
     return `
 # 🧱 Recent Bitcoin Blocks
 
-**Showing ${blocks.length} most recent blocks**
-
+**Showing ${blocks.length} ${filters.length > 0 ? 'matching' : 'most recent'} blocks**
+${filterLine}
 | Height  | Pool        | Timestamp    | Block Value (BTC) | Block Value (USD) |
 |---------|-------------|--------------|-------------------|-------------------|
 ${tableRows}
 
 **Summary:**
 - Total Blocks Displayed: ${blocks.length}
+- Height Range: ${this.formatHeightRange(blocks)}
 - Average Block Value: ${summaryStats.avgValueBtc.toFixed(8)} BTC ($${summaryStats.avgValueUsd.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })})
-
+${pageLine}
 ---
 *Data retrieved from [Braiins Insights Dashboard](https://insights.braiins.com)*
 *Timestamp: ${new Date().toISOString()}*
@@ -151,18 +374,55 @@ ${tableRows}
   /**
    * Format empty result message
    */
-  private formatEmptyResult(params: BlocksQueryParams): string {
+  private formatEmptyResult(params: BlocksInput, truncated: boolean): string {
+    const filters = this.describeFilters(params);
+    const hint = truncated
+      ? `The most recent ${MAX_SCANNED_BLOCKS} blocks were scanned without filling this page; ` +
+        'narrow the date range or pool filter to reach older blocks.'
+      : 'Try again later, widen the date range, or check the Braiins Insights API status.';
+
     return `
 # 🧱 Recent Bitcoin Blocks
 
 ⚠️ **No blocks found** for the specified criteria.
 
-**Limit:** ${params.limit ?? 10}
+**Limit:** ${params.limit}
+**Page:** ${params.page}
+**Filters:** ${filters.length > 0 ? filters.join(', ') : 'None'}
 
-Try again later or check the Braiins Insights API status.
+${hint}
     `.trim();
   }
 
+  /**
+   * Describe applied filters as human-readable strings
+   */
+  private describeFilters(params: BlocksInput): string[] {
+    const filters: string[] = [];
+
+    if (params.start_date !== undefined) {
+      filters.push(`from ${params.start_date}`);
+    }
+    if (params.end_date !== undefined) {
+      filters.push(`to ${params.end_date}`);
+    }
+    if (params.pool !== undefined) {
+      filters.push(`pool: ${params.pool}`);
+    }
+
+    return filters;
+  }
+
+  /**
+   * Format the block height range covered by the displayed blocks
+   */
+  private formatHeightRange(blocks: BraiinsInsightsBlockData[]): string {
+    const heights = blocks.map((block) => block.height);
+    const min = Math.min(...heights);
+    const max = Math.max(...heights);
+    return min === max ? min.toLocaleString() : `${min.toLocaleString()} – ${max.toLocaleString()}`;
+  }
+
   /**
    * Calculate summary statistics for blocks
    */
@@ -3,6 +3,7 @@
  *
  * Calculates the cost to mine one Bitcoin based on hardware specifications
  * and electricity costs. Provides break-even analysis and profitability metrics.
+ * Falls back to the local mining-economics engine when the API is unavailable.
  *
  * @category Parameterized Tool
  * @see https://insights.braiins.com/api/v2.0/cost-to-mine
@@ -11,56 +12,457 @@
 
 import { z } from 'zod';
 import type { BraiinsInsightsCostToMine, CostToMineQueryParams } from '../../types/insights-api.js';
+import {
+  SCENARIO_VARIABLES,
+  ScenarioMatrix,
+  ScenarioVariable,
+  buildScenarioMatrix,
+} from '../../economics/scenario-matrix.js';
+import { PERIOD_DAYS, calculateCostToMine } from '../../economics/mining-engine.js';
+import {
+  InvestmentResult,
+  evaluateInvestment,
+  projectCostToMine,
+} from '../../economics/investment-model.js';
+import {
+  ENGINE_MODES,
+  EngineAttribution,
+  NetworkInputsError,
+  describeApiFailure,
+  formatLocalEngineNote,
+  isApiUnavailable,
+  resolveNetworkInputs,
+} from '../../economics/local-engine.js';
 import {
   InsightsApiClient,
   InsightsApiError,
   NetworkError,
   ValidationError,
 } from '../../api/insights-client.js';
+import {
+  OUTPUT_FORMAT_PROPERTY,
+  buildToolResponse,
+  getOutputFormat,
+  toOutputSchema,
+} from '../../utils/output-format.js';
+import { renderLineChartSvg, sparkline, toSvgImageContent } from '../../utils/charts.js';
+import { ToolCategory } from '../categories.js';
 import type { MCPToolResponse } from '../index.js';
 
+/**
+ * Structured output payload for cost-to-mine calculation
+ */
+const CostToMineOutputSchema = z.object({
+  inputs: z.object({
+    hashrate_ths: z.number(),
+    consumption_watts: z.number(),
+    electricity_price_per_kwh: z.number(),
+    revenue_fees_rate: z.number(),
+    yearly_difficulty_change_rate: z.number(),
+    monthly_fixed_opex: z.number(),
+    period_resolution: z.string(),
+    periods: z.number(),
+  }),
+  cost_to_mine_btc_usd: z.number().describe('Cost to mine 1 BTC in USD'),
+  btc_price_usd: z.number().nullable(),
+  margin_usd: z.number().describe('BTC price minus cost to mine in USD'),
+  daily_profit_usd: z.number(),
+  btc_mined_daily: z.number(),
+  hardware_efficiency_jth: z.number(),
+  break_even_electricity_price_usd_per_kwh: z.number(),
+  network_difficulty: z.number(),
+  is_profitable: z.boolean(),
+  scenario: z
+    .object({
+      x_variable: z.enum(SCENARIO_VARIABLES),
+      x_values: z.array(z.number()),
+      y_variable: z.enum(SCENARIO_VARIABLES),
+      y_values: z.array(z.number()),
+      cells: z
+        .array(
+          z.object({
+            x: z.number(),
+            y: z.number(),
+            btc_price_usd: z.number(),
+            network_difficulty: z.number(),
+            electricity_price_per_kwh: z.number(),
+            daily_revenue_usd: z.number().describe('Revenue after pool fees'),
+            daily_cost_usd: z.number(),
+            daily_profit_usd: z.number(),
+            cost_to_mine_btc_usd: z.number().nullable(),
+            is_profitable: z.boolean(),
+          })
+        )
+        .describe('One cell per combination, row by row (y, then x)'),
+      break_even: z
+        .array(z.object({ y: z.number(), x: z.number().nullable() }))
+        .describe('Value of x at which daily profit is zero for each y (null: never)'),
+      profitable_cells: z.number(),
+    })
+    .nullable()
+    .describe('Scenario matrix, or null when no scenario was requested'),
+  projection: z
+    .array(
+      z.object({
+        period: z.number().describe('Period number, from 1'),
+        date: z.string().nullable().describe('Start date of the period'),
+        btc_price_usd: z.number().nullable(),
+        marginal_cost_to_mine_usd: z
+          .number()
+          .nullable()
+          .describe('Cost to mine 1 BTC during the period'),
+        total_cost_to_mine_usd: z
+          .number()
+          .nullable()
+          .describe('Average cost to mine 1 BTC from the start to the period'),
+        marginal_break_even_electricity_usd_per_kwh: z.number().nullable(),
+        total_break_even_electricity_usd_per_kwh: z.number().nullable(),
+      })
+    )
+    .describe('Per-period projection, one row per period_resolution step'),
+  cost_by_electricity_price: z
+    .array(
+      z.object({
+        electricity_price_per_kwh: z.number(),
+        cost_to_mine_btc_usd: z.number(),
+        margin_usd: z.number().nullable().describe('BTC price minus cost to mine'),
+      })
+    )
+    .describe('Cost to mine 1 BTC across electricity prices'),
+  investment: z
+    .object({
+      assumptions: z.object({
+        capex: z.number(),
+        loan_amount_fiat: z.number(),
+        loan_interest_rate: z.number(),
+        loan_payback_periods: z.number(),
+        discount_rate: z.number(),
+        hodl_rate: z.number(),
+        income_tax_rate: z.number(),
+        initial_hardware_value_fiat: z.number(),
+        yearly_hardware_value_change_rate: z.number(),
+      }),
+      npv_usd: z.number().describe('Net present value at the discount rate'),
+      irr: z.number().nullable().describe('Yearly internal rate of return (null: undefined)'),
+      payback_periods: z
+        .number()
+        .nullable()
+        .describe('Periods until cumulative cash flow turns non-negative (null: never)'),
+      payback_days: z.number().nullable(),
+      initial_cash_flow_usd: z.number().describe('Loan received less capex'),
+      terminal: z
+        .object({
+          btc_held: z.number(),
+          btc_value_usd: z.number(),
+          hardware_value_usd: z.number(),
+          loan_balance_usd: z.number(),
+          value_usd: z.number(),
+        })
+        .describe('Value added at the end of the last period'),
+      totals: z.object({
+        revenue_usd: z.number(),
+        electricity_cost_usd: z.number(),
+        opex_usd: z.number(),
+        interest_usd: z.number(),
+        tax_usd: z.number(),
+        cash_flow_usd: z.number(),
+      }),
+      cash_flows: z.array(
+        z.object({
+          period: z.number(),
+          btc_price_usd: z.number(),
+          btc_mined: z.number(),
+          revenue_usd: z.number(),
+          sold_revenue_usd: z.number(),
+          electricity_cost_usd: z.number(),
+          opex_usd: z.number(),
+          interest_usd: z.number(),
+          principal_usd: z.number(),
+          depreciation_usd: z.number(),
+          taxable_income_usd: z.number(),
+          tax_usd: z.number(),
+          cash_flow_usd: z.number().describe('After costs, debt service and tax'),
+          cumulative_cash_flow_usd: z.number(),
+          discounted_cash_flow_usd: z.number(),
+          btc_held: z.number(),
+        })
+      ),
+      loan_schedule: z.array(
+        z.object({
+          period: z.number(),
+          opening_balance_usd: z.number(),
+          payment_usd: z.number(),
+          interest_usd: z.number(),
+          principal_usd: z.number(),
+          closing_balance_usd: z.number(),
+        })
+      ),
+    })
+    .nullable()
+    .describe('Investment model, or null when no investment input was given'),
+  engine: z.enum(['api', 'local']).describe('Engine that produced the numbers'),
+  engine_note: z.string().nullable().describe('Why the local engine was used, or null for the API'),
+  timestamp: z.string(),
+});
+
+export type CostToMineOutput = z.infer<typeof CostToMineOutputSchema>;
+
+type ProjectionRow = CostToMineOutput['projection'][number];
+
+type PeriodResolution = BraiinsInsightsCostToMine['payload']['period_resolution'];
+
+/**
+ * Display names of each period resolution
+ */
+const RESOLUTION_LABELS: Record<PeriodResolution, { period: string; adjective: string }> = {
+  '1m': { period: 'Month', adjective: 'Monthly' },
+  '2w': { period: 'Fortnight', adjective: 'Two-Weekly' },
+  '1w': { period: 'Week', adjective: 'Weekly' },
+  '1d': { period: 'Day', adjective: 'Daily' },
+};
+
+/**
+ * Most rows of the cost-by-electricity-price table
+ */
+const MAX_ELECTRICITY_ROWS = 11;
+
+/**
+ * Inputs that request the investment model
+ */
+const INVESTMENT_INPUTS = [
+  'capex',
+  'loan_amount_fiat',
+  'discount_rate',
+  'hodl_rate',
+  'income_tax_rate',
+  'initial_hardware_value_fiat',
+  'yearly_hardware_value_change_rate',
+] as const;
+
+/**
+ * Inputs forwarded to the API when given
+ */
+const FORWARDED_INPUTS = [
+  'monthly_fixed_opex',
+  'loan_interest_rate',
+  'loan_payback_periods',
+  ...INVESTMENT_INPUTS,
+] as const;
+
+/**
+ * Display name of each scenario variable
+ */
+const SCENARIO_LABELS: Record<ScenarioVariable, string> = {
+  price: 'BTC Price',
+  electricity_price_per_kwh: 'Electricity',
+  difficulty_change: 'Difficulty Change',
+  hashprice: 'Hashprice',
+};
+
+/**
+ * Valid range of each scenario variable's grid values
+ */
+const SCENARIO_VALUE_RANGES: Record<ScenarioVariable, { min: number; max: number }> = {
+  price: { min: 1, max: 10_000_000 },
+  electricity_price_per_kwh: { min: 0, max: 1 },
+  difficulty_change: { min: -0.9, max: 10 },
+  hashprice: { min: 0.0001, max: 10 },
+};
+
+/**
+ * Zod validation schema for one scenario axis
+ */
+const ScenarioAxisSchema = z
+  .object({
+    variable: z.enum(SCENARIO_VARIABLES).describe('Input to sweep'),
+    values: z
+      .array(z.number())
+      .min(1, 'At least one value is required')
+      .max(12, 'At most 12 values per axis are supported')
+      .describe('Grid values'),
+  })
+  .superRefine((axis, ctx) => {
+    const { min, max } = SCENARIO_VALUE_RANGES[axis.variable];
+    axis.values.forEach((value, index) => {
+      if (value < min || value > max) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['values', index],
+          message: `${axis.variable} values must be between ${min} and ${max}`,
+        });
+      }
+    });
+  });
+
+/**
+ * JSON schema for one scenario axis
+ */
+const SCENARIO_AXIS_PROPERTY = {
+  type: 'object',
+  properties: {
+    variable: { type: 'string', enum: [...SCENARIO_VARIABLES] },
+    values: { type: 'array', items: { type: 'number' }, minItems: 1, maxItems: 12 },
+  },
+  required: ['variable', 'values'],
+};
+
 /**
  * Zod validation schema for cost-to-mine input
  *
  * Required: hashrate_ths, consumption_watts, electricity_price_per_kwh
  */
-const CostToMineInputSchema = z.object({
-  hashrate_ths: z
-    .number()
-    .positive('Hashrate must be positive')
-    .describe('Mining hardware hashrate in terahashes per second (TH/s)'),
-
-  consumption_watts: z
-    .number()
-    .positive('Power consumption must be positive')
-    .describe('Mining hardware power consumption in watts'),
-
-  electricity_price_per_kwh: z
-    .number()
-    .min(0, 'Electricity price cannot be negative')
-    .max(1, 'Electricity price unreasonably high (>$1/kWh)')
-    .describe('Electricity cost in USD per kilowatt-hour'),
-
-  // Optional advanced parameters
-  revenue_fees_rate: z
-    .number()
-    .min(0)
-    .max(1)
-    .optional()
-    .describe('Pool fee rate as decimal (e.g., 0.02 = 2%)'),
-
-  yearly_difficulty_change_rate: z
-    .number()
-    .optional()
-    .describe('Expected yearly difficulty change rate (e.g., 0.02 = 2% increase)'),
-
-  period_resolution: z
-    .enum(['1m', '2w', '1w', '1d'])
-    .optional()
-    .describe('Time resolution for projections: 1m (month), 2w, 1w, 1d'),
-
-  periods: z.number().int().min(1).max(60).optional().describe('Number of periods to project'),
-});
+const CostToMineInputSchema = z
+  .object({
+    hashrate_ths: z
+      .number()
+      .positive('Hashrate must be positive')
+      .describe('Mining hardware hashrate in terahashes per second (TH/s)'),
+
+    consumption_watts: z
+      .number()
+      .positive('Power consumption must be positive')
+      .describe('Mining hardware power consumption in watts'),
+
+    electricity_price_per_kwh: z
+      .number()
+      .min(0, 'Electricity price cannot be negative')
+      .max(1, 'Electricity price unreasonably high (>$1/kWh)')
+      .describe('Electricity cost in USD per kilowatt-hour'),
+
+    // Optional advanced parameters
+    revenue_fees_rate: z
+      .number()
+      .min(0)
+      .max(1)
+      .optional()
+      .describe('Pool fee rate as decimal (e.g., 0.02 = 2%)'),
+
+    yearly_difficulty_change_rate: z
+      .number()
+      .optional()
+      .describe('Expected yearly difficulty change rate (e.g., 0.02 = 2% increase)'),
+
+    period_resolution: z
+      .enum(['1m', '2w', '1w', '1d'])
+      .optional()
+      .describe('Time resolution for projections: 1m (month), 2w, 1w, 1d'),
+
+    periods: z.number().int().min(1).max(60).optional().describe('Number of periods to project'),
+
+    price: z
+      .number()
+      .positive('BTC price must be positive')
+      .optional()
+      .describe('BTC price in USD (default: current price)'),
+
+    difficulty: z
+      .number()
+      .positive('Difficulty must be positive')
+      .optional()
+      .describe('Network difficulty (default: current difficulty)'),
+
+    // Investment model
+    monthly_fixed_opex: z
+      .number()
+      .min(0, 'Opex cannot be negative')
+      .optional()
+      .describe('Fixed operating expenses in USD per month'),
+
+    capex: z
+      .number()
+      .min(0, 'Capex cannot be negative')
+      .optional()
+      .describe('Up-front investment in USD'),
+
+    loan_amount_fiat: z
+      .number()
+      .min(0, 'Loan amount cannot be negative')
+      .optional()
+      .describe('Loan taken at the start in USD'),
+
+    loan_interest_rate: z
+      .number()
+      .min(0)
+      .max(1)
+      .optional()
+      .describe('Yearly loan interest rate as decimal'),
+
+    loan_payback_periods: z
+      .number()
+      .int()
+      .min(1)
+      .max(600)
+      .optional()
+      .describe('Number of periods over which the loan is repaid'),
+
+    discount_rate: z
+      .number()
+      .min(0)
+      .max(1)
+      .optional()
+      .describe('Yearly discount rate for NPV as decimal'),
+
+    hodl_rate: z
+      .number()
+      .min(0)
+      .max(1)
+      .optional()
+      .describe('Share of mined BTC held instead of sold'),
+
+    income_tax_rate: z.number().min(0).max(1).optional().describe('Income tax rate as decimal'),
+
+    initial_hardware_value_fiat: z
+      .number()
+      .min(0)
+      .optional()
+      .describe('Hardware value at the start in USD (default: capex)'),
+
+    yearly_hardware_value_change_rate: z
+      .number()
+      .min(-1)
+      .max(1)
+      .optional()
+      .describe('Yearly hardware value change as decimal (e.g., -0.4 = 40% depreciation)'),
+
+    scenario: z
+      .object({
+        x: ScenarioAxisSchema,
+        y: ScenarioAxisSchema,
+      })
+      .superRefine((scenario, ctx) => {
+        const variables = [scenario.x.variable, scenario.y.variable];
+        if (variables[0] === variables[1]) {
+          ctx.addIssue({ code: 'custom', message: 'x and y must sweep different variables' });
+        }
+        if (variables.includes('price') && variables.includes('hashprice')) {
+          ctx.addIssue({
+            code: 'custom',
+            message: 'price and hashprice cannot be swept together (hashprice sets the price)',
+          });
+        }
+      })
+      .optional()
+      .describe('Sweep two variables over grids and return a profit matrix'),
+
+    engine: z
+      .enum(ENGINE_MODES)
+      .default('auto')
+      .describe('auto: API with local fallback; api: API only; local: local engine only'),
+
+    include_chart: z
+      .boolean()
+      .default(false)
+      .describe('Attach an SVG chart of the projection as an image content block'),
+  })
+  .superRefine((input, ctx) => {
+    if ((input.loan_amount_fiat ?? 0) > 0 && input.loan_payback_periods === undefined) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['loan_payback_periods'],
+        message: 'loan_payback_periods is required with a loan',
+      });
+    }
+  });
 
 type CostToMineInput = z.infer<typeof CostToMineInputSchema>;
 
@@ -81,6 +483,21 @@ export class CostToMineTool {
     'Returns comprehensive profitability analysis including break-even price, daily profit, ' +
     'and cost projections. Use this for mining profitability analysis.';
 
+  /** Tool category */
+  readonly category = ToolCategory.Parameterized;
+
+  /** Tags for tool discovery */
+  readonly tags = ['profitability', 'electricity', 'projection'];
+
+  /** Upstream API endpoints the tool calls, including network stats for the local engine */
+  readonly endpoints = [
+    '/v2.0/cost-to-mine',
+    '/v1.0/price-stats',
+    '/v1.0/difficulty-stats',
+    '/v1.0/hashrate-stats',
+    '/v2.0/halvings',
+  ];
+
   /** JSON schema for tool inputs */
   readonly inputSchema = {
     type: 'object' as const,
@@ -122,10 +539,113 @@ export class CostToMineTool {
         minimum: 1,
         maximum: 60,
       },
+      price: {
+        type: 'number',
+        description: 'BTC price in USD (default: current price)',
+        exclusiveMinimum: 0,
+      },
+      difficulty: {
+        type: 'number',
+        description: 'Network difficulty (default: current difficulty)',
+        exclusiveMinimum: 0,
+      },
+      monthly_fixed_opex: {
+        type: 'number',
+        description: 'Fixed operating expenses in USD per month (default: 0)',
+        minimum: 0,
+      },
+      capex: {
+        type: 'number',
+        description:
+          'Optional: up-front investment in USD. Giving capex or any other financing, tax ' +
+          'or hardware input adds an investment model (NPV, IRR, payback, cash flows)',
+        minimum: 0,
+      },
+      loan_amount_fiat: {
+        type: 'number',
+        description: 'Optional: loan taken at the start in USD, repaid in equal instalments',
+        minimum: 0,
+      },
+      loan_interest_rate: {
+        type: 'number',
+        description: 'Yearly loan interest rate as decimal (default: 0)',
+        minimum: 0,
+        maximum: 1,
+      },
+      loan_payback_periods: {
+        type: 'number',
+        description: 'Number of periods over which the loan is repaid (required with a loan)',
+        minimum: 1,
+        maximum: 600,
+      },
+      discount_rate: {
+        type: 'number',
+        description: 'Yearly discount rate for NPV as decimal (default: 0)',
+        minimum: 0,
+        maximum: 1,
+      },
+      hodl_rate: {
+        type: 'number',
+        description: 'Share of mined BTC held instead of sold, 0-1 (default: 0)',
+        minimum: 0,
+        maximum: 1,
+      },
+      income_tax_rate: {
+        type: 'number',
+        description: 'Income tax rate as decimal (default: 0)',
+        minimum: 0,
+        maximum: 1,
+      },
+      initial_hardware_value_fiat: {
+        type: 'number',
+        description: 'Hardware value at the start in USD (default: capex)',
+        minimum: 0,
+      },
+      yearly_hardware_value_change_rate: {
+        type: 'number',
+        description:
+          'Yearly hardware value change as decimal, e.g. -0.4 for 40% depreciation a year ' +
+          '(default: 0). Depreciation reduces taxable income',
+        minimum: -1,
+        maximum: 1,
+      },
+      scenario: {
+        type: 'object',
+        description:
+          'Optional: sweep two variables and return a daily profit matrix with the break-even ' +
+          'contour, e.g. { "x": { "variable": "price", "values": [50000, 75000, 100000] }, ' +
+          '"y": { "variable": "electricity_price_per_kwh", "values": [0.05, 0.07, 0.09] } }. ' +
+          'Variables: price (USD), electricity_price_per_kwh, difficulty_change (decimal, 0.1 = +10%), ' +
+          'hashprice (USD/TH/day at current difficulty). Up to 12 values per axis.',
+        properties: {
+          x: SCENARIO_AXIS_PROPERTY,
+          y: SCENARIO_AXIS_PROPERTY,
+        },
+        required: ['x', 'y'],
+      },
+      engine: {
+        type: 'string',
+        enum: [...ENGINE_MODES],
+        description:
+          'Calculation engine: auto (default, API with fallback to the local engine when the ' +
+          'API is unavailable), api (API only) or local (local engine only; fully offline ' +
+          'when price and difficulty are given)',
+      },
+      include_chart: {
+        type: 'boolean',
+        description:
+          'Attach an SVG line chart of projected BTC price against marginal and total cost ' +
+          'to mine as an image content block (default: false)',
+        default: false,
+      },
+      format: OUTPUT_FORMAT_PROPERTY,
     },
     required: ['hashrate_ths', 'consumption_watts', 'electricity_price_per_kwh'] as string[],
   };
 
+  /** JSON schema for structured output */
+  readonly outputSchema = toOutputSchema(CostToMineOutputSchema);
+
   constructor(private readonly apiClient: InsightsApiClient) {}
 
   /**
@@ -138,6 +658,7 @@ export class CostToMineTool {
     try {
       // Validate input with Zod
       const validatedInput = CostToMineInputSchema.parse(input);
+      const format = getOutputFormat(input);
 
       // Convert to API params format
       const params: CostToMineQueryParams = {
@@ -159,31 +680,368 @@ export class CostToMineTool {
       if (validatedInput.periods !== undefined) {
         params.periods = validatedInput.periods;
       }
+      if (validatedInput.price !== undefined) {
+        params.price = validatedInput.price;
+      }
+      if (validatedInput.difficulty !== undefined) {
+        params.difficulty = validatedInput.difficulty;
+      }
+      for (const key of FORWARDED_INPUTS) {
+        if (validatedInput[key] !== undefined) {
+          params[key] = validatedInput[key];
+        }
+      }
+
+      const { data: costData, attribution } = await this.calculate(params, validatedInput.engine);
+
+      // Scenario cells are derived from this one result rather than one request each
+      const scenario = validatedInput.scenario
+        ? this.buildScenario(costData, params, validatedInput.scenario)
+        : null;
 
-      // Fetch data from API
-      const costData = await this.apiClient.getCostToMine(params);
+      const investment = INVESTMENT_INPUTS.some((key) => validatedInput[key] !== undefined)
+        ? this.evaluateInvestment(costData, validatedInput)
+        : null;
+      const projection = this.buildProjection(costData);
 
       // Format as markdown
-      const markdown = this.formatAsMarkdown(costData, validatedInput);
+      const markdown = this.formatAsMarkdown(
+        costData,
+        validatedInput,
+        projection,
+        scenario,
+        investment,
+        attribution
+      );
+
+      return buildToolResponse(
+        format,
+        markdown,
+        this.toStructuredContent(
+          costData,
+          validatedInput,
+          projection,
+          scenario,
+          investment,
+          attribution
+        ),
+        validatedInput.include_chart
+          ? [
+              toSvgImageContent(
+                this.renderProjectionChart(projection, costData.payload.period_resolution)
+              ),
+            ]
+          : []
+      );
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
 
+  /**
+   * Calculate with the API, or the local engine when the API is unavailable or
+   * when requested
+   *
+   * If the local engine cannot run either, the API error is rethrown.
+   */
+  private async calculate(
+    params: CostToMineQueryParams,
+    engine: CostToMineInput['engine']
+  ): Promise<{ data: BraiinsInsightsCostToMine; attribution: EngineAttribution }> {
+    let reason = 'local engine requested';
+    let apiError: unknown;
+
+    if (engine !== 'local') {
+      try {
+        const data = await this.apiClient.getCostToMine(params);
+        return { data, attribution: { engine: 'api' } };
+      } catch (error) {
+        if (engine === 'api' || !isApiUnavailable(error)) {
+          throw error;
+        }
+        apiError = error;
+        reason = describeApiFailure(error);
+      }
+    }
+
+    try {
+      const { inputs, sources } = await resolveNetworkInputs(this.apiClient, {
+        price: params.price,
+        difficulty: params.difficulty,
+      });
       return {
-        content: [
-          {
-            type: 'text',
-            text: markdown,
-          },
-        ],
-        isError: false,
+        data: calculateCostToMine(params, inputs),
+        attribution: { engine: 'local', reason, sources },
       };
     } catch (error) {
-      return this.handleError(error);
+      throw apiError ?? error;
     }
   }
 
+  /**
+   * Sweep the requested scenario around the calculated result
+   */
+  private buildScenario(
+    data: BraiinsInsightsCostToMine,
+    params: CostToMineQueryParams,
+    scenario: NonNullable<CostToMineInput['scenario']>
+  ): ScenarioMatrix {
+    const { result, payload } = data;
+
+    return buildScenarioMatrix(
+      params,
+      {
+        // coin_mined_daily is after pool fees; the baseline is before them
+        btcPerThDay:
+          params.hashrate_ths > 0 && payload.revenue_fees_rate < 1
+            ? result.coin_mined_daily / params.hashrate_ths / (1 - payload.revenue_fees_rate)
+            : 0,
+        price: params.price ?? result.price[0] ?? 0,
+        difficulty: result.difficulty,
+        revenueFeesRate: payload.revenue_fees_rate,
+      },
+      scenario.x,
+      scenario.y
+    );
+  }
+
+  /**
+   * Combine the per-period projection arrays into rows
+   */
+  private buildProjection(data: BraiinsInsightsCostToMine): ProjectionRow[] {
+    const { payload, result } = data;
+    const length = Math.max(
+      result.price.length,
+      result.marginal_cost_to_mine_fiat.length,
+      result.total_cost_to_mine_fiat.length,
+      result.marginal_electricity_breakeven_fiat.length,
+      result.total_electricity_breakeven_fiat.length
+    );
+    const start = Date.parse(`${payload.timestamp.slice(0, 19)}Z`);
+    const periodMs = PERIOD_DAYS[payload.period_resolution] * 86_400_000;
+
+    return Array.from({ length }, (_, index) => ({
+      period: index + 1,
+      date: Number.isNaN(start)
+        ? null
+        : new Date(start + index * periodMs).toISOString().slice(0, 10),
+      btc_price_usd: result.price[index] ?? null,
+      marginal_cost_to_mine_usd: result.marginal_cost_to_mine_fiat[index] ?? null,
+      total_cost_to_mine_usd: result.total_cost_to_mine_fiat[index] ?? null,
+      marginal_break_even_electricity_usd_per_kwh:
+        result.marginal_electricity_breakeven_fiat[index] ?? null,
+      total_break_even_electricity_usd_per_kwh:
+        result.total_electricity_breakeven_fiat[index] ?? null,
+    }));
+  }
+
+  /**
+   * Render projected BTC price and cost to mine as an SVG line chart
+   */
+  private renderProjectionChart(projection: ProjectionRow[], resolution: PeriodResolution): string {
+    const labels = RESOLUTION_LABELS[resolution];
+
+    return renderLineChartSvg({
+      title: `${labels.adjective} Cost to Mine 1 BTC vs BTC Price`,
+      xLabels: projection.map((row) => row.date ?? `${labels.period} ${row.period}`),
+      series: [
+        { name: 'BTC price', values: projection.map((row) => row.btc_price_usd) },
+        { name: 'Marginal cost', values: projection.map((row) => row.marginal_cost_to_mine_usd) },
+        { name: 'Total cost', values: projection.map((row) => row.total_cost_to_mine_usd) },
+      ],
+      formatValue: (value) =>
+        `$${value.toLocaleString('en-US', { notation: 'compact', maximumFractionDigits: 1 })}`,
+    });
+  }
+
+  /**
+   * Evaluate the investment over the projected periods
+   */
+  private evaluateInvestment(
+    data: BraiinsInsightsCostToMine,
+    input: CostToMineInput
+  ): InvestmentResult {
+    const capex = input.capex ?? 0;
+
+    return evaluateInvestment(
+      projectCostToMine(data),
+      PERIOD_DAYS[data.payload.period_resolution],
+      {
+        capex,
+        loanAmount: input.loan_amount_fiat ?? 0,
+        loanInterestRate: input.loan_interest_rate ?? 0,
+        loanPaybackPeriods: input.loan_payback_periods ?? 0,
+        discountRate: input.discount_rate ?? 0,
+        hodlRate: input.hodl_rate ?? 0,
+        incomeTaxRate: input.income_tax_rate ?? 0,
+        hardwareValue: input.initial_hardware_value_fiat ?? capex,
+        yearlyHardwareValueChange: input.yearly_hardware_value_change_rate ?? 0,
+      }
+    );
+  }
+
+  /**
+   * Normalize cost-to-mine data into the structured output payload
+   */
+  private toStructuredContent(
+    data: BraiinsInsightsCostToMine,
+    input: CostToMineInput,
+    projection: ProjectionRow[],
+    scenario: ScenarioMatrix | null,
+    investment: InvestmentResult | null,
+    attribution: EngineAttribution
+  ): CostToMineOutput {
+    const { result, payload } = data;
+
+    return {
+      inputs: {
+        hashrate_ths: input.hashrate_ths,
+        consumption_watts: input.consumption_watts,
+        electricity_price_per_kwh: input.electricity_price_per_kwh,
+        revenue_fees_rate: payload.revenue_fees_rate ?? 0.02,
+        yearly_difficulty_change_rate: payload.yearly_difficulty_change_rate ?? 0.02,
+        monthly_fixed_opex: input.monthly_fixed_opex ?? 0,
+        period_resolution: input.period_resolution ?? payload.period_resolution ?? '1m',
+        periods: input.periods ?? payload.periods ?? 24,
+      },
+      cost_to_mine_btc_usd: result.fiat_cost,
+      btc_price_usd: result.price[0] ?? null,
+      margin_usd: result.fiat_margin,
+      daily_profit_usd: result.fiat_profit_daily,
+      btc_mined_daily: result.coin_mined_daily,
+      hardware_efficiency_jth: result.hardware_efficiency_j_th,
+      break_even_electricity_price_usd_per_kwh: result.fiat_break_even_electricity_price,
+      network_difficulty: result.difficulty,
+      is_profitable: result.fiat_margin > 0,
+      projection,
+      cost_by_electricity_price: result.fiat_electricity_prices.map((price, index) => ({
+        electricity_price_per_kwh: price,
+        cost_to_mine_btc_usd: result.fiat_cost_line[index] ?? 0,
+        margin_usd: result.fiat_profit_area[index] ?? null,
+      })),
+      scenario: scenario && this.toScenarioContent(scenario, result.difficulty),
+      investment: investment && this.toInvestmentContent(investment, input),
+      engine: attribution.engine,
+      engine_note: attribution.reason ?? null,
+      timestamp: payload.timestamp,
+    };
+  }
+
+  /**
+   * Normalize an investment evaluation into the structured output payload
+   */
+  private toInvestmentContent(
+    investment: InvestmentResult,
+    input: CostToMineInput
+  ): NonNullable<CostToMineOutput['investment']> {
+    const { terminal, totals } = investment;
+
+    return {
+      assumptions: {
+        capex: input.capex ?? 0,
+        loan_amount_fiat: input.loan_amount_fiat ?? 0,
+        loan_interest_rate: input.loan_interest_rate ?? 0,
+        loan_payback_periods: input.loan_payback_periods ?? 0,
+        discount_rate: input.discount_rate ?? 0,
+        hodl_rate: input.hodl_rate ?? 0,
+        income_tax_rate: input.income_tax_rate ?? 0,
+        initial_hardware_value_fiat: input.initial_hardware_value_fiat ?? input.capex ?? 0,
+        yearly_hardware_value_change_rate: input.yearly_hardware_value_change_rate ?? 0,
+      },
+      npv_usd: investment.npv,
+      irr: investment.irr,
+      payback_periods: investment.paybackPeriods,
+      payback_days:
+        investment.paybackPeriods !== null
+          ? investment.paybackPeriods * investment.periodDays
+          : null,
+      initial_cash_flow_usd: investment.initialCashFlow,
+      terminal: {
+        btc_held: terminal.btcHeld,
+        btc_value_usd: terminal.btcValue,
+        hardware_value_usd: terminal.hardwareValue,
+        loan_balance_usd: terminal.loanBalance,
+        value_usd: terminal.value,
+      },
+      totals: {
+        revenue_usd: totals.revenue,
+        electricity_cost_usd: totals.electricityCost,
+        opex_usd: totals.opex,
+        interest_usd: totals.interest,
+        tax_usd: totals.tax,
+        cash_flow_usd: totals.cashFlow,
+      },
+      cash_flows: investment.cashFlows.map((flow) => ({
+        period: flow.period,
+        btc_price_usd: flow.btcPrice,
+        btc_mined: flow.btcMined,
+        revenue_usd: flow.revenue,
+        sold_revenue_usd: flow.soldRevenue,
+        electricity_cost_usd: flow.electricityCost,
+        opex_usd: flow.opex,
+        interest_usd: flow.interest,
+        principal_usd: flow.principal,
+        depreciation_usd: flow.depreciation,
+        taxable_income_usd: flow.taxableIncome,
+        tax_usd: flow.tax,
+        cash_flow_usd: flow.cashFlow,
+        cumulative_cash_flow_usd: flow.cumulativeCashFlow,
+        discounted_cash_flow_usd: flow.discountedCashFlow,
+        btc_held: flow.btcHeld,
+      })),
+      loan_schedule: investment.loanSchedule.map((payment) => ({
+        period: payment.period,
+        opening_balance_usd: payment.openingBalance,
+        payment_usd: payment.payment,
+        interest_usd: payment.interest,
+        principal_usd: payment.principal,
+        closing_balance_usd: payment.closingBalance,
+      })),
+    };
+  }
+
+  /**
+   * Normalize a scenario matrix into the structured output payload
+   */
+  private toScenarioContent(
+    scenario: ScenarioMatrix,
+    difficulty: number
+  ): NonNullable<CostToMineOutput['scenario']> {
+    const cells = scenario.rows.flat().map((cell) => ({
+      x: cell.x,
+      y: cell.y,
+      btc_price_usd: cell.params.price ?? 0,
+      network_difficulty: cell.params.difficulty ?? difficulty,
+      electricity_price_per_kwh: cell.params.electricity_price_per_kwh,
+      daily_revenue_usd: cell.dailyRevenue,
+      daily_cost_usd: cell.dailyCost,
+      daily_profit_usd: cell.dailyProfit,
+      cost_to_mine_btc_usd: cell.costToMine,
+      is_profitable: cell.dailyProfit > 0,
+    }));
+
+    return {
+      x_variable: scenario.x.variable,
+      x_values: scenario.x.values,
+      y_variable: scenario.y.variable,
+      y_values: scenario.y.values,
+      cells,
+      break_even: scenario.breakEven,
+      profitable_cells: cells.filter((cell) => cell.is_profitable).length,
+    };
+  }
+
   /**
    * Format cost-to-mine data as markdown for LLM consumption
    */
-  private formatAsMarkdown(data: BraiinsInsightsCostToMine, input: CostToMineInput): string {
+  private formatAsMarkdown(
+    data: BraiinsInsightsCostToMine,
+    input: CostToMineInput,
+    projection: ProjectionRow[],
+    scenario: ScenarioMatrix | null,
+    investment: InvestmentResult | null,
+    attribution: EngineAttribution
+  ): string {
     const { result, payload } = data;
     const sections: string[] = [];
 
@@ -249,14 +1107,308 @@ export class CostToMineTool {
     sections.push('\n## Interpretation\n');
     sections.push(this.getInterpretation(result, input));
 
+    if (projection.length > 0) {
+      sections.push(this.formatProjection(projection, payload.period_resolution));
+    }
+    if (result.fiat_cost_line.length > 0) {
+      sections.push(this.formatElectricitySweep(result, input.electricity_price_per_kwh));
+    }
+
+    if (investment) {
+      sections.push(this.formatInvestment(investment, input, payload.period_resolution));
+    }
+
+    if (scenario) {
+      sections.push(this.formatScenario(scenario));
+    }
+
     // Footer
     sections.push('\n---\n');
-    sections.push('*Data from [Braiins Insights Dashboard](https://insights.braiins.com)*');
+    sections.push(
+      attribution.engine === 'api'
+        ? '*Data from [Braiins Insights Dashboard](https://insights.braiins.com)*'
+        : formatLocalEngineNote(attribution)
+    );
     sections.push(`*Timestamp: ${payload.timestamp}*`);
 
     return sections.join('\n');
   }
 
+  /**
+   * Format the per-period projection as sparklines and a table
+   */
+  private formatProjection(projection: ProjectionRow[], resolution: PeriodResolution): string {
+    const labels = RESOLUTION_LABELS[resolution];
+    const lines: string[] = [];
+    const usd = (value: number | null): string =>
+      value !== null ? `$${this.formatCurrency(value)}` : '–';
+    const perKwh = (value: number | null): string =>
+      value !== null ? `$${value.toFixed(4)}/kWh` : '–';
+    const trend = (
+      name: string,
+      values: Array<number | null>,
+      formatValue: (value: number | null) => string
+    ): string => {
+      const known = values.filter((value): value is number => value !== null);
+      return (
+        `${name.padEnd(18)} ${sparkline(values)}  ` +
+        `${formatValue(known[0] ?? null)} → ${formatValue(known[known.length - 1] ?? null)}`
+      );
+    };
+
+    lines.push(`\n## ${labels.adjective} Projection\n`);
+    lines.push('```text');
+    lines.push(
+      trend(
+        'BTC price',
+        projection.map((row) => row.btc_price_usd),
+        usd
+      )
+    );
+    lines.push(
+      trend(
+        'Marginal cost/BTC',
+        projection.map((row) => row.marginal_cost_to_mine_usd),
+        usd
+      )
+    );
+    lines.push(
+      trend(
+        'Total cost/BTC',
+        projection.map((row) => row.total_cost_to_mine_usd),
+        usd
+      )
+    );
+    lines.push(
+      trend(
+        'Break-even power',
+        projection.map((row) => row.marginal_break_even_electricity_usd_per_kwh),
+        perKwh
+      )
+    );
+    lines.push('```\n');
+
+    lines.push(
+      `| ${labels.period} | Date | BTC Price | Marginal Cost | Total Cost | Margin | Marginal Break-even | Total Break-even |`
+    );
+    lines.push(
+      '|---|------|-----------|---------------|------------|--------|---------------------|------------------|'
+    );
+    for (const row of projection) {
+      const margin =
+        row.btc_price_usd !== null && row.marginal_cost_to_mine_usd !== null
+          ? row.btc_price_usd - row.marginal_cost_to_mine_usd
+          : null;
+      const marginCell =
+        margin !== null ? `${margin >= 0 ? '+' : '-'}${usd(Math.abs(margin))}` : '–';
+      lines.push(
+        `| ${row.period} | ${row.date ?? '–'} | ${usd(row.btc_price_usd)} | ` +
+          `${usd(row.marginal_cost_to_mine_usd)} | ${usd(row.total_cost_to_mine_usd)} | ${marginCell} | ` +
+          `${perKwh(row.marginal_break_even_electricity_usd_per_kwh)} | ` +
+          `${perKwh(row.total_break_even_electricity_usd_per_kwh)} |`
+      );
+    }
+    lines.push(
+      '\n*Marginal cost is the cost to mine 1 BTC within the period; total cost averages it ' +
+        'from the start. Margin is BTC price less marginal cost.*'
+    );
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Format cost to mine across electricity prices, sampled to at most
+   * MAX_ELECTRICITY_ROWS rows
+   */
+  private formatElectricitySweep(
+    result: BraiinsInsightsCostToMine['result'],
+    electricityPrice: number
+  ): string {
+    const prices = result.fiat_electricity_prices;
+    const step = Math.ceil(prices.length / MAX_ELECTRICITY_ROWS);
+    const lines: string[] = [];
+
+    lines.push('\n## Cost by Electricity Price\n');
+    lines.push('```text');
+    lines.push(`Cost to mine 1 BTC  ${sparkline(result.fiat_cost_line)}`);
+    lines.push(`Margin              ${sparkline(result.fiat_profit_area)}`);
+    lines.push('```\n');
+    lines.push('| Electricity | Cost to Mine 1 BTC | Margin |');
+    lines.push('|-------------|--------------------|--------|');
+    prices.forEach((price, index) => {
+      if (index % step !== 0 && index !== prices.length - 1) {
+        return;
+      }
+      const margin = result.fiat_profit_area[index];
+      const current = Math.abs(price - electricityPrice) < 1e-9 ? ' ⬅️' : '';
+      lines.push(
+        `| $${price.toFixed(3)}/kWh${current} | $${this.formatCurrency(result.fiat_cost_line[index] ?? 0)} | ` +
+          `${margin !== undefined ? `${margin >= 0 ? '+' : '-'}$${this.formatCurrency(Math.abs(margin))}` : '–'} |`
+      );
+    });
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Format the investment model: key metrics, cash flows and loan amortization
+   */
+  private formatInvestment(
+    investment: InvestmentResult,
+    input: CostToMineInput,
+    resolution: CostToMineOutput['inputs']['period_resolution']
+  ): string {
+    const { terminal, totals } = investment;
+    const lines: string[] = [];
+    const signed = (value: number): string =>
+      `${value < 0 ? '-' : '+'}$${this.formatCurrency(Math.abs(value))}`;
+    const periods = (count: number): string =>
+      `${count.toFixed(1)} periods (~${Math.round(count * investment.periodDays)} days)`;
+
+    lines.push(`\n## Investment Model (${resolution} periods)\n`);
+    lines.push('| Metric | Value |');
+    lines.push('|--------|-------|');
+    lines.push(`| **Capex** | $${this.formatCurrency(input.capex ?? 0)} |`);
+    if (investment.loanSchedule.length > 0) {
+      lines.push(
+        `| **Loan** | $${this.formatCurrency(input.loan_amount_fiat ?? 0)} at ` +
+          `${((input.loan_interest_rate ?? 0) * 100).toFixed(2)}%/year over ` +
+          `${investment.loanSchedule.length} periods |`
+      );
+    }
+    lines.push(
+      `| **NPV** (${((input.discount_rate ?? 0) * 100).toFixed(1)}% discount) | ` +
+        `${signed(investment.npv)} ${investment.npv >= 0 ? '✅' : '❌'} |`
+    );
+    lines.push(
+      `| **IRR** | ${investment.irr !== null ? `${(investment.irr * 100).toFixed(1)}%/year` : 'n/a'} |`
+    );
+    lines.push(
+      `| **Payback Period** | ${investment.paybackPeriods !== null ? periods(investment.paybackPeriods) : `Not within ${investment.cashFlows.length} periods`} |`
+    );
+    lines.push(`| **Total Tax** | $${this.formatCurrency(totals.tax)} |`);
+    lines.push(`| **Total After-Tax Cash Flow** | ${signed(totals.cashFlow)} |`);
+    if (terminal.btcHeld > 0) {
+      lines.push(
+        `| **BTC Held at End** | ${terminal.btcHeld.toFixed(8)} BTC ($${this.formatCurrency(terminal.btcValue)}) |`
+      );
+    }
+    lines.push(`| **Hardware Value at End** | $${this.formatCurrency(terminal.hardwareValue)} |`);
+    if (terminal.loanBalance > 0) {
+      lines.push(`| **Loan Outstanding at End** | $${this.formatCurrency(terminal.loanBalance)} |`);
+    }
+
+    lines.push('\n### After-Tax Cash Flows\n');
+    lines.push(
+      '| Period | BTC Price | BTC Mined | Revenue | Operating Costs | Debt Service | Tax | Cash Flow | Cumulative |'
+    );
+    lines.push(
+      '|--------|-----------|-----------|---------|-----------------|--------------|-----|-----------|------------|'
+    );
+    lines.push(
+      `| 0 | | | | | | | ${signed(investment.initialCashFlow)} | ${signed(investment.initialCashFlow)} |`
+    );
+    for (const flow of investment.cashFlows) {
+      lines.push(
+        `| ${flow.period} | $${Math.round(flow.btcPrice).toLocaleString('en-US')} | ` +
+          `${flow.btcMined.toFixed(6)} | $${this.formatCurrency(flow.revenue)} | ` +
+          `$${this.formatCurrency(flow.electricityCost + flow.opex)} | ` +
+          `$${this.formatCurrency(flow.interest + flow.principal)} | $${this.formatCurrency(flow.tax)} | ` +
+          `${signed(flow.cashFlow)} | ${signed(flow.cumulativeCashFlow)} |`
+      );
+    }
+
+    if (investment.loanSchedule.length > 0) {
+      lines.push('\n### Loan Amortization\n');
+      lines.push('| Period | Opening Balance | Payment | Interest | Principal | Closing Balance |');
+      lines.push('|--------|-----------------|---------|----------|-----------|-----------------|');
+      for (const payment of investment.loanSchedule) {
+        lines.push(
+          `| ${payment.period} | $${this.formatCurrency(payment.openingBalance)} | ` +
+            `$${this.formatCurrency(payment.payment)} | $${this.formatCurrency(payment.interest)} | ` +
+            `$${this.formatCurrency(payment.principal)} | $${this.formatCurrency(payment.closingBalance)} |`
+        );
+      }
+    }
+
+    lines.push(
+      '\n*Revenue includes held BTC at the period price. Tax is on revenue less operating ' +
+        'costs, interest and depreciation, with no loss carry-forward. NPV and IRR add held ' +
+        'BTC and hardware value at the end, less any outstanding loan.*'
+    );
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Format a scenario matrix as a daily profit heat map with the break-even contour
+   */
+  private formatScenario(scenario: ScenarioMatrix): string {
+    const { x, y } = scenario;
+    const lines: string[] = [];
+
+    lines.push(
+      `\n## Scenario Matrix: ${SCENARIO_LABELS[y.variable]} × ${SCENARIO_LABELS[x.variable]}\n`
+    );
+    lines.push(
+      'Daily profit/loss in USD (🟢 profit, 🟡 within 10% of break-even, 🔴 loss). ' +
+        `**Break-even** is the ${SCENARIO_LABELS[x.variable]} at which each row's profit is zero.\n`
+    );
+
+    lines.push(
+      `| ${SCENARIO_LABELS[y.variable]} ↓ / ${SCENARIO_LABELS[x.variable]} → | ` +
+        x.values.map((value) => this.formatScenarioValue(x.variable, value)).join(' | ') +
+        ' | Break-even |'
+    );
+    lines.push(`|---|${x.values.map(() => '---').join('|')}|---|`);
+
+    scenario.rows.forEach((row, index) => {
+      const breakEven = scenario.breakEven[index]?.x ?? null;
+      const cells = row.map(
+        (cell) =>
+          `${this.getScenarioIndicator(cell.dailyProfit, cell.dailyCost)} ` +
+          `${cell.dailyProfit >= 0 ? '+' : '-'}$${this.formatCurrency(Math.abs(cell.dailyProfit))}`
+      );
+      lines.push(
+        `| **${this.formatScenarioValue(y.variable, row[0]?.y ?? 0)}** | ${cells.join(' | ')} | ` +
+          `${breakEven !== null ? this.formatScenarioValue(x.variable, breakEven) : 'never'} |`
+      );
+    });
+
+    lines.push(
+      '\n*Cells are derived from this cost-to-mine result: BTC mined scales inversely with ' +
+        'difficulty, revenue is net of the pool fee, and costs are electricity plus fixed opex.*'
+    );
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Get heat map indicator for a scenario cell
+   */
+  private getScenarioIndicator(profit: number, cost: number): string {
+    if (Math.abs(profit) <= cost * 0.1) {
+      return '🟡';
+    }
+    return profit > 0 ? '🟢' : '🔴';
+  }
+
+  /**
+   * Format a scenario grid value in the variable's unit
+   */
+  private formatScenarioValue(variable: ScenarioVariable, value: number): string {
+    switch (variable) {
+      case 'price':
+        return `$${Math.round(value).toLocaleString('en-US')}`;
+      case 'electricity_price_per_kwh':
+        return `$${value.toFixed(3)}/kWh`;
+      case 'difficulty_change':
+        return `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+      case 'hashprice':
+        return `$${value.toFixed(4)}/TH/day`;
+    }
+  }
+
   /**
    * Get cost indicator emoji based on current profitability
    */
@@ -374,6 +1526,18 @@ export class CostToMineTool {
       };
     }
 
+    if (error instanceof NetworkInputsError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Local Engine Unavailable**: ${error.message}\n\nProvide price and difficulty to calculate offline.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
     if (error instanceof ValidationError) {
       return {
         content: [
@@ -0,0 +1,666 @@
+/**
+ * MCP Tool: braiins_hardware_catalog
+ *
+ * Browses the Braiins Insights ASIC hardware catalog with filtering by manufacturer,
+ * efficiency (J/TH), hashrate and release date, plus sorting and ranking of models.
+ *
+ * @category Parameterized Tool
+ * @see https://insights.braiins.com/api/v1.0/hardware-stats
+ */
+
+import { z } from 'zod';
+import type {
+  BraiinsInsightsHardwareStats,
+  HardwareStatsRequest,
+} from '../../types/insights-api.js';
+import {
+  InsightsApiClient,
+  InsightsApiError,
+  NetworkError,
+  ValidationError,
+} from '../../api/insights-client.js';
+import {
+  OUTPUT_FORMAT_PROPERTY,
+  buildToolResponse,
+  getOutputFormat,
+  toOutputSchema,
+} from '../../utils/output-format.js';
+import { ToolCategory } from '../categories.js';
+import type { MCPToolResponse } from '../index.js';
+
+/**
+ * Structured output payload for the hardware catalog
+ */
+const HardwareCatalogOutputSchema = z.object({
+  models: z.array(
+    z.object({
+      rank: z.number(),
+      model: z.string(),
+      manufacturer: z.string().nullable(),
+      hashrate_ths: z.number(),
+      power_watts: z.number(),
+      efficiency_jth: z.number(),
+      release_date: z.string().nullable().describe('Release date (YYYY-MM-DD)'),
+    })
+  ),
+  matched_count: z.number().describe('Models matching the filters'),
+  catalog_count: z.number().describe('Models returned by the API before filtering'),
+  sort_by: z.string(),
+  sort_order: z.enum(['asc', 'desc']),
+});
+
+type HardwareCatalogOutput = z.infer<typeof HardwareCatalogOutputSchema>;
+
+/**
+ * Sortable hardware catalog fields
+ */
+const SORT_FIELDS = ['efficiency', 'hashrate', 'power', 'release_date', 'model'] as const;
+
+/**
+ * Date format accepted for release date filters (YYYY-MM-DD)
+ */
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Zod validation schema for hardware catalog input
+ */
+const HardwareCatalogInputSchema = z
+  .object({
+    models: z
+      .array(z.string().min(1))
+      .max(50, 'Cannot request more than 50 models')
+      .optional()
+      .describe('Specific hardware model names to fetch'),
+    manufacturer: z
+      .string()
+      .min(1)
+      .optional()
+      .describe('Manufacturer name filter (case-insensitive substring match)'),
+    min_efficiency_jth: z
+      .number()
+      .positive('Minimum efficiency must be positive')
+      .optional()
+      .describe('Minimum efficiency in J/TH'),
+    max_efficiency_jth: z
+      .number()
+      .positive('Maximum efficiency must be positive')
+      .optional()
+      .describe('Maximum efficiency in J/TH'),
+    min_hashrate_ths: z
+      .number()
+      .min(0, 'Minimum hashrate cannot be negative')
+      .optional()
+      .describe('Minimum hashrate in TH/s'),
+    max_hashrate_ths: z
+      .number()
+      .positive('Maximum hashrate must be positive')
+      .optional()
+      .describe('Maximum hashrate in TH/s'),
+    released_after: z
+      .string()
+      .regex(DATE_PATTERN, 'Date must be in YYYY-MM-DD format')
+      .optional()
+      .describe('Only models released on or after this date'),
+    released_before: z
+      .string()
+      .regex(DATE_PATTERN, 'Date must be in YYYY-MM-DD format')
+      .optional()
+      .describe('Only models released on or before this date'),
+    sort_by: z.enum(SORT_FIELDS).default('efficiency').describe('Field to sort and rank by'),
+    sort_order: z
+      .enum(['asc', 'desc'])
+      .optional()
+      .describe('Sort direction (default: best first for the chosen field)'),
+    limit: z
+      .number()
+      .int()
+      .min(1, 'Limit must be at least 1')
+      .max(100, 'Limit cannot exceed 100')
+      .default(20)
+      .describe('Maximum number of models to return'),
+  })
+  .refine(
+    (input) =>
+      input.min_efficiency_jth === undefined ||
+      input.max_efficiency_jth === undefined ||
+      input.min_efficiency_jth <= input.max_efficiency_jth,
+    {
+      message: 'min_efficiency_jth cannot be greater than max_efficiency_jth',
+      path: ['min_efficiency_jth'],
+    }
+  )
+  .refine(
+    (input) =>
+      input.min_hashrate_ths === undefined ||
+      input.max_hashrate_ths === undefined ||
+      input.min_hashrate_ths <= input.max_hashrate_ths,
+    {
+      message: 'min_hashrate_ths cannot be greater than max_hashrate_ths',
+      path: ['min_hashrate_ths'],
+    }
+  )
+  .refine(
+    (input) =>
+      input.released_after === undefined ||
+      input.released_before === undefined ||
+      input.released_after <= input.released_before,
+    {
+      message: 'released_after cannot be later than released_before',
+      path: ['released_after'],
+    }
+  );
+
+type HardwareCatalogInput = z.infer<typeof HardwareCatalogInputSchema>;
+type SortField = (typeof SORT_FIELDS)[number];
+
+/**
+ * Hardware Catalog Tool
+ *
+ * Parameterized tool that fetches ASIC hardware specifications from the
+ * Braiins Insights Dashboard API and filters, sorts and ranks them locally.
+ */
+export class HardwareCatalogTool {
+  /** MCP tool name */
+  readonly name = 'braiins_hardware_catalog';
+
+  /** Tool description shown to LLM */
+  readonly description =
+    'Browse the Bitcoin ASIC miner hardware catalog. Filter models by manufacturer, ' +
+    'efficiency range (J/TH), hashrate range (TH/s) and release date, then sort and rank ' +
+    'them by efficiency, hashrate, power or release date. ' +
+    'Use this to answer questions like "which ASICs under 20 J/TH exist".';
+
+  /** Tool category */
+  readonly category = ToolCategory.Parameterized;
+
+  /** Tags for tool discovery */
+  readonly tags = ['hardware', 'asic', 'efficiency'];
+
+  /** Upstream API endpoints the tool calls */
+  readonly endpoints = ['/v1.0/hardware-stats'];
+
+  /** JSON schema for tool inputs (all optional) */
+  readonly inputSchema = {
+    type: 'object' as const,
+    properties: {
+      models: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Specific hardware model names to fetch (e.g., ["Antminer S21"])',
+        maxItems: 50,
+      },
+      manufacturer: {
+        type: 'string',
+        description: 'Manufacturer filter, case-insensitive (e.g., "Bitmain", "MicroBT")',
+      },
+      min_efficiency_jth: {
+        type: 'number',
+        description: 'Minimum efficiency in J/TH',
+        exclusiveMinimum: 0,
+      },
+      max_efficiency_jth: {
+        type: 'number',
+        description: 'Maximum efficiency in J/TH (e.g., 20 for "under 20 J/TH")',
+        exclusiveMinimum: 0,
+      },
+      min_hashrate_ths: {
+        type: 'number',
+        description: 'Minimum hashrate in TH/s',
+        minimum: 0,
+      },
+      max_hashrate_ths: {
+        type: 'number',
+        description: 'Maximum hashrate in TH/s',
+        exclusiveMinimum: 0,
+      },
+      released_after: {
+        type: 'string',
+        description: 'Only models released on or after this date (YYYY-MM-DD)',
+        pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+      },
+      released_before: {
+        type: 'string',
+        description: 'Only models released on or before this date (YYYY-MM-DD)',
+        pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+      },
+      sort_by: {
+        type: 'string',
+        enum: [...SORT_FIELDS],
+        description: 'Field to sort and rank by (default: efficiency)',
+        default: 'efficiency',
+      },
+      sort_order: {
+        type: 'string',
+        enum: ['asc', 'desc'],
+        description:
+          'Sort direction. Defaults to best first: lowest J/TH, highest TH/s, lowest watts, newest release',
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of models to return',
+        default: 20,
+        minimum: 1,
+        maximum: 100,
+      },
+      format: OUTPUT_FORMAT_PROPERTY,
+    },
+    required: [] as string[],
+  };
+
+  /** JSON schema for structured output */
+  readonly outputSchema = toOutputSchema(HardwareCatalogOutputSchema);
+
+  constructor(private readonly apiClient: InsightsApiClient) {}
+
+  /**
+   * Execute the tool
+   *
+   * @param input - Catalog filter, sort and limit parameters
+   * @returns MCP response with formatted markdown
+   */
+  async execute(input: unknown): Promise<MCPToolResponse> {
+    try {
+      // Validate input with Zod
+      const validatedInput = HardwareCatalogInputSchema.parse(input ?? {});
+      const format = getOutputFormat(input);
+
+      // Build request body
+      const request: HardwareStatsRequest = {};
+      if (validatedInput.models !== undefined) {
+        request.models = validatedInput.models;
+      }
+
+      // Fetch catalog from API
+      const hardware = await this.apiClient.getHardwareStats(request);
+
+      // Filter, sort and rank locally
+      const filtered = this.applyFilters(hardware, validatedInput);
+      const sorted = this.sortHardware(filtered, validatedInput);
+
+      if (sorted.length === 0) {
+        return buildToolResponse(
+          format,
+          this.formatEmptyResult(validatedInput, hardware.length),
+          this.toStructuredContent(sorted, validatedInput, hardware.length)
+        );
+      }
+
+      // Format as markdown
+      const markdown = this.formatAsMarkdown(sorted, validatedInput, hardware.length);
+
+      return buildToolResponse(
+        format,
+        markdown,
+        this.toStructuredContent(sorted, validatedInput, hardware.length)
+      );
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Apply manufacturer, efficiency, hashrate and release date filters
+   */
+  private applyFilters(
+    hardware: BraiinsInsightsHardwareStats[],
+    input: HardwareCatalogInput
+  ): BraiinsInsightsHardwareStats[] {
+    const manufacturer = input.manufacturer?.toLowerCase();
+
+    return hardware.filter((item) => {
+      if (manufacturer !== undefined) {
+        const itemManufacturer = (item.manufacturer ?? '').toLowerCase();
+        // Fall back to model name since many models embed the vendor brand
+        if (
+          !itemManufacturer.includes(manufacturer) &&
+          !item.model.toLowerCase().includes(manufacturer)
+        ) {
+          return false;
+        }
+      }
+
+      if (
+        input.min_efficiency_jth !== undefined &&
+        item.efficiency_jth < input.min_efficiency_jth
+      ) {
+        return false;
+      }
+      if (
+        input.max_efficiency_jth !== undefined &&
+        item.efficiency_jth > input.max_efficiency_jth
+      ) {
+        return false;
+      }
+      if (input.min_hashrate_ths !== undefined && item.hashrate_ths < input.min_hashrate_ths) {
+        return false;
+      }
+      if (input.max_hashrate_ths !== undefined && item.hashrate_ths > input.max_hashrate_ths) {
+        return false;
+      }
+
+      if (input.released_after !== undefined || input.released_before !== undefined) {
+        const releaseDate = this.normalizeDate(item.release_date);
+        // Models without a known release date cannot satisfy a date filter
+        if (releaseDate === null) {
+          return false;
+        }
+        if (input.released_after !== undefined && releaseDate < input.released_after) {
+          return false;
+        }
+        if (input.released_before !== undefined && releaseDate > input.released_before) {
+          return false;
+        }
+      }
+
+      return true;
+    });
+  }
+
+  /**
+   * Sort hardware by the requested field, defaulting to "best first" ordering
+   */
+  private sortHardware(
+    hardware: BraiinsInsightsHardwareStats[],
+    input: HardwareCatalogInput
+  ): BraiinsInsightsHardwareStats[] {
+    const order = input.sort_order ?? this.getDefaultSortOrder(input.sort_by);
+    const direction = order === 'asc' ? 1 : -1;
+
+    return [...hardware].sort((a, b) => {
+      // Models without a known release date always rank last
+      if (input.sort_by === 'release_date') {
+        const aKnown = this.normalizeDate(a.release_date) !== null;
+        const bKnown = this.normalizeDate(b.release_date) !== null;
+        if (aKnown !== bKnown) {
+          return aKnown ? -1 : 1;
+        }
+      }
+
+      const comparison = this.compareBy(input.sort_by, a, b);
+      return comparison === 0 ? a.model.localeCompare(b.model) : comparison * direction;
+    });
+  }
+
+  /**
+   * Default sort direction for each field ("best" model ranked first)
+   */
+  private getDefaultSortOrder(field: SortField): 'asc' | 'desc' {
+    switch (field) {
+      case 'hashrate':
+      case 'release_date':
+        return 'desc';
+      default:
+        return 'asc';
+    }
+  }
+
+  /**
+   * Compare two hardware entries by a single field (ascending)
+   */
+  private compareBy(
+    field: SortField,
+    a: BraiinsInsightsHardwareStats,
+    b: BraiinsInsightsHardwareStats
+  ): number {
+    switch (field) {
+      case 'efficiency':
+        return a.efficiency_jth - b.efficiency_jth;
+      case 'hashrate':
+        return a.hashrate_ths - b.hashrate_ths;
+      case 'power':
+        return a.power_watts - b.power_watts;
+      case 'release_date':
+        return (this.normalizeDate(a.release_date) ?? '').localeCompare(
+          this.normalizeDate(b.release_date) ?? ''
+        );
+      case 'model':
+        return a.model.localeCompare(b.model);
+    }
+  }
+
+  /**
+   * Normalize a release date to YYYY-MM-DD, or null if unknown/unparseable
+   */
+  private normalizeDate(value: string | undefined): string | null {
+    if (!value) {
+      return null;
+    }
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      return null;
+    }
+    return date.toISOString().split('T')[0] ?? null;
+  }
+
+  /**
+   * Normalize ranked hardware into the structured output payload
+   */
+  private toStructuredContent(
+    hardware: BraiinsInsightsHardwareStats[],
+    input: HardwareCatalogInput,
+    totalCount: number
+  ): HardwareCatalogOutput {
+    return {
+      models: hardware.slice(0, input.limit).map((item, index) => ({
+        rank: index + 1,
+        model: item.model,
+        manufacturer: item.manufacturer ?? null,
+        hashrate_ths: item.hashrate_ths,
+        power_watts: item.power_watts,
+        efficiency_jth: item.efficiency_jth,
+        release_date: this.normalizeDate(item.release_date),
+      })),
+      matched_count: hardware.length,
+      catalog_count: totalCount,
+      sort_by: input.sort_by,
+      sort_order: input.sort_order ?? this.getDefaultSortOrder(input.sort_by),
+    };
+  }
+
+  /**
+   * Format ranked hardware catalog as markdown for LLM consumption
+   */
+  private formatAsMarkdown(
+    hardware: BraiinsInsightsHardwareStats[],
+    input: HardwareCatalogInput,
+    totalCount: number
+  ): string {
+    const sections: string[] = [];
+    const shown = hardware.slice(0, input.limit);
+
+    sections.push('# 🖥️ Bitcoin ASIC Hardware Catalog\n');
+
+    // Applied filters
+    const filters = this.describeFilters(input);
+    sections.push('## Query\n');
+    sections.push(`- **Filters:** ${filters.length > 0 ? filters.join(', ') : 'None'}`);
+    sections.push(
+      `- **Sorted By:** ${input.sort_by} (${input.sort_order ?? this.getDefaultSortOrder(input.sort_by)})`
+    );
+    sections.push(
+      `- **Matches:** ${hardware.length} of ${totalCount} models` +
+        (hardware.length > shown.length ? ` (showing top ${shown.length})` : '')
+    );
+
+    // Ranked table
+    sections.push('\n## Ranked Models\n');
+    sections.push(
+      '| Rank | Model | Manufacturer | Hashrate (TH/s) | Power (W) | Efficiency (J/TH) | Released |'
+    );
+    sections.push(
+      '|------|-------|--------------|-----------------|-----------|-------------------|----------|'
+    );
+    shown.forEach((item, index) => {
+      sections.push(
+        `| ${index + 1} | ${item.model} | ${item.manufacturer ?? 'Unknown'} | ` +
+          `${item.hashrate_ths.toLocaleString('en-US', { maximumFractionDigits: 1 })} | ` +
+          `${item.power_watts.toLocaleString('en-US', { maximumFractionDigits: 0 })} | ` +
+          `${item.efficiency_jth.toFixed(1)} ${this.getEfficiencyIndicator(item.efficiency_jth)} | ` +
+          `${this.normalizeDate(item.release_date) ?? 'N/A'} |`
+      );
+    });
+
+    // Summary statistics across all matches
+    const efficiencies = hardware.map((h) => h.efficiency_jth);
+    const hashrates = hardware.map((h) => h.hashrate_ths);
+    const best = hardware.reduce((a, b) => (b.efficiency_jth < a.efficiency_jth ? b : a));
+
+    sections.push('\n## Summary\n');
+    sections.push(`- **Most Efficient:** ${best.model} (${best.efficiency_jth.toFixed(1)} J/TH)`);
+    sections.push(
+      `- **Efficiency Range:** ${Math.min(...efficiencies).toFixed(1)} – ${Math.max(...efficiencies).toFixed(1)} J/TH`
+    );
+    sections.push(
+      `- **Average Efficiency:** ${(efficiencies.reduce((a, b) => a + b, 0) / efficiencies.length).toFixed(1)} J/TH`
+    );
+    sections.push(
+      `- **Hashrate Range:** ${Math.min(...hashrates).toLocaleString()} – ${Math.max(...hashrates).toLocaleString()} TH/s`
+    );
+
+    // Footer
+    sections.push('\n---\n');
+    sections.push('*Efficiency: 🟢 <20 J/TH | 🟡 20-30 J/TH | 🟠 30-40 J/TH | 🔴 >40 J/TH*');
+    sections.push('*Data from [Braiins Insights Dashboard](https://insights.braiins.com)*');
+
+    return sections.join('\n');
+  }
+
+  /**
+   * Format empty result message
+   */
+  private formatEmptyResult(input: HardwareCatalogInput, totalCount: number): string {
+    const filters = this.describeFilters(input);
+
+    return `
+# 🖥️ Bitcoin ASIC Hardware Catalog
+
+⚠️ **No hardware models found** for the specified criteria.
+
+**Filters:** ${filters.length > 0 ? filters.join(', ') : 'None'}
+**Models in catalog:** ${totalCount}
+
+Try widening the efficiency or hashrate range, or removing the manufacturer filter.
+    `.trim();
+  }
+
+  /**
+   * Describe applied filters as human-readable strings
+   */
+  private describeFilters(input: HardwareCatalogInput): string[] {
+    const filters: string[] = [];
+
+    if (input.models !== undefined) {
+      filters.push(`models: ${input.models.join(', ')}`);
+    }
+    if (input.manufacturer !== undefined) {
+      filters.push(`manufacturer: ${input.manufacturer}`);
+    }
+    if (input.min_efficiency_jth !== undefined) {
+      filters.push(`≥ ${input.min_efficiency_jth} J/TH`);
+    }
+    if (input.max_efficiency_jth !== undefined) {
+      filters.push(`≤ ${input.max_efficiency_jth} J/TH`);
+    }
+    if (input.min_hashrate_ths !== undefined) {
+      filters.push(`≥ ${input.min_hashrate_ths} TH/s`);
+    }
+    if (input.max_hashrate_ths !== undefined) {
+      filters.push(`≤ ${input.max_hashrate_ths} TH/s`);
+    }
+    if (input.released_after !== undefined) {
+      filters.push(`released after ${input.released_after}`);
+    }
+    if (input.released_before !== undefined) {
+      filters.push(`released before ${input.released_before}`);
+    }
+
+    return filters;
+  }
+
+  /**
+   * Get efficiency indicator emoji
+   */
+  private getEfficiencyIndicator(efficiencyJth: number): string {
+    if (efficiencyJth < 20) {
+      return '🟢';
+    }
+    if (efficiencyJth < 30) {
+      return '🟡';
+    }
+    if (efficiencyJth < 40) {
+      return '🟠';
+    }
+    return '🔴';
+  }
+
+  /**
+   * Handle errors and return MCP error response
+   */
+  private handleError(error: unknown): MCPToolResponse {
+    // Handle Zod validation errors
+    if (error instanceof z.ZodError) {
+      const errorMessages = error.issues.map(
+        (err: z.ZodIssue) => `- ${err.path.join('.')}: ${err.message}`
+      );
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Validation Error**: Invalid input parameters\n\n${errorMessages.join('\n')}\n\nPlease check your input and try again.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Handle API errors
+    if (error instanceof InsightsApiError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **API Error**: ${error.message}\n\nStatus: ${error.statusCode}\n\nPlease try again later or check the Braiins Insights API status.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Handle network errors
+    if (error instanceof NetworkError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Network Error**: Could not reach Braiins Insights API\n\nDetails: ${error.message}\n\nPlease check your internet connection.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Handle validation errors from API client
+    if (error instanceof ValidationError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Response Validation Error**: ${error.message}\n\nThe API returned unexpected data format. Please report this issue.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Handle unexpected errors
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `❌ **Unexpected Error**: ${error instanceof Error ? error.message : String(error)}\n\nPlease report this issue if it persists.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -3,6 +3,7 @@
  *
  * Calculates Bitcoin mining profitability based on electricity cost and hardware efficiency.
  * Provides daily revenue, costs, profit margins, ROI estimates, and break-even analysis.
+ * Falls back to the local mining-economics engine when the API is unavailable.
  *
  * @category Parameterized Tool
  * @see https://insights.braiins.com/api/v2.0/profitability-calculator
@@ -19,29 +20,102 @@ import {
   NetworkError,
   ValidationError,
 } from '../../api/insights-client.js';
+import { calculateProfitability } from '../../economics/mining-engine.js';
+import {
+  ENGINE_MODES,
+  EngineAttribution,
+  NetworkInputsError,
+  describeApiFailure,
+  formatLocalEngineNote,
+  isApiUnavailable,
+  resolveNetworkInputs,
+} from '../../economics/local-engine.js';
+import {
+  OUTPUT_FORMAT_PROPERTY,
+  buildToolResponse,
+  getOutputFormat,
+  toOutputSchema,
+} from '../../utils/output-format.js';
+import { ToolCategory } from '../categories.js';
 import type { MCPToolResponse } from '../index.js';
 
 /**
- * Zod validation schema for profitability calculator input
+ * Structured output payload for profitability calculation
  */
-const ProfitabilityInputSchema = z.object({
-  electricity_cost_kwh: z
-    .number()
-    .min(0, 'Electricity cost cannot be negative')
-    .max(1, 'Electricity cost unreasonably high (>$1/kWh)')
-    .describe('Electricity cost in USD per kWh'),
-  hardware_efficiency_jth: z
-    .number()
-    .min(1, 'Hardware efficiency must be at least 1 J/TH')
-    .max(200, 'Hardware efficiency unreasonably high (>200 J/TH)')
-    .describe('Hardware efficiency in joules per terahash'),
-  hardware_cost_usd: z
-    .number()
-    .min(0, 'Hardware cost cannot be negative')
-    .optional()
-    .describe('Optional: Hardware cost for ROI calculation'),
+const ProfitabilityOutputSchema = z.object({
+  inputs: z.object({
+    electricity_cost_kwh: z.number(),
+    hardware_efficiency_jth: z.number(),
+    hardware_cost_usd: z.number().nullable(),
+  }),
+  daily_revenue_usd_per_th: z.number(),
+  daily_electricity_cost_usd_per_th: z.number(),
+  daily_profit_usd_per_th: z.number(),
+  monthly_profit_usd_per_th: z.number(),
+  annual_profit_usd_per_th: z.number(),
+  btc_price_usd: z.number(),
+  breakeven_btc_price_usd: z.number(),
+  breakeven_hashrate_ths: z.number(),
+  profitability_threshold_usd_per_kwh: z.number(),
+  network_difficulty: z.number(),
+  roi_days: z.number().nullable(),
+  is_profitable: z.boolean(),
+  engine: z.enum(['api', 'local']).describe('Engine that produced the numbers'),
+  engine_note: z.string().nullable().describe('Why the local engine was used, or null for the API'),
+  timestamp: z.string(),
 });
 
+type ProfitabilityOutput = z.infer<typeof ProfitabilityOutputSchema>;
+
+/**
+ * Zod validation schema for profitability calculator input
+ */
+const ProfitabilityInputSchema = z
+  .object({
+    electricity_cost_kwh: z
+      .number()
+      .min(0, 'Electricity cost cannot be negative')
+      .max(1, 'Electricity cost unreasonably high (>$1/kWh)')
+      .describe('Electricity cost in USD per kWh'),
+    hardware_efficiency_jth: z
+      .number()
+      .min(1, 'Hardware efficiency must be at least 1 J/TH')
+      .max(200, 'Hardware efficiency unreasonably high (>200 J/TH)')
+      .describe('Hardware efficiency in joules per terahash'),
+    hardware_cost_usd: z
+      .number()
+      .min(0, 'Hardware cost cannot be negative')
+      .optional()
+      .describe('Optional: Hardware cost for ROI calculation'),
+    btc_price_usd: z
+      .number()
+      .positive('BTC price must be positive')
+      .optional()
+      .describe('Optional: BTC price in USD (local engine only)'),
+    network_difficulty: z
+      .number()
+      .positive('Difficulty must be positive')
+      .optional()
+      .describe('Optional: Network difficulty (local engine only)'),
+    engine: z
+      .enum(ENGINE_MODES)
+      .default('auto')
+      .describe('auto: API with local fallback; api: API only; local: local engine only'),
+  })
+  .refine(
+    (input) =>
+      input.engine !== 'api' ||
+      (input.btc_price_usd === undefined && input.network_difficulty === undefined),
+    {
+      message:
+        'btc_price_usd and network_difficulty need the local engine; the API only ' +
+        'calculates at current conditions',
+      path: ['engine'],
+    }
+  );
+
+type ProfitabilityInput = z.infer<typeof ProfitabilityInputSchema>;
+
 /**
  * Profitability Calculator Tool
  *
@@ -58,6 +132,21 @@ export class ProfitabilityCalculatorTool {
     'Provides daily revenue, electricity costs, net profit, ROI estimates, and break-even analysis. ' +
     'Requires electricity cost (USD/kWh) and hardware efficiency (J/TH) as inputs.';
 
+  /** Tool category */
+  readonly category = ToolCategory.Parameterized;
+
+  /** Tags for tool discovery */
+  readonly tags = ['profitability', 'hardware', 'electricity'];
+
+  /** Upstream API endpoints the tool calls, including network stats for the local engine */
+  readonly endpoints = [
+    '/v2.0/profitability-calculator',
+    '/v1.0/price-stats',
+    '/v1.0/difficulty-stats',
+    '/v1.0/hashrate-stats',
+    '/v2.0/halvings',
+  ];
+
   /** JSON schema for tool inputs (WITH required parameters) */
   readonly inputSchema = {
     type: 'object' as const,
@@ -80,10 +169,37 @@ export class ProfitabilityCalculatorTool {
         description: 'Optional: Hardware cost in USD for ROI calculation',
         minimum: 0,
       },
+      btc_price_usd: {
+        type: 'number',
+        description:
+          'Optional: BTC price in USD. The API only calculates at current conditions, so ' +
+          'this selects the local engine',
+        exclusiveMinimum: 0,
+      },
+      network_difficulty: {
+        type: 'number',
+        description:
+          'Optional: Network difficulty. The API only calculates at current conditions, so ' +
+          'this selects the local engine',
+        exclusiveMinimum: 0,
+      },
+      engine: {
+        type: 'string',
+        enum: [...ENGINE_MODES],
+        description:
+          'Calculation engine: auto (default, API with fallback to the local engine when the ' +
+          'API is unavailable), api (API only; not with btc_price_usd or network_difficulty) ' +
+          'or local (local engine only; fully offline ' +
+          'when btc_price_usd and network_difficulty are given)',
+      },
+      format: OUTPUT_FORMAT_PROPERTY,
     },
     required: ['electricity_cost_kwh', 'hardware_efficiency_jth'],
   };
 
+  /** JSON schema for structured output */
+  readonly outputSchema = toOutputSchema(ProfitabilityOutputSchema);
+
   constructor(private readonly apiClient: InsightsApiClient) {}
 
   /**
@@ -96,6 +212,7 @@ export class ProfitabilityCalculatorTool {
     try {
       // Validate input with Zod
       const validatedInput = ProfitabilityInputSchema.parse(input);
+      const format = getOutputFormat(input);
 
       // Convert to API params format
       const params: ProfitabilityQueryParams = {
@@ -104,32 +221,105 @@ export class ProfitabilityCalculatorTool {
         hardware_cost_usd: validatedInput.hardware_cost_usd,
       };
 
-      // Fetch data from API
-      const profitability = await this.apiClient.getProfitabilityCalculator(params);
+      const { data: profitability, attribution } = await this.calculate(params, validatedInput);
 
       // Format as markdown
-      const markdown = this.formatAsMarkdown(profitability, params);
+      const markdown = this.formatAsMarkdown(profitability, params, attribution);
+
+      return buildToolResponse(
+        format,
+        markdown,
+        this.toStructuredContent(profitability, params, attribution)
+      );
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Calculate with the API, or the local engine when the API is unavailable, when
+   * the caller sets the network conditions, or when requested
+   *
+   * If the local engine cannot run either, the API error is rethrown.
+   */
+  private async calculate(
+    params: ProfitabilityQueryParams,
+    input: ProfitabilityInput
+  ): Promise<{ data: BraiinsInsightsProfitability; attribution: EngineAttribution }> {
+    const overridden = input.btc_price_usd !== undefined || input.network_difficulty !== undefined;
+    let reason = input.engine === 'local' ? 'local engine requested' : undefined;
+    let apiError: unknown;
+
+    if (input.engine === 'api' || (input.engine === 'auto' && !overridden)) {
+      try {
+        const data = await this.apiClient.getProfitabilityCalculator(params);
+        return { data, attribution: { engine: 'api' } };
+      } catch (error) {
+        if (input.engine === 'api' || !isApiUnavailable(error)) {
+          throw error;
+        }
+        apiError = error;
+        reason = describeApiFailure(error);
+      }
+    }
 
+    try {
+      const { inputs, sources } = await resolveNetworkInputs(this.apiClient, {
+        price: input.btc_price_usd,
+        difficulty: input.network_difficulty,
+      });
       return {
-        content: [
-          {
-            type: 'text',
-            text: markdown,
-          },
-        ],
-        isError: false,
+        data: calculateProfitability(params, inputs),
+        attribution: {
+          engine: 'local',
+          reason: reason ?? 'custom network conditions are only supported locally',
+          sources,
+        },
       };
     } catch (error) {
-      return this.handleError(error);
+      throw apiError ?? error;
     }
   }
 
+  /**
+   * Normalize profitability data into the structured output payload
+   */
+  private toStructuredContent(
+    data: BraiinsInsightsProfitability,
+    params: ProfitabilityQueryParams,
+    attribution: EngineAttribution
+  ): ProfitabilityOutput {
+    return {
+      inputs: {
+        electricity_cost_kwh: params.electricity_cost_kwh,
+        hardware_efficiency_jth: params.hardware_efficiency_jth,
+        hardware_cost_usd: params.hardware_cost_usd ?? null,
+      },
+      daily_revenue_usd_per_th: data.daily_revenue_per_th,
+      daily_electricity_cost_usd_per_th: data.daily_electricity_cost_per_th,
+      daily_profit_usd_per_th: data.net_daily_profit_per_th,
+      monthly_profit_usd_per_th: data.monthly_profit_per_th,
+      annual_profit_usd_per_th: data.annual_profit_per_th,
+      btc_price_usd: data.btc_price_usd,
+      breakeven_btc_price_usd: data.breakeven_btc_price,
+      breakeven_hashrate_ths: data.breakeven_hashrate_ths,
+      profitability_threshold_usd_per_kwh: data.profitability_threshold_kwh,
+      network_difficulty: data.network_difficulty,
+      roi_days: data.roi_days ?? null,
+      is_profitable: data.net_daily_profit_per_th > 0,
+      engine: attribution.engine,
+      engine_note: attribution.reason ?? null,
+      timestamp: data.timestamp,
+    };
+  }
+
   /**
    * Format profitability data as markdown for LLM consumption
    */
   private formatAsMarkdown(
     data: BraiinsInsightsProfitability,
-    params: ProfitabilityQueryParams
+    params: ProfitabilityQueryParams,
+    attribution: EngineAttribution
   ): string {
     const isProfitable = data.net_daily_profit_per_th > 0;
     const profitIndicator = isProfitable ? '✅' : '❌';
@@ -173,7 +363,7 @@ ${this.formatROI(data, params)}
 
 ---
 
-*Data retrieved from [Braiins Insights Dashboard](https://insights.braiins.com)*
+${attribution.engine === 'api' ? '*Data retrieved from [Braiins Insights Dashboard](https://insights.braiins.com)*' : formatLocalEngineNote(attribution)}
 *Calculations based on current network conditions as of ${data.timestamp}*
 *${this.getProfitabilityWarning(data)}*
     `.trim();
@@ -299,7 +489,19 @@ ${this.formatROI(data, params)}
         content: [
           {
             type: 'text',
-            text: `❌ **Invalid Input Parameters**\n\n${issues}\n\n**Required parameters:**\n- electricity_cost_kwh: number (0-1)\n- hardware_efficiency_jth: number (1-200)\n\n**Optional:**\n- hardware_cost_usd: number (≥0)`,
+            text: `❌ **Invalid Input Parameters**\n\n${issues}\n\n**Required parameters:**\n- electricity_cost_kwh: number (0-1)\n- hardware_efficiency_jth: number (1-200)\n\n**Optional:**\n- hardware_cost_usd: number (≥0)\n- btc_price_usd: number (>0)\n- network_difficulty: number (>0)\n- engine: auto | api | local`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof NetworkInputsError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Local Engine Unavailable**: ${error.message}\n\nProvide btc_price_usd and network_difficulty to calculate offline.`,
           },
         ],
         isError: true,
@@ -0,0 +1,295 @@
+/**
+ * MCP Tool: braiins_api_schema_report
+ *
+ * Reports how the Braiins Insights API responses seen by this server differ from
+ * the schemas the tools were written against: fields that were added, removed or
+ * changed type, with when each difference was first and last seen.
+ *
+ * @category Simple Stats Tool
+ */
+
+import { z } from 'zod';
+import { InsightsApiClient } from '../../api/insights-client.js';
+import { EndpointSchemaStatus, SchemaHistoryInfo } from '../../api/schema-drift.js';
+import { RESPONSE_SCHEMAS, SchemaEndpoint } from '../../types/insights-api.js';
+import {
+  OUTPUT_FORMAT_PROPERTY,
+  buildToolResponse,
+  getOutputFormat,
+  toOutputSchema,
+} from '../../utils/output-format.js';
+import { ToolCategory } from '../categories.js';
+import type { MCPToolResponse } from '../index.js';
+
+/**
+ * Endpoints with a response schema
+ */
+const SCHEMA_ENDPOINTS = Object.keys(RESPONSE_SCHEMAS) as [SchemaEndpoint, ...SchemaEndpoint[]];
+
+/**
+ * Structured output payload for the schema report
+ */
+const ApiSchemaReportOutputSchema = z.object({
+  endpoints: z.array(
+    z.object({
+      endpoint: z.string(),
+      status: z
+        .enum(['unchecked', 'ok', 'drift'])
+        .describe('unchecked: no response seen yet; drift: the latest response differs'),
+      checks: z.number().describe('Responses compared since the history began'),
+      last_checked: z.string().nullable().describe('Latest comparison (ISO 8601)'),
+      drifts: z
+        .array(
+          z.object({
+            path: z.string().describe('Field path, e.g. pools[].hashrate_percent'),
+            change: z.enum(['added', 'removed', 'type-changed']),
+            expected: z.string().nullable().describe('Types allowed by the schema'),
+            observed: z.string().nullable().describe('Types seen in the response'),
+            first_seen: z.string().describe('First response showing the change (ISO 8601)'),
+            last_seen: z.string().describe('Latest response showing the change (ISO 8601)'),
+            occurrences: z.number(),
+            active: z.boolean().describe('Whether the latest response still shows the change'),
+          })
+        )
+        .describe('Changes seen, most recently seen first'),
+    })
+  ),
+  history: z.object({
+    persistent: z
+      .boolean()
+      .describe('Whether drift records are saved to a file; otherwise they reset with the server'),
+    since: z.string().describe('Start of the recorded history (ISO 8601)'),
+  }),
+  checked_endpoints: z.number(),
+  drifting_endpoints: z.number().describe('Endpoints whose latest response differs'),
+  active_drifts: z.number(),
+});
+
+type ApiSchemaReportOutput = z.infer<typeof ApiSchemaReportOutputSchema>;
+
+/**
+ * Zod schema for schema report input validation
+ */
+const ApiSchemaReportInputSchema = z.object({
+  endpoint: z.enum(SCHEMA_ENDPOINTS).optional().describe('Only report this endpoint'),
+});
+
+/**
+ * API Schema Report Tool
+ *
+ * Simple tool over the API client's schema drift monitor. Every response the
+ * server fetches (for any tool, resource or the snapshot recorder) is compared
+ * with its endpoint schema; this tool lists the differences.
+ */
+export class ApiSchemaReportTool {
+  /** MCP tool name */
+  readonly name = 'braiins_api_schema_report';
+
+  /** Tool description shown to LLM */
+  readonly description =
+    'Report differences between Braiins Insights API responses and the schemas this ' +
+    'server expects: fields added, removed or changed type, with first/last seen times. ' +
+    'Covers every response fetched since the drift history began (kept across restarts ' +
+    'when saved to a file); use it to check whether an ' +
+    'unexpected result may be caused by an upstream API change.';
+
+  /** Tool category */
+  readonly category = ToolCategory.Simple;
+
+  /** Tags for tool discovery */
+  readonly tags = ['diagnostics', 'schema'];
+
+  /** Upstream API endpoints the tool calls (none: reads the client's drift monitor) */
+  readonly endpoints = [] as string[];
+
+  /** JSON schema for tool inputs */
+  readonly inputSchema = {
+    type: 'object' as const,
+    properties: {
+      endpoint: {
+        type: 'string',
+        enum: [...SCHEMA_ENDPOINTS],
+        description: 'Only report this endpoint (default: all endpoints)',
+      },
+      format: OUTPUT_FORMAT_PROPERTY,
+    },
+    required: [] as string[],
+  };
+
+  /** JSON schema for structured output */
+  readonly outputSchema = toOutputSchema(ApiSchemaReportOutputSchema);
+
+  constructor(private readonly apiClient: InsightsApiClient) {}
+
+  /**
+   * Execute the tool
+   *
+   * @param input - Optional endpoint filter and output format
+   * @returns MCP response with formatted markdown and/or structured JSON
+   */
+  execute(input: unknown): Promise<MCPToolResponse> {
+    try {
+      const params = ApiSchemaReportInputSchema.parse(input ?? {});
+      const format = getOutputFormat(input);
+
+      const statuses = this.apiClient
+        .getSchemaReport()
+        .filter((status) => params.endpoint === undefined || status.endpoint === params.endpoint);
+      const output = this.toStructuredContent(statuses, this.apiClient.getSchemaHistoryInfo());
+
+      return Promise.resolve(buildToolResponse(format, this.formatAsMarkdown(output), output));
+    } catch (error) {
+      return Promise.resolve(this.handleError(error));
+    }
+  }
+
+  /**
+   * Build the structured output payload from the endpoint statuses
+   */
+  private toStructuredContent(
+    statuses: EndpointSchemaStatus[],
+    history: SchemaHistoryInfo
+  ): ApiSchemaReportOutput {
+    const endpoints = statuses.map((status) => {
+      const drifting = status.drifts.some((drift) => drift.active);
+      return {
+        endpoint: status.endpoint,
+        status:
+          status.checks === 0
+            ? ('unchecked' as const)
+            : drifting
+              ? ('drift' as const)
+              : ('ok' as const),
+        checks: status.checks,
+        last_checked:
+          status.lastCheckedAt !== undefined ? new Date(status.lastCheckedAt).toISOString() : null,
+        drifts: status.drifts.map((drift) => ({
+          path: drift.path,
+          change: drift.change,
+          expected: drift.expected ?? null,
+          observed: drift.observed ?? null,
+          first_seen: new Date(drift.firstSeenAt).toISOString(),
+          last_seen: new Date(drift.lastSeenAt).toISOString(),
+          occurrences: drift.occurrences,
+          active: drift.active,
+        })),
+      };
+    });
+
+    return {
+      endpoints,
+      history: { persistent: history.persistent, since: new Date(history.since).toISOString() },
+      checked_endpoints: endpoints.filter((endpoint) => endpoint.status !== 'unchecked').length,
+      drifting_endpoints: endpoints.filter((endpoint) => endpoint.status === 'drift').length,
+      active_drifts: endpoints.reduce(
+        (count, endpoint) => count + endpoint.drifts.filter((drift) => drift.active).length,
+        0
+      ),
+    };
+  }
+
+  /**
+   * Format the schema report as markdown for LLM consumption
+   */
+  private formatAsMarkdown(output: ApiSchemaReportOutput): string {
+    const sections: string[] = [];
+
+    sections.push('# 🧬 API Schema Drift Report\n');
+    const since = output.history.persistent ? output.history.since : 'the server started';
+
+    if (output.checked_endpoints === 0) {
+      sections.push(
+        `⚠️ **No Responses Checked Yet**\n\nNo API responses have been fetched since ${since}. ` +
+          'Call data tools first; every response they fetch is compared with its schema.'
+      );
+      return sections.join('\n');
+    }
+
+    sections.push(
+      output.drifting_endpoints === 0
+        ? '✅ **No Drift**: the latest response from every checked endpoint matches its schema.\n'
+        : `⚠️ **Drift Detected**: ${output.active_drifts} field change(s) on ` +
+            `${output.drifting_endpoints} endpoint(s). Tool output for these endpoints may be ` +
+            'incomplete or fail validation.\n'
+    );
+
+    sections.push('## Endpoints\n');
+    sections.push('| Endpoint | Status | Checks | Last Checked |');
+    sections.push('|----------|--------|--------|--------------|');
+    for (const endpoint of output.endpoints) {
+      sections.push(
+        `| \`${endpoint.endpoint}\` | ${this.formatStatus(endpoint.status)} | ${endpoint.checks} | ${endpoint.last_checked ?? '–'} |`
+      );
+    }
+
+    for (const endpoint of output.endpoints) {
+      if (endpoint.drifts.length === 0) {
+        continue;
+      }
+      sections.push(`\n## \`${endpoint.endpoint}\`\n`);
+      sections.push('| Field | Change | Expected | Observed | First Seen | Last Seen |');
+      sections.push('|-------|--------|----------|----------|------------|-----------|');
+      for (const drift of endpoint.drifts) {
+        sections.push(
+          `| \`${drift.path || '(root)'}\` | ${drift.change}${drift.active ? '' : ' (resolved)'} | ${drift.expected ?? '–'} | ${drift.observed ?? '–'} | ${drift.first_seen} | ${drift.last_seen} |`
+        );
+      }
+    }
+
+    sections.push('\n---\n');
+    sections.push(
+      `*Compared against responses from the [Braiins Insights Dashboard](https://insights.braiins.com) API since ${since}*`
+    );
+    if (!output.history.persistent) {
+      sections.push(
+        '*Drift history is kept in memory: first/last seen times reset when the server restarts.*'
+      );
+    }
+
+    return sections.join('\n');
+  }
+
+  /**
+   * Format an endpoint status with an indicator
+   */
+  private formatStatus(status: ApiSchemaReportOutput['endpoints'][number]['status']): string {
+    switch (status) {
+      case 'ok':
+        return '✅ OK';
+      case 'drift':
+        return '⚠️ Drift';
+      case 'unchecked':
+        return '⚪ Not checked';
+    }
+  }
+
+  /**
+   * Handle errors and return MCP error response
+   */
+  private handleError(error: unknown): MCPToolResponse {
+    if (error instanceof z.ZodError) {
+      const errorMessages = error.issues.map(
+        (err: z.ZodIssue) => `- ${err.path.join('.')}: ${err.message}`
+      );
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Validation Error**: Invalid input parameters\n\n${errorMessages.join('\n')}\n\nPlease check your input and try again.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `❌ **Unexpected Error**: ${error instanceof Error ? error.message : String(error)}\n\nPlease report this issue if it persists.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
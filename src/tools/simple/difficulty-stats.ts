@@ -9,10 +9,39 @@
  * @see https://insights.braiins.com/api/v1.0/difficulty-stats
  */
 
+import { z } from 'zod';
 import { BraiinsInsightsDifficultyStats } from '../../types/insights-api.js';
 import { InsightsApiClient, InsightsApiError, NetworkError } from '../../api/insights-client.js';
+import {
+  OUTPUT_FORMAT_PROPERTY,
+  buildToolResponse,
+  getOutputFormat,
+  toOutputSchema,
+} from '../../utils/output-format.js';
+import { ToolCategory } from '../categories.js';
 import type { MCPToolResponse } from '../index.js';
 
+/**
+ * Structured output payload for difficulty statistics
+ *
+ * All change rates are decimals (e.g., -0.005 = -0.5%).
+ */
+const DifficultyStatsOutputSchema = z.object({
+  difficulty: z.number().describe('Current network difficulty'),
+  block_epoch: z.number().describe('Current difficulty epoch (2016 blocks each)'),
+  epoch_block_time_seconds: z.number().describe('Average block time in the current epoch'),
+  estimated_next_difficulty: z.number().describe('Estimated difficulty after next adjustment'),
+  estimated_adjustment: z.number().describe('Estimated next adjustment as decimal'),
+  estimated_adjustment_date: z.string().describe('Estimated adjustment date (ISO 8601)'),
+  previous_adjustment: z.number().describe('Previous adjustment as decimal'),
+  year_difficulty_change: z.number().describe('Year-over-year difficulty change as decimal'),
+  average_difficulty_change_per_epoch: z.number().describe('Average change per epoch'),
+  current_halving_epoch_total_difficulty_change: z.number(),
+  previous_halving_epoch_total_difficulty_change: z.number(),
+});
+
+type DifficultyStatsOutput = z.infer<typeof DifficultyStatsOutputSchema>;
+
 /**
  * Difficulty Statistics Tool
  *
@@ -29,43 +58,72 @@ export class DifficultyStatsTool {
     'estimated next difficulty, difficulty change percentage, blocks until next adjustment, ' +
     'and estimated adjustment time';
 
-  /** JSON schema for tool inputs (no parameters) */
+  /** Tool category */
+  readonly category = ToolCategory.Simple;
+
+  /** Tags for tool discovery */
+  readonly tags = ['network', 'difficulty'];
+
+  /** Upstream API endpoints the tool calls */
+  readonly endpoints = ['/v1.0/difficulty-stats'];
+
+  /** JSON schema for tool inputs (output format only) */
   readonly inputSchema = {
     type: 'object' as const,
-    properties: {},
+    properties: {
+      format: OUTPUT_FORMAT_PROPERTY,
+    },
     required: [] as string[],
   };
 
+  /** JSON schema for structured output */
+  readonly outputSchema = toOutputSchema(DifficultyStatsOutputSchema);
+
   constructor(private readonly apiClient: InsightsApiClient) {}
 
   /**
    * Execute the tool
    *
-   * @param _input - No input parameters expected (empty object)
-   * @returns MCP response with formatted markdown
+   * @param input - Optional output format
+   * @returns MCP response with formatted markdown and/or structured JSON
    */
-  async execute(_input: unknown): Promise<MCPToolResponse> {
+  async execute(input: unknown): Promise<MCPToolResponse> {
     try {
+      const format = getOutputFormat(input);
+
       // Fetch data from API
       const stats = await this.apiClient.getDifficultyStats();
 
       // Format as markdown
       const markdown = this.formatAsMarkdown(stats);
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: markdown,
-          },
-        ],
-        isError: false,
-      };
+      return buildToolResponse(format, markdown, this.toStructuredContent(stats));
     } catch (error) {
       return this.handleError(error);
     }
   }
 
+  /**
+   * Normalize difficulty stats into the structured output payload
+   */
+  private toStructuredContent(stats: BraiinsInsightsDifficultyStats): DifficultyStatsOutput {
+    return {
+      difficulty: stats.difficulty,
+      block_epoch: stats.block_epoch,
+      epoch_block_time_seconds: stats.epoch_block_time,
+      estimated_next_difficulty: stats.estimated_next_diff,
+      estimated_adjustment: stats.estimated_adjustment,
+      estimated_adjustment_date: stats.estimated_adjustment_date,
+      previous_adjustment: stats.previous_adjustment,
+      year_difficulty_change: stats.year_difficulty_change,
+      average_difficulty_change_per_epoch: stats.average_difficulty_change_per_epoch,
+      current_halving_epoch_total_difficulty_change:
+        stats.current_halving_epoch_total_difficulty_change,
+      previous_halving_epoch_total_difficulty_change:
+        stats.previous_halving_epoch_total_difficulty_change,
+    };
+  }
+
   /**
    * Format difficulty stats as markdown for LLM consumption
    */
@@ -143,6 +201,21 @@ export class DifficultyStatsTool {
    * Handle errors and return MCP error response
    */
   private handleError(error: unknown): MCPToolResponse {
+    if (error instanceof z.ZodError) {
+      const errorMessages = error.issues.map(
+        (err: z.ZodIssue) => `- ${err.path.join('.')}: ${err.message}`
+      );
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Validation Error**: Invalid input parameters\n\n${errorMessages.join('\n')}\n\nPlease check your input and try again.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
     if (error instanceof InsightsApiError) {
       return {
         content: [
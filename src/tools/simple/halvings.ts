@@ -8,10 +8,31 @@
  * @see https://insights.braiins.com/api/v2.0/halvings
  */
 
+import { z } from 'zod';
 import { BraiinsInsightsHalvingData } from '../../types/insights-api.js';
 import { InsightsApiClient, InsightsApiError, NetworkError } from '../../api/insights-client.js';
+import {
+  OUTPUT_FORMAT_PROPERTY,
+  buildToolResponse,
+  getOutputFormat,
+  toOutputSchema,
+} from '../../utils/output-format.js';
+import { ToolCategory } from '../categories.js';
 import type { MCPToolResponse } from '../index.js';
 
+/**
+ * Structured output payload for halving data
+ */
+const HalvingsOutputSchema = z.object({
+  next_halving_block: z.number(),
+  next_halving_date: z.string().describe('Estimated next halving date (ISO 8601)'),
+  blocks_until_halving: z.number(),
+  current_reward_btc: z.number(),
+  next_reward_btc: z.number(),
+});
+
+type HalvingsOutput = z.infer<typeof HalvingsOutputSchema>;
+
 /**
  * Halvings Tool
  *
@@ -28,43 +49,64 @@ export class HalvingsTool {
     'estimated block height, blocks remaining, current and next block rewards, ' +
     'and historical halving events';
 
-  /** JSON schema for tool inputs (no parameters) */
+  /** Tool category */
+  readonly category = ToolCategory.Simple;
+
+  /** Tags for tool discovery */
+  readonly tags = ['network', 'halving', 'subsidy'];
+
+  /** Upstream API endpoints the tool calls */
+  readonly endpoints = ['/v2.0/halvings'];
+
+  /** JSON schema for tool inputs (output format only) */
   readonly inputSchema = {
     type: 'object' as const,
-    properties: {},
+    properties: {
+      format: OUTPUT_FORMAT_PROPERTY,
+    },
     required: [] as string[],
   };
 
+  /** JSON schema for structured output */
+  readonly outputSchema = toOutputSchema(HalvingsOutputSchema);
+
   constructor(private readonly apiClient: InsightsApiClient) {}
 
   /**
    * Execute the tool
    *
-   * @param _input - No input parameters expected (empty object)
-   * @returns MCP response with formatted markdown
+   * @param input - Optional output format
+   * @returns MCP response with formatted markdown and/or structured JSON
    */
-  async execute(_input: unknown): Promise<MCPToolResponse> {
+  async execute(input: unknown): Promise<MCPToolResponse> {
     try {
+      const format = getOutputFormat(input);
+
       // Fetch data from API
       const data = await this.apiClient.getHalvings();
 
       // Format as markdown
       const markdown = this.formatAsMarkdown(data);
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: markdown,
-          },
-        ],
-        isError: false,
-      };
+      return buildToolResponse(format, markdown, this.toStructuredContent(data));
     } catch (error) {
       return this.handleError(error);
     }
   }
 
+  /**
+   * Normalize halving data into the structured output payload
+   */
+  private toStructuredContent(data: BraiinsInsightsHalvingData): HalvingsOutput {
+    return {
+      next_halving_block: data.next_halving_block,
+      next_halving_date: data.next_halving_date,
+      blocks_until_halving: data.blocks_until_halving,
+      current_reward_btc: data.current_reward_btc,
+      next_reward_btc: data.next_reward_btc,
+    };
+  }
+
   /**
    * Format halving data as markdown for LLM consumption
    */
@@ -152,6 +194,21 @@ export class HalvingsTool {
    * Handle errors and return MCP error response
    */
   private handleError(error: unknown): MCPToolResponse {
+    if (error instanceof z.ZodError) {
+      const errorMessages = error.issues.map(
+        (err: z.ZodIssue) => `- ${err.path.join('.')}: ${err.message}`
+      );
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Validation Error**: Invalid input parameters\n\n${errorMessages.join('\n')}\n\nPlease check your input and try again.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
     if (error instanceof InsightsApiError) {
       return {
         content: [
@@ -10,10 +10,38 @@
  * @see /docs/api-discovery/hashrate-stats.md
  */
 
+import { z } from 'zod';
 import { BraiinsInsightsHashrateStats } from '../../types/insights-api.js';
 import { InsightsApiClient, InsightsApiError, NetworkError } from '../../api/insights-client.js';
+import {
+  OUTPUT_FORMAT_PROPERTY,
+  buildToolResponse,
+  getOutputFormat,
+  toOutputSchema,
+} from '../../utils/output-format.js';
+import { ToolCategory } from '../categories.js';
 import type { MCPToolResponse } from '../index.js';
 
+/**
+ * Structured output payload for hashrate statistics
+ */
+const HashrateStatsOutputSchema = z.object({
+  current_hashrate_ehs: z.number().describe('Current network hashrate in EH/s'),
+  estimated_hashrate_ehs: z.number().describe('Estimated current hashrate in EH/s'),
+  hashrate_30d_avg_ehs: z.number().describe('30-day average hashrate in EH/s'),
+  hash_price_usd_per_th_day: z.number().describe('Hash price in USD per TH/s per day'),
+  hash_value_usd_per_th_day: z.number().describe('Hash value in USD per TH/s per day'),
+  daily_network_revenue_usd: z.number().describe('Total daily network revenue in USD'),
+  avg_fees_per_block_btc: z.number().describe('Average transaction fees per block in BTC'),
+  fees_percent: z.number().describe('Fees as percentage of mining revenue'),
+  hashrate_change_1y: z.object({
+    relative: z.number().describe('Relative change as decimal (0.03 = +3%)'),
+    absolute_ehs: z.number().describe('Absolute change in EH/s'),
+  }),
+});
+
+type HashrateStatsOutput = z.infer<typeof HashrateStatsOutputSchema>;
+
 /**
  * Hashrate Statistics Tool
  *
@@ -30,43 +58,71 @@ export class HashrateStatsTool {
     'estimated hashrate, 30-day average, hash price, transaction fee metrics, ' +
     'and daily network revenue in USD';
 
-  /** JSON schema for tool inputs (no parameters) */
+  /** Tool category */
+  readonly category = ToolCategory.Simple;
+
+  /** Tags for tool discovery */
+  readonly tags = ['network', 'hashrate', 'hashprice', 'fees'];
+
+  /** Upstream API endpoints the tool calls */
+  readonly endpoints = ['/v1.0/hashrate-stats'];
+
+  /** JSON schema for tool inputs (output format only) */
   readonly inputSchema = {
     type: 'object' as const,
-    properties: {},
+    properties: {
+      format: OUTPUT_FORMAT_PROPERTY,
+    },
     required: [] as string[],
   };
 
+  /** JSON schema for structured output */
+  readonly outputSchema = toOutputSchema(HashrateStatsOutputSchema);
+
   constructor(private readonly apiClient: InsightsApiClient) {}
 
   /**
    * Execute the tool
    *
-   * @param _input - No input parameters expected (empty object)
-   * @returns MCP response with formatted markdown
+   * @param input - Optional output format
+   * @returns MCP response with formatted markdown and/or structured JSON
    */
-  async execute(_input: unknown): Promise<MCPToolResponse> {
+  async execute(input: unknown): Promise<MCPToolResponse> {
     try {
+      const format = getOutputFormat(input);
+
       // Fetch data from API
       const stats = await this.apiClient.getHashrateStats();
 
       // Format as markdown
       const markdown = this.formatAsMarkdown(stats);
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: markdown,
-          },
-        ],
-        isError: false,
-      };
+      return buildToolResponse(format, markdown, this.toStructuredContent(stats));
     } catch (error) {
       return this.handleError(error);
     }
   }
 
+  /**
+   * Normalize hashrate stats into the structured output payload
+   */
+  private toStructuredContent(stats: BraiinsInsightsHashrateStats): HashrateStatsOutput {
+    return {
+      current_hashrate_ehs: stats.current_hashrate,
+      estimated_hashrate_ehs: stats.current_hashrate_estimated,
+      hashrate_30d_avg_ehs: stats.hash_rate_30,
+      hash_price_usd_per_th_day: stats.hash_price,
+      hash_value_usd_per_th_day: stats.hash_value,
+      daily_network_revenue_usd: stats.rev_usd,
+      avg_fees_per_block_btc: stats.avg_fees_per_block,
+      fees_percent: stats.fees_percent,
+      hashrate_change_1y: {
+        relative: stats.monthly_avg_hashrate_change_1_year.relative,
+        absolute_ehs: stats.monthly_avg_hashrate_change_1_year.absolute,
+      },
+    };
+  }
+
   /**
    * Format hashrate stats as markdown for LLM consumption
    */
@@ -142,6 +198,21 @@ export class HashrateStatsTool {
    * Handle errors and return MCP error response
    */
   private handleError(error: unknown): MCPToolResponse {
+    if (error instanceof z.ZodError) {
+      const errorMessages = error.issues.map(
+        (err: z.ZodIssue) => `- ${err.path.join('.')}: ${err.message}`
+      );
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Validation Error**: Invalid input parameters\n\n${errorMessages.join('\n')}\n\nPlease check your input and try again.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
     if (error instanceof InsightsApiError) {
       return {
         content: [
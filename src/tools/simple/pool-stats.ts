@@ -8,10 +8,40 @@
  * @see https://insights.braiins.com/api/v1.0/pool-stats
  */
 
+import { z } from 'zod';
 import { BraiinsInsightsPoolStats } from '../../types/insights-api.js';
 import { InsightsApiClient, InsightsApiError, NetworkError } from '../../api/insights-client.js';
+import {
+  OUTPUT_FORMAT_PROPERTY,
+  buildToolResponse,
+  getOutputFormat,
+  toOutputSchema,
+} from '../../utils/output-format.js';
+import { ToolCategory } from '../categories.js';
 import type { MCPToolResponse } from '../index.js';
 
+/**
+ * Structured output payload for pool statistics
+ */
+const PoolStatsOutputSchema = z.object({
+  pools: z.array(
+    z.object({
+      rank: z.number().describe('Rank by effective hashrate (1 = largest)'),
+      name: z.string(),
+      hashrate_ehs: z.number().describe('Effective hashrate in EH/s'),
+      network_share_percent: z.number().describe('Share of tracked hashrate in percent'),
+      blocks_1d: z.number().nullable().describe('Blocks mined in the last day'),
+      blocks_1w: z.number().nullable().describe('Blocks mined in the last week'),
+    })
+  ),
+  total_hashrate_ehs: z.number().describe('Sum of tracked pool hashrate in EH/s'),
+  top3_share_percent: z.number(),
+  top5_share_percent: z.number(),
+  timestamp: z.string().nullable(),
+});
+
+type PoolStatsOutput = z.infer<typeof PoolStatsOutputSchema>;
+
 /**
  * Pool Statistics Tool
  *
@@ -28,23 +58,39 @@ export class PoolStatsTool {
     'blocks mined over different time periods (1d, 1w, 5d, 5w), and pool concentration metrics. ' +
     'Displays pool rankings by effective hashrate and decentralization analysis.';
 
-  /** JSON schema for tool inputs (no parameters) */
+  /** Tool category */
+  readonly category = ToolCategory.Simple;
+
+  /** Tags for tool discovery */
+  readonly tags = ['pools', 'decentralization'];
+
+  /** Upstream API endpoints the tool calls */
+  readonly endpoints = ['/v1.0/pool-stats'];
+
+  /** JSON schema for tool inputs (output format only) */
   readonly inputSchema = {
     type: 'object' as const,
-    properties: {},
+    properties: {
+      format: OUTPUT_FORMAT_PROPERTY,
+    },
     required: [] as string[],
   };
 
+  /** JSON schema for structured output */
+  readonly outputSchema = toOutputSchema(PoolStatsOutputSchema);
+
   constructor(private readonly apiClient: InsightsApiClient) {}
 
   /**
    * Execute the tool
    *
-   * @param _input - No input parameters expected (empty object)
-   * @returns MCP response with formatted markdown
+   * @param input - Optional output format
+   * @returns MCP response with formatted markdown and/or structured JSON
    */
-  async execute(_input: unknown): Promise<MCPToolResponse> {
+  async execute(input: unknown): Promise<MCPToolResponse> {
     try {
+      const format = getOutputFormat(input);
+
       // Fetch data from API
       const poolData = await this.apiClient.getPoolStats();
 
@@ -53,15 +99,11 @@ export class PoolStatsTool {
 
       // Handle empty results
       if (!pools || pools.length === 0) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: '# 🏊 Bitcoin Mining Pool Statistics\n\nNo pool data available at this time.',
-            },
-          ],
-          isError: false,
-        };
+        return buildToolResponse(
+          format,
+          '# 🏊 Bitcoin Mining Pool Statistics\n\nNo pool data available at this time.',
+          this.toStructuredContent([], poolData.timestamp)
+        );
       }
 
       // Sort pools by hashrate (descending)
@@ -70,15 +112,11 @@ export class PoolStatsTool {
       // Format as markdown
       const markdown = this.formatAsMarkdown(sortedPools, poolData.timestamp);
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: markdown,
-          },
-        ],
-        isError: false,
-      };
+      return buildToolResponse(
+        format,
+        markdown,
+        this.toStructuredContent(sortedPools, poolData.timestamp)
+      );
     } catch (error) {
       return this.handleError(error);
     }
@@ -129,6 +167,33 @@ ${this.formatDistributionAnalysis(pools, totalHashrate)}
     `.trim();
   }
 
+  /**
+   * Normalize sorted pools into the structured output payload
+   */
+  private toStructuredContent(
+    pools: BraiinsInsightsPoolStats['pools'],
+    timestamp?: string
+  ): PoolStatsOutput {
+    const totalHashrate = pools.reduce((sum, pool) => sum + pool.hashrate_effective, 0);
+    const share = (hashrate: number): number =>
+      totalHashrate > 0 ? (hashrate / totalHashrate) * 100 : 0;
+
+    return {
+      pools: pools.map((pool, index) => ({
+        rank: index + 1,
+        name: pool.name || 'Unknown',
+        hashrate_ehs: pool.hashrate_effective,
+        network_share_percent: share(pool.hashrate_effective),
+        blocks_1d: pool.blocks_mined['1d']?.absolute ?? null,
+        blocks_1w: pool.blocks_mined['1w']?.absolute ?? null,
+      })),
+      total_hashrate_ehs: totalHashrate,
+      top3_share_percent: pools.length > 0 ? this.calculateTopPoolConcentration(pools, 3) : 0,
+      top5_share_percent: pools.length > 0 ? this.calculateTopPoolConcentration(pools, 5) : 0,
+      timestamp: timestamp ?? null,
+    };
+  }
+
   /**
    * Format pools as markdown table
    */
@@ -198,6 +263,21 @@ ${this.formatDistributionAnalysis(pools, totalHashrate)}
    * Handle errors and return MCP error response
    */
   private handleError(error: unknown): MCPToolResponse {
+    if (error instanceof z.ZodError) {
+      const errorMessages = error.issues.map(
+        (err: z.ZodIssue) => `- ${err.path.join('.')}: ${err.message}`
+      );
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Validation Error**: Invalid input parameters\n\n${errorMessages.join('\n')}\n\nPlease check your input and try again.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
     if (error instanceof InsightsApiError) {
       return {
         content: [
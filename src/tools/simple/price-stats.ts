@@ -8,10 +8,29 @@
  * @see https://insights.braiins.com/api/v1.0/price-stats
  */
 
+import { z } from 'zod';
 import { BraiinsInsightsPriceStats } from '../../types/insights-api.js';
 import { InsightsApiClient, InsightsApiError, NetworkError } from '../../api/insights-client.js';
+import {
+  OUTPUT_FORMAT_PROPERTY,
+  buildToolResponse,
+  getOutputFormat,
+  toOutputSchema,
+} from '../../utils/output-format.js';
+import { ToolCategory } from '../categories.js';
 import type { MCPToolResponse } from '../index.js';
 
+/**
+ * Structured output payload for price statistics
+ */
+const PriceStatsOutputSchema = z.object({
+  price_usd: z.number().describe('Current BTC price in USD'),
+  percent_change_24h: z.number().describe('24-hour price change in percent'),
+  timestamp: z.string().describe('Timestamp of the price data (ISO 8601)'),
+});
+
+type PriceStatsOutput = z.infer<typeof PriceStatsOutputSchema>;
+
 /**
  * Price Statistics Tool
  *
@@ -27,43 +46,62 @@ export class PriceStatsTool {
     'Get current Bitcoin price statistics including BTC/USD price, ' +
     '24-hour price change percentage, and data timestamp';
 
-  /** JSON schema for tool inputs (no parameters) */
+  /** Tool category */
+  readonly category = ToolCategory.Simple;
+
+  /** Tags for tool discovery */
+  readonly tags = ['market', 'price'];
+
+  /** Upstream API endpoints the tool calls */
+  readonly endpoints = ['/v1.0/price-stats'];
+
+  /** JSON schema for tool inputs (output format only) */
   readonly inputSchema = {
     type: 'object' as const,
-    properties: {},
+    properties: {
+      format: OUTPUT_FORMAT_PROPERTY,
+    },
     required: [] as string[],
   };
 
+  /** JSON schema for structured output */
+  readonly outputSchema = toOutputSchema(PriceStatsOutputSchema);
+
   constructor(private readonly apiClient: InsightsApiClient) {}
 
   /**
    * Execute the tool
    *
-   * @param _input - No input parameters expected (empty object)
-   * @returns MCP response with formatted markdown
+   * @param input - Optional output format
+   * @returns MCP response with formatted markdown and/or structured JSON
    */
-  async execute(_input: unknown): Promise<MCPToolResponse> {
+  async execute(input: unknown): Promise<MCPToolResponse> {
     try {
+      const format = getOutputFormat(input);
+
       // Fetch data from API
       const stats = await this.apiClient.getPriceStats();
 
       // Format as markdown
       const markdown = this.formatAsMarkdown(stats);
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: markdown,
-          },
-        ],
-        isError: false,
-      };
+      return buildToolResponse(format, markdown, this.toStructuredContent(stats));
     } catch (error) {
       return this.handleError(error);
     }
   }
 
+  /**
+   * Normalize price stats into the structured output payload
+   */
+  private toStructuredContent(stats: BraiinsInsightsPriceStats): PriceStatsOutput {
+    return {
+      price_usd: stats.price,
+      percent_change_24h: stats.percent_change_24h,
+      timestamp: stats.timestamp,
+    };
+  }
+
   /**
    * Format price stats as markdown for LLM consumption
    */
@@ -135,6 +173,21 @@ ${priceChangeIndicator} **${this.formatPercentage(stats.percent_change_24h)}**
    * Handle errors and return MCP error response
    */
   private handleError(error: unknown): MCPToolResponse {
+    if (error instanceof z.ZodError) {
+      const errorMessages = error.issues.map(
+        (err: z.ZodIssue) => `- ${err.path.join('.')}: ${err.message}`
+      );
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Validation Error**: Invalid input parameters\n\n${errorMessages.join('\n')}\n\nPlease check your input and try again.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
     if (error instanceof InsightsApiError) {
       return {
         content: [
@@ -1,33 +1,129 @@
 /**
  * MCP Tool: braiins_rss_feed_data
  *
- * Fetches recent Braiins blog posts and announcements from the RSS feed data API.
- * Displays recent posts with titles, publication dates, links, and summaries.
+ * Fetches recent Braiins blog posts, research and announcements from the RSS feed
+ * data API. Supports keyword, topic and date filtering, full-text search across
+ * every post seen by this server, "new since last check" tracking per session,
+ * and pagination.
  *
  * @category Simple Stats Tool
  * @see https://insights.braiins.com/api/v1.0/rss-feed-data
  */
 
-import { InsightsApiClient, InsightsApiError, NetworkError } from '../../api/insights-client.js';
+import { z } from 'zod';
+import {
+  InsightsApiClient,
+  InsightsApiError,
+  NetworkError,
+  ValidationError,
+} from '../../api/insights-client.js';
+import { getRequestContext } from '../../api/request-context.js';
+import { filterFeedItems, paginate, searchFeedItems, stripHtml } from '../../feeds/feed-query.js';
+import type { FeedItem } from '../../feeds/feed-schema.js';
+import { RSSFeed } from '../../feeds/rss-feed.js';
+import {
+  OUTPUT_FORMAT_PROPERTY,
+  buildToolResponse,
+  getOutputFormat,
+  toOutputSchema,
+} from '../../utils/output-format.js';
+import { ToolCategory } from '../categories.js';
 import type { MCPToolResponse } from '../index.js';
 
 /**
- * RSS feed item structure (simplified for initial implementation)
+ * Default number of items per page
  */
-interface RSSFeedItem {
-  title: string;
-  link: string;
-  pubDate: string;
-  description?: string;
-  creator?: string;
-  categories?: string[];
+const DEFAULT_PAGE_SIZE = 10;
+
+/**
+ * Maximum number of items per page
+ */
+const MAX_PAGE_SIZE = 50;
+
+/**
+ * Session key for check tracking when the transport has no session ID (stdio)
+ */
+const DEFAULT_SESSION = 'default';
+
+const DAY_MS = 86_400_000;
+
+/**
+ * Structured output payload for RSS feed data
+ */
+const RSSFeedOutputSchema = z.object({
+  items: z.array(
+    z.object({
+      title: z.string(),
+      link: z.string(),
+      published: z.string().describe('Publication date as provided by the feed'),
+      description: z.string().nullable(),
+      author: z.string().nullable(),
+      categories: z.array(z.string()),
+      is_new: z.boolean().describe('Not seen by a previous check in this session'),
+    })
+  ),
+  total_items: z.number().describe('Number of items available in the feed'),
+  matched_items: z.number().describe('Number of items matching the search and filters'),
+  page: z.number(),
+  page_count: z.number(),
+  has_more: z.boolean().describe('Whether later pages have more items'),
+  new_items: z.number().describe('Number of feed items new since the previous check'),
+  previous_check: z
+    .string()
+    .nullable()
+    .describe('Time of the previous check in this session (ISO 8601), null on the first check'),
+  skipped_items: z.number().describe('Number of malformed feed items that were skipped'),
+});
+
+export type RSSFeedOutput = z.infer<typeof RSSFeedOutputSchema>;
+
+/**
+ * Date bound: ISO 8601 date-time or calendar date
+ */
+const DateBoundSchema = z.union([z.iso.datetime({ offset: true }), z.iso.date()]);
+
+/**
+ * Zod schema for RSS feed input validation
+ */
+const RSSFeedInputSchema = z
+  .object({
+    keyword: z.string().trim().min(1, 'Keyword cannot be empty').optional(),
+    category: z.string().trim().min(1, 'Category cannot be empty').optional(),
+    since: DateBoundSchema.optional(),
+    until: DateBoundSchema.optional(),
+    query: z.string().trim().min(1, 'Query cannot be empty').optional(),
+    only_new: z.boolean().default(false),
+    limit: z
+      .number()
+      .int()
+      .min(1, 'Limit must be at least 1')
+      .max(MAX_PAGE_SIZE, `Limit cannot exceed ${MAX_PAGE_SIZE}`)
+      .default(DEFAULT_PAGE_SIZE),
+    page: z.number().int().min(1, 'Page must be at least 1').default(1),
+  })
+  .refine(
+    (input) =>
+      input.since === undefined ||
+      input.until === undefined ||
+      toBound(input.since, false) <= toBound(input.until, true),
+    { message: 'since cannot be later than until', path: ['since'] }
+  );
+
+type RSSFeedInput = z.infer<typeof RSSFeedInputSchema>;
+
+/**
+ * Convert a date bound to a timestamp; a calendar date `until` covers the whole day (UTC)
+ */
+function toBound(value: string, endOfDay: boolean): number {
+  const time = Date.parse(value);
+  return endOfDay && !value.includes('T') ? time + DAY_MS - 1 : time;
 }
 
 /**
  * RSS Feed Data Tool
  *
  * Simple stats tool that fetches recent Braiins blog posts and announcements
- * from the Braiins Insights Dashboard API. No parameters required.
+ * from the Braiins Insights Dashboard API. All parameters are optional.
  */
 export class RSSFeedDataTool {
   /** MCP tool name */
@@ -35,130 +131,214 @@ export class RSSFeedDataTool {
 
   /** Tool description shown to LLM */
   readonly description =
-    'Get recent Braiins blog posts, announcements, and news from the Braiins Insights RSS feed. ' +
-    'Returns titles, publication dates, links, and summaries of the latest content.';
+    'Get recent Braiins blog posts, research, announcements, and news from the Braiins Insights RSS feed. ' +
+    'Returns titles, publication dates, links, and summaries of the latest content. ' +
+    'Filter by keyword, topic or date range, search all posts seen by this server with `query`, ' +
+    'set `only_new` to get posts published since your previous check, and page with `limit`/`page`.';
+
+  /** Tool category */
+  readonly category = ToolCategory.Simple;
 
-  /** JSON schema for tool inputs (no parameters) */
+  /** Tags for tool discovery */
+  readonly tags = ['news', 'research'];
+
+  /** Upstream API endpoints the tool calls */
+  readonly endpoints = ['/v1.0/rss-feed-data'];
+
+  /** JSON schema for tool inputs */
   readonly inputSchema = {
     type: 'object' as const,
-    properties: {},
+    properties: {
+      keyword: {
+        type: 'string',
+        description:
+          'Only posts whose title, summary or topics contain this text (case-insensitive)',
+      },
+      category: {
+        type: 'string',
+        description: 'Only posts with this topic, e.g. "Mining" (case-insensitive)',
+      },
+      since: {
+        type: 'string',
+        description: 'Only posts published at or after this ISO 8601 date or date-time',
+      },
+      until: {
+        type: 'string',
+        description:
+          'Only posts published at or before this ISO 8601 date (whole day, UTC) or date-time',
+      },
+      query: {
+        type: 'string',
+        description:
+          'Full-text search over all posts seen by this server, including ones that have ' +
+          'dropped off the feed. Every word must match; results are ranked by relevance.',
+      },
+      only_new: {
+        type: 'boolean',
+        description:
+          'Only posts not seen by your previous check in this session. Every call for page 1 ' +
+          'counts as a check; later pages continue the latest check',
+        default: false,
+      },
+      limit: {
+        type: 'number',
+        description: `Posts per page (default: ${DEFAULT_PAGE_SIZE})`,
+        default: DEFAULT_PAGE_SIZE,
+        minimum: 1,
+        maximum: MAX_PAGE_SIZE,
+      },
+      page: {
+        type: 'number',
+        description: 'Page number, starting at 1 (default: 1)',
+        default: 1,
+        minimum: 1,
+      },
+      format: OUTPUT_FORMAT_PROPERTY,
+    },
     required: [] as string[],
   };
 
-  /** Maximum number of items to display */
-  private readonly MAX_ITEMS = 10;
+  /** JSON schema for structured output */
+  readonly outputSchema = toOutputSchema(RSSFeedOutputSchema);
+
+  private readonly feed: RSSFeed;
 
-  constructor(private readonly apiClient: InsightsApiClient) {}
+  /**
+   * @param apiClient - Braiins Insights API client
+   * @param feed - Feed with archive and check tracking (default: one per tool instance)
+   */
+  constructor(apiClient: InsightsApiClient, feed?: RSSFeed) {
+    this.feed = feed ?? new RSSFeed(apiClient);
+  }
 
   /**
    * Execute the tool
    *
-   * @param _input - No input parameters expected (empty object)
-   * @returns MCP response with formatted markdown
+   * @param input - Optional filters, search query, pagination and output format
+   * @returns MCP response with formatted markdown and/or structured JSON
    */
-  async execute(_input: unknown): Promise<MCPToolResponse> {
+  async execute(input: unknown): Promise<MCPToolResponse> {
     try {
-      // Fetch data from API
-      const feedData = await this.fetchRSSFeed();
-
-      // Format as markdown
-      const markdown = this.formatAsMarkdown(feedData);
+      const params = RSSFeedInputSchema.parse(input ?? {});
+      const format = getOutputFormat(input);
+
+      // Page 1 records a check; later pages continue the latest one, so the
+      // posts new to that check can be paged through
+      const contents = await this.feed.fetch();
+      const session = getRequestContext().sessionId ?? DEFAULT_SESSION;
+      const check =
+        (params.page > 1 ? this.feed.latestCheck(session) : undefined) ??
+        this.feed.check(session, contents.items);
+
+      let items = params.query
+        ? searchFeedItems(this.feed.archived(), params.query)
+        : contents.items;
+      items = filterFeedItems(items, {
+        keyword: params.keyword,
+        category: params.category,
+        since: params.since !== undefined ? toBound(params.since, false) : undefined,
+        until: params.until !== undefined ? toBound(params.until, true) : undefined,
+      });
+      if (params.only_new) {
+        items = items.filter((item) => check.newLinks.has(item.link));
+      }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: markdown,
-          },
-        ],
-        isError: false,
+      const page = paginate(items, params.page, params.limit);
+      const output: RSSFeedOutput = {
+        items: page.items.map((item) => this.toStructuredItem(item, check.newLinks)),
+        total_items: contents.items.length,
+        matched_items: page.total,
+        page: page.page,
+        page_count: page.pageCount,
+        has_more: page.page < page.pageCount,
+        new_items: check.newLinks.size,
+        previous_check:
+          check.previousCheckAt !== undefined
+            ? new Date(check.previousCheckAt).toISOString()
+            : null,
+        skipped_items: contents.skipped,
       };
+
+      return buildToolResponse(format, this.formatAsMarkdown(params, output), output);
     } catch (error) {
       return this.handleError(error);
     }
   }
 
   /**
-   * Fetch RSS feed data from the API
-   *
-   * Note: Using raw get method since getRSSFeedData doesn't exist yet in client
+   * Map a feed item onto the structured output shape
    */
-  private async fetchRSSFeed(): Promise<{ items: RSSFeedItem[] }> {
-    // For now, we'll call the endpoint directly
-    // This will be updated once the client method is added
-    const endpoint = '/v1.0/rss-feed-data';
-
-    try {
-      // Access the private get method via type assertion (temporary workaround)
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-assignment
-      const client = this.apiClient as any;
-      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
-      const data = await client.get(endpoint);
-
-      // Validate basic structure
-      if (!data || typeof data !== 'object') {
-        throw new Error('Invalid RSS feed response format');
-      }
-
-      // Handle different possible response formats
-      if (Array.isArray(data)) {
-        // If response is directly an array of items
-        return { items: data as RSSFeedItem[] };
-      } else if (data && typeof data === 'object' && 'items' in data) {
-        // If response has items property
-        return data as { items: RSSFeedItem[] };
-      } else {
-        // Unknown format
-        throw new Error('Unexpected RSS feed data structure');
-      }
-    } catch (error) {
-      if (error instanceof InsightsApiError || error instanceof NetworkError) {
-        throw error;
-      }
-      throw new NetworkError(
-        `Failed to fetch RSS feed: ${error instanceof Error ? error.message : String(error)}`
-      );
-    }
+  private toStructuredItem(item: FeedItem, newLinks: Set<string>): RSSFeedOutput['items'][number] {
+    return {
+      title: item.title,
+      link: item.link,
+      published: item.published,
+      description: item.description ?? null,
+      author: item.author ?? null,
+      categories: item.categories,
+      is_new: newLinks.has(item.link),
+    };
   }
 
   /**
    * Format RSS feed data as markdown for LLM consumption
    */
-  private formatAsMarkdown(feedData: { items: RSSFeedItem[] }): string {
-    const items = feedData.items || [];
-
-    if (items.length === 0) {
-      return `
-# 📰 Braiins News & Announcements
-
-**No recent posts available at this time.**
+  private formatAsMarkdown(params: RSSFeedInput, output: RSSFeedOutput): string {
+    const sections = ['# 📰 Braiins News & Announcements', ''];
 
----
-
-*Data from [Braiins Insights Dashboard](https://insights.braiins.com)*
-      `.trim();
+    const criteria = this.describeCriteria(params);
+    if (criteria.length > 0) {
+      sections.push(`**Filters:** ${criteria.join(', ')}`, '');
+    }
+    if (output.previous_check !== null) {
+      sections.push(`**New since last check** (${output.previous_check}): ${output.new_items}`, '');
     }
 
-    // Sort items by date (newest first)
-    const sortedItems = this.sortByDate(items);
+    if (output.matched_items === 0) {
+      if (output.total_items === 0) {
+        sections.push('**No recent posts available at this time.**');
+      } else if (params.only_new && criteria.length === 1) {
+        sections.push('**No new posts since your last check.**');
+      } else {
+        sections.push('**No posts match the given filters.**');
+      }
+      sections.push(
+        '',
+        '---',
+        '',
+        '*Data from [Braiins Insights Dashboard](https://insights.braiins.com)*'
+      );
+      return sections.join('\n');
+    }
 
-    // Limit to MAX_ITEMS
-    const displayItems = sortedItems.slice(0, this.MAX_ITEMS);
+    sections.push(params.query ? '**Search Results:**' : '**Recent Posts:**', '');
 
-    // Build markdown sections
-    const sections = ['# 📰 Braiins News & Announcements', '', '**Recent Posts:**', ''];
+    if (output.items.length === 0) {
+      sections.push(`*Page ${output.page} is past the last page (${output.page_count}).*`, '');
+    }
 
-    displayItems.forEach((item, index) => {
-      sections.push(...this.formatFeedItem(item, index + 1));
+    const offset = (output.page - 1) * params.limit;
+    output.items.forEach((item, index) => {
+      // Everything is new on a session's first check, so only flag later ones
+      const isNew = item.is_new && output.previous_check !== null;
+      sections.push(...this.formatFeedItem(item, offset + index + 1, isNew));
       sections.push(''); // Empty line between items
     });
 
     sections.push('---');
     sections.push('');
-    sections.push(`**Total Items:** ${displayItems.length}`);
+    sections.push(`**Total Items:** ${output.items.length}`);
 
-    if (items.length > this.MAX_ITEMS) {
-      sections.push(`(Showing ${this.MAX_ITEMS} of ${items.length} total posts)`);
+    if (output.page_count > 1) {
+      sections.push(
+        `(Showing ${output.items.length} of ${output.matched_items} posts, page ${output.page} of ${output.page_count})`
+      );
+    }
+    if (output.has_more) {
+      sections.push(`*Pass \`page: ${output.page + 1}\` for more.*`);
+    }
+    if (output.skipped_items > 0) {
+      sections.push(`*${output.skipped_items} malformed feed item(s) skipped.*`);
     }
 
     sections.push('');
@@ -167,26 +347,56 @@ export class RSSFeedDataTool {
     return sections.join('\n');
   }
 
+  /**
+   * Describe the active search and filter criteria
+   */
+  private describeCriteria(params: RSSFeedInput): string[] {
+    const criteria: string[] = [];
+    if (params.query) {
+      criteria.push(`search "${params.query}"`);
+    }
+    if (params.keyword) {
+      criteria.push(`keyword "${params.keyword}"`);
+    }
+    if (params.category) {
+      criteria.push(`topic "${params.category}"`);
+    }
+    if (params.since) {
+      criteria.push(`since ${params.since}`);
+    }
+    if (params.until) {
+      criteria.push(`until ${params.until}`);
+    }
+    if (params.only_new) {
+      criteria.push('new since last check');
+    }
+    return criteria;
+  }
+
   /**
    * Format a single feed item as markdown
    */
-  private formatFeedItem(item: RSSFeedItem, index: number): string[] {
+  private formatFeedItem(
+    item: RSSFeedOutput['items'][number],
+    index: number,
+    isNew: boolean
+  ): string[] {
     const lines: string[] = [];
 
     // Title as header with link
-    lines.push(`### ${index}. [${item.title}](${item.link})`);
+    lines.push(`### ${index}. ${isNew ? '🆕 ' : ''}[${item.title}](${item.link})`);
 
     // Publication date
-    const formattedDate = this.formatPublicationDate(item.pubDate);
+    const formattedDate = this.formatPublicationDate(item.published);
     lines.push(`- **Published:** ${formattedDate}`);
 
-    // Creator if available
-    if (item.creator) {
-      lines.push(`- **Author:** ${item.creator}`);
+    // Author if available
+    if (item.author) {
+      lines.push(`- **Author:** ${item.author}`);
     }
 
     // Categories if available
-    if (item.categories && item.categories.length > 0) {
+    if (item.categories.length > 0) {
       lines.push(`- **Topics:** ${item.categories.join(', ')}`);
     }
 
@@ -200,53 +410,29 @@ export class RSSFeedDataTool {
     return lines;
   }
 
-  /**
-   * Sort feed items by publication date (newest first)
-   */
-  private sortByDate(items: RSSFeedItem[]): RSSFeedItem[] {
-    return [...items].sort((a, b) => {
-      try {
-        const dateA = new Date(a.pubDate).getTime();
-        const dateB = new Date(b.pubDate).getTime();
-        return dateB - dateA; // Newest first
-      } catch {
-        return 0; // Keep original order if dates are invalid
-      }
-    });
-  }
-
   /**
    * Format publication date in human-readable format
    */
   private formatPublicationDate(dateString: string): string {
-    try {
-      const date = new Date(dateString);
-      return date.toLocaleDateString('en-US', {
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric',
-        hour: '2-digit',
-        minute: '2-digit',
-        timeZoneName: 'short',
-      });
-    } catch {
-      return dateString; // Return original string if parsing fails
+    const date = new Date(dateString);
+    if (Number.isNaN(date.getTime())) {
+      return dateString || 'Unknown'; // Return original string if parsing fails
     }
+    return date.toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZoneName: 'short',
+    });
   }
 
   /**
    * Truncate summary text to maximum length
    */
   private truncateSummary(text: string, maxLength: number): string {
-    // Remove HTML tags if present - loop until stable to handle nested/malformed tags
-    // This prevents bypass attacks like "<<script>script>" which would leave "<script>" after one pass
-    let cleanText = text;
-    let previousText: string;
-    do {
-      previousText = cleanText;
-      cleanText = cleanText.replace(/<[^>]*>/g, '');
-    } while (cleanText !== previousText);
-    cleanText = cleanText.trim();
+    const cleanText = stripHtml(text);
 
     if (cleanText.length <= maxLength) {
       return cleanText;
@@ -267,6 +453,33 @@ export class RSSFeedDataTool {
    * Handle errors and return MCP error response
    */
   private handleError(error: unknown): MCPToolResponse {
+    if (error instanceof z.ZodError) {
+      const errorMessages = error.issues.map(
+        (err: z.ZodIssue) => `- ${err.path.join('.')}: ${err.message}`
+      );
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Validation Error**: Invalid input parameters\n\n${errorMessages.join('\n')}\n\nPlease check your input and try again.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof ValidationError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Feed Format Error**: ${error.message}\n\nThe Braiins Insights API returned an unexpected response. Please try again later.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
     if (error instanceof InsightsApiError) {
       return {
         content: [
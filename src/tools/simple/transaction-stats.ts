@@ -8,10 +8,30 @@
  * @see https://insights.braiins.com/api/v1.0/transaction-stats
  */
 
+import { z } from 'zod';
 import { BraiinsInsightsTransactionStats } from '../../types/insights-api.js';
 import { InsightsApiClient, InsightsApiError, NetworkError } from '../../api/insights-client.js';
+import {
+  OUTPUT_FORMAT_PROPERTY,
+  buildToolResponse,
+  getOutputFormat,
+  toOutputSchema,
+} from '../../utils/output-format.js';
+import { ToolCategory } from '../categories.js';
 import type { MCPToolResponse } from '../index.js';
 
+/**
+ * Structured output payload for transaction statistics
+ */
+const TransactionStatsOutputSchema = z.object({
+  mempool_size: z.number().describe('Number of unconfirmed transactions'),
+  avg_fee_sat_per_byte: z.number(),
+  confirmation_time_blocks: z.number().nullable(),
+  tx_count_24h: z.number().nullable(),
+});
+
+type TransactionStatsOutput = z.infer<typeof TransactionStatsOutputSchema>;
+
 /**
  * Transaction Statistics Tool
  *
@@ -27,43 +47,63 @@ export class TransactionStatsTool {
     'Get current Bitcoin network transaction statistics including mempool size, ' +
     'average transaction fees, estimated confirmation time, and 24h transaction volume';
 
-  /** JSON schema for tool inputs (no parameters) */
+  /** Tool category */
+  readonly category = ToolCategory.Simple;
+
+  /** Tags for tool discovery */
+  readonly tags = ['mempool', 'fees', 'transactions'];
+
+  /** Upstream API endpoints the tool calls */
+  readonly endpoints = ['/v1.0/transaction-stats'];
+
+  /** JSON schema for tool inputs (output format only) */
   readonly inputSchema = {
     type: 'object' as const,
-    properties: {},
+    properties: {
+      format: OUTPUT_FORMAT_PROPERTY,
+    },
     required: [] as string[],
   };
 
+  /** JSON schema for structured output */
+  readonly outputSchema = toOutputSchema(TransactionStatsOutputSchema);
+
   constructor(private readonly apiClient: InsightsApiClient) {}
 
   /**
    * Execute the tool
    *
-   * @param _input - No input parameters expected (empty object)
-   * @returns MCP response with formatted markdown
+   * @param input - Optional output format
+   * @returns MCP response with formatted markdown and/or structured JSON
    */
-  async execute(_input: unknown): Promise<MCPToolResponse> {
+  async execute(input: unknown): Promise<MCPToolResponse> {
     try {
+      const format = getOutputFormat(input);
+
       // Fetch data from API
       const stats = await this.apiClient.getTransactionStats();
 
       // Format as markdown
       const markdown = this.formatAsMarkdown(stats);
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: markdown,
-          },
-        ],
-        isError: false,
-      };
+      return buildToolResponse(format, markdown, this.toStructuredContent(stats));
     } catch (error) {
       return this.handleError(error);
     }
   }
 
+  /**
+   * Normalize transaction stats into the structured output payload
+   */
+  private toStructuredContent(stats: BraiinsInsightsTransactionStats): TransactionStatsOutput {
+    return {
+      mempool_size: stats.mempool_size,
+      avg_fee_sat_per_byte: stats.avg_fee_sat_per_byte,
+      confirmation_time_blocks: stats.confirmation_time_blocks ?? null,
+      tx_count_24h: stats.tx_count_24h ?? null,
+    };
+  }
+
   /**
    * Format transaction stats as markdown for LLM consumption
    */
@@ -151,6 +191,21 @@ export class TransactionStatsTool {
    * Handle errors and return MCP error response
    */
   private handleError(error: unknown): MCPToolResponse {
+    if (error instanceof z.ZodError) {
+      const errorMessages = error.issues.map(
+        (err: z.ZodIssue) => `- ${err.path.join('.')}: ${err.message}`
+      );
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Validation Error**: Invalid input parameters\n\n${errorMessages.join('\n')}\n\nPlease check your input and try again.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
     if (error instanceof InsightsApiError) {
       return {
         content: [
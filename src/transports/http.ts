@@ -0,0 +1,417 @@
+/**
+ * HTTP Transport
+ *
+ * Serves MCP over HTTP so a single server instance (and its shared API cache)
+ * can be used by a whole team:
+ *
+ * - `POST|GET|DELETE /mcp` - Streamable HTTP transport (current MCP spec)
+ * - `GET /sse` + `POST /messages?sessionId=...` - legacy HTTP+SSE transport fallback
+ * - `GET /healthz` - liveness probe with active session counts and request queue metrics
+ *
+ * Every client session gets its own MCP `Server`, created by the supplied factory.
+ * Streamable HTTP sessions that have no open request or stream for the idle
+ * timeout are closed, since clients often disconnect without sending DELETE.
+ *
+ * When bound to a loopback interface, requests must carry a loopback `Host`
+ * (and `Origin`, if sent) so web pages cannot reach the server through DNS
+ * rebinding.
+ *
+ * @see https://modelcontextprotocol.io/specification/2025-06-18/basic/transports#streamable-http
+ */
+
+import { randomUUID } from 'node:crypto';
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { SERVER_INFO } from '../server.js';
+
+/** Streamable HTTP endpoint */
+const MCP_PATH = '/mcp';
+
+/** Legacy SSE stream endpoint */
+const SSE_PATH = '/sse';
+
+/** Legacy SSE message endpoint */
+const SSE_MESSAGES_PATH = '/messages';
+
+/** Health check endpoint */
+const HEALTH_PATH = '/healthz';
+
+/** Maximum accepted request body size (1 MB) */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/** Header carrying the Streamable HTTP session id */
+const SESSION_HEADER = 'mcp-session-id';
+
+/** Default time a session may stay idle before it is closed (30 minutes) */
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/** Loopback bind addresses that enable DNS rebinding protection */
+const LOOPBACK_BIND_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+
+/** Host names accepted in the `Host` header of a loopback-bound server */
+const LOOPBACK_HOST_NAMES = ['127.0.0.1', 'localhost', '[::1]'];
+
+/**
+ * HTTP transport configuration
+ */
+export interface HttpTransportOptions {
+  /** Interface to bind (e.g. 127.0.0.1 or 0.0.0.0) */
+  host: string;
+
+  /** Port to listen on (0 picks a free port) */
+  port: number;
+
+  /** Close Streamable HTTP sessions idle for this long (0 disables; default 30 minutes) */
+  sessionIdleTimeoutMs?: number;
+
+  /** Extra fields for the health report (e.g. rate limit queue metrics, circuit status) */
+  health?: () => Record<string, unknown>;
+}
+
+/**
+ * Running HTTP transport
+ */
+export interface HttpTransportHandle {
+  /** Underlying Node.js HTTP server */
+  server: HttpServer;
+
+  /** Base URL the server is reachable at */
+  url: string;
+
+  /** Number of active sessions per transport type */
+  sessionCounts(): { streamable: number; sse: number };
+
+  /** Close all sessions and stop listening */
+  close(): Promise<void>;
+}
+
+/**
+ * DNS rebinding protection options shared by the SDK transports
+ */
+interface DnsRebindingProtection {
+  enableDnsRebindingProtection: true;
+  allowedHosts: string[];
+  allowedOrigins: string[];
+}
+
+/**
+ * Error raised while reading a request body
+ */
+class RequestBodyError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number
+  ) {
+    super(message);
+    this.name = 'RequestBodyError';
+  }
+}
+
+/**
+ * Start the HTTP transport
+ *
+ * @param options - Host and port to bind
+ * @param createMcpServer - Factory creating a fresh MCP server for each session
+ * @returns Handle for inspecting and stopping the server
+ */
+export async function startHttpTransport(
+  options: HttpTransportOptions,
+  createMcpServer: () => Server
+): Promise<HttpTransportHandle> {
+  const streamableSessions = new Map<string, StreamableHTTPServerTransport>();
+  const sseSessions = new Map<string, SSEServerTransport>();
+  const openRequests = new Map<string, number>();
+  const idleTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+  const startedAt = Date.now();
+
+  // Filled in once listening, when the bound port is known
+  let rebindingProtection: DnsRebindingProtection | undefined;
+
+  /**
+   * Count a request against a Streamable HTTP session and restart the session's
+   * idle timer once its last open request or stream closes
+   */
+  const trackActivity = (sessionId: string, res: ServerResponse): void => {
+    clearTimeout(idleTimers.get(sessionId));
+    idleTimers.delete(sessionId);
+    openRequests.set(sessionId, (openRequests.get(sessionId) ?? 0) + 1);
+
+    res.once('close', () => {
+      const open = (openRequests.get(sessionId) ?? 1) - 1;
+      const transport = streamableSessions.get(sessionId);
+      if (!transport) {
+        return;
+      }
+      openRequests.set(sessionId, open);
+      if (open === 0 && idleTimeoutMs > 0) {
+        const timer = setTimeout(() => {
+          transport.close().catch((error: unknown) => {
+            console.error('Error closing idle session:', error);
+          });
+        }, idleTimeoutMs);
+        timer.unref();
+        idleTimers.set(sessionId, timer);
+      }
+    });
+  };
+
+  /**
+   * Forget a closed Streamable HTTP session
+   */
+  const removeSession = (sessionId: string): void => {
+    clearTimeout(idleTimers.get(sessionId));
+    idleTimers.delete(sessionId);
+    openRequests.delete(sessionId);
+    streamableSessions.delete(sessionId);
+  };
+
+  /**
+   * Route Streamable HTTP requests to an existing or new session
+   */
+  const handleMcpRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const sessionId = getSessionId(req);
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const transport = streamableSessions.get(sessionId);
+      if (!transport) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      trackActivity(sessionId, res);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        streamableSessions.set(id, transport);
+        trackActivity(id, res);
+      },
+      ...rebindingProtection,
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        removeSession(transport.sessionId);
+      }
+    };
+
+    await createMcpServer().connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  /**
+   * Open a legacy SSE stream
+   */
+  const handleSseStream = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    // The SDK only checks headers on posted messages, so check the stream request here
+    const rejection = rebindingProtection && checkRequestHeaders(req, rebindingProtection);
+    if (rejection) {
+      sendJsonRpcError(res, 403, -32000, rejection);
+      return;
+    }
+
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res, rebindingProtection);
+    sseSessions.set(transport.sessionId, transport);
+    res.on('close', () => {
+      sseSessions.delete(transport.sessionId);
+    });
+
+    await createMcpServer().connect(transport);
+  };
+
+  /**
+   * Deliver a message posted to a legacy SSE session
+   */
+  const handleSseMessage = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL
+  ): Promise<void> => {
+    const transport = sseSessions.get(url.searchParams.get('sessionId') ?? '');
+    if (!transport) {
+      sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+    await transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  /**
+   * Top-level request router
+   */
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname === HEALTH_PATH && req.method === 'GET') {
+      sendJson(res, 200, {
+        status: 'ok',
+        name: SERVER_INFO.name,
+        version: SERVER_INFO.version,
+        transport: 'http',
+        sessions: { streamable: streamableSessions.size, sse: sseSessions.size },
+        uptime_seconds: Math.floor((Date.now() - startedAt) / 1000),
+        ...options.health?.(),
+      });
+      return;
+    }
+
+    if (url.pathname === MCP_PATH && ['POST', 'GET', 'DELETE'].includes(req.method ?? '')) {
+      await handleMcpRequest(req, res);
+      return;
+    }
+
+    if (url.pathname === SSE_PATH && req.method === 'GET') {
+      await handleSseStream(req, res);
+      return;
+    }
+
+    if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+      await handleSseMessage(req, res, url);
+      return;
+    }
+
+    sendJson(res, 404, { error: 'Not Found' });
+  };
+
+  const server = createServer((req, res) => {
+    handleRequest(req, res).catch((error: unknown) => {
+      if (error instanceof RequestBodyError) {
+        sendJsonRpcError(res, error.statusCode, -32700, error.message);
+        return;
+      }
+      console.error('HTTP transport error:', error);
+      sendJsonRpcError(res, 500, -32603, 'Internal server error');
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = server.address() as AddressInfo;
+  const displayHost = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+
+  if (LOOPBACK_BIND_HOSTS.includes(options.host)) {
+    const allowedHosts = LOOPBACK_HOST_NAMES.map((name) => `${name}:${address.port}`);
+    rebindingProtection = {
+      enableDnsRebindingProtection: true,
+      allowedHosts,
+      allowedOrigins: allowedHosts.map((host) => `http://${host}`),
+    };
+  }
+
+  return {
+    server,
+    url: `http://${displayHost}:${address.port}`,
+    sessionCounts: () => ({ streamable: streamableSessions.size, sse: sseSessions.size }),
+    close: async () => {
+      const transports = [...streamableSessions.values(), ...sseSessions.values()];
+      await Promise.allSettled(transports.map((transport) => transport.close()));
+      idleTimers.forEach((timer) => clearTimeout(timer));
+      idleTimers.clear();
+      openRequests.clear();
+      streamableSessions.clear();
+      sseSessions.clear();
+      server.closeAllConnections();
+      await new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+      });
+    },
+  };
+}
+
+/**
+ * Read the Streamable HTTP session id header
+ */
+function getSessionId(req: IncomingMessage): string | undefined {
+  const header = req.headers[SESSION_HEADER];
+  return Array.isArray(header) ? header[0] : header;
+}
+
+/**
+ * Check the `Host` and `Origin` headers against the allowed values
+ *
+ * @returns Rejection reason, or undefined when the request is allowed
+ */
+function checkRequestHeaders(
+  req: IncomingMessage,
+  protection: DnsRebindingProtection
+): string | undefined {
+  const { host, origin } = req.headers;
+  if (!host || !protection.allowedHosts.includes(host)) {
+    return `Invalid Host header: ${host ?? ''}`;
+  }
+  if (origin && !protection.allowedOrigins.includes(origin)) {
+    return `Invalid Origin header: ${origin}`;
+  }
+  return undefined;
+}
+
+/**
+ * Read and parse a JSON request body
+ *
+ * @throws {RequestBodyError} If the body is too large or not valid JSON
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    const buffer = chunk as Buffer;
+    size += buffer.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new RequestBodyError('Request body too large', 413);
+    }
+    chunks.push(buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf8');
+  if (raw.trim() === '') {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(raw) as unknown;
+  } catch {
+    throw new RequestBodyError('Parse error: Invalid JSON', 400);
+  }
+}
+
+/**
+ * Send a JSON response
+ */
+function sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Send a JSON-RPC error response
+ */
+function sendJsonRpcError(
+  res: ServerResponse,
+  statusCode: number,
+  code: number,
+  message: string
+): void {
+  sendJson(res, statusCode, { jsonrpc: '2.0', error: { code, message }, id: null });
+}
@@ -22,13 +22,37 @@ export type { BraiinsInsightsHardwareStats } from './insights-api.js';
 // API response types - v2.0 endpoints
 export type { BraiinsInsightsCostToMine } from './insights-api.js';
 export type { BraiinsInsightsHalvingData } from './insights-api.js';
-export type { BraiinsInsightsProfitability } from './insights-api.js';
+export type { BraiinsInsightsProfitability } from './profitability.js';
 
 // Query parameter types
 export type { BlocksQueryParams } from './insights-api.js';
 export type { CostToMineQueryParams } from './insights-api.js';
-export type { ProfitabilityQueryParams } from './insights-api.js';
+export type { ProfitabilityQueryParams } from './profitability.js';
 export type { HardwareStatsRequest } from './insights-api.js';
 
+// Response schemas
+export {
+  HashrateStatsSchema,
+  DifficultyStatsSchema,
+  BlockDataSchema,
+  BlocksByCountrySchema,
+  DailyRevenueSchema,
+  HashDiffHistorySchema,
+  HashrateValueSchema,
+  PoolStatsSchema,
+  PriceStatsSchema,
+  RSSItemSchema,
+  RSSFeedResponseSchema,
+  TransactionFeesSchema,
+  TransactionStatsSchema,
+  HardwareStatsSchema,
+  CostToMineSchema,
+  HalvingDataSchema,
+  RESPONSE_SCHEMAS,
+} from './insights-api.js';
+export type { EndpointResponse, SchemaEndpoint } from './insights-api.js';
+export { ProfitabilitySchema } from './profitability.js';
+
 // Type guards
 export { isHashrateStats } from './insights-api.js';
+export { isProfitability } from './profitability.js';
@@ -1,10 +1,17 @@
 /**
  * TypeScript type definitions for Braiins Insights Dashboard API
  *
+ * Response types are inferred from zod schemas, which the API client also uses
+ * to validate every response (see `src/api/response-validation.ts`). Change the
+ * schema, not the type, when the API changes.
+ *
  * @see https://insights.braiins.com
  * @see https://github.com/Ryno-Crypto-Mining-Services/braiins-insights-mcp-server/blob/main/API.md
  */
 
+import { z } from 'zod';
+import { ProfitabilitySchema } from './profitability.js';
+
 /**
  * Bitcoin network hashrate statistics from Braiins Insights Dashboard.
  *
@@ -15,14 +22,14 @@
  * @see https://insights.braiins.com/api/v1.0/hashrate-stats
  * @see /docs/api-discovery/hashrate-stats.md
  */
-export interface BraiinsInsightsHashrateStats {
+export const HashrateStatsSchema = z.object({
   /**
    * Average transaction fees per block in BTC
    *
    * @example 0.015
    * @minimum 0
    */
-  avg_fees_per_block: number;
+  avg_fees_per_block: z.number(),
 
   /**
    * Current network hashrate in exahashes per second (EH/s)
@@ -33,7 +40,7 @@ export interface BraiinsInsightsHashrateStats {
    * @unit EH/s (exahashes per second)
    * @minimum 0
    */
-  current_hashrate: number;
+  current_hashrate: z.number(),
 
   /**
    * Estimated current hashrate in EH/s
@@ -45,7 +52,7 @@ export interface BraiinsInsightsHashrateStats {
    * @unit EH/s (exahashes per second)
    * @minimum 0
    */
-  current_hashrate_estimated: number;
+  current_hashrate_estimated: z.number(),
 
   /**
    * Transaction fees as percentage of total mining revenue
@@ -55,7 +62,7 @@ export interface BraiinsInsightsHashrateStats {
    * @minimum 0
    * @maximum 100
    */
-  fees_percent: number;
+  fees_percent: z.number(),
 
   /**
    * Hash price in USD per terahash per day
@@ -66,7 +73,7 @@ export interface BraiinsInsightsHashrateStats {
    * @unit USD/TH/day
    * @minimum 0
    */
-  hash_price: number;
+  hash_price: z.number(),
 
   /**
    * 30-day average network hashrate in EH/s
@@ -75,7 +82,7 @@ export interface BraiinsInsightsHashrateStats {
    * @unit EH/s (exahashes per second)
    * @minimum 0
    */
-  hash_rate_30: number;
+  hash_rate_30: z.number(),
 
   /**
    * Hash value in USD per terahash per day
@@ -86,19 +93,19 @@ export interface BraiinsInsightsHashrateStats {
    * @example 0.0000004
    * @unit USD/TH/day
    */
-  hash_value: number;
+  hash_value: z.number(),
 
   /**
    * Monthly average hashrate change over the past 1 year
    */
-  monthly_avg_hashrate_change_1_year: {
+  monthly_avg_hashrate_change_1_year: z.object({
     /**
      * Relative change as decimal
      *
      * @example 0.03 (meaning 3% increase)
      * @example -0.05 (meaning 5% decrease)
      */
-    relative: number;
+    relative: z.number(),
 
     /**
      * Absolute change in exahashes per second
@@ -106,8 +113,8 @@ export interface BraiinsInsightsHashrateStats {
      * @example 29.47665536
      * @unit EH/s
      */
-    absolute: number;
-  };
+    absolute: z.number(),
+  }),
 
   /**
    * Total daily network revenue in USD
@@ -118,8 +125,10 @@ export interface BraiinsInsightsHashrateStats {
    * @unit USD
    * @minimum 0
    */
-  rev_usd: number;
-}
+  rev_usd: z.number(),
+});
+
+export type BraiinsInsightsHashrateStats = z.infer<typeof HashrateStatsSchema>;
 
 /**
  * Type guard to validate if an object is a valid BraiinsInsightsHashrateStats
@@ -136,28 +145,7 @@ export interface BraiinsInsightsHashrateStats {
  * ```
  */
 export function isHashrateStats(obj: unknown): obj is BraiinsInsightsHashrateStats {
-  if (typeof obj !== 'object' || obj === null) {
-    return false;
-  }
-
-  const stats = obj as Record<string, unknown>;
-
-  return (
-    typeof stats['avg_fees_per_block'] === 'number' &&
-    typeof stats['current_hashrate'] === 'number' &&
-    typeof stats['current_hashrate_estimated'] === 'number' &&
-    typeof stats['fees_percent'] === 'number' &&
-    typeof stats['hash_price'] === 'number' &&
-    typeof stats['hash_rate_30'] === 'number' &&
-    typeof stats['hash_value'] === 'number' &&
-    typeof stats['monthly_avg_hashrate_change_1_year'] === 'object' &&
-    stats['monthly_avg_hashrate_change_1_year'] !== null &&
-    typeof (stats['monthly_avg_hashrate_change_1_year'] as Record<string, unknown>)['relative'] ===
-      'number' &&
-    typeof (stats['monthly_avg_hashrate_change_1_year'] as Record<string, unknown>)['absolute'] ===
-      'number' &&
-    typeof stats['rev_usd'] === 'number'
-  );
+  return HashrateStatsSchema.safeParse(obj).success;
 }
 
 /**
@@ -167,62 +155,66 @@ export function isHashrateStats(obj: unknown): obj is BraiinsInsightsHashrateSta
  * Authentication: None required (public endpoint)
  * Cache TTL: 1 hour (3,600,000ms) - Updates at difficulty adjustment (~2 weeks)
  */
-export interface BraiinsInsightsDifficultyStats {
+export const DifficultyStatsSchema = z.object({
   /** Current network difficulty */
-  difficulty: number;
+  difficulty: z.number(),
 
   /** Current block epoch (difficulty adjustment period, 2016 blocks each) */
-  block_epoch: number;
+  block_epoch: z.number(),
 
   /** Average epoch block time in seconds */
-  epoch_block_time: number;
+  epoch_block_time: z.number(),
 
   /** Estimated adjustment as decimal (e.g., -0.005 = -0.5%) */
-  estimated_adjustment: number;
+  estimated_adjustment: z.number(),
 
   /** Estimated next difficulty */
-  estimated_next_diff: number;
+  estimated_next_diff: z.number(),
 
   /** Estimated adjustment date (ISO 8601 format) */
-  estimated_adjustment_date: string;
+  estimated_adjustment_date: z.string(),
 
   /** Previous adjustment as decimal */
-  previous_adjustment: number;
+  previous_adjustment: z.number(),
 
   /** Year-over-year difficulty change as decimal */
-  year_difficulty_change: number;
+  year_difficulty_change: z.number(),
 
   /** Total difficulty change in current halving epoch as decimal */
-  current_halving_epoch_total_difficulty_change: number;
+  current_halving_epoch_total_difficulty_change: z.number(),
 
   /** Total difficulty change in previous halving epoch as decimal */
-  previous_halving_epoch_total_difficulty_change: number;
+  previous_halving_epoch_total_difficulty_change: z.number(),
 
   /** Average difficulty change per epoch as decimal */
-  average_difficulty_change_per_epoch: number;
-}
+  average_difficulty_change_per_epoch: z.number(),
+});
+
+export type BraiinsInsightsDifficultyStats = z.infer<typeof DifficultyStatsSchema>;
 
 /**
  * Bitcoin block data from Braiins Insights Dashboard.
  *
  * Endpoint: GET /v1.0/blocks?limit=N
  */
-export interface BraiinsInsightsBlockData {
+export const BlockDataSchema = z.object({
   /** Block height */
-  height: number;
+  height: z.number(),
 
   /** Mining pool name */
-  pool: string;
+  pool: z.string(),
 
   /** Block timestamp (ISO 8601 format) */
-  timestamp: string;
+  timestamp: z.string(),
 
   /** Block value in BTC (reward + fees) */
-  block_value_btc: number;
+  block_value_btc: z.number(),
 
   /** Block value in USD */
-  block_value_usd: number;
-}
+  block_value_usd: z.number(),
+});
+
+export type BraiinsInsightsBlockData = z.infer<typeof BlockDataSchema>;
 
 /**
  * Query parameters for blocks endpoint
@@ -230,6 +222,15 @@ export interface BraiinsInsightsBlockData {
 export interface BlocksQueryParams {
   /** Number of blocks to return (max 100) */
   limit?: number;
+
+  /** Page number (1-indexed) of `limit`-sized pages */
+  page?: number;
+
+  /** Only blocks mined on or after this date (YYYY-MM-DD) */
+  start_date?: string;
+
+  /** Only blocks mined on or before this date (YYYY-MM-DD) */
+  end_date?: string;
 }
 
 /**
@@ -237,327 +238,374 @@ export interface BlocksQueryParams {
  *
  * Endpoint: GET /v1.0/blocks-by-country
  */
-export interface BraiinsInsightsBlocksByCountry {
+export const BlocksByCountrySchema = z.object({
   /** Country code (ISO 3166-1 alpha-2) */
-  country_code: string;
+  country_code: z.string(),
 
   /** Country name */
-  country_name: string;
+  country_name: z.string(),
 
   /** Number of blocks mined */
-  block_count: number;
+  block_count: z.number(),
 
   /** Percentage of total blocks */
-  percentage: number;
-}
+  percentage: z.number(),
+});
+
+export type BraiinsInsightsBlocksByCountry = z.infer<typeof BlocksByCountrySchema>;
 
 /**
  * Daily revenue history data point
  *
  * Endpoint: GET /v1.0/daily-revenue-history
  */
-export interface BraiinsInsightsDailyRevenue {
+export const DailyRevenueSchema = z.object({
   /** Date (ISO 8601 format) */
-  date: string;
+  date: z.string(),
 
   /** Total revenue in USD */
-  revenue_usd: number;
+  revenue_usd: z.number(),
 
   /** Block rewards in BTC */
-  block_rewards_btc?: number;
+  block_rewards_btc: z.number().optional(),
 
   /** Transaction fees in BTC */
-  fees_btc?: number;
-}
+  fees_btc: z.number().optional(),
+});
+
+export type BraiinsInsightsDailyRevenue = z.infer<typeof DailyRevenueSchema>;
 
 /**
  * Hashrate and difficulty history data point
  *
  * Endpoint: GET /v1.0/hashrate-and-difficulty-history
  */
-export interface BraiinsInsightsHashDiffHistory {
+export const HashDiffHistorySchema = z.object({
   /** Timestamp (ISO 8601 format) */
-  timestamp: string;
+  timestamp: z.string(),
 
   /** Network hashrate in EH/s */
-  hashrate_ehs: number;
+  hashrate_ehs: z.number(),
 
   /** Network difficulty */
-  difficulty: number;
-}
+  difficulty: z.number(),
+});
+
+export type BraiinsInsightsHashDiffHistory = z.infer<typeof HashDiffHistorySchema>;
 
 /**
  * Hashrate value history data point
  *
  * Endpoint: GET /v1.0/hashrate-value-history
  */
-export interface BraiinsInsightsHashrateValue {
+export const HashrateValueSchema = z.object({
   /** Date (ISO 8601 format) */
-  date: string;
+  date: z.string(),
 
   /** Hash value in USD per TH per day */
-  hash_value_usd_per_th_day: number;
-}
+  hash_value_usd_per_th_day: z.number(),
+});
+
+export type BraiinsInsightsHashrateValue = z.infer<typeof HashrateValueSchema>;
 
 /**
  * Mining pool statistics
  *
  * Endpoint: GET /v1.0/pool-stats
  */
-export interface BraiinsInsightsPoolStats {
+/**
+ * Blocks found by a pool in one period
+ */
+const PoolBlocksMinedSchema = z.object({
+  absolute: z.number(),
+  relative: z.number().optional(),
+});
+
+export const PoolStatsSchema = z.object({
   /** Pool statistics array */
-  pools: Array<{
-    /** Pool name */
-    name: string;
-
-    /** Hashrate percentage of network */
-    hashrate_percent: number;
-
-    /** Effective hashrate in EH/s */
-    hashrate_effective: number;
-
-    /** Number of blocks found in various time periods */
-    blocks_mined: {
-      /** 1 day period */
-      '1d'?: {
-        absolute: number;
-        relative?: number;
-      };
-      /** 1 week period */
-      '1w'?: {
-        absolute: number;
-        relative?: number;
-      };
-      /** 5 day period */
-      '5d'?: {
-        absolute: number;
-        relative?: number;
-      };
-      /** 5 week period */
-      '5w'?: {
-        absolute: number;
-        relative?: number;
-      };
-    };
-
-    /** Total blocks found (legacy field) */
-    blocks_found?: number;
-  }>;
+  pools: z.array(
+    z.object({
+      /** Pool name */
+      name: z.string(),
+
+      /** Hashrate percentage of network */
+      hashrate_percent: z.number(),
+
+      /** Effective hashrate in EH/s */
+      hashrate_effective: z.number(),
+
+      /** Number of blocks found in various time periods */
+      blocks_mined: z.object({
+        /** 1 day period */
+        '1d': PoolBlocksMinedSchema.optional(),
+        /** 1 week period */
+        '1w': PoolBlocksMinedSchema.optional(),
+        /** 5 day period */
+        '5d': PoolBlocksMinedSchema.optional(),
+        /** 5 week period */
+        '5w': PoolBlocksMinedSchema.optional(),
+      }),
+
+      /** Total blocks found (legacy field) */
+      blocks_found: z.number().optional(),
+    })
+  ),
 
   /** Timestamp of data */
-  timestamp?: string;
-}
+  timestamp: z.string().optional(),
+});
+
+export type BraiinsInsightsPoolStats = z.infer<typeof PoolStatsSchema>;
 
 /**
  * Bitcoin price statistics
  *
  * Endpoint: GET /v1.0/price-stats
  */
-export interface BraiinsInsightsPriceStats {
+export const PriceStatsSchema = z.object({
   /** Current BTC price in USD */
-  price: number;
+  price: z.number(),
 
   /** 24-hour price change percentage */
-  percent_change_24h: number;
+  percent_change_24h: z.number(),
 
   /** Timestamp of the data (ISO 8601 format) */
-  timestamp: string;
-}
+  timestamp: z.string(),
+});
+
+export type BraiinsInsightsPriceStats = z.infer<typeof PriceStatsSchema>;
 
 /**
  * RSS feed data item
  *
  * Endpoint: GET /v1.0/rss-feed-data
  */
-export interface BraiinsInsightsRSSItem {
+export const RSSItemSchema = z.object({
   /** Article/post title */
-  title: string;
+  title: z.string().trim().min(1, 'Title cannot be empty'),
+
+  /** Article URL */
+  link: z.string().trim().min(1, 'Link cannot be empty'),
 
   /** Publication date (ISO 8601 format) */
-  date: string;
+  date: z.string().optional(),
 
-  /** Article URL */
-  link: string;
+  /** Publication date (RFC 822 format, used by some feed versions instead of `date`) */
+  pubDate: z.string().optional(),
 
-  /** Article description/excerpt */
-  description?: string;
-}
+  /** Article description/excerpt (may contain HTML) */
+  description: z.string().nullish(),
+
+  /** Author (some feed versions use `author` instead) */
+  creator: z.string().nullish(),
+
+  /** Author */
+  author: z.string().nullish(),
+
+  /** Topics, as a single string or a list */
+  categories: z.union([z.string(), z.array(z.string())]).nullish(),
+});
+
+export type BraiinsInsightsRSSItem = z.infer<typeof RSSItemSchema>;
+
+/**
+ * RSS feed response envelope
+ *
+ * The endpoint has been observed returning both a bare array of items and an
+ * `{ items: [...] }` envelope. Only the envelope is checked here; items are
+ * validated one by one against `RSSItemSchema` so a malformed post is skipped
+ * instead of failing the whole feed (see `src/feeds/feed-schema.ts`).
+ */
+export const RSSFeedResponseSchema = z.union([
+  z.array(z.unknown()),
+  z.object({ items: z.array(z.unknown()) }).transform((response) => response.items),
+]);
 
 /**
  * Transaction fees history data point
  *
  * Endpoint: GET /v1.0/transaction-fees-history
  */
-export interface BraiinsInsightsTransactionFees {
+export const TransactionFeesSchema = z.object({
   /** Date (ISO 8601 format) */
-  date: string;
+  date: z.string(),
 
   /** Average fee in BTC */
-  avg_fee_btc: number;
+  avg_fee_btc: z.number(),
 
   /** Average fee in USD */
-  avg_fee_usd?: number;
-}
+  avg_fee_usd: z.number().optional(),
+});
+
+export type BraiinsInsightsTransactionFees = z.infer<typeof TransactionFeesSchema>;
 
 /**
  * Transaction statistics
  *
  * Endpoint: GET /v1.0/transaction-stats
  */
-export interface BraiinsInsightsTransactionStats {
+export const TransactionStatsSchema = z.object({
   /** Mempool size (number of transactions) */
-  mempool_size: number;
+  mempool_size: z.number(),
 
   /** Average transaction fee in satoshis per byte */
-  avg_fee_sat_per_byte: number;
+  avg_fee_sat_per_byte: z.number(),
 
   /** Estimated confirmation time in blocks */
-  confirmation_time_blocks?: number;
+  confirmation_time_blocks: z.number().optional(),
 
   /** Transaction count in last 24 hours */
-  tx_count_24h?: number;
-}
-
-/**
- * Cost to mine API response
- *
- * Endpoint: GET /v2.0/cost-to-mine
- *
- * @see https://academy.braiins.com/en/mining-insights/public-api/#cost-to-mine
- */
-export interface BraiinsInsightsCostToMine {
-  /** Input parameters echoed back with defaults filled in */
-  payload: CostToMinePayload;
+  tx_count_24h: z.number().optional(),
+});
 
-  /** Calculation results */
-  result: CostToMineResult;
-}
+export type BraiinsInsightsTransactionStats = z.infer<typeof TransactionStatsSchema>;
 
 /**
  * Input payload echoed back from cost-to-mine API
  */
-export interface CostToMinePayload {
+export const CostToMinePayloadSchema = z.object({
   /** Hashrate in TH/s */
-  hashrate_ths: number;
+  hashrate_ths: z.number(),
 
   /** Power consumption in watts */
-  consumption_watts: number;
+  consumption_watts: z.number(),
 
   /** Average transaction fees in BTC (null = use current) */
-  avg_tx_fees_coin: number | null;
+  avg_tx_fees_coin: z.number().nullable(),
 
   /** BTC price in USD (null = use current) */
-  price: number | null;
+  price: z.number().nullable(),
 
   /** Network difficulty (null = use current) */
-  difficulty: number | null;
+  difficulty: z.number().nullable(),
 
   /** Block reward in BTC (null = use current) */
-  block_reward: number | null;
+  block_reward: z.number().nullable(),
 
   /** Pool fee rate (default 0.02 = 2%) */
-  revenue_fees_rate: number;
+  revenue_fees_rate: z.number(),
 
   /** Profit fee rate (default 0.0) */
-  profit_fees_rate: number;
+  profit_fees_rate: z.number(),
 
   /** Income tax rate (default 0.0) */
-  income_tax_rate: number;
+  income_tax_rate: z.number(),
 
   /** Expected yearly difficulty change rate (default 0.02 = 2%) */
-  yearly_difficulty_change_rate: number;
+  yearly_difficulty_change_rate: z.number(),
 
   /** Expected yearly price change rate (default 0.0) */
-  yearly_price_change_rate: number;
+  yearly_price_change_rate: z.number(),
 
   /** Electricity price in USD per kWh */
-  electricity_price_per_kwh: number;
+  electricity_price_per_kwh: z.number(),
 
   /** Capital expenditure (null = not specified) */
-  capex: number | null;
+  capex: z.number().nullable(),
 
   /** Monthly fixed operating expenses (default 0.0) */
-  monthly_fixed_opex: number;
+  monthly_fixed_opex: z.number(),
 
   /** Period resolution: '1m' (month), '2w' (2 weeks), '1w' (week), '1d' (day) */
-  period_resolution: '1m' | '2w' | '1w' | '1d';
+  period_resolution: z.enum(['1m', '2w', '1w', '1d']),
 
   /** Number of periods to calculate (default 24) */
-  periods: number;
+  periods: z.number(),
 
   /** Timestamp of calculation */
-  timestamp: string;
+  timestamp: z.string(),
 
   /** Whether to estimate future rewards accounting for halvings */
-  estimate_future_rewards: boolean;
+  estimate_future_rewards: z.boolean(),
 
   /** Additional optional fields */
-  initial_hardware_value_fiat: number;
-  initial_infrastructure_value_fiat: number;
-  initial_fiat_holdings_fiat: number;
-  initial_coin_holdings_coin: number;
-  yearly_hardware_value_change_rate: number;
-  yearly_infrastructure_value_change_rate: number;
-  hodl_rate: number;
-  hodl_on_revenue_instead: boolean;
-  discount_rate: number;
-  loan_amount_fiat: number;
-  loan_interest_rate: number;
-  loan_payback_periods: number;
-  loan_to_value_ratio: number;
-  halving_difficulty_change: number;
-  periods_to_halving: number | null;
-}
+  initial_hardware_value_fiat: z.number(),
+  initial_infrastructure_value_fiat: z.number(),
+  initial_fiat_holdings_fiat: z.number(),
+  initial_coin_holdings_coin: z.number(),
+  yearly_hardware_value_change_rate: z.number(),
+  yearly_infrastructure_value_change_rate: z.number(),
+  hodl_rate: z.number(),
+  hodl_on_revenue_instead: z.boolean(),
+  discount_rate: z.number(),
+  loan_amount_fiat: z.number(),
+  loan_interest_rate: z.number(),
+  loan_payback_periods: z.number(),
+  loan_to_value_ratio: z.number(),
+  halving_difficulty_change: z.number(),
+  periods_to_halving: z.number().nullable(),
+});
+
+export type CostToMinePayload = z.infer<typeof CostToMinePayloadSchema>;
 
 /**
  * Cost to mine calculation results
  */
-export interface CostToMineResult {
+export const CostToMineResultSchema = z.object({
   /** BTC mined per day at given hashrate */
-  coin_mined_daily: number;
+  coin_mined_daily: z.number(),
 
   /** Current network difficulty */
-  difficulty: number;
+  difficulty: z.number(),
 
   /** Break-even electricity price in USD/kWh */
-  fiat_break_even_electricity_price: number;
+  fiat_break_even_electricity_price: z.number(),
 
   /** Cost to mine 1 BTC in USD */
-  fiat_cost: number;
+  fiat_cost: z.number(),
 
   /** Profit margin (current BTC price - cost to mine) in USD */
-  fiat_margin: number;
+  fiat_margin: z.number(),
 
   /** Daily profit/loss in USD */
-  fiat_profit_daily: number;
+  fiat_profit_daily: z.number(),
 
   /** Hardware efficiency in J/TH */
-  hardware_efficiency_j_th: number;
+  hardware_efficiency_j_th: z.number(),
 
   /** Cost line for chart (array of costs at different electricity prices) */
-  fiat_cost_line: number[];
+  fiat_cost_line: z.array(z.number()),
 
   /** Electricity prices for chart x-axis */
-  fiat_electricity_prices: number[];
+  fiat_electricity_prices: z.array(z.number()),
 
   /** Profit area for chart (array of profits at different electricity prices) */
-  fiat_profit_area: number[];
+  fiat_profit_area: z.array(z.number()),
 
   /** BTC price projections over periods */
-  price: number[];
+  price: z.array(z.number()),
 
   /** Marginal cost to mine over periods */
-  marginal_cost_to_mine_fiat: number[];
+  marginal_cost_to_mine_fiat: z.array(z.number()),
 
   /** Marginal electricity break-even over periods */
-  marginal_electricity_breakeven_fiat: number[];
+  marginal_electricity_breakeven_fiat: z.array(z.number()),
 
   /** Total cost to mine over periods */
-  total_cost_to_mine_fiat: number[];
+  total_cost_to_mine_fiat: z.array(z.number()),
 
   /** Total electricity break-even over periods */
-  total_electricity_breakeven_fiat: number[];
-}
+  total_electricity_breakeven_fiat: z.array(z.number()),
+});
+
+export type CostToMineResult = z.infer<typeof CostToMineResultSchema>;
+
+/**
+ * Cost to mine API response
+ *
+ * Endpoint: GET /v2.0/cost-to-mine
+ *
+ * @see https://academy.braiins.com/en/mining-insights/public-api/#cost-to-mine
+ */
+export const CostToMineSchema = z.object({
+  /** Input parameters echoed back with defaults filled in */
+  payload: CostToMinePayloadSchema,
+
+  /** Calculation results */
+  result: CostToMineResultSchema,
+});
+
+export type BraiinsInsightsCostToMine = z.infer<typeof CostToMineSchema>;
 
 /**
  * Query parameters for cost-to-mine endpoint
@@ -594,6 +642,42 @@ export interface CostToMineQueryParams {
   /** Expected yearly difficulty change rate (optional, default 0.02) */
   yearly_difficulty_change_rate?: number;
 
+  /** Expected yearly price change rate (optional, default 0.0) */
+  yearly_price_change_rate?: number;
+
+  /** Difficulty change at each halving (optional, default 0.0) */
+  halving_difficulty_change?: number;
+
+  /** Monthly fixed operating expenses in USD (optional, default 0.0) */
+  monthly_fixed_opex?: number;
+
+  /** Capital expenditure in USD (optional) */
+  capex?: number;
+
+  /** Loan amount in USD (optional, default 0.0) */
+  loan_amount_fiat?: number;
+
+  /** Yearly loan interest rate (optional, default 0.0) */
+  loan_interest_rate?: number;
+
+  /** Number of periods over which the loan is repaid (optional) */
+  loan_payback_periods?: number;
+
+  /** Yearly discount rate (optional, default 0.0) */
+  discount_rate?: number;
+
+  /** Share of mined coins held instead of sold (optional, default 0.0) */
+  hodl_rate?: number;
+
+  /** Income tax rate (optional, default 0.0) */
+  income_tax_rate?: number;
+
+  /** Initial hardware value in USD (optional, default 0.0) */
+  initial_hardware_value_fiat?: number;
+
+  /** Yearly hardware value change rate (optional, default 0.0) */
+  yearly_hardware_value_change_rate?: number;
+
   /** Period resolution: '1m', '2w', '1w', '1d' (optional, default '1m') */
   period_resolution?: '1m' | '2w' | '1w' | '1d';
 
@@ -606,70 +690,24 @@ export interface CostToMineQueryParams {
  *
  * Endpoint: GET /v2.0/halvings
  */
-export interface BraiinsInsightsHalvingData {
+export const HalvingDataSchema = z.object({
   /** Next halving block height */
-  next_halving_block: number;
+  next_halving_block: z.number(),
 
   /** Estimated next halving date (ISO 8601 format) */
-  next_halving_date: string;
+  next_halving_date: z.string(),
 
   /** Blocks remaining until halving */
-  blocks_until_halving: number;
+  blocks_until_halving: z.number(),
 
   /** Current block reward in BTC */
-  current_reward_btc: number;
+  current_reward_btc: z.number(),
 
   /** Next block reward in BTC (after halving) */
-  next_reward_btc: number;
-}
-
-/**
- * Profitability calculator result
- *
- * Endpoint: GET /v2.0/profitability-calculator
- */
-export interface BraiinsInsightsProfitability {
-  /** Daily revenue in USD */
-  daily_revenue_usd: number;
-
-  /** Daily electricity cost in USD */
-  daily_electricity_cost_usd: number;
-
-  /** Daily net profit in USD */
-  daily_profit_usd: number;
-
-  /** Monthly net profit in USD */
-  monthly_profit_usd?: number;
-
-  /** Estimated ROI in days */
-  roi_days?: number;
-
-  /** Break-even analysis */
-  break_even?: {
-    /** Break-even price per BTC in USD */
-    price_usd: number;
-
-    /** Break-even hashrate in TH/s */
-    hashrate_ths?: number;
-  };
-}
-
-/**
- * Query parameters for profitability calculator
- */
-export interface ProfitabilityQueryParams {
-  /** Electricity cost in USD per kWh */
-  electricity_cost_kwh: number;
-
-  /** Hardware efficiency in joules per terahash (J/TH) */
-  hardware_efficiency_jth: number;
+  next_reward_btc: z.number(),
+});
 
-  /** Hardware cost in USD (for ROI calculation) */
-  hardware_cost_usd?: number;
-
-  /** Hardware hashrate in TH/s */
-  hashrate_ths?: number;
-}
+export type BraiinsInsightsHalvingData = z.infer<typeof HalvingDataSchema>;
 
 /**
  * Hardware stats request body
@@ -684,22 +722,56 @@ export interface HardwareStatsRequest {
 /**
  * Hardware statistics response
  */
-export interface BraiinsInsightsHardwareStats {
+export const HardwareStatsSchema = z.object({
   /** Hardware model name */
-  model: string;
+  model: z.string(),
 
   /** Hashrate in TH/s */
-  hashrate_ths: number;
+  hashrate_ths: z.number(),
 
   /** Power consumption in watts */
-  power_watts: number;
+  power_watts: z.number(),
 
   /** Efficiency in J/TH */
-  efficiency_jth: number;
+  efficiency_jth: z.number(),
 
   /** Manufacturer */
-  manufacturer?: string;
+  manufacturer: z.string().optional(),
 
   /** Release date */
-  release_date?: string;
-}
+  release_date: z.string().optional(),
+});
+
+export type BraiinsInsightsHardwareStats = z.infer<typeof HardwareStatsSchema>;
+
+/**
+ * Response schema of every endpoint, keyed by endpoint path
+ */
+export const RESPONSE_SCHEMAS = {
+  '/v1.0/hashrate-stats': HashrateStatsSchema,
+  '/v1.0/difficulty-stats': DifficultyStatsSchema,
+  '/v1.0/blocks': z.array(BlockDataSchema),
+  '/v1.0/blocks-by-country': z.array(BlocksByCountrySchema),
+  '/v1.0/daily-revenue-history': z.array(DailyRevenueSchema),
+  '/v1.0/hashrate-and-difficulty-history': z.array(HashDiffHistorySchema),
+  '/v1.0/hashrate-value-history': z.array(HashrateValueSchema),
+  '/v1.0/pool-stats': PoolStatsSchema,
+  '/v1.0/price-stats': PriceStatsSchema,
+  '/v1.0/rss-feed-data': RSSFeedResponseSchema,
+  '/v1.0/transaction-fees-history': z.array(TransactionFeesSchema),
+  '/v1.0/transaction-stats': TransactionStatsSchema,
+  '/v1.0/hardware-stats': z.array(HardwareStatsSchema),
+  '/v2.0/cost-to-mine': CostToMineSchema,
+  '/v2.0/halvings': HalvingDataSchema,
+  '/v2.0/profitability-calculator': ProfitabilitySchema,
+} as const;
+
+/**
+ * Endpoint path with a response schema
+ */
+export type SchemaEndpoint = keyof typeof RESPONSE_SCHEMAS;
+
+/**
+ * Validated response type of an endpoint
+ */
+export type EndpointResponse<E extends SchemaEndpoint> = z.output<(typeof RESPONSE_SCHEMAS)[E]>;
@@ -1,9 +1,14 @@
 /**
  * TypeScript type definitions for Braiins Insights Profitability Calculator API
  *
+ * The response type is inferred from a zod schema, which the API client also
+ * uses to validate responses.
+ *
  * @see https://insights.braiins.com/api/v2.0/profitability-calculator
  */
 
+import { z } from 'zod';
+
 /**
  * Query parameters for profitability calculator endpoint
  *
@@ -57,7 +62,7 @@ export interface ProfitabilityQueryParams {
  *
  * @see https://insights.braiins.com/api/v2.0/profitability-calculator
  */
-export interface BraiinsInsightsProfitability {
+export const ProfitabilitySchema = z.object({
   /**
    * Daily revenue per terahash in USD
    *
@@ -65,7 +70,7 @@ export interface BraiinsInsightsProfitability {
    * @unit USD/TH/day
    * @minimum 0
    */
-  daily_revenue_per_th: number;
+  daily_revenue_per_th: z.number(),
 
   /**
    * Daily electricity cost per terahash in USD
@@ -74,7 +79,7 @@ export interface BraiinsInsightsProfitability {
    * @unit USD/TH/day
    * @minimum 0
    */
-  daily_electricity_cost_per_th: number;
+  daily_electricity_cost_per_th: z.number(),
 
   /**
    * Net daily profit per terahash in USD
@@ -85,7 +90,7 @@ export interface BraiinsInsightsProfitability {
    * @example 0.033
    * @unit USD/TH/day
    */
-  net_daily_profit_per_th: number;
+  net_daily_profit_per_th: z.number(),
 
   /**
    * Monthly profit per terahash in USD (30 days)
@@ -93,7 +98,7 @@ export interface BraiinsInsightsProfitability {
    * @example 0.99
    * @unit USD/TH/month
    */
-  monthly_profit_per_th: number;
+  monthly_profit_per_th: z.number(),
 
   /**
    * Annual profit per terahash in USD (365 days)
@@ -101,7 +106,7 @@ export interface BraiinsInsightsProfitability {
    * @example 12.045
    * @unit USD/TH/year
    */
-  annual_profit_per_th: number;
+  annual_profit_per_th: z.number(),
 
   /**
    * Current Bitcoin price in USD
@@ -110,7 +115,7 @@ export interface BraiinsInsightsProfitability {
    * @unit USD
    * @minimum 0
    */
-  btc_price_usd: number;
+  btc_price_usd: z.number(),
 
   /**
    * Current network difficulty
@@ -118,7 +123,7 @@ export interface BraiinsInsightsProfitability {
    * @example 109780000000000000
    * @minimum 0
    */
-  network_difficulty: number;
+  network_difficulty: z.number(),
 
   /**
    * Break-even Bitcoin price given current parameters
@@ -129,7 +134,7 @@ export interface BraiinsInsightsProfitability {
    * @unit USD
    * @minimum 0
    */
-  breakeven_btc_price: number;
+  breakeven_btc_price: z.number(),
 
   /**
    * Estimated ROI period in days (if hardware_cost_usd provided)
@@ -139,7 +144,7 @@ export interface BraiinsInsightsProfitability {
    * @minimum 0
    * @optional
    */
-  roi_days?: number;
+  roi_days: z.number().optional(),
 
   /**
    * Break-even hashrate threshold in TH/s
@@ -150,7 +155,7 @@ export interface BraiinsInsightsProfitability {
    * @unit TH/s
    * @minimum 0
    */
-  breakeven_hashrate_ths: number;
+  breakeven_hashrate_ths: z.number(),
 
   /**
    * Profitability threshold - maximum electricity cost for profitability
@@ -159,15 +164,17 @@ export interface BraiinsInsightsProfitability {
    * @unit USD/kWh
    * @minimum 0
    */
-  profitability_threshold_kwh: number;
+  profitability_threshold_kwh: z.number(),
 
   /**
    * Timestamp of calculation in ISO 8601 format
    *
    * @example "2025-12-14T10:30:00Z"
    */
-  timestamp: string;
-}
+  timestamp: z.string(),
+});
+
+export type BraiinsInsightsProfitability = z.infer<typeof ProfitabilitySchema>;
 
 /**
  * Type guard to validate if an object is a valid BraiinsInsightsProfitability
@@ -184,23 +191,5 @@ export interface BraiinsInsightsProfitability {
  * ```
  */
 export function isProfitability(obj: unknown): obj is BraiinsInsightsProfitability {
-  if (typeof obj !== 'object' || obj === null) {
-    return false;
-  }
-
-  const profitability = obj as Record<string, unknown>;
-
-  return (
-    typeof profitability['daily_revenue_per_th'] === 'number' &&
-    typeof profitability['daily_electricity_cost_per_th'] === 'number' &&
-    typeof profitability['net_daily_profit_per_th'] === 'number' &&
-    typeof profitability['monthly_profit_per_th'] === 'number' &&
-    typeof profitability['annual_profit_per_th'] === 'number' &&
-    typeof profitability['btc_price_usd'] === 'number' &&
-    typeof profitability['network_difficulty'] === 'number' &&
-    typeof profitability['breakeven_btc_price'] === 'number' &&
-    typeof profitability['breakeven_hashrate_ths'] === 'number' &&
-    typeof profitability['profitability_threshold_kwh'] === 'number' &&
-    typeof profitability['timestamp'] === 'string'
-  );
+  return ProfitabilitySchema.safeParse(obj).success;
 }
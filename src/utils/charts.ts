@@ -0,0 +1,382 @@
+/**
+ * Chart Rendering Utilities
+ *
+ * Dependency-free charts for tool responses: Unicode sparklines for Markdown
+ * reports, and SVG line charts returned as MCP image content blocks.
+ *
+ * @see https://modelcontextprotocol.io/specification/2025-06-18/server/tools#image-content
+ */
+
+import { HALVINGS } from '../economics/mining-engine.js';
+import type { MCPToolResponse } from '../tools/index.js';
+
+/** Sparkline levels, lowest to highest */
+const SPARK_LEVELS = ['▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'];
+
+/** Default series colors */
+const SERIES_COLORS = ['#f7931a', '#1f77b4', '#2ca02c', '#d62728', '#9467bd', '#8c564b'];
+
+/** Plot area margins in pixels; the right margin widens for a right axis */
+const MARGIN = { top: 48, right: 24, bottom: 48, left: 88 };
+
+/** Right margin with a right axis */
+const RIGHT_AXIS_MARGIN = 88;
+
+/**
+ * MCP image content block
+ */
+export type ImageContent = Extract<MCPToolResponse['content'][number], { type: 'image' }>;
+
+/**
+ * One line of a chart
+ */
+export interface ChartSeries {
+  name: string;
+
+  /** One value per x label; null leaves a gap */
+  values: Array<number | null>;
+
+  /** Stroke color (default: from the built-in palette) */
+  color?: string;
+
+  /** Y axis the series is scaled to (default: left) */
+  axis?: 'left' | 'right';
+}
+
+/**
+ * Vertical marker at an x position, e.g. a halving or difficulty adjustment
+ */
+export interface ChartAnnotation {
+  /** Index into the x labels */
+  index: number;
+
+  /** Text drawn beside the marker; minor markers are usually unlabelled */
+  label?: string;
+
+  /** major: dark dashed line; minor: faint line (default: major) */
+  style?: 'major' | 'minor';
+}
+
+/**
+ * Line chart definition
+ */
+export interface LineChart {
+  title: string;
+
+  /** Label of each x position */
+  xLabels: string[];
+
+  series: ChartSeries[];
+
+  /** Format y-axis tick labels (default: compact number) */
+  formatValue?: (value: number) => string;
+
+  /** Format right y-axis tick labels (default: compact number) */
+  formatRightValue?: (value: number) => string;
+
+  /** Vertical markers */
+  annotations?: ChartAnnotation[];
+
+  /** Draw a dashed horizontal line at this value, e.g. break-even */
+  referenceLine?: { value: number; label: string };
+
+  /** Size in pixels (default 720 × 360) */
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Render values as a Unicode sparkline
+ *
+ * Longer series are averaged into `width` buckets. Non-finite values render as
+ * spaces.
+ *
+ * @param values - Values in order
+ * @param width - Maximum number of characters
+ * @returns Sparkline, e.g. `▁▂▄▇█`
+ */
+export function sparkline(values: Array<number | null>, width = 40): string {
+  const buckets = bucketValues(values, width);
+  const finite = buckets.filter((value): value is number => value !== null);
+  if (finite.length === 0) {
+    return '';
+  }
+  const min = Math.min(...finite);
+  const range = Math.max(...finite) - min;
+
+  return buckets
+    .map((value) => {
+      if (value === null) {
+        return ' ';
+      }
+      const level = range > 0 ? Math.round(((value - min) / range) * (SPARK_LEVELS.length - 1)) : 3;
+      return SPARK_LEVELS[level] ?? ' ';
+    })
+    .join('');
+}
+
+/**
+ * Render a line chart as an SVG document
+ *
+ * @param chart - Chart definition
+ * @returns SVG markup
+ */
+export function renderLineChartSvg(chart: LineChart): string {
+  const width = chart.width ?? 720;
+  const height = chart.height ?? 360;
+  const rightSeries = chart.series.filter((series) => series.axis === 'right');
+  const leftSeries = chart.series.filter((series) => series.axis !== 'right');
+  const plot = {
+    left: MARGIN.left,
+    top: MARGIN.top,
+    width: width - MARGIN.left - (rightSeries.length > 0 ? RIGHT_AXIS_MARGIN : MARGIN.right),
+    height: height - MARGIN.top - MARGIN.bottom,
+  };
+
+  const left = valueRange(
+    leftSeries
+      .flatMap((series) => series.values)
+      .concat(chart.referenceLine ? [chart.referenceLine.value] : [])
+  );
+  const right = valueRange(rightSeries.flatMap((series) => series.values));
+
+  const points = Math.max(1, chart.xLabels.length, ...chart.series.map((s) => s.values.length));
+  const x = (index: number): number =>
+    plot.left + (points > 1 ? (index / (points - 1)) * plot.width : plot.width / 2);
+  const scale =
+    (range: { min: number; max: number }) =>
+    (value: number): number =>
+      plot.top + ((range.max - value) / (range.max - range.min)) * plot.height;
+  const y = scale(left);
+  const yRight = scale(right);
+
+  const parts: string[] = [];
+  parts.push(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" ` +
+      `viewBox="0 0 ${width} ${height}" font-family="sans-serif" font-size="12">`
+  );
+  parts.push(`<rect width="${width}" height="${height}" fill="#ffffff"/>`);
+  parts.push(
+    `<text x="${width / 2}" y="20" text-anchor="middle" font-size="15" font-weight="bold">` +
+      `${escapeXml(chart.title)}</text>`
+  );
+
+  // Y grid and tick labels; ticks fall at the same heights on both axes
+  const formatLeft = chart.formatValue ?? formatCompact;
+  const formatRight = chart.formatRightValue ?? formatCompact;
+  for (let tick = 0; tick <= 4; tick++) {
+    const value = left.min + ((left.max - left.min) * tick) / 4;
+    const tickY = round(y(value));
+    parts.push(
+      `<line x1="${plot.left}" y1="${tickY}" x2="${plot.left + plot.width}" y2="${tickY}" stroke="#e5e5e5"/>`
+    );
+    if (leftSeries.length > 0) {
+      parts.push(
+        `<text x="${plot.left - 8}" y="${tickY + 4}" text-anchor="end" fill="#555555">` +
+          `${escapeXml(formatLeft(value))}</text>`
+      );
+    }
+    if (rightSeries.length > 0) {
+      const rightValue = right.min + ((right.max - right.min) * tick) / 4;
+      parts.push(
+        `<text x="${plot.left + plot.width + 8}" y="${tickY + 4}" text-anchor="start" fill="#555555">` +
+          `${escapeXml(formatRight(rightValue))}</text>`
+      );
+    }
+  }
+
+  // X tick labels, at most eight
+  const step = Math.max(1, Math.ceil(chart.xLabels.length / 8));
+  chart.xLabels.forEach((label, index) => {
+    if (index % step === 0 || index === chart.xLabels.length - 1) {
+      parts.push(
+        `<text x="${round(x(index))}" y="${plot.top + plot.height + 20}" text-anchor="middle" ` +
+          `fill="#555555">${escapeXml(label)}</text>`
+      );
+    }
+  });
+
+  parts.push(
+    `<rect x="${plot.left}" y="${plot.top}" width="${plot.width}" height="${plot.height}" ` +
+      `fill="none" stroke="#999999"/>`
+  );
+
+  // Minor markers first so that major markers are drawn over them
+  const annotations = [...(chart.annotations ?? [])]
+    .filter((annotation) => annotation.index >= 0 && annotation.index < points)
+    .sort((a, b) => (a.style === 'minor' ? 0 : 1) - (b.style === 'minor' ? 0 : 1));
+  for (const annotation of annotations) {
+    const markerX = round(x(annotation.index));
+    const minor = annotation.style === 'minor';
+    parts.push(
+      `<line x1="${markerX}" y1="${plot.top}" x2="${markerX}" y2="${plot.top + plot.height}" ` +
+        (minor ? `stroke="#dddddd"/>` : `stroke="#444444" stroke-dasharray="4 3"/>`)
+    );
+    if (annotation.label) {
+      parts.push(
+        `<text x="${markerX + 4}" y="${plot.top + 14}" fill="#444444">` +
+          `${escapeXml(annotation.label)}</text>`
+      );
+    }
+  }
+
+  if (chart.referenceLine) {
+    const refY = round(y(chart.referenceLine.value));
+    parts.push(
+      `<line x1="${plot.left}" y1="${refY}" x2="${plot.left + plot.width}" y2="${refY}" ` +
+        `stroke="#888888" stroke-dasharray="6 4"/>`
+    );
+    parts.push(
+      `<text x="${plot.left + plot.width - 4}" y="${refY - 6}" text-anchor="end" fill="#555555">` +
+        `${escapeXml(chart.referenceLine.label)}</text>`
+    );
+  }
+
+  // Series lines and legend
+  chart.series.forEach((series, index) => {
+    const color = series.color ?? SERIES_COLORS[index % SERIES_COLORS.length] ?? '#000000';
+    const seriesY = series.axis === 'right' ? yRight : y;
+    let path = '';
+    let drawing = false;
+    series.values.forEach((value, point) => {
+      if (value === null || !Number.isFinite(value)) {
+        drawing = false;
+        return;
+      }
+      path += `${drawing ? 'L' : 'M'}${round(x(point))} ${round(seriesY(value))} `;
+      drawing = true;
+    });
+    if (path) {
+      parts.push(`<path d="${path.trim()}" fill="none" stroke="${color}" stroke-width="2"/>`);
+    }
+
+    const legendX = plot.left + index * 170;
+    parts.push(
+      `<line x1="${legendX}" y1="36" x2="${legendX + 18}" y2="36" stroke="${color}" stroke-width="3"/>`
+    );
+    const legend =
+      rightSeries.length > 0 && series.axis === 'right' ? `${series.name} (right)` : series.name;
+    parts.push(`<text x="${legendX + 24}" y="40">${escapeXml(legend)}</text>`);
+  });
+
+  parts.push('</svg>');
+  return parts.join('\n');
+}
+
+/**
+ * Markers at the first x position on or after each dated event
+ *
+ * Events outside the dates' range are skipped.
+ *
+ * @param dates - ISO dates of the x positions, oldest first
+ * @param events - Dated events, e.g. halvings
+ * @param style - Marker style
+ * @returns Annotations for {@link renderLineChartSvg}
+ */
+export function dateAnnotations(
+  dates: string[],
+  events: Array<{ date: string; label?: string }>,
+  style: ChartAnnotation['style'] = 'major'
+): ChartAnnotation[] {
+  const times = dates.map((date) => Date.parse(date));
+  const first = times[0];
+  const last = times[times.length - 1];
+  if (first === undefined || last === undefined) {
+    return [];
+  }
+
+  return events.flatMap((event) => {
+    const time = Date.parse(event.date);
+    const index = times.findIndex((value) => value >= time);
+    if (Number.isNaN(time) || time < first || time > last || index < 0) {
+      return [];
+    }
+    return [{ index, ...(event.label ? { label: event.label } : {}), style }];
+  });
+}
+
+/**
+ * Labelled markers for the halvings within the dates' range
+ *
+ * @param dates - ISO dates of the x positions, oldest first
+ */
+export function halvingAnnotations(dates: string[]): ChartAnnotation[] {
+  return dateAnnotations(
+    dates,
+    HALVINGS.map(({ date }) => ({ date, label: `Halving ${date.slice(0, 4)}` }))
+  );
+}
+
+/**
+ * Wrap an SVG document in an MCP image content block
+ *
+ * @param svg - SVG markup
+ * @returns Base64-encoded image content
+ */
+export function toSvgImageContent(svg: string): ImageContent {
+  return {
+    type: 'image',
+    data: Buffer.from(svg, 'utf8').toString('base64'),
+    mimeType: 'image/svg+xml',
+  };
+}
+
+/**
+ * Y range of values with 5% padding; an empty or flat range is widened
+ */
+function valueRange(values: Array<number | null>): { min: number; max: number } {
+  const finite = values.filter(
+    (value): value is number => value !== null && Number.isFinite(value)
+  );
+  let min = finite.length > 0 ? Math.min(...finite) : 0;
+  let max = finite.length > 0 ? Math.max(...finite) : 1;
+  if (min === max) {
+    min -= Math.abs(min) * 0.1 || 1;
+    max += Math.abs(max) * 0.1 || 1;
+  }
+  const padding = (max - min) * 0.05;
+  return { min: min - padding, max: max + padding };
+}
+
+/**
+ * Average values into at most `count` buckets; a bucket without finite values is null
+ */
+function bucketValues(values: Array<number | null>, count: number): Array<number | null> {
+  if (values.length <= count) {
+    return values.map((value) => (value !== null && Number.isFinite(value) ? value : null));
+  }
+  return Array.from({ length: count }, (_, bucket) => {
+    const slice = values
+      .slice(
+        Math.floor((bucket * values.length) / count),
+        Math.floor(((bucket + 1) * values.length) / count)
+      )
+      .filter((value): value is number => value !== null && Number.isFinite(value));
+    return slice.length > 0 ? slice.reduce((sum, value) => sum + value, 0) / slice.length : null;
+  });
+}
+
+/**
+ * Format a number compactly, e.g. 85.9k or 1.2M
+ */
+function formatCompact(value: number): string {
+  return value.toLocaleString('en-US', { notation: 'compact', maximumFractionDigits: 2 });
+}
+
+/**
+ * Round a coordinate to two decimals
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Escape text for XML
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
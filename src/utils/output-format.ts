@@ -0,0 +1,118 @@
+/**
+ * Tool Output Formatting Utilities
+ *
+ * Shared helpers that let every MCP tool return Markdown, structured JSON, or both.
+ * Structured payloads are described by zod schemas, which double as the tool's
+ * MCP `outputSchema` and are always returned as `structuredContent` on success.
+ *
+ * @see https://modelcontextprotocol.io/specification/2025-06-18/server/tools#structured-content
+ */
+
+import { z } from 'zod';
+import type { MCPToolResponse } from '../tools/index.js';
+
+/**
+ * Supported tool output formats
+ */
+export const OUTPUT_FORMATS = ['markdown', 'json', 'both'] as const;
+
+/**
+ * Tool output format
+ *
+ * - `markdown`: human-readable report (default)
+ * - `json`: normalized structured payload serialized as JSON text
+ * - `both`: Markdown report followed by the JSON payload
+ */
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * JSON schema for the `format` input property shared by all tools
+ */
+export const OUTPUT_FORMAT_PROPERTY = {
+  type: 'string',
+  enum: [...OUTPUT_FORMATS],
+  description:
+    'Response format: markdown (default, human-readable), json (normalized structured payload), or both',
+  default: 'markdown',
+};
+
+/**
+ * JSON schema shape accepted by MCP for tool `outputSchema`
+ */
+export interface ToolOutputSchema {
+  type: 'object';
+  properties: Record<string, unknown>;
+  required?: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * Zod schema for the `format` input property shared by all tools
+ */
+const OutputFormatInputSchema = z.object({
+  format: z.enum(OUTPUT_FORMATS).optional(),
+});
+
+/**
+ * Resolve the requested output format from raw tool input
+ *
+ * A missing value falls back to Markdown so existing callers are unaffected.
+ *
+ * @param input - Raw tool input
+ * @returns Requested output format
+ * @throws {z.ZodError} If `format` is not one of {@link OUTPUT_FORMATS}
+ */
+export function getOutputFormat(input: unknown): OutputFormat {
+  if (!input || typeof input !== 'object') {
+    return 'markdown';
+  }
+
+  return OutputFormatInputSchema.parse(input).format ?? 'markdown';
+}
+
+/**
+ * Convert a zod payload schema into an MCP tool `outputSchema`
+ *
+ * @param schema - Zod object schema describing the structured payload
+ * @returns JSON schema suitable for the tool definition
+ */
+export function toOutputSchema(schema: z.ZodObject): ToolOutputSchema {
+  const { $schema: _ignored, ...jsonSchema } = z.toJSONSchema(schema, { io: 'output' });
+  return jsonSchema as ToolOutputSchema;
+}
+
+/**
+ * Build a successful tool response in the requested format
+ *
+ * The structured payload is always attached as `structuredContent` so clients that
+ * validate against the tool's `outputSchema` receive it regardless of `format`.
+ *
+ * @param format - Requested output format
+ * @param markdown - Human-readable Markdown report
+ * @param structured - Normalized structured payload
+ * @param images - Image content blocks (e.g. charts), appended after the text
+ * @returns MCP tool response
+ */
+export function buildToolResponse(
+  format: OutputFormat,
+  markdown: string,
+  structured: Record<string, unknown>,
+  images: MCPToolResponse['content'] = []
+): MCPToolResponse {
+  const json = JSON.stringify(structured, null, 2);
+  const content: MCPToolResponse['content'] = [];
+
+  if (format === 'markdown' || format === 'both') {
+    content.push({ type: 'text', text: markdown });
+  }
+  if (format === 'json' || format === 'both') {
+    content.push({ type: 'text', text: json });
+  }
+  content.push(...images);
+
+  return {
+    content,
+    structuredContent: structured,
+    isError: false,
+  };
+}
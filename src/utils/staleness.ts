@@ -0,0 +1,92 @@
+/**
+ * Stale Data Annotations
+ *
+ * Renders the notice appended to tool responses when some of the data came from
+ * an expired cache entry (stale-while-revalidate or stale-if-error).
+ */
+
+import type { StaleResponse } from '../api/request-context.js';
+
+/**
+ * Stale response summary attached to tool results as `_meta.stale`
+ */
+export interface StaleMeta {
+  endpoint: string;
+  fetched_at: string;
+  age_seconds: number;
+  reason: StaleResponse['reason'];
+  error?: string;
+}
+
+/**
+ * Describe how long ago data was fetched
+ *
+ * @param ageMs - Age in milliseconds
+ * @returns e.g. "less than a minute ago", "1 minute ago", "14 minutes ago", "3 hours ago"
+ */
+export function formatAge(ageMs: number): string {
+  const minutes = Math.floor(ageMs / 60_000);
+  if (minutes < 1) {
+    return 'less than a minute ago';
+  }
+  if (minutes < 120) {
+    return `${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+  }
+  return `${Math.floor(minutes / 60)} hours ago`;
+}
+
+/**
+ * Keep one entry per endpoint (the oldest data wins)
+ */
+function dedupe(stale: StaleResponse[]): StaleResponse[] {
+  const byEndpoint = new Map<string, StaleResponse>();
+  for (const item of stale) {
+    const existing = byEndpoint.get(item.endpoint);
+    if (!existing || item.fetchedAt < existing.fetchedAt) {
+      byEndpoint.set(item.endpoint, item);
+    }
+  }
+  return [...byEndpoint.values()];
+}
+
+/**
+ * Format the Markdown notice for stale data in a response
+ *
+ * @param stale - Stale responses served during the call
+ * @param now - Current time in milliseconds
+ * @returns Markdown notice, or an empty string if nothing was stale
+ */
+export function formatStaleNotice(stale: StaleResponse[], now: number = Date.now()): string {
+  const items = dedupe(stale);
+  if (items.length === 0) {
+    return '';
+  }
+
+  const upstreamDown = items.some((item) => item.reason === 'upstream-error');
+  const heading = upstreamDown
+    ? '⚠️ **Stale data**: Braiins Insights API unavailable, showing cached values'
+    : '⚠️ **Stale data**: cached values shown while they are refreshed';
+
+  const lines = items.map((item) => {
+    const detail = item.error ? ` (${item.error})` : '';
+    return `- \`${item.endpoint}\`: stale, fetched ${formatAge(now - item.fetchedAt)}${detail}`;
+  });
+
+  return `${heading}\n\n${lines.join('\n')}`;
+}
+
+/**
+ * Summarize stale responses for the tool result's `_meta`
+ *
+ * @param stale - Stale responses served during the call
+ * @param now - Current time in milliseconds
+ */
+export function toStaleMeta(stale: StaleResponse[], now: number = Date.now()): StaleMeta[] {
+  return dedupe(stale).map((item) => ({
+    endpoint: item.endpoint,
+    fetched_at: new Date(item.fetchedAt).toISOString(),
+    age_seconds: Math.floor((now - item.fetchedAt) / 1000),
+    reason: item.reason,
+    ...(item.error ? { error: item.error } : {}),
+  }));
+}
@@ -0,0 +1,540 @@
+/**
+ * Time-Series Utilities
+ *
+ * Date windows, resampling, aggregation and moving averages shared by the
+ * history tools. A tool converts its API rows to {@link TimeSeriesPoint}s,
+ * runs {@link transformTimeSeries} and reads the result back, so every history
+ * tool accepts the same `start_date`, `end_date`, `resample`, `aggregation`
+ * and `moving_average` inputs and applies them the same way.
+ */
+
+import { z } from 'zod';
+import { BLOCKS_PER_DAY, HALVINGS } from '../economics/mining-engine.js';
+
+/**
+ * Supported resampling periods
+ *
+ * - `daily`, `weekly` (ISO weeks, starting Monday), `monthly`: UTC calendar periods
+ * - `epoch`: difficulty epochs of 2016 blocks
+ */
+export const RESAMPLE_PERIODS = ['daily', 'weekly', 'monthly', 'epoch'] as const;
+
+export type ResamplePeriod = (typeof RESAMPLE_PERIODS)[number];
+
+/**
+ * Supported aggregation functions for resampled periods
+ */
+export const AGGREGATIONS = ['mean', 'min', 'max', 'last', 'sum'] as const;
+
+export type Aggregation = (typeof AGGREGATIONS)[number];
+
+/** Blocks per difficulty epoch */
+const EPOCH_BLOCKS = 2016;
+
+/** Genesis block date, the first height anchor before the halvings */
+const GENESIS_DATE = '2009-01-03';
+
+/** Longest moving average window in points */
+const MAX_MOVING_AVERAGE = 365;
+
+/** Date-only input, e.g. 2024-01-31 */
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Date window and transformations to apply to a series
+ */
+export interface TimeSeriesQuery {
+  /** First day to include (YYYY-MM-DD, inclusive) */
+  startDate?: string;
+
+  /** Last day to include (YYYY-MM-DD, inclusive) */
+  endDate?: string;
+
+  resample?: ResamplePeriod;
+
+  /** How values within a resampled period are combined */
+  aggregation: Aggregation;
+
+  /** Trailing moving average window in points, counted after resampling */
+  movingAverage?: number;
+
+  /** Epochs were estimated from the date because the difficulty history was unavailable */
+  estimatedEpochs?: boolean;
+}
+
+/**
+ * One point of a series
+ */
+export interface TimeSeriesPoint<K extends string> {
+  /** ISO date or timestamp; a resampled point carries the start of its period */
+  date: string;
+
+  values: Record<K, number | null>;
+
+  /** Date of the last raw point within a resampled period */
+  lastDate?: string;
+
+  /** Number of raw points within a resampled period */
+  count?: number;
+
+  /** Trailing moving average of each value, when requested */
+  movingAverage?: Record<K, number | null>;
+}
+
+/**
+ * JSON schema for the time-series input properties shared by the history tools
+ */
+export const TIME_SERIES_PROPERTIES = {
+  start_date: {
+    type: 'string',
+    description: 'Only include data on or after this date (YYYY-MM-DD, UTC)',
+    pattern: DATE_PATTERN.source,
+  },
+  end_date: {
+    type: 'string',
+    description: 'Only include data on or before this date (YYYY-MM-DD, UTC)',
+    pattern: DATE_PATTERN.source,
+  },
+  resample: {
+    type: 'string',
+    enum: [...RESAMPLE_PERIODS],
+    description:
+      'Group data points by UTC day, ISO week (from Monday), calendar month or difficulty ' +
+      'epoch (2016 blocks). Applied after the date window and before limit',
+  },
+  aggregation: {
+    type: 'string',
+    enum: [...AGGREGATIONS],
+    description: 'How values within a resampled period are combined (default: mean)',
+    default: 'mean',
+  },
+  moving_average: {
+    type: 'integer',
+    description:
+      'Add a trailing moving average over this many points, counted after resampling ' +
+      '(e.g. 7 for a weekly average of daily data)',
+    minimum: 2,
+    maximum: MAX_MOVING_AVERAGE,
+  },
+};
+
+/**
+ * Structured output describing the applied query
+ */
+export const TimeSeriesQueryOutputSchema = z
+  .object({
+    start_date: z.string().nullable(),
+    end_date: z.string().nullable(),
+    resample: z.enum(RESAMPLE_PERIODS).nullable(),
+    aggregation: z.enum(AGGREGATIONS).nullable().describe('null when not resampled'),
+    moving_average: z.number().nullable().describe('Moving average window in points'),
+    estimated_epochs: z
+      .boolean()
+      .describe(
+        'Epochs were estimated from the date because the difficulty history was unavailable'
+      ),
+  })
+  .describe('Date window and transformations applied to the data points');
+
+/**
+ * Structured output fields that a transformed data point may carry
+ *
+ * @param fields - Names of the series values
+ * @returns Zod shape to spread into the tool's data point schema
+ */
+export function timeSeriesPointFields<K extends string>(
+  fields: readonly K[]
+): {
+  period_end: z.ZodOptional<z.ZodString>;
+  sample_count: z.ZodOptional<z.ZodNumber>;
+  moving_average: z.ZodOptional<z.ZodObject<Record<K, z.ZodNullable<z.ZodNumber>>>>;
+} {
+  const averages = Object.fromEntries(
+    fields.map((field) => [field, z.number().nullable()])
+  ) as Record<K, z.ZodNullable<z.ZodNumber>>;
+
+  return {
+    period_end: z.string().optional().describe('Date of the last raw point in the period'),
+    sample_count: z.number().optional().describe('Raw points aggregated into the period'),
+    moving_average: z.object(averages).optional().describe('Trailing moving average'),
+  };
+}
+
+/**
+ * Zod schema for the time-series inputs; other tool inputs pass through
+ */
+const TimeSeriesInputSchema = z
+  .object({
+    start_date: z.iso.date('start_date must be a valid date (YYYY-MM-DD)').optional(),
+    end_date: z.iso.date('end_date must be a valid date (YYYY-MM-DD)').optional(),
+    resample: z.enum(RESAMPLE_PERIODS).optional(),
+    aggregation: z.enum(AGGREGATIONS).default('mean'),
+    moving_average: z
+      .number()
+      .int()
+      .min(2, 'Moving average must be at least 2 points')
+      .max(MAX_MOVING_AVERAGE, `Moving average cannot exceed ${MAX_MOVING_AVERAGE} points`)
+      .optional(),
+  })
+  .refine(
+    (input) =>
+      input.start_date === undefined ||
+      input.end_date === undefined ||
+      input.start_date <= input.end_date,
+    { message: 'start_date cannot be later than end_date', path: ['start_date'] }
+  );
+
+/**
+ * Resolve the time-series query from raw tool input
+ *
+ * @param params - Raw tool input
+ * @throws {z.ZodError} When a time-series input is invalid
+ */
+export function parseTimeSeriesQuery(params: Record<string, unknown>): TimeSeriesQuery {
+  const input = TimeSeriesInputSchema.parse(params);
+
+  return {
+    ...(input.start_date !== undefined ? { startDate: input.start_date } : {}),
+    ...(input.end_date !== undefined ? { endDate: input.end_date } : {}),
+    ...(input.resample !== undefined ? { resample: input.resample } : {}),
+    aggregation: input.aggregation,
+    ...(input.moving_average !== undefined ? { movingAverage: input.moving_average } : {}),
+  };
+}
+
+/**
+ * Structured output fields of a transformed point; empty for an unchanged point
+ */
+export function toTimeSeriesPointContent<K extends string>(
+  point: TimeSeriesPoint<K>
+): { period_end?: string; sample_count?: number; moving_average?: Record<K, number | null> } {
+  return {
+    ...(point.lastDate !== undefined ? { period_end: point.lastDate } : {}),
+    ...(point.count !== undefined ? { sample_count: point.count } : {}),
+    ...(point.movingAverage ? { moving_average: point.movingAverage } : {}),
+  };
+}
+
+/**
+ * Normalize the query into the structured output payload
+ */
+export function toQueryContent(
+  query: TimeSeriesQuery
+): z.infer<typeof TimeSeriesQueryOutputSchema> {
+  return {
+    start_date: query.startDate ?? null,
+    end_date: query.endDate ?? null,
+    resample: query.resample ?? null,
+    aggregation: query.resample ? query.aggregation : null,
+    moving_average: query.movingAverage ?? null,
+    estimated_epochs: query.estimatedEpochs === true,
+  };
+}
+
+/**
+ * Describe the query for Markdown reports, e.g.
+ * `2024-01-01 to 2024-12-31, monthly mean, 3-point moving average`
+ *
+ * @returns Description, or null when nothing is applied
+ */
+export function describeTimeSeriesQuery(query: TimeSeriesQuery): string | null {
+  const parts: string[] = [];
+
+  if (query.startDate || query.endDate) {
+    parts.push(
+      query.startDate && query.endDate
+        ? `${query.startDate} to ${query.endDate}`
+        : query.startDate
+          ? `from ${query.startDate}`
+          : `until ${query.endDate ?? ''}`
+    );
+  }
+  if (query.resample) {
+    parts.push(
+      query.resample === 'epoch'
+        ? `${query.aggregation} per difficulty epoch` +
+            (query.estimatedEpochs
+              ? ' (estimated from the date; difficulty history unavailable)'
+              : '')
+        : `${query.resample} ${query.aggregation}`
+    );
+  }
+  if (query.movingAverage) {
+    parts.push(`${query.movingAverage}-point moving average`);
+  }
+
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+/**
+ * Explain an empty result when the date window excludes every data point
+ *
+ * @param points - Untransformed series, most recent first
+ * @param query - Applied window and transformations
+ * @returns Markdown echoing the window and the dates the API returned
+ */
+export function describeEmptyWindow<K extends string>(
+  points: TimeSeriesPoint<K>[],
+  query: TimeSeriesQuery
+): string {
+  const newest = dayOf(points[0]?.date ?? '');
+  const oldest = dayOf(points[points.length - 1]?.date ?? '');
+
+  return (
+    `**Window:** ${describeTimeSeriesQuery(query) ?? 'all data'}
+
+` +
+    `No data falls within the requested window; the API returned ${points.length} data ` +
+    `points from ${oldest} to ${newest}.`
+  );
+}
+
+/**
+ * Difficulty epoch of a date, from the estimated block height
+ *
+ * Heights are interpolated between the genesis block and the halvings, and
+ * extrapolated at 10-minute blocks after the last halving. Block times drift
+ * between anchors, so boundaries may be off by a few days; use
+ * {@link difficultyEpochs} when a difficulty history is available.
+ */
+export function estimatedEpoch(date: string): number {
+  return Math.floor(estimateHeightAt(date) / EPOCH_BLOCKS);
+}
+
+/**
+ * Difficulty epochs from a difficulty history
+ *
+ * Each change of difficulty starts an epoch, so boundaries fall on the day of
+ * the actual adjustment. Epochs are numbered from the estimated height at the
+ * adjustments, so dates outside the history fall back to {@link estimatedEpoch}
+ * and continue the same numbering.
+ *
+ * @param history - Difficulty samples with ISO dates or timestamps, in any order
+ * @returns Epoch of a date or timestamp
+ */
+export function difficultyEpochs(
+  history: Array<{ date: string; difficulty: number }>
+): (date: string) => number {
+  const samples = history
+    .map((sample) => ({ day: dayOf(sample.date), difficulty: sample.difficulty }))
+    .sort((a, b) => (a.day < b.day ? -1 : a.day > b.day ? 1 : 0));
+  const first = samples[0]?.day;
+  const last = samples[samples.length - 1]?.day;
+
+  // First day of each epoch seen in the history
+  const starts: string[] = [];
+  let previous: number | undefined;
+  for (const sample of samples) {
+    if (sample.difficulty !== previous && starts[starts.length - 1] !== sample.day) {
+      starts.push(sample.day);
+    }
+    previous = sample.difficulty;
+  }
+
+  // Number the epochs from the nearest boundary to each adjustment, which tolerates an
+  // estimate up to half an epoch off; the median guards against a missed adjustment
+  const offsets = starts
+    .slice(1)
+    .map((start, index) => Math.round(estimateHeightAt(start) / EPOCH_BLOCKS) - (index + 1))
+    .sort((a, b) => a - b);
+  const base = offsets[Math.floor(offsets.length / 2)] ?? estimatedEpoch(first ?? '');
+
+  return (date: string): number => {
+    const day = dayOf(date);
+    if (first === undefined || last === undefined || day < first || day > last) {
+      return estimatedEpoch(date);
+    }
+    const index = starts.filter((start) => start <= day).length - 1;
+    return base + index;
+  };
+}
+
+/**
+ * Estimated block height at a date, interpolated between known heights
+ */
+function estimateHeightAt(date: string): number {
+  const time = Date.parse(date);
+  if (Number.isNaN(time)) {
+    return 0;
+  }
+  const anchors = [{ height: 0, date: GENESIS_DATE }, ...HALVINGS].map((anchor) => ({
+    height: anchor.height,
+    time: Date.parse(anchor.date),
+  }));
+
+  for (let index = anchors.length - 1; index >= 0; index--) {
+    const anchor = anchors[index];
+    if (anchor === undefined || time < anchor.time) {
+      continue;
+    }
+    const next = anchors[index + 1];
+    const rate = next
+      ? (next.height - anchor.height) / (next.time - anchor.time)
+      : BLOCKS_PER_DAY / 86_400_000;
+    return Math.floor(anchor.height + (time - anchor.time) * rate);
+  }
+
+  return 0;
+}
+
+/**
+ * Apply a date window, resampling and moving average to a series
+ *
+ * Points are filtered to the window, grouped into consecutive periods and
+ * aggregated (null values are skipped), then the moving average runs over the
+ * result. Input and output are most recent first, as the API returns them.
+ *
+ * @param points - Series, most recent first
+ * @param query - Window and transformations
+ * @param epochKey - Key identifying a point's difficulty epoch (default: estimated from the date)
+ * @returns Transformed series, most recent first
+ */
+export function transformTimeSeries<K extends string>(
+  points: TimeSeriesPoint<K>[],
+  query: TimeSeriesQuery,
+  epochKey: (point: TimeSeriesPoint<K>) => number = (point) => estimatedEpoch(point.date)
+): TimeSeriesPoint<K>[] {
+  let series = [...points].reverse().filter((point) => {
+    const day = dayOf(point.date);
+    return (
+      (query.startDate === undefined || day >= query.startDate) &&
+      (query.endDate === undefined || day <= query.endDate)
+    );
+  });
+
+  if (query.resample) {
+    series = resample(series, query.resample, query.aggregation, epochKey);
+  }
+  if (query.movingAverage) {
+    series = withMovingAverage(series, query.movingAverage);
+  }
+
+  return series.reverse();
+}
+
+/**
+ * Group consecutive points of the same period and aggregate their values
+ */
+function resample<K extends string>(
+  points: TimeSeriesPoint<K>[],
+  period: ResamplePeriod,
+  aggregation: Aggregation,
+  epochKey: (point: TimeSeriesPoint<K>) => number
+): TimeSeriesPoint<K>[] {
+  const keyOf = (point: TimeSeriesPoint<K>): string =>
+    period === 'epoch' ? String(epochKey(point)) : periodStart(point.date, period);
+
+  const groups: Array<{ key: string; points: TimeSeriesPoint<K>[] }> = [];
+  for (const point of points) {
+    const key = keyOf(point);
+    const group = groups[groups.length - 1];
+    if (group?.key === key) {
+      group.points.push(point);
+    } else {
+      groups.push({ key, points: [point] });
+    }
+  }
+
+  return groups.map((group) => {
+    const first = group.points[0];
+    const last = group.points[group.points.length - 1];
+    const fields = Object.keys(first?.values ?? {}) as K[];
+    const values = Object.fromEntries(
+      fields.map((field) => [
+        field,
+        aggregate(
+          group.points.map((point) => point.values[field]),
+          aggregation
+        ),
+      ])
+    ) as Record<K, number | null>;
+
+    return {
+      date: period === 'epoch' ? dayOf(first?.date ?? '') : group.key,
+      values,
+      lastDate: dayOf(last?.date ?? ''),
+      count: group.points.length,
+    };
+  });
+}
+
+/**
+ * Add a trailing moving average; the first `window - 1` points have none
+ */
+function withMovingAverage<K extends string>(
+  points: TimeSeriesPoint<K>[],
+  window: number
+): TimeSeriesPoint<K>[] {
+  return points.map((point, index) => {
+    const slice = index + 1 >= window ? points.slice(index + 1 - window, index + 1) : [];
+    const fields = Object.keys(point.values) as K[];
+    const movingAverage = Object.fromEntries(
+      fields.map((field) => [
+        field,
+        slice.length > 0
+          ? aggregate(
+              slice.map((entry) => entry.values[field]),
+              'mean'
+            )
+          : null,
+      ])
+    ) as Record<K, number | null>;
+
+    return { ...point, movingAverage };
+  });
+}
+
+/**
+ * Combine values, skipping nulls; null when there are none
+ */
+function aggregate(values: Array<number | null>, aggregation: Aggregation): number | null {
+  const known = values.filter((value): value is number => value !== null);
+  if (known.length === 0) {
+    return null;
+  }
+
+  switch (aggregation) {
+    case 'mean':
+      return known.reduce((sum, value) => sum + value, 0) / known.length;
+    case 'min':
+      return Math.min(...known);
+    case 'max':
+      return Math.max(...known);
+    case 'last':
+      return known[known.length - 1] ?? null;
+    case 'sum':
+      return known.reduce((sum, value) => sum + value, 0);
+  }
+}
+
+/**
+ * First day of the UTC calendar period containing a date (YYYY-MM-DD)
+ */
+function periodStart(date: string, period: Exclude<ResamplePeriod, 'epoch'>): string {
+  const day = dayOf(date);
+  if (period === 'daily') {
+    return day;
+  }
+  if (period === 'monthly') {
+    return `${day.slice(0, 7)}-01`;
+  }
+
+  const time = Date.parse(day);
+  if (Number.isNaN(time)) {
+    return day;
+  }
+  // getUTCDay: Sunday = 0; ISO weeks start on Monday
+  const weekday = (new Date(time).getUTCDay() + 6) % 7;
+  return new Date(time - weekday * 86_400_000).toISOString().slice(0, 10);
+}
+
+/**
+ * UTC day of an ISO date or timestamp (YYYY-MM-DD); unparseable input is returned as is
+ */
+function dayOf(date: string): string {
+  if (DATE_PATTERN.test(date)) {
+    return date;
+  }
+  const time = Date.parse(date);
+  return Number.isNaN(time) ? date : new Date(time).toISOString().slice(0, 10);
+}
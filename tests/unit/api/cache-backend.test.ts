@@ -0,0 +1,228 @@
+/**
+ * Unit tests for cache backends
+ *
+ * Tests cover: memory LRU eviction, file persistence across instances,
+ * file LRU eviction by count and size, corrupt files and concurrent writers.
+ */
+
+/* global Response */
+
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CacheEntry, MemoryCacheBackend } from '../../../src/api/cache-backend.js';
+import { FileCacheBackend } from '../../../src/api/file-cache-backend.js';
+import { InsightsApiClient } from '../../../src/api/insights-client.js';
+
+const entry = <T>(data: T): CacheEntry<T> => ({
+  data,
+  fetchedAt: 1_000,
+  expires: 2_000,
+  endpoint: '/v1.0/test',
+});
+
+/**
+ * Wait long enough for file modification times to differ
+ */
+const tick = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 15));
+
+describe('MemoryCacheBackend', () => {
+  it('should store and return entries', async () => {
+    const cache = new MemoryCacheBackend();
+
+    await cache.set('a', entry(1));
+
+    expect(await cache.get('a')).toEqual(entry(1));
+    expect(await cache.get('missing')).toBeUndefined();
+  });
+
+  it('should evict the least recently used entry over the limit', async () => {
+    const cache = new MemoryCacheBackend(2);
+
+    await cache.set('a', entry(1));
+    await cache.set('b', entry(2));
+    await cache.get('a');
+    await cache.set('c', entry(3));
+
+    expect(await cache.get('a')).toBeDefined();
+    expect(await cache.get('b')).toBeUndefined();
+    expect(await cache.get('c')).toBeDefined();
+  });
+
+  it('should delete and clear entries', async () => {
+    const cache = new MemoryCacheBackend();
+    await cache.set('a', entry(1));
+    await cache.set('b', entry(2));
+
+    await cache.delete('a');
+    expect(await cache.get('a')).toBeUndefined();
+
+    await cache.clear();
+    expect(await cache.get('b')).toBeUndefined();
+  });
+});
+
+describe('FileCacheBackend', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'insights-cache-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should persist entries across instances', async () => {
+    await new FileCacheBackend({ directory: dir }).set('/v1.0/hashrate-stats', entry({ x: 1 }));
+
+    const restarted = new FileCacheBackend({ directory: dir });
+    expect(await restarted.get('/v1.0/hashrate-stats')).toEqual(entry({ x: 1 }));
+  });
+
+  it('should create the cache directory on first write', async () => {
+    const nested = join(dir, 'nested', 'cache');
+    const cache = new FileCacheBackend({ directory: nested });
+
+    expect(await cache.get('a')).toBeUndefined();
+    await cache.set('a', entry(1));
+
+    expect(readdirSync(nested)).toHaveLength(1);
+  });
+
+  it('should evict least recently used files over the entry limit', async () => {
+    const cache = new FileCacheBackend({ directory: dir, maxEntries: 2 });
+
+    await cache.set('a', entry(1));
+    await tick();
+    await cache.set('b', entry(2));
+    await tick();
+    await cache.get('a');
+    await tick();
+    await cache.set('c', entry(3));
+
+    expect(await cache.get('a')).toBeDefined();
+    expect(await cache.get('b')).toBeUndefined();
+    expect(await cache.get('c')).toBeDefined();
+  });
+
+  it('should evict files over the size limit', async () => {
+    const cache = new FileCacheBackend({ directory: dir, maxBytes: 300 });
+
+    await cache.set('a', entry('x'.repeat(150)));
+    await tick();
+    await cache.set('b', entry('y'.repeat(150)));
+
+    expect(await cache.get('a')).toBeUndefined();
+    expect(await cache.get('b')).toBeDefined();
+  });
+
+  it('should only rescan the directory when tracked usage exceeds a limit', async () => {
+    const cache = new FileCacheBackend({ directory: dir, maxEntries: 3 });
+    await cache.set('a', entry(1));
+    await tick();
+    await cache.set('b', entry(2));
+    await tick();
+    // Written by another process; not counted until the next scan
+    writeFileSync(
+      join(dir, `${'0'.repeat(64)}.json`),
+      JSON.stringify({ key: 'x', entry: entry(0) })
+    );
+    await tick();
+
+    await cache.set('c', entry(3));
+    expect(readdirSync(dir)).toHaveLength(4);
+
+    await tick();
+    await cache.set('d', entry(4));
+    expect(readdirSync(dir)).toHaveLength(3);
+    expect(await cache.get('a')).toBeUndefined();
+    expect(await cache.get('d')).toBeDefined();
+  });
+
+  it('should not count overwritten entries twice', async () => {
+    const cache = new FileCacheBackend({ directory: dir, maxEntries: 2 });
+    await cache.set('a', entry(1));
+    await tick();
+    await cache.set('b', entry(2));
+
+    for (let version = 0; version < 3; version++) {
+      await cache.set('b', entry(version));
+    }
+
+    expect(await cache.get('a')).toBeDefined();
+  });
+
+  it('should treat corrupt files as misses and remove them', async () => {
+    const cache = new FileCacheBackend({ directory: dir });
+    await cache.set('a', entry(1));
+    const [file] = readdirSync(dir);
+    writeFileSync(join(dir, file ?? ''), '{ not json');
+
+    expect(await cache.get('a')).toBeUndefined();
+    expect(readdirSync(dir)).toEqual([]);
+  });
+
+  it('should handle concurrent writers sharing a directory', async () => {
+    const first = new FileCacheBackend({ directory: dir, maxEntries: 5 });
+    const second = new FileCacheBackend({ directory: dir, maxEntries: 5 });
+
+    await Promise.all(
+      Array.from({ length: 20 }, (_, i) =>
+        (i % 2 === 0 ? first : second).set(`key-${i % 8}`, entry(i))
+      )
+    );
+
+    // No temp files left behind and every remaining file is a complete entry
+    const files = readdirSync(dir);
+    expect(files.every((name) => name.endsWith('.json'))).toBe(true);
+
+    const readable = await Promise.all(Array.from({ length: 8 }, (_, i) => second.get(`key-${i}`)));
+    expect(readable.filter((e) => e !== undefined)).toHaveLength(files.length);
+    expect(files.length).toBeGreaterThan(0);
+    expect(files.length).toBeLessThanOrEqual(8);
+  });
+
+  it('should clear all entries', async () => {
+    const cache = new FileCacheBackend({ directory: dir });
+    await cache.set('a', entry(1));
+    await cache.set('b', entry(2));
+
+    await cache.clear();
+
+    expect(readdirSync(dir)).toEqual([]);
+  });
+
+  it('should let a restarted client answer from the persisted cache', async () => {
+    const blocks = [
+      {
+        height: 1,
+        pool: 'Braiins',
+        timestamp: '2025-12-15T10:30:00Z',
+        block_value_btc: 3.16,
+        block_value_usd: 305000,
+      },
+    ];
+    const fetchMock = jest.fn(() =>
+      Promise.resolve(new Response(JSON.stringify(blocks), { status: 200 }))
+    );
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+    try {
+      const client = new InsightsApiClient({
+        cacheBackend: new FileCacheBackend({ directory: dir }),
+      });
+      await client.getBlocks();
+
+      const restarted = new InsightsApiClient({
+        cacheBackend: new FileCacheBackend({ directory: dir }),
+      });
+      expect(await restarted.getBlocks()).toEqual(blocks);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+});
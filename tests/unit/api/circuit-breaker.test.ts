@@ -0,0 +1,131 @@
+/**
+ * Unit tests for CircuitBreaker and retry helpers
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { CircuitBreaker } from '../../../src/api/circuit-breaker.js';
+import { computeBackoff, isRetryableStatus, parseRetryAfter } from '../../../src/api/retry.js';
+
+describe('CircuitBreaker', () => {
+  const createBreaker = (clock: { now: number }): CircuitBreaker =>
+    new CircuitBreaker({ failureThreshold: 2, resetMs: 1_000, now: () => clock.now });
+
+  it('should stay closed below the failure threshold', () => {
+    const breaker = createBreaker({ now: 0 });
+
+    breaker.recordFailure('/a', 'boom');
+
+    expect(breaker.tryAcquire('/a')).toBe(true);
+    expect(breaker.getStatus('/a')).toMatchObject({ state: 'closed', failures: 1 });
+  });
+
+  it('should open at the threshold and reject until the reset time', () => {
+    const clock = { now: 0 };
+    const breaker = createBreaker(clock);
+
+    breaker.recordFailure('/a', 'first');
+    breaker.recordFailure('/a', 'second');
+
+    expect(breaker.tryAcquire('/a')).toBe(false);
+    expect(breaker.getStatus('/a')).toEqual({
+      state: 'open',
+      failures: 2,
+      retryAfterMs: 1_000,
+      lastError: 'second',
+    });
+    expect(breaker.tryAcquire('/b')).toBe(true);
+
+    clock.now = 999;
+    expect(breaker.tryAcquire('/a')).toBe(false);
+  });
+
+  it('should allow a single trial request when half-open', () => {
+    const clock = { now: 0 };
+    const breaker = createBreaker(clock);
+    breaker.recordFailure('/a');
+    breaker.recordFailure('/a');
+
+    clock.now = 1_000;
+    expect(breaker.getStatus('/a').state).toBe('half-open');
+    expect(breaker.tryAcquire('/a')).toBe(true);
+    expect(breaker.tryAcquire('/a')).toBe(false);
+  });
+
+  it('should close after a successful trial', () => {
+    const clock = { now: 0 };
+    const breaker = createBreaker(clock);
+    breaker.recordFailure('/a');
+    breaker.recordFailure('/a');
+
+    clock.now = 1_000;
+    breaker.tryAcquire('/a');
+    breaker.recordSuccess('/a');
+
+    expect(breaker.getStatus('/a')).toEqual({ state: 'closed', failures: 0, retryAfterMs: 0 });
+    expect(breaker.getAllStatuses()).toEqual({});
+  });
+
+  it('should reopen immediately after a failed trial', () => {
+    const clock = { now: 0 };
+    const breaker = createBreaker(clock);
+    breaker.recordFailure('/a');
+    breaker.recordFailure('/a');
+
+    clock.now = 1_000;
+    breaker.tryAcquire('/a');
+    breaker.recordFailure('/a', 'still down');
+
+    expect(breaker.getStatus('/a')).toMatchObject({ state: 'open', retryAfterMs: 1_000 });
+  });
+
+  it('should free the trial slot on release', () => {
+    const clock = { now: 0 };
+    const breaker = createBreaker(clock);
+    breaker.recordFailure('/a');
+    breaker.recordFailure('/a');
+
+    clock.now = 1_000;
+    breaker.tryAcquire('/a');
+    breaker.release('/a');
+
+    expect(breaker.tryAcquire('/a')).toBe(true);
+  });
+
+  it('should never open when disabled', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 0, resetMs: 1_000 });
+
+    for (let i = 0; i < 10; i++) {
+      breaker.recordFailure('/a');
+    }
+
+    expect(breaker.tryAcquire('/a')).toBe(true);
+  });
+});
+
+describe('retry helpers', () => {
+  it('should classify retryable statuses', () => {
+    expect([408, 429, 500, 502, 503, 504].every(isRetryableStatus)).toBe(true);
+    expect([400, 401, 404, 422].some(isRetryableStatus)).toBe(false);
+  });
+
+  it('should grow the backoff ceiling exponentially up to the maximum', () => {
+    const policy = { baseDelayMs: 100, maxDelayMs: 500 };
+    const ceiling = (): number => 0.999999;
+
+    expect(computeBackoff(1, policy, ceiling)).toBe(99);
+    expect(computeBackoff(2, policy, ceiling)).toBe(199);
+    expect(computeBackoff(3, policy, ceiling)).toBe(399);
+    expect(computeBackoff(4, policy, ceiling)).toBe(499);
+    expect(computeBackoff(3, policy, () => 0)).toBe(0);
+  });
+
+  it('should parse Retry-After seconds and HTTP dates', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+
+    expect(parseRetryAfter('5', now)).toBe(5_000);
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:30 GMT', now)).toBe(30_000);
+    expect(parseRetryAfter('Tue, 31 Dec 2024 23:59:00 GMT', now)).toBe(0);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Unit tests for RequestScheduler
+ *
+ * Tests cover: token bucket refill, priorities, per-session fairness,
+ * max queue wait, fail-fast mode and queue metrics.
+ */
+
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import {
+  RateLimitExceededError,
+  RequestScheduler,
+  RequestSchedulerOptions,
+} from '../../../src/api/request-scheduler.js';
+
+/** 60 req/min refills one token per second */
+const createScheduler = (options: Partial<RequestSchedulerOptions> = {}): RequestScheduler =>
+  new RequestScheduler({
+    requestsPerMinute: 60,
+    burstLimit: 2,
+    maxWaitMs: 60_000,
+    mode: 'queue',
+    ...options,
+  });
+
+describe('RequestScheduler', () => {
+  let order: string[];
+
+  const track = (promise: Promise<void>, label: string): Promise<void> =>
+    promise.then(() => {
+      order.push(label);
+    });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    order = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should grant up to the burst limit immediately', async () => {
+    const scheduler = createScheduler();
+
+    await scheduler.acquire();
+    await scheduler.acquire();
+
+    expect(scheduler.getMetrics()).toMatchObject({ granted: 2, queued: 0, availableTokens: 0 });
+  });
+
+  it('should queue requests until tokens refill', async () => {
+    const scheduler = createScheduler();
+    await scheduler.acquire();
+    await scheduler.acquire();
+
+    const pending = track(scheduler.acquire(), 'third');
+    expect(scheduler.getMetrics().queueDepth).toBe(1);
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(order).toEqual([]);
+
+    await jest.advanceTimersByTimeAsync(1);
+    await pending;
+    expect(order).toEqual(['third']);
+    expect(scheduler.getMetrics()).toMatchObject({ queueDepth: 0, queued: 1, averageWaitMs: 333 });
+  });
+
+  it('should serve interactive requests before background requests', async () => {
+    const scheduler = createScheduler({ burstLimit: 1 });
+    await scheduler.acquire();
+
+    const pending = [
+      track(scheduler.acquire({ priority: 'background' }), 'background'),
+      track(scheduler.acquire({ priority: 'interactive' }), 'interactive'),
+    ];
+
+    expect(scheduler.getMetrics().queueDepthByPriority).toEqual({
+      interactive: 1,
+      background: 1,
+    });
+
+    await jest.advanceTimersByTimeAsync(2_000);
+    await Promise.all(pending);
+    expect(order).toEqual(['interactive', 'background']);
+  });
+
+  it('should share capacity round-robin across sessions', async () => {
+    const scheduler = createScheduler({ burstLimit: 1 });
+    await scheduler.acquire();
+
+    const pending = [
+      track(scheduler.acquire({ sessionId: 'a' }), 'a1'),
+      track(scheduler.acquire({ sessionId: 'a' }), 'a2'),
+      track(scheduler.acquire({ sessionId: 'a' }), 'a3'),
+      track(scheduler.acquire({ sessionId: 'b' }), 'b1'),
+    ];
+    expect(scheduler.getMetrics().waitingSessions).toBe(2);
+
+    await jest.advanceTimersByTimeAsync(4_000);
+    await Promise.all(pending);
+    expect(order).toEqual(['a1', 'b1', 'a2', 'a3']);
+  });
+
+  it('should reject requests that exceed the max queue wait', async () => {
+    const scheduler = createScheduler({ burstLimit: 1, maxWaitMs: 500 });
+    await scheduler.acquire();
+
+    const pending = scheduler.acquire();
+    const assertion = expect(pending).rejects.toThrow(RateLimitExceededError);
+    await jest.advanceTimersByTimeAsync(500);
+    await assertion;
+
+    expect(scheduler.getMetrics()).toMatchObject({ queueDepth: 0, timedOut: 1 });
+  });
+
+  it('should reject immediately in fail-fast mode', async () => {
+    const scheduler = createScheduler({ burstLimit: 1, mode: 'fail-fast' });
+    await scheduler.acquire();
+
+    await expect(scheduler.acquire()).rejects.toThrow(
+      'Client-side rate limit exceeded: 60 req/min'
+    );
+
+    await jest.advanceTimersByTimeAsync(1_000);
+    await expect(scheduler.acquire()).resolves.toBeUndefined();
+    expect(scheduler.getMetrics()).toMatchObject({ rejected: 1, granted: 2, queueDepth: 0 });
+  });
+
+  it('should report retry delay on rejection', async () => {
+    const scheduler = createScheduler({ burstLimit: 1, mode: 'fail-fast' });
+    await scheduler.acquire();
+
+    const error = await scheduler.acquire().catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(RateLimitExceededError);
+    expect((error as RateLimitExceededError).retryAfterMs).toBe(1_000);
+  });
+
+  it('should never exceed the per-minute rate even with a larger burst limit', async () => {
+    const scheduler = createScheduler({ requestsPerMinute: 2, burstLimit: 5, mode: 'fail-fast' });
+
+    await scheduler.acquire();
+    await scheduler.acquire();
+    await expect(scheduler.acquire()).rejects.toThrow(RateLimitExceededError);
+  });
+
+  it('should not limit when requests per minute is 0', async () => {
+    const scheduler = createScheduler({ requestsPerMinute: 0, mode: 'fail-fast' });
+
+    for (let i = 0; i < 100; i++) {
+      await scheduler.acquire();
+    }
+    expect(scheduler.getMetrics()).toMatchObject({ enabled: false, queueDepth: 0 });
+  });
+
+  it('should reject waiting requests on close', async () => {
+    const scheduler = createScheduler({ burstLimit: 1 });
+    await scheduler.acquire();
+
+    const pending = scheduler.acquire();
+    scheduler.close();
+
+    await expect(pending).rejects.toThrow('Request scheduler closed');
+    expect(scheduler.getMetrics().queueDepth).toBe(0);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for response validation
+ *
+ * Tests cover: strict validation and error reporting, and each lenient-mode
+ * coercion (numeric and boolean strings, nulls, envelopes, renamed fields).
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { z } from 'zod';
+import { validateResponse, ValidationError } from '../../../src/api/response-validation.js';
+import { BlockDataSchema, PoolStatsSchema } from '../../../src/types/insights-api.js';
+
+const BLOCK = {
+  height: 872450,
+  pool: 'Braiins',
+  timestamp: '2025-12-15T10:30:00Z',
+  block_value_btc: 3.162,
+  block_value_usd: 305133,
+};
+
+const catchError = (fn: () => unknown): ValidationError => {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('Expected a ValidationError');
+};
+
+describe('validateResponse', () => {
+  describe('strict mode', () => {
+    it('should return valid data without unknown fields', () => {
+      const result = validateResponse('/v1.0/blocks', z.array(BlockDataSchema), [
+        { ...BLOCK, extra: 'ignored' },
+      ]);
+
+      expect(result).toEqual([BLOCK]);
+    });
+
+    it('should report nested field paths', () => {
+      const error = catchError(() =>
+        validateResponse('/v1.0/pool-stats', PoolStatsSchema, {
+          pools: [
+            { name: 'Braiins', hashrate_percent: '5', hashrate_effective: 50, blocks_mined: {} },
+          ],
+        })
+      );
+
+      expect(error.endpoint).toBe('/v1.0/pool-stats');
+      expect(error.issues.map((issue) => issue.path)).toEqual(['pools.0.hashrate_percent']);
+      expect(error.message).toMatch(
+        /^Invalid \/v1\.0\/pool-stats response: pools\.0\.hashrate_percent: .*expected number/
+      );
+    });
+
+    it('should list at most five issues in the message', () => {
+      const error = catchError(() =>
+        validateResponse('/v1.0/blocks', z.array(BlockDataSchema), [{}, {}])
+      );
+
+      expect(error.issues).toHaveLength(10);
+      expect(error.message).toContain('(+5 more)');
+      expect(error.invalidData).toEqual([{}, {}]);
+    });
+
+    it('should not coerce known variants', () => {
+      expect(() =>
+        validateResponse('/v1.0/blocks', BlockDataSchema, { ...BLOCK, height: '872450' })
+      ).toThrow(ValidationError);
+    });
+  });
+
+  describe('lenient mode', () => {
+    it('should coerce numeric and boolean strings', () => {
+      const schema = z.object({ value: z.number(), flag: z.boolean() });
+
+      expect(
+        validateResponse('/test', schema, { value: ' 1094.42 ', flag: 'false' }, 'lenient')
+      ).toEqual({ value: 1094.42, flag: false });
+    });
+
+    it('should drop nulls from optional fields only', () => {
+      const schema = z.object({ required: z.string(), optional: z.number().optional() });
+
+      expect(
+        validateResponse('/test', schema, { required: 'x', optional: null }, 'lenient')
+      ).toEqual({ required: 'x' });
+      expect(() =>
+        validateResponse('/test', schema, { required: null, optional: 1 }, 'lenient')
+      ).toThrow('Invalid /test response: required:');
+    });
+
+    it('should unwrap array envelopes and map renamed fields', () => {
+      const { pool, block_value_btc, ...rest } = BLOCK;
+      const data = { results: [{ ...rest, pool_name: pool, reward: block_value_btc }] };
+
+      expect(validateResponse('/v1.0/blocks', z.array(BlockDataSchema), data, 'lenient')).toEqual([
+        BLOCK,
+      ]);
+      // The caller's data is left untouched
+      expect(data.results[0]).not.toHaveProperty('pool');
+    });
+
+    it('should still reject values without a known coercion', () => {
+      const error = catchError(() =>
+        validateResponse('/v1.0/blocks', BlockDataSchema, { ...BLOCK, height: 'n/a' }, 'lenient')
+      );
+
+      expect(error.issues).toEqual([{ path: 'height', message: expect.any(String) }]);
+    });
+  });
+});
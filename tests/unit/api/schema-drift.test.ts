@@ -0,0 +1,205 @@
+/**
+ * Unit tests for schema drift detection
+ *
+ * Tests cover: added, removed and retyped fields (including nested and array
+ * fields), nullable and union schemas, first/last seen tracking, resolution
+ * per-endpoint limits and persistence across restarts.
+ */
+
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { SchemaDrift, SchemaDriftMonitor } from '../../../src/api/schema-drift.js';
+
+const PRICE = { price: 96500, percent_change_24h: 1.2, timestamp: '2025-12-15T10:30:00Z' };
+
+const POOLS = {
+  pools: [
+    {
+      name: 'Foundry USA',
+      hashrate_percent: 30,
+      hashrate_effective: 300,
+      blocks_mined: { '1w': { absolute: 300, relative: 0.3 } },
+    },
+  ],
+};
+
+const driftsOf = (monitor: SchemaDriftMonitor, endpoint: string): SchemaDrift[] =>
+  monitor.getReport().find((status) => status.endpoint === endpoint)?.drifts ?? [];
+
+describe('SchemaDriftMonitor', () => {
+  it('should report nothing for a conforming response', () => {
+    const monitor = new SchemaDriftMonitor();
+
+    expect(monitor.observe('/v1.0/price-stats', PRICE, 1_000)).toEqual([]);
+    expect(monitor.getReport().find((s) => s.endpoint === '/v1.0/price-stats')).toEqual({
+      endpoint: '/v1.0/price-stats',
+      checks: 1,
+      lastCheckedAt: 1_000,
+      drifts: [],
+    });
+  });
+
+  it('should report added, removed and retyped fields', () => {
+    const monitor = new SchemaDriftMonitor();
+    const { percent_change_24h: _removed, ...rest } = PRICE;
+
+    const drifts = monitor.observe(
+      '/v1.0/price-stats',
+      { ...rest, price: '96500', volume_24h: 123 },
+      1_000
+    );
+
+    expect(drifts).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          path: 'price',
+          change: 'type-changed',
+          expected: 'number',
+          observed: 'string',
+        }),
+        expect.objectContaining({ path: 'volume_24h', change: 'added', observed: 'number' }),
+        expect.objectContaining({
+          path: 'percent_change_24h',
+          change: 'removed',
+          expected: 'number',
+        }),
+      ])
+    );
+    expect(drifts).toHaveLength(3);
+  });
+
+  it('should report nested array fields once, at the outermost change', () => {
+    const monitor = new SchemaDriftMonitor();
+    const pool = POOLS.pools[0];
+
+    const drifts = monitor.observe('/v1.0/pool-stats', {
+      pools: [{ ...pool, luck: { '1w': 1.02 }, blocks_mined: [] }],
+    });
+
+    expect(drifts.map(({ path, change }) => ({ path, change }))).toEqual([
+      { path: 'pools[].blocks_mined', change: 'type-changed' },
+      { path: 'pools[].luck', change: 'added' },
+    ]);
+  });
+
+  it('should accept nulls in nullable fields and skip fields under empty arrays', () => {
+    const monitor = new SchemaDriftMonitor();
+
+    expect(monitor.observe('/v1.0/pool-stats', { pools: [] })).toEqual([]);
+    expect(
+      monitor.observe('/v1.0/rss-feed-data', {
+        items: [{ title: 'A', link: 'https://a', description: null, categories: ['Mining'] }],
+      })
+    ).toEqual([]);
+  });
+
+  it('should compare feed items against the item schema', () => {
+    const monitor = new SchemaDriftMonitor();
+
+    const drifts = monitor.observe('/v1.0/rss-feed-data', [
+      { title: 'A', link: 'https://a', thumbnail: 'https://a.png' },
+    ]);
+
+    expect(drifts).toEqual([
+      expect.objectContaining({ path: '[].thumbnail', change: 'added', observed: 'string' }),
+    ]);
+  });
+
+  it('should keep the first-seen time and mark drifts resolved', () => {
+    const monitor = new SchemaDriftMonitor();
+
+    monitor.observe('/v1.0/price-stats', { ...PRICE, volume_24h: 1 }, 1_000);
+    monitor.observe('/v1.0/price-stats', { ...PRICE, volume_24h: 2 }, 2_000);
+
+    expect(driftsOf(monitor, '/v1.0/price-stats')).toEqual([
+      expect.objectContaining({
+        path: 'volume_24h',
+        firstSeenAt: 1_000,
+        lastSeenAt: 2_000,
+        occurrences: 2,
+        active: true,
+      }),
+    ]);
+
+    monitor.observe('/v1.0/price-stats', PRICE, 3_000);
+
+    expect(driftsOf(monitor, '/v1.0/price-stats')).toEqual([
+      expect.objectContaining({ path: 'volume_24h', lastSeenAt: 2_000, active: false }),
+    ]);
+  });
+
+  it('should list every endpoint and evict the least recently seen drifts', () => {
+    const monitor = new SchemaDriftMonitor({ maxDriftsPerEndpoint: 2 });
+
+    monitor.observe('/v1.0/price-stats', { ...PRICE, a: 1 }, 1_000);
+    monitor.observe('/v1.0/price-stats', { ...PRICE, b: 1, c: 1 }, 2_000);
+
+    const report = monitor.getReport();
+    expect(report.find((s) => s.endpoint === '/v1.0/blocks')).toEqual({
+      endpoint: '/v1.0/blocks',
+      checks: 0,
+      lastCheckedAt: undefined,
+      drifts: [],
+    });
+    expect(driftsOf(monitor, '/v1.0/price-stats').map((drift) => drift.path)).toEqual(['c', 'b']);
+  });
+});
+
+describe('SchemaDriftMonitor persistence', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'insights-drift-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should keep drift records and first-seen times across restarts', async () => {
+    const file = join(dir, 'nested', 'schema-drift.json');
+    const monitor = new SchemaDriftMonitor({ file });
+    monitor.observe('/v1.0/price-stats', { ...PRICE, volume_24h: 1 }, 1_000);
+    await monitor.save();
+
+    const restarted = new SchemaDriftMonitor({ file });
+    restarted.observe('/v1.0/price-stats', { ...PRICE, volume_24h: 2 }, 5_000);
+
+    expect(restarted.getHistoryInfo()).toEqual({
+      persistent: true,
+      since: monitor.getHistoryInfo().since,
+    });
+    expect(restarted.getReport().find((s) => s.endpoint === '/v1.0/price-stats')).toMatchObject({
+      checks: 2,
+      lastCheckedAt: 5_000,
+    });
+    expect(driftsOf(restarted, '/v1.0/price-stats')).toEqual([
+      expect.objectContaining({ path: 'volume_24h', firstSeenAt: 1_000, occurrences: 2 }),
+    ]);
+    await restarted.save();
+    expect(readdirSync(join(dir, 'nested'))).toEqual(['schema-drift.json']);
+  });
+
+  it('should start a new history when the file is unreadable', () => {
+    const file = join(dir, 'schema-drift.json');
+    writeFileSync(file, '{ not json');
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const monitor = new SchemaDriftMonitor({ file });
+
+    expect(monitor.getReport().every((status) => status.checks === 0)).toBe(true);
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+
+  it('should keep records in memory without a file', async () => {
+    const monitor = new SchemaDriftMonitor();
+    monitor.observe('/v1.0/price-stats', { ...PRICE, volume_24h: 1 }, 1_000);
+    await monitor.save();
+
+    expect(monitor.getHistoryInfo().persistent).toBe(false);
+    expect(readdirSync(dir)).toEqual([]);
+  });
+});
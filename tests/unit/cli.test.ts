@@ -0,0 +1,67 @@
+/**
+ * Unit tests for command-line option parsing
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { parseCliArgs, splitList } from '../../src/cli.js';
+
+describe('parseCliArgs', () => {
+  it('should leave unset flags undefined', () => {
+    const { configPath, overrides } = parseCliArgs([]);
+
+    expect(configPath).toBeUndefined();
+    expect(overrides.server).toEqual({ transport: undefined, host: undefined, port: undefined });
+    expect(overrides.cache).toEqual({ enabled: undefined });
+  });
+
+  it('should parse transport, host and port', () => {
+    const { overrides } = parseCliArgs(['--transport', 'http', '--host', '0.0.0.0', '--port=8080']);
+
+    expect(overrides.server).toEqual({ transport: 'http', host: '0.0.0.0', port: '8080' });
+  });
+
+  it('should parse client and tool flags', () => {
+    const { configPath, overrides } = parseCliArgs([
+      '--config',
+      'insights.yaml',
+      '--base-url',
+      'http://mirror.local/api',
+      '--timeout',
+      '5000',
+      '--validation',
+      'lenient',
+      '--no-cache',
+      '--rate-limit',
+      '0',
+      '--disable-tools',
+      'braiins_rss_feed_data, braiins_halvings',
+      '--enable-categories',
+      'simple,composite',
+    ]);
+
+    expect(configPath).toBe('insights.yaml');
+    expect(overrides.api).toEqual({
+      baseUrl: 'http://mirror.local/api',
+      timeoutMs: '5000',
+      validation: 'lenient',
+    });
+    expect(overrides.cache).toEqual({ enabled: false });
+    expect(overrides.rateLimit?.requestsPerMinute).toBe('0');
+    expect(overrides.tools?.disabled).toEqual(['braiins_rss_feed_data', 'braiins_halvings']);
+    expect(overrides.tools?.enabledCategories).toEqual(['simple', 'composite']);
+  });
+
+  it('should reject unknown flags', () => {
+    expect(() => parseCliArgs(['--verbose'])).toThrow();
+  });
+});
+
+describe('splitList', () => {
+  it('should split, trim and drop empty items', () => {
+    expect(splitList(' a, b ,,c ')).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should return undefined for missing values', () => {
+    expect(splitList(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,355 @@
+/**
+ * Unit tests for server configuration loading
+ *
+ * Tests cover: defaults, config files (JSON/YAML), environment variables,
+ * command-line precedence, validation errors and client option mapping.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MemoryCacheBackend } from '../../src/api/cache-backend.js';
+import { FileCacheBackend } from '../../src/api/file-cache-backend.js';
+import { ConfigError, createSnapshotStore, loadConfig, toClientConfig } from '../../src/config.js';
+import { FileSnapshotStore } from '../../src/snapshots/snapshot-store.js';
+
+describe('loadConfig', () => {
+  let dir: string;
+
+  const writeConfig = (name: string, content: string): string => {
+    const path = join(dir, name);
+    writeFileSync(path, content);
+    return path;
+  };
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'insights-config-'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('defaults', () => {
+    it('should apply defaults when nothing is configured', () => {
+      const config = loadConfig({ argv: [], env: {} });
+
+      expect(config.server).toEqual({
+        transport: 'stdio',
+        host: '127.0.0.1',
+        port: 3000,
+        sessionIdleTimeoutMs: 1_800_000,
+      });
+      expect(config.cache).toEqual({ enabled: true, backend: 'memory', ttlMs: {} });
+      expect(config.rateLimit).toEqual({});
+      expect(config.snapshots).toEqual({ enabled: false });
+      expect(config.tools).toEqual({ disabled: [], disabledCategories: [] });
+      expect(config.api.baseUrl).toBeUndefined();
+    });
+  });
+
+  describe('environment variables', () => {
+    it('should read INSIGHTS_* variables', () => {
+      const config = loadConfig({
+        argv: [],
+        env: {
+          INSIGHTS_API_BASE_URL: 'http://mirror.local/api',
+          INSIGHTS_CACHE_ENABLED: 'false',
+          INSIGHTS_RATE_LIMIT: '0',
+          INSIGHTS_TIMEOUT_MS: '2500',
+          INSIGHTS_API_VALIDATION: 'lenient',
+          INSIGHTS_DISABLED_TOOLS: 'braiins_rss_feed_data',
+        },
+      });
+
+      expect(config.api.baseUrl).toBe('http://mirror.local/api');
+      expect(config.api.timeoutMs).toBe(2500);
+      expect(config.api.validation).toBe('lenient');
+      expect(config.cache.enabled).toBe(false);
+      expect(config.rateLimit.requestsPerMinute).toBe(0);
+      expect(config.tools.disabled).toEqual(['braiins_rss_feed_data']);
+    });
+
+    it('should ignore empty variables', () => {
+      const config = loadConfig({ argv: [], env: { INSIGHTS_API_BASE_URL: '' } });
+
+      expect(config.api.baseUrl).toBeUndefined();
+    });
+  });
+
+  describe('config files', () => {
+    it('should load a YAML config file', () => {
+      const path = writeConfig(
+        'config.yaml',
+        [
+          'api:',
+          '  baseUrl: http://staging.local/api',
+          'cache:',
+          '  ttlMs:',
+          '    /v1.0/blocks: 10000',
+          'rateLimit:',
+          '  requestsPerMinute: 120',
+          '  burstLimit: 10',
+          'retry:',
+          '  maxRetries: 3',
+          '  baseDelayMs: 100',
+          'circuitBreaker:',
+          '  failureThreshold: 0',
+          'tools:',
+          '  enabled: [braiins_blocks, braiins_price_stats]',
+        ].join('\n')
+      );
+
+      const config = loadConfig({ argv: ['--config', path], env: {} });
+
+      expect(config.api.baseUrl).toBe('http://staging.local/api');
+      expect(config.cache.ttlMs).toEqual({ '/v1.0/blocks': 10000 });
+      expect(config.rateLimit).toEqual({ requestsPerMinute: 120, burstLimit: 10 });
+      expect(config.retry).toEqual({ maxRetries: 3, baseDelayMs: 100 });
+      expect(config.circuitBreaker).toEqual({ failureThreshold: 0 });
+      expect(config.tools.enabled).toEqual(['braiins_blocks', 'braiins_price_stats']);
+    });
+
+    it('should load a JSON config file from INSIGHTS_CONFIG', () => {
+      const path = writeConfig(
+        'config.json',
+        JSON.stringify({ server: { transport: 'http', port: 8080 } })
+      );
+
+      const config = loadConfig({ argv: [], env: { INSIGHTS_CONFIG: path } });
+
+      expect(config.server).toEqual({
+        transport: 'http',
+        host: '127.0.0.1',
+        port: 8080,
+        sessionIdleTimeoutMs: 1_800_000,
+      });
+    });
+
+    it('should let environment variables override the file and flags override both', () => {
+      const path = writeConfig(
+        'precedence.json',
+        JSON.stringify({ api: { baseUrl: 'http://file.local/api', timeoutMs: 1000 } })
+      );
+
+      const config = loadConfig({
+        argv: ['--config', path, '--base-url', 'http://cli.local/api'],
+        env: { INSIGHTS_API_BASE_URL: 'http://env.local/api', INSIGHTS_TIMEOUT_MS: '2000' },
+      });
+
+      expect(config.api.baseUrl).toBe('http://cli.local/api');
+      expect(config.api.timeoutMs).toBe(2000);
+    });
+
+    it('should reject unsupported file extensions', () => {
+      const path = writeConfig('config.toml', 'api = {}');
+
+      expect(() => loadConfig({ argv: ['--config', path], env: {} })).toThrow(
+        'unsupported extension'
+      );
+    });
+
+    it('should reject missing files', () => {
+      expect(() => loadConfig({ argv: ['--config', join(dir, 'missing.json')], env: {} })).toThrow(
+        ConfigError
+      );
+    });
+
+    it('should reject files that are not objects', () => {
+      const path = writeConfig('list.yaml', '- a\n- b');
+
+      expect(() => loadConfig({ argv: ['--config', path], env: {} })).toThrow(
+        'must contain an object'
+      );
+    });
+  });
+
+  describe('validation', () => {
+    it('should report every invalid setting with its path', () => {
+      let error: unknown;
+      try {
+        loadConfig({
+          argv: ['--port', '70000', '--transport', 'websocket'],
+          env: { INSIGHTS_API_BASE_URL: 'not a url', INSIGHTS_CACHE_ENABLED: 'maybe' },
+        });
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(ConfigError);
+      const issues = (error as ConfigError).issues.join('\n');
+      expect(issues).toContain('server.port');
+      expect(issues).toContain('server.transport');
+      expect(issues).toContain('api.baseUrl');
+      expect(issues).toContain('cache.enabled');
+    });
+
+    it('should reject unknown rate limit modes', () => {
+      expect(() => loadConfig({ argv: ['--rate-limit-mode', 'drop'], env: {} })).toThrow(
+        'rateLimit.mode'
+      );
+    });
+
+    it('should reject unknown validation modes', () => {
+      expect(() => loadConfig({ argv: ['--validation', 'off'], env: {} })).toThrow(
+        'api.validation'
+      );
+    });
+
+    it('should reject unknown keys in config files', () => {
+      const path = writeConfig('typo.json', JSON.stringify({ api: { baseURL: 'http://x' } }));
+
+      expect(() => loadConfig({ argv: ['--config', path], env: {} })).toThrow('api');
+    });
+
+    it('should reject TTL overrides for unknown endpoints', () => {
+      const path = writeConfig(
+        'ttl.json',
+        JSON.stringify({ cache: { ttlMs: { '/v1.0/unknown': 1000 } } })
+      );
+
+      expect(() => loadConfig({ argv: ['--config', path], env: {} })).toThrow(ConfigError);
+    });
+
+    it('should wrap command-line parse errors', () => {
+      expect(() => loadConfig({ argv: ['--verbose'], env: {} })).toThrow(ConfigError);
+    });
+  });
+});
+
+describe('toClientConfig', () => {
+  it('should map configuration to client options', () => {
+    const config = loadConfig({
+      argv: [
+        '--base-url',
+        'http://mirror.local/api',
+        '--no-cache',
+        '--burst-limit',
+        '2',
+        '--rate-limit-mode',
+        'fail-fast',
+      ],
+      env: {
+        INSIGHTS_RATE_LIMIT: '60',
+        INSIGHTS_MAX_QUEUE_WAIT_MS: '5000',
+        INSIGHTS_MAX_RETRIES: '4',
+        INSIGHTS_STALE_IF_ERROR_MS: '3600000',
+      },
+    });
+
+    expect(toClientConfig(config)).toEqual({
+      baseUrl: 'http://mirror.local/api',
+      timeout: undefined,
+      headers: undefined,
+      validationMode: 'strict',
+      schemaDriftFile: expect.stringMatching(/braiins-insights-mcp[\\/]schema-drift\.json$/),
+      cacheEnabled: false,
+      cacheBackend: expect.any(MemoryCacheBackend),
+      cacheTtl: {},
+      staleWhileRevalidateMs: undefined,
+      staleIfErrorMs: 3600000,
+      maxRequestsPerMinute: 60,
+      burstLimit: 2,
+      rateLimitMode: 'fail-fast',
+      maxQueueWaitMs: 5000,
+      maxRetries: 4,
+      retryBaseDelayMs: undefined,
+      retryMaxDelayMs: undefined,
+      circuitBreakerThreshold: undefined,
+      circuitBreakerResetMs: undefined,
+    });
+  });
+
+  it('should create a file cache backend when configured', () => {
+    const config = loadConfig({
+      argv: ['--cache-backend', 'file', '--cache-dir', join(tmpdir(), 'insights-cache-test')],
+      env: {},
+    });
+
+    expect(config.cache).toMatchObject({
+      backend: 'file',
+      directory: join(tmpdir(), 'insights-cache-test'),
+    });
+    expect(toClientConfig(config).cacheBackend).toBeInstanceOf(FileCacheBackend);
+  });
+});
+
+describe('tool categories', () => {
+  it('should read enabled and disabled categories from flags and environment', () => {
+    const config = loadConfig({
+      argv: ['--enable-categories', 'simple,composite'],
+      env: { INSIGHTS_DISABLED_CATEGORIES: 'historical' },
+    });
+
+    expect(config.tools).toEqual({
+      disabled: [],
+      enabledCategories: ['simple', 'composite'],
+      disabledCategories: ['historical'],
+    });
+  });
+
+  it('should reject unknown categories', () => {
+    expect(() => loadConfig({ argv: ['--enable-categories', 'simple,advanced'], env: {} })).toThrow(
+      /tools\.enabledCategories\.1/
+    );
+  });
+});
+
+describe('createSnapshotStore', () => {
+  it('should create a file store in the configured directory', () => {
+    const config = loadConfig({
+      argv: ['--snapshots', '--snapshot-dir', join(tmpdir(), 'insights-snapshots-test')],
+      env: { INSIGHTS_SNAPSHOT_INTERVAL_MS: '60000', INSIGHTS_SNAPSHOT_SOURCES: 'hashrate,price' },
+    });
+
+    expect(config.snapshots).toEqual({
+      enabled: true,
+      directory: join(tmpdir(), 'insights-snapshots-test'),
+      intervalMs: 60000,
+      sources: ['hashrate', 'price'],
+    });
+    expect(createSnapshotStore(config)).toBeInstanceOf(FileSnapshotStore);
+  });
+
+  it('should not record snapshots by default but still read recorded history', () => {
+    const config = loadConfig({ argv: [], env: {} });
+
+    expect(config.snapshots.enabled).toBe(false);
+    expect(createSnapshotStore(config)).toBeInstanceOf(FileSnapshotStore);
+  });
+
+  it('should enable snapshots from the environment', () => {
+    const config = loadConfig({ argv: [], env: { INSIGHTS_SNAPSHOTS_ENABLED: 'true' } });
+
+    expect(config.snapshots.enabled).toBe(true);
+  });
+
+  it('should read recorded history when snapshots are disabled', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'insights-snapshots-'));
+    try {
+      const snapshot = {
+        source: 'price' as const,
+        timestamp: Date.now(),
+        metrics: { 'price.price_usd': 1 },
+      };
+      await new FileSnapshotStore({ directory }).append(snapshot);
+
+      const config = loadConfig({ argv: ['--no-snapshots', '--snapshot-dir', directory], env: {} });
+
+      expect(config.snapshots.enabled).toBe(false);
+      await expect(createSnapshotStore(config).query()).resolves.toEqual([snapshot]);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should reject unknown sources and too short intervals', () => {
+    expect(() =>
+      loadConfig({
+        argv: ['--snapshot-interval', '1000'],
+        env: { INSIGHTS_SNAPSHOT_SOURCES: 'hashrate,weather' },
+      })
+    ).toThrow(ConfigError);
+  });
+});
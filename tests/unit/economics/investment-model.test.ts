@@ -0,0 +1,158 @@
+/**
+ * Unit tests for the mining investment model
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  InvestmentParams,
+  PeriodProjection,
+  amortizeLoan,
+  evaluateInvestment,
+  projectCostToMine,
+} from '../../../src/economics/investment-model.js';
+import { calculateCostToMine } from '../../../src/economics/mining-engine.js';
+
+// Twelve 30-day periods mining 0.01 BTC at $100,000 for $400 of electricity and $100 of opex
+const PERIODS: PeriodProjection[] = Array.from({ length: 12 }, () => ({
+  btcPrice: 100_000,
+  btcMined: 0.01,
+  electricityCost: 400,
+  opex: 100,
+}));
+
+const NO_FINANCING: InvestmentParams = {
+  capex: 0,
+  loanAmount: 0,
+  loanInterestRate: 0,
+  loanPaybackPeriods: 0,
+  discountRate: 0,
+  hodlRate: 0,
+  incomeTaxRate: 0,
+  hardwareValue: 0,
+  yearlyHardwareValueChange: 0,
+};
+
+describe('amortizeLoan', () => {
+  it('should repay the loan in equal instalments', () => {
+    const schedule = amortizeLoan(10_000, 0.01, 12);
+    const payment = (10_000 * 0.01) / (1 - 1.01 ** -12);
+
+    expect(schedule).toHaveLength(12);
+    schedule.forEach((row) => expect(row.payment).toBeCloseTo(payment, 6));
+    expect(schedule[0]).toMatchObject({ openingBalance: 10_000, interest: 100 });
+    expect(schedule[11]?.closingBalance).toBe(0);
+    expect(schedule.reduce((sum, row) => sum + row.principal, 0)).toBeCloseTo(10_000, 6);
+  });
+
+  it('should split an interest-free loan evenly', () => {
+    const schedule = amortizeLoan(1200, 0, 4);
+
+    expect(schedule.map((row) => row.payment)).toEqual([300, 300, 300, 300]);
+    expect(amortizeLoan(0, 0.1, 4)).toEqual([]);
+  });
+});
+
+describe('evaluateInvestment', () => {
+  it('should pay back capex from operating cash flows', () => {
+    const result = evaluateInvestment(PERIODS, 30, { ...NO_FINANCING, capex: 1250 });
+
+    expect(result.initialCashFlow).toBe(-1250);
+    expect(result.cashFlows[0]?.cashFlow).toBe(500);
+    expect(result.totals.cashFlow).toBe(6000);
+    expect(result.paybackPeriods).toBeCloseTo(2.5);
+    expect(result.npv).toBeCloseTo(4750);
+    // IRR solves -1250 + 500 × annuity(12, r) = 0
+    const monthly = (1 + (result.irr ?? 0)) ** (30 / 365) - 1;
+    const annuity = (1 - (1 + monthly) ** -12) / monthly;
+    expect(500 * annuity).toBeCloseTo(1250, 4);
+  });
+
+  it('should discount cash flows', () => {
+    const result = evaluateInvestment(PERIODS, 365, { ...NO_FINANCING, discountRate: 0.1 });
+
+    expect(result.cashFlows[1]?.discountedCashFlow).toBeCloseTo(500 / 1.1 ** 2, 8);
+    expect(result.irr).toBeNull();
+  });
+
+  it('should finance capex with a loan', () => {
+    const result = evaluateInvestment(PERIODS, 365 / 12, {
+      ...NO_FINANCING,
+      capex: 5000,
+      loanAmount: 4000,
+      loanInterestRate: 0.12,
+      loanPaybackPeriods: 24,
+    });
+
+    expect(result.initialCashFlow).toBe(-1000);
+    expect(result.loanSchedule).toHaveLength(24);
+    expect(result.cashFlows[0]?.interest).toBeCloseTo(40);
+    expect(result.cashFlows[0]?.cashFlow).toBeCloseTo(500 - (result.loanSchedule[0]?.payment ?? 0));
+    // Half the loan is still outstanding at the horizon and repaid from the terminal value
+    expect(result.terminal.loanBalance).toBeCloseTo(result.loanSchedule[11]?.closingBalance ?? 0);
+    expect(result.terminal.value).toBeCloseTo(-result.terminal.loanBalance);
+  });
+
+  it('should tax income after costs, interest and depreciation', () => {
+    const result = evaluateInvestment(PERIODS, 365 / 12, {
+      ...NO_FINANCING,
+      capex: 6000,
+      hardwareValue: 6000,
+      yearlyHardwareValueChange: -0.5,
+      incomeTaxRate: 0.2,
+    });
+    const first = result.cashFlows[0];
+    const depreciation = 6000 * (1 - 0.5 ** (1 / 12));
+
+    expect(first?.depreciation).toBeCloseTo(depreciation, 6);
+    expect(first?.tax).toBeCloseTo((500 - depreciation) * 0.2, 6);
+    expect(first?.cashFlow).toBeCloseTo(500 - (500 - depreciation) * 0.2, 6);
+    expect(result.terminal.hardwareValue).toBeCloseTo(3000, 6);
+  });
+
+  it('should not tax losses', () => {
+    const losing = PERIODS.map((period) => ({ ...period, btcMined: 0.001 }));
+    const result = evaluateInvestment(losing, 30, { ...NO_FINANCING, incomeTaxRate: 0.3 });
+
+    expect(result.totals.tax).toBe(0);
+    expect(result.cashFlows[0]?.cashFlow).toBe(-400);
+  });
+
+  it('should keep the HODL share of mined BTC until the end', () => {
+    const result = evaluateInvestment(PERIODS, 30, { ...NO_FINANCING, hodlRate: 0.5 });
+
+    expect(result.cashFlows[0]?.soldRevenue).toBe(500);
+    expect(result.cashFlows[0]?.cashFlow).toBe(0);
+    expect(result.terminal.btcHeld).toBeCloseTo(0.06);
+    expect(result.terminal.btcValue).toBeCloseTo(6000);
+    expect(result.npv).toBeCloseTo(6000);
+  });
+});
+
+describe('projectCostToMine', () => {
+  it('should recover BTC mined and costs per period', () => {
+    const data = calculateCostToMine(
+      {
+        hashrate_ths: 100,
+        consumption_watts: 3000,
+        electricity_price_per_kwh: 0.08,
+        monthly_fixed_opex: 30,
+        period_resolution: '1w',
+        periods: 4,
+      },
+      {
+        price: 100_000,
+        difficulty: 100e12,
+        blockHeight: 900_000,
+        feesPerBlock: 0,
+        timestamp: '2025-12-16T00:00:00Z',
+      }
+    );
+    const periods = projectCostToMine(data);
+
+    expect(periods).toHaveLength(4);
+    expect(periods[0]?.btcMined).toBeCloseTo(data.result.coin_mined_daily * 7, 12);
+    expect(periods[0]?.electricityCost).toBeCloseTo(72 * 0.08 * 7, 8);
+    expect(periods[0]?.opex).toBeCloseTo(((30 * 12) / 365) * 7, 8);
+    expect(periods[3]?.btcMined).toBeLessThan(periods[0]?.btcMined ?? 0);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Unit tests for the local mining economics engine
+ *
+ * The cost-to-mine case reproduces a recorded API response: 100 TH/s on 3,000 W
+ * at $0.08/kWh, difficulty 148.2T, $85,877/BTC, fees 0.40% of miner revenue,
+ * 2% pool fee and +2%/year difficulty.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  NetworkInputs,
+  blockSubsidy,
+  calculateCostToMine,
+  calculateMiningEconomics,
+  calculateProfitability,
+  estimateBlockHeight,
+  expectedBtcPerThDay,
+  feesPerBlockFromShare,
+} from '../../../src/economics/mining-engine.js';
+
+const NETWORK: NetworkInputs = {
+  price: 85_877,
+  difficulty: 148195306640204.7,
+  blockHeight: 928_000,
+  feesPerBlock: feesPerBlockFromShare(3.125, 0.4037),
+  timestamp: '2025-12-17T19:00:00.000Z',
+};
+
+describe('block subsidy schedule', () => {
+  it('should halve the subsidy every 210,000 blocks', () => {
+    expect(blockSubsidy(0)).toBe(50);
+    expect(blockSubsidy(209_999)).toBe(50);
+    expect(blockSubsidy(210_000)).toBe(25);
+    expect(blockSubsidy(840_000)).toBe(3.125);
+    expect(blockSubsidy(1_050_000)).toBe(1.5625);
+    expect(blockSubsidy(210_000 * 33)).toBe(0);
+  });
+
+  it('should estimate the block height from the date', () => {
+    expect(estimateBlockHeight(new Date('2024-04-20T00:09:27Z'))).toBe(840_000);
+    expect(estimateBlockHeight(new Date('2024-04-21T00:09:27Z'))).toBe(840_144);
+  });
+});
+
+describe('expected output', () => {
+  it('should derive BTC per TH/s per day from the difficulty', () => {
+    // 1 TH/s finds 10^12 × 86,400 / (difficulty × 2^32) blocks per day
+    expect(expectedBtcPerThDay(1e12, 3.125)).toBeCloseTo((86_400 / 2 ** 32) * 3.125, 12);
+    expect(expectedBtcPerThDay(0, 3.125)).toBe(0);
+  });
+
+  it('should derive fees per block from their share of miner revenue', () => {
+    expect(feesPerBlockFromShare(3.125, 20)).toBeCloseTo(0.78125);
+    expect(feesPerBlockFromShare(3.125, 0)).toBe(0);
+  });
+
+  it('should apply pool fee, uptime and opex', () => {
+    const full = calculateMiningEconomics(
+      { hashrateThs: 100, powerWatts: 3000, electricityPriceKwh: 0.05 },
+      NETWORK
+    );
+    const partial = calculateMiningEconomics(
+      {
+        hashrateThs: 100,
+        powerWatts: 3000,
+        electricityPriceKwh: 0.05,
+        poolFeeRate: 0.02,
+        uptime: 0.9,
+        monthlyOpex: 30.4166,
+      },
+      NETWORK
+    );
+
+    expect(full.dailyEnergyKwh).toBeCloseTo(72);
+    expect(full.dailyCost).toBeCloseTo(3.6);
+    expect(partial.btcMinedDaily).toBeCloseTo(full.btcMinedDaily * 0.9 * 0.98, 12);
+    expect(partial.dailyElectricityCost).toBeCloseTo(3.6 * 0.9);
+    expect(partial.dailyCost).toBeCloseTo(3.6 * 0.9 + 1, 3);
+    expect(partial.dailyProfit).toBeCloseTo(partial.dailyRevenue - partial.dailyCost);
+    // Break-even electricity covers the revenue left after opex
+    expect(partial.breakEvenElectricityPrice).toBeCloseTo(
+      (partial.dailyRevenue - 1) / partial.dailyEnergyKwh,
+      3
+    );
+  });
+});
+
+describe('calculateProfitability', () => {
+  it('should reproduce the per-TH/s profitability metrics', () => {
+    const result = calculateProfitability(
+      { electricity_cost_kwh: 0.05, hardware_efficiency_jth: 20 },
+      NETWORK
+    );
+    const btcPerThDay = expectedBtcPerThDay(NETWORK.difficulty, 3.125 + NETWORK.feesPerBlock);
+
+    expect(result.daily_revenue_per_th).toBeCloseTo(btcPerThDay * 85_877, 8);
+    expect(result.daily_electricity_cost_per_th).toBeCloseTo(0.024);
+    expect(result.net_daily_profit_per_th).toBeCloseTo(result.daily_revenue_per_th - 0.024, 8);
+    expect(result.monthly_profit_per_th).toBeCloseTo(result.net_daily_profit_per_th * 30, 8);
+    expect(result.annual_profit_per_th).toBeCloseTo(result.net_daily_profit_per_th * 365, 8);
+    expect(result.breakeven_btc_price).toBeCloseTo(0.024 / btcPerThDay, 2);
+    expect(result.profitability_threshold_kwh).toBeCloseTo(result.daily_revenue_per_th / 0.48, 8);
+    expect(result.btc_price_usd).toBe(85_877);
+    expect(result.network_difficulty).toBe(NETWORK.difficulty);
+    expect(result.roi_days).toBeUndefined();
+    expect(result.timestamp).toBe(NETWORK.timestamp);
+  });
+});
+
+describe('calculateCostToMine', () => {
+  const PARAMS = { hashrate_ths: 100, consumption_watts: 3000, electricity_price_per_kwh: 0.08 };
+
+  it('should reproduce the API result from the same network inputs', () => {
+    const { payload, result } = calculateCostToMine(PARAMS, NETWORK);
+
+    expect(result.coin_mined_daily).toBeCloseTo(0.00004174, 8);
+    expect(result.fiat_cost / 137999.5).toBeCloseTo(1, 3);
+    expect(result.fiat_margin).toBeCloseTo(85_877 - result.fiat_cost, 6);
+    expect(result.fiat_profit_daily).toBeCloseTo(result.coin_mined_daily * 85_877 - 5.76, 6);
+    expect(result.hardware_efficiency_j_th).toBe(30);
+    expect(result.difficulty).toBe(NETWORK.difficulty);
+    expect(result.fiat_cost_line[1] / 17249.94).toBeCloseTo(1, 3);
+    expect(result.fiat_electricity_prices).toHaveLength(21);
+    expect(result.fiat_profit_area[1]).toBeCloseTo(85_877 - (result.fiat_cost_line[1] ?? 0), 6);
+    expect(payload).toMatchObject({
+      revenue_fees_rate: 0.02,
+      yearly_difficulty_change_rate: 0.02,
+      period_resolution: '1m',
+      periods: 24,
+      price: null,
+      difficulty: null,
+      timestamp: NETWORK.timestamp,
+    });
+  });
+
+  it('should project marginal and cumulative cost per period', () => {
+    const { result } = calculateCostToMine(PARAMS, NETWORK);
+
+    expect(result.price).toHaveLength(24);
+    expect(result.marginal_cost_to_mine_fiat[0]).toBeCloseTo(result.fiat_cost, 6);
+    // One month of +2%/year difficulty, as in the recorded response
+    expect((result.marginal_cost_to_mine_fiat[1] ?? 0) / 138227.413).toBeCloseTo(1, 3);
+    expect(result.total_cost_to_mine_fiat[0]).toBeCloseTo(result.fiat_cost, 6);
+    expect(result.total_cost_to_mine_fiat[1]).toBeGreaterThan(result.fiat_cost);
+    expect(result.total_cost_to_mine_fiat[1]).toBeLessThan(
+      result.marginal_cost_to_mine_fiat[1] ?? 0
+    );
+    expect(result.total_electricity_breakeven_fiat[0]).toBeCloseTo(
+      result.fiat_break_even_electricity_price,
+      8
+    );
+  });
+
+  it('should halve the subsidy and shift difficulty at the halving', () => {
+    const { payload, result } = calculateCostToMine(
+      {
+        ...PARAMS,
+        avg_tx_fees_coin: 0,
+        yearly_difficulty_change_rate: 0,
+        halving_difficulty_change: -0.1,
+        period_resolution: '1d',
+        periods: 3,
+      },
+      { ...NETWORK, blockHeight: 1_050_000 - 200 }
+    );
+
+    expect(payload.periods_to_halving).toBeCloseTo(200 / 144);
+    // Day 0: full subsidy; day 2: half the subsidy at 90% of the difficulty
+    expect((result.marginal_cost_to_mine_fiat[2] ?? 0) / result.fiat_cost).toBeCloseTo(2 * 0.9, 6);
+  });
+
+  it('should honor price, difficulty, block reward and yearly price change overrides', () => {
+    const { result } = calculateCostToMine(
+      {
+        ...PARAMS,
+        price: 100_000,
+        difficulty: 1e14,
+        block_reward: 3.125,
+        avg_tx_fees_coin: 0,
+        revenue_fees_rate: 0,
+        yearly_price_change_rate: 0.1,
+        period_resolution: '1w',
+        periods: 53,
+      },
+      NETWORK
+    );
+
+    expect(result.coin_mined_daily).toBeCloseTo(expectedBtcPerThDay(1e14, 3.125) * 100, 12);
+    expect(result.difficulty).toBe(1e14);
+    expect(result.price[0]).toBe(100_000);
+    expect((result.price[52] ?? 0) / 100_000).toBeCloseTo(1.1 ** ((52 * 7) / 365), 6);
+  });
+});
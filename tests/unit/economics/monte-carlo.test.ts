@@ -0,0 +1,136 @@
+/**
+ * Unit tests for the Monte Carlo mining returns simulation
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  MonteCarloParams,
+  estimateGrowthModel,
+  simulateMiningReturns,
+} from '../../../src/economics/monte-carlo.js';
+import { calculateMiningEconomics } from '../../../src/economics/mining-engine.js';
+
+// 1 PH/s on 20 kW at $0.05/kWh ($24/day), ~$63/day revenue at the start
+const BASE: MonteCarloParams = {
+  setup: { hashrateThs: 1000, powerWatts: 20_000, electricityPriceKwh: 0.05 },
+  network: {
+    price: 100_000,
+    difficulty: 100e12,
+    blockHeight: 900_000,
+    feesPerBlock: 0,
+    timestamp: '2025-12-16T00:00:00Z',
+  },
+  capex: 0,
+  horizonDays: 365,
+  simulations: 500,
+  price: { yearlyChange: 0, volatility: 0 },
+  difficulty: { yearlyChange: 0, volatility: 0 },
+  halvingInDays: null,
+  halvingDifficultyChange: 0,
+  checkpoints: [30, 365],
+  seed: 42,
+};
+
+const DAILY_PROFIT = calculateMiningEconomics(BASE.setup, BASE.network).dailyProfit;
+
+describe('simulateMiningReturns', () => {
+  it('should match the deterministic result without volatility', () => {
+    const result = simulateMiningReturns(BASE);
+
+    expect(result.bands.map((band) => band.day)).toEqual([30, 365]);
+    expect(result.bands[0]?.p5).toBeCloseTo(DAILY_PROFIT * 30, 6);
+    expect(result.bands[0]?.p95).toBeCloseTo(DAILY_PROFIT * 30, 6);
+    expect(result.final.mean).toBeCloseTo(DAILY_PROFIT * 365, 6);
+    expect(result.probabilityOfLoss).toBe(0);
+    expect(result.medianFinalPrice).toBeCloseTo(100_000, 6);
+  });
+
+  it('should recover capex before payback', () => {
+    const capex = DAILY_PROFIT * 100.5;
+    const result = simulateMiningReturns({ ...BASE, capex });
+
+    expect(result.final.p50).toBeCloseTo(DAILY_PROFIT * 365 - capex, 6);
+    expect(result.paybackDays.p50).toBe(101);
+    expect(result.probabilityOfPayback).toBe(1);
+
+    const never = simulateMiningReturns({ ...BASE, capex: DAILY_PROFIT * 400 });
+    expect(never.paybackDays.p5).toBeNull();
+    expect(never.probabilityOfPayback).toBe(0);
+    expect(never.probabilityOfLoss).toBe(1);
+  });
+
+  it('should halve the subsidy and shift difficulty at the halving', () => {
+    const result = simulateMiningReturns({
+      ...BASE,
+      horizonDays: 20,
+      checkpoints: [10, 20],
+      halvingInDays: 10.4,
+      halvingDifficultyChange: -0.2,
+    });
+    const revenue = DAILY_PROFIT + 24;
+
+    // Day 11 onwards earns half the reward at 80% of the difficulty
+    expect(result.final.p50).toBeCloseTo(
+      (revenue - 24) * 10 + (revenue * 0.5) / 0.8 - 24 + ((revenue * 0.5) / 0.8 - 24) * 9,
+      6
+    );
+    expect(result.medianFinalDifficulty).toBeCloseTo(80e12, 0);
+  });
+
+  it('should widen the bands with volatility and be reproducible by seed', () => {
+    const params = { ...BASE, price: { yearlyChange: 0, volatility: 0.8 } };
+    const result = simulateMiningReturns(params);
+
+    expect(result.final.p5).toBeLessThan(result.final.p25);
+    expect(result.final.p25).toBeLessThan(result.final.p50);
+    expect(result.final.p50).toBeLessThan(result.final.p75);
+    expect(result.final.p75).toBeLessThan(result.final.p95);
+    // The price is a martingale, so mean revenue stays near the deterministic case
+    expect(result.final.mean / (DAILY_PROFIT * 365)).toBeCloseTo(1, 0);
+    expect(simulateMiningReturns(params)).toEqual(result);
+    expect(simulateMiningReturns({ ...params, seed: 7 }).final.p50).not.toBe(result.final.p50);
+  });
+
+  it('should report a high probability of loss when costs exceed revenue', () => {
+    const result = simulateMiningReturns({
+      ...BASE,
+      setup: { ...BASE.setup, electricityPriceKwh: 0.15 },
+      price: { yearlyChange: 0, volatility: 0.5 },
+    });
+
+    expect(result.probabilityOfLoss).toBeGreaterThan(0.5);
+  });
+});
+
+describe('estimateGrowthModel', () => {
+  const DAY = 86_400_000;
+
+  it('should estimate the yearly change of a steady series', () => {
+    // +1% every 10 days
+    const series = Array.from({ length: 37 }, (_, index) => ({
+      time: index * 10 * DAY,
+      value: 100 * 1.01 ** index,
+    }));
+    const model = estimateGrowthModel(series);
+
+    expect(model?.volatility).toBeCloseTo(0, 8);
+    expect(model?.yearlyChange).toBeCloseTo(1.01 ** 36.5 - 1, 6);
+  });
+
+  it('should annualize the volatility of daily changes', () => {
+    const series = Array.from({ length: 366 }, (_, index) => ({
+      time: index * DAY,
+      value: index % 2 === 0 ? 100 : 110,
+    }));
+    const model = estimateGrowthModel(series);
+
+    expect(model?.volatility).toBeCloseTo(Math.log(1.1) * Math.sqrt(365), 2);
+  });
+
+  it('should need enough observations', () => {
+    const series = Array.from({ length: 5 }, (_, index) => ({ time: index * DAY, value: 100 }));
+
+    expect(estimateGrowthModel(series)).toBeNull();
+    expect(estimateGrowthModel(series, 4)).toEqual({ yearlyChange: 0, volatility: 0 });
+  });
+});
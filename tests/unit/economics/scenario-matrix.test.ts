@@ -0,0 +1,163 @@
+/**
+ * Unit tests for the cost-to-mine scenario matrix
+ *
+ * Baseline: 100 TH/s mining 5e-7 BTC/TH/day at $100,000 (a $0.05/TH/day
+ * hashprice, $5/day revenue) on 2,000 W (48 kWh/day).
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  applyScenario,
+  buildScenarioMatrix,
+  evaluateScenario,
+  solveBreakEven,
+  ScenarioBaseline,
+} from '../../../src/economics/scenario-matrix.js';
+import type { CostToMineQueryParams } from '../../../src/types/insights-api.js';
+
+const PARAMS: CostToMineQueryParams = {
+  hashrate_ths: 100,
+  consumption_watts: 2000,
+  electricity_price_per_kwh: 0.05,
+};
+
+const BASELINE: ScenarioBaseline = {
+  btcPerThDay: 5e-7,
+  price: 100_000,
+  difficulty: 100e12,
+  revenueFeesRate: 0,
+};
+
+describe('evaluateScenario', () => {
+  it('should evaluate the baseline', () => {
+    const economics = evaluateScenario(PARAMS, BASELINE);
+
+    expect(economics.dailyRevenue).toBeCloseTo(5);
+    expect(economics.dailyCost).toBeCloseTo(2.4);
+    expect(economics.dailyProfit).toBeCloseTo(2.6);
+    expect(economics.costToMine).toBeCloseTo(48_000);
+  });
+
+  it('should apply the pool fee and difficulty', () => {
+    const economics = evaluateScenario(
+      { ...PARAMS, revenue_fees_rate: 0.02, difficulty: 125e12 },
+      BASELINE
+    );
+
+    expect(economics.dailyRevenue).toBeCloseTo(5 * 0.98 * 0.8);
+  });
+
+  it('should include fixed opex in the daily cost', () => {
+    // $73/month is $2.40/day
+    const economics = evaluateScenario({ ...PARAMS, monthly_fixed_opex: 73 }, BASELINE);
+
+    expect(economics.dailyCost).toBeCloseTo(4.8);
+    expect(economics.dailyProfit).toBeCloseTo(0.2);
+    expect(economics.costToMine).toBeCloseTo(96_000);
+  });
+});
+
+describe('applyScenario', () => {
+  it('should map swept variables onto cost-to-mine params', () => {
+    expect(
+      applyScenario(PARAMS, BASELINE, {
+        hashprice: 0.04,
+        difficulty_change: 0.1,
+        electricity_price_per_kwh: 0.07,
+      })
+    ).toEqual({
+      ...PARAMS,
+      electricity_price_per_kwh: 0.07,
+      price: expect.closeTo(80_000, 6),
+      difficulty: expect.closeTo(110e12, 0),
+    });
+  });
+});
+
+describe('solveBreakEven', () => {
+  it('should solve each variable', () => {
+    expect(solveBreakEven(PARAMS, BASELINE, 'electricity_price_per_kwh')).toBeCloseTo(5 / 48);
+    expect(solveBreakEven(PARAMS, BASELINE, 'price')).toBeCloseTo(48_000);
+    expect(solveBreakEven(PARAMS, BASELINE, 'hashprice')).toBeCloseTo(0.024);
+    expect(solveBreakEven(PARAMS, BASELINE, 'difficulty_change')).toBeCloseTo(5 / 2.4 - 1);
+  });
+
+  it('should solve difficulty change relative to the baseline difficulty', () => {
+    const params = applyScenario(PARAMS, BASELINE, { difficulty_change: 0.5 });
+
+    expect(solveBreakEven(params, BASELINE, 'difficulty_change')).toBeCloseTo(5 / 2.4 - 1);
+  });
+
+  it('should return null when nothing breaks even', () => {
+    expect(
+      solveBreakEven({ ...PARAMS, electricity_price_per_kwh: 0 }, BASELINE, 'difficulty_change')
+    ).toBeNull();
+    expect(solveBreakEven(PARAMS, { ...BASELINE, btcPerThDay: 0 }, 'price')).toBeNull();
+  });
+
+  it('should make break-even cells profit zero', () => {
+    const price = solveBreakEven(PARAMS, BASELINE, 'price') ?? 0;
+
+    expect(evaluateScenario({ ...PARAMS, price }, BASELINE).dailyProfit).toBeCloseTo(0);
+  });
+
+  it('should solve break-even values net of fixed opex', () => {
+    const params = { ...PARAMS, monthly_fixed_opex: 73 };
+
+    expect(solveBreakEven(params, BASELINE, 'electricity_price_per_kwh')).toBeCloseTo(2.6 / 48);
+    expect(solveBreakEven(params, BASELINE, 'price')).toBeCloseTo(96_000);
+    expect(
+      solveBreakEven({ ...params, monthly_fixed_opex: 200 }, BASELINE, 'electricity_price_per_kwh')
+    ).toBeNull();
+  });
+});
+
+describe('buildScenarioMatrix', () => {
+  it('should evaluate every combination row by row', () => {
+    const matrix = buildScenarioMatrix(
+      PARAMS,
+      BASELINE,
+      { variable: 'price', values: [50_000, 100_000] },
+      { variable: 'electricity_price_per_kwh', values: [0.05, 0.1, 0.2] }
+    );
+
+    expect(matrix.rows).toHaveLength(3);
+    expect(matrix.rows.map((row) => row.map((cell) => [cell.x, cell.y]))).toEqual([
+      [
+        [50_000, 0.05],
+        [100_000, 0.05],
+      ],
+      [
+        [50_000, 0.1],
+        [100_000, 0.1],
+      ],
+      [
+        [50_000, 0.2],
+        [100_000, 0.2],
+      ],
+    ]);
+    expect(matrix.rows[1]?.[0]?.params).toEqual({
+      ...PARAMS,
+      price: 50_000,
+      electricity_price_per_kwh: 0.1,
+    });
+    expect(matrix.rows[1]?.[0]?.dailyProfit).toBeCloseTo(2.5 - 4.8);
+    expect(matrix.rows[0]?.[1]?.dailyProfit).toBeCloseTo(2.6);
+  });
+
+  it('should return the break-even contour for each row', () => {
+    const matrix = buildScenarioMatrix(
+      PARAMS,
+      BASELINE,
+      { variable: 'hashprice', values: [0.03, 0.05] },
+      { variable: 'difficulty_change', values: [0, 0.25] }
+    );
+
+    expect(matrix.breakEven).toEqual([
+      { y: 0, x: expect.closeTo(0.024, 6) },
+      { y: 0.25, x: expect.closeTo(0.03, 6) },
+    ]);
+    // The contour passes through the cell at hashprice 0.03, +25% difficulty
+    expect(matrix.rows[1]?.[0]?.dailyProfit).toBeCloseTo(0);
+  });
+});
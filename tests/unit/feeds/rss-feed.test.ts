@@ -0,0 +1,253 @@
+/**
+ * Unit tests for the RSS feed subsystem
+ *
+ * Tests cover: response validation and normalization, filtering, full-text
+ * search, pagination, the item archive and per-session check tracking.
+ */
+
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { ValidationError } from '../../../src/api/insights-client.js';
+import type { InsightsApiClient } from '../../../src/api/insights-client.js';
+import {
+  filterFeedItems,
+  paginate,
+  searchFeedItems,
+  stripHtml,
+} from '../../../src/feeds/feed-query.js';
+import { FeedItem, parseFeedResponse, sortByPublished } from '../../../src/feeds/feed-schema.js';
+import { RSSFeed } from '../../../src/feeds/rss-feed.js';
+
+const item = (overrides: Partial<FeedItem> & { link: string }): FeedItem => ({
+  title: 'Untitled',
+  published: '2025-12-01T00:00:00Z',
+  publishedAt: Date.parse('2025-12-01T00:00:00Z'),
+  description: undefined,
+  author: undefined,
+  categories: [],
+  ...overrides,
+});
+
+const ITEMS: FeedItem[] = [
+  item({
+    link: 'https://braiins.com/blog/hashrate-report',
+    title: 'Quarterly Hashrate Report',
+    description: '<p>Network <b>hashrate</b> grew 12% this quarter.</p>',
+    categories: ['Research', 'Mining'],
+    published: '2025-12-12T00:00:00Z',
+    publishedAt: Date.parse('2025-12-12T00:00:00Z'),
+  }),
+  item({
+    link: 'https://braiins.com/blog/firmware-release',
+    title: 'Braiins OS 25.12 Released',
+    description: 'Autotuning improvements lower hashrate variance.',
+    categories: ['Firmware'],
+    author: 'Braiins Team',
+    published: '2025-12-08T00:00:00Z',
+    publishedAt: Date.parse('2025-12-08T00:00:00Z'),
+  }),
+  item({
+    link: 'https://braiins.com/blog/undated',
+    title: 'Undated Post About Mining',
+    published: 'sometime',
+    publishedAt: undefined,
+  }),
+];
+
+describe('parseFeedResponse', () => {
+  it('should accept a bare array of items', () => {
+    const feed = parseFeedResponse([
+      { title: 'A', link: 'https://a', date: '2025-12-01T00:00:00Z', description: 'x' },
+    ]);
+
+    expect(feed.items).toEqual([
+      {
+        title: 'A',
+        link: 'https://a',
+        published: '2025-12-01T00:00:00Z',
+        publishedAt: Date.parse('2025-12-01T00:00:00Z'),
+        description: 'x',
+        author: undefined,
+        categories: [],
+      },
+    ]);
+    expect(feed.skipped).toBe(0);
+  });
+
+  it('should accept an items envelope with RSS-style field names', () => {
+    const feed = parseFeedResponse({
+      items: [
+        {
+          title: 'B',
+          link: 'https://b',
+          pubDate: 'Mon, 01 Dec 2025 10:00:00 GMT',
+          creator: 'Research',
+          categories: 'Mining',
+        },
+      ],
+    });
+
+    expect(feed.items[0]).toMatchObject({
+      publishedAt: Date.parse('2025-12-01T10:00:00Z'),
+      author: 'Research',
+      categories: ['Mining'],
+    });
+  });
+
+  it('should skip malformed items', () => {
+    const feed = parseFeedResponse([{ title: 'ok', link: 'https://ok' }, { title: 'no link' }, 42]);
+
+    expect(feed.items.map((i) => i.title)).toEqual(['ok']);
+    expect(feed.skipped).toBe(2);
+  });
+
+  it.each([null, 'feed', { unexpected: 'format' }, { items: 'nope' }])(
+    'should reject response %p',
+    (data) => {
+      expect(() => parseFeedResponse(data)).toThrow(ValidationError);
+    }
+  );
+
+  it('should sort newest first with undated items last', () => {
+    const sorted = sortByPublished([...ITEMS].reverse());
+
+    expect(sorted.map((i) => i.link)).toEqual(ITEMS.map((i) => i.link));
+  });
+});
+
+describe('filterFeedItems', () => {
+  it('should match keywords in summaries without HTML markup', () => {
+    expect(filterFeedItems(ITEMS, { keyword: 'hashrate grew' }).map((i) => i.title)).toEqual([
+      'Quarterly Hashrate Report',
+    ]);
+  });
+
+  it('should combine category and date bounds', () => {
+    const filtered = filterFeedItems(ITEMS, {
+      category: 'MINING',
+      since: Date.parse('2025-12-01T00:00:00Z'),
+    });
+
+    expect(filtered.map((i) => i.title)).toEqual(['Quarterly Hashrate Report']);
+  });
+
+  it('should exclude undated items from date-bounded results', () => {
+    const filtered = filterFeedItems(ITEMS, { until: Date.parse('2030-01-01T00:00:00Z') });
+
+    expect(filtered).toHaveLength(2);
+  });
+});
+
+describe('searchFeedItems', () => {
+  it('should require every term and rank title matches first', () => {
+    const results = searchFeedItems(ITEMS, 'hashrate');
+
+    expect(results.map((i) => i.title)).toEqual([
+      'Quarterly Hashrate Report',
+      'Braiins OS 25.12 Released',
+    ]);
+    expect(searchFeedItems(ITEMS, 'hashrate firmware').map((i) => i.title)).toEqual([
+      'Braiins OS 25.12 Released',
+    ]);
+  });
+
+  it('should match word prefixes and authors', () => {
+    expect(searchFeedItems(ITEMS, 'autotun').map((i) => i.title)).toEqual([
+      'Braiins OS 25.12 Released',
+    ]);
+    expect(searchFeedItems(ITEMS, 'braiins team')).toHaveLength(1);
+  });
+
+  it('should return everything for a query without words', () => {
+    expect(searchFeedItems(ITEMS, ' -- ')).toHaveLength(3);
+  });
+});
+
+describe('paginate', () => {
+  it('should slice pages and count them', () => {
+    const values = Array.from({ length: 7 }, (_, i) => i);
+
+    expect(paginate(values, 2, 3)).toEqual({ items: [3, 4, 5], page: 2, pageCount: 3, total: 7 });
+    expect(paginate(values, 4, 3).items).toEqual([]);
+    expect(paginate([], 1, 3).pageCount).toBe(1);
+  });
+});
+
+describe('stripHtml', () => {
+  it('should remove tags and surrounding whitespace', () => {
+    expect(stripHtml(' <p>Network <b>hashrate</b> grew</p> ')).toBe('Network hashrate grew');
+  });
+});
+
+describe('RSSFeed', () => {
+  let getRSSFeedData: jest.Mock<() => Promise<unknown>>;
+  let feed: RSSFeed;
+
+  const raw = (link: string, date: string): Record<string, string> => ({
+    title: link,
+    link,
+    date,
+  });
+
+  beforeEach(() => {
+    getRSSFeedData = jest.fn<() => Promise<unknown>>();
+    feed = new RSSFeed({ getRSSFeedData } as unknown as InsightsApiClient, {
+      maxArchivedItems: 3,
+      maxTrackedSessions: 2,
+    });
+  });
+
+  it('should archive items that drop off the feed, evicting the oldest', async () => {
+    getRSSFeedData.mockResolvedValueOnce([
+      raw('a', '2025-12-01T00:00:00Z'),
+      raw('b', '2025-12-02T00:00:00Z'),
+    ]);
+    getRSSFeedData.mockResolvedValueOnce([
+      raw('c', '2025-12-03T00:00:00Z'),
+      raw('d', '2025-12-04T00:00:00Z'),
+    ]);
+
+    await feed.fetch();
+    const contents = await feed.fetch();
+
+    expect(contents.items.map((i) => i.link)).toEqual(['d', 'c']);
+    expect(feed.archived().map((i) => i.link)).toEqual(['d', 'c', 'b']);
+  });
+
+  it('should report links unseen by the session since its previous check', async () => {
+    getRSSFeedData.mockResolvedValueOnce([raw('a', '2025-12-01T00:00:00Z')]);
+    getRSSFeedData.mockResolvedValueOnce([
+      raw('a', '2025-12-01T00:00:00Z'),
+      raw('b', '2025-12-02T00:00:00Z'),
+    ]);
+
+    const first = feed.check('s1', (await feed.fetch()).items, 1_000);
+    const second = feed.check('s1', (await feed.fetch()).items, 2_000);
+
+    expect(first).toEqual({ previousCheckAt: undefined, newLinks: new Set(['a']) });
+    expect(second).toEqual({ previousCheckAt: 1_000, newLinks: new Set(['b']) });
+  });
+
+  it('should return the latest check without recording another', async () => {
+    getRSSFeedData.mockResolvedValueOnce([raw('a', '2025-12-01T00:00:00Z')]);
+    const items = (await feed.fetch()).items;
+
+    expect(feed.latestCheck('s1')).toBeUndefined();
+    const first = feed.check('s1', items, 1_000);
+
+    expect(feed.latestCheck('s1')).toEqual(first);
+    expect(feed.check('s1', items, 2_000).previousCheckAt).toBe(1_000);
+  });
+
+  it('should forget the least recently checked session beyond the limit', async () => {
+    getRSSFeedData.mockResolvedValue([raw('a', '2025-12-01T00:00:00Z')]);
+    const { items } = await feed.fetch();
+
+    feed.check('s1', items, 1);
+    feed.check('s2', items, 2);
+    feed.check('s1', items, 3);
+    feed.check('s3', items, 4);
+
+    expect(feed.check('s1', items, 5).previousCheckAt).toBe(3);
+    expect(feed.check('s2', items, 6).previousCheckAt).toBeUndefined();
+  });
+});
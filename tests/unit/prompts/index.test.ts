@@ -0,0 +1,209 @@
+/**
+ * Unit tests for the MCP prompt library
+ *
+ * Tests cover: registry metadata, argument validation and coercion, and the
+ * tool calls each prompt asks for.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  ElectricityNegotiationPrepPrompt,
+  EvaluateAsicPurchasePrompt,
+  ExplainDifficultyAdjustmentPrompt,
+  getAllPrompts,
+  MCPPrompt,
+  PromptArgumentError,
+  WeeklyNetworkBriefingPrompt,
+} from '../../../src/prompts/index.js';
+
+const textOf = (prompt: MCPPrompt, args?: Record<string, string>): string => {
+  const messages = prompt.getMessages(args);
+  expect(messages).toHaveLength(1);
+  expect(messages[0]?.role).toBe('user');
+  return messages[0]?.content.text ?? '';
+};
+
+describe('getAllPrompts', () => {
+  it('should register the workflow prompts with unique names', () => {
+    const names = getAllPrompts().map((prompt) => prompt.name);
+
+    expect(names).toEqual([
+      'evaluate_asic_purchase',
+      'weekly_network_briefing',
+      'explain_difficulty_adjustment',
+      'electricity_negotiation_prep',
+    ]);
+  });
+
+  it('should describe every prompt and argument', () => {
+    getAllPrompts().forEach((prompt) => {
+      expect(prompt.title).toBeDefined();
+      expect(prompt.description.length).toBeGreaterThan(20);
+      prompt.arguments.forEach((argument) => {
+        expect(argument.name).toMatch(/^[a-z_]+$/);
+        expect(argument.description.length).toBeGreaterThan(5);
+      });
+    });
+  });
+
+  it('should only reference registered tools', () => {
+    const toolNames = /`(braiins_[a-z_]+)`/g;
+    const known = [
+      'braiins_hardware_catalog',
+      'braiins_profitability_deep_dive',
+      'braiins_profitability_calculator',
+      'braiins_cost_to_mine',
+      'braiins_mining_overview',
+      'braiins_network_health_monitor',
+      'braiins_hashrate_and_difficulty_history',
+      'braiins_daily_revenue_history',
+      'braiins_transaction_fees_history',
+      'braiins_hashrate_value_history',
+      'braiins_pool_stats',
+      'braiins_snapshot_history',
+      'braiins_difficulty_stats',
+      'braiins_hashrate_stats',
+      'braiins_blocks',
+      'braiins_halvings',
+    ];
+    const text = [
+      textOf(new EvaluateAsicPurchasePrompt(), { model: 'S21', electricity_cost_kwh: '0.05' }),
+      textOf(new WeeklyNetworkBriefingPrompt()),
+      textOf(new ExplainDifficultyAdjustmentPrompt(), {
+        fleet_hashrate_ths: '1000',
+        fleet_power_watts: '17500',
+        electricity_cost_kwh: '0.05',
+      }),
+      textOf(new ElectricityNegotiationPrepPrompt(), {
+        site_hashrate_ths: '100000',
+        site_power_kw: '1800',
+        current_rate_kwh: '0.05',
+      }),
+    ].join('\n');
+
+    for (const [, name] of text.matchAll(toolNames)) {
+      expect(known).toContain(name);
+    }
+  });
+});
+
+describe('EvaluateAsicPurchasePrompt', () => {
+  const prompt = new EvaluateAsicPurchasePrompt();
+
+  it('should include the model, rate and payback when a price is given', () => {
+    const text = textOf(prompt, {
+      model: 'Antminer S21 XP',
+      electricity_cost_kwh: '0.06',
+      unit_price_usd: '5000',
+      units: '10',
+    });
+
+    expect(text).toContain('10 × Antminer S21 XP at $5,000 per unit ($50,000 total)');
+    expect(text).toContain('`models: ["Antminer S21 XP"]`');
+    expect(text).toContain('`electricity_cost_kwh: 0.06`');
+    expect(text).toContain('payback period');
+    expect(text).toContain('for all 10 units');
+  });
+
+  it('should ask for a maximum price when no price is given', () => {
+    const text = textOf(prompt, { model: 'S19', electricity_cost_kwh: '0.05' });
+
+    expect(text).toContain('maximum unit price');
+  });
+
+  it('should reject missing and invalid arguments', () => {
+    expect(() => prompt.getMessages({ electricity_cost_kwh: 'cheap' })).toThrow(
+      PromptArgumentError
+    );
+
+    try {
+      prompt.getMessages({ electricity_cost_kwh: 'cheap' });
+    } catch (error) {
+      expect((error as PromptArgumentError).issues).toEqual([
+        'model: Required',
+        'electricity_cost_kwh: Must be a number',
+      ]);
+    }
+  });
+});
+
+describe('WeeklyNetworkBriefingPrompt', () => {
+  const prompt = new WeeklyNetworkBriefingPrompt();
+
+  it('should default to the operations audience', () => {
+    expect(textOf(prompt)).toContain('site operators');
+  });
+
+  it('should tailor the audience and focus section', () => {
+    const text = textOf(prompt, { audience: 'investor', focus: 'fee market' });
+
+    expect(text).toContain('investors');
+    expect(text).toContain('**fee market**');
+  });
+
+  it('should treat empty arguments as omitted', () => {
+    expect(textOf(prompt, { audience: '', focus: ' ' })).not.toContain('****');
+  });
+
+  it('should reject unknown audiences', () => {
+    expect(() => prompt.getMessages({ audience: 'everyone' })).toThrow(
+      'audience: Must be one of: operations, executive, investor'
+    );
+  });
+});
+
+describe('ExplainDifficultyAdjustmentPrompt', () => {
+  const prompt = new ExplainDifficultyAdjustmentPrompt();
+
+  it('should explain generically without fleet details', () => {
+    const text = textOf(prompt);
+
+    expect(text).toContain('braiins_difficulty_stats');
+    expect(text).not.toContain('braiins_cost_to_mine');
+  });
+
+  it('should add fleet impact when fleet details are given', () => {
+    const text = textOf(prompt, {
+      fleet_hashrate_ths: '2000',
+      fleet_power_watts: '35000',
+      electricity_cost_kwh: '0.045',
+    });
+
+    expect(text).toContain('`hashrate_ths: 2000`');
+    expect(text).toContain('Impact on our fleet');
+  });
+});
+
+describe('ElectricityNegotiationPrepPrompt', () => {
+  const prompt = new ElectricityNegotiationPrepPrompt();
+
+  it('should derive fleet efficiency and compare both rates', () => {
+    const text = textOf(prompt, {
+      site_hashrate_ths: '100000',
+      site_power_kw: '1800',
+      current_rate_kwh: '0.05',
+      proposed_rate_kwh: '0.065',
+    });
+
+    expect(text).toContain('about 18.0 J/TH');
+    expect(text).toContain('`hardware_efficiency_jth: 18.00`');
+    expect(text).toContain('`consumption_watts: 1800000`');
+    expect(text).toContain('`electricity_price_per_kwh: 0.065`');
+    expect(text).toContain('24-month contract');
+  });
+
+  it('should cap projection periods at the tool maximum', () => {
+    const text = textOf(prompt, {
+      site_hashrate_ths: '1000',
+      site_power_kw: '20',
+      current_rate_kwh: '0.05',
+      contract_months: '84',
+    });
+
+    expect(text).toContain('`periods: 60`');
+  });
+
+  it('should require site details', () => {
+    expect(() => prompt.getMessages({})).toThrow(PromptArgumentError);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Unit tests for the MCP resource registry
+ *
+ * Tests cover: registered URIs, JSON data from the client, Markdown from the
+ * matching tool, and error reporting.
+ */
+
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import type { InsightsApiClient } from '../../../src/api/insights-client.js';
+import { InsightsApiError } from '../../../src/api/insights-client.js';
+import { getAllResources, MCPResource } from '../../../src/resources/index.js';
+
+const PRICE_STATS = { price: 95000, percent_change_24h: -1.5, timestamp: '2026-01-10T12:00:00Z' };
+
+describe('getAllResources', () => {
+  let apiClient: { getPriceStats: jest.Mock<() => Promise<unknown>> };
+  let resources: MCPResource[];
+
+  const find = (uri: string): MCPResource => {
+    const resource = resources.find((r) => r.uri === uri);
+    if (!resource) {
+      throw new Error(`Missing resource ${uri}`);
+    }
+    return resource;
+  };
+
+  beforeEach(() => {
+    apiClient = { getPriceStats: jest.fn(() => Promise.resolve(PRICE_STATS)) };
+    resources = getAllResources(apiClient as unknown as InsightsApiClient);
+  });
+
+  it('should register the network state resources', () => {
+    expect(resources.map((r) => r.uri)).toEqual([
+      'braiins://network/hashrate',
+      'braiins://network/difficulty',
+      'braiins://price',
+      'braiins://halvings',
+      'braiins://pools',
+    ]);
+    resources.forEach((resource) => {
+      expect(resource.name.length).toBeGreaterThan(0);
+      expect(resource.description.length).toBeGreaterThan(10);
+    });
+  });
+
+  it('should load the API response', async () => {
+    expect(await find('braiins://price').load()).toEqual(PRICE_STATS);
+  });
+
+  it('should read JSON data and the tool Markdown report', async () => {
+    const { data, markdown } = await find('braiins://price').read();
+
+    expect(data).toEqual(PRICE_STATS);
+    expect(markdown).toContain('95,000');
+  });
+
+  it('should reject reads when the API fails', async () => {
+    apiClient.getPriceStats.mockRejectedValue(new InsightsApiError('Server error', 500, '/x'));
+
+    await expect(find('braiins://price').read()).rejects.toThrow('Server error');
+  });
+});
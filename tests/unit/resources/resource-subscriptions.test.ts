@@ -0,0 +1,132 @@
+/**
+ * Unit tests for resource subscriptions
+ *
+ * Tests cover: change detection, unchanged values, failed loads, unsubscribing,
+ * unknown URIs and background request priority.
+ */
+
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { getRequestContext } from '../../../src/api/request-context.js';
+import type { MCPResource } from '../../../src/resources/index.js';
+import { ResourceSubscriptions } from '../../../src/resources/resource-subscriptions.js';
+
+const createResource = (
+  uri: string
+): MCPResource & { load: jest.Mock<() => Promise<unknown>> } => ({
+  uri,
+  name: uri,
+  description: 'Test resource',
+  load: jest.fn<() => Promise<unknown>>(),
+  read: jest.fn<MCPResource['read']>(),
+});
+
+describe('ResourceSubscriptions', () => {
+  let price: ReturnType<typeof createResource>;
+  let pools: ReturnType<typeof createResource>;
+  let notify: jest.Mock<(uri: string) => Promise<void>>;
+  let subscriptions: ResourceSubscriptions;
+
+  beforeEach(() => {
+    price = createResource('braiins://price');
+    pools = createResource('braiins://pools');
+    price.load.mockResolvedValue({ price: 95000 });
+    pools.load.mockResolvedValue({ pools: [] });
+    notify = jest.fn<(uri: string) => Promise<void>>().mockResolvedValue(undefined);
+    subscriptions = new ResourceSubscriptions([price, pools], notify);
+  });
+
+  afterEach(() => {
+    subscriptions.close();
+  });
+
+  it('should notify when a subscribed value changes', async () => {
+    await subscriptions.subscribe('braiins://price');
+    price.load.mockResolvedValue({ price: 96000 });
+
+    await subscriptions.poll();
+
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(notify).toHaveBeenCalledWith('braiins://price');
+  });
+
+  it('should not notify when values are unchanged', async () => {
+    await subscriptions.subscribe('braiins://price');
+    await subscriptions.subscribe('braiins://pools');
+
+    await subscriptions.poll();
+
+    expect(notify).not.toHaveBeenCalled();
+  });
+
+  it('should only poll subscribed resources', async () => {
+    await subscriptions.subscribe('braiins://price');
+    await subscriptions.poll();
+
+    expect(pools.load).not.toHaveBeenCalled();
+    expect(subscriptions.subscribed()).toEqual(['braiins://price']);
+  });
+
+  it('should keep the previous value when a load fails', async () => {
+    await subscriptions.subscribe('braiins://price');
+    price.load.mockRejectedValueOnce(new Error('Network down'));
+    await subscriptions.poll();
+    expect(notify).not.toHaveBeenCalled();
+
+    price.load.mockResolvedValue({ price: 97000 });
+    await subscriptions.poll();
+    expect(notify).toHaveBeenCalledTimes(1);
+  });
+
+  it('should use the first successful load as the baseline', async () => {
+    price.load.mockRejectedValueOnce(new Error('Network down'));
+    await subscriptions.subscribe('braiins://price');
+
+    await subscriptions.poll();
+
+    expect(notify).not.toHaveBeenCalled();
+  });
+
+  it('should stop notifying after unsubscribing', async () => {
+    await subscriptions.subscribe('braiins://price');
+    subscriptions.unsubscribe('braiins://price');
+    price.load.mockResolvedValue({ price: 96000 });
+
+    await subscriptions.poll();
+
+    expect(notify).not.toHaveBeenCalled();
+    expect(subscriptions.subscribed()).toEqual([]);
+  });
+
+  it('should reject unknown resources', async () => {
+    await expect(subscriptions.subscribe('braiins://weather')).rejects.toThrow(
+      'Unknown resource: braiins://weather'
+    );
+  });
+
+  it('should load values at background priority', async () => {
+    let priority: string | undefined;
+    price.load.mockImplementation(() => {
+      priority = getRequestContext().priority;
+      return Promise.resolve({ price: 95000 });
+    });
+
+    await subscriptions.subscribe('braiins://price');
+
+    expect(priority).toBe('background');
+  });
+
+  it('should poll on the configured interval', async () => {
+    jest.useFakeTimers();
+    try {
+      subscriptions = new ResourceSubscriptions([price], notify, 1_000);
+      await subscriptions.subscribe('braiins://price');
+      price.load.mockResolvedValue({ price: 96000 });
+
+      await jest.advanceTimersByTimeAsync(1_000);
+
+      expect(notify).toHaveBeenCalledWith('braiins://price');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
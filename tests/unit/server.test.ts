@@ -0,0 +1,290 @@
+/**
+ * Unit tests for the MCP server factory
+ *
+ * Tests cover: tool listing, request context for tool calls, stale data
+ * annotations on tool results, resource listing, reads and subscriptions, and
+ * prompt listing and rendering.
+ */
+
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { getRequestContext, RequestContext } from '../../src/api/request-context.js';
+import { getAllPrompts } from '../../src/prompts/index.js';
+import type { MCPResource } from '../../src/resources/index.js';
+import { createMcpServer } from '../../src/server.js';
+import { MCPTool, ToolCategory } from '../../src/tools/index.js';
+
+describe('createMcpServer', () => {
+  let client: Client;
+  let execute: jest.Mock<MCPTool['execute']>;
+
+  beforeEach(async () => {
+    execute = jest.fn<MCPTool['execute']>();
+    const tools: MCPTool[] = [
+      {
+        name: 'braiins_test_tool',
+        description: 'Test tool',
+        category: ToolCategory.Simple,
+        tags: ['test'],
+        endpoints: ['/v1.0/hashrate-stats'],
+        inputSchema: { type: 'object', properties: {}, required: [] },
+        execute,
+      },
+    ];
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createMcpServer(tools).connect(serverTransport);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('should list registered tools', async () => {
+    const { tools } = await client.listTools();
+
+    expect(tools.map((tool) => tool.name)).toEqual(['braiins_test_tool']);
+    expect(tools[0]?._meta).toEqual({
+      category: 'simple',
+      tags: ['test'],
+      endpoints: ['/v1.0/hashrate-stats'],
+    });
+  });
+
+  it('should run tools as interactive requests', async () => {
+    let context: RequestContext = {};
+    execute.mockImplementation(() => {
+      context = getRequestContext();
+      return Promise.resolve({ content: [{ type: 'text', text: 'ok' }] });
+    });
+
+    await client.callTool({ name: 'braiins_test_tool', arguments: {} });
+
+    expect(context.priority).toBe('interactive');
+    expect(context.staleResponses).toEqual([]);
+  });
+
+  it('should return tool results unchanged when no data was stale', async () => {
+    execute.mockResolvedValue({ content: [{ type: 'text', text: 'fresh' }] });
+
+    const result = await client.callTool({ name: 'braiins_test_tool', arguments: {} });
+
+    expect(result.content).toEqual([{ type: 'text', text: 'fresh' }]);
+    expect(result._meta).toBeUndefined();
+  });
+
+  it('should annotate results that used stale cached data', async () => {
+    const fetchedAt = Date.now() - 14 * 60_000 - 5_000;
+    execute.mockImplementation(() => {
+      getRequestContext().staleResponses?.push({
+        endpoint: '/v1.0/hashrate-stats',
+        fetchedAt,
+        reason: 'upstream-error',
+        error: 'Request timeout after 10000ms',
+      });
+      return Promise.resolve({ content: [{ type: 'text', text: 'report' }] });
+    });
+
+    const result = await client.callTool({ name: 'braiins_test_tool', arguments: {} });
+    const content = result.content as Array<{ type: string; text: string }>;
+
+    expect(content).toHaveLength(2);
+    expect(content[0]?.text).toBe('report');
+    expect(content[1]?.text).toContain('Stale data');
+    expect(content[1]?.text).toContain('`/v1.0/hashrate-stats`: stale, fetched 14 minutes ago');
+    expect(result._meta).toEqual({
+      stale: [
+        expect.objectContaining({
+          endpoint: '/v1.0/hashrate-stats',
+          reason: 'upstream-error',
+          fetched_at: new Date(fetchedAt).toISOString(),
+        }),
+      ],
+    });
+  });
+
+  it('should keep JSON output exactly the payload when data was stale', async () => {
+    const payload = JSON.stringify({ hashrate_ehs: 812.4 });
+    execute.mockImplementation(() => {
+      getRequestContext().staleResponses?.push({
+        endpoint: '/v1.0/hashrate-stats',
+        fetchedAt: Date.now() - 60_000,
+        reason: 'upstream-error',
+        error: 'Request timeout after 10000ms',
+      });
+      return Promise.resolve({
+        content: [{ type: 'text', text: payload }],
+        structuredContent: { hashrate_ehs: 812.4 },
+      });
+    });
+
+    const result = await client.callTool({
+      name: 'braiins_test_tool',
+      arguments: { format: 'json' },
+    });
+
+    expect(result.content).toEqual([{ type: 'text', text: payload }]);
+    expect(result.structuredContent).toEqual({ hashrate_ehs: 812.4 });
+    expect(result._meta).toEqual({
+      stale: [expect.objectContaining({ endpoint: '/v1.0/hashrate-stats' })],
+    });
+  });
+});
+
+describe('createMcpServer resources', () => {
+  let client: Client;
+  let load: jest.Mock<MCPResource['load']>;
+  let read: jest.Mock<MCPResource['read']>;
+
+  const connect = async (resources: MCPResource[]): Promise<void> => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createMcpServer([], resources, { resourcePollIntervalMs: 10 }).connect(serverTransport);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  };
+
+  beforeEach(async () => {
+    load = jest.fn<MCPResource['load']>().mockResolvedValue({ price: 95000 });
+    read = jest
+      .fn<MCPResource['read']>()
+      .mockResolvedValue({ data: { price: 95000 }, markdown: '# Price' });
+    await connect([
+      { uri: 'braiins://price', name: 'Bitcoin price', description: 'BTC price', load, read },
+    ]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('should declare subscribable resources', () => {
+    expect(client.getServerCapabilities()?.resources).toEqual({ subscribe: true });
+  });
+
+  it('should not declare resources when none are registered', async () => {
+    await client.close();
+    await connect([]);
+
+    expect(client.getServerCapabilities()?.resources).toBeUndefined();
+  });
+
+  it('should list registered resources', async () => {
+    const { resources } = await client.listResources();
+
+    expect(resources).toEqual([
+      {
+        uri: 'braiins://price',
+        name: 'Bitcoin price',
+        description: 'BTC price',
+        mimeType: 'application/json',
+      },
+    ]);
+  });
+
+  it('should read JSON and Markdown representations', async () => {
+    const result = await client.readResource({ uri: 'braiins://price' });
+
+    expect(result.contents).toEqual([
+      {
+        uri: 'braiins://price',
+        mimeType: 'application/json',
+        text: JSON.stringify({ price: 95000 }, null, 2),
+      },
+      { uri: 'braiins://price', mimeType: 'text/markdown', text: '# Price' },
+    ]);
+  });
+
+  it('should annotate reads that used stale cached data', async () => {
+    read.mockImplementation(() => {
+      getRequestContext().staleResponses?.push({
+        endpoint: '/v1.0/price-stats',
+        fetchedAt: Date.now() - 5 * 60_000,
+        reason: 'revalidating',
+      });
+      return Promise.resolve({ data: { price: 95000 }, markdown: '# Price' });
+    });
+
+    const result = await client.readResource({ uri: 'braiins://price' });
+
+    expect(result.contents[1]).toMatchObject({ text: expect.stringContaining('Stale data') });
+    expect(result._meta).toEqual({
+      stale: [expect.objectContaining({ endpoint: '/v1.0/price-stats' })],
+    });
+  });
+
+  it('should reject unknown resources', async () => {
+    await expect(client.readResource({ uri: 'braiins://weather' })).rejects.toThrow(
+      'Unknown resource: braiins://weather'
+    );
+  });
+
+  it('should notify subscribers when the value changes', async () => {
+    const updated = new Promise<string>((resolve) => {
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+        resolve(notification.params.uri);
+      });
+    });
+
+    await client.subscribeResource({ uri: 'braiins://price' });
+    load.mockResolvedValue({ price: 96000 });
+
+    expect(await updated).toBe('braiins://price');
+    await client.unsubscribeResource({ uri: 'braiins://price' });
+  });
+});
+
+describe('createMcpServer prompts', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createMcpServer([], [], { prompts: getAllPrompts() }).connect(serverTransport);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('should list prompts with their arguments', async () => {
+    const { prompts } = await client.listPrompts();
+
+    expect(prompts.map((prompt) => prompt.name)).toContain('evaluate_asic_purchase');
+    expect(prompts.find((prompt) => prompt.name === 'evaluate_asic_purchase')).toMatchObject({
+      title: 'Evaluate a new ASIC purchase',
+      arguments: expect.arrayContaining([
+        expect.objectContaining({ name: 'model', required: true }),
+      ]),
+    });
+  });
+
+  it('should render prompt messages', async () => {
+    const result = await client.getPrompt({
+      name: 'evaluate_asic_purchase',
+      arguments: { model: 'Antminer S21', electricity_cost_kwh: '0.05' },
+    });
+
+    expect(result.messages[0]?.role).toBe('user');
+    expect(result.messages[0]?.content).toMatchObject({
+      type: 'text',
+      text: expect.stringContaining('Antminer S21'),
+    });
+  });
+
+  it('should report invalid arguments', async () => {
+    await expect(
+      client.getPrompt({ name: 'evaluate_asic_purchase', arguments: { model: 'S21' } })
+    ).rejects.toThrow('electricity_cost_kwh: Must be a number');
+  });
+
+  it('should reject unknown prompts', async () => {
+    await expect(client.getPrompt({ name: 'mine_faster' })).rejects.toThrow(
+      'Unknown prompt: mine_faster'
+    );
+  });
+});
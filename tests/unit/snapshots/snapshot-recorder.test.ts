@@ -0,0 +1,199 @@
+/**
+ * Unit tests for the snapshot recorder
+ *
+ * Tests cover: metric extraction per source, background request priority,
+ * cache bypass, sample timestamps, skipping recently recorded sources, stale data
+ * and failing endpoints.
+ */
+
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { NetworkError } from '../../../src/api/insights-client.js';
+import type { InsightsApiClient } from '../../../src/api/insights-client.js';
+import { getRequestContext } from '../../../src/api/request-context.js';
+import { SnapshotRecorder } from '../../../src/snapshots/snapshot-recorder.js';
+import { MemorySnapshotStore } from '../../../src/snapshots/snapshot-store.js';
+
+const HASHRATE_STATS = {
+  avg_fees_per_block: 0.02,
+  current_hashrate: 1094.42,
+  current_hashrate_estimated: 1148.46,
+  fees_percent: 0.64,
+  hash_price: 0.049,
+  hash_rate_30: 1075.3,
+  hash_value: 0.0000005,
+  monthly_avg_hashrate_change_1_year: { relative: 0.03, absolute: 29.47 },
+  rev_usd: 52000000,
+};
+
+const createMockApiClient = (): {
+  getHashrateStats: jest.Mock<() => Promise<unknown>>;
+  getPriceStats: jest.Mock<() => Promise<unknown>>;
+  getTransactionStats: jest.Mock<() => Promise<unknown>>;
+  getPoolStats: jest.Mock<() => Promise<unknown>>;
+} => ({
+  getHashrateStats: jest.fn(() => Promise.resolve(HASHRATE_STATS)),
+  getPriceStats: jest.fn(() =>
+    Promise.resolve({ price: 95000, percent_change_24h: -1.5, timestamp: '2026-01-10T12:00:00Z' })
+  ),
+  getTransactionStats: jest.fn(() =>
+    Promise.resolve({ mempool_size: 45000, avg_fee_sat_per_byte: 12 })
+  ),
+  getPoolStats: jest.fn(() =>
+    Promise.resolve({
+      pools: [
+        {
+          name: 'Foundry USA',
+          hashrate_percent: 30.5,
+          hashrate_effective: 330,
+          blocks_mined: { '1d': { absolute: 44 } },
+        },
+      ],
+    })
+  ),
+});
+
+describe('SnapshotRecorder', () => {
+  let apiClient: ReturnType<typeof createMockApiClient>;
+  let store: MemorySnapshotStore;
+  let recorder: SnapshotRecorder;
+
+  beforeEach(() => {
+    apiClient = createMockApiClient();
+    store = new MemorySnapshotStore();
+    recorder = new SnapshotRecorder(apiClient as unknown as InsightsApiClient, store, {
+      intervalMs: 60_000,
+    });
+  });
+
+  it('should record metrics from every source', async () => {
+    const result = await recorder.recordOnce();
+
+    expect(result).toEqual({
+      recorded: ['hashrate', 'price', 'transactions', 'pools'],
+      skipped: [],
+    });
+
+    expect((await store.latest('hashrate'))?.metrics).toMatchObject({
+      'hashrate.current_hashrate': 1094.42,
+      'hashrate.hash_price': 0.049,
+    });
+    expect((await store.latest('price'))?.metrics).toEqual({
+      'price.price': 95000,
+      'price.percent_change_24h': -1.5,
+    });
+    expect((await store.latest('transactions'))?.metrics).toEqual({
+      'transactions.mempool_size': 45000,
+      'transactions.avg_fee_sat_per_byte': 12,
+    });
+    expect((await store.latest('pools'))?.metrics).toEqual({
+      'pools.Foundry USA.hashrate_effective': 330,
+      'pools.Foundry USA.hashrate_percent': 30.5,
+      'pools.Foundry USA.blocks_1d': 44,
+    });
+  });
+
+  it('should fetch at background priority', async () => {
+    let priority: string | undefined;
+    apiClient.getPriceStats.mockImplementation(() => {
+      priority = getRequestContext()?.priority;
+      return Promise.resolve({ price: 1, percent_change_24h: 0, timestamp: '' });
+    });
+
+    await recorder.recordOnce();
+
+    expect(priority).toBe('background');
+  });
+
+  it('should bypass the response cache', async () => {
+    let bypassCache: boolean | undefined;
+    apiClient.getHashrateStats.mockImplementation(() => {
+      bypassCache = getRequestContext().bypassCache;
+      return Promise.resolve(HASHRATE_STATS);
+    });
+
+    await recorder.recordOnce();
+
+    expect(bypassCache).toBe(true);
+  });
+
+  it('should stamp samples when the response arrives', async () => {
+    const dateSpy = jest.spyOn(Date, 'now');
+    let now = Date.parse('2026-01-10T12:00:00Z');
+    dateSpy.mockImplementation(() => now);
+    apiClient.getPriceStats.mockImplementation(() => {
+      now += 30_000; // queued behind tool calls
+      return Promise.resolve({ price: 95000 });
+    });
+
+    try {
+      recorder = new SnapshotRecorder(apiClient as unknown as InsightsApiClient, store, {
+        sources: ['price'],
+      });
+      await recorder.recordOnce();
+    } finally {
+      dateSpy.mockRestore();
+    }
+
+    expect((await store.latest('price'))?.timestamp).toBe(Date.parse('2026-01-10T12:00:30Z'));
+  });
+
+  it('should only record the configured sources', async () => {
+    recorder = new SnapshotRecorder(apiClient as unknown as InsightsApiClient, store, {
+      sources: ['price'],
+    });
+
+    await recorder.recordOnce();
+
+    expect(apiClient.getPriceStats).toHaveBeenCalled();
+    expect(apiClient.getHashrateStats).not.toHaveBeenCalled();
+  });
+
+  it('should skip sources recorded within the interval', async () => {
+    await recorder.recordOnce();
+    const second = await recorder.recordOnce();
+
+    expect(second.recorded).toEqual([]);
+    expect(second.skipped).toContainEqual({ source: 'price', reason: 'recorded recently' });
+    expect(apiClient.getPriceStats).toHaveBeenCalledTimes(1);
+    expect(await store.query()).toHaveLength(4);
+  });
+
+  it('should not record data served stale from the cache', async () => {
+    apiClient.getHashrateStats.mockImplementation(() => {
+      getRequestContext()?.staleResponses?.push({
+        endpoint: '/v1.0/hashrate-stats',
+        fetchedAt: Date.now() - 600_000,
+        reason: 'upstream-error',
+      });
+      return Promise.resolve(HASHRATE_STATS);
+    });
+
+    const result = await recorder.recordOnce();
+
+    expect(result.skipped).toEqual([{ source: 'hashrate', reason: 'upstream data is stale' }]);
+    expect(await store.latest('hashrate')).toBeUndefined();
+  });
+
+  it('should keep recording other sources when one fails', async () => {
+    apiClient.getPoolStats.mockRejectedValue(new NetworkError('Connection refused'));
+
+    const result = await recorder.recordOnce();
+
+    expect(result.recorded).toEqual(['hashrate', 'price', 'transactions']);
+    expect(result.skipped).toEqual([{ source: 'pools', reason: 'Connection refused' }]);
+  });
+
+  it('should share one round between concurrent callers', async () => {
+    const [first, second] = await Promise.all([recorder.recordOnce(), recorder.recordOnce()]);
+
+    expect(first).toBe(second);
+    expect(apiClient.getPriceStats).toHaveBeenCalledTimes(1);
+  });
+
+  it('should record on start and stop cleanly', async () => {
+    recorder.start();
+    await recorder.stop();
+
+    expect(await store.query()).toHaveLength(4);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Unit tests for snapshot stores
+ *
+ * Tests cover: time window and source queries, latest snapshot lookup,
+ * persistence across instances, daily files, retention and malformed lines.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { appendFileSync, mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  FileSnapshotStore,
+  MemorySnapshotStore,
+  Snapshot,
+  SnapshotStore,
+} from '../../../src/snapshots/snapshot-store.js';
+
+const DAY = 86_400_000;
+const T0 = Date.parse('2026-01-10T12:00:00Z');
+
+const snapshot = (source: Snapshot['source'], timestamp: number, value: number): Snapshot => ({
+  source,
+  timestamp,
+  metrics: { [`${source}.value`]: value },
+});
+
+/**
+ * Shared behavior of every store implementation
+ */
+const describeStore = (name: string, create: () => SnapshotStore): void => {
+  describe(name, () => {
+    let store: SnapshotStore;
+
+    beforeEach(async () => {
+      store = create();
+      await store.append(snapshot('price', T0 + 2 * DAY, 3));
+      await store.append(snapshot('price', T0, 1));
+      await store.append(snapshot('hashrate', T0 + DAY, 10));
+      await store.append(snapshot('price', T0 + DAY, 2));
+    });
+
+    it('should return snapshots oldest first', async () => {
+      const all = await store.query();
+      expect(all.map((s) => s.timestamp)).toEqual([T0, T0 + DAY, T0 + DAY, T0 + 2 * DAY]);
+    });
+
+    it('should filter by source and inclusive time window', async () => {
+      const result = await store.query({ source: 'price', start: T0 + DAY, end: T0 + 2 * DAY });
+      expect(result.map((s) => s.metrics['price.value'])).toEqual([2, 3]);
+    });
+
+    it('should return the latest snapshot of a source', async () => {
+      expect((await store.latest('price'))?.timestamp).toBe(T0 + 2 * DAY);
+      expect((await store.latest('hashrate'))?.metrics).toEqual({ 'hashrate.value': 10 });
+      expect(await store.latest('pools')).toBeUndefined();
+    });
+  });
+};
+
+describe('snapshot stores', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'insights-snapshots-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describeStore('MemorySnapshotStore', () => new MemorySnapshotStore());
+  describeStore('FileSnapshotStore', () => new FileSnapshotStore({ directory: dir }));
+
+  describe('FileSnapshotStore', () => {
+    it('should write one file per UTC day', async () => {
+      const store = new FileSnapshotStore({ directory: dir, retentionDays: 0 });
+      await store.append(snapshot('price', T0, 1));
+      await store.append(snapshot('price', T0 + DAY, 2));
+
+      expect(readdirSync(dir).sort()).toEqual([
+        'snapshots-2026-01-10.jsonl',
+        'snapshots-2026-01-11.jsonl',
+      ]);
+    });
+
+    it('should persist snapshots across instances', async () => {
+      await new FileSnapshotStore({ directory: dir }).append(snapshot('price', T0, 1));
+
+      const restarted = new FileSnapshotStore({ directory: dir });
+      expect(await restarted.query()).toEqual([snapshot('price', T0, 1)]);
+    });
+
+    it('should return nothing before the directory exists', async () => {
+      const store = new FileSnapshotStore({ directory: join(dir, 'missing') });
+
+      expect(await store.query()).toEqual([]);
+      expect(await store.latest('price')).toBeUndefined();
+    });
+
+    it('should delete files older than the retention period', async () => {
+      const store = new FileSnapshotStore({ directory: dir, retentionDays: 7 });
+      await store.append(snapshot('price', T0 - 10 * DAY, 1));
+      await store.append(snapshot('price', T0, 2));
+
+      expect(readdirSync(dir)).toEqual(['snapshots-2026-01-10.jsonl']);
+    });
+
+    it('should skip malformed lines', async () => {
+      const store = new FileSnapshotStore({ directory: dir });
+      await store.append(snapshot('price', T0, 1));
+      appendFileSync(join(dir, 'snapshots-2026-01-10.jsonl'), '{"source":"pri\n');
+      await store.append(snapshot('price', T0 + 1000, 2));
+
+      expect((await store.query()).map((s) => s.metrics['price.value'])).toEqual([1, 2]);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Unit tests for braiins_api_schema_report tool
+ */
+
+import { jest } from '@jest/globals';
+import { ApiSchemaReportTool } from '../../../src/tools/simple/api-schema-report.js';
+import { InsightsApiClient } from '../../../src/api/insights-client.js';
+import { SchemaDriftMonitor } from '../../../src/api/schema-drift.js';
+
+const NOW = Date.parse('2026-01-10T12:00:00Z');
+const PRICE = { price: 96500, percent_change_24h: 1.2, timestamp: '2026-01-10T12:00:00Z' };
+
+describe('ApiSchemaReportTool', () => {
+  let monitor: SchemaDriftMonitor;
+  let tool: ApiSchemaReportTool;
+
+  beforeEach(() => {
+    monitor = new SchemaDriftMonitor();
+    const mockApiClient = {
+      getSchemaReport: jest.fn(() => monitor.getReport()),
+      getSchemaHistoryInfo: jest.fn(() => monitor.getHistoryInfo()),
+    } as unknown as InsightsApiClient;
+    tool = new ApiSchemaReportTool(mockApiClient);
+  });
+
+  describe('metadata', () => {
+    it('should have correct tool name', () => {
+      expect(tool.name).toBe('braiins_api_schema_report');
+    });
+
+    it('should have no required parameters', () => {
+      expect(tool.inputSchema.properties.endpoint.enum).toContain('/v1.0/price-stats');
+      expect(tool.inputSchema.required).toEqual([]);
+    });
+  });
+
+  describe('execute', () => {
+    it('should explain when no responses have been checked', async () => {
+      const response = await tool.execute({});
+
+      expect(response.isError).toBeFalsy();
+      expect(response.content[0]?.text).toContain('No Responses Checked Yet');
+      expect(response.structuredContent).toMatchObject({
+        checked_endpoints: 0,
+        drifting_endpoints: 0,
+        active_drifts: 0,
+      });
+    });
+
+    it('should report drifts per endpoint', async () => {
+      monitor.observe('/v1.0/price-stats', { ...PRICE, volume_24h: 1 }, NOW - 60_000);
+      monitor.observe('/v1.0/price-stats', { ...PRICE, price: '96500', volume_24h: 1 }, NOW);
+      monitor.observe('/v1.0/hashrate-stats', {}, NOW);
+      monitor.observe('/v1.0/difficulty-stats', {}, NOW);
+
+      const response = await tool.execute({ endpoint: '/v1.0/price-stats' });
+
+      expect(response.isError).toBeFalsy();
+      expect(response.structuredContent).toEqual({
+        endpoints: [
+          {
+            endpoint: '/v1.0/price-stats',
+            status: 'drift',
+            checks: 2,
+            last_checked: '2026-01-10T12:00:00.000Z',
+            drifts: [
+              {
+                path: 'volume_24h',
+                change: 'added',
+                expected: null,
+                observed: 'number',
+                first_seen: '2026-01-10T11:59:00.000Z',
+                last_seen: '2026-01-10T12:00:00.000Z',
+                occurrences: 2,
+                active: true,
+              },
+              {
+                path: 'price',
+                change: 'type-changed',
+                expected: 'number',
+                observed: 'string',
+                first_seen: '2026-01-10T12:00:00.000Z',
+                last_seen: '2026-01-10T12:00:00.000Z',
+                occurrences: 1,
+                active: true,
+              },
+            ],
+          },
+        ],
+        history: { persistent: false, since: expect.any(String) },
+        checked_endpoints: 1,
+        drifting_endpoints: 1,
+        active_drifts: 2,
+      });
+      expect(response.content[0]?.text).toContain('Drift Detected');
+      expect(response.content[0]?.text).toContain('`volume_24h`');
+    });
+
+    it('should mark resolved drifts', async () => {
+      monitor.observe('/v1.0/price-stats', { ...PRICE, volume_24h: 1 }, NOW - 60_000);
+      monitor.observe('/v1.0/price-stats', PRICE, NOW);
+
+      const response = await tool.execute({ format: 'markdown' });
+
+      expect(response.content).toHaveLength(1);
+      expect(response.content[0]?.text).toContain('No Drift');
+      expect(response.content[0]?.text).toContain('added (resolved)');
+      expect(response.structuredContent).toMatchObject({ drifting_endpoints: 0, active_drifts: 0 });
+    });
+
+    it('should note that in-memory drift history resets with the server', async () => {
+      monitor.observe('/v1.0/price-stats', PRICE, NOW);
+
+      const response = await tool.execute({});
+
+      expect(response.content[0]?.text).toContain('since the server started');
+      expect(response.content[0]?.text).toContain('reset when the server restarts');
+    });
+
+    it('should report the start of a persisted drift history', async () => {
+      const mockApiClient = {
+        getSchemaReport: jest.fn(() => monitor.getReport()),
+        getSchemaHistoryInfo: jest.fn(() => ({ persistent: true, since: NOW - 86_400_000 })),
+      } as unknown as InsightsApiClient;
+      monitor.observe('/v1.0/price-stats', PRICE, NOW);
+
+      const response = await new ApiSchemaReportTool(mockApiClient).execute({});
+
+      expect(response.structuredContent).toMatchObject({
+        history: { persistent: true, since: '2026-01-09T12:00:00.000Z' },
+      });
+      expect(response.content[0]?.text).toContain('since 2026-01-09T12:00:00.000Z');
+      expect(response.content[0]?.text).not.toContain('reset when the server restarts');
+    });
+
+    it('should reject unknown endpoints', async () => {
+      const response = await tool.execute({ endpoint: '/v2.0/unknown' });
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0]?.text).toContain('Validation Error');
+    });
+  });
+});
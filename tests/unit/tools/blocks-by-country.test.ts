@@ -0,0 +1,220 @@
+/**
+ * Unit tests for braiins_blocks_by_country tool
+ */
+
+import { jest } from '@jest/globals';
+import { BlocksByCountryTool } from '../../../src/tools/parameterized/blocks-by-country.js';
+import { BraiinsInsightsBlocksByCountry } from '../../../src/types/insights-api.js';
+import {
+  InsightsApiError,
+  NetworkError,
+  ValidationError,
+} from '../../../src/api/insights-client.js';
+
+// Mock API client
+const createMockApiClient = (): { getBlocksByCountry: jest.Mock } => ({
+  getBlocksByCountry: jest.fn(),
+});
+
+// Sample distribution totalling 1000 blocks
+const SAMPLE_COUNTRIES: BraiinsInsightsBlocksByCountry[] = [
+  { country_code: 'CN', country_name: 'China', block_count: 150, percentage: 15 },
+  { country_code: 'US', country_name: 'United States', block_count: 400, percentage: 40 },
+  { country_code: 'KZ', country_name: 'Kazakhstan', block_count: 100, percentage: 10 },
+  { country_code: 'RU', country_name: 'Russia', block_count: 250, percentage: 25 },
+  { country_code: 'CA', country_name: 'Canada', block_count: 100, percentage: 10 },
+];
+
+describe('BlocksByCountryTool', () => {
+  let tool: BlocksByCountryTool;
+  let mockApiClient: ReturnType<typeof createMockApiClient>;
+
+  beforeEach(() => {
+    mockApiClient = createMockApiClient();
+    tool = new BlocksByCountryTool(mockApiClient as any);
+  });
+
+  describe('metadata', () => {
+    it('should have correct tool name', () => {
+      expect(tool.name).toBe('braiins_blocks_by_country');
+    });
+
+    it('should have descriptive description', () => {
+      expect(tool.description).toContain('country');
+      expect(tool.description.length).toBeGreaterThan(20);
+    });
+
+    it('should have only optional parameters', () => {
+      expect(tool.inputSchema.properties).toHaveProperty('threshold_percent');
+      expect(tool.inputSchema.properties).toHaveProperty('top_n');
+      expect(tool.inputSchema.required).toEqual([]);
+    });
+  });
+
+  describe('execute - happy path', () => {
+    it('should list countries sorted by share', async () => {
+      mockApiClient.getBlocksByCountry.mockResolvedValue(SAMPLE_COUNTRIES);
+
+      const result = await tool.execute({});
+      const markdown = result.content[0].text;
+
+      expect(mockApiClient.getBlocksByCountry).toHaveBeenCalledTimes(1);
+      expect(result.isError).toBe(false);
+      expect(markdown).toContain('Bitcoin Blocks by Country');
+      expect(markdown).toContain('| 1 | United States | US | 400 | 40.00% |');
+      expect(markdown).toContain('| 2 | Russia | RU | 250 | 25.00% |');
+      expect(markdown).toContain('**Total Blocks:** 1,000');
+    });
+
+    it('should calculate top-N share and HHI', async () => {
+      mockApiClient.getBlocksByCountry.mockResolvedValue(SAMPLE_COUNTRIES);
+
+      const result = await tool.execute({ top_n: 2 });
+      const markdown = result.content[0].text;
+
+      // 40 + 25
+      expect(markdown).toContain('**Top 2 Share:** 65.00%');
+      // 40² + 25² + 15² + 10² + 10² = 2650
+      expect(markdown).toContain('**HHI:** 2,650');
+      expect(markdown).toContain('Highly Concentrated');
+    });
+
+    it('should flag countries above the default threshold', async () => {
+      mockApiClient.getBlocksByCountry.mockResolvedValue(SAMPLE_COUNTRIES);
+
+      const result = await tool.execute({});
+      const markdown = result.content[0].text;
+
+      expect(markdown).toContain('threshold: 20%');
+      expect(markdown).toContain('⚠️ **United States** (US): 40.00% of blocks');
+      expect(markdown).toContain('⚠️ **Russia** (RU): 25.00% of blocks');
+      expect(markdown).not.toContain('**China** (CN)');
+    });
+
+    it('should honor a custom threshold', async () => {
+      mockApiClient.getBlocksByCountry.mockResolvedValue(SAMPLE_COUNTRIES);
+
+      const result = await tool.execute({ threshold_percent: 50 });
+
+      expect(result.content[0].text).toContain('No country exceeds 50% of blocks mined');
+    });
+
+    it('should limit listed countries', async () => {
+      mockApiClient.getBlocksByCountry.mockResolvedValue(SAMPLE_COUNTRIES);
+
+      const result = await tool.execute({ limit: 2 });
+
+      expect(result.content[0].text).toContain('Showing 2 of 5 countries');
+      expect(result.content[0].text).not.toContain('| 3 |');
+    });
+
+    it('should fall back to API percentages when block counts are zero', async () => {
+      mockApiClient.getBlocksByCountry.mockResolvedValue([
+        { country_code: 'US', country_name: 'United States', block_count: 0, percentage: 60 },
+        { country_code: 'CA', country_name: 'Canada', block_count: 0, percentage: 40 },
+      ]);
+
+      const result = await tool.execute({});
+
+      expect(result.content[0].text).toContain('| 1 | United States | US | 0 | 60.00% |');
+    });
+
+    it('should label unconcentrated distributions', async () => {
+      mockApiClient.getBlocksByCountry.mockResolvedValue(
+        Array.from({ length: 10 }, (_, i) => ({
+          country_code: `C${i}`,
+          country_name: `Country ${i}`,
+          block_count: 10,
+          percentage: 10,
+        }))
+      );
+
+      const result = await tool.execute({});
+
+      expect(result.content[0].text).toContain('**HHI:** 1,000 🟢 (Unconcentrated)');
+    });
+
+    it('should handle empty data', async () => {
+      mockApiClient.getBlocksByCountry.mockResolvedValue([]);
+
+      const result = await tool.execute({});
+
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toContain('No Data Available');
+    });
+  });
+
+  describe('execute - output format', () => {
+    it('should return structured concentration metrics as JSON', async () => {
+      mockApiClient.getBlocksByCountry.mockResolvedValue(SAMPLE_COUNTRIES);
+
+      const result = await tool.execute({ top_n: 2, format: 'json' });
+      const payload = JSON.parse(result.content[0].text);
+
+      expect(result.content).toHaveLength(1);
+      expect(payload.total_blocks).toBe(1000);
+      expect(payload.top_n_share_percent).toBeCloseTo(65);
+      expect(payload.hhi).toBeCloseTo(2650);
+      expect(payload.flagged_countries).toEqual(['US', 'RU']);
+      expect(payload.countries[0]).toMatchObject({ rank: 1, country_code: 'US', block_count: 400 });
+    });
+  });
+
+  describe('execute - validation', () => {
+    it('should reject threshold above 100', async () => {
+      const result = await tool.execute({ threshold_percent: 120 });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Validation Error');
+      expect(mockApiClient.getBlocksByCountry).not.toHaveBeenCalled();
+    });
+
+    it('should reject non-integer top_n', async () => {
+      const result = await tool.execute({ top_n: 2.5 });
+
+      expect(result.isError).toBe(true);
+    });
+  });
+
+  describe('execute - error handling', () => {
+    it('should handle InsightsApiError', async () => {
+      mockApiClient.getBlocksByCountry.mockRejectedValue(
+        new InsightsApiError('Not found', 404, '/v1.0/blocks-by-country')
+      );
+
+      const result = await tool.execute({});
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('API Error');
+      expect(result.content[0].text).toContain('404');
+    });
+
+    it('should handle NetworkError', async () => {
+      mockApiClient.getBlocksByCountry.mockRejectedValue(new NetworkError('Timeout'));
+
+      const result = await tool.execute({});
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Network Error');
+    });
+
+    it('should handle ValidationError', async () => {
+      mockApiClient.getBlocksByCountry.mockRejectedValue(new ValidationError('Bad payload'));
+
+      const result = await tool.execute({});
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Response Validation Error');
+    });
+
+    it('should handle unexpected errors', async () => {
+      mockApiClient.getBlocksByCountry.mockRejectedValue(new Error('Boom'));
+
+      const result = await tool.execute({});
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Unexpected Error');
+      expect(result.content[0].text).toContain('Boom');
+    });
+  });
+});
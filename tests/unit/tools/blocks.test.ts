@@ -90,7 +90,14 @@ describe('BlocksTool', () => {
       expect(tool.inputSchema.properties.limit.type).toBe('number');
       expect(tool.inputSchema.properties.limit.default).toBe(10);
       expect(tool.inputSchema.properties.limit.minimum).toBe(1);
-      expect(tool.inputSchema.properties.limit.maximum).toBe(100);
+      expect(tool.inputSchema.properties.limit.maximum).toBe(1000);
+    });
+
+    it('should define date range, page and pool parameters', () => {
+      expect(tool.inputSchema.properties).toHaveProperty('start_date');
+      expect(tool.inputSchema.properties).toHaveProperty('end_date');
+      expect(tool.inputSchema.properties).toHaveProperty('page');
+      expect(tool.inputSchema.properties).toHaveProperty('pool');
     });
   });
 
@@ -150,8 +157,8 @@ describe('BlocksTool', () => {
       expect(result.isError).toBe(false);
     });
 
-    it('should reject limit exceeding 100', async () => {
-      const result = await tool.execute({ limit: 101 });
+    it('should reject limit exceeding 1000', async () => {
+      const result = await tool.execute({ limit: 1001 });
 
       expect(result.isError).toBe(true);
       expect(result.content[0].text).toContain('Validation Error');
@@ -165,6 +172,170 @@ describe('BlocksTool', () => {
     });
   });
 
+  describe('execute - paging past the API cap', () => {
+    const makeBlocks = (
+      startHeight: number,
+      count: number,
+      startTime: number
+    ): BraiinsInsightsBlockData[] =>
+      Array.from({ length: count }, (_, i) => ({
+        height: startHeight - i,
+        pool: i % 2 === 0 ? 'Foundry USA' : 'AntPool',
+        timestamp: new Date(startTime - i * 600_000).toISOString(),
+        block_value_btc: 3.2,
+        block_value_usd: 285000,
+      }));
+
+    it('should walk multiple API pages for limits above 100', async () => {
+      const now = Date.parse('2025-12-16T04:00:00Z');
+      mockApiClient.getBlocks
+        .mockResolvedValueOnce(makeBlocks(900000, 100, now))
+        .mockResolvedValueOnce(makeBlocks(899900, 100, now - 100 * 600_000))
+        .mockResolvedValueOnce(makeBlocks(899800, 40, now - 200 * 600_000));
+
+      const result = await tool.execute({ limit: 250 });
+
+      expect(mockApiClient.getBlocks).toHaveBeenCalledTimes(3);
+      expect(mockApiClient.getBlocks).toHaveBeenNthCalledWith(1, { limit: 100, page: 1 });
+      expect(mockApiClient.getBlocks).toHaveBeenNthCalledWith(3, { limit: 100, page: 3 });
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toContain('Showing 240 most recent blocks');
+      expect(result.content[0].text).toContain('899,761 – 900,000');
+    });
+
+    it('should return the requested page of results', async () => {
+      mockApiClient.getBlocks.mockResolvedValue(SAMPLE_BLOCKS);
+
+      const result = await tool.execute({ limit: 1, page: 2 });
+
+      expect(mockApiClient.getBlocks).toHaveBeenCalledWith({ limit: 2 });
+      expect(result.content[0].text).toContain('875,431');
+      expect(result.content[0].text).not.toContain('875,432');
+      expect(result.content[0].text).toContain('Page: 2');
+    });
+
+    it('should indicate when more pages are available', async () => {
+      mockApiClient.getBlocks.mockResolvedValue(SAMPLE_BLOCKS);
+
+      const result = await tool.execute({ limit: 3 });
+
+      expect(result.content[0].text).toContain('request page 2');
+    });
+
+    it('should report when the scan limit is reached before filling the page', async () => {
+      const now = Date.parse('2025-12-16T04:00:00Z');
+      mockApiClient.getBlocks.mockImplementation((params: { page: number }) =>
+        Promise.resolve(
+          makeBlocks(900000 - (params.page - 1) * 100, 100, now - (params.page - 1) * 60_000_000)
+        )
+      );
+
+      const result = await tool.execute({ pool: 'Braiins', limit: 10 });
+
+      expect(mockApiClient.getBlocks).toHaveBeenCalledTimes(20);
+      expect(result.content[0].text).toContain('No blocks found');
+      expect(result.content[0].text).toContain('most recent 2000 blocks were scanned');
+      expect(result.structuredContent).toMatchObject({ has_more: true });
+    });
+
+    it('should report empty page beyond available data', async () => {
+      mockApiClient.getBlocks.mockResolvedValue(SAMPLE_BLOCKS);
+
+      const result = await tool.execute({ limit: 10, page: 5 });
+
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toContain('No blocks found');
+      expect(result.content[0].text).toContain('**Page:** 5');
+    });
+  });
+
+  describe('execute - date range and pool filters', () => {
+    it('should pass date range to the API and filter locally', async () => {
+      mockApiClient.getBlocks.mockResolvedValue([
+        { ...SAMPLE_BLOCKS[0], timestamp: '2025-12-16T01:00:00Z' },
+        { ...SAMPLE_BLOCKS[1], timestamp: '2025-12-15T12:00:00Z' },
+        { ...SAMPLE_BLOCKS[2], timestamp: '2025-12-14T23:00:00Z' },
+      ]);
+
+      const result = await tool.execute({ start_date: '2025-12-15', end_date: '2025-12-15' });
+
+      expect(mockApiClient.getBlocks).toHaveBeenCalledWith({
+        limit: 100,
+        page: 1,
+        start_date: '2025-12-15',
+        end_date: '2025-12-15',
+      });
+      const markdown = result.content[0].text;
+      expect(markdown).toContain('Showing 1 matching blocks');
+      expect(markdown).toContain('875,431');
+      expect(markdown).not.toContain('875,432');
+      expect(markdown).toContain('from 2025-12-15, to 2025-12-15');
+    });
+
+    it('should stop paging once blocks are older than start_date', async () => {
+      mockApiClient.getBlocks.mockResolvedValue(
+        Array.from({ length: 100 }, (_, i) => ({
+          ...SAMPLE_BLOCKS[0],
+          height: 875432 - i,
+          timestamp: new Date(Date.parse('2025-12-16T04:00:00Z') - i * 3_600_000).toISOString(),
+        }))
+      );
+
+      const result = await tool.execute({ start_date: '2025-12-15', limit: 500 });
+
+      expect(mockApiClient.getBlocks).toHaveBeenCalledTimes(1);
+      expect(result.content[0].text).toContain('Showing 29 matching blocks');
+    });
+
+    it('should filter by pool name case-insensitively', async () => {
+      mockApiClient.getBlocks.mockResolvedValue(SAMPLE_BLOCKS);
+
+      const result = await tool.execute({ pool: 'antpool' });
+
+      const markdown = result.content[0].text;
+      expect(markdown).toContain('AntPool');
+      expect(markdown).not.toContain('Foundry USA');
+      expect(markdown).toContain('pool: antpool');
+    });
+
+    it('should reject malformed dates', async () => {
+      const result = await tool.execute({ start_date: '15-12-2025' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('YYYY-MM-DD');
+      expect(mockApiClient.getBlocks).not.toHaveBeenCalled();
+    });
+
+    it('should reject dates that do not exist', async () => {
+      const result = await tool.execute({ start_date: '2024-02-30' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('valid calendar date');
+      expect(mockApiClient.getBlocks).not.toHaveBeenCalled();
+    });
+
+    it('should reject start_date after end_date', async () => {
+      const result = await tool.execute({ start_date: '2025-12-16', end_date: '2025-12-01' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('start_date cannot be later than end_date');
+    });
+
+    it('should reject pages beyond the most recent 2000 blocks', async () => {
+      const result = await tool.execute({ limit: 100, page: 21 });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('page × limit cannot exceed 2000');
+      expect(mockApiClient.getBlocks).not.toHaveBeenCalled();
+    });
+
+    it('should reject page less than 1', async () => {
+      const result = await tool.execute({ page: 0 });
+
+      expect(result.isError).toBe(true);
+    });
+  });
+
   describe('execute - edge cases', () => {
     it('should handle empty result set', async () => {
       mockApiClient.getBlocks.mockResolvedValue([]);
@@ -0,0 +1,245 @@
+/**
+ * Unit tests for braiins_fleet_profitability composite tool
+ */
+
+import { jest } from '@jest/globals';
+import { FleetProfitabilityTool } from '../../../../src/tools/composite/fleet-profitability.js';
+import {
+  BraiinsInsightsHashrateStats,
+  BraiinsInsightsDifficultyStats,
+  BraiinsInsightsPriceStats,
+} from '../../../../src/types/insights-api.js';
+import { InsightsApiError, NetworkError } from '../../../../src/api/insights-client.js';
+
+// Mock API client
+const createMockApiClient = (): {
+  getHashrateStats: jest.Mock;
+  getDifficultyStats: jest.Mock;
+  getPriceStats: jest.Mock;
+} => ({
+  getHashrateStats: jest.fn(),
+  getDifficultyStats: jest.fn(),
+  getPriceStats: jest.fn(),
+});
+
+// Round numbers so expected figures can be checked by hand
+const SAMPLE_HASHRATE_STATS: BraiinsInsightsHashrateStats = {
+  avg_fees_per_block: 0.016,
+  current_hashrate: 1001.23,
+  current_hashrate_estimated: 1146.5,
+  fees_percent: 0.5,
+  hash_price: 0.05,
+  hash_rate_30: 1074.37,
+  hash_value: 5e-7,
+  monthly_avg_hashrate_change_1_year: { relative: 0.03, absolute: 29.47665536 },
+  rev_usd: 40872449.1,
+};
+
+const SAMPLE_DIFFICULTY_STATS: BraiinsInsightsDifficultyStats = {
+  difficulty: 100e15,
+  block_epoch: 432,
+  epoch_block_time: 545,
+  estimated_adjustment: 0.1,
+  estimated_next_diff: 110e15,
+  estimated_adjustment_date: '2025-12-20T12:00:00Z',
+  previous_adjustment: 0.0245,
+  year_difficulty_change: 0.52,
+  current_halving_epoch_total_difficulty_change: 0.78,
+  previous_halving_epoch_total_difficulty_change: 1.25,
+  average_difficulty_change_per_epoch: 0.032,
+};
+
+const SAMPLE_PRICE_STATS: BraiinsInsightsPriceStats = {
+  price: 100000,
+  percent_change_24h: 2.5,
+  timestamp: '2025-12-16T04:00:00Z',
+};
+
+const S21_TEXAS = {
+  model: 'Antminer S21',
+  count: 100,
+  hashrate_ths: 200,
+  power_watts: 3500,
+  electricity_cost_kwh: 0.05,
+  site: 'Texas',
+};
+
+const S19_NORWAY = {
+  model: 'Antminer S19',
+  count: 50,
+  hashrate_ths: 100,
+  power_watts: 3250,
+  electricity_cost_kwh: 0.08,
+  uptime_percent: 90,
+  site: 'Norway',
+};
+
+describe('FleetProfitabilityTool', () => {
+  let tool: FleetProfitabilityTool;
+  let mockApiClient: ReturnType<typeof createMockApiClient>;
+
+  beforeEach(() => {
+    mockApiClient = createMockApiClient();
+    mockApiClient.getHashrateStats.mockResolvedValue(SAMPLE_HASHRATE_STATS);
+    mockApiClient.getDifficultyStats.mockResolvedValue(SAMPLE_DIFFICULTY_STATS);
+    mockApiClient.getPriceStats.mockResolvedValue(SAMPLE_PRICE_STATS);
+    tool = new FleetProfitabilityTool(mockApiClient as any);
+  });
+
+  describe('metadata', () => {
+    it('should have correct tool name and category', () => {
+      expect(tool.name).toBe('braiins_fleet_profitability');
+      expect(tool.category).toBe('composite');
+    });
+
+    it('should require machine groups', () => {
+      expect(tool.inputSchema.required).toEqual(['groups']);
+      expect(tool.inputSchema.properties.groups.items.required).toEqual([
+        'model',
+        'count',
+        'hashrate_ths',
+        'power_watts',
+        'electricity_cost_kwh',
+      ]);
+    });
+  });
+
+  describe('execute - happy path', () => {
+    it('should fetch one network snapshot for all groups', async () => {
+      await tool.execute({ groups: [S21_TEXAS, S19_NORWAY] });
+
+      expect(mockApiClient.getHashrateStats).toHaveBeenCalledTimes(1);
+      expect(mockApiClient.getDifficultyStats).toHaveBeenCalledTimes(1);
+      expect(mockApiClient.getPriceStats).toHaveBeenCalledTimes(1);
+    });
+
+    it('should calculate per-group economics', async () => {
+      const result = await tool.execute({ groups: [S21_TEXAS, S19_NORWAY] });
+
+      expect(result.isError).toBe(false);
+      const [s21, s19] = result.structuredContent?.['groups'] as Array<Record<string, number>>;
+
+      expect(s21).toMatchObject({
+        model: 'Antminer S21',
+        site: 'Texas',
+        machines: 100,
+        uptime_percent: 100,
+        efficiency_jth: 17.5,
+        effective_hashrate_ths: 20000,
+        power_kw: 350,
+        daily_energy_kwh: 8400,
+        daily_revenue_usd: 1000,
+        daily_revenue_btc: 0.01,
+        is_profitable: true,
+      });
+      expect(s21?.['daily_cost_usd']).toBeCloseTo(420);
+      expect(s21?.['daily_profit_usd']).toBeCloseTo(580);
+      expect(s21?.['breakeven_electricity_usd_per_kwh']).toBeCloseTo(0.119048, 6);
+      expect(s21?.['breakeven_hashprice_usd_per_th_day']).toBeCloseTo(0.021);
+
+      // Uptime scales hashrate and energy, but not the break-even power price
+      expect(s19).toMatchObject({ effective_hashrate_ths: 4500, is_profitable: false });
+      expect(s19?.['daily_energy_kwh']).toBeCloseTo(3510);
+      expect(s19?.['daily_profit_usd']).toBeCloseTo(-55.8);
+      expect(s19?.['breakeven_electricity_usd_per_kwh']).toBeCloseTo(0.05 / (32.5 * 0.024), 6);
+      expect(s19?.['breakeven_hashprice_usd_per_th_day']).toBeCloseTo(0.0624);
+    });
+
+    it('should total the fleet and project the next difficulty adjustment', async () => {
+      const result = await tool.execute({ groups: [S21_TEXAS, S19_NORWAY] });
+      const total = result.structuredContent?.['total'] as Record<string, number>;
+
+      expect(total).toMatchObject({
+        machines: 150,
+        effective_hashrate_ths: 24500,
+        power_kw: 512.5,
+        daily_revenue_usd: 1225,
+        is_profitable: true,
+      });
+      expect(total['daily_cost_usd']).toBeCloseTo(700.8);
+      expect(total['daily_profit_usd']).toBeCloseTo(524.2);
+      expect(total['annual_profit_usd']).toBeCloseTo(524.2 * 365);
+      expect(total['breakeven_electricity_usd_per_kwh']).toBeCloseTo(1225 / 11910, 6);
+      expect(total['breakeven_hashprice_usd_per_th_day']).toBeCloseTo(700.8 / 24500, 6);
+      expect(total['daily_profit_after_adjustment_usd']).toBeCloseTo(1225 / 1.1 - 700.8);
+
+      expect(result.structuredContent?.['network']).toMatchObject({
+        hashprice_usd_per_th_day: 0.05,
+        hashprice_sats_per_th_day: 50,
+        btc_price_usd: 100000,
+        estimated_adjustment_percent: 10,
+      });
+    });
+
+    it('should subtotal groups by site', async () => {
+      const result = await tool.execute({
+        groups: [S21_TEXAS, S19_NORWAY, { ...S21_TEXAS, model: 'Antminer S21 Hydro', count: 10 }],
+      });
+
+      const sites = result.structuredContent?.['sites'] as Array<Record<string, unknown>>;
+      expect(sites.map((site) => [site['site'], site['machines']])).toEqual([
+        ['Texas', 110],
+        ['Norway', 50],
+      ]);
+      expect(result.content[0]?.text).toContain('## Sites');
+    });
+
+    it('should omit site subtotals when no group names a site', async () => {
+      const { site: _site, ...unlabelled } = S21_TEXAS;
+
+      const result = await tool.execute({ groups: [unlabelled] });
+
+      expect(result.structuredContent?.['sites']).toEqual([]);
+      expect(result.content[0]?.text).not.toContain('## Sites');
+    });
+
+    it('should format a markdown report', async () => {
+      const result = await tool.execute({ groups: [S21_TEXAS, S19_NORWAY] });
+      const markdown = result.content[0]?.text ?? '';
+
+      expect(markdown).toContain('# 🏭 Mining Fleet Profitability');
+      expect(markdown).toContain('$0.0500/TH/day (50 sats/TH/day)');
+      expect(markdown).toContain('**Daily Profit:** +$524.20');
+      expect(markdown).toContain('| ✅ Antminer S21 | Texas | 100 |');
+      expect(markdown).toContain('1 group(s) losing money');
+      expect(markdown).toContain('Antminer S19 (Norway)');
+    });
+  });
+
+  describe('execute - errors', () => {
+    it('should reject an empty fleet', async () => {
+      const result = await tool.execute({ groups: [] });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain('At least one machine group is required');
+      expect(mockApiClient.getHashrateStats).not.toHaveBeenCalled();
+    });
+
+    it('should name the invalid group field', async () => {
+      const result = await tool.execute({
+        groups: [S21_TEXAS, { ...S19_NORWAY, uptime_percent: 120 }],
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain('groups.1.uptime_percent');
+    });
+
+    it('should handle API errors', async () => {
+      mockApiClient.getPriceStats.mockRejectedValue(new InsightsApiError('Server error', 500));
+
+      const result = await tool.execute({ groups: [S21_TEXAS] });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain('API Error');
+    });
+
+    it('should handle network errors', async () => {
+      mockApiClient.getHashrateStats.mockRejectedValue(new NetworkError('Connection refused'));
+
+      const result = await tool.execute({ groups: [S21_TEXAS] });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain('Network Error');
+    });
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Unit tests for braiins_mining_monte_carlo composite tool
+ */
+
+import { jest } from '@jest/globals';
+import {
+  MiningMonteCarloTool,
+  type MiningMonteCarloOutput,
+} from '../../../../src/tools/composite/mining-monte-carlo.js';
+import type { MCPToolResponse } from '../../../../src/tools/index.js';
+import {
+  BraiinsInsightsDailyRevenue,
+  BraiinsInsightsDifficultyStats,
+  BraiinsInsightsHalvingData,
+  BraiinsInsightsHashDiffHistory,
+  BraiinsInsightsHashrateStats,
+  BraiinsInsightsPriceStats,
+} from '../../../../src/types/insights-api.js';
+import { InsightsApiError, NetworkError } from '../../../../src/api/insights-client.js';
+
+// Mock API client
+const createMockApiClient = (): {
+  getPriceStats: jest.Mock;
+  getDifficultyStats: jest.Mock;
+  getHashrateStats: jest.Mock;
+  getHalvings: jest.Mock;
+  getDailyRevenueHistory: jest.Mock;
+  getHashrateAndDifficultyHistory: jest.Mock;
+} => ({
+  getPriceStats: jest.fn(),
+  getDifficultyStats: jest.fn(),
+  getHashrateStats: jest.fn(),
+  getHalvings: jest.fn(),
+  getDailyRevenueHistory: jest.fn(),
+  getHashrateAndDifficultyHistory: jest.fn(),
+});
+
+// Structured payload of a successful run, typed by the tool's output schema
+const structured = (result: MCPToolResponse): MiningMonteCarloOutput =>
+  result.structuredContent as MiningMonteCarloOutput;
+
+const DAY = 86_400_000;
+
+const SAMPLE_PRICE_STATS: BraiinsInsightsPriceStats = {
+  price: 100000,
+  percent_change_24h: 2.5,
+  timestamp: '2025-12-16T04:00:00Z',
+};
+
+const SAMPLE_DIFFICULTY_STATS: BraiinsInsightsDifficultyStats = {
+  difficulty: 100e12,
+  block_epoch: 432,
+  epoch_block_time: 545,
+  estimated_adjustment: 0.1,
+  estimated_next_diff: 110e12,
+  estimated_adjustment_date: '2025-12-20T12:00:00Z',
+  previous_adjustment: 0.0245,
+  year_difficulty_change: 0.52,
+  current_halving_epoch_total_difficulty_change: 0.78,
+  previous_halving_epoch_total_difficulty_change: 1.25,
+  average_difficulty_change_per_epoch: 0.032,
+};
+
+const SAMPLE_HASHRATE_STATS: BraiinsInsightsHashrateStats = {
+  avg_fees_per_block: 0.016,
+  current_hashrate: 1001.23,
+  current_hashrate_estimated: 1146.5,
+  fees_percent: 0,
+  hash_price: 0.05,
+  hash_rate_30: 1074.37,
+  hash_value: 5e-7,
+  monthly_avg_hashrate_change_1_year: { relative: 0.03, absolute: 29.47665536 },
+  rev_usd: 40872449.1,
+};
+
+const SAMPLE_HALVINGS: BraiinsInsightsHalvingData = {
+  next_halving_block: 1_050_000,
+  next_halving_date: '2028-04-15T00:00:00Z',
+  blocks_until_halving: 120_000,
+  current_reward_btc: 3.125,
+  next_reward_btc: 1.5625,
+};
+
+// Price alternating between $100k and $110k: ~182% annualized volatility
+const SAMPLE_REVENUE_HISTORY: BraiinsInsightsDailyRevenue[] = Array.from(
+  { length: 60 },
+  (_, index) => ({
+    date: new Date(Date.parse('2025-10-01T00:00:00Z') + index * DAY).toISOString(),
+    revenue_usd: (index % 2 === 0 ? 100_000 : 110_000) * 450,
+    block_rewards_btc: 450,
+    fees_btc: 0,
+  })
+);
+
+// Difficulty +1% every 14 days with no noise
+const SAMPLE_DIFFICULTY_HISTORY: BraiinsInsightsHashDiffHistory[] = Array.from(
+  { length: 27 },
+  (_, index) => ({
+    timestamp: new Date(Date.parse('2025-01-01T00:00:00Z') + index * 14 * DAY).toISOString(),
+    hashrate_ehs: 700,
+    difficulty: 90e12 * 1.01 ** index,
+  })
+);
+
+// 1 PH/s on 20 kW at $0.05/kWh: ~$63/day revenue, $24/day electricity
+const OPERATION = {
+  hashrate_ths: 1000,
+  consumption_watts: 20_000,
+  electricity_price_per_kwh: 0.05,
+  revenue_fees_rate: 0,
+  simulations: 200,
+  seed: 1,
+};
+
+describe('MiningMonteCarloTool', () => {
+  let tool: MiningMonteCarloTool;
+  let mockApiClient: ReturnType<typeof createMockApiClient>;
+
+  beforeEach(() => {
+    mockApiClient = createMockApiClient();
+    mockApiClient.getPriceStats.mockResolvedValue(SAMPLE_PRICE_STATS);
+    mockApiClient.getDifficultyStats.mockResolvedValue(SAMPLE_DIFFICULTY_STATS);
+    mockApiClient.getHashrateStats.mockResolvedValue(SAMPLE_HASHRATE_STATS);
+    mockApiClient.getHalvings.mockResolvedValue(SAMPLE_HALVINGS);
+    mockApiClient.getDailyRevenueHistory.mockResolvedValue(SAMPLE_REVENUE_HISTORY);
+    mockApiClient.getHashrateAndDifficultyHistory.mockResolvedValue(SAMPLE_DIFFICULTY_HISTORY);
+    tool = new MiningMonteCarloTool(mockApiClient as any);
+  });
+
+  describe('metadata', () => {
+    it('should have correct tool name and category', () => {
+      expect(tool.name).toBe('braiins_mining_monte_carlo');
+      expect(tool.category).toBe('composite');
+    });
+
+    it('should require the operation parameters', () => {
+      expect(tool.inputSchema.required).toEqual([
+        'hashrate_ths',
+        'consumption_watts',
+        'electricity_price_per_kwh',
+      ]);
+    });
+  });
+
+  describe('execute - happy path', () => {
+    it('should report monthly percentile bands of cumulative profit', async () => {
+      const result = await tool.execute({ ...OPERATION, horizon_months: 6 });
+
+      expect(result.isError).toBe(false);
+      const { cumulative_profit_bands: bands, probability_of_loss } = structured(result);
+      expect(bands.map((band) => band.month)).toEqual([1, 2, 3, 4, 5, 6]);
+      expect(bands.map((band) => band.day)).toEqual([30, 61, 91, 122, 152, 183]);
+      bands.forEach((band) => {
+        expect(band.p5).toBeLessThanOrEqual(band.p50);
+        expect(band.p50).toBeLessThanOrEqual(band.p95);
+      });
+      expect(probability_of_loss).toBeGreaterThanOrEqual(0);
+      expect(probability_of_loss).toBeLessThanOrEqual(1);
+    });
+
+    it('should estimate market models from history', async () => {
+      const result = await tool.execute(OPERATION);
+      const { assumptions } = structured(result);
+
+      expect(assumptions.price).toMatchObject({
+        yearly_change_rate: 0,
+        yearly_change_source: 'input',
+        volatility_source: 'history',
+      });
+      expect(assumptions.price.volatility).toBeCloseTo(Math.log(1.1) * Math.sqrt(365), 1);
+      expect(assumptions.difficulty_model).toMatchObject({
+        yearly_change_source: 'history',
+        volatility_source: 'history',
+      });
+      expect(assumptions.difficulty_model.yearly_change_rate).toBeCloseTo(
+        1.01 ** (365 / 14) - 1,
+        6
+      );
+      expect(assumptions.difficulty_model.volatility).toBeCloseTo(0, 6);
+    });
+
+    it('should use supplied models without fetching history', async () => {
+      const result = await tool.execute({
+        ...OPERATION,
+        price_volatility: 0.5,
+        yearly_difficulty_change_rate: 0.3,
+        difficulty_volatility: 0.05,
+      });
+      const { assumptions } = structured(result);
+
+      expect(mockApiClient.getDailyRevenueHistory).not.toHaveBeenCalled();
+      expect(mockApiClient.getHashrateAndDifficultyHistory).not.toHaveBeenCalled();
+      expect(assumptions.price).toMatchObject({ volatility: 0.5, volatility_source: 'input' });
+      expect(assumptions.difficulty_model).toMatchObject({
+        yearly_change_rate: 0.3,
+        volatility: 0.05,
+        yearly_change_source: 'input',
+        volatility_source: 'input',
+      });
+    });
+
+    it('should fall back to default models when history is unavailable', async () => {
+      mockApiClient.getDailyRevenueHistory.mockRejectedValue(new NetworkError('timeout'));
+      mockApiClient.getHashrateAndDifficultyHistory.mockResolvedValue([]);
+
+      const result = await tool.execute(OPERATION);
+      const { assumptions } = structured(result);
+
+      expect(result.isError).toBe(false);
+      expect(assumptions.price).toMatchObject({ volatility: 0.6, volatility_source: 'default' });
+      expect(assumptions.difficulty_model).toMatchObject({
+        yearly_change_rate: 0.02,
+        volatility: 0.1,
+        yearly_change_source: 'default',
+      });
+    });
+
+    it('should start from the current block height and next halving', async () => {
+      const result = await tool.execute(OPERATION);
+      const { assumptions } = structured(result);
+
+      expect(assumptions).toMatchObject({
+        btc_price_usd: 100000,
+        difficulty: 100e12,
+        block_height: 930_000,
+        block_subsidy_btc: 3.125,
+        fees_per_block_btc: 0,
+        next_halving_date: '2028-04-15T00:00:00Z',
+      });
+      expect(assumptions.halving_in_days).toBeGreaterThan(0);
+    });
+
+    it('should match the deterministic projection without volatility', async () => {
+      const result = await tool.execute({
+        ...OPERATION,
+        horizon_months: 1,
+        price_volatility: 0,
+        yearly_difficulty_change_rate: 0,
+        difficulty_volatility: 0,
+        capex: 500,
+      });
+      const { final_profit: final, payback } = structured(result);
+      const revenue = ((1000e12 * 86_400) / (100e12 * 2 ** 32)) * 3.125 * 100_000;
+
+      expect(final.p5).toBeCloseTo((revenue - 24) * 30 - 500, 4);
+      expect(final.p95).toBeCloseTo((revenue - 24) * 30 - 500, 4);
+      expect(payback.probability_within_horizon).toBe(1);
+      expect(payback.percentiles[2]).toMatchObject({
+        percentile: 50,
+        days: Math.ceil(500 / (revenue - 24)),
+      });
+    });
+
+    it('should reproduce results with the same seed and report generated seeds', async () => {
+      const first = await tool.execute({ ...OPERATION, horizon_months: 3 });
+      const second = await tool.execute({ ...OPERATION, horizon_months: 3 });
+
+      expect(structured(second).final_profit).toEqual(structured(first).final_profit);
+
+      const { seed: _seed, ...unseeded } = OPERATION;
+      const random = await tool.execute({ ...unseeded, horizon_months: 3 });
+      expect(Number.isInteger(structured(random).inputs.seed)).toBe(true);
+    });
+
+    it('should format a markdown report', async () => {
+      const result = await tool.execute({ ...OPERATION, capex: 5000 });
+      const markdown = result.content[0]?.text ?? '';
+
+      expect(markdown).toContain('# 🎲 Mining Monte Carlo Projection');
+      expect(markdown).toContain('Probability of Loss');
+      expect(markdown).toContain('## Cumulative Profit After Capex');
+      expect(markdown).toContain('## Payback');
+      expect(markdown).toContain('## Assumptions');
+      expect(markdown).toContain('Seed 1');
+      // 24 months are summarized in at most 12 rows
+      expect(markdown.match(/^\| \d+ \| \d{4}-/gm)).toHaveLength(12);
+    });
+  });
+
+  describe('execute - validation', () => {
+    it('should reject missing parameters', async () => {
+      const result = await tool.execute({ hashrate_ths: 1000 });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain('Validation Error');
+      expect(mockApiClient.getPriceStats).not.toHaveBeenCalled();
+    });
+
+    it('should cap the number of simulations', async () => {
+      const result = await tool.execute({ ...OPERATION, simulations: 50_000 });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain('At most 10,000 simulations');
+    });
+  });
+
+  describe('execute - API errors', () => {
+    it('should report API errors', async () => {
+      mockApiClient.getHalvings.mockRejectedValue(
+        new InsightsApiError('Server error', 500, '/v2.0/halvings')
+      );
+
+      const result = await tool.execute(OPERATION);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain('API Error');
+    });
+
+    it('should report network errors', async () => {
+      mockApiClient.getPriceStats.mockRejectedValue(new NetworkError('Connection refused'));
+
+      const result = await tool.execute(OPERATION);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain('Network Error');
+    });
+  });
+});
@@ -7,7 +7,11 @@
  */
 
 import { jest } from '@jest/globals';
-import { CostToMineTool } from '../../../src/tools/parameterized/cost-to-mine.js';
+import {
+  CostToMineTool,
+  type CostToMineOutput,
+} from '../../../src/tools/parameterized/cost-to-mine.js';
+import type { MCPToolResponse } from '../../../src/tools/index.js';
 import { BraiinsInsightsCostToMine } from '../../../src/types/insights-api.js';
 import {
   InsightsApiError,
@@ -16,10 +20,21 @@ import {
 } from '../../../src/api/insights-client.js';
 
 // Mock API client
-const createMockApiClient = (): { getCostToMine: jest.Mock } => ({
+const createMockApiClient = (): Record<
+  'getCostToMine' | 'getPriceStats' | 'getDifficultyStats' | 'getHashrateStats' | 'getHalvings',
+  jest.Mock
+> => ({
   getCostToMine: jest.fn(),
+  getPriceStats: jest.fn(),
+  getDifficultyStats: jest.fn(),
+  getHashrateStats: jest.fn(),
+  getHalvings: jest.fn(),
 });
 
+// Structured payload of a successful run, typed by the tool's output schema
+const structured = (result: MCPToolResponse): CostToMineOutput =>
+  result.structuredContent as CostToMineOutput;
+
 // Helper to create mock API response with realistic values
 const createMockResponse = (
   overrides: {
@@ -608,4 +623,458 @@ describe('CostToMineTool', () => {
       expect(markdown).toContain('BTC');
     });
   });
+
+  describe('projection', () => {
+    const INPUT = { hashrate_ths: 100, consumption_watts: 3000, electricity_price_per_kwh: 0.05 };
+
+    it('should return one projection row per period', async () => {
+      mockApiClient.getCostToMine.mockResolvedValue(SAMPLE_PROFITABLE_RESPONSE);
+
+      const result = await tool.execute(INPUT);
+      const { projection } = structured(result);
+
+      expect(projection).toHaveLength(5);
+      expect(projection[0]).toEqual({
+        period: 1,
+        date: '2025-12-17',
+        btc_price_usd: 85877.0,
+        marginal_cost_to_mine_usd: 137999.495,
+        total_cost_to_mine_usd: 137999.495,
+        marginal_break_even_electricity_usd_per_kwh: 0.05,
+        total_break_even_electricity_usd_per_kwh: 0.05,
+      });
+      expect(projection[1]?.date).toBe('2026-01-17');
+      // Shorter arrays leave later periods empty
+      expect(projection[4]).toMatchObject({ period: 5, marginal_cost_to_mine_usd: null });
+    });
+
+    it('should return cost by electricity price', async () => {
+      mockApiClient.getCostToMine.mockResolvedValue(SAMPLE_PROFITABLE_RESPONSE);
+
+      const result = await tool.execute(INPUT);
+
+      expect(structured(result).cost_by_electricity_price[5]).toEqual({
+        electricity_price_per_kwh: 0.05,
+        cost_to_mine_btc_usd: 86249.69,
+        margin_usd: -372.69,
+      });
+    });
+
+    it('should render a projection table labelled by period resolution', async () => {
+      const response = createMockResponse();
+      response.payload.period_resolution = '1w';
+      mockApiClient.getCostToMine.mockResolvedValue(response);
+
+      const result = await tool.execute({ ...INPUT, period_resolution: '1w' });
+      const markdown = result.content[0].text;
+
+      expect(markdown).toContain('## Weekly Projection');
+      expect(markdown).toContain('| Week | Date | BTC Price | Marginal Cost |');
+      expect(markdown).toContain(
+        '| 2 | 2025-12-24 | $85,877.00 | $138,227.41 | $138,227.41 | -$52,350.41 |'
+      );
+      expect(markdown).toContain('| 5 | 2026-01-14 | $85,877.00 | – | – | – | – | – |');
+      expect(markdown).toMatch(/Marginal cost\/BTC +▁▄█ +\$137,999\.50 → \$138,455\.71/);
+    });
+
+    it('should render the electricity price sweep with the current price marked', async () => {
+      mockApiClient.getCostToMine.mockResolvedValue(SAMPLE_PROFITABLE_RESPONSE);
+
+      const result = await tool.execute(INPUT);
+      const markdown = result.content[0].text;
+
+      expect(markdown).toContain('## Cost by Electricity Price');
+      expect(markdown).toContain('Cost to mine 1 BTC  ▁▂▄▅▇█');
+      expect(markdown).toContain('| $0.050/kWh ⬅️ | $86,249.69 | -$372.69 |');
+    });
+
+    it('should attach an SVG chart only when requested', async () => {
+      mockApiClient.getCostToMine.mockResolvedValue(SAMPLE_PROFITABLE_RESPONSE);
+
+      const plain = await tool.execute(INPUT);
+      const charted = await tool.execute({ ...INPUT, include_chart: true });
+      const image = charted.content[1];
+      const svg = image?.type === 'image' ? Buffer.from(image.data, 'base64').toString('utf8') : '';
+
+      expect(plain.content).toHaveLength(1);
+      expect(charted.content).toHaveLength(2);
+      expect(image).toMatchObject({ type: 'image', mimeType: 'image/svg+xml' });
+      expect(svg).toContain('Monthly Cost to Mine 1 BTC vs BTC Price');
+      expect(svg.match(/<path /g)).toHaveLength(3);
+      expect(svg).toContain('>2025-12-17</text>');
+    });
+  });
+
+  describe('scenario matrix', () => {
+    const SCENARIO_INPUT = {
+      hashrate_ths: 100,
+      consumption_watts: 3000,
+      electricity_price_per_kwh: 0.08,
+      scenario: {
+        x: { variable: 'price', values: [50000, 100000] },
+        y: { variable: 'electricity_price_per_kwh', values: [0.05, 0.07] },
+      },
+    };
+
+    it('should pass price and difficulty overrides to the API', async () => {
+      mockApiClient.getCostToMine.mockResolvedValue(SAMPLE_UNPROFITABLE_RESPONSE);
+
+      await tool.execute({ ...SCENARIO_INPUT, price: 90000, difficulty: 1.5e14 });
+
+      expect(mockApiClient.getCostToMine).toHaveBeenCalledTimes(1);
+      expect(mockApiClient.getCostToMine).toHaveBeenCalledWith({
+        hashrate_ths: 100,
+        consumption_watts: 3000,
+        electricity_price_per_kwh: 0.08,
+        price: 90000,
+        difficulty: 1.5e14,
+      });
+    });
+
+    it('should return a profit matrix from one API call', async () => {
+      mockApiClient.getCostToMine.mockResolvedValue(SAMPLE_UNPROFITABLE_RESPONSE);
+
+      const result = await tool.execute(SCENARIO_INPUT);
+      const { scenario } = structured(result);
+
+      expect(mockApiClient.getCostToMine).toHaveBeenCalledTimes(1);
+      expect(scenario?.cells).toHaveLength(4);
+
+      // 0.00004174 BTC/day (after the 2% pool fee) at $50k, 72 kWh/day at $0.05
+      const revenue = 0.00004174 * 50000;
+      expect(scenario?.cells[0]).toMatchObject({
+        x: 50000,
+        y: 0.05,
+        btc_price_usd: 50000,
+        network_difficulty: 148195306640204.7,
+        electricity_price_per_kwh: 0.05,
+        is_profitable: false,
+      });
+      expect(scenario?.cells[0]?.daily_revenue_usd).toBeCloseTo(revenue);
+      expect(scenario?.cells[0]?.daily_profit_usd).toBeCloseTo(revenue - 3.6);
+      expect(scenario?.break_even[0]?.x).toBeCloseTo(3.6 / 0.00004174);
+      expect(scenario?.profitable_cells).toBe(1);
+    });
+
+    it('should render a heat map with the break-even contour', async () => {
+      mockApiClient.getCostToMine.mockResolvedValue(SAMPLE_UNPROFITABLE_RESPONSE);
+
+      const result = await tool.execute(SCENARIO_INPUT);
+      const markdown = result.content[0].text;
+
+      expect(markdown).toContain('## Scenario Matrix: Electricity × BTC Price');
+      expect(markdown).toContain(
+        '| Electricity ↓ / BTC Price → | $50,000 | $100,000 | Break-even |'
+      );
+      expect(markdown).toContain('| **$0.050/kWh** | 🔴 -$1.51 | 🟢 +$0.57 | $86,248 |');
+      expect(markdown).toContain('| **$0.070/kWh** | 🔴 -$2.95 | 🔴 -$0.87 | $120,747 |');
+    });
+
+    it('should sweep difficulty change against hashprice', async () => {
+      mockApiClient.getCostToMine.mockResolvedValue(SAMPLE_UNPROFITABLE_RESPONSE);
+
+      const result = await tool.execute({
+        ...SCENARIO_INPUT,
+        scenario: {
+          x: { variable: 'hashprice', values: [0.04, 0.06] },
+          y: { variable: 'difficulty_change', values: [0, 0.1] },
+        },
+      });
+
+      const { scenario } = structured(result);
+      // Hashprice is gross: 0.0000004174 BTC/TH/day before the 2% pool fee
+      expect(scenario?.cells[0]?.btc_price_usd).toBeCloseTo(0.04 / (0.0000004174 / 0.98));
+      expect(scenario?.cells[2]?.network_difficulty).toBeCloseTo(148195306640204.7 * 1.1, -2);
+      expect(result.content[0].text).toContain('+10.0%');
+    });
+
+    it('should omit the scenario when not requested', async () => {
+      mockApiClient.getCostToMine.mockResolvedValue(SAMPLE_UNPROFITABLE_RESPONSE);
+
+      const result = await tool.execute({ ...SCENARIO_INPUT, scenario: undefined });
+
+      expect(structured(result).scenario).toBeNull();
+      expect(result.content[0].text).not.toContain('Scenario Matrix');
+    });
+
+    it('should reject sweeping the same variable twice', async () => {
+      const result = await tool.execute({
+        ...SCENARIO_INPUT,
+        scenario: { x: SCENARIO_INPUT.scenario.x, y: SCENARIO_INPUT.scenario.x },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('x and y must sweep different variables');
+      expect(mockApiClient.getCostToMine).not.toHaveBeenCalled();
+    });
+
+    it('should reject price with hashprice and out-of-range values', async () => {
+      const result = await tool.execute({
+        ...SCENARIO_INPUT,
+        scenario: {
+          x: { variable: 'price', values: [50000] },
+          y: { variable: 'hashprice', values: [0.05] },
+        },
+      });
+      expect(result.content[0].text).toContain('price and hashprice cannot be swept together');
+
+      const outOfRange = await tool.execute({
+        ...SCENARIO_INPUT,
+        scenario: {
+          x: SCENARIO_INPUT.scenario.x,
+          y: { variable: 'electricity_price_per_kwh', values: [0.05, 1.5] },
+        },
+      });
+      expect(outOfRange.isError).toBe(true);
+      expect(outOfRange.content[0].text).toContain('scenario.y.values.1');
+    });
+  });
+
+  describe('investment model', () => {
+    // 1 PH/s on 20 kW at $0.05/kWh, calculated offline: ~$61/day revenue, $24/day power
+    const INVESTMENT_INPUT = {
+      hashrate_ths: 1000,
+      consumption_watts: 20000,
+      electricity_price_per_kwh: 0.05,
+      price: 100000,
+      difficulty: 1e14,
+      yearly_difficulty_change_rate: 0,
+      periods: 12,
+      engine: 'local',
+    };
+
+    it('should forward financing inputs to the API', async () => {
+      mockApiClient.getCostToMine.mockResolvedValue(SAMPLE_PROFITABLE_RESPONSE);
+
+      await tool.execute({
+        hashrate_ths: 100,
+        consumption_watts: 3000,
+        electricity_price_per_kwh: 0.05,
+        capex: 5000,
+        monthly_fixed_opex: 20,
+        loan_amount_fiat: 3000,
+        loan_interest_rate: 0.1,
+        loan_payback_periods: 12,
+        hodl_rate: 0.5,
+      });
+
+      expect(mockApiClient.getCostToMine).toHaveBeenCalledWith({
+        hashrate_ths: 100,
+        consumption_watts: 3000,
+        electricity_price_per_kwh: 0.05,
+        capex: 5000,
+        monthly_fixed_opex: 20,
+        loan_amount_fiat: 3000,
+        loan_interest_rate: 0.1,
+        loan_payback_periods: 12,
+        hodl_rate: 0.5,
+      });
+    });
+
+    it('should omit the investment model without investment inputs', async () => {
+      mockApiClient.getCostToMine.mockResolvedValue(SAMPLE_PROFITABLE_RESPONSE);
+
+      const result = await tool.execute({
+        hashrate_ths: 100,
+        consumption_watts: 3000,
+        electricity_price_per_kwh: 0.05,
+        monthly_fixed_opex: 20,
+      });
+
+      expect(structured(result).investment).toBeNull();
+      expect(result.content[0].text).not.toContain('Investment Model');
+    });
+
+    it('should evaluate capex, payback, NPV and IRR', async () => {
+      const result = await tool.execute({ ...INVESTMENT_INPUT, capex: 10000 });
+      const { investment } = structured(result);
+      const flows = investment?.cash_flows ?? [];
+      const monthlyCashFlow = flows[0]?.cash_flow_usd ?? 0;
+
+      expect(result.isError).toBe(false);
+      expect(flows).toHaveLength(12);
+      expect(flows[0]?.electricity_cost_usd).toBeCloseTo(480 * 0.05 * (365 / 12), 6);
+      expect(monthlyCashFlow).toBeGreaterThan(0);
+      expect(investment?.initial_cash_flow_usd).toBe(-10000);
+      expect(investment?.payback_periods).toBeCloseTo(10000 / monthlyCashFlow, 6);
+      expect(investment?.payback_days).toBeCloseTo((10000 / monthlyCashFlow) * (365 / 12), 4);
+      // Without depreciation the hardware keeps its capex value
+      expect(investment?.terminal.hardware_value_usd).toBe(10000);
+      expect(investment?.npv_usd).toBeCloseTo(monthlyCashFlow * 12, 4);
+      expect(investment?.irr).toBeGreaterThan(0);
+      expect(investment?.loan_schedule).toEqual([]);
+    });
+
+    it('should report loan amortization and after-tax cash flows', async () => {
+      const result = await tool.execute({
+        ...INVESTMENT_INPUT,
+        capex: 10000,
+        loan_amount_fiat: 6000,
+        loan_interest_rate: 0.12,
+        loan_payback_periods: 6,
+        income_tax_rate: 0.25,
+        yearly_hardware_value_change_rate: -0.5,
+        discount_rate: 0.1,
+      });
+      const { investment } = structured(result);
+      const schedule = investment?.loan_schedule ?? [];
+      const first = investment?.cash_flows[0];
+
+      expect(investment?.initial_cash_flow_usd).toBe(-4000);
+      expect(schedule).toHaveLength(6);
+      expect(schedule[0]?.interest_usd).toBeCloseTo(60, 6);
+      expect(schedule[5]?.closing_balance_usd).toBeCloseTo(0, 6);
+      expect(first?.interest_usd).toBeCloseTo(60, 6);
+      expect(first?.depreciation_usd).toBeCloseTo(10000 * (1 - 0.5 ** (1 / 12)), 6);
+      expect(first?.tax_usd).toBeCloseTo((first?.taxable_income_usd ?? 0) * 0.25, 6);
+      expect(first?.cash_flow_usd).toBeCloseTo(
+        (first?.revenue_usd ?? 0) -
+          (first?.electricity_cost_usd ?? 0) -
+          (schedule[0]?.payment_usd ?? 0) -
+          (first?.tax_usd ?? 0),
+        6
+      );
+      expect(investment?.terminal.hardware_value_usd).toBeCloseTo(5000, 6);
+
+      const markdown = result.content[0].text;
+      expect(markdown).toContain('## Investment Model (1m periods)');
+      expect(markdown).toContain('**NPV** (10.0% discount)');
+      expect(markdown).toContain('### After-Tax Cash Flows');
+      expect(markdown).toContain('### Loan Amortization');
+      expect(markdown).toContain('| **Loan** | $6,000.00 at 12.00%/year over 6 periods |');
+    });
+
+    it('should hold the HODL share of mined BTC to the end', async () => {
+      const result = await tool.execute({ ...INVESTMENT_INPUT, hodl_rate: 1 });
+      const { investment } = structured(result);
+      const flows = investment?.cash_flows ?? [];
+
+      expect(flows[0]?.sold_revenue_usd).toBe(0);
+      expect(investment?.terminal.btc_held).toBeCloseTo(
+        flows.reduce((sum, flow) => sum + flow.btc_mined, 0),
+        12
+      );
+      expect(investment?.terminal.btc_value_usd).toBeCloseTo(
+        (investment?.terminal.btc_held ?? 0) * 100000,
+        6
+      );
+      expect(result.content[0].text).toContain('**BTC Held at End**');
+    });
+
+    it('should require loan payback periods with a loan', async () => {
+      const result = await tool.execute({ ...INVESTMENT_INPUT, loan_amount_fiat: 5000 });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(
+        'loan_payback_periods: loan_payback_periods is required with a loan'
+      );
+    });
+  });
+
+  describe('local engine fallback', () => {
+    const INPUT = { hashrate_ths: 100, consumption_watts: 3000, electricity_price_per_kwh: 0.08 };
+
+    beforeEach(() => {
+      mockApiClient.getCostToMine.mockRejectedValue(new NetworkError('Circuit breaker open'));
+      mockApiClient.getPriceStats.mockResolvedValue({
+        price: 85877,
+        percent_change_24h: 0,
+        timestamp: '2025-12-17T19:00:00Z',
+      });
+      mockApiClient.getDifficultyStats.mockResolvedValue({ difficulty: 148195306640204.7 });
+      mockApiClient.getHashrateStats.mockResolvedValue({ fees_percent: 0.4037 });
+      mockApiClient.getHalvings.mockResolvedValue({
+        next_halving_block: 1_050_000,
+        blocks_until_halving: 122_000,
+      });
+    });
+
+    it('should reproduce the API result when the API is unreachable', async () => {
+      const result = await tool.execute(INPUT);
+
+      expect(result.isError).toBe(false);
+      expect(result.structuredContent).toMatchObject({
+        engine: 'local',
+        engine_note: 'Braiins Insights API unreachable (Circuit breaker open)',
+        btc_price_usd: 85877,
+        network_difficulty: 148195306640204.7,
+        btc_mined_daily: expect.closeTo(0.00004174, 8),
+        is_profitable: false,
+      });
+      expect(result.content[0].text).toContain('Calculated by the local mining-economics engine');
+      expect(result.content[0].text).toContain('BTC price from API stats (may be cached)');
+      expect(result.content[0].text).not.toContain('[Braiins Insights Dashboard]');
+    });
+
+    it('should calculate fully offline when requested with price and difficulty', async () => {
+      const result = await tool.execute({
+        ...INPUT,
+        price: 100000,
+        difficulty: 1e14,
+        engine: 'local',
+        scenario: {
+          x: { variable: 'price', values: [50000, 100000] },
+          y: { variable: 'electricity_price_per_kwh', values: [0.05] },
+        },
+      });
+
+      expect(Object.values(mockApiClient).every((mock) => mock.mock.calls.length === 0)).toBe(true);
+      expect(result.structuredContent).toMatchObject({
+        engine: 'local',
+        engine_note: 'local engine requested',
+        btc_price_usd: 100000,
+        network_difficulty: 1e14,
+      });
+      expect(structured(result).scenario).not.toBeNull();
+      expect(result.content[0].text).toContain('block subsidy estimated from the date');
+    });
+
+    it('should include fixed opex in scenario cells like the headline profit', async () => {
+      const result = await tool.execute({
+        ...INPUT,
+        price: 100000,
+        difficulty: 1e14,
+        monthly_fixed_opex: 365,
+        engine: 'local',
+        scenario: {
+          x: { variable: 'price', values: [100000] },
+          y: { variable: 'electricity_price_per_kwh', values: [0.08] },
+        },
+      });
+
+      expect(result.structuredContent).toMatchObject({
+        daily_profit_usd: expect.any(Number),
+        scenario: { cells: [{ daily_cost_usd: expect.closeTo(72 * 0.08 + 12, 6) }] },
+      });
+      const { daily_profit_usd: profit, scenario } = structured(result);
+      expect(scenario?.cells[0]?.daily_profit_usd).toBeCloseTo(profit, 6);
+    });
+
+    it('should return the API error when the local engine has no inputs', async () => {
+      mockApiClient.getDifficultyStats.mockRejectedValue(new NetworkError('offline'));
+
+      const result = await tool.execute(INPUT);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Network Error');
+    });
+
+    it('should not fall back on validation errors', async () => {
+      mockApiClient.getCostToMine.mockRejectedValue(new ValidationError('Invalid response'));
+
+      const result = await tool.execute(INPUT);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Validation Error');
+      expect(mockApiClient.getPriceStats).not.toHaveBeenCalled();
+    });
+
+    it('should attribute API results to the API', async () => {
+      mockApiClient.getCostToMine.mockResolvedValue(SAMPLE_PROFITABLE_RESPONSE);
+
+      const result = await tool.execute(INPUT);
+
+      expect(result.structuredContent).toMatchObject({ engine: 'api', engine_note: null });
+    });
+  });
 });
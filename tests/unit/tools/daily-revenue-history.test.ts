@@ -3,15 +3,23 @@
  */
 
 import { jest } from '@jest/globals';
-import { DailyRevenueHistoryTool } from '../../../src/tools/historical/daily-revenue-history.js';
+import {
+  DailyRevenueHistoryTool,
+  type DailyRevenueHistoryOutput,
+} from '../../../src/tools/historical/daily-revenue-history.js';
 import { BraiinsInsightsDailyRevenue } from '../../../src/types/insights-api.js';
 import { InsightsApiError, NetworkError } from '../../../src/api/insights-client.js';
+import type { MCPToolResponse } from '../../../src/tools/index.js';
 
 // Mock API client
 const createMockApiClient = (): { getDailyRevenueHistory: jest.Mock } => ({
   getDailyRevenueHistory: jest.fn(),
 });
 
+// Structured payload of a successful run, typed by the tool's output schema
+const structured = (result: MCPToolResponse): DailyRevenueHistoryOutput =>
+  result.structuredContent as DailyRevenueHistoryOutput;
+
 // Sample valid response data
 const SAMPLE_DAILY_REVENUE: BraiinsInsightsDailyRevenue[] = [
   {
@@ -168,7 +176,94 @@ describe('DailyRevenueHistoryTool', () => {
     });
   });
 
+  describe('execute - chart', () => {
+    const decodeSvg = (result: MCPToolResponse): string => {
+      const image = result.content[1];
+      return image?.type === 'image' ? Buffer.from(image.data, 'base64').toString('utf8') : '';
+    };
+
+    it('should chart revenue in USD and BTC when requested', async () => {
+      mockApiClient.getDailyRevenueHistory.mockResolvedValue(SAMPLE_DAILY_REVENUE);
+
+      const plain = await tool.execute({});
+      const result = await tool.execute({ include_chart: true });
+      const svg = decodeSvg(result);
+
+      expect(plain.content).toHaveLength(1);
+      expect(result.content[1]).toMatchObject({ type: 'image', mimeType: 'image/svg+xml' });
+      expect(svg).toContain('Bitcoin Mining Daily Revenue');
+      expect(svg.match(/<path /g)).toHaveLength(2);
+      expect(svg).toContain('>Revenue in BTC (right)</text>');
+    });
+
+    it('should chart USD only when BTC revenue is unavailable', async () => {
+      mockApiClient.getDailyRevenueHistory.mockResolvedValue(
+        SAMPLE_DAILY_REVENUE.map(({ date, revenue_usd }) => ({ date, revenue_usd }))
+      );
+
+      const result = await tool.execute({ include_chart: true });
+
+      expect(decodeSvg(result).match(/<path /g)).toHaveLength(1);
+    });
+  });
+
+  describe('execute - time series', () => {
+    it('should total revenue per ISO week', async () => {
+      mockApiClient.getDailyRevenueHistory.mockResolvedValue(SAMPLE_DAILY_REVENUE);
+
+      const result = await tool.execute({ resample: 'weekly', aggregation: 'sum' });
+      const output = structured(result);
+
+      // 2025-12-15 is a Monday
+      expect(output.data_points).toHaveLength(2);
+      expect(output.data_points[1]).toMatchObject({
+        date: '2025-12-08',
+        revenue_usd: 80300000,
+        fees_btc: 22,
+        period_end: '2025-12-14',
+        sample_count: 2,
+      });
+      expect(output.query).toMatchObject({ resample: 'weekly', aggregation: 'sum' });
+      expect(result.content[0].text).toContain('**Window:** weekly sum');
+    });
+
+    it('should filter to the date window', async () => {
+      mockApiClient.getDailyRevenueHistory.mockResolvedValue(SAMPLE_DAILY_REVENUE);
+
+      const result = await tool.execute({ start_date: '2025-12-14' });
+      const output = structured(result);
+
+      expect(output.data_points.map((point) => point.date)).toEqual(['2025-12-15', '2025-12-14']);
+      expect(output.query).toMatchObject({ start_date: '2025-12-14', end_date: null });
+    });
+
+    it('should add a moving average column', async () => {
+      mockApiClient.getDailyRevenueHistory.mockResolvedValue(SAMPLE_DAILY_REVENUE);
+
+      const result = await tool.execute({ moving_average: 3 });
+      const output = structured(result);
+
+      expect(output.data_points[0]?.moving_average?.revenue_usd).toBeCloseTo(40433333.33, 1);
+      expect(output.data_points[1]?.moving_average?.revenue_usd).toBeNull();
+      expect(result.content[0].text).toContain('3-pt MA (USD)');
+    });
+  });
+
   describe('execute - edge cases', () => {
+    it('should explain when the date window excludes all data', async () => {
+      mockApiClient.getDailyRevenueHistory.mockResolvedValue(SAMPLE_DAILY_REVENUE);
+
+      const result = await tool.execute({ start_date: '2020-01-01', end_date: '2020-12-31' });
+
+      expect(result.isError).toBe(false);
+      const text = result.content[0].text;
+      expect(text).toContain('No Data Available');
+      expect(text).toContain('**Window:** 2020-01-01 to 2020-12-31');
+      expect(text).toContain('No data falls within the requested window');
+      expect(text).not.toContain('returned from the API');
+      expect(structured(result).total_available).toBe(SAMPLE_DAILY_REVENUE.length);
+    });
+
     it('should handle empty data array', async () => {
       mockApiClient.getDailyRevenueHistory.mockResolvedValue([]);
 
@@ -0,0 +1,317 @@
+/**
+ * Unit tests for braiins_hardware_catalog tool
+ */
+
+import { jest } from '@jest/globals';
+import { HardwareCatalogTool } from '../../../src/tools/parameterized/hardware-catalog.js';
+import { BraiinsInsightsHardwareStats } from '../../../src/types/insights-api.js';
+import {
+  InsightsApiError,
+  NetworkError,
+  ValidationError,
+} from '../../../src/api/insights-client.js';
+
+// Mock API client
+const createMockApiClient = (): { getHardwareStats: jest.Mock } => ({
+  getHardwareStats: jest.fn(),
+});
+
+// Sample hardware catalog
+const SAMPLE_HARDWARE: BraiinsInsightsHardwareStats[] = [
+  {
+    model: 'Antminer S19 Pro',
+    hashrate_ths: 110,
+    power_watts: 3250,
+    efficiency_jth: 29.5,
+    manufacturer: 'Bitmain',
+    release_date: '2020-05-01',
+  },
+  {
+    model: 'Antminer S21',
+    hashrate_ths: 200,
+    power_watts: 3500,
+    efficiency_jth: 17.5,
+    manufacturer: 'Bitmain',
+    release_date: '2023-10-01',
+  },
+  {
+    model: 'Whatsminer M60S',
+    hashrate_ths: 186,
+    power_watts: 3441,
+    efficiency_jth: 18.5,
+    manufacturer: 'MicroBT',
+    release_date: '2023-11-15',
+  },
+  {
+    model: 'Avalon A1466',
+    hashrate_ths: 150,
+    power_watts: 3230,
+    efficiency_jth: 21.5,
+    manufacturer: 'Canaan',
+  },
+  {
+    model: 'Antminer S9',
+    hashrate_ths: 13.5,
+    power_watts: 1323,
+    efficiency_jth: 98,
+    manufacturer: 'Bitmain',
+    release_date: '2016-06-01',
+  },
+];
+
+/**
+ * Extract model names from the ranked table in order of appearance
+ */
+const extractRankedModels = (markdown: string): string[] =>
+  markdown
+    .split('\n')
+    .filter((line) => /^\| \d+ \|/.test(line))
+    .map((line) => line.split('|')[2]?.trim() ?? '');
+
+describe('HardwareCatalogTool', () => {
+  let tool: HardwareCatalogTool;
+  let mockApiClient: ReturnType<typeof createMockApiClient>;
+
+  beforeEach(() => {
+    mockApiClient = createMockApiClient();
+    tool = new HardwareCatalogTool(mockApiClient as any);
+  });
+
+  describe('metadata', () => {
+    it('should have correct tool name', () => {
+      expect(tool.name).toBe('braiins_hardware_catalog');
+    });
+
+    it('should have descriptive description', () => {
+      expect(tool.description).toContain('J/TH');
+      expect(tool.description.length).toBeGreaterThan(20);
+    });
+
+    it('should have only optional parameters', () => {
+      expect(tool.inputSchema.type).toBe('object');
+      expect(tool.inputSchema.properties).toHaveProperty('manufacturer');
+      expect(tool.inputSchema.properties).toHaveProperty('max_efficiency_jth');
+      expect(tool.inputSchema.properties).toHaveProperty('sort_by');
+      expect(tool.inputSchema.required).toEqual([]);
+    });
+
+    it('should advertise the same lower bounds the validator enforces', () => {
+      const properties = tool.inputSchema.properties;
+      expect(properties.min_efficiency_jth).toMatchObject({ exclusiveMinimum: 0 });
+      expect(properties.max_efficiency_jth).toMatchObject({ exclusiveMinimum: 0 });
+      expect(properties.max_hashrate_ths).toMatchObject({ exclusiveMinimum: 0 });
+      expect(properties.min_hashrate_ths).toMatchObject({ minimum: 0 });
+    });
+  });
+
+  describe('execute - happy path', () => {
+    it('should rank all models by efficiency by default', async () => {
+      mockApiClient.getHardwareStats.mockResolvedValue(SAMPLE_HARDWARE);
+
+      const result = await tool.execute({});
+
+      expect(mockApiClient.getHardwareStats).toHaveBeenCalledWith({});
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toContain('Bitcoin ASIC Hardware Catalog');
+      expect(extractRankedModels(result.content[0].text)).toEqual([
+        'Antminer S21',
+        'Whatsminer M60S',
+        'Avalon A1466',
+        'Antminer S19 Pro',
+        'Antminer S9',
+      ]);
+    });
+
+    it('should pass requested models to the API', async () => {
+      mockApiClient.getHardwareStats.mockResolvedValue([SAMPLE_HARDWARE[1]]);
+
+      await tool.execute({ models: ['Antminer S21'] });
+
+      expect(mockApiClient.getHardwareStats).toHaveBeenCalledWith({ models: ['Antminer S21'] });
+    });
+
+    it('should include summary statistics', async () => {
+      mockApiClient.getHardwareStats.mockResolvedValue(SAMPLE_HARDWARE);
+
+      const result = await tool.execute({});
+      const markdown = result.content[0].text;
+
+      expect(markdown).toContain('**Most Efficient:** Antminer S21 (17.5 J/TH)');
+      expect(markdown).toContain('Efficiency Range:** 17.5 – 98.0 J/TH');
+      expect(markdown).toContain('Matches:** 5 of 5 models');
+    });
+  });
+
+  describe('execute - filtering', () => {
+    it('should filter models under an efficiency ceiling', async () => {
+      mockApiClient.getHardwareStats.mockResolvedValue(SAMPLE_HARDWARE);
+
+      const result = await tool.execute({ max_efficiency_jth: 20 });
+
+      expect(extractRankedModels(result.content[0].text)).toEqual([
+        'Antminer S21',
+        'Whatsminer M60S',
+      ]);
+      expect(result.content[0].text).toContain('≤ 20 J/TH');
+    });
+
+    it('should filter by manufacturer case-insensitively', async () => {
+      mockApiClient.getHardwareStats.mockResolvedValue(SAMPLE_HARDWARE);
+
+      const result = await tool.execute({ manufacturer: 'microbt' });
+
+      expect(extractRankedModels(result.content[0].text)).toEqual(['Whatsminer M60S']);
+    });
+
+    it('should match manufacturer against model name when manufacturer is missing', async () => {
+      mockApiClient.getHardwareStats.mockResolvedValue([
+        { model: 'Avalon Q', hashrate_ths: 90, power_watts: 1674, efficiency_jth: 18.6 },
+      ]);
+
+      const result = await tool.execute({ manufacturer: 'avalon' });
+
+      expect(extractRankedModels(result.content[0].text)).toEqual(['Avalon Q']);
+    });
+
+    it('should filter by hashrate range', async () => {
+      mockApiClient.getHardwareStats.mockResolvedValue(SAMPLE_HARDWARE);
+
+      const result = await tool.execute({ min_hashrate_ths: 150, max_hashrate_ths: 190 });
+
+      expect(extractRankedModels(result.content[0].text)).toEqual([
+        'Whatsminer M60S',
+        'Avalon A1466',
+      ]);
+    });
+
+    it('should filter by release date and exclude models without dates', async () => {
+      mockApiClient.getHardwareStats.mockResolvedValue(SAMPLE_HARDWARE);
+
+      const result = await tool.execute({
+        released_after: '2020-01-01',
+        released_before: '2023-10-31',
+      });
+
+      expect(extractRankedModels(result.content[0].text)).toEqual([
+        'Antminer S21',
+        'Antminer S19 Pro',
+      ]);
+    });
+
+    it('should return empty result message when nothing matches', async () => {
+      mockApiClient.getHardwareStats.mockResolvedValue(SAMPLE_HARDWARE);
+
+      const result = await tool.execute({ max_efficiency_jth: 10 });
+
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toContain('No hardware models found');
+      expect(result.content[0].text).toContain('Models in catalog:** 5');
+    });
+  });
+
+  describe('execute - sorting and ranking', () => {
+    it('should rank by hashrate descending by default', async () => {
+      mockApiClient.getHardwareStats.mockResolvedValue(SAMPLE_HARDWARE);
+
+      const result = await tool.execute({ sort_by: 'hashrate' });
+
+      expect(extractRankedModels(result.content[0].text)[0]).toBe('Antminer S21');
+      expect(extractRankedModels(result.content[0].text)[4]).toBe('Antminer S9');
+    });
+
+    it('should honor explicit sort order', async () => {
+      mockApiClient.getHardwareStats.mockResolvedValue(SAMPLE_HARDWARE);
+
+      const result = await tool.execute({ sort_by: 'power', sort_order: 'desc' });
+
+      expect(extractRankedModels(result.content[0].text)[0]).toBe('Antminer S21');
+    });
+
+    it('should rank newest releases first and unknown dates last', async () => {
+      mockApiClient.getHardwareStats.mockResolvedValue(SAMPLE_HARDWARE);
+
+      const result = await tool.execute({ sort_by: 'release_date' });
+
+      expect(extractRankedModels(result.content[0].text)).toEqual([
+        'Whatsminer M60S',
+        'Antminer S21',
+        'Antminer S19 Pro',
+        'Antminer S9',
+        'Avalon A1466',
+      ]);
+    });
+
+    it('should apply limit after ranking', async () => {
+      mockApiClient.getHardwareStats.mockResolvedValue(SAMPLE_HARDWARE);
+
+      const result = await tool.execute({ limit: 2 });
+
+      expect(extractRankedModels(result.content[0].text)).toHaveLength(2);
+      expect(result.content[0].text).toContain('showing top 2');
+    });
+  });
+
+  describe('execute - validation', () => {
+    it('should reject inverted efficiency range', async () => {
+      const result = await tool.execute({ min_efficiency_jth: 30, max_efficiency_jth: 20 });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Validation Error');
+      expect(mockApiClient.getHardwareStats).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed release dates', async () => {
+      const result = await tool.execute({ released_after: '01/01/2023' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('YYYY-MM-DD');
+    });
+
+    it('should reject unknown sort fields', async () => {
+      const result = await tool.execute({ sort_by: 'price' });
+
+      expect(result.isError).toBe(true);
+    });
+  });
+
+  describe('execute - error handling', () => {
+    it('should handle InsightsApiError', async () => {
+      mockApiClient.getHardwareStats.mockRejectedValue(
+        new InsightsApiError('Server error', 500, '/v1.0/hardware-stats')
+      );
+
+      const result = await tool.execute({});
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('API Error');
+      expect(result.content[0].text).toContain('500');
+    });
+
+    it('should handle NetworkError', async () => {
+      mockApiClient.getHardwareStats.mockRejectedValue(new NetworkError('Connection refused'));
+
+      const result = await tool.execute({});
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Network Error');
+    });
+
+    it('should handle ValidationError', async () => {
+      mockApiClient.getHardwareStats.mockRejectedValue(new ValidationError('Bad payload'));
+
+      const result = await tool.execute({});
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Response Validation Error');
+    });
+
+    it('should handle non-Error exceptions', async () => {
+      mockApiClient.getHardwareStats.mockRejectedValue('String error');
+
+      const result = await tool.execute({});
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Unexpected Error');
+    });
+  });
+});
@@ -3,15 +3,23 @@
  */
 
 import { jest } from '@jest/globals';
-import { HashrateAndDifficultyHistoryTool } from '../../../src/tools/historical/hashrate-and-difficulty-history.js';
+import {
+  HashrateAndDifficultyHistoryTool,
+  type HashrateAndDifficultyHistoryOutput,
+} from '../../../src/tools/historical/hashrate-and-difficulty-history.js';
 import { BraiinsInsightsHashDiffHistory } from '../../../src/types/insights-api.js';
 import { InsightsApiError, NetworkError } from '../../../src/api/insights-client.js';
+import type { MCPToolResponse } from '../../../src/tools/index.js';
 
 // Mock API client
 const createMockApiClient = (): { getHashrateAndDifficultyHistory: jest.Mock } => ({
   getHashrateAndDifficultyHistory: jest.fn(),
 });
 
+// Structured payload of a successful run, typed by the tool's output schema
+const structured = (result: MCPToolResponse): HashrateAndDifficultyHistoryOutput =>
+  result.structuredContent as HashrateAndDifficultyHistoryOutput;
+
 // Sample valid response data
 const SAMPLE_HASH_DIFF_HISTORY: BraiinsInsightsHashDiffHistory[] = [
   {
@@ -156,7 +164,128 @@ describe('HashrateAndDifficultyHistoryTool', () => {
     });
   });
 
+  describe('execute - chart', () => {
+    const decodeSvg = (result: MCPToolResponse): string => {
+      const image = result.content[1];
+      return image?.type === 'image' ? Buffer.from(image.data, 'base64').toString('utf8') : '';
+    };
+
+    it('should not attach a chart by default', async () => {
+      mockApiClient.getHashrateAndDifficultyHistory.mockResolvedValue(SAMPLE_HASH_DIFF_HISTORY);
+
+      const result = await tool.execute({});
+
+      expect(result.content).toHaveLength(1);
+    });
+
+    it('should chart hashrate and difficulty on separate axes', async () => {
+      mockApiClient.getHashrateAndDifficultyHistory.mockResolvedValue(SAMPLE_HASH_DIFF_HISTORY);
+
+      const result = await tool.execute({ include_chart: true });
+      const svg = decodeSvg(result);
+
+      expect(result.isError).toBe(false);
+      expect(result.content[1]).toMatchObject({ type: 'image', mimeType: 'image/svg+xml' });
+      expect(svg).toContain('Bitcoin Network Hashrate &amp; Difficulty');
+      expect(svg.match(/<path /g)).toHaveLength(2);
+      expect(svg).toContain('>Difficulty (right)</text>');
+      expect(svg).toContain('EH/s</text>');
+      // Oldest first; the difficulty adjustment on 2025-12-14 is marked
+      expect(svg.indexOf('>2025-12-13</text>')).toBeLessThan(svg.indexOf('>2025-12-15</text>'));
+      expect(svg.match(/stroke="#dddddd"/g)).toHaveLength(1);
+    });
+
+    it('should mark halvings within the range', async () => {
+      const history = Array.from({ length: 10 }, (_, index) => ({
+        timestamp: new Date(Date.UTC(2024, 3, 25) - index * 86_400_000).toISOString(),
+        hashrate_ehs: 600,
+        difficulty: 86e12,
+      }));
+      mockApiClient.getHashrateAndDifficultyHistory.mockResolvedValue(history);
+
+      const result = await tool.execute({ include_chart: true });
+
+      expect(decodeSvg(result)).toContain('>Halving 2024</text>');
+      expect(decodeSvg(result)).not.toContain('stroke="#dddddd"');
+    });
+
+    it('should not attach a chart without data', async () => {
+      mockApiClient.getHashrateAndDifficultyHistory.mockResolvedValue([]);
+
+      const result = await tool.execute({ include_chart: true });
+
+      expect(result.content).toHaveLength(1);
+    });
+  });
+
+  describe('execute - time series', () => {
+    it('should filter to the date window', async () => {
+      mockApiClient.getHashrateAndDifficultyHistory.mockResolvedValue(SAMPLE_HASH_DIFF_HISTORY);
+
+      const result = await tool.execute({ start_date: '2025-12-14', end_date: '2025-12-14' });
+      const output = structured(result);
+
+      expect(output.data_points).toHaveLength(1);
+      expect(output.data_points[0]?.timestamp).toBe('2025-12-14T12:00:00Z');
+      expect(output.total_available).toBe(3);
+      expect(output.query).toMatchObject({ start_date: '2025-12-14', end_date: '2025-12-14' });
+      expect(result.content[0].text).toContain('**Window:** 2025-12-14 to 2025-12-14');
+    });
+
+    it('should resample by difficulty epoch', async () => {
+      mockApiClient.getHashrateAndDifficultyHistory.mockResolvedValue(SAMPLE_HASH_DIFF_HISTORY);
+
+      const result = await tool.execute({ resample: 'epoch' });
+      const output = structured(result);
+
+      expect(output.data_points).toHaveLength(2);
+      expect(output.data_points[0]).toMatchObject({
+        timestamp: '2025-12-14',
+        difficulty: 109780000000000000,
+        period_end: '2025-12-15',
+        sample_count: 2,
+      });
+      expect(output.data_points[0]?.hashrate_ehs).toBeCloseTo(753.8);
+      expect(output.query).toMatchObject({ resample: 'epoch', aggregation: 'mean' });
+      expect(result.content[0].text).toContain('mean per difficulty epoch');
+    });
+
+    it('should add a moving average column', async () => {
+      mockApiClient.getHashrateAndDifficultyHistory.mockResolvedValue(SAMPLE_HASH_DIFF_HISTORY);
+
+      const result = await tool.execute({ moving_average: 2 });
+      const output = structured(result);
+
+      expect(output.data_points[0]?.moving_average?.hashrate_ehs).toBeCloseTo(753.8);
+      expect(output.data_points[2]?.moving_average?.hashrate_ehs).toBeNull();
+      expect(result.content[0].text).toContain('2-pt MA (EH/s)');
+    });
+
+    it('should apply limit after resampling', async () => {
+      mockApiClient.getHashrateAndDifficultyHistory.mockResolvedValue(SAMPLE_HASH_DIFF_HISTORY);
+
+      const result = await tool.execute({ resample: 'daily', limit: 1 });
+
+      expect(structured(result).data_points).toHaveLength(1);
+      expect(result.content[0].text).toContain('**Data Points:** 1 (of 3 total)');
+    });
+  });
+
   describe('execute - edge cases', () => {
+    it('should explain when the date window excludes all data', async () => {
+      mockApiClient.getHashrateAndDifficultyHistory.mockResolvedValue(SAMPLE_HASH_DIFF_HISTORY);
+
+      const result = await tool.execute({ start_date: '2020-01-01', end_date: '2020-12-31' });
+
+      expect(result.isError).toBe(false);
+      const text = result.content[0].text;
+      expect(text).toContain('No Data Available');
+      expect(text).toContain('**Window:** 2020-01-01 to 2020-12-31');
+      expect(text).toContain('No data falls within the requested window');
+      expect(text).not.toContain('returned from the API');
+      expect(structured(result).total_available).toBe(SAMPLE_HASH_DIFF_HISTORY.length);
+    });
+
     it('should handle empty data array', async () => {
       mockApiClient.getHashrateAndDifficultyHistory.mockResolvedValue([]);
 
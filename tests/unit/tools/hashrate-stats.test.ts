@@ -47,9 +47,9 @@ describe('HashrateStatsTool', () => {
       expect(tool.description.length).toBeGreaterThan(20);
     });
 
-    it('should have empty input schema (no parameters)', () => {
+    it('should only accept the optional output format', () => {
       expect(tool.inputSchema.type).toBe('object');
-      expect(tool.inputSchema.properties).toEqual({});
+      expect(Object.keys(tool.inputSchema.properties)).toEqual(['format']);
       expect(tool.inputSchema.required).toEqual([]);
     });
   });
@@ -82,6 +82,40 @@ describe('HashrateStatsTool', () => {
     });
   });
 
+  describe('execute - output format', () => {
+    it('should attach structured content alongside markdown by default', async () => {
+      mockApiClient.getHashrateStats.mockResolvedValue(SAMPLE_HASHRATE_STATS);
+
+      const result = await tool.execute({});
+
+      expect(result.content).toHaveLength(1);
+      expect(result.structuredContent).toMatchObject({
+        current_hashrate_ehs: 1001.23,
+        hashrate_30d_avg_ehs: 1074.37,
+        hash_price_usd_per_th_day: 0.039,
+      });
+    });
+
+    it('should return only JSON when format is json', async () => {
+      mockApiClient.getHashrateStats.mockResolvedValue(SAMPLE_HASHRATE_STATS);
+
+      const result = await tool.execute({ format: 'json' });
+
+      expect(result.content).toHaveLength(1);
+      expect(JSON.parse(result.content[0].text)).toEqual(result.structuredContent);
+    });
+
+    it('should return markdown followed by JSON when format is both', async () => {
+      mockApiClient.getHashrateStats.mockResolvedValue(SAMPLE_HASHRATE_STATS);
+
+      const result = await tool.execute({ format: 'both' });
+
+      expect(result.content).toHaveLength(2);
+      expect(result.content[0].text).toContain('Bitcoin Network Hashrate Statistics');
+      expect(JSON.parse(result.content[1].text)).toEqual(result.structuredContent);
+    });
+  });
+
   describe('execute - error handling', () => {
     it('should handle InsightsApiError', async () => {
       const apiError = new InsightsApiError('API rate limit exceeded', 429, '/v1.0/hashrate-stats');
@@ -104,6 +138,21 @@ describe('HashrateStatsTool', () => {
       expect(result.content[0].text).toContain('Network Error');
     });
 
+    it('should show retry count and final cause of exhausted retries', async () => {
+      const networkError = new NetworkError(
+        'Request timeout after 10000ms (gave up after 2 retries)',
+        undefined,
+        2
+      );
+      mockApiClient.getHashrateStats.mockRejectedValue(networkError);
+
+      const result = await tool.execute({});
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Request timeout after 10000ms');
+      expect(result.content[0].text).toContain('gave up after 2 retries');
+    });
+
     it('should handle generic unknown errors', async () => {
       const unknownError = new Error('Something unexpected happened');
       mockApiClient.getHashrateStats.mockRejectedValue(unknownError);
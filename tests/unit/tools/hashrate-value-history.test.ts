@@ -3,15 +3,23 @@
  */
 
 import { jest } from '@jest/globals';
-import { HashrateValueHistoryTool } from '../../../src/tools/historical/hashrate-value-history.js';
+import {
+  HashrateValueHistoryTool,
+  type HashrateValueHistoryOutput,
+} from '../../../src/tools/historical/hashrate-value-history.js';
 import { BraiinsInsightsHashrateValue } from '../../../src/types/insights-api.js';
 import { InsightsApiError, NetworkError } from '../../../src/api/insights-client.js';
+import type { MCPToolResponse } from '../../../src/tools/index.js';
 
 // Mock API client
 const createMockApiClient = (): { getHashrateValueHistory: jest.Mock } => ({
   getHashrateValueHistory: jest.fn(),
 });
 
+// Structured payload of a successful run, typed by the tool's output schema
+const structured = (result: MCPToolResponse): HashrateValueHistoryOutput =>
+  result.structuredContent as HashrateValueHistoryOutput;
+
 // Sample valid response data
 const SAMPLE_HASHRATE_VALUE: BraiinsInsightsHashrateValue[] = [
   {
@@ -165,7 +173,101 @@ describe('HashrateValueHistoryTool', () => {
     });
   });
 
+  describe('execute - chart', () => {
+    const decodeSvg = (result: MCPToolResponse): string => {
+      const image = result.content[1];
+      return image?.type === 'image' ? Buffer.from(image.data, 'base64').toString('utf8') : '';
+    };
+
+    it('should chart hash value when requested', async () => {
+      mockApiClient.getHashrateValueHistory.mockResolvedValue(SAMPLE_HASHRATE_VALUE);
+
+      const plain = await tool.execute({});
+      const result = await tool.execute({ include_chart: true, limit: 3 });
+      const svg = decodeSvg(result);
+
+      expect(plain.content).toHaveLength(1);
+      expect(result.content[1]).toMatchObject({ type: 'image', mimeType: 'image/svg+xml' });
+      expect(svg).toContain('Bitcoin Hashrate Value (USD/TH/day)');
+      expect(svg.match(/<path /g)).toHaveLength(1);
+      // The chart follows the limit
+      expect(svg).not.toContain('>2025-12-12</text>');
+      expect(svg).toContain('>2025-12-13</text>');
+    });
+  });
+
+  describe('execute - time series', () => {
+    it('should resample by month', async () => {
+      mockApiClient.getHashrateValueHistory.mockResolvedValue(SAMPLE_HASHRATE_VALUE);
+
+      const result = await tool.execute({ resample: 'monthly', aggregation: 'max' });
+      const output = structured(result);
+      const markdown = result.content[0].text;
+
+      expect(output.data_points).toEqual([
+        {
+          date: '2025-12-01',
+          hash_value_usd_per_th_day: 0.039,
+          period_end: '2025-12-15',
+          sample_count: 4,
+        },
+      ]);
+      expect(markdown).toContain('**Window:** monthly max');
+      expect(markdown).toContain('| Change |');
+    });
+
+    it('should filter to the date window', async () => {
+      mockApiClient.getHashrateValueHistory.mockResolvedValue(SAMPLE_HASHRATE_VALUE);
+
+      const result = await tool.execute({ start_date: '2025-12-13', end_date: '2025-12-14' });
+      const output = structured(result);
+
+      expect(output.data_points.map((point) => point.date)).toEqual(['2025-12-14', '2025-12-13']);
+      expect(output.total_available).toBe(4);
+    });
+
+    it('should reject invalid time-series parameters', async () => {
+      mockApiClient.getHashrateValueHistory.mockResolvedValue(SAMPLE_HASHRATE_VALUE);
+
+      const result = await tool.execute({
+        start_date: '2024-02-30',
+        end_date: '2024-01-01',
+        resample: 'quarterly',
+        aggregation: 'median',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(mockApiClient.getHashrateValueHistory).not.toHaveBeenCalled();
+      const text = result.content[0].text;
+      expect(text).toContain('Validation Error');
+      expect(text).toContain('start_date');
+      expect(text).toContain('resample');
+      expect(text).toContain('aggregation');
+    });
+
+    it('should reject a start date later than the end date', async () => {
+      const result = await tool.execute({ start_date: '2024-06-01', end_date: '2024-05-31' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('start_date cannot be later than end_date');
+    });
+  });
+
   describe('execute - edge cases', () => {
+    it('should explain when the date window excludes all data', async () => {
+      mockApiClient.getHashrateValueHistory.mockResolvedValue(SAMPLE_HASHRATE_VALUE);
+
+      const result = await tool.execute({ start_date: '2020-01-01', end_date: '2020-12-31' });
+
+      expect(result.isError).toBe(false);
+      const text = result.content[0].text;
+      expect(text).toContain('No Data Available');
+      expect(text).toContain('**Window:** 2020-01-01 to 2020-12-31');
+      expect(text).toContain('No data falls within the requested window');
+      expect(text).not.toContain('returned from the API');
+      expect(structured(result).total_available).toBe(SAMPLE_HASHRATE_VALUE.length);
+    });
+
     it('should handle empty data array', async () => {
       mockApiClient.getHashrateValueHistory.mockResolvedValue([]);
 
@@ -9,6 +9,7 @@ import { jest, describe, it, expect, beforeEach } from '@jest/globals';
 import {
   getAllTools,
   getToolsByCategory,
+  selectTools,
   ToolCategory,
   MCPTool,
   MCPToolResponse,
@@ -20,21 +21,28 @@ import {
   RSSFeedDataTool,
   HalvingsTool,
   TransactionStatsTool,
+  ApiSchemaReportTool,
   // Re-exported tools - Parameterized
   BlocksTool,
   ProfitabilityCalculatorTool,
   CostToMineTool,
+  HardwareCatalogTool,
+  BlocksByCountryTool,
   // Re-exported tools - Historical
   DailyRevenueHistoryTool,
   HashrateAndDifficultyHistoryTool,
   HashrateValueHistoryTool,
   TransactionFeesHistoryTool,
+  SnapshotHistoryTool,
   // Re-exported tools - Composite
   MiningOverviewTool,
   ProfitabilityDeepDiveTool,
   NetworkHealthMonitorTool,
+  FleetProfitabilityTool,
+  MiningMonteCarloTool,
 } from '../../../src/tools/index.js';
 import type { InsightsApiClient } from '../../../src/api/insights-client.js';
+import { MemorySnapshotStore } from '../../../src/snapshots/snapshot-store.js';
 
 // Create a mock API client
 const createMockApiClient = (): InsightsApiClient =>
@@ -102,9 +110,9 @@ describe('MCP Tool Registry', () => {
       expect(Array.isArray(tools)).toBe(true);
     });
 
-    it('should return 17 tools total', () => {
+    it('should return 21 tools total', () => {
       const tools = getAllTools(mockApiClient);
-      expect(tools).toHaveLength(17);
+      expect(tools).toHaveLength(23);
     });
 
     it('should include all simple tools', () => {
@@ -118,6 +126,7 @@ describe('MCP Tool Registry', () => {
       expect(toolNames).toContain('braiins_rss_feed_data');
       expect(toolNames).toContain('braiins_halvings');
       expect(toolNames).toContain('braiins_transaction_stats');
+      expect(toolNames).toContain('braiins_api_schema_report');
     });
 
     it('should include all parameterized tools', () => {
@@ -127,6 +136,8 @@ describe('MCP Tool Registry', () => {
       expect(toolNames).toContain('braiins_blocks');
       expect(toolNames).toContain('braiins_profitability_calculator');
       expect(toolNames).toContain('braiins_cost_to_mine');
+      expect(toolNames).toContain('braiins_hardware_catalog');
+      expect(toolNames).toContain('braiins_blocks_by_country');
     });
 
     it('should include all historical tools', () => {
@@ -137,6 +148,7 @@ describe('MCP Tool Registry', () => {
       expect(toolNames).toContain('braiins_hashrate_and_difficulty_history');
       expect(toolNames).toContain('braiins_hashrate_value_history');
       expect(toolNames).toContain('braiins_transaction_fees_history');
+      expect(toolNames).toContain('braiins_snapshot_history');
     });
 
     it('should include all composite tools', () => {
@@ -146,6 +158,8 @@ describe('MCP Tool Registry', () => {
       expect(toolNames).toContain('braiins_mining_overview');
       expect(toolNames).toContain('braiins_profitability_deep_dive');
       expect(toolNames).toContain('braiins_network_health_monitor');
+      expect(toolNames).toContain('braiins_fleet_profitability');
+      expect(toolNames).toContain('braiins_mining_monte_carlo');
     });
 
     it('should return new instances each call', () => {
@@ -195,6 +209,17 @@ describe('MCP Tool Registry', () => {
       });
     });
 
+    it('all tools should accept an output format and declare an outputSchema', () => {
+      const tools = getAllTools(mockApiClient);
+
+      tools.forEach((tool) => {
+        expect(tool.inputSchema.properties).toHaveProperty('format');
+        expect(tool.outputSchema).toBeDefined();
+        expect(tool.outputSchema?.type).toBe('object');
+        expect(tool.outputSchema).not.toHaveProperty('$schema');
+      });
+    });
+
     it('all tools should have an execute method', () => {
       const tools = getAllTools(mockApiClient);
 
@@ -225,6 +250,7 @@ describe('MCP Tool Registry', () => {
       'braiins_rss_feed_data',
       'braiins_halvings',
       'braiins_transaction_stats',
+      'braiins_api_schema_report',
     ];
 
     it('should have empty required array', () => {
@@ -238,7 +264,10 @@ describe('MCP Tool Registry', () => {
 
     it('should have empty or minimal properties', () => {
       const tools = getAllTools(mockApiClient);
-      const simpleTools = tools.filter((t) => simpleToolNames.includes(t.name));
+      // The news feed also takes optional filter, search and paging parameters
+      const simpleTools = tools.filter(
+        (t) => simpleToolNames.includes(t.name) && t.name !== 'braiins_rss_feed_data'
+      );
 
       simpleTools.forEach((tool) => {
         const propCount = Object.keys(tool.inputSchema.properties).length;
@@ -309,6 +338,7 @@ describe('MCP Tool Registry', () => {
       'braiins_hashrate_and_difficulty_history',
       'braiins_hashrate_value_history',
       'braiins_transaction_fees_history',
+      'braiins_snapshot_history',
     ];
 
     it('should have optional limit parameter', () => {
@@ -322,10 +352,83 @@ describe('MCP Tool Registry', () => {
       });
     });
 
-    it('should have 4 historical tools', () => {
+    it('should have 5 historical tools', () => {
       const tools = getAllTools(mockApiClient);
       const historicalTools = tools.filter((t) => historicalToolNames.includes(t.name));
-      expect(historicalTools).toHaveLength(4);
+      expect(historicalTools).toHaveLength(5);
+    });
+  });
+
+  // ============================================================================
+  // selectTools Tests
+  // ============================================================================
+
+  describe('selectTools', () => {
+    it('should keep all tools when nothing is selected', () => {
+      const tools = getAllTools(mockApiClient);
+      expect(selectTools(tools, {})).toHaveLength(tools.length);
+    });
+
+    it('should keep only enabled tools', () => {
+      const tools = selectTools(getAllTools(mockApiClient), {
+        enabled: ['braiins_blocks', 'braiins_price_stats'],
+      });
+      expect(tools.map((t) => t.name)).toEqual(['braiins_price_stats', 'braiins_blocks']);
+    });
+
+    it('should drop disabled tools', () => {
+      const all = getAllTools(mockApiClient);
+      const tools = selectTools(all, { disabled: ['braiins_rss_feed_data'] });
+      expect(tools).toHaveLength(all.length - 1);
+      expect(tools.map((t) => t.name)).not.toContain('braiins_rss_feed_data');
+    });
+
+    it('should reject unknown tool names', () => {
+      expect(() =>
+        selectTools(getAllTools(mockApiClient), { disabled: ['braiins_unknown'] })
+      ).toThrow('braiins_unknown');
+    });
+
+    it('should keep only enabled categories', () => {
+      const tools = selectTools(getAllTools(mockApiClient), {
+        enabledCategories: ['simple', 'composite'],
+      });
+
+      expect(tools).toHaveLength(13);
+      tools.forEach((tool) => expect(['simple', 'composite']).toContain(tool.category));
+    });
+
+    it('should combine enabled categories with individually enabled tools', () => {
+      const tools = selectTools(getAllTools(mockApiClient), {
+        enabledCategories: ['composite'],
+        enabled: ['braiins_cost_to_mine'],
+      });
+
+      expect(tools.map((t) => t.name)).toEqual([
+        'braiins_cost_to_mine',
+        'braiins_mining_overview',
+        'braiins_profitability_deep_dive',
+        'braiins_network_health_monitor',
+        'braiins_fleet_profitability',
+        'braiins_mining_monte_carlo',
+      ]);
+    });
+
+    it('should drop disabled categories and tools after enabling', () => {
+      const tools = selectTools(getAllTools(mockApiClient), {
+        enabledCategories: ['simple'],
+        disabled: ['braiins_rss_feed_data'],
+        disabledCategories: ['historical'],
+      });
+
+      expect(tools).toHaveLength(7);
+      expect(tools.map((t) => t.name)).not.toContain('braiins_rss_feed_data');
+    });
+
+    it('should reject unknown categories', () => {
+      expect(() =>
+        selectTools(getAllTools(mockApiClient), { disabledCategories: ['advanced'] })
+      ).toThrow('advanced');
     });
   });
 
@@ -339,14 +442,72 @@ describe('MCP Tool Registry', () => {
       expect(Array.isArray(tools)).toBe(true);
     });
 
-    // Note: Current implementation returns empty array (placeholder)
-    it('should return empty array for placeholder implementation', () => {
-      const simpleTools = getToolsByCategory(mockApiClient, ToolCategory.Simple);
-      const paramTools = getToolsByCategory(mockApiClient, ToolCategory.Parameterized);
+    it('should return the tools of each category', () => {
+      expect(getToolsByCategory(mockApiClient, ToolCategory.Simple)).toHaveLength(8);
+      expect(getToolsByCategory(mockApiClient, ToolCategory.Parameterized)).toHaveLength(5);
+      expect(getToolsByCategory(mockApiClient, ToolCategory.Historical)).toHaveLength(5);
+      expect(getToolsByCategory(mockApiClient, ToolCategory.Composite)).toHaveLength(5);
+    });
+
+    it('should only return tools of the requested category', () => {
+      const composite = getToolsByCategory(mockApiClient, ToolCategory.Composite);
 
-      // Placeholder returns empty - will be updated when category detection is implemented
-      expect(simpleTools).toEqual([]);
-      expect(paramTools).toEqual([]);
+      expect(composite.map((t) => t.name)).toEqual([
+        'braiins_mining_overview',
+        'braiins_profitability_deep_dive',
+        'braiins_network_health_monitor',
+        'braiins_fleet_profitability',
+        'braiins_mining_monte_carlo',
+      ]);
+      composite.forEach((tool) => expect(tool.category).toBe(ToolCategory.Composite));
+    });
+  });
+
+  // ============================================================================
+  // Tool Metadata Tests
+  // ============================================================================
+
+  describe('tool metadata', () => {
+    it('should declare a known category, tags and endpoints on every tool', () => {
+      getAllTools(mockApiClient).forEach((tool) => {
+        expect(Object.values(ToolCategory)).toContain(tool.category);
+        expect(tool.tags.length).toBeGreaterThan(0);
+        tool.endpoints.forEach((endpoint) => expect(endpoint).toMatch(/^\/v[12]\.0\/[a-z-]+$/));
+      });
+    });
+
+    it('should list every endpoint a composite tool calls', () => {
+      const overview = getAllTools(mockApiClient).find((t) => t.name === 'braiins_mining_overview');
+
+      expect(overview?.endpoints).toEqual([
+        '/v1.0/hashrate-stats',
+        '/v1.0/difficulty-stats',
+        '/v1.0/price-stats',
+        '/v1.0/blocks',
+      ]);
+    });
+
+    it('should list the network stats the local engine fallback calls', () => {
+      const tools = getAllTools(mockApiClient);
+
+      for (const name of ['braiins_cost_to_mine', 'braiins_profitability_calculator']) {
+        expect(tools.find((t) => t.name === name)?.endpoints).toEqual(
+          expect.arrayContaining([
+            '/v1.0/price-stats',
+            '/v1.0/difficulty-stats',
+            '/v1.0/hashrate-stats',
+            '/v2.0/halvings',
+          ])
+        );
+      }
+    });
+
+    it('should match the directory each tool lives in', () => {
+      const tools = getAllTools(mockApiClient);
+
+      expect(tools.find((t) => t.name === 'braiins_hashrate_stats')?.category).toBe('simple');
+      expect(tools.find((t) => t.name === 'braiins_cost_to_mine')?.category).toBe('parameterized');
+      expect(tools.find((t) => t.name === 'braiins_snapshot_history')?.category).toBe('historical');
     });
   });
 
@@ -397,6 +558,12 @@ describe('MCP Tool Registry', () => {
       expect(tool.name).toBe('braiins_transaction_stats');
     });
 
+    it('should export ApiSchemaReportTool class', () => {
+      expect(ApiSchemaReportTool).toBeDefined();
+      const tool = new ApiSchemaReportTool(mockApiClient);
+      expect(tool.name).toBe('braiins_api_schema_report');
+    });
+
     it('should export BlocksTool class', () => {
       expect(BlocksTool).toBeDefined();
       const tool = new BlocksTool(mockApiClient);
@@ -415,6 +582,18 @@ describe('MCP Tool Registry', () => {
       expect(tool.name).toBe('braiins_cost_to_mine');
     });
 
+    it('should export HardwareCatalogTool class', () => {
+      expect(HardwareCatalogTool).toBeDefined();
+      const tool = new HardwareCatalogTool(mockApiClient);
+      expect(tool.name).toBe('braiins_hardware_catalog');
+    });
+
+    it('should export BlocksByCountryTool class', () => {
+      expect(BlocksByCountryTool).toBeDefined();
+      const tool = new BlocksByCountryTool(mockApiClient);
+      expect(tool.name).toBe('braiins_blocks_by_country');
+    });
+
     it('should export DailyRevenueHistoryTool class', () => {
       expect(DailyRevenueHistoryTool).toBeDefined();
       const tool = new DailyRevenueHistoryTool(mockApiClient);
@@ -439,6 +618,12 @@ describe('MCP Tool Registry', () => {
       expect(tool.name).toBe('braiins_transaction_fees_history');
     });
 
+    it('should export SnapshotHistoryTool class', () => {
+      expect(SnapshotHistoryTool).toBeDefined();
+      const tool = new SnapshotHistoryTool(new MemorySnapshotStore());
+      expect(tool.name).toBe('braiins_snapshot_history');
+    });
+
     it('should export MiningOverviewTool class', () => {
       expect(MiningOverviewTool).toBeDefined();
       const tool = new MiningOverviewTool(mockApiClient);
@@ -456,6 +641,18 @@ describe('MCP Tool Registry', () => {
       const tool = new NetworkHealthMonitorTool(mockApiClient);
       expect(tool.name).toBe('braiins_network_health_monitor');
     });
+
+    it('should export FleetProfitabilityTool class', () => {
+      expect(FleetProfitabilityTool).toBeDefined();
+      const tool = new FleetProfitabilityTool(mockApiClient);
+      expect(tool.name).toBe('braiins_fleet_profitability');
+    });
+
+    it('should export MiningMonteCarloTool class', () => {
+      expect(MiningMonteCarloTool).toBeDefined();
+      const tool = new MiningMonteCarloTool(mockApiClient);
+      expect(tool.name).toBe('braiins_mining_monte_carlo');
+    });
   });
 
   // ============================================================================
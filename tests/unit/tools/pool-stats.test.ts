@@ -84,9 +84,9 @@ describe('PoolStatsTool', () => {
       expect(tool.description.length).toBeGreaterThan(20);
     });
 
-    it('should have empty input schema (no parameters)', () => {
+    it('should only accept the optional output format', () => {
       expect(tool.inputSchema.type).toBe('object');
-      expect(tool.inputSchema.properties).toEqual({});
+      expect(Object.keys(tool.inputSchema.properties)).toEqual(['format']);
       expect(tool.inputSchema.required).toEqual([]);
     });
   });
@@ -51,9 +51,9 @@ describe('PriceStatsTool', () => {
       expect(tool.description.length).toBeGreaterThan(20);
     });
 
-    it('should have empty input schema (no parameters)', () => {
+    it('should only accept the optional output format', () => {
       expect(tool.inputSchema.type).toBe('object');
-      expect(tool.inputSchema.properties).toEqual({});
+      expect(Object.keys(tool.inputSchema.properties)).toEqual(['format']);
       expect(tool.inputSchema.required).toEqual([]);
     });
   });
@@ -171,6 +171,17 @@ describe('PriceStatsTool', () => {
   });
 
   describe('execute - error handling', () => {
+    it('should reject an unknown output format', async () => {
+      mockApiClient.getPriceStats.mockResolvedValue(SAMPLE_PRICE_STATS);
+
+      const result = await tool.execute({ format: 'JSON' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Validation Error');
+      expect(result.content[0].text).toContain('format');
+      expect(mockApiClient.getPriceStats).not.toHaveBeenCalled();
+    });
+
     it('should handle InsightsApiError', async () => {
       const apiError = new InsightsApiError('API rate limit exceeded', 429, '/v1.0/price-stats');
       mockApiClient.getPriceStats.mockRejectedValue(apiError);
@@ -12,8 +12,19 @@ import {
 } from '../../../src/api/insights-client.js';
 
 // Mock API client
-const createMockApiClient = (): { getProfitabilityCalculator: jest.Mock } => ({
+const createMockApiClient = (): Record<
+  | 'getProfitabilityCalculator'
+  | 'getPriceStats'
+  | 'getDifficultyStats'
+  | 'getHashrateStats'
+  | 'getHalvings',
+  jest.Mock
+> => ({
   getProfitabilityCalculator: jest.fn(),
+  getPriceStats: jest.fn(),
+  getDifficultyStats: jest.fn(),
+  getHashrateStats: jest.fn(),
+  getHalvings: jest.fn(),
 });
 
 // Sample valid response data
@@ -585,6 +596,122 @@ describe('ProfitabilityCalculatorTool', () => {
     });
   });
 
+  describe('local engine fallback', () => {
+    beforeEach(() => {
+      mockApiClient.getProfitabilityCalculator.mockRejectedValue(
+        new InsightsApiError('Service unavailable', 503)
+      );
+      mockApiClient.getPriceStats.mockResolvedValue({
+        price: 90000,
+        percent_change_24h: 0,
+        timestamp: '2025-12-17T19:00:00Z',
+      });
+      mockApiClient.getDifficultyStats.mockResolvedValue({ difficulty: 1.5e14 });
+      mockApiClient.getHashrateStats.mockResolvedValue({ fees_percent: 1 });
+      mockApiClient.getHalvings.mockResolvedValue({
+        next_halving_block: 1_050_000,
+        blocks_until_halving: 120_000,
+      });
+    });
+
+    it('should fall back to the local engine when the API is unavailable', async () => {
+      const result = await tool.execute({
+        electricity_cost_kwh: 0.05,
+        hardware_efficiency_jth: 20,
+      });
+
+      expect(result.isError).toBe(false);
+      expect(result.structuredContent).toMatchObject({
+        engine: 'local',
+        engine_note: 'Braiins Insights API unavailable (HTTP 503)',
+        btc_price_usd: 90000,
+        network_difficulty: 1.5e14,
+        daily_electricity_cost_usd_per_th: expect.closeTo(0.024, 6),
+        timestamp: '2025-12-17T19:00:00Z',
+      });
+      expect(result.content[0].text).toContain('Calculated by the local mining-economics engine');
+      expect(result.content[0].text).not.toContain('[Braiins Insights Dashboard]');
+    });
+
+    it('should attribute API results to the API', async () => {
+      mockApiClient.getProfitabilityCalculator.mockResolvedValue(SAMPLE_PROFITABLE);
+
+      const result = await tool.execute({
+        electricity_cost_kwh: 0.05,
+        hardware_efficiency_jth: 25,
+      });
+
+      expect(result.structuredContent).toMatchObject({ engine: 'api', engine_note: null });
+    });
+
+    it('should calculate offline from supplied network conditions', async () => {
+      const result = await tool.execute({
+        electricity_cost_kwh: 0.05,
+        hardware_efficiency_jth: 20,
+        btc_price_usd: 100000,
+        network_difficulty: 1e14,
+      });
+
+      expect(result.structuredContent).toMatchObject({
+        engine: 'local',
+        btc_price_usd: 100000,
+        network_difficulty: 1e14,
+      });
+      expect(mockApiClient.getProfitabilityCalculator).not.toHaveBeenCalled();
+      expect(mockApiClient.getPriceStats).not.toHaveBeenCalled();
+      expect(mockApiClient.getHalvings).not.toHaveBeenCalled();
+    });
+
+    it('should not fall back for client errors or in api mode', async () => {
+      const apiOnly = await tool.execute({
+        electricity_cost_kwh: 0.05,
+        hardware_efficiency_jth: 20,
+        engine: 'api',
+      });
+      mockApiClient.getProfitabilityCalculator.mockRejectedValue(
+        new InsightsApiError('Bad request', 400)
+      );
+      const badRequest = await tool.execute({
+        electricity_cost_kwh: 0.05,
+        hardware_efficiency_jth: 20,
+      });
+
+      expect(apiOnly.content[0].text).toContain('API Error');
+      expect(badRequest.content[0].text).toContain('API Error');
+      expect(mockApiClient.getPriceStats).not.toHaveBeenCalled();
+    });
+
+    it('should reject price or difficulty overrides in api mode', async () => {
+      const result = await tool.execute({
+        electricity_cost_kwh: 0.05,
+        hardware_efficiency_jth: 20,
+        btc_price_usd: 150000,
+        engine: 'api',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Invalid Input Parameters');
+      expect(result.content[0].text).toContain(
+        'btc_price_usd and network_difficulty need the local engine'
+      );
+      expect(mockApiClient.getProfitabilityCalculator).not.toHaveBeenCalled();
+    });
+
+    it('should report missing network inputs in local mode', async () => {
+      mockApiClient.getPriceStats.mockRejectedValue(new NetworkError('offline'));
+
+      const result = await tool.execute({
+        electricity_cost_kwh: 0.05,
+        hardware_efficiency_jth: 20,
+        engine: 'local',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Local Engine Unavailable');
+      expect(result.content[0].text).toContain('the BTC price');
+    });
+  });
+
   describe('markdown formatting', () => {
     it('should include Braiins Insights link in footer', async () => {
       mockApiClient.getProfitabilityCalculator.mockResolvedValue(SAMPLE_PROFITABLE);
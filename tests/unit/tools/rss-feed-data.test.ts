@@ -3,8 +3,10 @@
  */
 
 import { jest } from '@jest/globals';
-import { RSSFeedDataTool } from '../../../src/tools/simple/rss-feed-data.js';
+import { RSSFeedDataTool, type RSSFeedOutput } from '../../../src/tools/simple/rss-feed-data.js';
+import type { MCPToolResponse } from '../../../src/tools/index.js';
 import { InsightsApiError, NetworkError } from '../../../src/api/insights-client.js';
+import { runWithRequestContext } from '../../../src/api/request-context.js';
 
 // Mock RSS feed item structure
 interface RSSFeedItem {
@@ -16,11 +18,15 @@ interface RSSFeedItem {
   categories?: string[];
 }
 
-// Mock API client with private get method
-const createMockApiClient = (): { get: jest.Mock } => ({
-  get: jest.fn(),
+// Mock API client
+const createMockApiClient = (): { getRSSFeedData: jest.Mock } => ({
+  getRSSFeedData: jest.fn(),
 });
 
+// Structured payload of a successful run, typed by the tool's output schema
+const structured = (result: MCPToolResponse): RSSFeedOutput =>
+  result.structuredContent as RSSFeedOutput;
+
 // Sample valid RSS feed items
 const SAMPLE_RSS_ITEMS: RSSFeedItem[] = [
   {
@@ -71,21 +77,30 @@ describe('RSSFeedDataTool', () => {
       expect(tool.description.length).toBeGreaterThan(20);
     });
 
-    it('should have empty input schema (no parameters)', () => {
+    it('should only accept optional filter, search, pagination and format parameters', () => {
       expect(tool.inputSchema.type).toBe('object');
-      expect(tool.inputSchema.properties).toEqual({});
+      expect(Object.keys(tool.inputSchema.properties)).toEqual([
+        'keyword',
+        'category',
+        'since',
+        'until',
+        'query',
+        'only_new',
+        'limit',
+        'page',
+        'format',
+      ]);
       expect(tool.inputSchema.required).toEqual([]);
     });
   });
 
   describe('execute - happy path', () => {
     it('should fetch and format RSS feed items successfully', async () => {
-      mockApiClient.get.mockResolvedValue({ items: SAMPLE_RSS_ITEMS });
+      mockApiClient.getRSSFeedData.mockResolvedValue({ items: SAMPLE_RSS_ITEMS });
 
       const result = await tool.execute({});
 
-      expect(mockApiClient.get).toHaveBeenCalledTimes(1);
-      expect(mockApiClient.get).toHaveBeenCalledWith('/v1.0/rss-feed-data');
+      expect(mockApiClient.getRSSFeedData).toHaveBeenCalledTimes(1);
       expect(result.isError).toBe(false);
       expect(result.content).toHaveLength(1);
       expect(result.content[0].type).toBe('text');
@@ -98,7 +113,7 @@ describe('RSSFeedDataTool', () => {
     });
 
     it('should include links in markdown format', async () => {
-      mockApiClient.get.mockResolvedValue({ items: SAMPLE_RSS_ITEMS });
+      mockApiClient.getRSSFeedData.mockResolvedValue({ items: SAMPLE_RSS_ITEMS });
 
       const result = await tool.execute({});
       const markdown = result.content[0].text;
@@ -107,7 +122,7 @@ describe('RSSFeedDataTool', () => {
     });
 
     it('should format publication dates in human-readable format', async () => {
-      mockApiClient.get.mockResolvedValue({ items: SAMPLE_RSS_ITEMS });
+      mockApiClient.getRSSFeedData.mockResolvedValue({ items: SAMPLE_RSS_ITEMS });
 
       const result = await tool.execute({});
       const markdown = result.content[0].text;
@@ -119,7 +134,7 @@ describe('RSSFeedDataTool', () => {
     });
 
     it('should include authors when available', async () => {
-      mockApiClient.get.mockResolvedValue({ items: SAMPLE_RSS_ITEMS });
+      mockApiClient.getRSSFeedData.mockResolvedValue({ items: SAMPLE_RSS_ITEMS });
 
       const result = await tool.execute({});
       const markdown = result.content[0].text;
@@ -128,7 +143,7 @@ describe('RSSFeedDataTool', () => {
     });
 
     it('should include categories when available', async () => {
-      mockApiClient.get.mockResolvedValue({ items: SAMPLE_RSS_ITEMS });
+      mockApiClient.getRSSFeedData.mockResolvedValue({ items: SAMPLE_RSS_ITEMS });
 
       const result = await tool.execute({});
       const markdown = result.content[0].text;
@@ -147,7 +162,7 @@ describe('RSSFeedDataTool', () => {
         },
       ];
 
-      mockApiClient.get.mockResolvedValue({ items: itemsWithLongDesc });
+      mockApiClient.getRSSFeedData.mockResolvedValue({ items: itemsWithLongDesc });
 
       const result = await tool.execute({});
       const markdown = result.content[0].text;
@@ -162,7 +177,7 @@ describe('RSSFeedDataTool', () => {
   describe('execute - sorting and limiting', () => {
     it('should sort items by date (newest first)', async () => {
       // Items are already in correct order in SAMPLE_RSS_ITEMS
-      mockApiClient.get.mockResolvedValue({ items: SAMPLE_RSS_ITEMS });
+      mockApiClient.getRSSFeedData.mockResolvedValue({ items: SAMPLE_RSS_ITEMS });
 
       const result = await tool.execute({});
       const markdown = result.content[0].text;
@@ -185,7 +200,7 @@ describe('RSSFeedDataTool', () => {
         description: `Description for post ${i + 1}`,
       }));
 
-      mockApiClient.get.mockResolvedValue({ items: manyItems });
+      mockApiClient.getRSSFeedData.mockResolvedValue({ items: manyItems });
 
       const result = await tool.execute({});
       const markdown = result.content[0].text;
@@ -200,7 +215,7 @@ describe('RSSFeedDataTool', () => {
 
   describe('execute - edge cases', () => {
     it('should handle empty feed gracefully', async () => {
-      mockApiClient.get.mockResolvedValue({ items: [] });
+      mockApiClient.getRSSFeedData.mockResolvedValue({ items: [] });
 
       const result = await tool.execute({});
 
@@ -210,7 +225,7 @@ describe('RSSFeedDataTool', () => {
     });
 
     it('should handle API response as array (without items wrapper)', async () => {
-      mockApiClient.get.mockResolvedValue(SAMPLE_RSS_ITEMS);
+      mockApiClient.getRSSFeedData.mockResolvedValue(SAMPLE_RSS_ITEMS);
 
       const result = await tool.execute({});
 
@@ -229,7 +244,7 @@ describe('RSSFeedDataTool', () => {
         },
       ];
 
-      mockApiClient.get.mockResolvedValue({ items: minimalItems });
+      mockApiClient.getRSSFeedData.mockResolvedValue({ items: minimalItems });
 
       const result = await tool.execute({});
 
@@ -249,7 +264,7 @@ describe('RSSFeedDataTool', () => {
         },
       ];
 
-      mockApiClient.get.mockResolvedValue({ items: itemsWithBadDate });
+      mockApiClient.getRSSFeedData.mockResolvedValue({ items: itemsWithBadDate });
 
       const result = await tool.execute({});
 
@@ -260,10 +275,227 @@ describe('RSSFeedDataTool', () => {
     });
   });
 
+  describe('execute - filtering and search', () => {
+    beforeEach(() => {
+      mockApiClient.getRSSFeedData.mockResolvedValue(SAMPLE_RSS_ITEMS);
+    });
+
+    it('should filter by keyword in title, summary or topics', async () => {
+      const result = await tool.execute({ keyword: 'milestone', format: 'json' });
+
+      expect(structured(result).items.map((item) => item.title)).toEqual([
+        'Braiins Pool Surpasses 5% Network Hashrate',
+      ]);
+      expect(structured(result).matched_items).toBe(1);
+      expect(structured(result).total_items).toBe(3);
+    });
+
+    it('should filter by category case-insensitively', async () => {
+      const result = await tool.execute({ category: 'bitcoin', format: 'json' });
+
+      expect(structured(result).items.map((item) => item.link)).toEqual([
+        'https://braiins.com/blog/bitcoin-mining-difficulty-ath',
+        'https://braiins.com/blog/bitcoin-halving-guide',
+      ]);
+    });
+
+    it('should filter by date range with a whole-day until date', async () => {
+      const result = await tool.execute({
+        since: '2025-12-06T00:00:00Z',
+        until: '2025-12-10',
+        format: 'json',
+      });
+
+      expect(structured(result).items.map((item) => item.title)).toEqual([
+        'Braiins Pool Surpasses 5% Network Hashrate',
+      ]);
+    });
+
+    it('should rank search results by relevance', async () => {
+      const result = await tool.execute({ query: 'bitcoin halving', format: 'json' });
+
+      expect(structured(result).items[0]?.title).toBe(
+        'Understanding Bitcoin Halvings: A Complete Guide'
+      );
+      expect(structured(result).matched_items).toBe(1);
+    });
+
+    it('should search posts that have dropped off the feed', async () => {
+      await tool.execute({});
+      mockApiClient.getRSSFeedData.mockResolvedValue([SAMPLE_RSS_ITEMS[0]]);
+
+      const result = await tool.execute({ query: 'halvings guide', format: 'json' });
+
+      expect(structured(result).total_items).toBe(1);
+      expect(structured(result).items.map((item) => item.link)).toEqual([
+        'https://braiins.com/blog/bitcoin-halving-guide',
+      ]);
+    });
+
+    it('should report when no posts match', async () => {
+      const result = await tool.execute({ keyword: 'lightning' });
+
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toContain('No posts match the given filters');
+      expect(result.content[0].text).toContain('keyword "lightning"');
+    });
+
+    it('should reject invalid parameters', async () => {
+      const result = await tool.execute({ since: 'last week', limit: 0 });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Validation Error');
+      expect(result.content[0].text).toContain('since');
+      expect(result.content[0].text).toContain('limit');
+      expect(mockApiClient.getRSSFeedData).not.toHaveBeenCalled();
+    });
+
+    it('should reject a date range that ends before it starts', async () => {
+      const result = await tool.execute({ since: '2025-12-10', until: '2025-12-01' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('since cannot be later than until');
+    });
+  });
+
+  describe('execute - new since last check', () => {
+    const NEW_POST: RSSFeedItem = {
+      title: 'Stratum V2 Adoption Report',
+      link: 'https://braiins.com/blog/stratum-v2-adoption',
+      pubDate: '2025-12-15T09:00:00Z',
+      categories: ['Research'],
+    };
+
+    it('should treat every post as new on the first check', async () => {
+      mockApiClient.getRSSFeedData.mockResolvedValue(SAMPLE_RSS_ITEMS);
+
+      const result = await tool.execute({ only_new: true, format: 'json' });
+
+      expect(structured(result).previous_check).toBeNull();
+      expect(structured(result).new_items).toBe(3);
+      expect(structured(result).matched_items).toBe(3);
+    });
+
+    it('should only return posts published since the previous check', async () => {
+      mockApiClient.getRSSFeedData.mockResolvedValue(SAMPLE_RSS_ITEMS);
+      await tool.execute({});
+
+      mockApiClient.getRSSFeedData.mockResolvedValue([NEW_POST, ...SAMPLE_RSS_ITEMS]);
+      const result = await tool.execute({ only_new: true });
+      const markdown = result.content[0].text;
+
+      expect(markdown).toContain('🆕 [Stratum V2 Adoption Report]');
+      expect(markdown).toMatch(/New since last check\*\* \(.+\): 1/);
+      expect(markdown).not.toContain('Bitcoin Mining Difficulty');
+    });
+
+    it('should flag new posts without hiding seen ones', async () => {
+      mockApiClient.getRSSFeedData.mockResolvedValue(SAMPLE_RSS_ITEMS);
+      await tool.execute({});
+
+      mockApiClient.getRSSFeedData.mockResolvedValue([NEW_POST, ...SAMPLE_RSS_ITEMS]);
+      const result = await tool.execute({ format: 'json' });
+
+      expect(structured(result).items.map((item) => item.is_new)).toEqual([
+        true,
+        false,
+        false,
+        false,
+      ]);
+    });
+
+    it('should report no new posts on a repeated check', async () => {
+      mockApiClient.getRSSFeedData.mockResolvedValue(SAMPLE_RSS_ITEMS);
+      await tool.execute({});
+
+      const result = await tool.execute({ only_new: true });
+
+      expect(result.content[0].text).toContain('No new posts since your last check');
+    });
+
+    it('should track checks per session', async () => {
+      mockApiClient.getRSSFeedData.mockResolvedValue(SAMPLE_RSS_ITEMS);
+      await runWithRequestContext({ sessionId: 'a' }, () => tool.execute({}));
+
+      const result = await runWithRequestContext({ sessionId: 'b' }, () =>
+        tool.execute({ only_new: true, format: 'json' })
+      );
+
+      expect(structured(result).matched_items).toBe(3);
+    });
+  });
+
+  describe('execute - pagination', () => {
+    const manyItems = Array.from({ length: 25 }, (_, i) => ({
+      title: `Post ${i + 1}`,
+      link: `https://braiins.com/blog/post-${i + 1}`,
+      pubDate: new Date(Date.UTC(2025, 11, 31) - i * 86400000).toISOString(),
+    }));
+
+    beforeEach(() => {
+      mockApiClient.getRSSFeedData.mockResolvedValue(manyItems);
+    });
+
+    it('should return the requested page', async () => {
+      const result = await tool.execute({ limit: 10, page: 3, format: 'json' });
+
+      expect(structured(result).items.map((item) => item.title)).toEqual([
+        'Post 21',
+        'Post 22',
+        'Post 23',
+        'Post 24',
+        'Post 25',
+      ]);
+      expect(structured(result).page_count).toBe(3);
+      expect(structured(result).has_more).toBe(false);
+    });
+
+    it('should number items across pages and point to the next page', async () => {
+      const result = await tool.execute({ limit: 5, page: 2 });
+      const markdown = result.content[0].text;
+
+      expect(markdown).toContain('### 6. [Post 6]');
+      expect(markdown).toContain('page 2 of 5');
+      expect(markdown).toContain('`page: 3`');
+    });
+
+    it('should allow pages larger than the default', async () => {
+      const result = await tool.execute({ limit: 25, format: 'json' });
+
+      expect(structured(result).items).toHaveLength(25);
+      expect(structured(result).has_more).toBe(false);
+    });
+
+    it('should page through posts new since the previous check', async () => {
+      mockApiClient.getRSSFeedData.mockResolvedValue(manyItems.slice(12));
+      await tool.execute({});
+
+      mockApiClient.getRSSFeedData.mockResolvedValue(manyItems);
+      const titles = async (page: number): Promise<string[]> => {
+        const result = await tool.execute({ only_new: true, limit: 5, page, format: 'json' });
+        return structured(result).items.map((item) => item.title);
+      };
+
+      expect(await titles(1)).toEqual(['Post 1', 'Post 2', 'Post 3', 'Post 4', 'Post 5']);
+      expect(await titles(2)).toEqual(['Post 6', 'Post 7', 'Post 8', 'Post 9', 'Post 10']);
+      expect(await titles(3)).toEqual(['Post 11', 'Post 12']);
+
+      // A new page-1 call starts the next check
+      expect(await titles(1)).toEqual([]);
+    });
+
+    it('should handle a page past the end', async () => {
+      const result = await tool.execute({ page: 9 });
+
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toContain('past the last page');
+    });
+  });
+
   describe('execute - error handling', () => {
     it('should handle InsightsApiError', async () => {
       const apiError = new InsightsApiError('API unavailable', 503, '/v1.0/rss-feed-data');
-      mockApiClient.get.mockRejectedValue(apiError);
+      mockApiClient.getRSSFeedData.mockRejectedValue(apiError);
 
       const result = await tool.execute({});
 
@@ -274,7 +506,7 @@ describe('RSSFeedDataTool', () => {
 
     it('should handle NetworkError', async () => {
       const networkError = new NetworkError('Connection timeout');
-      mockApiClient.get.mockRejectedValue(networkError);
+      mockApiClient.getRSSFeedData.mockRejectedValue(networkError);
 
       const result = await tool.execute({});
 
@@ -284,7 +516,7 @@ describe('RSSFeedDataTool', () => {
     });
 
     it('should handle unexpected response format', async () => {
-      mockApiClient.get.mockResolvedValue({ unexpected: 'format' });
+      mockApiClient.getRSSFeedData.mockResolvedValue({ unexpected: 'format' });
 
       const result = await tool.execute({});
 
@@ -293,7 +525,7 @@ describe('RSSFeedDataTool', () => {
     });
 
     it('should handle null response', async () => {
-      mockApiClient.get.mockResolvedValue(null);
+      mockApiClient.getRSSFeedData.mockResolvedValue(null);
 
       const result = await tool.execute({});
 
@@ -0,0 +1,153 @@
+/**
+ * Unit tests for braiins_snapshot_history tool
+ */
+
+import { jest } from '@jest/globals';
+import { SnapshotHistoryTool } from '../../../src/tools/historical/snapshot-history.js';
+import { MemorySnapshotStore } from '../../../src/snapshots/snapshot-store.js';
+
+const NOW = Date.parse('2026-01-10T12:00:00Z');
+const HOUR = 3_600_000;
+
+describe('SnapshotHistoryTool', () => {
+  let store: MemorySnapshotStore;
+  let tool: SnapshotHistoryTool;
+
+  beforeEach(async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    store = new MemorySnapshotStore();
+    tool = new SnapshotHistoryTool(store);
+
+    // Hourly price samples over the last 30 hours, rising by 100 each hour
+    for (let i = 30; i >= 0; i--) {
+      await store.append({
+        source: 'price',
+        timestamp: NOW - i * HOUR,
+        metrics: { 'price.price': 90000 + (30 - i) * 100 },
+      });
+    }
+    await store.append({
+      source: 'hashrate',
+      timestamp: NOW - HOUR,
+      metrics: { 'hashrate.current_hashrate': 1094.42 },
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('metadata', () => {
+    it('should have correct tool name', () => {
+      expect(tool.name).toBe('braiins_snapshot_history');
+    });
+
+    it('should have no required parameters', () => {
+      expect(tool.inputSchema.properties).toHaveProperty('metric');
+      expect(tool.inputSchema.properties).toHaveProperty('limit');
+      expect(tool.inputSchema.required).toEqual([]);
+    });
+  });
+
+  describe('listing metrics', () => {
+    it('should list metrics recorded in the default 24 hour window', async () => {
+      const response = await tool.execute({});
+
+      expect(response.isError).toBeFalsy();
+      expect(response.structuredContent).toMatchObject({
+        metric: null,
+        window: { start: '2026-01-09T12:00:00.000Z', end: '2026-01-10T12:00:00.000Z' },
+        available_metrics: [
+          { metric: 'hashrate.current_hashrate', source: 'hashrate', samples: 1 },
+          { metric: 'price.price', source: 'price', samples: 25 },
+        ],
+        data_points: [],
+        summary: null,
+      });
+      expect(response.content[0]?.text).toContain('`price.price`');
+    });
+
+    it('should filter listed metrics by source', async () => {
+      const response = await tool.execute({ source: 'hashrate' });
+
+      expect(response.structuredContent?.['available_metrics']).toHaveLength(1);
+    });
+
+    it('should explain when nothing has been recorded', async () => {
+      const response = await new SnapshotHistoryTool(new MemorySnapshotStore()).execute({});
+
+      expect(response.content[0]?.text).toContain('No Snapshots Recorded');
+    });
+  });
+
+  describe('metric history', () => {
+    it('should return data points and summary statistics', async () => {
+      const response = await tool.execute({ metric: 'price.price', hours: 2 });
+
+      expect(response.structuredContent).toMatchObject({
+        metric: 'price.price',
+        data_points: [
+          { timestamp: '2026-01-10T10:00:00.000Z', value: 92800 },
+          { timestamp: '2026-01-10T11:00:00.000Z', value: 92900 },
+          { timestamp: '2026-01-10T12:00:00.000Z', value: 93000 },
+        ],
+        count: 3,
+        total_available: 3,
+        summary: { min: 92800, max: 93000, avg: 92900, first: 92800, last: 93000 },
+      });
+      const text = response.content[0]?.text ?? '';
+      expect(text).toContain('Snapshot History: `price.price`');
+      expect(text).toContain('**Latest:** 93,000');
+    });
+
+    it('should honor an explicit start and end', async () => {
+      const response = await tool.execute({
+        metric: 'price.price',
+        start: '2026-01-09T06:00:00Z',
+        end: '2026-01-09T08:00:00Z',
+      });
+
+      expect(response.structuredContent?.['count']).toBe(3);
+    });
+
+    it('should keep the most recent points up to the limit', async () => {
+      const response = await tool.execute({ metric: 'price.price', limit: 2 });
+
+      expect(response.structuredContent).toMatchObject({ count: 2, total_available: 25 });
+      expect(response.content[0]?.text).toContain('(of 25 recorded)');
+    });
+
+    it('should report a metric with no samples', async () => {
+      const response = await tool.execute({ metric: 'pools.Foundry USA.hashrate_percent' });
+
+      expect(response.isError).toBeFalsy();
+      expect(response.structuredContent?.['summary']).toBeNull();
+      expect(response.content[0]?.text).toContain('No Data Available');
+    });
+  });
+
+  describe('input validation', () => {
+    it('should reject an unknown source', async () => {
+      const response = await tool.execute({ source: 'weather' });
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0]?.text).toContain('Validation Error');
+    });
+
+    it('should reject start after end', async () => {
+      const response = await tool.execute({
+        start: '2026-01-10T00:00:00Z',
+        end: '2026-01-09T00:00:00Z',
+      });
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0]?.text).toContain('start cannot be later than end');
+    });
+
+    it('should reject malformed dates', async () => {
+      const response = await tool.execute({ start: 'yesterday' });
+
+      expect(response.isError).toBe(true);
+    });
+  });
+});
@@ -3,15 +3,27 @@
  */
 
 import { jest } from '@jest/globals';
-import { TransactionFeesHistoryTool } from '../../../src/tools/historical/transaction-fees-history.js';
+import {
+  TransactionFeesHistoryTool,
+  type TransactionFeesHistoryOutput,
+} from '../../../src/tools/historical/transaction-fees-history.js';
 import { BraiinsInsightsTransactionFees } from '../../../src/types/insights-api.js';
 import { InsightsApiError, NetworkError } from '../../../src/api/insights-client.js';
+import type { MCPToolResponse } from '../../../src/tools/index.js';
 
 // Mock API client
-const createMockApiClient = (): { getTransactionFeesHistory: jest.Mock } => ({
+const createMockApiClient = (): {
+  getTransactionFeesHistory: jest.Mock;
+  getHashrateAndDifficultyHistory: jest.Mock;
+} => ({
   getTransactionFeesHistory: jest.fn(),
+  getHashrateAndDifficultyHistory: jest.fn(),
 });
 
+// Structured payload of a successful run, typed by the tool's output schema
+const structured = (result: MCPToolResponse): TransactionFeesHistoryOutput =>
+  result.structuredContent as TransactionFeesHistoryOutput;
+
 // Sample valid response data
 const SAMPLE_TX_FEES: BraiinsInsightsTransactionFees[] = [
   {
@@ -166,7 +178,120 @@ describe('TransactionFeesHistoryTool', () => {
     });
   });
 
+  describe('execute - chart', () => {
+    const decodeSvg = (result: MCPToolResponse): string => {
+      const image = result.content[1];
+      return image?.type === 'image' ? Buffer.from(image.data, 'base64').toString('utf8') : '';
+    };
+
+    it('should chart average fees in BTC when requested', async () => {
+      mockApiClient.getTransactionFeesHistory.mockResolvedValue(SAMPLE_TX_FEES);
+
+      const plain = await tool.execute({});
+      const result = await tool.execute({ include_chart: true });
+      const svg = decodeSvg(result);
+
+      expect(plain.content).toHaveLength(1);
+      expect(result.content[1]).toMatchObject({ type: 'image', mimeType: 'image/svg+xml' });
+      expect(svg).toContain('Bitcoin Average Transaction Fee');
+      expect(svg.match(/<path /g)).toHaveLength(1);
+    });
+
+    it('should add fees in USD on the right axis when available', async () => {
+      mockApiClient.getTransactionFeesHistory.mockResolvedValue(
+        SAMPLE_TX_FEES.map((entry) => ({ ...entry, avg_fee_usd: entry.avg_fee_btc * 90000 }))
+      );
+
+      const result = await tool.execute({ include_chart: true });
+      const svg = decodeSvg(result);
+
+      expect(svg.match(/<path /g)).toHaveLength(2);
+      expect(svg).toContain('>Avg fee in USD (right)</text>');
+    });
+  });
+
+  describe('execute - time series', () => {
+    it('should add a moving average column', async () => {
+      mockApiClient.getTransactionFeesHistory.mockResolvedValue(SAMPLE_TX_FEES);
+
+      const result = await tool.execute({ moving_average: 2 });
+      const output = structured(result);
+
+      expect(output.data_points[0]?.moving_average?.avg_fee_btc).toBeCloseTo(0.000135, 9);
+      expect(output.data_points[3]?.moving_average?.avg_fee_btc).toBeNull();
+      expect(output.query.moving_average).toBe(2);
+      expect(result.content[0].text).toContain('2-pt MA (BTC)');
+    });
+
+    it('should filter to the date window', async () => {
+      mockApiClient.getTransactionFeesHistory.mockResolvedValue(SAMPLE_TX_FEES);
+
+      const result = await tool.execute({ end_date: '2025-12-13' });
+      const output = structured(result);
+
+      expect(output.data_points.map((point) => point.date)).toEqual(['2025-12-13', '2025-12-12']);
+      expect(result.content[0].text).toContain('**Window:** until 2025-12-13');
+    });
+
+    it('should resample by the difficulty adjustments in the hashrate history', async () => {
+      mockApiClient.getTransactionFeesHistory.mockResolvedValue(SAMPLE_TX_FEES);
+      mockApiClient.getHashrateAndDifficultyHistory.mockResolvedValue([
+        { timestamp: '2025-12-15T00:00:00Z', hashrate_ehs: 1050, difficulty: 149.3e12 },
+        { timestamp: '2025-12-14T00:00:00Z', hashrate_ehs: 1040, difficulty: 149.3e12 },
+        { timestamp: '2025-12-13T00:00:00Z', hashrate_ehs: 1030, difficulty: 148.2e12 },
+        { timestamp: '2025-12-12T00:00:00Z', hashrate_ehs: 1020, difficulty: 148.2e12 },
+      ]);
+
+      const result = await tool.execute({ resample: 'epoch', aggregation: 'min' });
+      const output = structured(result);
+
+      expect(output.data_points.map((point) => [point.date, point.period_end])).toEqual([
+        ['2025-12-14', '2025-12-15'],
+        ['2025-12-12', '2025-12-13'],
+      ]);
+      expect(output.data_points[0]?.avg_fee_btc).toBe(0.00012);
+      expect(result.content[0].text).toContain('min per difficulty epoch');
+    });
+
+    it('should estimate epochs when the difficulty history is unavailable', async () => {
+      mockApiClient.getTransactionFeesHistory.mockResolvedValue(SAMPLE_TX_FEES);
+      mockApiClient.getHashrateAndDifficultyHistory.mockRejectedValue(
+        new NetworkError('Connection refused')
+      );
+
+      const result = await tool.execute({ resample: 'epoch' });
+
+      expect(result.isError).toBe(false);
+      expect(result.structuredContent).toMatchObject({ query: { estimated_epochs: true } });
+      expect(result.content[0].text).toContain(
+        'per difficulty epoch (estimated from the date; difficulty history unavailable)'
+      );
+    });
+
+    it('should fetch the difficulty history only for epoch resampling', async () => {
+      mockApiClient.getTransactionFeesHistory.mockResolvedValue(SAMPLE_TX_FEES);
+
+      await tool.execute({ resample: 'weekly' });
+
+      expect(mockApiClient.getHashrateAndDifficultyHistory).not.toHaveBeenCalled();
+    });
+  });
+
   describe('execute - edge cases', () => {
+    it('should explain when the date window excludes all data', async () => {
+      mockApiClient.getTransactionFeesHistory.mockResolvedValue(SAMPLE_TX_FEES);
+
+      const result = await tool.execute({ start_date: '2020-01-01', end_date: '2020-12-31' });
+
+      expect(result.isError).toBe(false);
+      const text = result.content[0].text;
+      expect(text).toContain('No Data Available');
+      expect(text).toContain('**Window:** 2020-01-01 to 2020-12-31');
+      expect(text).toContain('No data falls within the requested window');
+      expect(text).not.toContain('returned from the API');
+      expect(structured(result).total_available).toBe(SAMPLE_TX_FEES.length);
+    });
+
     it('should handle empty data array', async () => {
       mockApiClient.getTransactionFeesHistory.mockResolvedValue([]);
 
@@ -0,0 +1,254 @@
+/**
+ * Unit tests for the HTTP transport
+ *
+ * Tests cover: health check, Streamable HTTP session lifecycle, per-session
+ * servers sharing tool instances, and request validation.
+ */
+
+/* global Response */
+
+import { request } from 'node:http';
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { createMcpServer } from '../../../src/server.js';
+import { startHttpTransport, HttpTransportHandle } from '../../../src/transports/http.js';
+import { MCPTool, ToolCategory } from '../../../src/tools/index.js';
+
+const STREAMABLE_HEADERS = {
+  'Content-Type': 'application/json',
+  Accept: 'application/json, text/event-stream',
+};
+
+const INITIALIZE_REQUEST = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-06-18',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  },
+};
+
+/**
+ * Post an initialize request with raw headers, which fetch does not let us set (e.g. Host)
+ */
+const postInitialize = (url: string, headers: Record<string, string>): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const req = request(
+      `${url}/mcp`,
+      { method: 'POST', headers: { ...STREAMABLE_HEADERS, ...headers } },
+      (res) => {
+        res.resume();
+        res.on('end', () => resolve(res.statusCode ?? 0));
+      }
+    );
+    req.on('error', reject);
+    req.end(JSON.stringify(INITIALIZE_REQUEST));
+  });
+
+/**
+ * Parse a Streamable HTTP response, which may be plain JSON or an SSE stream
+ */
+const readRpcResponse = async (response: Response): Promise<Record<string, any>> => {
+  const text = await response.text();
+  if (response.headers.get('content-type')?.includes('text/event-stream')) {
+    const dataLine = text.split('\n').find((line) => line.startsWith('data: '));
+    return JSON.parse(dataLine?.slice('data: '.length) ?? '{}');
+  }
+  return JSON.parse(text);
+};
+
+describe('HTTP transport', () => {
+  let handle: HttpTransportHandle;
+  let execute: jest.Mock<MCPTool['execute']>;
+
+  const initializeSession = async (): Promise<string> => {
+    const response = await fetch(`${handle.url}/mcp`, {
+      method: 'POST',
+      headers: STREAMABLE_HEADERS,
+      body: JSON.stringify(INITIALIZE_REQUEST),
+    });
+    expect(response.status).toBe(200);
+    await readRpcResponse(response);
+    return response.headers.get('mcp-session-id') ?? '';
+  };
+
+  beforeEach(async () => {
+    execute = jest.fn<MCPTool['execute']>();
+    const tools: MCPTool[] = [
+      {
+        name: 'braiins_test_tool',
+        description: 'Test tool',
+        category: ToolCategory.Simple,
+        tags: ['test'],
+        endpoints: ['/v1.0/hashrate-stats'],
+        inputSchema: { type: 'object', properties: {}, required: [] },
+        execute,
+      },
+    ];
+    handle = await startHttpTransport({ host: '127.0.0.1', port: 0 }, () => createMcpServer(tools));
+  });
+
+  afterEach(async () => {
+    await handle.close();
+  });
+
+  describe('health check', () => {
+    it('should report status and session counts', async () => {
+      const response = await fetch(`${handle.url}/healthz`);
+      const body = (await response.json()) as Record<string, any>;
+
+      expect(response.status).toBe(200);
+      expect(body['status']).toBe('ok');
+      expect(body['transport']).toBe('http');
+      expect(body['sessions']).toEqual({ streamable: 0, sse: 0 });
+    });
+
+    it('should return 404 for unknown paths', async () => {
+      const response = await fetch(`${handle.url}/unknown`);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('Streamable HTTP sessions', () => {
+    it('should create a session on initialize', async () => {
+      const sessionId = await initializeSession();
+
+      expect(sessionId).not.toBe('');
+      expect(handle.sessionCounts().streamable).toBe(1);
+    });
+
+    it('should route tool calls to the session server', async () => {
+      execute.mockResolvedValue({ content: [{ type: 'text', text: 'hello' }], isError: false });
+      const sessionId = await initializeSession();
+
+      const response = await fetch(`${handle.url}/mcp`, {
+        method: 'POST',
+        headers: {
+          ...STREAMABLE_HEADERS,
+          'mcp-session-id': sessionId,
+          'mcp-protocol-version': '2025-06-18',
+        },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: 2,
+          method: 'tools/call',
+          params: { name: 'braiins_test_tool', arguments: { format: 'json' } },
+        }),
+      });
+      const body = await readRpcResponse(response);
+
+      expect(response.status).toBe(200);
+      expect(body['result'].content[0].text).toBe('hello');
+      expect(execute).toHaveBeenCalledWith({ format: 'json' });
+    });
+
+    it('should keep sessions isolated', async () => {
+      const first = await initializeSession();
+      const second = await initializeSession();
+
+      expect(first).not.toBe(second);
+      expect(handle.sessionCounts().streamable).toBe(2);
+    });
+
+    it('should close sessions left idle', async () => {
+      await handle.close();
+      handle = await startHttpTransport(
+        { host: '127.0.0.1', port: 0, sessionIdleTimeoutMs: 50 },
+        () => createMcpServer([])
+      );
+
+      await initializeSession();
+      expect(handle.sessionCounts().streamable).toBe(1);
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      expect(handle.sessionCounts().streamable).toBe(0);
+    });
+
+    it('should remove a session on DELETE', async () => {
+      const sessionId = await initializeSession();
+
+      const response = await fetch(`${handle.url}/mcp`, {
+        method: 'DELETE',
+        headers: { 'mcp-session-id': sessionId, 'mcp-protocol-version': '2025-06-18' },
+      });
+
+      expect(response.status).toBe(200);
+      expect(handle.sessionCounts().streamable).toBe(0);
+    });
+  });
+
+  describe('request validation', () => {
+    it('should reject non-initialize requests without a session', async () => {
+      const response = await fetch(`${handle.url}/mcp`, {
+        method: 'POST',
+        headers: STREAMABLE_HEADERS,
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject unknown session ids', async () => {
+      const response = await fetch(`${handle.url}/mcp`, {
+        method: 'POST',
+        headers: { ...STREAMABLE_HEADERS, 'mcp-session-id': 'missing' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+      });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should reject malformed JSON', async () => {
+      const response = await fetch(`${handle.url}/mcp`, {
+        method: 'POST',
+        headers: STREAMABLE_HEADERS,
+        body: '{not json',
+      });
+      const body = (await response.json()) as Record<string, any>;
+
+      expect(response.status).toBe(400);
+      expect(body['error'].code).toBe(-32700);
+    });
+
+    it('should reject non-loopback Host headers on a loopback bind', async () => {
+      const port = new URL(handle.url).port;
+
+      expect(await postInitialize(handle.url, { Host: `evil.example:${port}` })).toBe(403);
+      expect(await postInitialize(handle.url, { Host: `localhost:${port}` })).toBe(200);
+      expect(handle.sessionCounts().streamable).toBe(1);
+    });
+
+    it('should reject foreign Origin headers on a loopback bind', async () => {
+      const port = new URL(handle.url).port;
+
+      expect(await postInitialize(handle.url, { Origin: 'http://evil.example' })).toBe(403);
+      expect(await postInitialize(handle.url, { Origin: `http://127.0.0.1:${port}` })).toBe(200);
+    });
+
+    it('should reject SSE streams with a foreign Host header', async () => {
+      const status = await new Promise<number>((resolve, reject) => {
+        const req = request(`${handle.url}/sse`, { headers: { Host: 'evil.example' } }, (res) => {
+          res.resume();
+          resolve(res.statusCode ?? 0);
+        });
+        req.on('error', reject);
+        req.end();
+      });
+
+      expect(status).toBe(403);
+      expect(handle.sessionCounts().sse).toBe(0);
+    });
+
+    it('should reject messages for unknown SSE sessions', async () => {
+      const response = await fetch(`${handle.url}/messages?sessionId=missing`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+      });
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Unit tests for chart rendering utilities
+ *
+ * Tests cover: sparkline, renderLineChartSvg and toSvgImageContent.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  dateAnnotations,
+  halvingAnnotations,
+  renderLineChartSvg,
+  sparkline,
+  toSvgImageContent,
+} from '../../../src/utils/charts.js';
+
+describe('chart utilities', () => {
+  describe('sparkline', () => {
+    it('should scale values from the lowest to the highest level', () => {
+      expect(sparkline([1, 2, 3, 4, 5, 6, 7, 8])).toBe('▁▂▃▄▅▆▇█');
+      expect(sparkline([8, 1])).toBe('█▁');
+    });
+
+    it('should draw a flat line for constant values', () => {
+      expect(sparkline([5, 5, 5])).toBe('▄▄▄');
+    });
+
+    it('should leave gaps for missing values', () => {
+      expect(sparkline([1, null, 3])).toBe('▁ █');
+      expect(sparkline([null, Number.NaN])).toBe('');
+      expect(sparkline([])).toBe('');
+    });
+
+    it('should average long series into the width', () => {
+      const values = Array.from({ length: 100 }, (_, index) => index);
+
+      expect(sparkline(values, 10)).toHaveLength(10);
+      expect(sparkline(values, 10)).toBe('▁▂▃▃▄▅▆▆▇█');
+    });
+  });
+
+  describe('renderLineChartSvg', () => {
+    it('should draw a path and legend entry per series', () => {
+      const svg = renderLineChartSvg({
+        title: 'Price & Cost',
+        xLabels: ['Jan', 'Feb', 'Mar'],
+        series: [
+          { name: 'Price', values: [100, 110, 120] },
+          { name: 'Cost <total>', values: [90, null, 95], color: '#123456' },
+        ],
+      });
+
+      expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+      expect(svg.endsWith('</svg>')).toBe(true);
+      expect(svg).toContain('Price &amp; Cost');
+      expect(svg).toContain('Cost &lt;total&gt;');
+      expect(svg.match(/<path /g)).toHaveLength(2);
+      // The gap restarts the line
+      expect(svg).toMatch(/<path d="M[\d. ]+ M[\d. ]+" fill="none" stroke="#123456"/);
+      expect(svg).toContain('>Feb</text>');
+    });
+
+    it('should draw a dashed reference line with its label', () => {
+      const svg = renderLineChartSvg({
+        title: 'Profit',
+        xLabels: ['1', '2'],
+        series: [{ name: 'Profit', values: [5, 10] }],
+        referenceLine: { value: 0, label: 'Break-even' },
+        formatValue: (value) => `$${value.toFixed(0)}`,
+      });
+
+      expect(svg).toContain('stroke-dasharray="6 4"');
+      expect(svg).toContain('>Break-even</text>');
+      expect(svg).toMatch(/>\$-?\d+<\/text>/);
+    });
+
+    it('should limit x labels to eight plus the last', () => {
+      const xLabels = Array.from({ length: 30 }, (_, index) => `P${index + 1}`);
+      const svg = renderLineChartSvg({
+        title: 'Long',
+        xLabels,
+        series: [{ name: 'Value', values: xLabels.map((_, index) => index) }],
+      });
+
+      const shown = xLabels.filter((label) => svg.includes(`>${label}</text>`));
+      expect(shown.length).toBeLessThanOrEqual(9);
+      expect(shown).toContain('P1');
+      expect(shown).toContain('P30');
+    });
+
+    it('should scale right-axis series separately', () => {
+      const svg = renderLineChartSvg({
+        title: 'Dual',
+        xLabels: ['1', '2'],
+        series: [
+          { name: 'Small', values: [1, 2] },
+          { name: 'Large', values: [1000, 2000], axis: 'right' },
+        ],
+        formatRightValue: (value) => `${value.toFixed(0)}R`,
+      });
+      const paths = [...svg.matchAll(/<path d="([^"]+)"/g)].map((match) => match[1]);
+
+      // Both series span the full height of the plot
+      expect(paths[0]).toBe(paths[1]);
+      expect(svg).toContain('>Large (right)</text>');
+      expect(svg).toMatch(/text-anchor="start" fill="#555555">\d+R<\/text>/);
+    });
+
+    it('should draw major and minor markers', () => {
+      const svg = renderLineChartSvg({
+        title: 'Markers',
+        xLabels: ['1', '2', '3'],
+        series: [{ name: 'Value', values: [1, 2, 3] }],
+        annotations: [
+          { index: 1, label: 'Halving 2024' },
+          { index: 2, style: 'minor' },
+          { index: 7, label: 'Outside' },
+        ],
+      });
+
+      expect(svg).toContain('>Halving 2024</text>');
+      expect(svg).toContain('stroke="#444444" stroke-dasharray="4 3"');
+      expect(svg.match(/stroke="#dddddd"/g)).toHaveLength(1);
+      expect(svg).not.toContain('Outside');
+    });
+  });
+
+  describe('dateAnnotations', () => {
+    const DATES = ['2024-04-18', '2024-04-19', '2024-04-21', '2024-04-22'];
+
+    it('should mark the first date on or after each event', () => {
+      expect(
+        dateAnnotations(DATES, [{ date: '2024-04-20', label: 'Halving' }, { date: '2024-04-18' }])
+      ).toEqual([
+        { index: 2, label: 'Halving', style: 'major' },
+        { index: 0, style: 'major' },
+      ]);
+    });
+
+    it('should skip events outside the range', () => {
+      expect(dateAnnotations(DATES, [{ date: '2024-04-23' }, { date: '2024-04-01' }])).toEqual([]);
+      expect(dateAnnotations([], [{ date: '2024-04-20' }])).toEqual([]);
+    });
+  });
+
+  describe('halvingAnnotations', () => {
+    it('should label halvings by year', () => {
+      expect(halvingAnnotations(['2024-04-18', '2024-04-21'])).toEqual([
+        { index: 1, label: 'Halving 2024', style: 'major' },
+      ]);
+      expect(halvingAnnotations(['2016-01-01', '2021-01-01']).map((a) => a.label)).toEqual([
+        'Halving 2016',
+        'Halving 2020',
+      ]);
+    });
+  });
+
+  describe('toSvgImageContent', () => {
+    it('should base64-encode the SVG as an image content block', () => {
+      const content = toSvgImageContent('<svg/>');
+
+      expect(content).toEqual({
+        type: 'image',
+        data: Buffer.from('<svg/>').toString('base64'),
+        mimeType: 'image/svg+xml',
+      });
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Unit tests for tool output formatting utilities
+ *
+ * Tests cover: getOutputFormat, toOutputSchema and buildToolResponse.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { z } from 'zod';
+import {
+  OUTPUT_FORMAT_PROPERTY,
+  buildToolResponse,
+  getOutputFormat,
+  toOutputSchema,
+} from '../../../src/utils/output-format.js';
+
+describe('output-format utilities', () => {
+  describe('getOutputFormat', () => {
+    it('should default to markdown when format is missing', () => {
+      expect(getOutputFormat({})).toBe('markdown');
+      expect(getOutputFormat(undefined)).toBe('markdown');
+      expect(getOutputFormat(null)).toBe('markdown');
+    });
+
+    it('should return supported formats', () => {
+      expect(getOutputFormat({ format: 'json' })).toBe('json');
+      expect(getOutputFormat({ format: 'both' })).toBe('both');
+      expect(getOutputFormat({ format: 'markdown' })).toBe('markdown');
+    });
+
+    it('should reject unknown formats', () => {
+      expect(() => getOutputFormat({ format: 'xml' })).toThrow(z.ZodError);
+      expect(() => getOutputFormat({ format: 'JSON' })).toThrow(z.ZodError);
+      expect(() => getOutputFormat({ format: 42 })).toThrow(z.ZodError);
+    });
+  });
+
+  describe('OUTPUT_FORMAT_PROPERTY', () => {
+    it('should describe all formats with markdown as default', () => {
+      expect(OUTPUT_FORMAT_PROPERTY.enum).toEqual(['markdown', 'json', 'both']);
+      expect(OUTPUT_FORMAT_PROPERTY.default).toBe('markdown');
+    });
+  });
+
+  describe('toOutputSchema', () => {
+    it('should convert a zod object to a JSON schema without $schema', () => {
+      const schema = toOutputSchema(
+        z.object({
+          price_usd: z.number(),
+          timestamp: z.string().nullable(),
+        })
+      );
+
+      expect(schema.type).toBe('object');
+      expect(schema.properties).toHaveProperty('price_usd');
+      expect(schema.required).toEqual(['price_usd', 'timestamp']);
+      expect(schema).not.toHaveProperty('$schema');
+    });
+  });
+
+  describe('buildToolResponse', () => {
+    const payload = { price_usd: 97000.5 };
+
+    it('should return markdown only for markdown format', () => {
+      const response = buildToolResponse('markdown', '# Report', payload);
+
+      expect(response.isError).toBe(false);
+      expect(response.content).toEqual([{ type: 'text', text: '# Report' }]);
+      expect(response.structuredContent).toEqual(payload);
+    });
+
+    it('should return serialized JSON only for json format', () => {
+      const response = buildToolResponse('json', '# Report', payload);
+
+      expect(response.content).toHaveLength(1);
+      expect(JSON.parse(response.content[0]?.text ?? '')).toEqual(payload);
+    });
+
+    it('should return markdown followed by JSON for both format', () => {
+      const response = buildToolResponse('both', '# Report', payload);
+
+      expect(response.content).toHaveLength(2);
+      expect(response.content[0]?.text).toBe('# Report');
+      expect(JSON.parse(response.content[1]?.text ?? '')).toEqual(payload);
+      expect(response.structuredContent).toEqual(payload);
+    });
+
+    it('should append image content after the text', () => {
+      const image = { type: 'image' as const, data: 'PHN2Zy8+', mimeType: 'image/svg+xml' };
+
+      expect(buildToolResponse('markdown', '# Report', payload, [image]).content).toEqual([
+        { type: 'text', text: '# Report' },
+        image,
+      ]);
+      expect(buildToolResponse('both', '# Report', payload, [image]).content[2]).toEqual(image);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit tests for stale data annotations
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { formatAge, formatStaleNotice, toStaleMeta } from '../../../src/utils/staleness.js';
+
+const NOW = Date.parse('2025-12-15T12:00:00Z');
+
+describe('formatAge', () => {
+  it('should describe ages in minutes, then hours', () => {
+    expect(formatAge(30_000)).toBe('less than a minute ago');
+    expect(formatAge(60_000)).toBe('1 minute ago');
+    expect(formatAge(14 * 60_000)).toBe('14 minutes ago');
+    expect(formatAge(119 * 60_000)).toBe('119 minutes ago');
+    expect(formatAge(5 * 3_600_000)).toBe('5 hours ago');
+  });
+});
+
+describe('formatStaleNotice', () => {
+  it('should return an empty string when nothing is stale', () => {
+    expect(formatStaleNotice([], NOW)).toBe('');
+  });
+
+  it('should list each endpoint once with the oldest fetch time', () => {
+    const notice = formatStaleNotice(
+      [
+        { endpoint: '/v1.0/price-stats', fetchedAt: NOW - 3 * 60_000, reason: 'revalidating' },
+        { endpoint: '/v1.0/price-stats', fetchedAt: NOW - 5 * 60_000, reason: 'revalidating' },
+      ],
+      NOW
+    );
+
+    expect(notice).toBe(
+      '⚠️ **Stale data**: cached values shown while they are refreshed\n\n' +
+        '- `/v1.0/price-stats`: stale, fetched 5 minutes ago'
+    );
+  });
+
+  it('should mention the upstream outage and error', () => {
+    const notice = formatStaleNotice(
+      [
+        {
+          endpoint: '/v1.0/hashrate-stats',
+          fetchedAt: NOW - 20 * 60_000,
+          reason: 'upstream-error',
+          error: 'API request failed: Bad Gateway',
+        },
+      ],
+      NOW
+    );
+
+    expect(notice).toContain('Braiins Insights API unavailable');
+    expect(notice).toContain(
+      '`/v1.0/hashrate-stats`: stale, fetched 20 minutes ago (API request failed: Bad Gateway)'
+    );
+  });
+});
+
+describe('toStaleMeta', () => {
+  it('should summarize stale responses', () => {
+    expect(
+      toStaleMeta(
+        [{ endpoint: '/v1.0/blocks', fetchedAt: NOW - 90_000, reason: 'revalidating' }],
+        NOW
+      )
+    ).toEqual([
+      {
+        endpoint: '/v1.0/blocks',
+        fetched_at: '2025-12-15T11:58:30.000Z',
+        age_seconds: 90,
+        reason: 'revalidating',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * Unit tests for time-series utilities
+ *
+ * Tests cover: parseTimeSeriesQuery, transformTimeSeries, describeTimeSeriesQuery,
+ * describeEmptyWindow, toQueryContent, toTimeSeriesPointContent, estimatedEpoch and difficultyEpochs.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { z } from 'zod';
+import {
+  TimeSeriesPoint,
+  TimeSeriesQuery,
+  describeEmptyWindow,
+  describeTimeSeriesQuery,
+  difficultyEpochs,
+  estimatedEpoch,
+  parseTimeSeriesQuery,
+  toQueryContent,
+  toTimeSeriesPointContent,
+  transformTimeSeries,
+} from '../../../src/utils/time-series.js';
+
+const DAY = 86_400_000;
+
+/** Daily points from 2024-01-01 (value = day number), most recent first */
+const dailySeries = (days: number): TimeSeriesPoint<'value'>[] =>
+  Array.from({ length: days }, (_, index) => ({
+    date: new Date(Date.UTC(2024, 0, 1) + index * DAY).toISOString().slice(0, 10),
+    values: { value: index + 1 },
+  })).reverse();
+
+const query = (overrides: Partial<TimeSeriesQuery> = {}): TimeSeriesQuery => ({
+  aggregation: 'mean',
+  ...overrides,
+});
+
+describe('time-series utilities', () => {
+  describe('parseTimeSeriesQuery', () => {
+    it('should parse valid inputs', () => {
+      expect(
+        parseTimeSeriesQuery({
+          start_date: '2024-01-01',
+          end_date: '2024-12-31',
+          resample: 'monthly',
+          aggregation: 'max',
+          moving_average: 3,
+        })
+      ).toEqual({
+        startDate: '2024-01-01',
+        endDate: '2024-12-31',
+        resample: 'monthly',
+        aggregation: 'max',
+        movingAverage: 3,
+      });
+    });
+
+    it('should default the aggregation and pass other inputs through', () => {
+      expect(parseTimeSeriesQuery({ limit: 10, format: 'json' })).toEqual({ aggregation: 'mean' });
+    });
+
+    it.each([
+      { start_date: '01/01/2024' },
+      { start_date: '2024-13-01' },
+      { end_date: '2024-02-30' },
+      { resample: 'quarterly' },
+      { aggregation: 'median' },
+      { moving_average: 1 },
+      { moving_average: 3.7 },
+      { moving_average: '7' },
+    ])('should reject invalid input %j', (params) => {
+      expect(() => parseTimeSeriesQuery(params)).toThrow(z.ZodError);
+    });
+
+    it('should reject a start date later than the end date', () => {
+      expect(() =>
+        parseTimeSeriesQuery({ start_date: '2024-06-01', end_date: '2024-05-31' })
+      ).toThrow('start_date cannot be later than end_date');
+      expect(parseTimeSeriesQuery({ start_date: '2024-06-01', end_date: '2024-06-01' })).toEqual({
+        startDate: '2024-06-01',
+        endDate: '2024-06-01',
+        aggregation: 'mean',
+      });
+    });
+  });
+
+  describe('transformTimeSeries', () => {
+    it('should return the series unchanged without a query', () => {
+      const series = dailySeries(5);
+
+      expect(transformTimeSeries(series, query())).toEqual(series);
+    });
+
+    it('should filter to an inclusive date window', () => {
+      const result = transformTimeSeries(
+        dailySeries(40),
+        query({ startDate: '2024-01-10', endDate: '2024-01-12' })
+      );
+
+      expect(result.map((point) => point.date)).toEqual(['2024-01-12', '2024-01-11', '2024-01-10']);
+    });
+
+    it('should compare timestamps by UTC day', () => {
+      const series = [
+        { date: '2024-01-02T23:59:00Z', values: { value: 2 } },
+        { date: '2024-01-01T00:00:00Z', values: { value: 1 } },
+      ];
+
+      expect(transformTimeSeries(series, query({ endDate: '2024-01-01' }))).toEqual([series[1]]);
+    });
+
+    it('should resample by month with each aggregation', () => {
+      const series = dailySeries(60); // 2024-01-01 to 2024-02-29
+
+      const mean = transformTimeSeries(series, query({ resample: 'monthly' }));
+      expect(mean).toEqual([
+        { date: '2024-02-01', values: { value: 46 }, lastDate: '2024-02-29', count: 29 },
+        { date: '2024-01-01', values: { value: 16 }, lastDate: '2024-01-31', count: 31 },
+      ]);
+
+      const valuesFor = (aggregation: TimeSeriesQuery['aggregation']): Array<number | null> =>
+        transformTimeSeries(series, query({ resample: 'monthly', aggregation })).map(
+          (point) => point.values.value
+        );
+      expect(valuesFor('min')).toEqual([32, 1]);
+      expect(valuesFor('max')).toEqual([60, 31]);
+      expect(valuesFor('last')).toEqual([60, 31]);
+      expect(valuesFor('sum')).toEqual([1334, 496]);
+    });
+
+    it('should resample by ISO week starting Monday', () => {
+      // 2024-01-01 is a Monday
+      const result = transformTimeSeries(dailySeries(10), query({ resample: 'weekly' }));
+
+      expect(result.map((point) => [point.date, point.count])).toEqual([
+        ['2024-01-08', 3],
+        ['2024-01-01', 7],
+      ]);
+    });
+
+    it('should resample timestamps by UTC day', () => {
+      const series = [
+        { date: '2024-01-02T06:00:00Z', values: { value: 4 } },
+        { date: '2024-01-01T18:00:00Z', values: { value: 3 } },
+        { date: '2024-01-01T06:00:00Z', values: { value: 1 } },
+      ];
+
+      expect(transformTimeSeries(series, query({ resample: 'daily' }))).toEqual([
+        { date: '2024-01-02', values: { value: 4 }, lastDate: '2024-01-02', count: 1 },
+        { date: '2024-01-01', values: { value: 2 }, lastDate: '2024-01-01', count: 2 },
+      ]);
+    });
+
+    it('should resample by epoch key', () => {
+      const series = dailySeries(6).map((point) => ({
+        ...point,
+        values: { ...point.values, difficulty: (point.values.value ?? 0) <= 4 ? 100 : 110 },
+      }));
+
+      const result = transformTimeSeries(
+        series,
+        query({ resample: 'epoch', aggregation: 'last' }),
+        (point) => point.values.difficulty
+      );
+
+      expect(result).toEqual([
+        {
+          date: '2024-01-05',
+          values: { value: 6, difficulty: 110 },
+          lastDate: '2024-01-06',
+          count: 2,
+        },
+        {
+          date: '2024-01-01',
+          values: { value: 4, difficulty: 100 },
+          lastDate: '2024-01-04',
+          count: 4,
+        },
+      ]);
+    });
+
+    it('should skip missing values when aggregating', () => {
+      const series = [
+        { date: '2024-02-01', values: { value: null } },
+        { date: '2024-01-03', values: { value: null } },
+        { date: '2024-01-02', values: { value: 4 } },
+      ];
+
+      const result = transformTimeSeries(series, query({ resample: 'monthly' }));
+
+      expect(result.map((point) => point.values.value)).toEqual([null, 4]);
+    });
+
+    it('should add a trailing moving average after resampling', () => {
+      const result = transformTimeSeries(dailySeries(5), query({ movingAverage: 3 }));
+
+      expect(result.map((point) => point.movingAverage?.value)).toEqual([4, 3, 2, null, null]);
+
+      const monthly = transformTimeSeries(
+        dailySeries(91),
+        query({ resample: 'monthly', movingAverage: 2 })
+      );
+      expect(monthly.map((point) => point.movingAverage?.value)).toEqual([61, 31, null]);
+    });
+  });
+
+  describe('describeTimeSeriesQuery', () => {
+    it('should describe the applied query', () => {
+      expect(describeTimeSeriesQuery(query())).toBeNull();
+      expect(
+        describeTimeSeriesQuery(
+          query({
+            startDate: '2024-01-01',
+            endDate: '2024-12-31',
+            resample: 'monthly',
+            movingAverage: 3,
+          })
+        )
+      ).toBe('2024-01-01 to 2024-12-31, monthly mean, 3-point moving average');
+      expect(
+        describeTimeSeriesQuery(
+          query({ startDate: '2024-01-01', resample: 'epoch', aggregation: 'max' })
+        )
+      ).toBe('from 2024-01-01, max per difficulty epoch');
+      expect(describeTimeSeriesQuery(query({ endDate: '2024-06-30' }))).toBe('until 2024-06-30');
+      expect(describeTimeSeriesQuery(query({ resample: 'epoch', estimatedEpochs: true }))).toBe(
+        'mean per difficulty epoch (estimated from the date; difficulty history unavailable)'
+      );
+    });
+  });
+
+  describe('describeEmptyWindow', () => {
+    it('should echo the window and the returned date range', () => {
+      expect(
+        describeEmptyWindow(
+          dailySeries(31),
+          query({ startDate: '2023-01-01', endDate: '2023-12-31' })
+        )
+      ).toBe(
+        '**Window:** 2023-01-01 to 2023-12-31\n\n' +
+          'No data falls within the requested window; the API returned 31 data points ' +
+          'from 2024-01-01 to 2024-01-31.'
+      );
+    });
+  });
+
+  describe('toQueryContent', () => {
+    it('should report aggregation only when resampled', () => {
+      expect(toQueryContent(query({ startDate: '2024-01-01' }))).toEqual({
+        start_date: '2024-01-01',
+        end_date: null,
+        resample: null,
+        aggregation: null,
+        moving_average: null,
+        estimated_epochs: false,
+      });
+      expect(toQueryContent(query({ resample: 'weekly', aggregation: 'sum' }))).toMatchObject({
+        resample: 'weekly',
+        aggregation: 'sum',
+      });
+    });
+  });
+
+  describe('toTimeSeriesPointContent', () => {
+    it('should add fields only for transformed points', () => {
+      expect(toTimeSeriesPointContent({ date: '2024-01-01', values: { value: 1 } })).toEqual({});
+      expect(
+        toTimeSeriesPointContent({
+          date: '2024-01-01',
+          values: { value: 1 },
+          lastDate: '2024-01-31',
+          count: 31,
+          movingAverage: { value: null },
+        })
+      ).toEqual({ period_end: '2024-01-31', sample_count: 31, moving_average: { value: null } });
+    });
+  });
+
+  describe('estimatedEpoch', () => {
+    it('should estimate the difficulty epoch from the date', () => {
+      // Block 840,000 (epoch 416) was mined on 2024-04-20
+      expect(estimatedEpoch('2024-04-20T12:00:00Z')).toBe(416);
+      expect(estimatedEpoch('2024-05-05')).toBe(417);
+    });
+
+    it('should interpolate between halvings for past dates', () => {
+      // Blocks 420,000 (epoch 208) and 630,000 (epoch 312) were mined on these days
+      expect(estimatedEpoch('2016-07-09T18:00:00Z')).toBe(208);
+      expect(estimatedEpoch('2020-05-11T20:00:00Z')).toBe(312);
+      expect(estimatedEpoch('2008-12-31')).toBe(0);
+    });
+  });
+
+  describe('difficultyEpochs', () => {
+    // Block 631,008 started epoch 313 on 2020-05-20 with a drop in difficulty; the
+    // estimate alone puts that boundary two days early
+    const history = [
+      { date: '2020-05-22T00:00:00Z', difficulty: 15.14e12 },
+      { date: '2020-05-21T00:00:00Z', difficulty: 15.14e12 },
+      { date: '2020-05-20T00:00:00Z', difficulty: 15.14e12 },
+      { date: '2020-05-19T00:00:00Z', difficulty: 16.1e12 },
+      { date: '2020-05-18T00:00:00Z', difficulty: 16.1e12 },
+    ];
+
+    it('should start an epoch on the day the difficulty changes', () => {
+      const epochOf = difficultyEpochs(history);
+
+      expect(estimatedEpoch('2020-05-19')).toBe(313);
+      expect(epochOf('2020-05-18')).toBe(312);
+      expect(epochOf('2020-05-19T23:00:00Z')).toBe(312);
+      expect(epochOf('2020-05-20')).toBe(313);
+      expect(epochOf('2020-05-22')).toBe(313);
+    });
+
+    it('should fall back to the estimate outside the history', () => {
+      const epochOf = difficultyEpochs(history);
+
+      expect(epochOf('2024-05-05')).toBe(estimatedEpoch('2024-05-05'));
+      expect(difficultyEpochs([])('2024-05-05')).toBe(417);
+    });
+
+    it('should resample a series on the adjustment boundary', () => {
+      const series = history.map((sample, index) => ({
+        date: sample.date.slice(0, 10),
+        values: { value: index },
+      }));
+      const epochOf = difficultyEpochs(history);
+
+      const result = transformTimeSeries(
+        series,
+        query({ resample: 'epoch', aggregation: 'sum' }),
+        (point) => epochOf(point.date)
+      );
+
+      expect(result.map((point) => [point.date, point.lastDate, point.values.value])).toEqual([
+        ['2020-05-20', '2020-05-22', 3],
+        ['2020-05-18', '2020-05-19', 7],
+      ]);
+    });
+  });
+});